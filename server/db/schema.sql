@@ -96,6 +96,12 @@ create table if not exists services_pricing (
   plan_key text not null,
   plan_name text not null,
   price_inr integer not null check (price_inr > 0),
+  -- HSN/SAC code printed on tax invoices (null = DEFAULT_SAC_CODE).
+  sac_code text null,
+  -- Recurring plans are sold as Razorpay subscriptions billed every interval.
+  billing_interval text not null default 'one_time' check (billing_interval in ('one_time','monthly','quarterly','yearly')),
+  -- Razorpay plan created for the current price/interval (cleared when either changes).
+  razorpay_plan_id text null,
 
   is_active boolean not null default true,
   sort_order integer not null default 0,
@@ -217,6 +223,341 @@ create index if not exists idx_career_applications_created on career_application
 create index if not exists idx_career_applications_status_created on career_applications (status, created_at desc);
 create index if not exists idx_career_applications_user_created on career_applications (user_id, created_at desc);
 
+-- Hiring pipeline. Stages are configured per position (null = default
+-- pipeline used by every position without its own). Each stage maps onto the
+-- coarse career_applications.status so older views keep working.
+-- The default stages are seeded only when the table is created, so stages an
+-- admin deletes stay deleted if this file is applied again.
+do $$
+begin
+  if to_regclass('career_pipeline_stages') is null then
+    create table career_pipeline_stages (
+      id bigserial primary key,
+      created_at timestamptz not null default now(),
+      position text null,
+      label text not null,
+      sort_order integer not null default 0,
+      maps_to_status text not null check (maps_to_status in ('new','reviewing','shortlisted','rejected','hired'))
+    );
+
+    insert into career_pipeline_stages (position, label, sort_order, maps_to_status) values
+      (null, 'Applied', 0, 'new'),
+      (null, 'Screening', 1, 'reviewing'),
+      (null, 'Interview', 2, 'shortlisted'),
+      (null, 'Offer', 3, 'shortlisted'),
+      (null, 'Hired', 4, 'hired'),
+      (null, 'Rejected', 5, 'rejected');
+  end if;
+end $$;
+
+create index if not exists idx_career_pipeline_stages_position on career_pipeline_stages (position, sort_order);
+
+alter table career_applications add column if not exists stage_id bigint null references career_pipeline_stages(id) on delete set null;
+
+-- Stage moves and notes on an application (the candidate timeline).
+create table if not exists career_application_events (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  application_id bigint not null references career_applications(id) on delete cascade,
+  kind text not null check (kind in ('stage_changed','note','withdrawn','resume_replaced','info_requested','info_replied','merged','unmerged')),
+  from_stage text null,
+  to_stage text null,
+  -- Status the application moved to; the candidate sees these, not stage labels or notes.
+  to_status text null,
+  note text null,
+  actor_email text null
+);
+
+create index if not exists idx_career_application_events_app on career_application_events (application_id, created_at);
+
+create table if not exists career_interviews (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  application_id bigint not null references career_applications(id) on delete cascade,
+  round_name text not null,
+  scheduled_at timestamptz not null,
+  duration_minutes integer not null default 45 check (duration_minutes between 10 and 480),
+  interviewer_name text not null,
+  interviewer_email text null,
+  meeting_url text null,
+  status text not null default 'scheduled' check (status in ('scheduled','completed','cancelled')),
+  -- Calendar invite identity; sequence is bumped whenever the invite is re-sent.
+  ics_uid text not null unique,
+  ics_sequence integer not null default 0,
+  invite_sent_at timestamptz null,
+  created_by_email text null
+);
+
+create index if not exists idx_career_interviews_app on career_interviews (application_id, scheduled_at);
+
+create table if not exists career_scorecards (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  interview_id bigint not null references career_interviews(id) on delete cascade,
+  author_email text not null,
+  -- { "<criterion>": 1-5 }
+  ratings jsonb not null default '{}'::jsonb,
+  overall_rating integer not null check (overall_rating between 1 and 5),
+  recommendation text not null check (recommendation in ('strong_no','no','yes','strong_yes')),
+  notes text null,
+  unique (interview_id, author_email)
+);
+
+-- Roles listed on the Careers page. Applications reference the opening they
+-- were made for; closing an opening stops new applications but keeps them.
+-- The starter roles are seeded only when the table is created, so openings an
+-- admin deletes stay deleted if this file is applied again.
+do $$
+begin
+  if to_regclass('job_openings') is null then
+    create table job_openings (
+      id bigserial primary key,
+      created_at timestamptz not null default now(),
+      updated_at timestamptz not null default now(),
+      slug text not null unique,
+      title text not null unique,
+      department text null,
+      location text not null default 'India',
+      employment_type text not null default 'full_time' check (employment_type in ('full_time','part_time','contract','internship')),
+      salary_min_inr integer null check (salary_min_inr is null or salary_min_inr >= 0),
+      salary_max_inr integer null check (salary_max_inr is null or salary_max_inr >= 0),
+      -- Sanitized HTML.
+      description_html text not null default '',
+      requirements text[] not null default '{}',
+      status text not null default 'open' check (status in ('open','closed')),
+      closed_at timestamptz null,
+      sort_order integer not null default 0
+    );
+
+    insert into job_openings (slug, title, department, sort_order) values
+      ('software-developer', 'Software Developer', 'Web & app development', 0),
+      ('digital-marketing', 'Digital marketing', 'SEO • Social • Ads', 1),
+      ('web-designer-ui-ux', 'Web Designer/Ui-Ux', 'Figma • Design systems', 2),
+      ('data-cloud-operator', 'Data&Cloud Operator', 'Cloud ops • Data handling', 3),
+      ('cyber-security', 'Cyber Security(1+)', 'Security monitoring • Hardening', 4),
+      ('trainer-of-courses', 'Trainer of cources(2+)', 'Training • Mentorship', 5);
+  end if;
+end $$;
+
+create index if not exists idx_job_openings_status_sort on job_openings (status, sort_order);
+
+alter table career_applications add column if not exists opening_id bigint null references job_openings(id) on delete restrict;
+create index if not exists idx_career_applications_opening on career_applications (opening_id, created_at desc);
+
+-- Text extracted from the uploaded resume (PDF/DOCX) after /apply, and a
+-- weighted search document over it plus the application fields.
+alter table career_applications add column if not exists resume_text text null;
+alter table career_applications add column if not exists resume_extracted_at timestamptz null;
+alter table career_applications add column if not exists resume_extract_error text null;
+alter table career_applications add column if not exists search_vector tsvector generated always as (
+  setweight(to_tsvector('english', coalesce(full_name, '') || ' ' || coalesce(position, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(metadata->>'experience', '') || ' ' || coalesce(metadata->>'whyHireYou', '') || ' ' || coalesce(message, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(resume_text, '')), 'C')
+) stored;
+create index if not exists idx_career_applications_search on career_applications using gin (search_vector);
+
+-- Candidate self-service: withdrawal and replies to admin questions.
+alter table career_applications add column if not exists withdrawn_at timestamptz null;
+alter table career_applications add column if not exists withdrawal_reason text null;
+
+create table if not exists career_info_requests (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  application_id bigint not null references career_applications(id) on delete cascade,
+  question text not null,
+  requested_by_email text null,
+  response text null,
+  responded_at timestamptz null
+);
+
+create index if not exists idx_career_info_requests_app on career_info_requests (application_id, created_at);
+
+create table if not exists career_email_templates (
+  status text primary key check (status in ('shortlisted','rejected','hired')),
+  subject text not null,
+  body text not null,
+  send_by_default boolean not null default true,
+  updated_by_email text null,
+  updated_at timestamptz not null default now()
+);
+
+insert into career_email_templates (status, subject, body) values
+  ('shortlisted', 'You have been shortlisted for {{position}} at {{companyName}}',
+   E'Hi {{firstName}},\n\nThank you for applying for the {{position}} role. We enjoyed reviewing your application and would like to move you to the next stage.\n\nWe will be in touch shortly with details of the interview process.\n\n{{companyName}}'),
+  ('rejected', 'Your application for {{position}} at {{companyName}}',
+   E'Hi {{firstName}},\n\nThank you for your interest in the {{position}} role and for the time you spent on your application.\n\nAfter careful consideration we have decided not to move forward with your application at this time. We will keep your details on file and may reach out about future openings.\n\nWe wish you the very best in your search.\n\n{{companyName}}'),
+  ('hired', 'Welcome to {{companyName}}!',
+   E'Hi {{firstName}},\n\nCongratulations! We are delighted to offer you the {{position}} role at {{companyName}}.\n\nOur team will contact you with your offer letter and onboarding details in the next few days.\n\n{{companyName}}')
+on conflict (status) do nothing;
+
+create table if not exists career_email_log (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  application_id bigint not null references career_applications(id) on delete cascade,
+  status text not null,
+  to_email text not null,
+  subject text not null,
+  body text not null,
+  outcome text not null check (outcome in ('sent','suppressed','failed')),
+  error text null,
+  actor_email text null
+);
+
+create index if not exists idx_career_email_log_app on career_email_log (application_id, created_at desc);
+
+-- A person who applied more than once. Applications stay separate rows (each
+-- keeps its own status history); merging only links them to one profile.
+create table if not exists career_candidates (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  full_name text not null,
+  email text not null,
+  phone text null,
+  linkedin_url text null,
+  merged_by_email text null
+);
+
+alter table career_applications add column if not exists candidate_id bigint null references career_candidates(id) on delete set null;
+-- Normalized match keys for duplicate detection, filled in by the API (lib/candidates.ts).
+alter table career_applications add column if not exists email_key text null;
+alter table career_applications add column if not exists phone_key text null;
+alter table career_applications add column if not exists linkedin_key text null;
+alter table career_applications add column if not exists name_key text null;
+
+create index if not exists idx_career_applications_candidate on career_applications (candidate_id);
+create index if not exists idx_career_applications_email_key on career_applications (email_key);
+create index if not exists idx_career_applications_phone_key on career_applications (phone_key);
+create index if not exists idx_career_applications_linkedin_key on career_applications (linkedin_key);
+
+-- Referral codes: one per user; shared as a ?ref=CODE link.
+create table if not exists referral_codes (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  user_id bigint not null unique references users(id) on delete cascade,
+  code text not null unique,
+  is_active boolean not null default true
+);
+
+alter table submissions add column if not exists referral_code_id bigint null references referral_codes(id) on delete set null;
+
+create index if not exists idx_submissions_referral on submissions (referral_code_id) where referral_code_id is not null;
+
+-- Rows copied from the legacy lead tables (contact_messages, hire_requests,
+-- contact_submissions, hire_us_submissions) keep a pointer to their origin.
+alter table submissions add column if not exists legacy_source text null;
+alter table submissions add column if not exists legacy_id bigint null;
+
+create unique index if not exists idx_submissions_legacy on submissions (legacy_source, legacy_id) where legacy_source is not null;
+
+-- Estimated deal value in INR from a free-text budget such as "₹50,000 – ₹2,00,000",
+-- "2-5 lakh" or "Under 50k". Ranges use their midpoint; a bare number is taken
+-- as is. Null when the text has no amount ("Not sure yet"). Every path that
+-- creates leads uses it.
+create or replace function estimate_deal_value_inr(budget text) returns integer
+language plpgsql immutable as $fn$
+declare
+  m text[];
+  vals numeric[] := '{}';
+  units text[] := '{}';
+  v numeric;
+  total numeric := 0;
+  n integer := 0;
+begin
+  if budget is null then return null; end if;
+  for m in
+    select regexp_matches(lower(replace(budget, ',', '')), '(\d+(?:\.\d+)?)\s*(thousand|lakhs?|lacs?|crores?|million|cr|mn|k|l|m)?\y', 'g')
+  loop
+    vals := vals || m[1]::numeric;
+    units := units || m[2];
+  end loop;
+  if cardinality(vals) = 0 then return null; end if;
+
+  -- "2-5 lakh": a unit after the range applies to both ends.
+  if cardinality(vals) >= 2 and units[1] is null and units[2] is not null then units[1] := units[2]; end if;
+
+  for i in 1..least(cardinality(vals), 2) loop
+    v := vals[i] * case
+      when units[i] in ('k','thousand') then 1000
+      when units[i] in ('l','lac','lacs','lakh','lakhs') then 100000
+      when units[i] in ('m','mn','million') then 1000000
+      when units[i] in ('cr','crore','crores') then 10000000
+      else 1
+    end;
+    if v > 0 then
+      total := total + v;
+      n := n + 1;
+    end if;
+  end loop;
+  if n = 0 then return null; end if;
+  return least(round(total / n), 2000000000)::integer;
+end
+$fn$;
+
+-- Lead CRM: one lead per contact/hire submission, worked through a sales pipeline.
+create table if not exists leads (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  submission_id bigint not null unique references submissions(id) on delete cascade,
+  stage text not null default 'new' check (stage in ('new','contacted','qualified','proposal','won','lost')),
+  stage_changed_at timestamptz not null default now(),
+  -- Required when the lead is lost.
+  lost_reason text null,
+  -- Admin working the lead.
+  owner_email text null,
+  -- Estimated from the HireUs budget; admins can override it.
+  deal_value_inr integer null check (deal_value_inr is null or deal_value_inr >= 0)
+);
+
+create index if not exists idx_leads_stage on leads (stage, stage_changed_at desc);
+create index if not exists idx_leads_owner on leads (owner_email) where owner_email is not null;
+
+create table if not exists lead_activities (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  lead_id bigint not null references leads(id) on delete cascade,
+  kind text not null check (kind in ('note','stage_changed','owner_changed','value_changed','task_completed')),
+  from_stage text null,
+  to_stage text null,
+  note text null,
+  actor_email text null
+);
+
+create index if not exists idx_lead_activities_lead on lead_activities (lead_id, created_at desc);
+
+create table if not exists lead_tasks (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  lead_id bigint not null references leads(id) on delete cascade,
+  title text not null,
+  due_at timestamptz not null,
+  assignee_email text null,
+  completed_at timestamptz null,
+  completed_by_email text null,
+  created_by_email text null
+);
+
+create index if not exists idx_lead_tasks_open on lead_tasks (due_at) where completed_at is null;
+create index if not exists idx_lead_tasks_lead on lead_tasks (lead_id, due_at);
+
+-- Existing contact/hire submissions become leads; the old adminStatus maps onto a stage.
+insert into leads (submission_id, created_at, stage, lost_reason, deal_value_inr)
+select s.id, s.created_at,
+  case s.data ->> 'adminStatus'
+    when 'reviewing' then 'contacted'
+    when 'shortlisted' then 'qualified'
+    when 'hired' then 'won'
+    when 'rejected' then 'lost'
+    else 'new'
+  end,
+  case when s.data ->> 'adminStatus' = 'rejected' then 'Not specified' end,
+  estimate_deal_value_inr(s.data ->> 'budget')
+from submissions s
+where s.type in ('contact','hire')
+on conflict (submission_id) do nothing;
+
 -- Legacy/simple careers table (requested by some deployments)
 create table if not exists careers (
   id bigserial primary key,
@@ -279,28 +620,329 @@ create table if not exists orders (
   plan_name text not null,
   price_inr integer not null check (price_inr > 0),
 
-  payment_status text not null default 'pending' check (payment_status in ('pending','paid','failed','refunded')),
+  payment_status text not null default 'pending' check (payment_status in ('pending','partially_paid','paid','failed','refunded')),
   razorpay_order_id text null,
   razorpay_payment_id text null,
   razorpay_signature text null,
 
-  project_status text not null default 'received' check (project_status in ('received','in_progress','blocked','delivered','closed'))
+  project_status text not null default 'received' check (project_status in ('received','in_progress','blocked','delivered','closed')),
+
+  -- Billing details captured at checkout for GST invoices.
+  customer_gstin text null,
+  billing_address text null,
+  place_of_supply text null,
+  sac_code text null,
+
+  -- Coupon applied at checkout (price_inr is the amount actually charged).
+  list_price_inr integer null,
+  discount_inr integer not null default 0,
+  coupon_code text null,
+
+  -- Referral link the order came through (see referral_codes).
+  referral_code_id bigint null references referral_codes(id) on delete set null,
+
+  -- Tax fixed by an accepted quote; null means the configured GST rate applies.
+  gst_rate_percent integer null,
+  taxable_inr integer null
 );
 
+alter table orders add column if not exists referral_code_id bigint null references referral_codes(id) on delete set null;
+alter table orders add column if not exists gst_rate_percent integer null;
+alter table orders add column if not exists taxable_inr integer null;
+
 create index if not exists idx_orders_created_at on orders (created_at desc);
 create index if not exists idx_orders_email on orders (email);
 create unique index if not exists idx_orders_razorpay_payment_id on orders (razorpay_payment_id) where razorpay_payment_id is not null;
+create index if not exists idx_orders_referral on orders (referral_code_id) where referral_code_id is not null;
+
+-- Payment schedule (advance / mid-delivery / final). When an order has
+-- milestones, each one is paid and invoiced on its own and the order's
+-- payment_status is derived from them (partially_paid until all are paid).
+create table if not exists order_milestones (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  order_id bigint not null references orders(id) on delete cascade,
+
+  position integer not null default 0,
+  label text not null,
+  amount_inr integer not null check (amount_inr > 0),
+  due_date date null,
+
+  status text not null default 'pending' check (status in ('pending','paid','failed')),
+  razorpay_order_id text null unique,
+  razorpay_payment_id text null unique,
+  razorpay_signature text null,
+  paid_at timestamptz null
+);
+
+create index if not exists idx_order_milestones_order on order_milestones (order_id, position);
+
+-- Project status history. Every change to orders.project_status is recorded
+-- here with an optional note so the client portal can show a timeline.
+create table if not exists order_status_events (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  order_id bigint not null references orders(id) on delete cascade,
+  from_status text null,
+  to_status text not null check (to_status in ('received','in_progress','blocked','delivered','closed')),
+  note text null,
+  changed_by_email text null,
+  notified_at timestamptz null
+);
+
+create index if not exists idx_order_status_events_order on order_status_events (order_id, created_at);
+
+-- Recurring plans. The order holds the billing details and per-cycle price;
+-- the subscription mirrors the Razorpay subscription's state and every
+-- successful renewal is recorded as a charge with its own invoice.
+create table if not exists subscriptions (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  order_id bigint not null unique references orders(id) on delete cascade,
+  pricing_id bigint null references services_pricing(id) on delete set null,
+  billing_interval text not null check (billing_interval in ('monthly','quarterly','yearly')),
+
+  razorpay_plan_id text not null,
+  razorpay_subscription_id text not null unique,
+  status text not null default 'created'
+    check (status in ('created','authenticated','active','pending','halted','paused','cancelled','completed','expired')),
+  current_start timestamptz null,
+  current_end timestamptz null,
+  paid_count integer not null default 0,
+  cancel_at_cycle_end boolean not null default false,
+  paused_at timestamptz null,
+  cancelled_at timestamptz null
+);
+
+create index if not exists idx_subscriptions_status on subscriptions (status, current_end);
+
+create table if not exists subscription_charges (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  subscription_id bigint not null references subscriptions(id) on delete cascade,
+  razorpay_payment_id text not null unique,
+  razorpay_invoice_id text null,
+  amount_paise integer not null,
+  period_start timestamptz null,
+  period_end timestamptz null
+);
+
+create index if not exists idx_subscription_charges_subscription on subscription_charges (subscription_id, created_at);
 
 -- Invoices
 create table if not exists invoices (
   id bigserial primary key,
   created_at timestamptz not null default now(),
   order_id bigint not null references orders(id) on delete cascade,
+  -- Set for milestone invoices; null for a single invoice covering the whole order.
+  milestone_id bigint null references order_milestones(id) on delete restrict,
+  -- Set for subscription renewals; one invoice per successful charge.
+  subscription_charge_id bigint null references subscription_charges(id) on delete restrict,
   invoice_number text not null unique,
-  issued_at timestamptz not null default now()
+  issued_at timestamptz not null default now(),
+
+  -- Tax invoice snapshot (frozen at issue time).
+  financial_year text null,
+  sequence_number integer null,
+  supplier_gstin text null,
+  customer_gstin text null,
+  billing_name text null,
+  billing_address text null,
+  place_of_supply text null,
+  sac_code text null,
+  gst_rate_percent integer null,
+  coupon_code text null,
+  discount_paise integer null,
+  taxable_paise integer null,
+  cgst_paise integer null,
+  sgst_paise integer null,
+  igst_paise integer null,
+  total_paise integer null
+);
+
+create unique index if not exists idx_invoices_order_single on invoices (order_id) where milestone_id is null and subscription_charge_id is null;
+create unique index if not exists idx_invoices_subscription_charge_id on invoices (subscription_charge_id) where subscription_charge_id is not null;
+create unique index if not exists idx_invoices_milestone_id on invoices (milestone_id) where milestone_id is not null;
+create unique index if not exists idx_invoices_fy_sequence on invoices (financial_year, sequence_number) where sequence_number is not null;
+
+-- Gap-free invoice numbering per Indian financial year (e.g. HZ/2026-27/0001)
+create table if not exists invoice_sequences (
+  financial_year text primary key,
+  last_number integer not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+-- Coupons / discount codes applied at checkout
+create table if not exists coupons (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  code text not null unique,
+  description text null,
+  discount_type text not null check (discount_type in ('percent','flat')),
+  discount_value integer not null check (discount_value > 0),
+  -- null = applies to every service
+  service_key text null,
+  min_order_inr integer null,
+  max_redemptions integer null,
+  max_per_email integer null,
+  starts_at timestamptz null,
+  ends_at timestamptz null,
+  is_active boolean not null default true,
+
+  check (discount_type <> 'percent' or discount_value <= 100)
+);
+
+create table if not exists coupon_redemptions (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  coupon_id bigint not null references coupons(id) on delete cascade,
+  order_id bigint not null unique references orders(id) on delete cascade,
+  email text not null,
+  discount_inr integer not null
 );
 
-create unique index if not exists idx_invoices_order_id on invoices (order_id);
+create index if not exists idx_coupon_redemptions_coupon on coupon_redemptions (coupon_id, created_at desc);
+
+-- Quotes built from hire-us submissions. Accepting one creates an order.
+create table if not exists quotes (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  submission_id bigint not null references submissions(id) on delete cascade,
+  quote_number text null unique,
+
+  title text not null,
+  client_name text not null,
+  client_email text not null,
+  client_company text null,
+  -- [{ description, quantity, unitPriceInr }]
+  line_items jsonb not null,
+  tax_rate_percent integer not null default 0,
+  subtotal_inr integer not null,
+  tax_inr integer not null,
+  total_inr integer not null check (total_inr > 0),
+  valid_until date not null,
+  terms text null,
+
+  status text not null default 'draft' check (status in ('draft','sent','accepted','declined')),
+  sent_at timestamptz null,
+  accepted_at timestamptz null,
+  declined_at timestamptz null,
+  decline_reason text null,
+  order_id bigint null references orders(id) on delete set null,
+  created_by_email text null
+);
+
+create index if not exists idx_quotes_submission on quotes (submission_id, created_at desc);
+create index if not exists idx_quotes_client_email on quotes (lower(client_email));
+
+-- Refunds (full or partial) against paid orders; each one gets a credit note
+create table if not exists order_refunds (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  order_id bigint not null references orders(id) on delete cascade,
+  -- Captured payment refunded: the order's own, a milestone's or a renewal's.
+  razorpay_payment_id text null,
+
+  amount_paise integer not null check (amount_paise > 0),
+  status text not null default 'pending' check (status in ('pending','processed','failed')),
+  reason text null,
+  razorpay_refund_id text not null unique,
+  credit_note_number text null unique,
+
+  actor_user_id bigint null references users(id) on delete set null,
+  actor_email text null
+);
+
+alter table order_refunds add column if not exists razorpay_payment_id text null;
+
+create index if not exists idx_order_refunds_order_created on order_refunds (order_id, created_at desc);
+create index if not exists idx_order_refunds_payment on order_refunds (razorpay_payment_id);
+
+-- Gap-free credit note numbering per financial year (e.g. HZ/CN/2026-27/0001),
+-- a separate series from invoice_sequences
+create table if not exists credit_note_sequences (
+  financial_year text primary key,
+  last_number integer not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+-- Razorpay webhook deliveries (event ids recorded so replays are ignored)
+create table if not exists payment_webhook_events (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  event_id text not null unique,
+  event text not null,
+  payload jsonb not null,
+  processed_at timestamptz null,
+  outcome text null
+);
+
+create index if not exists idx_payment_webhook_events_created on payment_webhook_events (created_at desc);
+
+-- Deliverables shared with the client per order. Files live in the private
+-- bucket; each upload is a new version and the latest one is what the client
+-- reviews. Approving every deliverable moves the order to 'delivered'.
+create table if not exists order_deliverables (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  order_id bigint not null references orders(id) on delete cascade,
+  title text not null,
+  description text null,
+  status text not null default 'in_review' check (status in ('in_review','changes_requested','approved')),
+  client_note text null,
+  approved_at timestamptz null,
+  approved_by_email text null
+);
+
+create index if not exists idx_order_deliverables_order on order_deliverables (order_id, created_at);
+
+create table if not exists order_deliverable_versions (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  deliverable_id bigint not null references order_deliverables(id) on delete cascade,
+  version integer not null,
+  file_path text not null,
+  file_name text not null,
+  file_type text not null,
+  file_size bigint not null,
+  notes text null,
+  uploaded_by_email text null,
+  unique (deliverable_id, version)
+);
+
+-- Message threads between clients and admins. A thread belongs to exactly
+-- one order or one submission; read markers drive the unread counts.
+create table if not exists message_threads (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  order_id bigint null unique references orders(id) on delete cascade,
+  submission_id bigint null unique references submissions(id) on delete cascade,
+  last_message_at timestamptz null,
+  client_last_read_at timestamptz null,
+  admin_last_read_at timestamptz null,
+  check ((order_id is null) <> (submission_id is null))
+);
+
+create table if not exists thread_messages (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  thread_id bigint not null references message_threads(id) on delete cascade,
+  author_role text not null check (author_role in ('client','admin')),
+  author_email text null,
+  body text not null default '',
+  -- [{ path, name, type, size }] objects in the private bucket
+  attachments jsonb not null default '[]'::jsonb
+);
+
+create index if not exists idx_message_threads_last_message on message_threads (last_message_at desc);
+create index if not exists idx_thread_messages_thread on thread_messages (thread_id, created_at);
 
 -- Site content (simple CMS)
 create table if not exists site_content (
@@ -308,5 +950,48 @@ create table if not exists site_content (
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now(),
   key text not null unique,
-  value jsonb not null
+  -- Published value (null while a key only has a draft).
+  value jsonb null,
+  draft_value jsonb null,
+  draft_updated_at timestamptz null,
+  draft_updated_by text null,
+  -- Optional window in which the key is served publicly.
+  publish_at timestamptz null,
+  unpublish_at timestamptz null
+);
+
+alter table site_content alter column value drop not null;
+alter table site_content add column if not exists draft_value jsonb null;
+alter table site_content add column if not exists draft_updated_at timestamptz null;
+alter table site_content add column if not exists draft_updated_by text null;
+alter table site_content add column if not exists publish_at timestamptz null;
+alter table site_content add column if not exists unpublish_at timestamptz null;
+
+-- Every draft save, publish and rollback of a content key.
+create table if not exists site_content_revisions (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  content_key text not null,
+  value jsonb not null,
+  action text not null check (action in ('draft','publish','rollback')),
+  summary text null,
+  author_email text null,
+  restored_from_id bigint null references site_content_revisions(id) on delete set null
 );
+
+create index if not exists idx_site_content_revisions_key on site_content_revisions (content_key, created_at desc);
+
+-- Structured marketing content (service cards, portfolio, team, testimonials,
+-- timeline). `data` is validated per collection by the API.
+create table if not exists content_collection_items (
+  id bigserial primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  collection text not null check (collection in ('services','portfolio','team','testimonials','timeline')),
+  data jsonb not null,
+  is_published boolean not null default true,
+  sort_order int not null default 0,
+  updated_by_email text null
+);
+
+create index if not exists idx_content_collection_items_order on content_collection_items (collection, sort_order, id);
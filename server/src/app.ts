@@ -10,6 +10,9 @@ import { apiRateLimit } from "./middleware/rateLimit.js";
 import { requestLogger } from "./middleware/requestContext.js";
 import { HttpError } from "./middleware/errorHandler.js";
 
+// Server-to-server callbacks: no browser Origin, authenticated by signature instead.
+export const WEBHOOK_PATHS = new Set(["/api/payments/webhook"]);
+
 function isOriginAllowed(origin: string, allowed: string[]) {
   return allowed.some((entry) => {
     if (entry === "*") return true;
@@ -68,6 +71,7 @@ export function createApp() {
   app.use((req, _res, next) => {
     const safeMethods = new Set(["GET", "HEAD", "OPTIONS"]);
     if (safeMethods.has(req.method)) return next();
+    if (WEBHOOK_PATHS.has(req.path)) return next();
 
     const origin = req.get("origin");
     if (!origin) {
@@ -90,7 +94,17 @@ export function createApp() {
 
   app.use(cookieParser());
 
-  app.use(express.json({ limit: "200kb" }));
+  app.use(
+    express.json({
+      limit: "200kb",
+      // Keep the exact bytes for webhook HMAC verification.
+      verify: (req, _res, buf) => {
+        if (WEBHOOK_PATHS.has((req as express.Request).originalUrl?.split("?")[0] ?? "")) {
+          (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+        }
+      }
+    })
+  );
 
   // Rate limit all API routes.
   app.use("/api", apiRateLimit);
@@ -3,6 +3,8 @@ import { env } from "./lib/env.js";
 import { logger } from "./lib/logger.js";
 import { initDb } from "./lib/db.js";
 import { ensureSchemaOrThrow, runMigrations } from "./lib/schema.js";
+import { backfillCandidateKeys } from "./lib/candidates.js";
+import { backfillLeads } from "./lib/leads.js";
 import { pricingRoutes } from "./routes/pricing.js";
 import { contactRoutes } from "./routes/contact.js";
 import { hireUsRoutes } from "./routes/hireUs.js";
@@ -10,12 +12,22 @@ import { schemaStatusRouter } from "./routes/schemaStatus.js";
 import { authRouter } from "./routes/auth.js";
 /* otpRouter and authSessionRouter removed */
 import { ordersRouter } from "./routes/orders.js";
+import { couponsRouter } from "./routes/coupons.js";
+import { milestonesRouter } from "./routes/milestones.js";
+import { subscriptionsRouter } from "./routes/subscriptions.js";
+import { quotesRouter } from "./routes/quotes.js";
+import { messagesRouter } from "./routes/messages.js";
+import { deliverablesRouter } from "./routes/deliverables.js";
+import { hiringRouter } from "./routes/hiring.js";
 import { invoiceRouter } from "./routes/invoice.js";
 import { adminRouter } from "./routes/admin.js";
 import { meRouter } from "./routes/me.js";
 import { submissionsRouter } from "./routes/submissions.js";
 import { careersRouter } from "./routes/careers.js";
 import { contentRouter } from "./routes/content.js";
+import { referralsRouter } from "./routes/referrals.js";
+import { leadsRouter } from "./routes/leads.js";
+import { collectionsRouter } from "./routes/collections.js";
 import { errorHandler, notFound } from "./middleware/errorHandler.js";
 
 function resolveListenPort() {
@@ -79,6 +91,20 @@ async function main() {
   }
 
   if (schemaReady) {
+    // Duplicate detection needs match keys on applications from before it existed.
+    backfillCandidateKeys()
+      .then((count) => {
+        if (count > 0) logger.info({ count }, "Backfilled candidate match keys");
+      })
+      .catch((err) => logger.error({ err }, "Candidate match key backfill failed"));
+
+    // Submissions whose lead insert failed still belong on the pipeline board.
+    backfillLeads()
+      .then((count) => {
+        if (count > 0) logger.info({ count }, "Backfilled leads");
+      })
+      .catch((err) => logger.error({ err }, "Lead backfill failed"));
+
     app.use("/api/pricing", pricingRoutes);
     app.use("/api/contact", contactRoutes);
     app.use("/api/hire-us", hireUsRoutes);
@@ -92,8 +118,18 @@ async function main() {
     app.use("/api", submissionsRouter);
     app.use("/api/careers", careersRouter);
     app.use("/api", ordersRouter);
+    app.use("/api", couponsRouter);
+    app.use("/api", milestonesRouter);
+    app.use("/api", subscriptionsRouter);
+    app.use("/api", quotesRouter);
+    app.use("/api", messagesRouter);
+    app.use("/api", deliverablesRouter);
+    app.use("/api", hiringRouter);
     app.use("/api", invoiceRouter);
     app.use("/api", adminRouter);
+    app.use("/api", referralsRouter);
+    app.use("/api", leadsRouter);
+    app.use("/api", collectionsRouter);
   } else {
     app.use("/api", (_req, res) => {
       return res.status(503).json({
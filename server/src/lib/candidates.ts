@@ -0,0 +1,316 @@
+import { query, withTransaction } from "./db.js";
+import { normalizeIndianPhoneE164 } from "./phone.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+// Names at least this similar (0..1) are flagged even without another match.
+const NAME_SIMILARITY_THRESHOLD = 0.88;
+// How many applications are compared by name for one candidate.
+const NAME_POOL_LIMIT = 5000;
+
+export type CandidateMatchKeys = {
+  email_key: string;
+  phone_key: string | null;
+  linkedin_key: string | null;
+  name_key: string;
+};
+
+// Gmail ignores dots and "+tag" suffixes; other providers only the tag.
+function emailKey(email: string) {
+  const [local = "", domain = ""] = email.trim().toLowerCase().split("@");
+  const untagged = local.split("+")[0];
+  if (domain === "gmail.com" || domain === "googlemail.com") return `${untagged.replace(/\./g, "")}@gmail.com`;
+  return `${untagged}@${domain}`;
+}
+
+function phoneKey(phone: string | null | undefined) {
+  if (!phone) return null;
+  const cleaned = phone.replace(/[().]/g, "");
+  try {
+    return normalizeIndianPhoneE164(cleaned);
+  } catch {
+    // Not an Indian mobile; fall back to the bare digits.
+    const digits = cleaned.replace(/\D/g, "");
+    return digits.length >= 8 ? `+${digits}` : null;
+  }
+}
+
+function linkedinKey(url: string | null | undefined) {
+  const match = url?.match(/linkedin\.com\/in\/([^/?#]+)/i);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]).toLowerCase();
+  } catch {
+    return match[1].toLowerCase();
+  }
+}
+
+// Lowercase, accents and punctuation removed, tokens sorted so "Sharma Priya"
+// and "Priya Sharma" compare equal.
+function nameKey(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+export function candidateMatchKeys(input: {
+  fullName: string;
+  email: string;
+  phone?: string | null;
+  linkedinUrl?: string | null;
+}): CandidateMatchKeys {
+  return {
+    email_key: emailKey(input.email),
+    phone_key: phoneKey(input.phone),
+    linkedin_key: linkedinKey(input.linkedinUrl),
+    name_key: nameKey(input.fullName)
+  };
+}
+
+// Dice coefficient over character bigrams.
+export function nameSimilarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const bigrams = (s: string) => {
+    const out = new Map<string, number>();
+    for (let i = 0; i < s.length - 1; i += 1) {
+      const gram = s.slice(i, i + 2);
+      out.set(gram, (out.get(gram) ?? 0) + 1);
+    }
+    return out;
+  };
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let overlap = 0;
+  for (const [gram, count] of left) overlap += Math.min(count, right.get(gram) ?? 0);
+  const total = a.length - 1 + (b.length - 1);
+  return total > 0 ? (2 * overlap) / total : 0;
+}
+
+// The application form stores the LinkedIn URL in metadata.
+function metadataLinkedinUrl(metadata: Record<string, unknown> | null) {
+  return typeof metadata?.linkedinUrl === "string" ? metadata.linkedinUrl : null;
+}
+
+// Fill in match keys for applications created before duplicate detection.
+// Called once at startup; new applications get their keys when submitted.
+export async function backfillCandidateKeys(batchSize = 1000) {
+  let total = 0;
+  for (;;) {
+    const rows = await query<{
+      id: number;
+      full_name: string;
+      email: string;
+      phone: string;
+      metadata: Record<string, unknown> | null;
+    }>(
+      "select id, full_name, email, phone, metadata from career_applications where name_key is null order by id limit $1",
+      [batchSize]
+    );
+    for (const row of rows) {
+      const keys = candidateMatchKeys({
+        fullName: row.full_name,
+        email: row.email,
+        phone: row.phone,
+        linkedinUrl: metadataLinkedinUrl(row.metadata)
+      });
+      await query(
+        "update career_applications set email_key = $2, phone_key = $3, linkedin_key = $4, name_key = $5 where id = $1",
+        [row.id, keys.email_key, keys.phone_key, keys.linkedin_key, keys.name_key]
+      );
+    }
+    total += rows.length;
+    if (rows.length < batchSize) return total;
+  }
+}
+
+type MatchRow = CandidateMatchKeys & {
+  id: number;
+  created_at: string;
+  full_name: string;
+  email: string;
+  phone: string;
+  position: string;
+  status: string;
+  withdrawn_at: string | null;
+  candidate_id: number | null;
+};
+
+const MATCH_COLUMNS = [
+  "id, created_at, full_name, email, phone, position, status, withdrawn_at, candidate_id,",
+  "email_key, phone_key, linkedin_key, name_key"
+].join(" ");
+
+function publicRow(row: MatchRow) {
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    full_name: row.full_name,
+    email: row.email,
+    phone: row.phone,
+    position: row.position,
+    status: row.status,
+    withdrawn_at: row.withdrawn_at
+  };
+}
+
+// Applications already linked to the same candidate, plus likely duplicates
+// (same phone, email or LinkedIn profile, or a very similar name) that are not.
+// Returns null when the application does not exist.
+export async function findDuplicateApplications(applicationId: number) {
+  const apps = await query<MatchRow>(`select ${MATCH_COLUMNS} from career_applications where id = $1`, [applicationId]);
+  const app = apps[0];
+  if (!app) return null;
+
+  const linked = app.candidate_id
+    ? await query<MatchRow>(
+        `select ${MATCH_COLUMNS} from career_applications where candidate_id = $1 and id <> $2 order by created_at`,
+        [app.candidate_id, app.id]
+      )
+    : [];
+  const candidates = app.candidate_id
+    ? await query(
+        "select id, created_at, full_name, email, phone, linkedin_url, merged_by_email from career_candidates where id = $1",
+        [app.candidate_id]
+      )
+    : [];
+
+  const keyMatches = await query<MatchRow>(
+    [
+      `select ${MATCH_COLUMNS} from career_applications`,
+      "where id <> $1 and (candidate_id is null or candidate_id is distinct from $2)",
+      "and (email_key = $3 or phone_key = $4 or linkedin_key = $5)",
+      "order by created_at desc limit 50"
+    ].join("\n"),
+    [app.id, app.candidate_id, app.email_key, app.phone_key, app.linkedin_key]
+  );
+
+  const namePool = await query<{ id: number; name_key: string }>(
+    [
+      "select id, name_key from career_applications",
+      "where id <> $1 and name_key is not null and (candidate_id is null or candidate_id is distinct from $2)",
+      "order by created_at desc limit $3"
+    ].join("\n"),
+    [app.id, app.candidate_id, NAME_POOL_LIMIT]
+  );
+  const similarNameIds = namePool
+    .filter((r) => nameSimilarity(app.name_key, r.name_key) >= NAME_SIMILARITY_THRESHOLD)
+    .map((r) => r.id)
+    .filter((id) => !keyMatches.some((m) => m.id === id));
+  const nameMatches = similarNameIds.length
+    ? await query<MatchRow>(`select ${MATCH_COLUMNS} from career_applications where id = any($1::bigint[])`, [similarNameIds])
+    : [];
+
+  const duplicates = [...keyMatches, ...nameMatches]
+    .map((row) => {
+      const similarity = nameSimilarity(app.name_key, row.name_key);
+      const reasons = [
+        row.phone_key && row.phone_key === app.phone_key ? "Same phone" : null,
+        row.email_key === app.email_key ? "Same email" : null,
+        row.linkedin_key && row.linkedin_key === app.linkedin_key ? "Same LinkedIn profile" : null,
+        similarity >= NAME_SIMILARITY_THRESHOLD ? `Similar name (${Math.round(similarity * 100)}%)` : null
+      ].filter((r): r is string => r !== null);
+      return { ...publicRow(row), reasons, strong: reasons.some((r) => r.startsWith("Same")) };
+    })
+    .sort((a, b) => Number(b.strong) - Number(a.strong) || b.reasons.length - a.reasons.length);
+
+  return { candidate: candidates[0] ?? null, linked: linked.map(publicRow), duplicates };
+}
+
+// Link applications to one candidate profile. Existing profiles among them are
+// folded into the oldest one; each application keeps its own status history.
+export async function mergeApplications(input: { applicationIds: number[]; actorEmail?: string | null }) {
+  return withTransaction(async (db) => {
+    const appsRes = await db.query<{
+      id: number;
+      full_name: string;
+      email: string;
+      phone: string;
+      metadata: Record<string, unknown> | null;
+      candidate_id: number | null;
+    }>(
+      "select id, full_name, email, phone, metadata, candidate_id from career_applications where id = any($1::bigint[]) order by created_at desc for update",
+      [input.applicationIds]
+    );
+    const apps = appsRes.rows;
+    if (apps.length !== new Set(input.applicationIds).size) throw new HttpError(404, "Application not found", true);
+    if (apps.length < 2) throw new HttpError(400, "Select at least two applications to merge", true);
+
+    const existing = [...new Set(apps.map((a) => a.candidate_id).filter((id): id is number => id !== null))].sort((a, b) => a - b);
+
+    let candidateId: number;
+    if (existing.length > 0) {
+      candidateId = existing[0];
+      await db.query("update career_candidates set merged_by_email = $2 where id = $1", [candidateId, input.actorEmail ?? null]);
+    } else {
+      // The most recent application has the freshest contact details.
+      const latest = apps[0];
+      const created = await db.query<{ id: number }>(
+        [
+          "insert into career_candidates (full_name, email, phone, linkedin_url, merged_by_email)",
+          "values ($1,$2,$3,$4,$5) returning id"
+        ].join("\n"),
+        [latest.full_name, latest.email, latest.phone, metadataLinkedinUrl(latest.metadata), input.actorEmail ?? null]
+      );
+      candidateId = created.rows[0].id;
+    }
+
+    const moved = await db.query<{ id: number }>(
+      [
+        "update career_applications set candidate_id = $1",
+        "where (id = any($2::bigint[]) or candidate_id = any($3::bigint[])) and candidate_id is distinct from $1",
+        "returning id"
+      ].join("\n"),
+      [candidateId, input.applicationIds, existing]
+    );
+    if (existing.length > 1) {
+      await db.query("delete from career_candidates where id = any($1::bigint[])", [existing.slice(1)]);
+    }
+
+    const allRes = await db.query<{ id: number }>("select id from career_applications where candidate_id = $1 order by id", [
+      candidateId
+    ]);
+    const allIds = allRes.rows.map((r) => r.id);
+    for (const row of moved.rows) {
+      const others = allIds.filter((id) => id !== row.id).map((id) => `#${id}`);
+      await db.query(
+        "insert into career_application_events (application_id, kind, note, actor_email) values ($1,'merged',$2,$3)",
+        [row.id, `Linked to candidate profile with applications ${others.join(", ")}`, input.actorEmail ?? null]
+      );
+    }
+
+    return { candidateId, applicationIds: allIds };
+  });
+}
+
+// Detach one application from its candidate profile. A profile left with a
+// single application is removed.
+export async function unlinkApplication(input: { applicationId: number; actorEmail?: string | null }) {
+  return withTransaction(async (db) => {
+    const appRes = await db.query<{ candidate_id: number | null }>(
+      "select candidate_id from career_applications where id = $1 for update",
+      [input.applicationId]
+    );
+    if (!appRes.rows[0]) throw new HttpError(404, "Application not found", true);
+    const candidateId = appRes.rows[0].candidate_id;
+    if (!candidateId) throw new HttpError(400, "This application is not linked to a candidate profile", true);
+
+    await db.query("update career_applications set candidate_id = null where id = $1", [input.applicationId]);
+    await db.query(
+      "insert into career_application_events (application_id, kind, note, actor_email) values ($1,'unmerged',$2,$3)",
+      [input.applicationId, "Unlinked from candidate profile", input.actorEmail ?? null]
+    );
+
+    const remaining = await db.query<{ id: number }>("select id from career_applications where candidate_id = $1", [candidateId]);
+    if (remaining.rows.length < 2) {
+      await db.query("update career_applications set candidate_id = null where candidate_id = $1", [candidateId]);
+      await db.query("delete from career_candidates where id = $1", [candidateId]);
+    }
+    return true;
+  });
+}
@@ -0,0 +1,112 @@
+import { query } from "./db.js";
+import { sendCareerStatusEmail } from "./email/resend.js";
+import type { CareerStatus } from "./hiring.js";
+
+// Statuses that have a candidate-facing email template.
+export const CAREER_EMAIL_STATUSES = ["shortlisted", "rejected", "hired"] as const;
+export type CareerEmailStatus = (typeof CAREER_EMAIL_STATUSES)[number];
+
+export const CAREER_EMAIL_VARIABLES = ["candidateName", "firstName", "position", "companyName"] as const;
+export type CareerEmailVariables = Record<(typeof CAREER_EMAIL_VARIABLES)[number], string>;
+
+export const COMPANY_NAME = "HZ IT Company";
+
+export type CareerEmailTemplate = {
+  status: CareerEmailStatus;
+  subject: string;
+  body: string;
+  send_by_default: boolean;
+  updated_by_email: string | null;
+  updated_at: string;
+};
+
+export type CareerEmailLogEntry = {
+  id: number;
+  created_at: string;
+  status: CareerEmailStatus;
+  to_email: string;
+  subject: string;
+  body: string;
+  outcome: "sent" | "suppressed" | "failed";
+  error: string | null;
+  actor_email: string | null;
+};
+
+export const CAREER_EMAIL_TEMPLATE_COLUMNS = "status, subject, body, send_by_default, updated_by_email, updated_at";
+export const CAREER_EMAIL_LOG_COLUMNS = "id, created_at, status, to_email, subject, body, outcome, error, actor_email";
+
+export function isCareerEmailStatus(status: string): status is CareerEmailStatus {
+  return (CAREER_EMAIL_STATUSES as readonly string[]).includes(status);
+}
+
+export function careerEmailVariables(input: { fullName: string; position: string }): CareerEmailVariables {
+  const candidateName = input.fullName.trim();
+  return {
+    candidateName,
+    firstName: candidateName.split(/\s+/)[0] || candidateName,
+    position: input.position,
+    companyName: COMPANY_NAME
+  };
+}
+
+// Replace {{variable}} placeholders. Unknown placeholders are left as typed so
+// a typo shows up in the preview instead of silently disappearing.
+export function renderCareerEmail(template: { subject: string; body: string }, vars: CareerEmailVariables) {
+  const fill = (text: string) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      Object.prototype.hasOwnProperty.call(vars, name) ? vars[name as keyof CareerEmailVariables] : match
+    );
+  return { subject: fill(template.subject).replace(/\s+/g, " ").trim(), text: fill(template.body) };
+}
+
+// Email the candidate the template for their new status and log the outcome.
+// `notify` overrides the template's send-by-default setting for this change;
+// suppressed emails are logged too so the timeline shows the decision.
+export async function sendCareerStatusTemplate(input: {
+  applicationId: number;
+  status: CareerStatus;
+  notify?: boolean;
+  actorEmail?: string | null;
+}) {
+  if (!isCareerEmailStatus(input.status)) return null;
+
+  const templates = await query<CareerEmailTemplate>(
+    `select ${CAREER_EMAIL_TEMPLATE_COLUMNS} from career_email_templates where status = $1`,
+    [input.status]
+  );
+  const template = templates[0];
+  if (!template) return null;
+
+  const apps = await query<{ full_name: string; email: string; position: string }>(
+    "select full_name, email, position from career_applications where id = $1",
+    [input.applicationId]
+  );
+  const app = apps[0];
+  if (!app) return null;
+
+  const rendered = renderCareerEmail(template, careerEmailVariables({ fullName: app.full_name, position: app.position }));
+  const send = input.notify ?? template.send_by_default;
+
+  let outcome: CareerEmailLogEntry["outcome"] = "suppressed";
+  let error: string | null = null;
+  if (send) {
+    try {
+      const sent = await sendCareerStatusEmail({ to: app.email, subject: rendered.subject, text: rendered.text });
+      outcome = sent ? "sent" : "failed";
+      if (!sent) error = "Email is not configured";
+    } catch (err: any) {
+      outcome = "failed";
+      error = String(err?.message ?? err).slice(0, 500);
+    }
+  }
+
+  const rows = await query<CareerEmailLogEntry>(
+    [
+      "insert into career_email_log (application_id, status, to_email, subject, body, outcome, error, actor_email)",
+      "values ($1,$2,$3,$4,$5,$6,$7,$8)",
+      `returning ${CAREER_EMAIL_LOG_COLUMNS}`
+    ].join("\n"),
+    [input.applicationId, input.status, app.email, rendered.subject, rendered.text, outcome, error, input.actorEmail ?? null]
+  );
+  return rows[0];
+}
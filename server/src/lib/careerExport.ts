@@ -0,0 +1,126 @@
+import type { Response } from "express";
+import archiver from "archiver";
+import ExcelJS from "exceljs";
+
+import { logger } from "./logger.js";
+import { getResumesBucketId, getSupabaseAdmin } from "./supabase.js";
+
+export type CareerExportRow = {
+  id: number;
+  created_at: string;
+  full_name: string;
+  email: string;
+  phone: string;
+  position: string;
+  status: string;
+  stage_label: string | null;
+  withdrawn_at: string | null;
+  message: string | null;
+  resume_path: string | null;
+  cv_path: string | null;
+  metadata: Record<string, unknown> | null;
+};
+
+export const CAREER_EXPORT_COLUMNS = [
+  "a.id, a.created_at, a.full_name, a.email, a.phone, a.position, a.status, a.withdrawn_at, a.message,",
+  "a.resume_path, a.cv_path, a.metadata,",
+  "(select st.label from career_pipeline_stages st where st.id = a.stage_id) as stage_label"
+].join(" ");
+
+function meta(row: CareerExportRow, key: string) {
+  const value = row.metadata?.[key];
+  return value == null ? "" : String(value);
+}
+
+const FIELDS: Array<{ header: string; width: number; value: (row: CareerExportRow) => string | number }> = [
+  { header: "ID", width: 8, value: (r) => r.id },
+  { header: "Applied at", width: 20, value: (r) => new Date(r.created_at).toISOString() },
+  { header: "Name", width: 24, value: (r) => r.full_name },
+  { header: "Email", width: 28, value: (r) => r.email },
+  { header: "Phone", width: 16, value: (r) => r.phone },
+  { header: "Position", width: 24, value: (r) => r.position },
+  { header: "Status", width: 12, value: (r) => r.status },
+  { header: "Stage", width: 18, value: (r) => r.stage_label ?? "" },
+  { header: "Withdrawn at", width: 20, value: (r) => (r.withdrawn_at ? new Date(r.withdrawn_at).toISOString() : "") },
+  { header: "Experience", width: 12, value: (r) => meta(r, "experience") },
+  { header: "LinkedIn", width: 32, value: (r) => meta(r, "linkedinUrl") },
+  { header: "Portfolio", width: 32, value: (r) => meta(r, "portfolioUrl") },
+  { header: "Why hire you", width: 48, value: (r) => meta(r, "whyHireYou") },
+  { header: "Message", width: 48, value: (r) => r.message ?? "" },
+  { header: "Resume", width: 8, value: (r) => (r.resume_path ? "yes" : "no") },
+  { header: "CV", width: 8, value: (r) => (r.cv_path ? "yes" : "no") }
+];
+
+// Spreadsheet apps execute cells starting with these characters as formulas.
+function neutralizeFormula(value: string | number) {
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvCell(value: string | number) {
+  const text = String(neutralizeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function careerApplicationsCsv(rows: CareerExportRow[]) {
+  const lines = [FIELDS.map((f) => csvCell(f.header)).join(",")];
+  for (const row of rows) lines.push(FIELDS.map((f) => csvCell(f.value(row))).join(","));
+  // BOM so Excel opens the file as UTF-8.
+  return `\ufeff${lines.join("\r\n")}\r\n`;
+}
+
+export async function writeCareerApplicationsXlsx(rows: CareerExportRow[], res: Response) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "HZ IT Company";
+  const sheet = workbook.addWorksheet("Applications", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = FIELDS.map((f) => ({ header: f.header, key: f.header, width: f.width }));
+  sheet.getRow(1).font = { bold: true };
+  for (const row of rows) sheet.addRow(FIELDS.map((f) => neutralizeFormula(f.value(row))));
+  await workbook.xlsx.write(res);
+}
+
+function fileSlug(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "candidate"
+  );
+}
+
+// Stream a ZIP of the resumes (and CVs) of the given applications straight
+// from storage. Files that cannot be downloaded are listed in MISSING.txt
+// rather than failing the whole archive.
+export async function streamCareerResumesZip(rows: CareerExportRow[], res: Response) {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  archive.on("warning", (err) => logger.warn({ err }, "Resume ZIP warning"));
+  archive.on("error", (err) => {
+    logger.error({ err }, "Resume ZIP failed");
+    res.destroy(err);
+  });
+  archive.pipe(res);
+
+  const bucket = getSupabaseAdmin().storage.from(getResumesBucketId());
+  const missing: string[] = [];
+
+  for (const row of rows) {
+    const files = [
+      { kind: "resume", path: row.resume_path },
+      { kind: "cv", path: row.cv_path }
+    ];
+    for (const file of files) {
+      if (!file.path) continue;
+      const ext = file.path.split(".").pop()?.toLowerCase() ?? "bin";
+      const name = `${row.id}-${fileSlug(row.full_name)}-${file.kind}.${ext}`;
+      const { data, error } = await bucket.download(file.path);
+      if (error || !data) {
+        missing.push(`${name}: ${error?.message ?? "download failed"}`);
+        continue;
+      }
+      archive.append(Buffer.from(await data.arrayBuffer()), { name });
+    }
+  }
+
+  if (missing.length > 0) archive.append(`${missing.join("\n")}\n`, { name: "MISSING.txt" });
+  await archive.finalize();
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+
+import { sanitizeCmsHtml } from "./sanitize.js";
+
+// Shapes of CMS block values saved through PUT /admin/content. Mirrors
+// CmsBlock in src/app/components/cms/CmsBlocks.tsx.
+
+// Site paths ("/hire-us"), web links and mail/phone links; never javascript: URLs.
+export const hrefSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(500)
+  .refine((v) => (v.startsWith("/") && !v.startsWith("//")) || /^(https?:\/\/|mailto:|tel:)/i.test(v), {
+    message: "Use a site path like /contact or an http(s), mailto: or tel: link"
+  });
+
+export const imageSrcSchema = z
+  .string()
+  .trim()
+  .max(1000)
+  .refine((v) => (v.startsWith("/") && !v.startsWith("//")) || /^https?:\/\//i.test(v), {
+    message: "Use an uploaded image or an http(s) URL"
+  });
+
+const scheduleFields = {
+  publishAt: z.string().datetime({ offset: true }).optional(),
+  unpublishAt: z.string().datetime({ offset: true }).optional()
+};
+
+const buttonSchema = z.object({
+  label: z.string().trim().min(1).max(60),
+  href: hrefSchema,
+  variant: z.enum(["primary", "secondary"]).default("primary")
+});
+
+export const cmsBlockSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    as: z.enum(["h2", "h3", "p"]).default("p"),
+    text: z.string().max(20000),
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("image"),
+    // Empty while the admin has not uploaded yet; the renderer skips it.
+    src: z.union([z.literal(""), imageSrcSchema]),
+    alt: z.string().max(300).optional(),
+    href: hrefSchema.optional(),
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("html"),
+    html: z.string().max(100000),
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("hero"),
+    heading: z.string().trim().min(1).max(200),
+    subheading: z.string().max(600).optional(),
+    imageSrc: z.union([z.literal(""), imageSrcSchema]).optional(),
+    buttons: z.array(buttonSchema).max(2).default([]),
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("cta"),
+    heading: z.string().trim().min(1).max(200),
+    text: z.string().max(600).optional(),
+    button: buttonSchema,
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("faq"),
+    heading: z.string().max(200).optional(),
+    items: z
+      .array(
+        z.object({
+          question: z.string().trim().min(1).max(300),
+          answer: z.string().trim().min(1).max(5000)
+        })
+      )
+      .min(1)
+      .max(50),
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("testimonials"),
+    items: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(120),
+          role: z.string().max(120).optional(),
+          content: z.string().trim().min(1).max(2000),
+          rating: z.number().int().min(1).max(5).default(5)
+        })
+      )
+      .min(1)
+      .max(20),
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("pricing"),
+    heading: z.string().max(200).optional(),
+    // services_pricing.service_key to show; omitted shows every active plan.
+    serviceKey: z.string().trim().min(1).max(120).optional(),
+    ...scheduleFields
+  }),
+  z.object({
+    type: z.literal("video"),
+    provider: z.enum(["youtube", "vimeo"]),
+    videoId: z.string().trim().min(1).max(20),
+    title: z.string().max(200).optional(),
+    ...scheduleFields
+  }).refine((v) => (v.provider === "youtube" ? /^[A-Za-z0-9_-]{11}$/ : /^\d{1,12}$/).test(v.videoId), {
+    message: "Not a valid video id for this provider",
+    path: ["videoId"]
+  })
+]);
+
+export type CmsBlockValue = z.infer<typeof cmsBlockSchema>;
+
+export const cmsContentValueSchema = z.object({
+  blocks: z.array(cmsBlockSchema).max(100)
+});
+
+// First validation problem as "blocks.2.items.0.question: Too small…", for
+// surfacing in the admin editor.
+export function describeContentIssue(error: z.ZodError) {
+  const issue = error.issues[0];
+  if (!issue) return "Invalid content";
+  return issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+// Runs every html block through the CMS allowlist. Works on any stored value
+// (older rows and revisions were never validated) and reports the indexes of
+// blocks whose HTML lost something.
+export function sanitizeContentValue<T>(value: T): { value: T; sanitizedBlocks: number[] } {
+  const blocks = value && typeof value === "object" ? (value as { blocks?: unknown }).blocks : undefined;
+  if (!Array.isArray(blocks)) return { value, sanitizedBlocks: [] };
+
+  const sanitizedBlocks: number[] = [];
+  const cleaned = blocks.map((block, index) => {
+    if (!block || typeof block !== "object" || block.type !== "html" || typeof block.html !== "string") return block;
+    const result = sanitizeCmsHtml(block.html);
+    if (result.changed) sanitizedBlocks.push(index);
+    return { ...block, html: result.html };
+  });
+  return { value: { ...value, blocks: cleaned }, sanitizedBlocks };
+}
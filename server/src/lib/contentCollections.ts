@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+import { hrefSchema, imageSrcSchema } from "./cmsBlocks.js";
+
+// Structured marketing content edited in Admin › Collections and rendered by
+// the Home, Services, Portfolio and About pages. Mirrors CollectionItemData in
+// src/app/services/platformService.ts.
+export const CONTENT_COLLECTIONS = ["services", "portfolio", "team", "testimonials", "timeline"] as const;
+
+export type ContentCollection = (typeof CONTENT_COLLECTIONS)[number];
+
+// lucide-react icons the site maps service cards onto.
+export const SERVICE_ICONS = [
+  "code",
+  "smartphone",
+  "cloud",
+  "lightbulb",
+  "database",
+  "shield",
+  "zap",
+  "bar-chart",
+  "globe",
+  "cpu",
+  "palette",
+  "headphones"
+] as const;
+
+const optionalImage = z.union([z.literal(""), imageSrcSchema]).optional();
+const optionalHref = z.union([z.literal(""), hrefSchema]).optional();
+
+export const collectionDataSchemas = {
+  services: z
+    .object({
+      title: z.string().trim().min(1).max(120),
+      description: z.string().trim().min(1).max(600),
+      features: z.array(z.string().trim().min(1).max(200)).max(12).default([]),
+      icon: z.enum(SERVICE_ICONS).default("code"),
+      // Also shown in the Home page services section.
+      featured: z.boolean().default(false)
+    })
+    .strict(),
+  portfolio: z
+    .object({
+      title: z.string().trim().min(1).max(160),
+      category: z.string().trim().min(1).max(80),
+      summary: z.string().max(1000).optional(),
+      imageUrl: optionalImage,
+      link: optionalHref,
+      tags: z.array(z.string().trim().min(1).max(40)).max(10).default([]),
+      featured: z.boolean().default(false)
+    })
+    .strict(),
+  team: z
+    .object({
+      name: z.string().trim().min(1).max(120),
+      role: z.string().trim().min(1).max(120),
+      experience: z.string().max(60).optional(),
+      bio: z.string().max(1000).optional(),
+      imageUrl: optionalImage,
+      linkedinUrl: z.union([z.literal(""), z.string().trim().url().max(500).regex(/^https:\/\//i)]).optional()
+    })
+    .strict(),
+  testimonials: z
+    .object({
+      name: z.string().trim().min(1).max(120),
+      role: z.string().max(120).optional(),
+      content: z.string().trim().min(1).max(2000),
+      rating: z.number().int().min(1).max(5).default(5)
+    })
+    .strict(),
+  timeline: z
+    .object({
+      year: z.string().trim().min(1).max(20),
+      title: z.string().trim().min(1).max(120),
+      description: z.string().max(600).default("")
+    })
+    .strict()
+} satisfies Record<ContentCollection, z.ZodType>;
+
+export type ContentCollectionItem = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  collection: ContentCollection;
+  data: Record<string, unknown>;
+  is_published: boolean;
+  sort_order: number;
+  updated_by_email: string | null;
+};
+
+export const CONTENT_COLLECTION_ITEM_COLUMNS =
+  "id, created_at, updated_at, collection, data, is_published, sort_order, updated_by_email";
+
+export function parseCollection(raw: string): ContentCollection | null {
+  return (CONTENT_COLLECTIONS as readonly string[]).includes(raw) ? (raw as ContentCollection) : null;
+}
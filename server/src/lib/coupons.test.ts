@@ -0,0 +1,80 @@
+import { insertOrder, useTestDatabase } from "../test/db.js";
+
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { evaluateCoupon } from "./coupons.js";
+import { withTransaction } from "./db.js";
+
+const db = await useTestDatabase();
+
+after(() => db.close());
+
+async function insertCoupon(code: string, fields: Record<string, unknown> = {}) {
+  const columns = { discount_type: "percent", discount_value: 10, ...fields };
+  const names = Object.keys(columns);
+  const res = await db.query<{ id: string }>(
+    `insert into coupons (code, ${names.join(", ")}) values ($1, ${names.map((_, i) => `$${i + 2}`).join(", ")}) returning id`,
+    [code, ...Object.values(columns)]
+  );
+  return res.rows[0].id;
+}
+
+async function redeem(couponId: string, email: string, paymentStatus: string, createdAt?: string) {
+  const orderId = await insertOrder(db, { email, paymentStatus });
+  if (createdAt) await db.query("update orders set created_at = $2 where id = $1", [orderId, createdAt]);
+  await db.query("insert into coupon_redemptions (coupon_id, order_id, email, discount_inr) values ($1,$2,$3,100)", [
+    couponId,
+    orderId,
+    email
+  ]);
+}
+
+function evaluate(code: string, email = "buyer@example.com", priceInr = 1000) {
+  return withTransaction((client) => evaluateCoupon(client, { code, serviceKey: "web", priceInr, email, lock: true }));
+}
+
+test("applies a percentage discount to a case-insensitive code", async () => {
+  await insertCoupon("SAVE10");
+
+  const applied = await evaluate(" save10 ");
+
+  assert.equal(applied.discountInr, 100);
+  assert.equal(applied.finalPriceInr, 900);
+});
+
+test("never discounts a plan below one rupee", async () => {
+  await insertCoupon("BIGFLAT", { discount_type: "flat", discount_value: 5000 });
+
+  assert.equal((await evaluate("BIGFLAT")).finalPriceInr, 1);
+});
+
+test("counts paid and recent pending redemptions against the usage cap", async () => {
+  const couponId = await insertCoupon("CAP2", { max_redemptions: 2 });
+  await redeem(couponId, "a@example.com", "paid");
+  await redeem(couponId, "b@example.com", "failed");
+  await redeem(couponId, "c@example.com", "pending", "2020-01-01T00:00:00Z");
+
+  assert.equal((await evaluate("CAP2")).discountInr, 100);
+
+  await redeem(couponId, "d@example.com", "pending");
+  await assert.rejects(evaluate("CAP2"), /reached its usage limit/);
+});
+
+test("limits redemptions per email address", async () => {
+  const couponId = await insertCoupon("ONCE", { max_per_email: 1 });
+  await redeem(couponId, "repeat@example.com", "paid");
+
+  await assert.rejects(evaluate("ONCE", "Repeat@Example.com"), /already used this coupon/);
+  assert.equal((await evaluate("ONCE", "new@example.com")).discountInr, 100);
+});
+
+test("rejects inactive, expired and wrong-service coupons", async () => {
+  await insertCoupon("OFF", { is_active: false });
+  await insertCoupon("OLD", { ends_at: "2020-01-01T00:00:00Z" });
+  await insertCoupon("APPSONLY", { service_key: "mobile" });
+
+  await assert.rejects(evaluate("OFF"), /Invalid coupon code/);
+  await assert.rejects(evaluate("OLD"), /expired/);
+  await assert.rejects(evaluate("APPSONLY"), /does not apply/);
+});
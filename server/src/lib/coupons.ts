@@ -0,0 +1,104 @@
+import type pg from "pg";
+
+import { HttpError } from "../middleware/errorHandler.js";
+
+type Queryable = Pick<pg.PoolClient, "query">;
+
+export type CouponRow = {
+  id: number;
+  code: string;
+  discount_type: "percent" | "flat";
+  discount_value: number;
+  service_key: string | null;
+  min_order_inr: number | null;
+  max_redemptions: number | null;
+  max_per_email: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+};
+
+// A redemption holds its slot while the order is (partially) paid, or pending for
+// a short reservation window (an abandoned checkout frees the slot again).
+export const ACTIVE_REDEMPTION_SQL = [
+  "(o.payment_status in ('paid','partially_paid')",
+  "or (o.payment_status = 'pending' and o.created_at > now() - interval '30 minutes'))"
+].join(" ");
+
+export function normalizeCouponCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function computeDiscountInr(coupon: Pick<CouponRow, "discount_type" | "discount_value">, priceInr: number) {
+  const raw =
+    coupon.discount_type === "percent"
+      ? Math.floor((priceInr * coupon.discount_value) / 100)
+      : coupon.discount_value;
+
+  // Razorpay needs a non-zero amount, so a coupon never takes the price below ₹1.
+  return Math.max(0, Math.min(raw, priceInr - 1));
+}
+
+// Validate a coupon for a given plan/email and return the discount.
+// Pass `lock: true` inside a transaction to serialise redemptions of the same code.
+export async function evaluateCoupon(
+  db: Queryable,
+  input: { code: string; serviceKey: string; priceInr: number; email: string; lock?: boolean }
+) {
+  const code = normalizeCouponCode(input.code);
+
+  const couponRes = await db.query<CouponRow>(
+    [
+      "select id, code, discount_type, discount_value, service_key, min_order_inr, max_redemptions, max_per_email,",
+      "starts_at, ends_at, is_active",
+      "from coupons where code = $1 limit 1",
+      input.lock ? "for update" : ""
+    ].join("\n"),
+    [code]
+  );
+
+  const coupon = couponRes.rows[0];
+  if (!coupon || !coupon.is_active) throw new HttpError(400, "Invalid coupon code", true);
+
+  const now = Date.now();
+  if (coupon.starts_at && new Date(coupon.starts_at).getTime() > now) {
+    throw new HttpError(400, "This coupon is not active yet", true);
+  }
+  if (coupon.ends_at && new Date(coupon.ends_at).getTime() <= now) {
+    throw new HttpError(400, "This coupon has expired", true);
+  }
+  if (coupon.service_key && coupon.service_key !== input.serviceKey) {
+    throw new HttpError(400, "This coupon does not apply to the selected service", true);
+  }
+  if (coupon.min_order_inr && input.priceInr < coupon.min_order_inr) {
+    throw new HttpError(400, `Minimum order value for this coupon is ₹${coupon.min_order_inr.toLocaleString("en-IN")}`, true);
+  }
+
+  if (coupon.max_redemptions || coupon.max_per_email) {
+    const usageRes = await db.query<{ total: string; by_email: string }>(
+      [
+        "select count(*)::text as total,",
+        "count(*) filter (where lower(r.email) = $2)::text as by_email",
+        "from coupon_redemptions r",
+        "join orders o on o.id = r.order_id",
+        `where r.coupon_id = $1 and ${ACTIVE_REDEMPTION_SQL}`
+      ].join("\n"),
+      [coupon.id, input.email.toLowerCase()]
+    );
+
+    const total = Number(usageRes.rows[0]?.total ?? 0);
+    const byEmail = Number(usageRes.rows[0]?.by_email ?? 0);
+
+    if (coupon.max_redemptions && total >= coupon.max_redemptions) {
+      throw new HttpError(400, "This coupon has reached its usage limit", true);
+    }
+    if (coupon.max_per_email && byEmail >= coupon.max_per_email) {
+      throw new HttpError(400, "You have already used this coupon", true);
+    }
+  }
+
+  const discountInr = computeDiscountInr(coupon, input.priceInr);
+  if (discountInr <= 0) throw new HttpError(400, "This coupon does not reduce the price of this plan", true);
+
+  return { coupon, discountInr, finalPriceInr: input.priceInr - discountInr };
+}
@@ -144,18 +144,37 @@ export async function query<T = unknown>(text: string, params?: unknown[]): Prom
   return result.rows as T[];
 }
 
+// Run `fn` inside a single transaction on a dedicated client.
+export async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("begin");
+    const result = await fn(client);
+    await client.query("commit");
+    return result;
+  } catch (err) {
+    await client.query("rollback").catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Legacy /api/contact form; stored as a `contact` submission like the main Contact page.
 export async function insertContactMessage(input: {
   name: string;
   email: string;
   phone?: string;
   message: string;
 }) {
-  await pool.query(
-    "insert into contact_messages (name, email, phone, message) values ($1,$2,$3,$4)",
-    [input.name, input.email, input.phone ?? null, input.message]
+  const result = await pool.query<{ id: number }>(
+    "insert into submissions (type, data) values ('contact', $1) returning id",
+    [{ name: input.name, email: input.email, phone: input.phone, subject: "Contact message", message: input.message }]
   );
+  return result.rows[0].id;
 }
 
+// Legacy /api/hire-us form; stored as a `hire` submission like the main Hire Us page.
 export async function insertHireRequest(input: {
   name: string;
   email: string;
@@ -164,8 +183,19 @@ export async function insertHireRequest(input: {
   budget?: string;
   details?: string;
 }) {
-  await pool.query(
-    "insert into hire_requests (name, email, service, budget, details) values ($1,$2,$3,$4,$5)",
-    [input.name, input.email, input.service, input.budget ?? null, input.details ?? null]
+  const result = await pool.query<{ id: number }>(
+    "insert into submissions (type, data) values ('hire', $1) returning id",
+    [
+      {
+        name: input.name,
+        email: input.email,
+        phone: input.phone,
+        services: [input.service],
+        projectName: input.service,
+        projectDescription: input.details,
+        budget: input.budget
+      }
+    ]
   );
+  return result.rows[0].id;
 }
@@ -21,6 +21,7 @@ async function sesSend(opts: {
   subject: string;
   text: string;
   html?: string;
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }) {
   const transport = getTransport();
   if (!transport || !env.MAIL_FROM) return null;
@@ -30,7 +31,8 @@ async function sesSend(opts: {
     to: opts.to,
     subject: opts.subject,
     text: opts.text,
-    html: opts.html
+    html: opts.html,
+    attachments: opts.attachments
   });
 
   return true;
@@ -99,3 +101,287 @@ export async function sendUserSubmissionEmail(input: {
 
   await sesSend({ to: input.to, subject, text });
 }
+
+export async function sendQuoteEmail(input: {
+  to: string;
+  clientName: string;
+  quoteNumber: string;
+  title: string;
+  totalInr: number;
+  validUntil: string;
+  pdf: Buffer;
+}) {
+  const portalUrl = env.WEB_URL ? `${env.WEB_URL.replace(/\/$/, "")}/portal` : null;
+  const validUntil = new Date(input.validUntil).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+
+  const subject = `Quotation ${input.quoteNumber} \u2014 HZ IT Company`;
+  const text = [
+    `Hi ${input.clientName},`,
+    "",
+    `Please find attached our quotation for "${input.title}".`,
+    `Total: INR ${input.totalInr.toLocaleString("en-IN")} (valid until ${validUntil}).`,
+    "",
+    portalUrl
+      ? `You can review and accept it from your client portal: ${portalUrl}`
+      : "You can review and accept it from your client portal.",
+    "Sign in with this email address to see the quote.",
+    "",
+    "HZ IT Company"
+  ].join("\n");
+
+  return sesSend({
+    to: input.to,
+    subject,
+    text,
+    attachments: [{ filename: `${input.quoteNumber}.pdf`, content: input.pdf, contentType: "application/pdf" }]
+  });
+}
+
+export async function sendProjectStatusEmail(input: {
+  to: string;
+  name: string;
+  orderId: number;
+  serviceName: string;
+  statusLabel: string;
+  note: string | null;
+}) {
+  const portalUrl = env.WEB_URL ? `${env.WEB_URL.replace(/\/$/, "")}/portal` : null;
+
+  const subject = `Order #${input.orderId} is now ${input.statusLabel.toLowerCase()} \u2014 HZ IT Company`;
+  const text = [
+    `Hi ${input.name},`,
+    "",
+    `Your project "${input.serviceName}" (order #${input.orderId}) has been updated.`,
+    `Status: ${input.statusLabel}`,
+    ...(input.note ? ["", input.note] : []),
+    "",
+    portalUrl ? `See the full timeline in your client portal: ${portalUrl}` : "See the full timeline in your client portal.",
+    "",
+    "HZ IT Company"
+  ].join("\n");
+
+  return sesSend({ to: input.to, subject, text });
+}
+
+function messagePreview(body: string, attachmentCount: number) {
+  const trimmed = body.trim();
+  const preview = trimmed.length > 600 ? `${trimmed.slice(0, 600)}…` : trimmed;
+  const files = attachmentCount > 0 ? `[${attachmentCount} attachment${attachmentCount === 1 ? "" : "s"}]` : "";
+  return [preview, files].filter(Boolean).join("\n\n");
+}
+
+export async function sendClientMessageToAdminEmail(input: {
+  threadLabel: string;
+  fromEmail: string | null;
+  body: string;
+  attachmentCount: number;
+}) {
+  if (!env.MAIL_TO) return null;
+
+  const adminUrl = env.WEB_URL ? `${env.WEB_URL.replace(/\/$/, "")}/admin/messages` : null;
+  const text = [
+    `New message on ${input.threadLabel}`,
+    input.fromEmail ? `From: ${input.fromEmail}` : null,
+    "",
+    messagePreview(input.body, input.attachmentCount),
+    "",
+    adminUrl ? `Reply from the admin inbox: ${adminUrl}` : null
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  return sesSend({ to: env.MAIL_TO, subject: `New message \u2014 ${input.threadLabel}`, text });
+}
+
+export async function sendAdminReplyToClientEmail(input: {
+  to: string;
+  clientName: string | null;
+  threadLabel: string;
+  body: string;
+  attachmentCount: number;
+  portalPath: string;
+}) {
+  const url = env.WEB_URL ? `${env.WEB_URL.replace(/\/$/, "")}${input.portalPath}` : null;
+  const text = [
+    `Hi ${input.clientName || "there"},`,
+    "",
+    `You have a new message from HZ IT Company about ${input.threadLabel}:`,
+    "",
+    messagePreview(input.body, input.attachmentCount),
+    "",
+    url ? `Reply here: ${url}` : "Sign in to your account to reply.",
+    "",
+    "HZ IT Company"
+  ].join("\n");
+
+  return sesSend({ to: input.to, subject: `New message about ${input.threadLabel} \u2014 HZ IT Company`, text });
+}
+
+export async function sendDeliverableReadyEmail(input: {
+  to: string;
+  name: string;
+  orderId: number;
+  title: string;
+  version: number;
+  notes: string | null;
+}) {
+  const portalUrl = env.WEB_URL ? `${env.WEB_URL.replace(/\/$/, "")}/portal` : null;
+  const what = input.version > 1 ? `A new version (v${input.version}) of "${input.title}"` : `"${input.title}"`;
+
+  const text = [
+    `Hi ${input.name},`,
+    "",
+    `${what} is ready for your review on order #${input.orderId}.`,
+    ...(input.notes ? ["", input.notes] : []),
+    "",
+    portalUrl ? `Download and approve it from your client portal: ${portalUrl}` : "Download and approve it from your client portal.",
+    "",
+    "HZ IT Company"
+  ].join("\n");
+
+  return sesSend({ to: input.to, subject: `Deliverable ready for review \u2014 order #${input.orderId}`, text });
+}
+
+export async function sendDeliverableReviewedEmail(input: {
+  orderId: number;
+  title: string;
+  outcome: "approved" | "changes_requested";
+  clientEmail: string | null;
+  note: string | null;
+}) {
+  if (!env.MAIL_TO) return null;
+
+  const verb = input.outcome === "approved" ? "approved" : "requested changes to";
+  const text = [
+    `${input.clientEmail ?? "The client"} ${verb} "${input.title}" on order #${input.orderId}.`,
+    ...(input.note ? ["", input.note] : [])
+  ].join("\n");
+
+  return sesSend({
+    to: env.MAIL_TO,
+    subject: `Deliverable ${input.outcome === "approved" ? "approved" : "needs changes"} \u2014 order #${input.orderId}`,
+    text
+  });
+}
+
+export async function sendInterviewInviteEmail(input: {
+  to: string;
+  cc?: string | null;
+  candidateName: string;
+  position: string;
+  roundName: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  interviewerName: string;
+  meetingUrl: string | null;
+  ics: string;
+  method: "REQUEST" | "CANCEL";
+  updated: boolean;
+}) {
+  const when = `${input.scheduledAt.toLocaleString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    dateStyle: "full",
+    timeStyle: "short"
+  })} IST`;
+  const cancelled = input.method === "CANCEL";
+
+  const text = [
+    `Hi ${input.candidateName},`,
+    "",
+    cancelled
+      ? `Your ${input.roundName} interview for the ${input.position} role on ${when} has been cancelled. We will be in touch about next steps.`
+      : input.updated
+        ? "Your interview has been rescheduled."
+        : "Thanks for applying \u2014 we would like to invite you to an interview.",
+    ...(cancelled
+      ? []
+      : [
+          "",
+          `Role: ${input.position}`,
+          `Round: ${input.roundName}`,
+          `When: ${when} (${input.durationMinutes} minutes)`,
+          `Interviewer: ${input.interviewerName}`,
+          input.meetingUrl ? `Join: ${input.meetingUrl}` : null,
+          "",
+          "The attached calendar invite adds this to your calendar."
+        ].filter((line): line is string => line !== null)),
+    "",
+    "HZ IT Company"
+  ].join("\n");
+
+  const subject = cancelled
+    ? `Interview cancelled \u2014 ${input.position}`
+    : `${input.updated ? "Interview rescheduled" : "Interview invitation"} \u2014 ${input.position}`;
+
+  return sesSend({
+    to: input.cc ? [input.to, input.cc] : input.to,
+    subject,
+    text,
+    attachments: [
+      {
+        filename: "interview.ics",
+        content: Buffer.from(input.ics, "utf8"),
+        contentType: `text/calendar; charset=utf-8; method=${input.method}`
+      }
+    ]
+  });
+}
+
+export async function sendCareerInfoRequestEmail(input: {
+  to: string;
+  candidateName: string;
+  position: string;
+  question: string;
+}) {
+  const url = env.WEB_URL ? `${env.WEB_URL.replace(/\/$/, "")}/submissions` : null;
+  const text = [
+    `Hi ${input.candidateName},`,
+    "",
+    `We are reviewing your application for the ${input.position} role and need a little more information:`,
+    "",
+    input.question,
+    "",
+    url ? `Reply here: ${url}` : "Sign in to your account and open My Submissions to reply.",
+    "",
+    "HZ IT Company"
+  ].join("\n");
+
+  return sesSend({ to: input.to, subject: `More information needed \u2014 ${input.position}`, text });
+}
+
+export async function sendCareerCandidateUpdateEmail(input: {
+  candidateName: string;
+  candidateEmail: string;
+  position: string;
+  applicationId: number;
+  update: "replied" | "resume_replaced" | "withdrawn";
+  details: string | null;
+}) {
+  if (!env.MAIL_TO) return null;
+
+  const adminUrl = env.WEB_URL ? `${env.WEB_URL.replace(/\/$/, "")}/admin/careers` : null;
+  const what =
+    input.update === "replied"
+      ? "answered your question"
+      : input.update === "resume_replaced"
+        ? "uploaded a new resume"
+        : "withdrew their application";
+  const text = [
+    `${input.candidateName} <${input.candidateEmail}> ${what} (${input.position}, application #${input.applicationId}).`,
+    ...(input.details ? ["", input.details] : []),
+    ...(adminUrl ? ["", adminUrl] : [])
+  ].join("\n");
+
+  const subject =
+    input.update === "withdrawn"
+      ? `Application withdrawn \u2014 ${input.position}`
+      : `Candidate update \u2014 ${input.candidateName} (${input.position})`;
+
+  return sesSend({ to: env.MAIL_TO, subject, text });
+}
+
+// Candidate emails rendered from the admin-editable templates in
+// career_email_templates; the caller has already filled in the variables.
+export async function sendCareerStatusEmail(input: { to: string; subject: string; text: string }) {
+  return sesSend({ to: input.to, subject: input.subject, text: input.text });
+}
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import "dotenv/config";
 
+import { GSTIN_REGEX } from "./gst.js";
+
 const envSchema = z
   .object({
   NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
@@ -73,6 +75,22 @@ const envSchema = z
     (v) => (typeof v === "string" && v.trim() === "" ? undefined : v),
     z.string().min(1).optional()
   ),
+  // Secret configured on the Razorpay dashboard webhook (not the API key secret).
+  RAZORPAY_WEBHOOK_SECRET: z.preprocess(
+    (v) => (typeof v === "string" && v.trim() === "" ? undefined : v),
+    z.string().min(1).optional()
+  ),
+
+  // Tax invoices (GST). Without COMPANY_GSTIN, invoices are issued without tax lines.
+  COMPANY_GSTIN: z.preprocess(
+    (v) => (typeof v === "string" && v.trim() === "" ? undefined : typeof v === "string" ? v.trim().toUpperCase() : v),
+    z.string().regex(GSTIN_REGEX).optional()
+  ),
+  COMPANY_STATE_CODE: z.string().regex(/^\d{2}$/).default("10"),
+  COMPANY_BILLING_ADDRESS: z.string().min(1).default("Patna, Bihar 800001, India"),
+  GST_RATE_PERCENT: z.coerce.number().int().min(0).max(28).default(18),
+  // SAC for "IT design and development services"; overridable per pricing plan.
+  DEFAULT_SAC_CODE: z.string().regex(/^\d{4,8}$/).default("998314"),
 
   // Optional email integration (Amazon SES SMTP). Empty strings are treated as "unset".
   SES_SMTP_USER: z.preprocess(
@@ -136,7 +154,14 @@ const envSchema = z
     (v) => (typeof v === "string" && v.trim() === "" ? undefined : v),
     z.string().min(1).optional()
   ),
-  CAREER_UPLOAD_MAX_BYTES: z.coerce.number().int().positive().default(5 * 1024 * 1024)
+  // Private bucket for files exchanged with clients (message attachments, deliverables).
+  SUPABASE_PRIVATE_BUCKET: z.preprocess(
+    (v) => (typeof v === "string" && v.trim() === "" ? undefined : v),
+    z.string().min(1).optional()
+  ),
+  CAREER_UPLOAD_MAX_BYTES: z.coerce.number().int().positive().default(5 * 1024 * 1024),
+  ATTACHMENT_UPLOAD_MAX_BYTES: z.coerce.number().int().positive().default(20 * 1024 * 1024),
+  DELIVERABLE_UPLOAD_MAX_BYTES: z.coerce.number().int().positive().default(200 * 1024 * 1024)
   })
   .superRefine((val, ctx) => {
     // Only enforce MAIL_FROM when SES SMTP credentials are set (needed for OTP emails).
@@ -0,0 +1,168 @@
+import { z } from "zod";
+
+// GST helpers for tax invoices (India).
+
+// GST state/UT codes (first two digits of a GSTIN; also used as place of supply).
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory"
+};
+
+export const GSTIN_REGEX = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function isValidStateCode(code: string) {
+  return Object.prototype.hasOwnProperty.call(GST_STATE_CODES, code);
+}
+
+// Billing details collected before a payment so the tax invoice can be issued.
+export const billingDetailsSchema = z.object({
+  billingAddress: z.string().trim().min(5).max(500),
+  // GST state code; decides CGST+SGST vs IGST on the invoice.
+  placeOfSupply: z.string().refine(isValidStateCode, "Unknown GST state code"),
+  gstin: z.preprocess(
+    (v) => (typeof v === "string" ? (v.trim() === "" ? undefined : v.trim().toUpperCase()) : v),
+    z.string().regex(GSTIN_REGEX, "Invalid GSTIN").optional()
+  )
+});
+
+export const gstinMatchesState = {
+  check: (v: { gstin?: string; placeOfSupply: string }) => !v.gstin || v.gstin.slice(0, 2) === v.placeOfSupply,
+  params: { path: ["gstin"], message: "GSTIN state code does not match the billing state" }
+};
+
+export function stateLabel(code: string | null | undefined) {
+  if (!code) return "—";
+  const name = GST_STATE_CODES[code];
+  return name ? `${name} (${code})` : code;
+}
+
+// Indian financial year (April–March), e.g. "2026-27". Uses IST so invoices
+// issued just after midnight on 1 April land in the new year.
+export function financialYearFor(date: Date) {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const year = ist.getUTCFullYear();
+  const startYear = ist.getUTCMonth() >= 3 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, sequence: number) {
+  return `HZ/${financialYear}/${String(sequence).padStart(4, "0")}`;
+}
+
+export function formatCreditNoteNumber(financialYear: string, sequence: number) {
+  return `HZ/CN/${financialYear}/${String(sequence).padStart(4, "0")}`;
+}
+
+export type GstBreakup = {
+  taxablePaise: number;
+  cgstPaise: number;
+  sgstPaise: number;
+  igstPaise: number;
+  totalPaise: number;
+};
+
+// Listed prices are GST-inclusive, so the taxable value is back-computed from
+// the amount charged. Intra-state supply splits tax into CGST + SGST; inter-state
+// supply is charged as IGST. A taxable value fixed up front (an accepted quote)
+// is used as is instead.
+export function computeGstBreakup(input: {
+  totalPaise: number;
+  ratePercent: number;
+  placeOfSupply: string | null;
+  supplierStateCode: string;
+  taxablePaise?: number | null;
+}): GstBreakup {
+  const { totalPaise, ratePercent } = input;
+  if (ratePercent <= 0) {
+    return { taxablePaise: totalPaise, cgstPaise: 0, sgstPaise: 0, igstPaise: 0, totalPaise };
+  }
+
+  const taxablePaise = input.taxablePaise ?? Math.round((totalPaise * 100) / (100 + ratePercent));
+  const taxPaise = totalPaise - taxablePaise;
+
+  const intraState = !input.placeOfSupply || input.placeOfSupply === input.supplierStateCode;
+  if (intraState) {
+    const cgstPaise = Math.floor(taxPaise / 2);
+    return { taxablePaise, cgstPaise, sgstPaise: taxPaise - cgstPaise, igstPaise: 0, totalPaise };
+  }
+
+  return { taxablePaise, cgstPaise: 0, sgstPaise: 0, igstPaise: taxPaise, totalPaise };
+}
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen"
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function belowHundred(n: number) {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+}
+
+function belowThousand(n: number) {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", rest ? belowHundred(rest) : ""].filter(Boolean).join(" ");
+}
+
+// Indian numbering system (thousand, lakh, crore).
+function integerToWords(n: number): string {
+  if (n === 0) return "Zero";
+
+  const crore = Math.floor(n / 10_000_000);
+  const lakh = Math.floor((n % 10_000_000) / 100_000);
+  const thousand = Math.floor((n % 100_000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    crore ? `${integerToWords(crore)} Crore` : "",
+    lakh ? `${belowHundred(lakh)} Lakh` : "",
+    thousand ? `${belowHundred(thousand)} Thousand` : "",
+    rest ? belowThousand(rest) : ""
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export function amountInWords(paise: number) {
+  const rupees = Math.floor(paise / 100);
+  const remainder = paise % 100;
+  const words = `Indian Rupees ${integerToWords(rupees)}`;
+  return remainder ? `${words} and ${belowHundred(remainder)} Paise Only` : `${words} Only`;
+}
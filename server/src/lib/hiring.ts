@@ -0,0 +1,243 @@
+import crypto from "crypto";
+
+import { env } from "./env.js";
+import { query, withTransaction } from "./db.js";
+import { buildIcsEvent, extractEmailAddress } from "./ics.js";
+import { sendInterviewInviteEmail } from "./email/resend.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const CAREER_STATUSES = ["new", "reviewing", "shortlisted", "rejected", "hired"] as const;
+export type CareerStatus = (typeof CAREER_STATUSES)[number];
+
+export const SCORECARD_RECOMMENDATIONS = ["strong_no", "no", "yes", "strong_yes"] as const;
+
+export type PipelineStage = {
+  id: number;
+  position: string | null;
+  label: string;
+  sort_order: number;
+  maps_to_status: CareerStatus;
+};
+
+export const PIPELINE_STAGE_COLUMNS = "st.id, st.position, st.label, st.sort_order, st.maps_to_status";
+
+// Stages that make up the pipeline for a position: its own stages when it has
+// any, otherwise the default (position is null) pipeline. `positionSql` is a
+// SQL expression for the position, e.g. "$1" or "a.position".
+export function pipelineStageFilter(positionSql: string) {
+  return [
+    `(st.position = ${positionSql} or (st.position is null and not exists (`,
+    `  select 1 from career_pipeline_stages own where own.position = ${positionSql}`,
+    ")))"
+  ].join("\n");
+}
+
+export async function loadPipelineStages(position: string | null) {
+  return query<PipelineStage>(
+    position
+      ? `select ${PIPELINE_STAGE_COLUMNS} from career_pipeline_stages st where ${pipelineStageFilter("$1")} order by st.sort_order, st.id`
+      : `select ${PIPELINE_STAGE_COLUMNS} from career_pipeline_stages st where st.position is null order by st.sort_order, st.id`,
+    position ? [position] : []
+  );
+}
+
+export const APPLICATION_EVENT_COLUMNS = "id, created_at, kind, from_stage, to_stage, to_status, note, actor_email";
+
+export type ApplicationEventKind =
+  | "stage_changed"
+  | "note"
+  | "withdrawn"
+  | "resume_replaced"
+  | "info_requested"
+  | "info_replied"
+  | "merged"
+  | "unmerged";
+
+// Append an entry to the candidate timeline.
+export async function addApplicationEvent(input: {
+  applicationId: number;
+  kind: ApplicationEventKind;
+  note?: string | null;
+  toStatus?: CareerStatus | null;
+  actorEmail?: string | null;
+}) {
+  const rows = await query(
+    [
+      "insert into career_application_events (application_id, kind, to_status, note, actor_email)",
+      "values ($1,$2,$3,$4,$5)",
+      `returning ${APPLICATION_EVENT_COLUMNS}`
+    ].join("\n"),
+    [input.applicationId, input.kind, input.toStatus ?? null, input.note ?? null, input.actorEmail ?? null]
+  );
+  return rows[0];
+}
+
+// Move an application to a stage of its pipeline, keeping the coarse status in
+// step and recording the move on the candidate timeline. Returns null when the
+// application does not exist; `previousStatus` lets callers react to a change.
+export async function moveApplicationToStage(input: {
+  applicationId: number;
+  stageId: number;
+  note?: string | null;
+  actorEmail?: string | null;
+}) {
+  return withTransaction(async (db) => {
+    const appRes = await db.query<{
+      id: number;
+      position: string;
+      status: CareerStatus;
+      stage_id: number | null;
+      withdrawn_at: string | null;
+    }>(
+      "select id, position, status, stage_id, withdrawn_at from career_applications where id = $1 for update",
+      [input.applicationId]
+    );
+    const app = appRes.rows[0];
+    if (!app) return null;
+    if (app.withdrawn_at) throw new HttpError(400, "The candidate has withdrawn this application", true);
+
+    const stageRes = await db.query<PipelineStage>(
+      `select ${PIPELINE_STAGE_COLUMNS} from career_pipeline_stages st where st.id = $1 and ${pipelineStageFilter("$2")}`,
+      [input.stageId, app.position]
+    );
+    const stage = stageRes.rows[0];
+    if (!stage) throw new HttpError(400, "Stage is not part of this position's pipeline", true);
+
+    const fromRes = app.stage_id
+      ? await db.query<{ label: string }>("select label from career_pipeline_stages where id = $1", [app.stage_id])
+      : null;
+    const fromLabel = fromRes?.rows[0]?.label ?? null;
+
+    if (app.stage_id === stage.id && !input.note) return { stage, event: null, previousStatus: app.status };
+
+    await db.query("update career_applications set stage_id = $2, status = $3 where id = $1", [
+      app.id,
+      stage.id,
+      stage.maps_to_status
+    ]);
+
+    const eventRes = await db.query(
+      [
+        "insert into career_application_events (application_id, kind, from_stage, to_stage, to_status, note, actor_email)",
+        "values ($1,$2,$3,$4,$5,$6,$7)",
+        `returning ${APPLICATION_EVENT_COLUMNS}`
+      ].join("\n"),
+      [
+        app.id,
+        app.stage_id === stage.id ? "note" : "stage_changed",
+        app.stage_id === stage.id ? null : fromLabel,
+        app.stage_id === stage.id ? null : stage.label,
+        app.stage_id === stage.id ? null : stage.maps_to_status,
+        input.note ?? null,
+        input.actorEmail ?? null
+      ]
+    );
+
+    return { stage, event: eventRes.rows[0], previousStatus: app.status };
+  });
+}
+
+// Legacy PATCH /admin/careers/:id sets only the status; put the application on
+// the first stage of its pipeline that maps to that status.
+export async function setApplicationStatus(input: { applicationId: number; status: CareerStatus; actorEmail?: string | null }) {
+  const rows = await query<{ stage_id: number | null; status: CareerStatus }>(
+    [
+      "select a.status, (",
+      `  select st.id from career_pipeline_stages st where st.maps_to_status = $2 and ${pipelineStageFilter("a.position")}`,
+      "  order by st.sort_order, st.id limit 1",
+      ") as stage_id",
+      "from career_applications a where a.id = $1"
+    ].join("\n"),
+    [input.applicationId, input.status]
+  );
+  if (!rows[0]) return null;
+
+  const stageId = rows[0].stage_id;
+  if (stageId) {
+    return moveApplicationToStage({ applicationId: input.applicationId, stageId, actorEmail: input.actorEmail });
+  }
+
+  await query("update career_applications set status = $2 where id = $1", [input.applicationId, input.status]);
+  return { stage: null, event: null, previousStatus: rows[0].status };
+}
+
+export function newInterviewUid() {
+  return `interview-${crypto.randomBytes(12).toString("hex")}@hzitcompany`;
+}
+
+// Email the candidate (and the interviewer, when known) a calendar invite for
+// an interview. Each send bumps the ICS sequence so calendars treat it as an
+// update of the same event. Returns false when email is not configured.
+export async function sendInterviewInvite(interviewId: number, opts: { method: "REQUEST" | "CANCEL"; updated: boolean }) {
+  const rows = await query<{
+    id: number;
+    round_name: string;
+    scheduled_at: string;
+    duration_minutes: number;
+    interviewer_name: string;
+    interviewer_email: string | null;
+    meeting_url: string | null;
+    ics_uid: string;
+    ics_sequence: number;
+    invite_sent_at: string | null;
+    full_name: string;
+    email: string;
+    position: string;
+  }>(
+    [
+      "select i.id, i.round_name, i.scheduled_at, i.duration_minutes, i.interviewer_name, i.interviewer_email, i.meeting_url,",
+      "i.ics_uid, i.ics_sequence, i.invite_sent_at, a.full_name, a.email, a.position",
+      "from career_interviews i join career_applications a on a.id = i.application_id",
+      "where i.id = $1"
+    ].join("\n"),
+    [interviewId]
+  );
+  const interview = rows[0];
+  if (!interview || !env.MAIL_FROM) return false;
+
+  const sequence = interview.invite_sent_at ? interview.ics_sequence + 1 : interview.ics_sequence;
+  const scheduledAt = new Date(interview.scheduled_at);
+  const ics = buildIcsEvent({
+    uid: interview.ics_uid,
+    sequence,
+    method: opts.method,
+    start: scheduledAt,
+    durationMinutes: interview.duration_minutes,
+    summary: `${interview.round_name} interview \u2014 ${interview.position} (HZ IT Company)`,
+    description: [
+      `Interviewer: ${interview.interviewer_name}`,
+      interview.meeting_url ? `Join: ${interview.meeting_url}` : null
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    location: interview.meeting_url,
+    url: interview.meeting_url,
+    organizer: { name: "HZ IT Company", email: extractEmailAddress(env.MAIL_FROM) },
+    attendees: [
+      { name: interview.full_name, email: interview.email },
+      ...(interview.interviewer_email ? [{ name: interview.interviewer_name, email: interview.interviewer_email }] : [])
+    ]
+  });
+
+  const sent = await sendInterviewInviteEmail({
+    to: interview.email,
+    cc: interview.interviewer_email,
+    candidateName: interview.full_name,
+    position: interview.position,
+    roundName: interview.round_name,
+    scheduledAt,
+    durationMinutes: interview.duration_minutes,
+    interviewerName: interview.interviewer_name,
+    meetingUrl: interview.meeting_url,
+    ics,
+    method: opts.method,
+    updated: opts.updated
+  });
+  if (!sent) return false;
+
+  await query("update career_interviews set ics_sequence = $2, invite_sent_at = now() where id = $1", [
+    interview.id,
+    sequence
+  ]);
+  return true;
+}
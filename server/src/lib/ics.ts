@@ -0,0 +1,73 @@
+// Minimal iCalendar (RFC 5545) builder for single-event invites. Mail clients
+// treat a METHOD:REQUEST attachment as an invite and METHOD:CANCEL as a
+// cancellation of the event with the same UID.
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "Z");
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets must be folded with CRLF + space.
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest, "utf8") > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut), "utf8") > 75) cut -= 1;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join("\r\n ");
+}
+
+export function extractEmailAddress(value: string) {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+}
+
+export function buildIcsEvent(input: {
+  uid: string;
+  sequence: number;
+  method: "REQUEST" | "CANCEL";
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  organizer: { name: string; email: string };
+  attendees: { name: string; email: string }[];
+}) {
+  const end = new Date(input.start.getTime() + input.durationMinutes * 60_000);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//HZ IT Company//Careers//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${input.method}`,
+    "BEGIN:VEVENT",
+    `UID:${input.uid}`,
+    `SEQUENCE:${input.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(input.start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(input.summary)}`,
+    ...(input.description ? [`DESCRIPTION:${escapeText(input.description)}`] : []),
+    ...(input.location ? [`LOCATION:${escapeText(input.location)}`] : []),
+    ...(input.url ? [`URL:${input.url}`] : []),
+    `ORGANIZER;CN=${escapeText(input.organizer.name)}:mailto:${input.organizer.email}`,
+    ...input.attendees.map(
+      (a) => `ATTENDEE;CN=${escapeText(a.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${a.email}`
+    ),
+    `STATUS:${input.method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR"
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
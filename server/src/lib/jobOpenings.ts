@@ -0,0 +1,35 @@
+export const EMPLOYMENT_TYPES = ["full_time", "part_time", "contract", "internship"] as const;
+export const JOB_OPENING_STATUSES = ["open", "closed"] as const;
+
+export type JobOpening = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  slug: string;
+  title: string;
+  department: string | null;
+  location: string;
+  employment_type: (typeof EMPLOYMENT_TYPES)[number];
+  salary_min_inr: number | null;
+  salary_max_inr: number | null;
+  description_html: string;
+  requirements: string[];
+  status: (typeof JOB_OPENING_STATUSES)[number];
+  closed_at: string | null;
+  sort_order: number;
+};
+
+export const JOB_OPENING_COLUMNS = [
+  "o.id, o.created_at, o.updated_at, o.slug, o.title, o.department, o.location, o.employment_type,",
+  "o.salary_min_inr, o.salary_max_inr, o.description_html, o.requirements, o.status, o.closed_at, o.sort_order"
+].join(" ");
+
+export function slugifyTitle(title: string) {
+  const slug = title
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return slug || "opening";
+}
@@ -0,0 +1,127 @@
+import { query, withTransaction } from "./db.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const LEAD_STAGES = ["new", "contacted", "qualified", "proposal", "won", "lost"] as const;
+export type LeadStage = (typeof LEAD_STAGES)[number];
+
+export type LeadActivityKind = "note" | "stage_changed" | "owner_changed" | "value_changed" | "task_completed";
+
+export const LEAD_ACTIVITY_COLUMNS = "id, created_at, kind, from_stage, to_stage, note, actor_email";
+export const LEAD_TASK_COLUMNS =
+  "id, created_at, lead_id, title, due_at, assignee_email, completed_at, completed_by_email, created_by_email";
+
+// Open a lead for a new contact/hire submission. The deal value is estimated
+// from the budget text by estimate_deal_value_inr (server/db/schema.sql), the
+// same estimate the migrations and the legacy import use.
+export async function createLeadForSubmission(input: { submissionId: number; data: Record<string, unknown> }) {
+  const budget = typeof input.data.budget === "string" ? input.data.budget : null;
+  await query(
+    [
+      "insert into leads (submission_id, deal_value_inr) values ($1, estimate_deal_value_inr($2))",
+      "on conflict (submission_id) do nothing"
+    ].join("\n"),
+    [input.submissionId, budget]
+  );
+}
+
+// Submissions that slipped past createLeadForSubmission (e.g. the insert failed)
+// still show up on the board. Runs at startup; returns the number of leads opened.
+export async function backfillLeads() {
+  const rows = await query<{ id: number }>(
+    [
+      "insert into leads (submission_id, created_at, deal_value_inr)",
+      "select s.id, s.created_at, estimate_deal_value_inr(s.data ->> 'budget') from submissions s",
+      "where s.type in ('contact','hire') and not exists (select 1 from leads l where l.submission_id = s.id)",
+      "on conflict (submission_id) do nothing",
+      "returning id"
+    ].join("\n")
+  );
+  return rows.length;
+}
+
+export async function addLeadActivity(input: {
+  leadId: number;
+  kind: LeadActivityKind;
+  fromStage?: LeadStage | null;
+  toStage?: LeadStage | null;
+  note?: string | null;
+  actorEmail?: string | null;
+}) {
+  const rows = await query(
+    [
+      "insert into lead_activities (lead_id, kind, from_stage, to_stage, note, actor_email)",
+      "values ($1,$2,$3,$4,$5,$6)",
+      `returning ${LEAD_ACTIVITY_COLUMNS}`
+    ].join("\n"),
+    [
+      input.leadId,
+      input.kind,
+      input.fromStage ?? null,
+      input.toStage ?? null,
+      input.note ?? null,
+      input.actorEmail ?? null
+    ]
+  );
+  return rows[0];
+}
+
+// Apply admin changes to a lead and record each one on its activity feed.
+// Moving to `lost` requires a reason; leaving `lost` clears it.
+export async function updateLead(input: {
+  leadId: number;
+  stage?: LeadStage;
+  lostReason?: string | null;
+  ownerEmail?: string | null;
+  dealValueInr?: number | null;
+  actorEmail?: string | null;
+}) {
+  return withTransaction(async (db) => {
+    const currentRes = await db.query<{
+      stage: LeadStage;
+      lost_reason: string | null;
+      owner_email: string | null;
+      deal_value_inr: number | null;
+    }>("select stage, lost_reason, owner_email, deal_value_inr from leads where id = $1 for update", [input.leadId]);
+    const current = currentRes.rows[0];
+    if (!current) return null;
+
+    const stage = input.stage ?? current.stage;
+    const lostReason = stage === "lost" ? (input.lostReason?.trim() || current.lost_reason) : null;
+    if (stage === "lost" && !lostReason) throw new HttpError(400, "A reason is required to mark a lead as lost", true);
+    const ownerEmail = input.ownerEmail !== undefined ? input.ownerEmail?.trim().toLowerCase() || null : current.owner_email;
+    const dealValueInr = input.dealValueInr !== undefined ? input.dealValueInr : current.deal_value_inr;
+
+    await db.query(
+      [
+        "update leads set stage = $2, lost_reason = $3, owner_email = $4, deal_value_inr = $5, updated_at = now(),",
+        "stage_changed_at = case when stage <> $2 then now() else stage_changed_at end",
+        "where id = $1"
+      ].join("\n"),
+      [input.leadId, stage, lostReason, ownerEmail, dealValueInr]
+    );
+
+    const activities: Array<{ kind: LeadActivityKind; from?: LeadStage; to?: LeadStage; note: string | null }> = [];
+    if (stage !== current.stage) {
+      activities.push({ kind: "stage_changed", from: current.stage, to: stage, note: stage === "lost" ? lostReason : null });
+    } else if (stage === "lost" && lostReason !== current.lost_reason) {
+      activities.push({ kind: "stage_changed", from: stage, to: stage, note: lostReason });
+    }
+    if (ownerEmail !== current.owner_email) {
+      activities.push({ kind: "owner_changed", note: ownerEmail ? `Assigned to ${ownerEmail}` : "Unassigned" });
+    }
+    if (dealValueInr !== current.deal_value_inr) {
+      activities.push({
+        kind: "value_changed",
+        note: dealValueInr === null ? "Deal value cleared" : `Deal value set to ₹${dealValueInr.toLocaleString("en-IN")}`
+      });
+    }
+    for (const a of activities) {
+      await db.query(
+        "insert into lead_activities (lead_id, kind, from_stage, to_stage, note, actor_email) values ($1,$2,$3,$4,$5,$6)",
+        [input.leadId, a.kind, a.from ?? null, a.to ?? null, a.note, input.actorEmail ?? null]
+      );
+    }
+
+    return { stage, previousStage: current.stage };
+  });
+}
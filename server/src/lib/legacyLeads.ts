@@ -0,0 +1,155 @@
+import { query } from "./db.js";
+
+// Tables that held contact/hire leads before everything moved to `submissions`.
+// Copied rows keep a pointer back via submissions.legacy_source/legacy_id.
+export const LEGACY_LEAD_SOURCES = [
+  { table: "contact_messages", type: "contact" },
+  { table: "hire_requests", type: "hire" },
+  { table: "contact_submissions", type: "contact" },
+  { table: "hire_us_submissions", type: "hire" }
+] as const;
+
+export type LegacyLeadTable = (typeof LEGACY_LEAD_SOURCES)[number]["table"];
+
+// Idempotent: rows already copied are skipped by the unique (legacy_source,
+// legacy_id) index, and tables missing from older databases are ignored. Data
+// keys match what the Contact and Hire Us forms post to /api/submissions.
+export const MIGRATE_LEGACY_LEADS_SQL = `
+  ALTER TABLE submissions ADD COLUMN IF NOT EXISTS legacy_source text NULL;
+  ALTER TABLE submissions ADD COLUMN IF NOT EXISTS legacy_id bigint NULL;
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_submissions_legacy ON submissions (legacy_source, legacy_id) WHERE legacy_source IS NOT NULL;
+
+  DO $$ BEGIN
+    IF to_regclass('public.contact_messages') IS NOT NULL THEN
+      INSERT INTO submissions (created_at, type, data, legacy_source, legacy_id)
+      SELECT coalesce(t.created_at::timestamptz, now()), 'contact',
+        jsonb_strip_nulls(jsonb_build_object(
+          'name', t.name, 'email', t.email, 'phone', t.phone,
+          'subject', 'Contact message', 'message', t.message
+        )),
+        'contact_messages', t.id
+      FROM contact_messages t
+      ON CONFLICT (legacy_source, legacy_id) WHERE legacy_source IS NOT NULL DO NOTHING;
+    END IF;
+
+    IF to_regclass('public.hire_requests') IS NOT NULL THEN
+      INSERT INTO submissions (created_at, type, data, legacy_source, legacy_id)
+      SELECT coalesce(t.created_at::timestamptz, now()), 'hire',
+        jsonb_strip_nulls(jsonb_build_object(
+          'name', t.name, 'email', t.email,
+          'services', CASE WHEN t.service IS NOT NULL THEN jsonb_build_array(t.service) END,
+          'projectName', t.service, 'projectDescription', t.details, 'budget', t.budget
+        )),
+        'hire_requests', t.id
+      FROM hire_requests t
+      ON CONFLICT (legacy_source, legacy_id) WHERE legacy_source IS NOT NULL DO NOTHING;
+    END IF;
+
+    IF to_regclass('public.contact_submissions') IS NOT NULL THEN
+      INSERT INTO submissions (created_at, type, data, legacy_source, legacy_id)
+      SELECT t.created_at, 'contact',
+        jsonb_strip_nulls(jsonb_build_object(
+          'name', t.name, 'email', t.email, 'phone', t.phone,
+          'subject', t.subject, 'message', t.message
+        )),
+        'contact_submissions', t.id
+      FROM contact_submissions t
+      ON CONFLICT (legacy_source, legacy_id) WHERE legacy_source IS NOT NULL DO NOTHING;
+    END IF;
+
+    IF to_regclass('public.hire_us_submissions') IS NOT NULL THEN
+      INSERT INTO submissions (created_at, type, data, legacy_source, legacy_id)
+      SELECT t.created_at, 'hire',
+        jsonb_strip_nulls(jsonb_build_object(
+          'name', t.name, 'email', t.email, 'phone', t.phone, 'company', t.company,
+          'services', to_jsonb(t.services), 'projectName', t.project_name,
+          'projectDescription', t.project_description, 'budget', t.budget, 'timeline', t.timeline,
+          'referenceUrl', t.reference_url, 'additionalNotes', t.additional_notes
+        )),
+        'hire_us_submissions', t.id
+      FROM hire_us_submissions t
+      ON CONFLICT (legacy_source, legacy_id) WHERE legacy_source IS NOT NULL DO NOTHING;
+    END IF;
+  END $$;
+
+  DO $$ BEGIN
+    IF to_regclass('public.leads') IS NOT NULL THEN
+      INSERT INTO leads (submission_id, created_at, deal_value_inr)
+      SELECT s.id, s.created_at, estimate_deal_value_inr(s.data ->> 'budget') FROM submissions s
+      WHERE s.legacy_source IS NOT NULL
+      ON CONFLICT (submission_id) DO NOTHING;
+    END IF;
+  END $$;
+`;
+
+export async function migrateLegacyLeads() {
+  await query(MIGRATE_LEGACY_LEADS_SQL);
+}
+
+export type LegacyLeadAuditRow = {
+  table: LegacyLeadTable;
+  type: "contact" | "hire";
+  exists: boolean;
+  total: number;
+  migrated: number;
+  missing: Array<{ id: number; created_at: string; name: string | null; email: string | null }>;
+};
+
+// Per legacy table: how many rows exist, how many have a matching submission,
+// and a sample of any that do not.
+export async function getLegacyLeadAudit() {
+  const tables: LegacyLeadAuditRow[] = [];
+
+  for (const source of LEGACY_LEAD_SOURCES) {
+    const found = await query<{ reg: string | null }>("select to_regclass($1) as reg", [`public.${source.table}`]);
+    if (!found[0]?.reg) {
+      tables.push({ table: source.table, type: source.type, exists: false, total: 0, migrated: 0, missing: [] });
+      continue;
+    }
+
+    // Table names come from LEGACY_LEAD_SOURCES, never from the request.
+    const counts = await query<{ total: number; migrated: number }>(
+      [
+        "select count(*)::int as total, count(s.id)::int as migrated",
+        `from ${source.table} t`,
+        "left join submissions s on s.legacy_source = $1 and s.legacy_id = t.id"
+      ].join("\n"),
+      [source.table]
+    );
+    const missing = await query<LegacyLeadAuditRow["missing"][number]>(
+      [
+        "select t.id, t.created_at, t.name, t.email",
+        `from ${source.table} t`,
+        "where not exists (select 1 from submissions s where s.legacy_source = $1 and s.legacy_id = t.id)",
+        "order by t.created_at desc",
+        "limit 20"
+      ].join("\n"),
+      [source.table]
+    );
+
+    tables.push({
+      table: source.table,
+      type: source.type,
+      exists: true,
+      total: counts[0]?.total ?? 0,
+      migrated: counts[0]?.migrated ?? 0,
+      missing
+    });
+  }
+
+  const [withoutLead] = await query<{ count: number }>(
+    [
+      "select count(*)::int as count from submissions s",
+      "where s.type in ('contact','hire') and not exists (select 1 from leads l where l.submission_id = s.id)"
+    ].join("\n")
+  );
+  const byType = await query<{ type: string; total: number; legacy: number }>(
+    [
+      "select type, count(*)::int as total, count(legacy_source)::int as legacy",
+      "from submissions where type in ('contact','hire')",
+      "group by type order by type"
+    ].join("\n")
+  );
+
+  return { tables, submissions: byType, submissionsWithoutLead: withoutLead?.count ?? 0 };
+}
@@ -0,0 +1,153 @@
+import { query } from "./db.js";
+
+export type ThreadKind = "order" | "submission";
+
+export type MessageAttachment = {
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+};
+
+export type ThreadMessage = {
+  id: number;
+  created_at: string;
+  author_role: "client" | "admin";
+  author_email: string | null;
+  body: string;
+  attachments: MessageAttachment[];
+};
+
+// Who a thread is with, used for access checks and email notifications.
+export type ThreadTarget = {
+  kind: ThreadKind;
+  id: number;
+  label: string;
+  clientName: string | null;
+  clientEmail: string | null;
+  supabaseUid: string | null;
+};
+
+export function parseThreadKind(raw: string): ThreadKind | null {
+  return raw === "order" || raw === "submission" ? raw : null;
+}
+
+export async function loadThreadTarget(kind: ThreadKind, id: number): Promise<ThreadTarget | null> {
+  if (kind === "order") {
+    const rows = await query<{ id: number; name: string; email: string; service_name: string }>(
+      "select id, name, email, service_name from orders where id = $1 limit 1",
+      [id]
+    );
+    const order = rows[0];
+    if (!order) return null;
+    return {
+      kind,
+      id: order.id,
+      label: `Order #${order.id} · ${order.service_name}`,
+      clientName: order.name,
+      clientEmail: order.email,
+      supabaseUid: null
+    };
+  }
+
+  const rows = await query<{ id: number; type: string; supabase_uid: string | null; email: string | null; name: string | null; title: string | null }>(
+    [
+      "select s.id, s.type, s.supabase_uid,",
+      "coalesce(nullif(s.data->>'email',''), u.email) as email,",
+      "coalesce(s.data->>'name', s.data->>'fullName', u.name) as name,",
+      "coalesce(s.data->>'projectName', s.data->>'subject', s.data->>'position') as title",
+      "from submissions s left join users u on u.id = s.user_id",
+      "where s.id = $1 limit 1"
+    ].join("\n"),
+    [id]
+  );
+  const submission = rows[0];
+  if (!submission) return null;
+  const typeLabel = submission.type === "hire" ? "Hire request" : submission.type === "career" ? "Application" : "Enquiry";
+  return {
+    kind,
+    id: submission.id,
+    label: `${typeLabel} #${submission.id}${submission.title ? ` · ${submission.title}` : ""}`,
+    clientName: submission.name,
+    clientEmail: submission.email,
+    supabaseUid: submission.supabase_uid
+  };
+}
+
+// Orders belong to the checkout email; submissions to the Supabase user that
+// created them (same rule as GET /submissions).
+export function clientOwnsThread(target: ThreadTarget, user: { id?: string; email?: string }) {
+  if (target.kind === "order") {
+    return !!user.email && !!target.clientEmail && target.clientEmail.toLowerCase() === user.email.toLowerCase();
+  }
+  return !!user.id && target.supabaseUid === user.id;
+}
+
+function threadColumn(kind: ThreadKind) {
+  return kind === "order" ? "order_id" : "submission_id";
+}
+
+export async function findThreadId(kind: ThreadKind, id: number) {
+  const rows = await query<{ id: number }>(`select id from message_threads where ${threadColumn(kind)} = $1 limit 1`, [id]);
+  return rows[0]?.id ?? null;
+}
+
+export async function ensureThreadId(kind: ThreadKind, id: number) {
+  const column = threadColumn(kind);
+  await query(`insert into message_threads (${column}) values ($1) on conflict (${column}) do nothing`, [id]);
+  return (await findThreadId(kind, id))!;
+}
+
+export async function listThreadMessages(threadId: number) {
+  return query<ThreadMessage>(
+    [
+      "select id, created_at, author_role, author_email, body, attachments",
+      "from thread_messages where thread_id = $1",
+      "order by created_at, id"
+    ].join("\n"),
+    [threadId]
+  );
+}
+
+export async function markThreadRead(threadId: number, role: "client" | "admin") {
+  const column = role === "client" ? "client_last_read_at" : "admin_last_read_at";
+  await query(`update message_threads set ${column} = now() where id = $1`, [threadId]);
+}
+
+// Posting counts as reading the thread for the author's side.
+export async function postThreadMessage(input: {
+  threadId: number;
+  role: "client" | "admin";
+  authorEmail: string | null;
+  body: string;
+  attachments: MessageAttachment[];
+}) {
+  const rows = await query<ThreadMessage>(
+    [
+      "insert into thread_messages (thread_id, author_role, author_email, body, attachments)",
+      "values ($1,$2,$3,$4,$5::jsonb)",
+      "returning id, created_at, author_role, author_email, body, attachments"
+    ].join("\n"),
+    [input.threadId, input.role, input.authorEmail, input.body, JSON.stringify(input.attachments)]
+  );
+  const message = rows[0]!;
+
+  const readColumn = input.role === "client" ? "client_last_read_at" : "admin_last_read_at";
+  await query(`update message_threads set last_message_at = $2, ${readColumn} = $2 where id = $1`, [
+    input.threadId,
+    message.created_at
+  ]);
+
+  return message;
+}
+
+// Messages from the other side that arrived after this side last read the thread.
+export function unreadCountSql(role: "client" | "admin", threadAlias = "t") {
+  const from = role === "client" ? "admin" : "client";
+  const readColumn = role === "client" ? "client_last_read_at" : "admin_last_read_at";
+  return [
+    "(select count(*)::int from thread_messages tm",
+    `  where tm.thread_id = ${threadAlias}.id and tm.author_role = '${from}'`,
+    `  and (${threadAlias}.${readColumn} is null or tm.created_at > ${threadAlias}.${readColumn}))`
+  ].join("\n");
+}
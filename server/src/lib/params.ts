@@ -0,0 +1,21 @@
+import { HttpError } from "../middleware/errorHandler.js";
+
+// Shared by routes that take numeric ids in the path or store uploaded files.
+
+export function parseId(raw: string, label: string) {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) throw new HttpError(400, `Invalid ${label} id`, true);
+  return id;
+}
+
+// File name without extension, reduced to characters safe in a storage path.
+export function safeBaseName(input: string) {
+  const base = input.split("/").pop()?.split("\\").pop() ?? "file";
+  const noExt = base.replace(/\.[^.]+$/, "");
+  const cleaned = noExt
+    .replace(/[^a-zA-Z0-9._-]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "")
+    .slice(0, 60);
+  return cleaned || "file";
+}
@@ -0,0 +1,109 @@
+import { insertOrder, useTestDatabase } from "../test/db.js";
+
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+
+import { financialYearFor, formatCreditNoteNumber, formatInvoiceNumber } from "./gst.js";
+import { ensureInvoice, markOrderPaid, recordRefund } from "./payments.js";
+
+const db = await useTestDatabase();
+const financialYear = financialYearFor(new Date());
+
+after(() => db.close());
+
+async function paidOrder(priceInr = 1180) {
+  const orderId = await insertOrder(db, { priceInr });
+  await markOrderPaid({ orderId, razorpayOrderId: `order_${orderId}`, razorpayPaymentId: `pay_${orderId}` });
+  return orderId;
+}
+
+async function refundRow(razorpayRefundId: string) {
+  const res = await db.query<{
+    status: string;
+    reason: string | null;
+    actor_email: string | null;
+    credit_note_number: string | null;
+  }>("select status, reason, actor_email, credit_note_number from order_refunds where razorpay_refund_id = $1", [
+    razorpayRefundId
+  ]);
+  return res.rows[0];
+}
+
+async function paymentStatus(orderId: number) {
+  const res = await db.query<{ payment_status: string }>("select payment_status from orders where id = $1", [orderId]);
+  return res.rows[0].payment_status;
+}
+
+test("numbers invoices sequentially and issues one per order", async () => {
+  const first = await paidOrder();
+  const second = await paidOrder();
+
+  assert.equal(await ensureInvoice(first), formatInvoiceNumber(financialYear, 1));
+  assert.equal(await ensureInvoice(second), formatInvoiceNumber(financialYear, 2));
+  assert.equal(await ensureInvoice(first), formatInvoiceNumber(financialYear, 1));
+
+  const res = await db.query<{ taxable_paise: number; cgst_paise: number; sgst_paise: number; igst_paise: number }>(
+    "select taxable_paise, cgst_paise, sgst_paise, igst_paise from invoices where order_id = $1",
+    [first]
+  );
+  assert.deepEqual(res.rows, [{ taxable_paise: 100000, cgst_paise: 9000, sgst_paise: 9000, igst_paise: 0 }]);
+});
+
+test("keeps the admin's reason and actor when the webhook records the refund first", async () => {
+  const orderId = await paidOrder();
+  const base = { orderId, razorpayPaymentId: `pay_${orderId}`, razorpayRefundId: "rfnd_webhook_first", amountPaise: 50000 };
+
+  await recordRefund({ ...base, status: "processed" });
+  await recordRefund({ ...base, status: "pending", reason: "Scope cut", actorEmail: "admin@example.com" });
+
+  const refund = await refundRow("rfnd_webhook_first");
+  assert.equal(refund.status, "processed");
+  assert.equal(refund.reason, "Scope cut");
+  assert.equal(refund.actor_email, "admin@example.com");
+});
+
+test("keeps the admin's reason when the webhook lands second", async () => {
+  const orderId = await paidOrder();
+  const base = { orderId, razorpayPaymentId: `pay_${orderId}`, razorpayRefundId: "rfnd_admin_first", amountPaise: 50000 };
+
+  await recordRefund({ ...base, status: "pending", reason: "Duplicate order", actorEmail: "admin@example.com" });
+  await recordRefund({ ...base, status: "processed" });
+
+  const refund = await refundRow("rfnd_admin_first");
+  assert.equal(refund.status, "processed");
+  assert.equal(refund.reason, "Duplicate order");
+  assert.equal(refund.actor_email, "admin@example.com");
+});
+
+test("allocates credit note numbers once, in sequence, and never to failed refunds", async () => {
+  const orderId = await paidOrder(2000);
+  const base = { orderId, razorpayPaymentId: `pay_${orderId}` };
+  const before = await db.query<{ last_number: number }>(
+    "select last_number from credit_note_sequences where financial_year = $1",
+    [financialYear]
+  );
+  const next = (before.rows[0]?.last_number ?? 0) + 1;
+
+  await recordRefund({ ...base, razorpayRefundId: "rfnd_seq_a", amountPaise: 10000, status: "pending" });
+  await recordRefund({ ...base, razorpayRefundId: "rfnd_seq_a", amountPaise: 10000, status: "processed" });
+  await recordRefund({ ...base, razorpayRefundId: "rfnd_seq_failed", amountPaise: 10000, status: "failed" });
+  await recordRefund({ ...base, razorpayRefundId: "rfnd_seq_b", amountPaise: 10000, status: "processed" });
+
+  assert.equal((await refundRow("rfnd_seq_a")).credit_note_number, formatCreditNoteNumber(financialYear, next));
+  assert.equal((await refundRow("rfnd_seq_failed")).credit_note_number, null);
+  assert.equal((await refundRow("rfnd_seq_b")).credit_note_number, formatCreditNoteNumber(financialYear, next + 1));
+});
+
+test("marks the order refunded only once refunds cover the full amount", async () => {
+  const orderId = await paidOrder(1000);
+  const base = { orderId, razorpayPaymentId: `pay_${orderId}`, status: "processed" as const };
+
+  await recordRefund({ ...base, razorpayRefundId: "rfnd_part_1", amountPaise: 40000 });
+  assert.equal(await paymentStatus(orderId), "paid");
+
+  await recordRefund({ ...base, razorpayRefundId: "rfnd_part_2", amountPaise: 60000 });
+  assert.equal(await paymentStatus(orderId), "refunded");
+
+  await recordRefund({ ...base, razorpayRefundId: "rfnd_part_2", amountPaise: 60000, status: "failed" });
+  assert.equal(await paymentStatus(orderId), "paid");
+});
@@ -0,0 +1,405 @@
+import type pg from "pg";
+
+import { env } from "./env.js";
+import { query, withTransaction } from "./db.js";
+import { computeGstBreakup, financialYearFor, formatCreditNoteNumber, formatInvoiceNumber } from "./gst.js";
+
+type InvoiceOrder = {
+  id: number;
+  name: string;
+  price_inr: number;
+  sac_code: string | null;
+  customer_gstin: string | null;
+  billing_address: string | null;
+  place_of_supply: string | null;
+  list_price_inr: number | null;
+  discount_inr: number;
+  coupon_code: string | null;
+  gst_rate_percent: number | null;
+  taxable_inr: number | null;
+};
+
+const INVOICE_ORDER_COLUMNS = [
+  "o.id, o.name, o.price_inr, o.sac_code, o.customer_gstin, o.billing_address, o.place_of_supply,",
+  "o.list_price_inr, o.discount_inr, o.coupon_code, o.gst_rate_percent, o.taxable_inr"
+].join(" ");
+
+// Allocate the next invoice number and insert the tax snapshot. The number comes
+// from a gap-free per-financial-year sequence: the counter bump and the invoice
+// insert share the caller's transaction, so a failed insert rolls it back.
+async function issueInvoice(
+  client: pg.PoolClient,
+  order: InvoiceOrder,
+  line: {
+    milestoneId: number | null;
+    subscriptionChargeId?: number | null;
+    totalPaise: number;
+    listPaise: number | null;
+    taxablePaise?: number | null;
+  }
+) {
+  const financialYear = financialYearFor(new Date());
+  const seqRes = await client.query<{ last_number: number }>(
+    [
+      "insert into invoice_sequences (financial_year, last_number) values ($1, 1)",
+      "on conflict (financial_year) do update set last_number = invoice_sequences.last_number + 1, updated_at = now()",
+      "returning last_number"
+    ].join("\n"),
+    [financialYear]
+  );
+  const sequenceNumber = seqRes.rows[0].last_number;
+  const invoiceNumber = formatInvoiceNumber(financialYear, sequenceNumber);
+
+  // Quote orders keep the rate the client accepted.
+  const gstRatePercent = order.gst_rate_percent ?? (env.COMPANY_GSTIN ? env.GST_RATE_PERCENT : 0);
+  const gstInput = {
+    ratePercent: gstRatePercent,
+    placeOfSupply: order.place_of_supply,
+    supplierStateCode: env.COMPANY_STATE_CODE
+  };
+  const tax = computeGstBreakup({ ...gstInput, totalPaise: line.totalPaise, taxablePaise: line.taxablePaise });
+
+  // Discounts reduce the taxable value, so the invoice shows them pre-tax.
+  const discountPaise =
+    line.listPaise && line.listPaise > line.totalPaise
+      ? computeGstBreakup({ ...gstInput, totalPaise: line.listPaise }).taxablePaise - tax.taxablePaise
+      : 0;
+
+  await client.query(
+    [
+      "insert into invoices (order_id, milestone_id, subscription_charge_id, invoice_number, financial_year, sequence_number,",
+      "supplier_gstin, customer_gstin, billing_name, billing_address, place_of_supply, sac_code, gst_rate_percent, coupon_code,",
+      "discount_paise, taxable_paise, cgst_paise, sgst_paise, igst_paise, total_paise)",
+      "values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20)"
+    ].join("\n"),
+    [
+      order.id,
+      line.milestoneId,
+      line.subscriptionChargeId ?? null,
+      invoiceNumber,
+      financialYear,
+      sequenceNumber,
+      env.COMPANY_GSTIN ?? null,
+      order.customer_gstin,
+      order.name,
+      order.billing_address,
+      order.place_of_supply ?? env.COMPANY_STATE_CODE,
+      order.sac_code ?? env.DEFAULT_SAC_CODE,
+      gstRatePercent,
+      discountPaise > 0 ? order.coupon_code : null,
+      discountPaise,
+      tax.taxablePaise,
+      tax.cgstPaise,
+      tax.sgstPaise,
+      tax.igstPaise,
+      tax.totalPaise
+    ]
+  );
+
+  return invoiceNumber;
+}
+
+// Ensure a tax invoice exists for a paid order (idempotent). Locking the order
+// row serialises verify/webhook races. Orders with a payment schedule are
+// invoiced per milestone instead (see ensureMilestoneInvoice), subscriptions
+// per charge (see ensureSubscriptionChargeInvoice).
+export async function ensureInvoice(orderId: number) {
+  return withTransaction(async (client) => {
+    const orderRes = await client.query<InvoiceOrder>(
+      `select ${INVOICE_ORDER_COLUMNS} from orders o where o.id = $1 for update`,
+      [orderId]
+    );
+    const order = orderRes.rows[0];
+    if (!order) throw new Error(`Order ${orderId} not found`);
+
+    const existing = await client.query<{ invoice_number: string }>(
+      "select invoice_number from invoices where order_id = $1 and milestone_id is null and subscription_charge_id is null limit 1",
+      [orderId]
+    );
+    if (existing.rows[0]) return existing.rows[0].invoice_number;
+
+    return issueInvoice(client, order, {
+      milestoneId: null,
+      totalPaise: order.price_inr * 100,
+      listPaise: order.discount_inr > 0 && order.list_price_inr ? order.list_price_inr * 100 : null,
+      taxablePaise: order.taxable_inr !== null ? order.taxable_inr * 100 : null
+    });
+  });
+}
+
+// One invoice per paid milestone. Milestone amounts already reflect any coupon
+// discount, so milestone invoices carry no discount line.
+export async function ensureMilestoneInvoice(milestoneId: number) {
+  return withTransaction(async (client) => {
+    const res = await client.query<InvoiceOrder & { milestone_amount_inr: number }>(
+      [
+        `select ${INVOICE_ORDER_COLUMNS}, m.amount_inr as milestone_amount_inr`,
+        "from order_milestones m join orders o on o.id = m.order_id",
+        "where m.id = $1",
+        "for update of m"
+      ].join("\n"),
+      [milestoneId]
+    );
+    const row = res.rows[0];
+    if (!row) throw new Error(`Milestone ${milestoneId} not found`);
+
+    const existing = await client.query<{ invoice_number: string }>(
+      "select invoice_number from invoices where milestone_id = $1 limit 1",
+      [milestoneId]
+    );
+    if (existing.rows[0]) return existing.rows[0].invoice_number;
+
+    return issueInvoice(client, row, {
+      milestoneId,
+      totalPaise: row.milestone_amount_inr * 100,
+      listPaise: null
+    });
+  });
+}
+
+// One invoice per successful subscription charge, for the amount actually
+// charged in that billing cycle.
+export async function ensureSubscriptionChargeInvoice(chargeId: number) {
+  return withTransaction(async (client) => {
+    const res = await client.query<InvoiceOrder & { amount_paise: number }>(
+      [
+        `select ${INVOICE_ORDER_COLUMNS}, c.amount_paise`,
+        "from subscription_charges c",
+        "join subscriptions s on s.id = c.subscription_id",
+        "join orders o on o.id = s.order_id",
+        "where c.id = $1",
+        "for update of c"
+      ].join("\n"),
+      [chargeId]
+    );
+    const row = res.rows[0];
+    if (!row) throw new Error(`Subscription charge ${chargeId} not found`);
+
+    const existing = await client.query<{ invoice_number: string }>(
+      "select invoice_number from invoices where subscription_charge_id = $1 limit 1",
+      [chargeId]
+    );
+    if (existing.rows[0]) return existing.rows[0].invoice_number;
+
+    return issueInvoice(client, row, {
+      milestoneId: null,
+      subscriptionChargeId: chargeId,
+      totalPaise: row.amount_paise,
+      listPaise: null
+    });
+  });
+}
+
+// Mark an order paid and issue its invoice. Shared by the client-side verify
+// route and the Razorpay webhook, so whichever arrives first wins and the
+// other becomes a no-op. Unique index prevents duplicate payment ids.
+export async function markOrderPaid(input: {
+  orderId: number;
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature?: string | null;
+}) {
+  await query(
+    [
+      "update orders set payment_status='paid', razorpay_order_id=$1, razorpay_payment_id=$2,",
+      "razorpay_signature=coalesce($3, razorpay_signature)",
+      "where id=$4 and payment_status in ('pending','failed')"
+    ].join("\n"),
+    [input.razorpayOrderId, input.razorpayPaymentId, input.razorpaySignature ?? null, input.orderId]
+  );
+
+  return ensureInvoice(input.orderId);
+}
+
+export async function orderHasMilestones(orderId: number) {
+  const rows = await query<{ n: string }>("select count(*)::text as n from order_milestones where order_id = $1", [
+    orderId
+  ]);
+  return Number(rows[0]?.n ?? 0) > 0;
+}
+
+// Derive the order's payment_status from its schedule: partially_paid once any
+// milestone is paid, paid when all of them are. Refunded orders are left alone.
+export async function syncOrderMilestoneStatus(orderId: number) {
+  await query(
+    [
+      "update orders o set payment_status = case",
+      "  when s.paid = s.total then 'paid'",
+      "  when s.paid > 0 then 'partially_paid'",
+      "  else 'pending' end",
+      "from (",
+      "  select count(*) as total, count(*) filter (where status = 'paid') as paid",
+      "  from order_milestones where order_id = $1",
+      ") s",
+      "where o.id = $1 and s.total > 0 and o.payment_status in ('pending','failed','partially_paid','paid')"
+    ].join("\n"),
+    [orderId]
+  );
+}
+
+// Milestone counterpart of markOrderPaid, shared by the portal verify route and
+// the webhook. Returns the milestone's invoice number.
+export async function markMilestonePaid(input: {
+  milestoneId: number;
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature?: string | null;
+}) {
+  const rows = await query<{ order_id: number }>(
+    [
+      "update order_milestones set status = 'paid', paid_at = coalesce(paid_at, now()), updated_at = now(),",
+      "razorpay_order_id = $1, razorpay_payment_id = $2, razorpay_signature = coalesce($3, razorpay_signature)",
+      "where id = $4 and status in ('pending','failed')",
+      "returning order_id"
+    ].join("\n"),
+    [input.razorpayOrderId, input.razorpayPaymentId, input.razorpaySignature ?? null, input.milestoneId]
+  );
+
+  const orderId =
+    rows[0]?.order_id ??
+    (await query<{ order_id: number }>("select order_id from order_milestones where id = $1", [input.milestoneId]))[0]
+      ?.order_id;
+  if (!orderId) throw new Error(`Milestone ${input.milestoneId} not found`);
+
+  await syncOrderMilestoneStatus(orderId);
+  return ensureMilestoneInvoice(input.milestoneId);
+}
+
+// Credit notes get their own gap-free per-financial-year series, allocated the
+// same way as invoice numbers (see issueInvoice).
+async function allocateCreditNoteNumber(client: pg.PoolClient) {
+  const financialYear = financialYearFor(new Date());
+  const seqRes = await client.query<{ last_number: number }>(
+    [
+      "insert into credit_note_sequences (financial_year, last_number) values ($1, 1)",
+      "on conflict (financial_year) do update set last_number = credit_note_sequences.last_number + 1, updated_at = now()",
+      "returning last_number"
+    ].join("\n"),
+    [financialYear]
+  );
+  return formatCreditNoteNumber(financialYear, seqRes.rows[0].last_number);
+}
+
+export type RefundStatus = "pending" | "processed" | "failed";
+
+export type RefundablePayment = {
+  razorpay_payment_id: string;
+  label: string;
+  amount_paise: number;
+  refunded_paise: number;
+};
+
+// Captured payments on an order: the single checkout payment, or one per paid
+// milestone or subscription charge. Refunds are issued against one of these.
+export async function listRefundablePayments(orderId: number) {
+  const rows = await query<RefundablePayment>(
+    [
+      "select p.razorpay_payment_id, p.label, p.amount_paise,",
+      "(select coalesce(sum(r.amount_paise),0) from order_refunds r",
+      " where r.razorpay_payment_id = p.razorpay_payment_id and r.status <> 'failed')::int as refunded_paise",
+      "from (",
+      "  select o.razorpay_payment_id, 'Order payment' as label, o.price_inr * 100 as amount_paise, o.created_at as paid_at",
+      "  from orders o where o.id = $1 and o.razorpay_payment_id is not null",
+      "  union all",
+      "  select m.razorpay_payment_id, m.label, m.amount_inr * 100, m.paid_at",
+      "  from order_milestones m where m.order_id = $1 and m.status = 'paid' and m.razorpay_payment_id is not null",
+      "  union all",
+      "  select c.razorpay_payment_id, 'Renewal ' || to_char(c.created_at, 'DD Mon YYYY'), c.amount_paise, c.created_at",
+      "  from subscription_charges c join subscriptions s on s.id = c.subscription_id where s.order_id = $1",
+      ") p",
+      "order by p.paid_at"
+    ].join("\n"),
+    [orderId]
+  );
+  return rows;
+}
+
+// Resolve the order a Razorpay payment belongs to, whichever kind it was.
+export async function findOrderIdByPaymentId(razorpayPaymentId: string) {
+  const rows = await query<{ order_id: number }>(
+    [
+      "select id as order_id from orders where razorpay_payment_id = $1",
+      "union all",
+      "select order_id from order_milestones where razorpay_payment_id = $1",
+      "union all",
+      "select s.order_id from subscription_charges c join subscriptions s on s.id = c.subscription_id",
+      "where c.razorpay_payment_id = $1",
+      "limit 1"
+    ].join("\n"),
+    [razorpayPaymentId]
+  );
+  return rows[0]?.order_id ?? null;
+}
+
+// Record (or update) a refund against an order. Keyed by the Razorpay refund id
+// so the admin route and the refund webhooks converge on one row.
+export async function recordRefund(input: {
+  orderId: number;
+  razorpayPaymentId: string;
+  razorpayRefundId: string;
+  amountPaise: number;
+  status: RefundStatus;
+  reason?: string | null;
+  actorUserId?: number | null;
+  actorEmail?: string | null;
+}) {
+  // Failed refunds get no credit note. The number bump and the update share a
+  // transaction, so a rollback leaves no gap in the series.
+  const refundId = await withTransaction(async (client) => {
+    const res = await client.query<{ id: number; status: RefundStatus; credit_note_number: string | null }>(
+      [
+        "insert into order_refunds (order_id, razorpay_payment_id, razorpay_refund_id, amount_paise, status, reason, actor_user_id, actor_email)",
+        "values ($1,$2,$3,$4,$5,$6,$7,$8)",
+        // The webhook can record the refund before the admin's call returns; keep
+        // the admin's reason and identity, and a settled status, whichever write
+        // lands second.
+        "on conflict (razorpay_refund_id) do update set updated_at = now(),",
+        "status = case when excluded.status = 'pending' then order_refunds.status else excluded.status end,",
+        "reason = coalesce(order_refunds.reason, excluded.reason),",
+        "actor_user_id = coalesce(order_refunds.actor_user_id, excluded.actor_user_id),",
+        "actor_email = coalesce(order_refunds.actor_email, excluded.actor_email)",
+        "returning id, status, credit_note_number"
+      ].join("\n"),
+      [
+        input.orderId,
+        input.razorpayPaymentId,
+        input.razorpayRefundId,
+        input.amountPaise,
+        input.status,
+        input.reason ?? null,
+        input.actorUserId ?? null,
+        input.actorEmail ?? null
+      ]
+    );
+    const refund = res.rows[0];
+    if (!refund) throw new Error("Failed to record refund");
+
+    if (refund.status !== "failed" && !refund.credit_note_number) {
+      await client.query("update order_refunds set credit_note_number = $2 where id = $1", [
+        refund.id,
+        await allocateCreditNoteNumber(client)
+      ]);
+    }
+    return refund.id;
+  });
+
+  await syncOrderRefundStatus(input.orderId);
+  return refundId;
+}
+
+// An order flips to `refunded` only once refunds cover the full amount;
+// partial refunds leave it `paid` with the refunded total shown alongside. A
+// refund that later fails flips it back. Subscriptions bill the price every
+// cycle, so their orders stay `paid` and refunds are tracked per charge.
+export async function syncOrderRefundStatus(orderId: number) {
+  await query(
+    [
+      "update orders o set payment_status = case",
+      "  when (select coalesce(sum(r.amount_paise),0) from order_refunds r where r.order_id = o.id and r.status <> 'failed') >= o.price_inr * 100",
+      "  then 'refunded' else 'paid' end",
+      "where o.id = $1 and o.payment_status in ('paid','refunded')",
+      "and not exists (select 1 from subscriptions s where s.order_id = o.id)"
+    ].join("\n"),
+    [orderId]
+  );
+}
@@ -0,0 +1,91 @@
+import { query, withTransaction } from "./db.js";
+import { sendProjectStatusEmail } from "./email/resend.js";
+import { logger } from "./logger.js";
+
+export const PROJECT_STATUSES = ["received", "in_progress", "blocked", "delivered", "closed"] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  received: "Received",
+  in_progress: "In progress",
+  blocked: "Blocked",
+  delivered: "Delivered",
+  closed: "Closed"
+};
+
+export type OrderStatusEvent = {
+  id: number;
+  created_at: string;
+  from_status: ProjectStatus | null;
+  to_status: ProjectStatus;
+  note: string | null;
+  changed_by_email: string | null;
+  notified_at: string | null;
+};
+
+export const ORDER_STATUS_EVENT_COLUMNS =
+  "e.id, e.created_at, e.from_status, e.to_status, e.note, e.changed_by_email, e.notified_at";
+
+// Move an order to a new project status and record the transition. Re-posting
+// the current status is allowed when a note is given (a progress update).
+// The customer is emailed afterwards unless notify is false; a failed email
+// does not undo the change.
+export async function changeProjectStatus(input: {
+  orderId: number;
+  toStatus: ProjectStatus;
+  note?: string | null;
+  changedByEmail?: string | null;
+  notify?: boolean;
+}) {
+  const note = input.note?.trim() || null;
+
+  const result = await withTransaction(async (db) => {
+    const orderRes = await db.query<{ id: number; name: string; email: string; service_name: string; project_status: ProjectStatus }>(
+      "select id, name, email, service_name, project_status from orders where id = $1 for update",
+      [input.orderId]
+    );
+    const order = orderRes.rows[0];
+    if (!order) return null;
+
+    if (order.project_status === input.toStatus && !note) {
+      return { order, event: null };
+    }
+
+    if (order.project_status !== input.toStatus) {
+      await db.query("update orders set project_status = $1 where id = $2", [input.toStatus, order.id]);
+    }
+
+    const eventRes = await db.query<OrderStatusEvent>(
+      [
+        "insert into order_status_events (order_id, from_status, to_status, note, changed_by_email)",
+        "values ($1,$2,$3,$4,$5)",
+        `returning ${ORDER_STATUS_EVENT_COLUMNS.replace(/e\./g, "")}`
+      ].join("\n"),
+      [order.id, order.project_status, input.toStatus, note, input.changedByEmail ?? null]
+    );
+
+    return { order, event: eventRes.rows[0]! };
+  });
+
+  if (!result?.event || input.notify === false) return result;
+
+  try {
+    const sent = await sendProjectStatusEmail({
+      to: result.order.email,
+      name: result.order.name,
+      orderId: result.order.id,
+      serviceName: result.order.service_name,
+      statusLabel: PROJECT_STATUS_LABELS[input.toStatus],
+      note
+    });
+    if (sent) {
+      await query("update order_status_events set notified_at = now() where id = $1", [result.event.id]);
+      result.event.notified_at = new Date().toISOString();
+    }
+  } catch (err) {
+    logger.warn({ err, orderId: result.order.id }, "Project status email failed");
+  }
+
+  return result;
+}
@@ -0,0 +1,155 @@
+import PDFDocument from "pdfkit";
+
+import { env } from "./env.js";
+
+export type QuoteLineItem = {
+  description: string;
+  quantity: number;
+  unitPriceInr: number;
+};
+
+export type QuoteStatus = "draft" | "sent" | "accepted" | "declined";
+
+export type QuoteRow = {
+  id: number;
+  created_at: string;
+  submission_id: number;
+  quote_number: string | null;
+  title: string;
+  client_name: string;
+  client_email: string;
+  client_company: string | null;
+  line_items: QuoteLineItem[];
+  tax_rate_percent: number;
+  subtotal_inr: number;
+  tax_inr: number;
+  total_inr: number;
+  valid_until: string;
+  terms: string | null;
+  status: QuoteStatus;
+  sent_at: string | null;
+  accepted_at: string | null;
+  declined_at: string | null;
+  decline_reason: string | null;
+  order_id: number | null;
+};
+
+export const QUOTE_COLUMNS = [
+  "q.id, q.created_at, q.submission_id, q.quote_number, q.title, q.client_name, q.client_email, q.client_company,",
+  "q.line_items, q.tax_rate_percent, q.subtotal_inr, q.tax_inr, q.total_inr, to_char(q.valid_until, 'YYYY-MM-DD') as valid_until,",
+  "q.terms, q.status, q.sent_at, q.accepted_at, q.declined_at, q.decline_reason, q.order_id"
+].join(" ");
+
+export function buildQuoteNumber(quoteId: number) {
+  return `HZ-Q-${new Date().getFullYear()}-${String(quoteId).padStart(4, "0")}`;
+}
+
+// Quote prices are exclusive of tax; the accepted total becomes the
+// (GST-inclusive) order price, so everything is kept in whole rupees.
+export function computeQuoteTotals(items: QuoteLineItem[], taxRatePercent: number) {
+  const subtotalInr = items.reduce((sum, item) => sum + Math.round(item.quantity * item.unitPriceInr), 0);
+  const taxInr = Math.round((subtotalInr * taxRatePercent) / 100);
+  return { subtotalInr, taxInr, totalInr: subtotalInr + taxInr };
+}
+
+// Today's date in IST, to compare with the date-only valid_until column.
+export function todayIst() {
+  return new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export function isQuoteExpired(quote: Pick<QuoteRow, "valid_until">) {
+  return quote.valid_until < todayIst();
+}
+
+function formatInr(amount: number) {
+  return amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+}
+
+// Draw a quote on a PDFKit document and end it. The caller decides where the
+// document is piped (HTTP response or an email attachment buffer).
+export function renderQuotePdf(doc: PDFKit.PDFDocument, quote: QuoteRow) {
+  doc.fontSize(20).text("QUOTATION", { align: "right" });
+  doc.moveDown();
+
+  doc.fontSize(12).text("HZ IT Company");
+  doc.fontSize(10).text(env.COMPANY_BILLING_ADDRESS);
+  if (env.COMPANY_GSTIN) doc.text(`GSTIN: ${env.COMPANY_GSTIN}`);
+  doc.moveDown();
+
+  doc.fontSize(11);
+  doc.text(`Quote Number: ${quote.quote_number ?? `Q-${quote.id}`}`);
+  doc.text(`Date: ${formatDate(quote.sent_at ?? quote.created_at)}`);
+  doc.text(`Valid Until: ${formatDate(quote.valid_until)}`);
+  doc.moveDown();
+
+  doc.text("Prepared For:");
+  doc.text(quote.client_name);
+  if (quote.client_company) doc.text(quote.client_company);
+  doc.text(quote.client_email);
+  doc.moveDown();
+
+  doc.font("Helvetica-Bold").fontSize(13).text(quote.title);
+  doc.font("Helvetica").fontSize(10);
+  doc.moveDown(0.5);
+
+  const left = doc.page.margins.left;
+  const row = (cells: [string, string, string, string], bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+    doc.text(cells[0], left, y, { width: 250 });
+    const descBottom = doc.y;
+    doc.text(cells[1], 310, y, { width: 50, align: "right" });
+    doc.text(cells[2], 365, y, { width: 85, align: "right" });
+    doc.text(cells[3], 455, y, { width: 90, align: "right" });
+    doc.y = Math.max(descBottom, doc.y) + 4;
+    doc.x = left;
+  };
+
+  row(["Description", "Qty", "Unit (INR)", "Amount (INR)"], true);
+  doc.moveTo(left, doc.y).lineTo(545, doc.y).stroke();
+  doc.moveDown(0.3);
+
+  for (const item of quote.line_items) {
+    row([
+      item.description,
+      String(item.quantity),
+      formatInr(item.unitPriceInr),
+      formatInr(Math.round(item.quantity * item.unitPriceInr))
+    ]);
+  }
+
+  doc.moveTo(left, doc.y).lineTo(545, doc.y).stroke();
+  doc.moveDown(0.3);
+
+  row(["Subtotal", "", "", formatInr(quote.subtotal_inr)]);
+  if (quote.tax_rate_percent > 0) row([`GST @ ${quote.tax_rate_percent}%`, "", "", formatInr(quote.tax_inr)]);
+  row(["Total", "", "", formatInr(quote.total_inr)], true);
+  doc.moveDown();
+
+  if (quote.terms) {
+    doc.font("Helvetica-Bold").text("Terms");
+    doc.font("Helvetica").text(quote.terms);
+    doc.moveDown();
+  }
+
+  doc.fontSize(9).fillColor("#555555");
+  doc.text("Accept this quote from your client portal to proceed with payment.");
+  doc.text("This is a computer-generated quotation and does not require a signature.");
+
+  doc.end();
+}
+
+export function quotePdfBuffer(quote: QuoteRow) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    renderQuotePdf(doc, quote);
+  });
+}
@@ -0,0 +1,88 @@
+import crypto from "node:crypto";
+import type pg from "pg";
+
+import { query } from "./db.js";
+
+type Queryable = Pick<pg.PoolClient, "query">;
+
+// No 0/O or 1/I so codes survive being read out or typed by hand.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export type ReferralCodeRow = {
+  id: number;
+  created_at: string;
+  user_id: number;
+  code: string;
+  is_active: boolean;
+};
+
+export function normalizeReferralCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+function generateReferralCode() {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+}
+
+// The user's referral code, created on first use.
+export async function getOrCreateReferralCode(userId: number) {
+  const existing = await query<ReferralCodeRow>(
+    "select id, created_at, user_id, code, is_active from referral_codes where user_id = $1 limit 1",
+    [userId]
+  );
+  if (existing[0]) return existing[0];
+
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const rows = await query<ReferralCodeRow>(
+      [
+        "insert into referral_codes (user_id, code) values ($1, $2)",
+        "on conflict do nothing",
+        "returning id, created_at, user_id, code, is_active"
+      ].join("\n"),
+      [userId, generateReferralCode()]
+    );
+    if (rows[0]) return rows[0];
+
+    // Either another request created this user's code, or the random code collided.
+    const raced = await query<ReferralCodeRow>(
+      "select id, created_at, user_id, code, is_active from referral_codes where user_id = $1 limit 1",
+      [userId]
+    );
+    if (raced[0]) return raced[0];
+  }
+  throw new Error("Failed to generate a unique referral code");
+}
+
+// Resolve a code captured from a ?ref= link to the referral_codes id to store on a
+// submission or order. Unknown or inactive codes and self-referrals (the
+// referrer's own account or email) are dropped silently: attribution must never
+// block a form.
+export async function resolveReferralCode(
+  db: Queryable,
+  input: { code?: string | null; userId?: number | null; email?: string | null }
+) {
+  if (!input.code) return null;
+  const code = normalizeReferralCode(input.code);
+  if (!code) return null;
+
+  const res = await db.query<{ id: number; user_id: number; email: string | null }>(
+    [
+      "select r.id, r.user_id, u.email",
+      "from referral_codes r",
+      "join users u on u.id = r.user_id",
+      "where r.code = $1 and r.is_active = true",
+      "limit 1"
+    ].join("\n"),
+    [code]
+  );
+  const referral = res.rows[0];
+  if (!referral) return null;
+
+  if (input.userId != null && Number(referral.user_id) === Number(input.userId)) return null;
+  if (input.email && referral.email && referral.email.trim().toLowerCase() === input.email.trim().toLowerCase()) {
+    return null;
+  }
+  return referral.id;
+}
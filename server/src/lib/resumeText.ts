@@ -0,0 +1,63 @@
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+
+import { query } from "./db.js";
+import { getResumesBucketId, getSupabaseAdmin } from "./supabase.js";
+
+// Enough for any real resume; keeps the row and the search document bounded.
+const MAX_TEXT_CHARS = 100_000;
+
+function normalizeText(text: string) {
+  return text
+    .replace(/\u0000/g, "")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim()
+    .slice(0, MAX_TEXT_CHARS);
+}
+
+// Plain text of a PDF or DOCX resume. Legacy .doc files are not supported.
+export async function extractResumeText(buffer: Buffer, path: string) {
+  const ext = path.split(".").pop()?.toLowerCase();
+
+  if (ext === "pdf") {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return normalizeText(text);
+  }
+
+  if (ext === "docx") {
+    const { value } = await mammoth.extractRawText({ buffer });
+    return normalizeText(value);
+  }
+
+  throw new Error(`Text extraction is not supported for .${ext ?? "?"} files`);
+}
+
+// Download an application's resume from storage, extract its text and store it
+// for search. Failures are recorded on the row so admins can see and retry them.
+export async function indexApplicationResume(applicationId: number) {
+  const rows = await query<{ resume_path: string | null }>("select resume_path from career_applications where id = $1", [
+    applicationId
+  ]);
+  const path = rows[0]?.resume_path;
+  if (!path) return false;
+
+  try {
+    const { data, error } = await getSupabaseAdmin().storage.from(getResumesBucketId()).download(path);
+    if (error || !data) throw new Error(error?.message ?? "Resume download failed");
+
+    const text = await extractResumeText(Buffer.from(await data.arrayBuffer()), path);
+    await query(
+      "update career_applications set resume_text = $2, resume_extracted_at = now(), resume_extract_error = null where id = $1",
+      [applicationId, text]
+    );
+    return true;
+  } catch (err: any) {
+    await query(
+      "update career_applications set resume_text = null, resume_extracted_at = now(), resume_extract_error = $2 where id = $1",
+      [applicationId, String(err?.message ?? err).slice(0, 500)]
+    );
+    return false;
+  }
+}
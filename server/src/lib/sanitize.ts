@@ -4,3 +4,64 @@ export function sanitizePlainText(input: string) {
   const stripped = sanitizeHtml(input, { allowedTags: [], allowedAttributes: {} });
   return stripped.replace(/\s+/g, " ").trim();
 }
+
+// Formatting-only HTML for admin-authored rich text (e.g. job descriptions):
+// headings, lists, emphasis and links. Scripts, styles and handlers are dropped.
+export function sanitizeRichText(input: string) {
+  return sanitizeHtml(input, {
+    allowedTags: ["p", "br", "strong", "b", "em", "i", "u", "h3", "h4", "ul", "ol", "li", "blockquote", "a"],
+    allowedAttributes: { a: ["href", "target", "rel"] },
+    allowedSchemes: ["http", "https", "mailto"],
+    transformTags: {
+      a: sanitizeHtml.simpleTransform("a", { rel: "noopener noreferrer", target: "_blank" })
+    }
+  }).trim();
+}
+
+const CMS_HTML_TRANSFORMS: sanitizeHtml.IOptions["transformTags"] = {
+  a: sanitizeHtml.simpleTransform("a", { rel: "noopener noreferrer" })
+};
+
+// Allowlist for CMS html blocks, which render on public pages. Layout and
+// formatting tags, links and images only: no scripts, styles, iframes, forms,
+// inline style attributes or event handlers.
+const CMS_HTML_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "p", "br", "hr", "span", "div", "section",
+    "h2", "h3", "h4", "h5", "h6",
+    "strong", "b", "em", "i", "u", "s", "small", "sup", "sub", "mark",
+    "ul", "ol", "li", "dl", "dt", "dd",
+    "blockquote", "code", "pre",
+    "a", "img", "figure", "figcaption",
+    "table", "thead", "tbody", "tfoot", "tr", "th", "td", "caption"
+  ],
+  allowedAttributes: {
+    "*": ["class", "id", "title"],
+    a: ["href", "target", "rel"],
+    img: ["src", "alt", "width", "height", "loading"],
+    th: ["colspan", "rowspan", "scope"],
+    td: ["colspan", "rowspan"]
+  },
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  allowedSchemesByTag: { img: ["http", "https"] },
+  allowProtocolRelative: false,
+  disallowedTagsMode: "discard",
+  transformTags: CMS_HTML_TRANSFORMS
+};
+
+// Same parser and transforms with nothing removed, so re-serialization alone
+// (e.g. <br> becoming <br />) does not count as a change.
+const CMS_HTML_NORMALIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: false,
+  allowedAttributes: false,
+  allowVulnerableTags: true,
+  allowedSchemes: ["http", "https", "mailto", "tel", "javascript", "data", "vbscript"],
+  allowProtocolRelative: true,
+  transformTags: CMS_HTML_TRANSFORMS
+};
+
+// `changed` is true when the allowlist removed something.
+export function sanitizeCmsHtml(input: string) {
+  const html = sanitizeHtml(input, CMS_HTML_OPTIONS);
+  return { html, changed: html !== sanitizeHtml(input, CMS_HTML_NORMALIZE_OPTIONS) };
+}
@@ -3,6 +3,7 @@ import path from "node:path";
 
 import { env } from "./env.js";
 import { pool } from "./db.js";
+import { MIGRATE_LEGACY_LEADS_SQL } from "./legacyLeads.js";
 import { logger } from "./logger.js";
 
 async function fileExists(filePath: string) {
@@ -125,6 +126,737 @@ const MIGRATIONS: { name: string; sql: string }[] = [
         END IF;
       END $$;
     `
+  },
+  {
+    name: "create_payment_webhook_events",
+    sql: `
+      CREATE TABLE IF NOT EXISTS payment_webhook_events (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        event_id text NOT NULL UNIQUE,
+        event text NOT NULL,
+        payload jsonb NOT NULL,
+        processed_at timestamptz NULL,
+        outcome text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_created ON payment_webhook_events (created_at desc);
+    `
+  },
+  {
+    name: "create_order_refunds",
+    sql: `
+      CREATE TABLE IF NOT EXISTS order_refunds (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        order_id bigint NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        amount_paise integer NOT NULL CHECK (amount_paise > 0),
+        status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','processed','failed')),
+        reason text NULL,
+        razorpay_refund_id text NOT NULL UNIQUE,
+        credit_note_number text NULL UNIQUE,
+        actor_user_id bigint NULL REFERENCES users(id) ON DELETE SET NULL,
+        actor_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_order_refunds_order_created ON order_refunds (order_id, created_at desc);
+
+      -- Refunds target one payment (milestone and subscription orders have several).
+      -- Earlier refunds were all against the order's single checkout payment.
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_schema = current_schema() AND table_name = 'order_refunds' AND column_name = 'razorpay_payment_id'
+        ) THEN
+          ALTER TABLE order_refunds ADD COLUMN razorpay_payment_id text NULL;
+          UPDATE order_refunds r SET razorpay_payment_id = o.razorpay_payment_id FROM orders o WHERE o.id = r.order_id;
+        END IF;
+      END $$;
+      CREATE INDEX IF NOT EXISTS idx_order_refunds_payment ON order_refunds (razorpay_payment_id);
+
+      CREATE TABLE IF NOT EXISTS credit_note_sequences (
+        financial_year text PRIMARY KEY,
+        last_number integer NOT NULL DEFAULT 0,
+        updated_at timestamptz NOT NULL DEFAULT now()
+      );
+    `
+  },
+  {
+    name: "gst_tax_invoices",
+    sql: `
+      ALTER TABLE services_pricing ADD COLUMN IF NOT EXISTS sac_code text NULL;
+
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS customer_gstin text NULL;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_address text NULL;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS place_of_supply text NULL;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS sac_code text NULL;
+
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS financial_year text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS sequence_number integer NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS supplier_gstin text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS customer_gstin text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS billing_name text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS billing_address text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS place_of_supply text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS sac_code text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS gst_rate_percent integer NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS taxable_paise integer NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cgst_paise integer NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS sgst_paise integer NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS igst_paise integer NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS total_paise integer NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_fy_sequence ON invoices (financial_year, sequence_number) WHERE sequence_number IS NOT NULL;
+
+      CREATE TABLE IF NOT EXISTS invoice_sequences (
+        financial_year text PRIMARY KEY,
+        last_number integer NOT NULL DEFAULT 0,
+        updated_at timestamptz NOT NULL DEFAULT now()
+      );
+    `
+  },
+  {
+    name: "create_coupons",
+    sql: `
+      CREATE TABLE IF NOT EXISTS coupons (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        code text NOT NULL UNIQUE,
+        description text NULL,
+        discount_type text NOT NULL CHECK (discount_type IN ('percent','flat')),
+        discount_value integer NOT NULL CHECK (discount_value > 0),
+        service_key text NULL,
+        min_order_inr integer NULL,
+        max_redemptions integer NULL,
+        max_per_email integer NULL,
+        starts_at timestamptz NULL,
+        ends_at timestamptz NULL,
+        is_active boolean NOT NULL DEFAULT true,
+        CHECK (discount_type <> 'percent' OR discount_value <= 100)
+      );
+      CREATE TABLE IF NOT EXISTS coupon_redemptions (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        coupon_id bigint NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+        order_id bigint NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+        email text NOT NULL,
+        discount_inr integer NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon ON coupon_redemptions (coupon_id, created_at desc);
+
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS list_price_inr integer NULL;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_inr integer NOT NULL DEFAULT 0;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS coupon_code text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS coupon_code text NULL;
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS discount_paise integer NULL;
+    `
+  },
+  {
+    name: "create_order_milestones",
+    sql: `
+      ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+      ALTER TABLE orders ADD CONSTRAINT orders_payment_status_check
+        CHECK (payment_status IN ('pending','partially_paid','paid','failed','refunded'));
+
+      CREATE TABLE IF NOT EXISTS order_milestones (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        order_id bigint NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        position integer NOT NULL DEFAULT 0,
+        label text NOT NULL,
+        amount_inr integer NOT NULL CHECK (amount_inr > 0),
+        due_date date NULL,
+        status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','paid','failed')),
+        razorpay_order_id text NULL UNIQUE,
+        razorpay_payment_id text NULL UNIQUE,
+        razorpay_signature text NULL,
+        paid_at timestamptz NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_order_milestones_order ON order_milestones (order_id, position);
+
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS milestone_id bigint NULL REFERENCES order_milestones(id) ON DELETE RESTRICT;
+      DROP INDEX IF EXISTS idx_invoices_order_id;
+      -- create_subscriptions later replaces this with idx_invoices_order_single,
+      -- which also allows one invoice per renewal; don't bring it back once
+      -- renewals exist.
+      DO $$
+      BEGIN
+        IF to_regclass('idx_invoices_order_single') IS NULL THEN
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_whole ON invoices (order_id) WHERE milestone_id IS NULL;
+        END IF;
+      END $$;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_milestone_id ON invoices (milestone_id) WHERE milestone_id IS NOT NULL;
+    `
+  },
+  {
+    name: "create_quotes",
+    sql: `
+      CREATE TABLE IF NOT EXISTS quotes (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        submission_id bigint NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+        quote_number text NULL UNIQUE,
+        title text NOT NULL,
+        client_name text NOT NULL,
+        client_email text NOT NULL,
+        client_company text NULL,
+        line_items jsonb NOT NULL,
+        tax_rate_percent integer NOT NULL DEFAULT 0,
+        subtotal_inr integer NOT NULL,
+        tax_inr integer NOT NULL,
+        total_inr integer NOT NULL CHECK (total_inr > 0),
+        valid_until date NOT NULL,
+        terms text NULL,
+        status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft','sent','accepted','declined')),
+        sent_at timestamptz NULL,
+        accepted_at timestamptz NULL,
+        declined_at timestamptz NULL,
+        decline_reason text NULL,
+        order_id bigint NULL REFERENCES orders(id) ON DELETE SET NULL,
+        created_by_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_quotes_submission ON quotes (submission_id, created_at desc);
+      CREATE INDEX IF NOT EXISTS idx_quotes_client_email ON quotes (lower(client_email));
+
+      -- Orders from accepted quotes are invoiced at the quote's tax rate.
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS gst_rate_percent integer NULL;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS taxable_inr integer NULL;
+      UPDATE orders o SET gst_rate_percent = q.tax_rate_percent, taxable_inr = q.subtotal_inr
+      FROM quotes q
+      WHERE q.order_id = o.id AND o.gst_rate_percent IS NULL AND o.price_inr = q.total_inr;
+    `
+  },
+  {
+    name: "create_order_status_events",
+    sql: `
+      CREATE TABLE IF NOT EXISTS order_status_events (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        order_id bigint NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        from_status text NULL,
+        to_status text NOT NULL CHECK (to_status IN ('received','in_progress','blocked','delivered','closed')),
+        note text NULL,
+        changed_by_email text NULL,
+        notified_at timestamptz NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_order_status_events_order ON order_status_events (order_id, created_at);
+    `
+  },
+  {
+    name: "create_message_threads",
+    sql: `
+      CREATE TABLE IF NOT EXISTS message_threads (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        order_id bigint NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+        submission_id bigint NULL UNIQUE REFERENCES submissions(id) ON DELETE CASCADE,
+        last_message_at timestamptz NULL,
+        client_last_read_at timestamptz NULL,
+        admin_last_read_at timestamptz NULL,
+        CHECK ((order_id IS NULL) <> (submission_id IS NULL))
+      );
+      CREATE TABLE IF NOT EXISTS thread_messages (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        thread_id bigint NOT NULL REFERENCES message_threads(id) ON DELETE CASCADE,
+        author_role text NOT NULL CHECK (author_role IN ('client','admin')),
+        author_email text NULL,
+        body text NOT NULL DEFAULT '',
+        attachments jsonb NOT NULL DEFAULT '[]'::jsonb
+      );
+      CREATE INDEX IF NOT EXISTS idx_message_threads_last_message ON message_threads (last_message_at desc);
+      CREATE INDEX IF NOT EXISTS idx_thread_messages_thread ON thread_messages (thread_id, created_at);
+    `
+  },
+  {
+    name: "create_order_deliverables",
+    sql: `
+      CREATE TABLE IF NOT EXISTS order_deliverables (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        order_id bigint NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        title text NOT NULL,
+        description text NULL,
+        status text NOT NULL DEFAULT 'in_review' CHECK (status IN ('in_review','changes_requested','approved')),
+        client_note text NULL,
+        approved_at timestamptz NULL,
+        approved_by_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_order_deliverables_order ON order_deliverables (order_id, created_at);
+      CREATE TABLE IF NOT EXISTS order_deliverable_versions (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        deliverable_id bigint NOT NULL REFERENCES order_deliverables(id) ON DELETE CASCADE,
+        version integer NOT NULL,
+        file_path text NOT NULL,
+        file_name text NOT NULL,
+        file_type text NOT NULL,
+        file_size bigint NOT NULL,
+        notes text NULL,
+        uploaded_by_email text NULL,
+        UNIQUE (deliverable_id, version)
+      );
+    `
+  },
+  {
+    name: "create_subscriptions",
+    sql: `
+      ALTER TABLE services_pricing ADD COLUMN IF NOT EXISTS billing_interval text NOT NULL DEFAULT 'one_time';
+      ALTER TABLE services_pricing ADD COLUMN IF NOT EXISTS razorpay_plan_id text NULL;
+      ALTER TABLE services_pricing DROP CONSTRAINT IF EXISTS services_pricing_billing_interval_check;
+      ALTER TABLE services_pricing ADD CONSTRAINT services_pricing_billing_interval_check
+        CHECK (billing_interval IN ('one_time','monthly','quarterly','yearly'));
+
+      CREATE TABLE IF NOT EXISTS subscriptions (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        order_id bigint NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+        pricing_id bigint NULL REFERENCES services_pricing(id) ON DELETE SET NULL,
+        billing_interval text NOT NULL CHECK (billing_interval IN ('monthly','quarterly','yearly')),
+        razorpay_plan_id text NOT NULL,
+        razorpay_subscription_id text NOT NULL UNIQUE,
+        status text NOT NULL DEFAULT 'created'
+          CHECK (status IN ('created','authenticated','active','pending','halted','paused','cancelled','completed','expired')),
+        current_start timestamptz NULL,
+        current_end timestamptz NULL,
+        paid_count integer NOT NULL DEFAULT 0,
+        cancel_at_cycle_end boolean NOT NULL DEFAULT false,
+        paused_at timestamptz NULL,
+        cancelled_at timestamptz NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions (status, current_end);
+
+      CREATE TABLE IF NOT EXISTS subscription_charges (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        subscription_id bigint NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+        razorpay_payment_id text NOT NULL UNIQUE,
+        razorpay_invoice_id text NULL,
+        amount_paise integer NOT NULL,
+        period_start timestamptz NULL,
+        period_end timestamptz NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_subscription_charges_subscription ON subscription_charges (subscription_id, created_at);
+
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS subscription_charge_id bigint NULL REFERENCES subscription_charges(id) ON DELETE RESTRICT;
+      DROP INDEX IF EXISTS idx_invoices_order_whole;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_single ON invoices (order_id) WHERE milestone_id IS NULL AND subscription_charge_id IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_subscription_charge_id ON invoices (subscription_charge_id) WHERE subscription_charge_id IS NOT NULL;
+    `
+  },
+  {
+    name: "create_hiring_pipeline",
+    sql: `
+      -- The default stages are seeded and existing applications placed on them
+      -- only when the table and column are first created, so stages an admin
+      -- later deletes are not brought back (or re-filled) on restart.
+      DO $$
+      BEGIN
+        IF to_regclass('career_pipeline_stages') IS NULL THEN
+          CREATE TABLE career_pipeline_stages (
+            id bigserial PRIMARY KEY,
+            created_at timestamptz NOT NULL DEFAULT now(),
+            position text NULL,
+            label text NOT NULL,
+            sort_order integer NOT NULL DEFAULT 0,
+            maps_to_status text NOT NULL CHECK (maps_to_status IN ('new','reviewing','shortlisted','rejected','hired'))
+          );
+
+          INSERT INTO career_pipeline_stages (position, label, sort_order, maps_to_status) VALUES
+            (NULL, 'Applied', 0, 'new'),
+            (NULL, 'Screening', 1, 'reviewing'),
+            (NULL, 'Interview', 2, 'shortlisted'),
+            (NULL, 'Offer', 3, 'shortlisted'),
+            (NULL, 'Hired', 4, 'hired'),
+            (NULL, 'Rejected', 5, 'rejected');
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_schema = current_schema() AND table_name = 'career_applications' AND column_name = 'stage_id'
+        ) THEN
+          ALTER TABLE career_applications ADD COLUMN stage_id bigint NULL REFERENCES career_pipeline_stages(id) ON DELETE SET NULL;
+
+          UPDATE career_applications a SET stage_id = (
+            SELECT st.id FROM career_pipeline_stages st
+            WHERE st.position IS NULL AND st.maps_to_status = a.status
+            ORDER BY st.sort_order LIMIT 1
+          );
+        END IF;
+      END $$;
+      CREATE INDEX IF NOT EXISTS idx_career_pipeline_stages_position ON career_pipeline_stages (position, sort_order);
+
+      CREATE TABLE IF NOT EXISTS career_application_events (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        application_id bigint NOT NULL REFERENCES career_applications(id) ON DELETE CASCADE,
+        kind text NOT NULL CHECK (kind IN ('stage_changed','note')),
+        from_stage text NULL,
+        to_stage text NULL,
+        note text NULL,
+        actor_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_career_application_events_app ON career_application_events (application_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS career_interviews (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        application_id bigint NOT NULL REFERENCES career_applications(id) ON DELETE CASCADE,
+        round_name text NOT NULL,
+        scheduled_at timestamptz NOT NULL,
+        duration_minutes integer NOT NULL DEFAULT 45 CHECK (duration_minutes BETWEEN 10 AND 480),
+        interviewer_name text NOT NULL,
+        interviewer_email text NULL,
+        meeting_url text NULL,
+        status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled','completed','cancelled')),
+        ics_uid text NOT NULL UNIQUE,
+        ics_sequence integer NOT NULL DEFAULT 0,
+        invite_sent_at timestamptz NULL,
+        created_by_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_career_interviews_app ON career_interviews (application_id, scheduled_at);
+
+      CREATE TABLE IF NOT EXISTS career_scorecards (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        interview_id bigint NOT NULL REFERENCES career_interviews(id) ON DELETE CASCADE,
+        author_email text NOT NULL,
+        ratings jsonb NOT NULL DEFAULT '{}'::jsonb,
+        overall_rating integer NOT NULL CHECK (overall_rating BETWEEN 1 AND 5),
+        recommendation text NOT NULL CHECK (recommendation IN ('strong_no','no','yes','strong_yes')),
+        notes text NULL,
+        UNIQUE (interview_id, author_email)
+      );
+    `
+  },
+  {
+    name: "create_job_openings",
+    sql: `
+      -- The roles that used to be hardcoded on the Careers page are seeded, and
+      -- existing applications linked to them, only when the table and column
+      -- are first created; openings an admin deletes stay deleted on restart.
+      DO $$
+      BEGIN
+        IF to_regclass('job_openings') IS NULL THEN
+          CREATE TABLE job_openings (
+            id bigserial PRIMARY KEY,
+            created_at timestamptz NOT NULL DEFAULT now(),
+            updated_at timestamptz NOT NULL DEFAULT now(),
+            slug text NOT NULL UNIQUE,
+            title text NOT NULL UNIQUE,
+            department text NULL,
+            location text NOT NULL DEFAULT 'India',
+            employment_type text NOT NULL DEFAULT 'full_time' CHECK (employment_type IN ('full_time','part_time','contract','internship')),
+            salary_min_inr integer NULL CHECK (salary_min_inr IS NULL OR salary_min_inr >= 0),
+            salary_max_inr integer NULL CHECK (salary_max_inr IS NULL OR salary_max_inr >= 0),
+            description_html text NOT NULL DEFAULT '',
+            requirements text[] NOT NULL DEFAULT '{}',
+            status text NOT NULL DEFAULT 'open' CHECK (status IN ('open','closed')),
+            closed_at timestamptz NULL,
+            sort_order integer NOT NULL DEFAULT 0
+          );
+
+          INSERT INTO job_openings (slug, title, department, sort_order) VALUES
+            ('software-developer', 'Software Developer', 'Web & app development', 0),
+            ('digital-marketing', 'Digital marketing', 'SEO • Social • Ads', 1),
+            ('web-designer-ui-ux', 'Web Designer/Ui-Ux', 'Figma • Design systems', 2),
+            ('data-cloud-operator', 'Data&Cloud Operator', 'Cloud ops • Data handling', 3),
+            ('cyber-security', 'Cyber Security(1+)', 'Security monitoring • Hardening', 4),
+            ('trainer-of-courses', 'Trainer of cources(2+)', 'Training • Mentorship', 5);
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_schema = current_schema() AND table_name = 'career_applications' AND column_name = 'opening_id'
+        ) THEN
+          ALTER TABLE career_applications ADD COLUMN opening_id bigint NULL REFERENCES job_openings(id) ON DELETE RESTRICT;
+
+          UPDATE career_applications a SET opening_id = o.id
+          FROM job_openings o
+          WHERE a.position = o.title;
+        END IF;
+      END $$;
+      CREATE INDEX IF NOT EXISTS idx_job_openings_status_sort ON job_openings (status, sort_order);
+      CREATE INDEX IF NOT EXISTS idx_career_applications_opening ON career_applications (opening_id, created_at desc);
+    `
+  },
+  {
+    name: "add_career_resume_search",
+    sql: `
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS resume_text text NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS resume_extracted_at timestamptz NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS resume_extract_error text NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(full_name, '') || ' ' || coalesce(position, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(metadata->>'experience', '') || ' ' || coalesce(metadata->>'whyHireYou', '') || ' ' || coalesce(message, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(resume_text, '')), 'C')
+      ) STORED;
+      CREATE INDEX IF NOT EXISTS idx_career_applications_search ON career_applications USING gin (search_vector);
+    `
+  },
+  {
+    name: "add_career_candidate_self_service",
+    sql: `
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS withdrawn_at timestamptz NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS withdrawal_reason text NULL;
+
+      ALTER TABLE career_application_events ADD COLUMN IF NOT EXISTS to_status text NULL;
+      ALTER TABLE career_application_events DROP CONSTRAINT IF EXISTS career_application_events_kind_check;
+      ALTER TABLE career_application_events ADD CONSTRAINT career_application_events_kind_check
+        CHECK (kind IN ('stage_changed','note','withdrawn','resume_replaced','info_requested','info_replied','merged','unmerged'));
+
+      CREATE TABLE IF NOT EXISTS career_info_requests (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        application_id bigint NOT NULL REFERENCES career_applications(id) ON DELETE CASCADE,
+        question text NOT NULL,
+        requested_by_email text NULL,
+        response text NULL,
+        responded_at timestamptz NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_career_info_requests_app ON career_info_requests (application_id, created_at);
+    `
+  },
+  {
+    name: "create_career_email_templates",
+    sql: `
+      CREATE TABLE IF NOT EXISTS career_email_templates (
+        status text PRIMARY KEY CHECK (status IN ('shortlisted','rejected','hired')),
+        subject text NOT NULL,
+        body text NOT NULL,
+        send_by_default boolean NOT NULL DEFAULT true,
+        updated_by_email text NULL,
+        updated_at timestamptz NOT NULL DEFAULT now()
+      );
+      INSERT INTO career_email_templates (status, subject, body) VALUES
+        ('shortlisted', 'You have been shortlisted for {{position}} at {{companyName}}',
+         E'Hi {{firstName}},\\n\\nThank you for applying for the {{position}} role. We enjoyed reviewing your application and would like to move you to the next stage.\\n\\nWe will be in touch shortly with details of the interview process.\\n\\n{{companyName}}'),
+        ('rejected', 'Your application for {{position}} at {{companyName}}',
+         E'Hi {{firstName}},\\n\\nThank you for your interest in the {{position}} role and for the time you spent on your application.\\n\\nAfter careful consideration we have decided not to move forward with your application at this time. We will keep your details on file and may reach out about future openings.\\n\\nWe wish you the very best in your search.\\n\\n{{companyName}}'),
+        ('hired', 'Welcome to {{companyName}}!',
+         E'Hi {{firstName}},\\n\\nCongratulations! We are delighted to offer you the {{position}} role at {{companyName}}.\\n\\nOur team will contact you with your offer letter and onboarding details in the next few days.\\n\\n{{companyName}}')
+      ON CONFLICT (status) DO NOTHING;
+      CREATE TABLE IF NOT EXISTS career_email_log (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        application_id bigint NOT NULL REFERENCES career_applications(id) ON DELETE CASCADE,
+        status text NOT NULL,
+        to_email text NOT NULL,
+        subject text NOT NULL,
+        body text NOT NULL,
+        outcome text NOT NULL CHECK (outcome IN ('sent','suppressed','failed')),
+        error text NULL,
+        actor_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_career_email_log_app ON career_email_log (application_id, created_at DESC);
+    `
+  },
+  {
+    name: "create_career_candidates",
+    sql: `
+      CREATE TABLE IF NOT EXISTS career_candidates (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        full_name text NOT NULL,
+        email text NOT NULL,
+        phone text NULL,
+        linkedin_url text NULL,
+        merged_by_email text NULL
+      );
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS candidate_id bigint NULL REFERENCES career_candidates(id) ON DELETE SET NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS email_key text NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS phone_key text NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS linkedin_key text NULL;
+      ALTER TABLE career_applications ADD COLUMN IF NOT EXISTS name_key text NULL;
+      CREATE INDEX IF NOT EXISTS idx_career_applications_candidate ON career_applications (candidate_id);
+      CREATE INDEX IF NOT EXISTS idx_career_applications_email_key ON career_applications (email_key);
+      CREATE INDEX IF NOT EXISTS idx_career_applications_phone_key ON career_applications (phone_key);
+      CREATE INDEX IF NOT EXISTS idx_career_applications_linkedin_key ON career_applications (linkedin_key);
+    `
+  },
+  {
+    name: "create_referral_codes",
+    sql: `
+      CREATE TABLE IF NOT EXISTS referral_codes (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        user_id bigint NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+        code text NOT NULL UNIQUE,
+        is_active boolean NOT NULL DEFAULT true
+      );
+      ALTER TABLE submissions ADD COLUMN IF NOT EXISTS referral_code_id bigint NULL REFERENCES referral_codes(id) ON DELETE SET NULL;
+      ALTER TABLE orders ADD COLUMN IF NOT EXISTS referral_code_id bigint NULL REFERENCES referral_codes(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_submissions_referral ON submissions (referral_code_id) WHERE referral_code_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_orders_referral ON orders (referral_code_id) WHERE referral_code_id IS NOT NULL;
+    `
+  },
+  {
+    name: "create_leads",
+    sql: `
+      -- Budget text to an estimated deal value; see server/db/schema.sql.
+      CREATE OR REPLACE FUNCTION estimate_deal_value_inr(budget text) RETURNS integer
+      LANGUAGE plpgsql IMMUTABLE AS $fn$
+      DECLARE
+        m text[];
+        vals numeric[] := '{}';
+        units text[] := '{}';
+        v numeric;
+        total numeric := 0;
+        n integer := 0;
+      BEGIN
+        IF budget IS NULL THEN RETURN NULL; END IF;
+        FOR m IN
+          SELECT regexp_matches(lower(replace(budget, ',', '')), '(\\d+(?:\\.\\d+)?)\\s*(thousand|lakhs?|lacs?|crores?|million|cr|mn|k|l|m)?\\y', 'g')
+        LOOP
+          vals := vals || m[1]::numeric;
+          units := units || m[2];
+        END LOOP;
+        IF cardinality(vals) = 0 THEN RETURN NULL; END IF;
+
+        -- "2-5 lakh": a unit after the range applies to both ends.
+        IF cardinality(vals) >= 2 AND units[1] IS NULL AND units[2] IS NOT NULL THEN units[1] := units[2]; END IF;
+
+        FOR i IN 1..least(cardinality(vals), 2) LOOP
+          v := vals[i] * CASE
+            WHEN units[i] IN ('k','thousand') THEN 1000
+            WHEN units[i] IN ('l','lac','lacs','lakh','lakhs') THEN 100000
+            WHEN units[i] IN ('m','mn','million') THEN 1000000
+            WHEN units[i] IN ('cr','crore','crores') THEN 10000000
+            ELSE 1
+          END;
+          IF v > 0 THEN
+            total := total + v;
+            n := n + 1;
+          END IF;
+        END LOOP;
+        IF n = 0 THEN RETURN NULL; END IF;
+        RETURN least(round(total / n), 2000000000)::integer;
+      END
+      $fn$;
+
+      CREATE TABLE IF NOT EXISTS leads (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        submission_id bigint NOT NULL UNIQUE REFERENCES submissions(id) ON DELETE CASCADE,
+        stage text NOT NULL DEFAULT 'new' CHECK (stage IN ('new','contacted','qualified','proposal','won','lost')),
+        stage_changed_at timestamptz NOT NULL DEFAULT now(),
+        lost_reason text NULL,
+        owner_email text NULL,
+        deal_value_inr integer NULL CHECK (deal_value_inr IS NULL OR deal_value_inr >= 0)
+      );
+      CREATE INDEX IF NOT EXISTS idx_leads_stage ON leads (stage, stage_changed_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_leads_owner ON leads (owner_email) WHERE owner_email IS NOT NULL;
+
+      CREATE TABLE IF NOT EXISTS lead_activities (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        lead_id bigint NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+        kind text NOT NULL CHECK (kind IN ('note','stage_changed','owner_changed','value_changed','task_completed')),
+        from_stage text NULL,
+        to_stage text NULL,
+        note text NULL,
+        actor_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_lead_activities_lead ON lead_activities (lead_id, created_at DESC);
+
+      CREATE TABLE IF NOT EXISTS lead_tasks (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        lead_id bigint NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+        title text NOT NULL,
+        due_at timestamptz NOT NULL,
+        assignee_email text NULL,
+        completed_at timestamptz NULL,
+        completed_by_email text NULL,
+        created_by_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_lead_tasks_open ON lead_tasks (due_at) WHERE completed_at IS NULL;
+      CREATE INDEX IF NOT EXISTS idx_lead_tasks_lead ON lead_tasks (lead_id, due_at);
+
+      INSERT INTO leads (submission_id, created_at, stage, lost_reason, deal_value_inr)
+      SELECT s.id, s.created_at,
+        CASE s.data ->> 'adminStatus'
+          WHEN 'reviewing' THEN 'contacted'
+          WHEN 'shortlisted' THEN 'qualified'
+          WHEN 'hired' THEN 'won'
+          WHEN 'rejected' THEN 'lost'
+          ELSE 'new'
+        END,
+        CASE WHEN s.data ->> 'adminStatus' = 'rejected' THEN 'Not specified' END,
+        estimate_deal_value_inr(s.data ->> 'budget')
+      FROM submissions s
+      WHERE s.type IN ('contact','hire')
+      ON CONFLICT (submission_id) DO NOTHING;
+
+      -- Leads created before the estimate was applied everywhere. Leads whose
+      -- value an admin has set or cleared are left alone.
+      UPDATE leads l SET deal_value_inr = estimate_deal_value_inr(s.data ->> 'budget')
+      FROM submissions s
+      WHERE s.id = l.submission_id AND l.deal_value_inr IS NULL
+        AND NOT EXISTS (SELECT 1 FROM lead_activities a WHERE a.lead_id = l.id AND a.kind = 'value_changed');
+    `
+  },
+  {
+    name: "migrate_legacy_lead_tables",
+    sql: MIGRATE_LEGACY_LEADS_SQL
+  },
+  {
+    name: "create_site_content_revisions",
+    sql: `
+      ALTER TABLE site_content ALTER COLUMN value DROP NOT NULL;
+      ALTER TABLE site_content ADD COLUMN IF NOT EXISTS draft_value jsonb NULL;
+      ALTER TABLE site_content ADD COLUMN IF NOT EXISTS draft_updated_at timestamptz NULL;
+      ALTER TABLE site_content ADD COLUMN IF NOT EXISTS draft_updated_by text NULL;
+
+      CREATE TABLE IF NOT EXISTS site_content_revisions (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        content_key text NOT NULL,
+        value jsonb NOT NULL,
+        action text NOT NULL CHECK (action IN ('draft','publish','rollback')),
+        summary text NULL,
+        author_email text NULL,
+        restored_from_id bigint NULL REFERENCES site_content_revisions(id) ON DELETE SET NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_site_content_revisions_key ON site_content_revisions (content_key, created_at DESC);
+
+      -- Content saved before revisions existed becomes each key's first revision.
+      INSERT INTO site_content_revisions (created_at, content_key, value, action, summary)
+      SELECT c.updated_at, c.key, c.value, 'publish', 'Initial version'
+      FROM site_content c
+      WHERE c.value IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM site_content_revisions r WHERE r.content_key = c.key);
+    `
+  },
+  {
+    name: "add_site_content_schedule",
+    sql: `
+      ALTER TABLE site_content ADD COLUMN IF NOT EXISTS publish_at timestamptz NULL;
+      ALTER TABLE site_content ADD COLUMN IF NOT EXISTS unpublish_at timestamptz NULL;
+    `
+  },
+  {
+    name: "create_content_collection_items",
+    sql: `
+      CREATE TABLE IF NOT EXISTS content_collection_items (
+        id bigserial PRIMARY KEY,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        collection text NOT NULL CHECK (collection IN ('services','portfolio','team','testimonials','timeline')),
+        data jsonb NOT NULL,
+        is_published boolean NOT NULL DEFAULT true,
+        sort_order int NOT NULL DEFAULT 0,
+        updated_by_email text NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_content_collection_items_order ON content_collection_items (collection, sort_order, id);
+    `
   }
 ];
 
@@ -0,0 +1,193 @@
+import crypto from "crypto";
+
+import { env } from "./env.js";
+import { withTransaction } from "./db.js";
+import { sanitizeContentValue } from "./cmsBlocks.js";
+
+export type ContentRevisionAction = "draft" | "publish" | "rollback";
+
+export const CONTENT_REVISION_COLUMNS = "id, created_at, content_key, action, summary, author_email, restored_from_id";
+
+const PREVIEW_TTL_SECONDS = 60 * 60;
+
+function blocksOf(value: unknown): unknown[] | null {
+  if (!value || typeof value !== "object") return null;
+  const blocks = (value as { blocks?: unknown }).blocks;
+  return Array.isArray(blocks) ? blocks : null;
+}
+
+// Short human summary of what changed between two content values, e.g.
+// "Blocks: 2 added, 1 changed". Block values are compared position by position.
+export function summarizeContentChange(prev: unknown, next: unknown) {
+  if (prev === null || prev === undefined) {
+    const blocks = blocksOf(next);
+    return blocks ? `Created with ${blocks.length} block${blocks.length === 1 ? "" : "s"}` : "Created";
+  }
+
+  const before = blocksOf(prev);
+  const after = blocksOf(next);
+  if (!before || !after) return JSON.stringify(prev) === JSON.stringify(next) ? "No changes" : "Value changed";
+
+  const shared = Math.min(before.length, after.length);
+  let changed = 0;
+  for (let i = 0; i < shared; i++) {
+    if (JSON.stringify(before[i]) !== JSON.stringify(after[i])) changed++;
+  }
+
+  const parts: string[] = [];
+  if (after.length > before.length) parts.push(`${after.length - before.length} added`);
+  if (before.length > after.length) parts.push(`${before.length - after.length} removed`);
+  if (changed) parts.push(`${changed} changed`);
+  if (!parts.length) return "No changes";
+  return `Blocks: ${parts.join(", ")}`;
+}
+
+function parseTime(value: unknown) {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value !== "string" || !value) return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+// Whether a publish/unpublish window includes `now`. Missing or unparseable
+// bounds leave that side of the window open.
+export function isScheduleActive(publishAt: unknown, unpublishAt: unknown, now = Date.now()) {
+  const start = parseTime(publishAt);
+  const end = parseTime(unpublishAt);
+  return (start === null || start <= now) && (end === null || end > now);
+}
+
+// Drops blocks whose own publishAt/unpublishAt window is not active. Values
+// without a blocks array are returned unchanged.
+export function filterScheduledBlocks(value: unknown, now = Date.now()) {
+  const blocks = blocksOf(value);
+  if (!blocks) return value;
+  return {
+    ...(value as object),
+    blocks: blocks.filter((b) => {
+      if (!b || typeof b !== "object") return true;
+      const block = b as { publishAt?: unknown; unpublishAt?: unknown };
+      return isScheduleActive(block.publishAt, block.unpublishAt, now);
+    })
+  };
+}
+
+// Save a new draft or publish a value. Either way the value is kept as a
+// revision. Publishing clears the pending draft.
+export async function saveSiteContent(input: {
+  key: string;
+  value: unknown;
+  publish: boolean;
+  authorEmail: string | null;
+}) {
+  return withTransaction(async (db) => {
+    const currentRes = await db.query<{ value: unknown; draft_value: unknown }>(
+      "select value, draft_value from site_content where key = $1 for update",
+      [input.key]
+    );
+    const current = currentRes.rows[0] ?? null;
+    const baseline = input.publish ? current?.value : (current?.draft_value ?? current?.value);
+    const summary = summarizeContentChange(baseline ?? null, input.value);
+
+    if (input.publish) {
+      await db.query(
+        [
+          "insert into site_content (key, value) values ($1,$2)",
+          "on conflict (key) do update set value = excluded.value, updated_at = now(),",
+          "  draft_value = null, draft_updated_at = null, draft_updated_by = null"
+        ].join("\n"),
+        [input.key, input.value]
+      );
+    } else {
+      await db.query(
+        [
+          "insert into site_content (key, value, draft_value, draft_updated_at, draft_updated_by) values ($1, null, $2, now(), $3)",
+          "on conflict (key) do update set draft_value = excluded.draft_value, draft_updated_at = now(),",
+          "  draft_updated_by = excluded.draft_updated_by"
+        ].join("\n"),
+        [input.key, input.value, input.authorEmail]
+      );
+    }
+
+    const revisionRes = await db.query(
+      [
+        "insert into site_content_revisions (content_key, value, action, summary, author_email)",
+        "values ($1,$2,$3,$4,$5)",
+        `returning ${CONTENT_REVISION_COLUMNS}`
+      ].join("\n"),
+      [input.key, input.value, input.publish ? "publish" : "draft", summary, input.authorEmail]
+    );
+    return revisionRes.rows[0];
+  });
+}
+
+// Publish the value of an earlier revision. The pending draft is dropped; it
+// is still available as its own revision.
+export async function rollbackSiteContent(input: { revisionId: number; authorEmail: string | null }) {
+  return withTransaction(async (db) => {
+    const targetRes = await db.query<{ id: number; content_key: string; value: unknown; created_at: string }>(
+      "select id, content_key, value, created_at from site_content_revisions where id = $1",
+      [input.revisionId]
+    );
+    const target = targetRes.rows[0];
+    if (!target) return null;
+    // Revisions saved before html sanitization existed are cleaned on the way back.
+    const { value } = sanitizeContentValue(target.value);
+
+    const currentRes = await db.query<{ value: unknown }>("select value from site_content where key = $1 for update", [
+      target.content_key
+    ]);
+    const change = summarizeContentChange(currentRes.rows[0]?.value ?? null, value);
+
+    await db.query(
+      [
+        "insert into site_content (key, value) values ($1,$2)",
+        "on conflict (key) do update set value = excluded.value, updated_at = now(),",
+        "  draft_value = null, draft_updated_at = null, draft_updated_by = null"
+      ].join("\n"),
+      [target.content_key, value]
+    );
+
+    const revisionRes = await db.query(
+      [
+        "insert into site_content_revisions (content_key, value, action, summary, author_email, restored_from_id)",
+        "values ($1,$2,'rollback',$3,$4,$5)",
+        `returning ${CONTENT_REVISION_COLUMNS}`
+      ].join("\n"),
+      [target.content_key, value, `Rolled back to revision #${target.id}. ${change}`, input.authorEmail, target.id]
+    );
+    return revisionRes.rows[0];
+  });
+}
+
+// Preview tokens let anyone holding the link see the draft of one content key
+// on the live page for an hour. They are HMAC-signed with a key derived from
+// JWT_SECRET so they can never pass as login tokens.
+function previewSignature(payload: string) {
+  return crypto.createHmac("sha256", `${env.JWT_SECRET}:cms-preview`).update(payload).digest("base64url");
+}
+
+export function createPreviewToken(key: string) {
+  const expiresAt = Math.floor(Date.now() / 1000) + PREVIEW_TTL_SECONDS;
+  const payload = Buffer.from(JSON.stringify({ key, exp: expiresAt })).toString("base64url");
+  return { token: `${payload}.${previewSignature(payload)}`, expiresAt: new Date(expiresAt * 1000).toISOString() };
+}
+
+// The content key a preview token grants, or null if it is invalid or expired.
+export function verifyPreviewToken(token: string) {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(previewSignature(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as { key?: unknown; exp?: unknown };
+    if (typeof data.key !== "string" || typeof data.exp !== "number") return null;
+    if (data.exp * 1000 < Date.now()) return null;
+    return data.key;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,170 @@
+import { query, withTransaction } from "./db.js";
+import { ensureSubscriptionChargeInvoice } from "./payments.js";
+import type { getRazorpayClient } from "./razorpay.js";
+
+type RazorpayClient = NonNullable<ReturnType<typeof getRazorpayClient>>;
+
+export const BILLING_INTERVALS = ["one_time", "monthly", "quarterly", "yearly"] as const;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+export type RecurringInterval = Exclude<BillingInterval, "one_time">;
+
+export const SUBSCRIPTION_STATUSES = [
+  "created",
+  "authenticated",
+  "active",
+  "pending",
+  "halted",
+  "paused",
+  "cancelled",
+  "completed",
+  "expired"
+] as const;
+export type SubscriptionStatus = (typeof SUBSCRIPTION_STATUSES)[number];
+
+// Razorpay requires a fixed number of billing cycles; these run for ~10 years,
+// which in practice means "until cancelled".
+const PLAN_PERIODS: Record<RecurringInterval, { period: "monthly" | "yearly"; interval: number; totalCount: number }> = {
+  monthly: { period: "monthly", interval: 1, totalCount: 120 },
+  quarterly: { period: "monthly", interval: 3, totalCount: 40 },
+  yearly: { period: "yearly", interval: 1, totalCount: 10 }
+};
+
+export function isRecurringInterval(value: string): value is RecurringInterval {
+  return value in PLAN_PERIODS;
+}
+
+export function subscriptionTotalCount(interval: RecurringInterval) {
+  return PLAN_PERIODS[interval].totalCount;
+}
+
+export const SUBSCRIPTION_COLUMNS = [
+  "s.id, s.created_at, s.order_id, s.billing_interval, s.status, s.current_start, s.current_end, s.paid_count,",
+  "s.cancel_at_cycle_end, s.paused_at, s.cancelled_at"
+].join(" ");
+
+// Return the Razorpay plan for a pricing row, creating it on first use. The id
+// is cached on services_pricing and cleared when the price or interval changes.
+export async function ensureRazorpayPlan(
+  client: RazorpayClient,
+  pricing: {
+    id: number;
+    service_name: string;
+    plan_name: string;
+    price_inr: number;
+    billing_interval: RecurringInterval;
+    razorpay_plan_id: string | null;
+  }
+) {
+  if (pricing.razorpay_plan_id) return pricing.razorpay_plan_id;
+
+  const period = PLAN_PERIODS[pricing.billing_interval];
+  const plan = await client.plans.create({
+    period: period.period,
+    interval: period.interval,
+    item: {
+      name: `${pricing.service_name} — ${pricing.plan_name}`,
+      amount: pricing.price_inr * 100,
+      currency: "INR"
+    },
+    notes: { pricing_id: pricing.id }
+  });
+
+  await query("update services_pricing set razorpay_plan_id = $1 where id = $2 and razorpay_plan_id is null", [
+    plan.id,
+    pricing.id
+  ]);
+  return plan.id;
+}
+
+function fromUnix(value: number | null | undefined) {
+  return value ? new Date(value * 1000).toISOString() : null;
+}
+
+export type RazorpaySubscriptionState = {
+  id: string;
+  status: string;
+  current_start?: number | null;
+  current_end?: number | null;
+  paid_count?: number | null;
+};
+
+// Mirror a Razorpay subscription entity onto our row. Used by the webhook and
+// after portal actions; late "created"/"authenticated" events never move an
+// already-running subscription backwards.
+export async function syncSubscriptionState(entity: RazorpaySubscriptionState) {
+  const status = (SUBSCRIPTION_STATUSES as readonly string[]).includes(entity.status) ? entity.status : null;
+  if (!status) return null;
+
+  const rows = await query<{ id: number; order_id: number }>(
+    [
+      "update subscriptions set",
+      "status = case when $2 in ('created','authenticated') and status not in ('created','authenticated') then status else $2 end,",
+      "current_start = coalesce($3, current_start),",
+      "current_end = coalesce($4, current_end),",
+      "paid_count = greatest(paid_count, coalesce($5, 0)),",
+      "paused_at = case when $2 = 'paused' then coalesce(paused_at, now()) when $2 = 'active' then null else paused_at end,",
+      "cancelled_at = case when $2 = 'cancelled' then coalesce(cancelled_at, now()) else cancelled_at end,",
+      "updated_at = now()",
+      "where razorpay_subscription_id = $1",
+      "returning id, order_id"
+    ].join("\n"),
+    [entity.id, status, fromUnix(entity.current_start), fromUnix(entity.current_end), entity.paid_count ?? null]
+  );
+  return rows[0] ?? null;
+}
+
+// Record one successful renewal and issue its invoice. Keyed by the Razorpay
+// payment id so the verify route and the subscription.charged webhook converge
+// on one charge. The order counts as paid from the first charge onwards.
+export async function recordSubscriptionCharge(input: {
+  razorpaySubscriptionId: string;
+  razorpayPaymentId: string;
+  razorpayInvoiceId?: string | null;
+  amountPaise: number;
+  periodStart?: number | null;
+  periodEnd?: number | null;
+}) {
+  const chargeId = await withTransaction(async (db) => {
+    const subRes = await db.query<{ id: number; order_id: number }>(
+      "select id, order_id from subscriptions where razorpay_subscription_id = $1 for update",
+      [input.razorpaySubscriptionId]
+    );
+    const subscription = subRes.rows[0];
+    if (!subscription) return null;
+
+    await db.query(
+      [
+        "insert into subscription_charges (subscription_id, razorpay_payment_id, razorpay_invoice_id, amount_paise, period_start, period_end)",
+        "values ($1,$2,$3,$4,$5,$6)",
+        "on conflict (razorpay_payment_id) do nothing"
+      ].join("\n"),
+      [
+        subscription.id,
+        input.razorpayPaymentId,
+        input.razorpayInvoiceId ?? null,
+        input.amountPaise,
+        fromUnix(input.periodStart),
+        fromUnix(input.periodEnd)
+      ]
+    );
+
+    await db.query(
+      "update orders set payment_status = 'paid' where id = $1 and payment_status in ('pending','failed')",
+      [subscription.order_id]
+    );
+
+    const chargeRes = await db.query<{ id: number }>(
+      "select id from subscription_charges where razorpay_payment_id = $1 limit 1",
+      [input.razorpayPaymentId]
+    );
+    return chargeRes.rows[0]?.id ?? null;
+  });
+
+  if (!chargeId) return null;
+  return ensureSubscriptionChargeInvoice(chargeId);
+}
+
+export async function orderHasSubscription(orderId: number) {
+  const rows = await query<{ id: number }>("select id from subscriptions where order_id = $1 limit 1", [orderId]);
+  return !!rows[0];
+}
@@ -46,3 +46,7 @@ export function getSupabaseAuth(): SupabaseClient {
 export function getResumesBucketId() {
   return env.SUPABASE_STORAGE_BUCKET || "resumes";
 }
+
+export function getPrivateBucketId() {
+  return env.SUPABASE_PRIVATE_BUCKET || "client-files";
+}
@@ -6,5 +6,7 @@ export const apiRateLimit = rateLimit({
   limit: env.RATE_LIMIT_MAX,
   standardHeaders: "draft-7",
   legacyHeaders: false,
+  // Razorpay retries failed deliveries; never throttle signed webhooks.
+  skip: (req) => req.originalUrl.startsWith("/api/payments/webhook"),
   message: { ok: false, error: "Too many requests. Please try again shortly." }
 });
@@ -4,9 +4,26 @@ import crypto from "crypto";
 
 import { env } from "../lib/env.js";
 import { query } from "../lib/db.js";
+import { BILLING_INTERVALS } from "../lib/subscriptions.js";
+import { CAREER_STATUSES, setApplicationStatus } from "../lib/hiring.js";
+import { sendCareerStatusTemplate } from "../lib/careerEmails.js";
+import {
+  CAREER_EXPORT_COLUMNS,
+  careerApplicationsCsv,
+  writeCareerApplicationsXlsx,
+  type CareerExportRow
+} from "../lib/careerExport.js";
 import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
 import { HttpError } from "../middleware/errorHandler.js";
+import { cmsContentValueSchema, describeContentIssue, sanitizeContentValue } from "../lib/cmsBlocks.js";
+import {
+  CONTENT_REVISION_COLUMNS,
+  createPreviewToken,
+  rollbackSiteContent,
+  saveSiteContent
+} from "../lib/siteContent.js";
 import { getResumesBucketId, getSupabaseAdmin } from "../lib/supabase.js";
+import { safeBaseName } from "../lib/params.js";
 
 export const adminRouter = Router();
 
@@ -92,7 +109,10 @@ adminRouter.get("/admin/submissions", requireAuth, requireAdmin, async (req: Aut
 
 const updateSubmissionStatusSchema = z
   .object({
-    status: submissionStatusSchema
+    status: submissionStatusSchema,
+    // Career applications only: send (true) or suppress (false) the status
+    // email; omitted means the template's default.
+    notify: z.boolean().optional()
   })
   .strict();
 
@@ -114,14 +134,28 @@ adminRouter.patch("/admin/submissions/:id/status", requireAuth, requireAdmin, as
     if (!submission?.id) return res.status(404).json({ ok: false, error: "Not found" });
 
     if (submission.type === "career") {
-      const updatedCareer = await query<{ id: number }>(
-        "update career_applications set status = $2 where submission_id = $1 returning id",
-        [id, parsed.data.status]
-      );
-      if (!updatedCareer[0]?.id) {
+      const career = await query<{ id: number }>("select id from career_applications where submission_id = $1 limit 1", [id]);
+      const result = career[0]
+        ? await setApplicationStatus({
+            applicationId: career[0].id,
+            status: parsed.data.status,
+            actorEmail: req.user?.email ?? null
+          })
+        : null;
+      if (!result) {
         return res.status(404).json({ ok: false, error: "Career application not found" });
       }
-      return res.json({ ok: true });
+
+      const email =
+        result.previousStatus !== parsed.data.status
+          ? await sendCareerStatusTemplate({
+              applicationId: career[0].id,
+              status: parsed.data.status,
+              notify: parsed.data.notify,
+              actorEmail: req.user?.email ?? null
+            })
+          : null;
+      return res.json({ ok: true, email });
     }
 
     const updated = await query<{ id: number }>(
@@ -159,7 +193,11 @@ adminRouter.delete("/admin/submissions/:id", requireAuth, requireAdmin, async (r
 adminRouter.get("/admin/leads/contact", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
   try {
     const rows = await query(
-      "select id, created_at, name, email, phone, subject from contact_submissions order by created_at desc limit 200"
+      [
+        "select id, created_at, data ->> 'name' as name, data ->> 'email' as email, data ->> 'phone' as phone,",
+        "  data ->> 'subject' as subject",
+        "from submissions where type = 'contact' order by created_at desc limit 200"
+      ].join("\n")
     );
     return res.json({ ok: true, items: rows });
   } catch (err) {
@@ -171,7 +209,11 @@ adminRouter.get("/admin/leads/contact", requireAuth, requireAdmin, async (_req:
 adminRouter.get("/admin/contact", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
   try {
     const rows = await query(
-      "select id, created_at, name, email, phone, subject from contact_submissions order by created_at desc limit 200"
+      [
+        "select id, created_at, data ->> 'name' as name, data ->> 'email' as email, data ->> 'phone' as phone,",
+        "  data ->> 'subject' as subject",
+        "from submissions where type = 'contact' order by created_at desc limit 200"
+      ].join("\n")
     );
     return res.json({ ok: true, items: rows });
   } catch (err) {
@@ -182,7 +224,12 @@ adminRouter.get("/admin/contact", requireAuth, requireAdmin, async (_req: Authed
 adminRouter.get("/admin/leads/hire", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
   try {
     const rows = await query(
-      "select id, created_at, name, email, phone, company, project_name, budget, timeline from hire_us_submissions order by created_at desc limit 200"
+      [
+        "select id, created_at, data ->> 'name' as name, data ->> 'email' as email, data ->> 'phone' as phone,",
+        "  data ->> 'company' as company, data ->> 'projectName' as project_name, data ->> 'budget' as budget,",
+        "  coalesce(data ->> 'timeline', (data ->> 'deliveryDays') || ' days') as timeline",
+        "from submissions where type = 'hire' order by created_at desc limit 200"
+      ].join("\n")
     );
     return res.json({ ok: true, items: rows });
   } catch (err) {
@@ -194,7 +241,12 @@ adminRouter.get("/admin/leads/hire", requireAuth, requireAdmin, async (_req: Aut
 adminRouter.get("/admin/hire", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
   try {
     const rows = await query(
-      "select id, created_at, name, email, phone, company, project_name, budget, timeline from hire_us_submissions order by created_at desc limit 200"
+      [
+        "select id, created_at, data ->> 'name' as name, data ->> 'email' as email, data ->> 'phone' as phone,",
+        "  data ->> 'company' as company, data ->> 'projectName' as project_name, data ->> 'budget' as budget,",
+        "  coalesce(data ->> 'timeline', (data ->> 'deliveryDays') || ' days') as timeline",
+        "from submissions where type = 'hire' order by created_at desc limit 200"
+      ].join("\n")
     );
     return res.json({ ok: true, items: rows });
   } catch (err) {
@@ -204,7 +256,12 @@ adminRouter.get("/admin/hire", requireAuth, requireAdmin, async (_req: AuthedReq
 
 adminRouter.get("/admin/content", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
   try {
-    const rows = await query("select key, value, updated_at from site_content order by key asc");
+    const rows = await query(
+      [
+        "select key, value, updated_at, draft_value, draft_updated_at, draft_updated_by, publish_at, unpublish_at",
+        "from site_content order by key asc"
+      ].join("\n")
+    );
     return res.json({ ok: true, items: rows });
   } catch (err) {
     return next(err);
@@ -244,17 +301,6 @@ function imageExtensionForMime(mime: string) {
   }
 }
 
-function safeBaseName(input: string) {
-  const base = input.split("/").pop()?.split("\\").pop() ?? "file";
-  const noExt = base.replace(/\.[^.]+$/, "");
-  const cleaned = noExt
-    .replace(/[^a-zA-Z0-9._-]+/g, "-")
-    .replace(/-+/g, "-")
-    .replace(/^[-.]+|[-.]+$/g, "")
-    .slice(0, 60);
-  return cleaned || "file";
-}
-
 function publicObjectUrl(baseUrl: string, bucket: string, path: string) {
   const normalized = baseUrl.replace(/\/$/, "");
   const encodedPath = path
@@ -327,7 +373,8 @@ adminRouter.get("/admin/pricing", requireAuth, requireAdmin, async (_req: Authed
   try {
     const rows = await query(
       [
-        "select id, created_at, updated_at, service_key, service_name, plan_key, plan_name, price_inr, is_active, sort_order",
+        "select id, created_at, updated_at, service_key, service_name, plan_key, plan_name, price_inr, sac_code, billing_interval,",
+        "is_active, sort_order",
         "from services_pricing",
         "order by sort_order asc, service_key asc, plan_key asc"
       ].join("\n")
@@ -345,6 +392,8 @@ const upsertPricingSchema = z
     planKey: z.string().min(1).max(120),
     planName: z.string().min(1).max(200),
     priceInr: z.number().int().positive(),
+    sacCode: z.string().regex(/^\d{4,8}$/).nullable().optional(),
+    billingInterval: z.enum(BILLING_INTERVALS).optional(),
     sortOrder: z.number().int().optional(),
     isActive: z.boolean().optional()
   })
@@ -360,12 +409,19 @@ adminRouter.post("/admin/pricing", requireAuth, requireAdmin, async (req: Authed
     const input = parsed.data;
     const rows = await query<{ id: number }>(
       [
-        "insert into services_pricing (service_key, service_name, plan_key, plan_name, price_inr, is_active, sort_order)",
-        "values ($1,$2,$3,$4,$5,$6,$7)",
+        "insert into services_pricing (service_key, service_name, plan_key, plan_name, price_inr, is_active, sort_order, sac_code, billing_interval)",
+        "values ($1,$2,$3,$4,$5,$6,$7,$8,coalesce($9::text, 'one_time'))",
         "on conflict (service_key, plan_key) do update set",
         "service_name = excluded.service_name,",
         "plan_name = excluded.plan_name,",
+        // A Razorpay plan is immutable; drop the cached one when price or interval changes.
+        "razorpay_plan_id = case when services_pricing.price_inr = excluded.price_inr",
+        "  and services_pricing.billing_interval = coalesce($9::text, services_pricing.billing_interval)",
+        "  then services_pricing.razorpay_plan_id else null end,",
         "price_inr = excluded.price_inr,",
+        // Omitted billingInterval/sacCode keep the stored values; sacCode: null clears it.
+        "billing_interval = coalesce($9::text, services_pricing.billing_interval),",
+        "sac_code = case when $10 then excluded.sac_code else services_pricing.sac_code end,",
         "is_active = excluded.is_active,",
         "sort_order = excluded.sort_order,",
         "updated_at = now()",
@@ -378,7 +434,10 @@ adminRouter.post("/admin/pricing", requireAuth, requireAdmin, async (req: Authed
         input.planName,
         input.priceInr,
         input.isActive ?? true,
-        input.sortOrder ?? 0
+        input.sortOrder ?? 0,
+        input.sacCode ?? null,
+        input.billingInterval ?? null,
+        input.sacCode !== undefined
       ]
     );
 
@@ -390,9 +449,13 @@ adminRouter.post("/admin/pricing", requireAuth, requireAdmin, async (req: Authed
 
 const upsertContentSchema = z.object({
   key: z.string().min(1).max(120),
-  value: z.unknown()
+  value: z.unknown().refine((v) => v !== undefined && v !== null, "Required"),
+  // false saves a draft that only preview links show; omitted publishes.
+  publish: z.boolean().default(true)
 });
 
+// Admin: PUT /api/admin/content
+// Saves a draft or publishes a content key; either way a revision is recorded.
 adminRouter.put("/admin/content", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
   try {
     const parsed = upsertContentSchema.safeParse(req.body);
@@ -400,10 +463,76 @@ adminRouter.put("/admin/content", requireAuth, requireAdmin, async (req: AuthedR
       return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
     }
 
-    await query(
-      "insert into site_content (key, value) values ($1,$2) on conflict (key) do update set value = excluded.value, updated_at = now()",
-      [parsed.data.key, parsed.data.value]
+    const content = cmsContentValueSchema.safeParse(parsed.data.value);
+    if (!content.success) {
+      return res.status(400).json({
+        ok: false,
+        error: `Invalid content: ${describeContentIssue(content.error)}`,
+        details: content.error.flatten()
+      });
+    }
+
+    const { value, sanitizedBlocks } = sanitizeContentValue(content.data);
+    const revision = await saveSiteContent({
+      key: parsed.data.key,
+      value,
+      publish: parsed.data.publish,
+      authorEmail: req.user?.email ?? null
+    });
+
+    // The editor replaces its blocks with `value` when sanitization changed anything.
+    return res.json({ ok: true, revision, sanitizedBlocks, value });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const contentScheduleSchema = z
+  .object({
+    publishAt: z.preprocess((v) => (v === "" ? null : v), z.string().datetime({ offset: true }).nullable()),
+    unpublishAt: z.preprocess((v) => (v === "" ? null : v), z.string().datetime({ offset: true }).nullable())
+  })
+  .refine((v) => !v.publishAt || !v.unpublishAt || Date.parse(v.unpublishAt) > Date.parse(v.publishAt), {
+    message: "Unpublish time must be after the publish time",
+    path: ["unpublishAt"]
+  });
+
+// Admin: PATCH /api/admin/content/:key/schedule
+// Sets or clears the window in which the whole key is served publicly.
+adminRouter.patch("/admin/content/:key/schedule", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = contentScheduleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query(
+      "update site_content set publish_at = $2, unpublish_at = $3 where key = $1 returning key, publish_at, unpublish_at",
+      [req.params.key, parsed.data.publishAt, parsed.data.unpublishAt]
+    );
+    if (!rows[0]) return res.status(404).json({ ok: false, error: "Not found" });
+
+    return res.json({ ok: true, item: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: DELETE /api/admin/content/:key/draft
+// Drops the pending draft; the published value is untouched.
+adminRouter.delete("/admin/content/:key/draft", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const rows = await query<{ key: string; value: unknown }>(
+      [
+        "update site_content set draft_value = null, draft_updated_at = null, draft_updated_by = null",
+        "where key = $1 returning key, value"
+      ].join("\n"),
+      [req.params.key]
     );
+    if (!rows[0]) return res.status(404).json({ ok: false, error: "Not found" });
+
+    // A key that was never published has nothing left to keep.
+    if (rows[0].value === null) await query("delete from site_content where key = $1", [req.params.key]);
 
     return res.json({ ok: true });
   } catch (err) {
@@ -411,7 +540,71 @@ adminRouter.put("/admin/content", requireAuth, requireAdmin, async (req: AuthedR
   }
 });
 
-const careerStatusSchema = z.enum(["new", "reviewing", "shortlisted", "rejected", "hired"]);
+// Admin: GET /api/admin/content/:key/revisions
+// Revision history for one content key, newest first (values omitted).
+adminRouter.get("/admin/content/:key/revisions", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const rows = await query(
+      `select ${CONTENT_REVISION_COLUMNS} from site_content_revisions where content_key = $1 order by created_at desc, id desc limit 100`,
+      [req.params.key]
+    );
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: GET /api/admin/content-revisions/:id
+// One revision including its value, for loading back into the editor.
+adminRouter.get("/admin/content-revisions/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id)) return res.status(400).json({ ok: false, error: "Invalid id" });
+
+    const rows = await query(`select ${CONTENT_REVISION_COLUMNS}, value from site_content_revisions where id = $1`, [id]);
+    if (!rows[0]) return res.status(404).json({ ok: false, error: "Not found" });
+
+    return res.json({ ok: true, revision: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: POST /api/admin/content-revisions/:id/rollback
+// Publishes the value of an earlier revision as a new "rollback" revision.
+adminRouter.post(
+  "/admin/content-revisions/:id/rollback",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthedRequest, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ ok: false, error: "Invalid id" });
+
+      const revision = await rollbackSiteContent({ revisionId: id, authorEmail: req.user?.email ?? null });
+      if (!revision) return res.status(404).json({ ok: false, error: "Not found" });
+
+      return res.json({ ok: true, revision });
+    } catch (err) {
+      return next(err);
+    }
+  }
+);
+
+// Admin: POST /api/admin/content/:key/preview-token
+// Signed, short-lived token that shows this key's draft on the public page.
+adminRouter.post("/admin/content/:key/preview-token", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const rows = await query("select 1 from site_content where key = $1", [req.params.key]);
+    if (!rows[0]) return res.status(404).json({ ok: false, error: "Not found" });
+
+    return res.json({ ok: true, ...createPreviewToken(req.params.key) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const careerStatusSchema = z.enum(CAREER_STATUSES);
 
 adminRouter.get("/admin/otp", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
   try {
@@ -436,6 +629,16 @@ adminRouter.get("/admin/otp", requireAuth, requireAdmin, async (req: AuthedReque
   }
 });
 
+// Status filter ($1) plus full-text search over the resume text, position and
+// application fields, or substring matches on contact details ($2). Shared by
+// the list and the export so both return the same applications.
+const careerSearchCte = "with search as (select websearch_to_tsquery('english', $2) as tsq)";
+const careerSearchWhere = [
+  "where ($1::text is null or a.status = $1)",
+  "and ($2::text = '' or a.search_vector @@ search.tsq",
+  "  or a.full_name ilike ('%' || $2 || '%') or a.email ilike ('%' || $2 || '%') or a.phone ilike ('%' || $2 || '%') or a.position ilike ('%' || $2 || '%'))"
+].join("\n");
+
 adminRouter.get("/admin/careers", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
   try {
     const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
@@ -447,13 +650,23 @@ adminRouter.get("/admin/careers", requireAuth, requireAdmin, async (req: AuthedR
     if (!parsedStatus.success) return res.status(400).json({ ok: false, error: "Invalid status" });
 
     try {
+      // Full-text matches are ranked first. Snippets mark matched terms with
+      // \u27e6 \u27e7 for the client to highlight.
       const rows = await query(
         [
-          "select id, created_at, user_id, submission_id, full_name, email, phone, position, message, resume_path, cv_path, status, metadata",
-          "from career_applications",
-          "where ($1::text is null or status = $1)",
-          "and ($2::text = '' or full_name ilike ('%' || $2 || '%') or email ilike ('%' || $2 || '%') or phone ilike ('%' || $2 || '%') or position ilike ('%' || $2 || '%'))",
-          "order by created_at desc",
+          careerSearchCte,
+          "select a.id, a.created_at, a.user_id, a.submission_id, a.full_name, a.email, a.phone, a.position, a.message,",
+          "a.resume_path, a.cv_path, a.status, a.metadata, a.resume_extracted_at, a.resume_extract_error, a.withdrawn_at,",
+          "a.stage_id, (select st.label from career_pipeline_stages st where st.id = a.stage_id) as stage_label,",
+          "a.candidate_id, (select count(*)::int from career_applications o where o.candidate_id = a.candidate_id and o.id <> a.id) as linked_applications,",
+          "case when $2::text <> '' and a.search_vector @@ search.tsq then ts_rank(a.search_vector, search.tsq) else 0 end as rank,",
+          "case when $2::text <> '' and a.resume_text is not null and a.search_vector @@ search.tsq",
+          "  then ts_headline('english', a.resume_text, search.tsq,",
+          "    'StartSel=\u27e6, StopSel=\u27e7, MaxWords=18, MinWords=6, MaxFragments=2, FragmentDelimiter=\" … \"')",
+          "end as snippet",
+          "from career_applications a, search",
+          careerSearchWhere,
+          "order by rank desc, a.created_at desc",
           "limit $3"
         ].join("\n"),
         [parsedStatus.data ?? null, q, limit]
@@ -481,7 +694,59 @@ adminRouter.get("/admin/careers", requireAuth, requireAdmin, async (req: AuthedR
   }
 });
 
-const updateCareerStatusSchema = z.object({ status: careerStatusSchema }).strict();
+const careerExportQuerySchema = z
+  .object({
+    format: z.enum(["csv", "xlsx"]).default("csv"),
+    q: z.string().trim().max(200).default(""),
+    status: careerStatusSchema.optional(),
+    // Comma-separated application ids to export only a selection.
+    ids: z
+      .string()
+      .regex(/^\d+(,\d+)*$/)
+      .transform((v) => v.split(",").map(Number))
+      .optional()
+  })
+  .strict();
+
+// GET /admin/careers/export?format=csv|xlsx → the applications matching the
+// list filters, including the metadata captured on the application form.
+adminRouter.get("/admin/careers/export", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = careerExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query<CareerExportRow>(
+      [
+        careerSearchCte,
+        `select ${CAREER_EXPORT_COLUMNS}`,
+        "from career_applications a, search",
+        careerSearchWhere,
+        "and ($3::bigint[] is null or a.id = any($3))",
+        "order by a.created_at desc",
+        "limit 5000"
+      ].join("\n"),
+      [parsed.data.status ?? null, parsed.data.q, parsed.data.ids ?? null]
+    );
+
+    const fileName = `career-applications-${new Date().toISOString().slice(0, 10)}.${parsed.data.format}`;
+    res.setHeader("Content-Disposition", `attachment; filename=${fileName}`);
+
+    if (parsed.data.format === "xlsx") {
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      await writeCareerApplicationsXlsx(rows, res);
+      return res.end();
+    }
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    return res.send(careerApplicationsCsv(rows));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const updateCareerStatusSchema = z.object({ status: careerStatusSchema, notify: z.boolean().optional() }).strict();
 
 adminRouter.patch("/admin/careers/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
   try {
@@ -493,13 +758,24 @@ adminRouter.patch("/admin/careers/:id", requireAuth, requireAdmin, async (req: A
       return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
     }
 
-    const rows = await query<{ id: number }>(
-      "update career_applications set status = $2 where id = $1 returning id",
-      [id, parsed.data.status]
-    );
+    const result = await setApplicationStatus({
+      applicationId: id,
+      status: parsed.data.status,
+      actorEmail: req.user?.email ?? null
+    });
 
-    if (!rows[0]?.id) return res.status(404).json({ ok: false, error: "Not found" });
-    return res.json({ ok: true });
+    if (!result) return res.status(404).json({ ok: false, error: "Not found" });
+
+    const email =
+      result.previousStatus !== parsed.data.status
+        ? await sendCareerStatusTemplate({
+            applicationId: id,
+            status: parsed.data.status,
+            notify: parsed.data.notify,
+            actorEmail: req.user?.email ?? null
+          })
+        : null;
+    return res.json({ ok: true, stage: result.stage, email });
   } catch (err) {
     return next(err);
   }
@@ -3,11 +3,19 @@ import { z } from "zod";
 import crypto from "crypto";
 
 import { env } from "../lib/env.js";
-import { query } from "../lib/db.js";
+import { pool, query } from "../lib/db.js";
 import { requireAuth, type AuthedRequest } from "../middleware/auth.js";
 import { HttpError } from "../middleware/errorHandler.js";
 import { getResumesBucketId, getSupabaseAdmin } from "../lib/supabase.js";
 import { getSchemaStatus } from "../lib/schema.js";
+import { addApplicationEvent, pipelineStageFilter, sendInterviewInvite } from "../lib/hiring.js";
+import { sendCareerCandidateUpdateEmail } from "../lib/email/resend.js";
+import { JOB_OPENING_COLUMNS, type JobOpening } from "../lib/jobOpenings.js";
+import { candidateMatchKeys } from "../lib/candidates.js";
+import { indexApplicationResume } from "../lib/resumeText.js";
+import { resolveReferralCode } from "../lib/referrals.js";
+import { logger } from "../lib/logger.js";
+import { parseId, safeBaseName } from "../lib/params.js";
 
 export const careersRouter = Router();
 
@@ -30,17 +38,6 @@ function fileExtensionForMime(mime: string) {
   }
 }
 
-function safeBaseName(input: string) {
-  const base = input.split("/").pop()?.split("\\").pop() ?? "file";
-  const noExt = base.replace(/\.[^.]+$/, "");
-  const cleaned = noExt
-    .replace(/[^a-zA-Z0-9._-]+/g, "-")
-    .replace(/-+/g, "-")
-    .replace(/^[-.]+|[-.]+$/g, "")
-    .slice(0, 60);
-  return cleaned || "file";
-}
-
 const createUploadUrlSchema = z
   .object({
     kind: z.enum(["resume", "cv"]),
@@ -103,12 +100,30 @@ careersRouter.post("/upload-url", requireAuth, async (req: AuthedRequest, res, n
   }
 });
 
+// Public list of roles currently accepting applications.
+careersRouter.get("/openings", async (_req, res, next) => {
+  try {
+    const rows = await query<JobOpening>(
+      [
+        `select ${JOB_OPENING_COLUMNS}`,
+        "from job_openings o",
+        "where o.status = 'open'",
+        "order by o.sort_order, o.title"
+      ].join("\n")
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
 const applySchema = z
   .object({
     fullName: z.string().min(2).max(120),
     email: z.string().email().max(254),
     phone: z.string().min(8).max(20),
-    position: z.string().min(2).max(120),
+    openingId: z.number().int().positive(),
     linkedinUrl: z.string().url().max(500),
     whyHireYou: z.string().min(10).max(5000),
     message: z.string().max(5000).optional(),
@@ -119,7 +134,8 @@ const applySchema = z
     resumePath: z.string().min(1).max(800),
     cvPath: z.string().max(800).optional(),
 
-    honeypot: z.string().max(200).optional()
+    honeypot: z.string().max(200).optional(),
+    referralCode: z.string().trim().max(32).optional()
   })
   .strict();
 
@@ -152,6 +168,14 @@ careersRouter.post("/apply", requireAuth, async (req: AuthedRequest, res, next)
       return res.json({ ok: true });
     }
 
+    const openings = await query<{ id: number; title: string; status: string }>(
+      "select id, title, status from job_openings where id = $1",
+      [parsed.data.openingId]
+    );
+    const opening = openings[0];
+    if (!opening) throw new HttpError(400, "Unknown role", true);
+    if (opening.status !== "open") throw new HttpError(400, "This role is no longer accepting applications", true);
+
     const email = parsed.data.email.toLowerCase();
 
     // Ensure uploaded paths (if present) are scoped to this user.
@@ -172,7 +196,8 @@ careersRouter.post("/apply", requireAuth, async (req: AuthedRequest, res, next)
       fullName: parsed.data.fullName,
       email,
       phone: parsed.data.phone,
-      position: parsed.data.position,
+      position: opening.title,
+      openingId: opening.id,
       linkedinUrl: parsed.data.linkedinUrl,
       whyHireYou: parsed.data.whyHireYou,
       message: parsed.data.message ?? null,
@@ -182,19 +207,32 @@ careersRouter.post("/apply", requireAuth, async (req: AuthedRequest, res, next)
       cvPath: parsed.data.cvPath ?? null
     };
 
+    const referralCodeId = await resolveReferralCode(pool, { code: parsed.data.referralCode, userId, email });
+
     const submissionRows = await query<{ id: number }>(
-      "insert into submissions (user_id, supabase_uid, type, data) values ($1,$2,'career',$3) returning id",
-      [userId, supabaseUid, submissionData]
+      "insert into submissions (user_id, supabase_uid, type, data, referral_code_id) values ($1,$2,'career',$3,$4) returning id",
+      [userId, supabaseUid, submissionData, referralCodeId]
     );
 
     const submissionId = submissionRows[0]?.id;
 
+    const matchKeys = candidateMatchKeys({
+      fullName: parsed.data.fullName,
+      email,
+      phone: parsed.data.phone,
+      linkedinUrl: parsed.data.linkedinUrl
+    });
+
     let applicationId: number | undefined;
     try {
       const appRows = await query<{ id: number }>(
         [
-          "insert into career_applications (user_id, submission_id, full_name, email, phone, position, message, resume_path, cv_path, status, metadata)",
-          "values ($1,$2,$3,$4,$5,$6,$7,$8,$9,'new',$10)",
+          "insert into career_applications (user_id, submission_id, full_name, email, phone, position, message, resume_path, cv_path, status, metadata, opening_id,",
+          "email_key, phone_key, linkedin_key, name_key, stage_id)",
+          "values ($1,$2,$3,$4,$5,$6,$7,$8,$9,'new',$10,$11,$12,$13,$14,$15,(",
+          `  select st.id from career_pipeline_stages st where ${pipelineStageFilter("$6")}`,
+          "  order by (st.maps_to_status = 'new') desc, st.sort_order, st.id limit 1",
+          "))",
           "returning id"
         ].join("\n"),
         [
@@ -203,7 +241,7 @@ careersRouter.post("/apply", requireAuth, async (req: AuthedRequest, res, next)
           parsed.data.fullName,
           email,
           parsed.data.phone,
-          parsed.data.position,
+          opening.title,
           parsed.data.message ?? null,
           parsed.data.resumePath ?? null,
           parsed.data.cvPath ?? null,
@@ -212,10 +250,20 @@ careersRouter.post("/apply", requireAuth, async (req: AuthedRequest, res, next)
             portfolioUrl: parsed.data.portfolioUrl ?? null,
             linkedinUrl: parsed.data.linkedinUrl,
             whyHireYou: parsed.data.whyHireYou
-          }
+          },
+          opening.id,
+          matchKeys.email_key,
+          matchKeys.phone_key,
+          matchKeys.linkedin_key,
+          matchKeys.name_key
         ]
       );
       applicationId = appRows[0]?.id;
+
+      if (applicationId && parsed.data.resumePath) {
+        const id = applicationId;
+        void indexApplicationResume(id).catch((err) => logger.warn({ err, applicationId: id }, "Resume text extraction failed"));
+      }
     } catch (err: any) {
       if (err?.code !== "42P01") throw err;
 
@@ -230,7 +278,7 @@ careersRouter.post("/apply", requireAuth, async (req: AuthedRequest, res, next)
           email,
           parsed.data.phone,
           parsed.data.experience ?? null,
-          parsed.data.position,
+          opening.title,
           parsed.data.resumePath
         ]
       );
@@ -250,3 +298,203 @@ careersRouter.post("/apply", requireAuth, async (req: AuthedRequest, res, next)
     return next(err);
   }
 });
+
+// ── Candidate self-service ────────────────────────────────────────────────────
+// Applications are scoped by the submission's supabase_uid, exactly like
+// GET /submissions, never by the shared local user id.
+
+type OwnApplication = {
+  id: number;
+  full_name: string;
+  email: string;
+  position: string;
+  status: string;
+  withdrawn_at: string | null;
+  submission_id: number | null;
+};
+
+async function loadOwnApplication(req: AuthedRequest, rawId: string) {
+  if (!req.user) throw new HttpError(401, "Unauthorized", true);
+  const id = parseId(rawId, "application");
+
+  const rows = await query<OwnApplication>(
+    [
+      "select a.id, a.full_name, a.email, a.position, a.status, a.withdrawn_at, a.submission_id",
+      "from career_applications a",
+      "join submissions s on s.id = a.submission_id",
+      "where a.id = $1 and s.supabase_uid = $2"
+    ].join("\n"),
+    [id, req.user.id]
+  );
+  if (!rows[0]) throw new HttpError(404, "Application not found", true);
+  return rows[0];
+}
+
+function notifyAdmin(app: OwnApplication, update: "replied" | "resume_replaced" | "withdrawn", details: string | null) {
+  void sendCareerCandidateUpdateEmail({
+    candidateName: app.full_name,
+    candidateEmail: app.email,
+    position: app.position,
+    applicationId: app.id,
+    update,
+    details
+  }).catch((err) => logger.warn({ err, applicationId: app.id }, "Failed to send candidate update email"));
+}
+
+// The signed-in candidate's applications with their status history and any
+// open questions from the team. Internal stage names and notes are not shown.
+careersRouter.get("/applications", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user) throw new HttpError(401, "Unauthorized", true);
+
+    const rows = await query(
+      [
+        "select a.id, a.submission_id, a.created_at, a.position, a.status, a.withdrawn_at, a.withdrawal_reason,",
+        "a.resume_path,",
+        "coalesce((",
+        "  select json_agg(json_build_object('id', e.id, 'created_at', e.created_at, 'kind', e.kind, 'to_status', e.to_status)",
+        "    order by e.created_at, e.id)",
+        "  from career_application_events e",
+        "  where e.application_id = a.id",
+        "  and (e.kind in ('withdrawn','resume_replaced') or (e.kind = 'stage_changed' and e.to_status is not null))",
+        "), '[]'::json) as history,",
+        "coalesce((",
+        "  select json_agg(json_build_object('id', r.id, 'created_at', r.created_at, 'question', r.question,",
+        "    'response', r.response, 'responded_at', r.responded_at) order by r.created_at, r.id)",
+        "  from career_info_requests r where r.application_id = a.id",
+        "), '[]'::json) as info_requests",
+        "from career_applications a",
+        "join submissions s on s.id = a.submission_id",
+        "where s.supabase_uid = $1",
+        "order by a.created_at desc",
+        "limit 100"
+      ].join("\n"),
+      [req.user.id]
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const withdrawSchema = z.object({ reason: z.string().trim().max(1000).optional() }).strict();
+
+careersRouter.post("/applications/:id/withdraw", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = withdrawSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const app = await loadOwnApplication(req, req.params.id);
+    if (app.withdrawn_at) throw new HttpError(400, "This application was already withdrawn", true);
+    if (app.status === "hired" || app.status === "rejected") {
+      throw new HttpError(400, "This application is already closed", true);
+    }
+
+    const reason = parsed.data.reason || null;
+    await query("update career_applications set withdrawn_at = now(), withdrawal_reason = $2 where id = $1", [app.id, reason]);
+    await addApplicationEvent({ applicationId: app.id, kind: "withdrawn", note: reason, actorEmail: app.email });
+
+    // Cancel upcoming interviews and let calendars know.
+    const cancelled = await query<{ id: number; invite_sent_at: string | null }>(
+      [
+        "update career_interviews set status = 'cancelled', updated_at = now()",
+        "where application_id = $1 and status = 'scheduled' and scheduled_at > now()",
+        "returning id, invite_sent_at"
+      ].join("\n"),
+      [app.id]
+    );
+    for (const interview of cancelled.filter((i) => i.invite_sent_at)) {
+      void sendInterviewInvite(interview.id, { method: "CANCEL", updated: true }).catch((err) =>
+        logger.warn({ err, interviewId: interview.id }, "Failed to send interview cancellation")
+      );
+    }
+
+    notifyAdmin(app, "withdrawn", reason);
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const replaceResumeSchema = z.object({ resumePath: z.string().min(1).max(800) }).strict();
+
+// Swap in a new resume (uploaded via POST /upload-url) while nobody has
+// started reviewing the application.
+careersRouter.post("/applications/:id/resume", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = replaceResumeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const app = await loadOwnApplication(req, req.params.id);
+    if (app.withdrawn_at) throw new HttpError(400, "This application was withdrawn", true);
+    if (app.status !== "new") {
+      throw new HttpError(400, "Your application is already being reviewed; the resume can no longer be replaced", true);
+    }
+
+    const userId = req.user?.sub;
+    if (!Number.isFinite(userId)) throw new HttpError(401, "Unauthorized", true);
+    if (!parsed.data.resumePath.startsWith(`career/${userId}/`)) throw new HttpError(400, "Invalid resume upload path", true);
+
+    await query(
+      [
+        "update career_applications set resume_path = $2,",
+        "resume_text = null, resume_extracted_at = null, resume_extract_error = null",
+        "where id = $1"
+      ].join("\n"),
+      [app.id, parsed.data.resumePath]
+    );
+    if (app.submission_id) {
+      await query(
+        "update submissions set data = jsonb_set(data, '{resumePath}', to_jsonb($1::text), true) where id = $2",
+        [parsed.data.resumePath, app.submission_id]
+      );
+    }
+    await addApplicationEvent({ applicationId: app.id, kind: "resume_replaced", actorEmail: app.email });
+
+    void indexApplicationResume(app.id).catch((err) =>
+      logger.warn({ err, applicationId: app.id }, "Resume text extraction failed")
+    );
+    notifyAdmin(app, "resume_replaced", null);
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const replySchema = z.object({ response: z.string().trim().min(1).max(5000) }).strict();
+
+careersRouter.post("/applications/:id/info-requests/:requestId/reply", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = replySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const app = await loadOwnApplication(req, req.params.id);
+    const requestId = parseId(req.params.requestId, "request");
+    if (app.withdrawn_at) throw new HttpError(400, "This application was withdrawn", true);
+
+    const rows = await query<{ id: number; question: string }>(
+      [
+        "update career_info_requests set response = $3, responded_at = now()",
+        "where id = $1 and application_id = $2 and responded_at is null",
+        "returning id, question"
+      ].join("\n"),
+      [requestId, app.id, parsed.data.response]
+    );
+    if (!rows[0]) throw new HttpError(404, "Question not found or already answered", true);
+
+    await addApplicationEvent({ applicationId: app.id, kind: "info_replied", note: parsed.data.response, actorEmail: app.email });
+    notifyAdmin(app, "replied", `Q: ${rows[0].question}\n\nA: ${parsed.data.response}`);
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
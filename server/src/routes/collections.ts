@@ -0,0 +1,258 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import { query, withTransaction } from "../lib/db.js";
+import { describeContentIssue } from "../lib/cmsBlocks.js";
+import { parseId } from "../lib/params.js";
+import {
+  collectionDataSchemas,
+  CONTENT_COLLECTION_ITEM_COLUMNS,
+  CONTENT_COLLECTIONS,
+  parseCollection,
+  type ContentCollection,
+  type ContentCollectionItem
+} from "../lib/contentCollections.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+// Admin CRUD for the marketing content collections. The public read endpoint
+// lives in the content router (GET /api/content/collections/:collection).
+export const collectionsRouter = Router();
+
+function collectionParam(raw: string) {
+  const collection = parseCollection(raw);
+  if (!collection) throw new HttpError(404, "Unknown collection", true);
+  return collection;
+}
+
+// Validates item data against its collection; throws a 400 naming the first
+// bad field, as PUT /admin/content does for blocks.
+function parseItemData(collection: ContentCollection, data: unknown) {
+  const parsed = collectionDataSchemas[collection].safeParse(data);
+  if (!parsed.success) throw new HttpError(400, `Invalid item: ${describeContentIssue(parsed.error)}`, true);
+  return parsed.data;
+}
+
+// Admin: GET /api/admin/collections
+// Item counts per collection, for the editor's tabs.
+collectionsRouter.get("/admin/collections", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
+  try {
+    const rows = await query<{ collection: ContentCollection; total: number; published: number }>(
+      [
+        "select collection, count(*)::int as total, count(*) filter (where is_published)::int as published",
+        "from content_collection_items",
+        "group by collection"
+      ].join("\n")
+    );
+    const counts = new Map(rows.map((r) => [r.collection, r]));
+    const items = CONTENT_COLLECTIONS.map((collection) => ({
+      collection,
+      total: counts.get(collection)?.total ?? 0,
+      published: counts.get(collection)?.published ?? 0
+    }));
+
+    return res.json({ ok: true, items });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: GET /api/admin/collections/:collection
+// Every item in display order, including unpublished ones.
+collectionsRouter.get("/admin/collections/:collection", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const collection = collectionParam(req.params.collection);
+    const items = await query<ContentCollectionItem>(
+      [
+        `select ${CONTENT_COLLECTION_ITEM_COLUMNS}`,
+        "from content_collection_items",
+        "where collection = $1",
+        "order by sort_order, id"
+      ].join("\n"),
+      [collection]
+    );
+
+    return res.json({ ok: true, items });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const itemSchema = z
+  .object({
+    data: z.unknown(),
+    isPublished: z.boolean().default(true)
+  })
+  .strict();
+
+// Admin: POST /api/admin/collections/:collection
+// Adds an item at the end of the collection.
+collectionsRouter.post("/admin/collections/:collection", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const collection = collectionParam(req.params.collection);
+    const parsed = itemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+    const data = parseItemData(collection, parsed.data.data);
+
+    const rows = await query<ContentCollectionItem>(
+      [
+        "insert into content_collection_items (collection, data, is_published, sort_order, updated_by_email)",
+        "values ($1, $2, $3, (select coalesce(max(sort_order), -1) + 1 from content_collection_items where collection = $1), $4)",
+        `returning ${CONTENT_COLLECTION_ITEM_COLUMNS}`
+      ].join("\n"),
+      [collection, data, parsed.data.isPublished, req.user?.email ?? null]
+    );
+
+    return res.json({ ok: true, item: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const importSchema = z
+  .object({
+    items: z.array(z.unknown()).min(1).max(50)
+  })
+  .strict();
+
+// Admin: POST /api/admin/collections/:collection/import
+// Seeds an empty collection in one go (the editor sends the site's built-in
+// fallback content), so admins start from what is live instead of retyping it.
+collectionsRouter.post(
+  "/admin/collections/:collection/import",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthedRequest, res, next) => {
+    try {
+      const collection = collectionParam(req.params.collection);
+      const parsed = importSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+      }
+      const items = parsed.data.items.map((data) => parseItemData(collection, data));
+
+      const inserted = await withTransaction(async (db) => {
+        // Serialize imports per collection so two clicks cannot both seed it.
+        await db.query("select pg_advisory_xact_lock(hashtext('content_collection:' || $1))", [collection]);
+        const existing = await db.query("select 1 from content_collection_items where collection = $1 limit 1", [collection]);
+        if (existing.rows[0]) throw new HttpError(409, "This collection already has items", true);
+
+        const rows: ContentCollectionItem[] = [];
+        for (const [index, data] of items.entries()) {
+          const r = await db.query<ContentCollectionItem>(
+            [
+              "insert into content_collection_items (collection, data, is_published, sort_order, updated_by_email)",
+              "values ($1,$2,true,$3,$4)",
+              `returning ${CONTENT_COLLECTION_ITEM_COLUMNS}`
+            ].join("\n"),
+            [collection, data, index, req.user?.email ?? null]
+          );
+          rows.push(r.rows[0]);
+        }
+        return rows;
+      });
+
+      return res.json({ ok: true, items: inserted });
+    } catch (err) {
+      return next(err);
+    }
+  }
+);
+
+const reorderSchema = z
+  .object({
+    ids: z.array(z.number().int().positive()).min(1).max(500)
+  })
+  .strict();
+
+// Admin: PUT /api/admin/collections/:collection/order
+// Sets sort_order from the position of each id in `ids`, which must list every
+// item in the collection exactly once.
+collectionsRouter.put("/admin/collections/:collection/order", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const collection = collectionParam(req.params.collection);
+    const parsed = reorderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+    const ids = parsed.data.ids;
+
+    await withTransaction(async (db) => {
+      const current = await db.query<{ id: number }>(
+        "select id from content_collection_items where collection = $1 for update",
+        [collection]
+      );
+      const known = new Set(current.rows.map((r) => Number(r.id)));
+      if (new Set(ids).size !== ids.length || ids.length !== known.size || ids.some((id) => !known.has(id))) {
+        throw new HttpError(409, "The collection changed since it was loaded; reload and try again", true);
+      }
+
+      await db.query(
+        [
+          "update content_collection_items c set sort_order = o.ord - 1, updated_at = now()",
+          "from unnest($2::bigint[]) with ordinality as o(id, ord)",
+          "where c.id = o.id and c.collection = $1"
+        ].join("\n"),
+        [collection, ids]
+      );
+    });
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: PUT /api/admin/collections/:collection/:id
+// Replaces an item's data and published flag; its position is kept.
+collectionsRouter.put("/admin/collections/:collection/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const collection = collectionParam(req.params.collection);
+    const id = parseId(req.params.id, "item");
+    const parsed = itemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+    const data = parseItemData(collection, parsed.data.data);
+
+    const rows = await query<ContentCollectionItem>(
+      [
+        "update content_collection_items",
+        "set data = $3, is_published = $4, updated_by_email = $5, updated_at = now()",
+        "where id = $1 and collection = $2",
+        `returning ${CONTENT_COLLECTION_ITEM_COLUMNS}`
+      ].join("\n"),
+      [id, collection, data, parsed.data.isPublished, req.user?.email ?? null]
+    );
+    if (!rows[0]) throw new HttpError(404, "Item not found", true);
+
+    return res.json({ ok: true, item: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: DELETE /api/admin/collections/:collection/:id
+collectionsRouter.delete(
+  "/admin/collections/:collection/:id",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthedRequest, res, next) => {
+    try {
+      const collection = collectionParam(req.params.collection);
+      const id = parseId(req.params.id, "item");
+
+      const rows = await query<{ id: number }>(
+        "delete from content_collection_items where id = $1 and collection = $2 returning id",
+        [id, collection]
+      );
+      if (!rows[0]) throw new HttpError(404, "Item not found", true);
+
+      return res.json({ ok: true });
+    } catch (err) {
+      return next(err);
+    }
+  }
+);
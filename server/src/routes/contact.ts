@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { contactMessageSchema } from "./schemas.js";
 import { insertContactMessage } from "../lib/db.js";
+import { createLeadForSubmission } from "../lib/leads.js";
 
 export const contactRoutes = Router();
 
@@ -11,7 +12,8 @@ contactRoutes.post("/", async (req, res) => {
       return res.status(400).json({ success: false, error: "Invalid request", details: parsed.error.flatten() });
     }
 
-    await insertContactMessage(parsed.data);
+    const submissionId = await insertContactMessage(parsed.data);
+    await createLeadForSubmission({ submissionId, data: parsed.data }).catch(() => undefined);
 
     return res.json({ success: true });
   } catch (_err) {
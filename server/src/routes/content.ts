@@ -2,17 +2,23 @@ import express from "express";
 import { z } from "zod";
 
 import { query } from "../lib/db.js";
+import { sanitizeContentValue } from "../lib/cmsBlocks.js";
+import { parseCollection } from "../lib/contentCollections.js";
+import { filterScheduledBlocks, verifyPreviewToken } from "../lib/siteContent.js";
 
 export const contentRouter = express.Router();
 
 const getContentQuerySchema = z
   .object({
-    keys: z.string().optional()
+    keys: z.string().optional(),
+    // Preview token from the admin editor; swaps in that key's draft.
+    preview: z.string().max(1000).optional()
   })
   .strict();
 
-// Public: GET /api/content?keys=page.home,page.about
-// Returns site_content rows for the requested keys (or an empty list).
+// Public: GET /api/content?keys=page.home,page.about[&preview=TOKEN]
+// Returns published site_content rows for the requested keys (or an empty list).
+// Keys and blocks outside their publish/unpublish window are left out.
 contentRouter.get("/", async (req, res, next) => {
   try {
     const parsed = getContentQuerySchema.safeParse(req.query);
@@ -32,10 +38,30 @@ contentRouter.get("/", async (req, res, next) => {
     let rows: any[] = [];
     if (keys.length) {
       try {
+        const previewKey = parsed.data.preview ? verifyPreviewToken(parsed.data.preview) : null;
         rows = await query(
-          "select key, value, updated_at from site_content where key = any($1) order by key asc",
-          [keys]
+          [
+            "select key, case when key = $2 then coalesce(draft_value, value) else value end as value,",
+            "  case when key = $2 then coalesce(draft_updated_at, updated_at) else updated_at end as updated_at,",
+            "  (key = $2 and draft_value is not null) as preview",
+            "from site_content",
+            "where key = any($1) and (",
+            "  key = $2 or (",
+            "    value is not null",
+            "    and (publish_at is null or publish_at <= now())",
+            "    and (unpublish_at is null or unpublish_at > now())",
+            "  )",
+            ")",
+            "order by key asc"
+          ].join("\n"),
+          [keys, previewKey]
         );
+        // Previews show every block, including ones scheduled for later. HTML is
+        // sanitized again here for rows saved before write-time sanitization.
+        rows = rows.map((row) => ({
+          ...row,
+          value: sanitizeContentValue(row.preview ? row.value : filterScheduledBlocks(row.value)).value
+        }));
       } catch (dbErr: any) {
         // Gracefully handle missing table (schema not yet applied) — return empty list.
         const code = dbErr?.code ?? dbErr?.message ?? "";
@@ -55,3 +81,38 @@ contentRouter.get("/", async (req, res, next) => {
     return next(err);
   }
 });
+
+// Public: GET /api/content/collections/services
+// Published items of a marketing collection in display order. An empty list
+// means the site falls back to its built-in content.
+contentRouter.get("/collections/:collection", async (req, res, next) => {
+  try {
+    const collection = parseCollection(req.params.collection);
+    if (!collection) return res.status(404).json({ ok: false, error: "Unknown collection" });
+
+    let rows: any[] = [];
+    try {
+      rows = await query(
+        [
+          "select id, data",
+          "from content_collection_items",
+          "where collection = $1 and is_published",
+          "order by sort_order, id"
+        ].join("\n"),
+        [collection]
+      );
+    } catch (dbErr: any) {
+      // Same as above: before the migration runs, serve the fallback.
+      const code = dbErr?.code ?? dbErr?.message ?? "";
+      if (String(code).includes("42P01") || String(dbErr?.message ?? "").toLowerCase().includes("does not exist")) {
+        rows = [];
+      } else {
+        throw dbErr;
+      }
+    }
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
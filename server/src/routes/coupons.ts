@@ -0,0 +1,219 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import { pool, query } from "../lib/db.js";
+import { ACTIVE_REDEMPTION_SQL, evaluateCoupon, normalizeCouponCode } from "../lib/coupons.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const couponsRouter = Router();
+
+const validateCouponSchema = z
+  .object({
+    code: z.string().trim().min(1).max(40),
+    pricingId: z.number().int().positive(),
+    email: z.string().email().max(254)
+  })
+  .strict();
+
+// Public: POST /api/coupons/validate
+// Preview a coupon at checkout. POST /orders re-validates before charging.
+couponsRouter.post("/coupons/validate", async (req, res, next) => {
+  try {
+    const parsed = validateCouponSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const pricingRows = await query<{ service_key: string; price_inr: number; is_active: boolean }>(
+      "select service_key, price_inr, is_active from services_pricing where id = $1 limit 1",
+      [parsed.data.pricingId]
+    );
+    const pricing = pricingRows[0];
+    if (!pricing || !pricing.is_active) throw new HttpError(400, "Pricing plan not available", true);
+
+    const result = await evaluateCoupon(pool, {
+      code: parsed.data.code,
+      serviceKey: pricing.service_key,
+      priceInr: pricing.price_inr,
+      email: parsed.data.email
+    });
+
+    return res.json({
+      ok: true,
+      code: result.coupon.code,
+      discountInr: result.discountInr,
+      finalPriceInr: result.finalPriceInr
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Admin CRUD ────────────────────────────────────────────────────────────────
+const optionalDate = z.preprocess(
+  (v) => (v === "" ? null : v),
+  z.string().datetime({ offset: true }).nullable().optional()
+);
+
+const couponFieldsSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3)
+    .max(40)
+    .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, - or _"),
+  description: z.string().max(300).nullable().optional(),
+  discountType: z.enum(["percent", "flat"]),
+  discountValue: z.number().int().positive(),
+  serviceKey: z.string().min(1).max(120).nullable().optional(),
+  minOrderInr: z.number().int().positive().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  maxPerEmail: z.number().int().positive().nullable().optional(),
+  startsAt: optionalDate,
+  endsAt: optionalDate,
+  isActive: z.boolean().optional()
+});
+
+function refineCoupon<T extends z.ZodType<Partial<z.infer<typeof couponFieldsSchema>>>>(schema: T) {
+  return schema.superRefine((v, ctx) => {
+    if (v.discountType === "percent" && v.discountValue !== undefined && v.discountValue > 100) {
+      ctx.addIssue({ code: "custom", path: ["discountValue"], message: "Percentage cannot exceed 100" });
+    }
+    if (v.startsAt && v.endsAt && new Date(v.startsAt) >= new Date(v.endsAt)) {
+      ctx.addIssue({ code: "custom", path: ["endsAt"], message: "End date must be after start date" });
+    }
+  });
+}
+
+const createCouponSchema = refineCoupon(couponFieldsSchema.strict());
+const updateCouponSchema = refineCoupon(couponFieldsSchema.partial().strict());
+
+couponsRouter.get("/admin/coupons", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
+  try {
+    const rows = await query(
+      [
+        "select c.id, c.created_at, c.updated_at, c.code, c.description, c.discount_type, c.discount_value, c.service_key,",
+        "c.min_order_inr, c.max_redemptions, c.max_per_email, c.starts_at, c.ends_at, c.is_active,",
+        "count(r.id) filter (where o.payment_status = 'paid')::int as paid_redemptions,",
+        `count(r.id) filter (where ${ACTIVE_REDEMPTION_SQL})::int as active_redemptions,`,
+        "coalesce(sum(r.discount_inr) filter (where o.payment_status = 'paid'), 0)::int as total_discount_inr",
+        "from coupons c",
+        "left join coupon_redemptions r on r.coupon_id = c.id",
+        "left join orders o on o.id = r.order_id",
+        "group by c.id",
+        "order by c.created_at desc"
+      ].join("\n")
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+couponsRouter.post("/admin/coupons", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = createCouponSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const input = parsed.data;
+    const rows = await query<{ id: number }>(
+      [
+        "insert into coupons (code, description, discount_type, discount_value, service_key, min_order_inr,",
+        "max_redemptions, max_per_email, starts_at, ends_at, is_active)",
+        "values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)",
+        "on conflict (code) do nothing",
+        "returning id"
+      ].join("\n"),
+      [
+        normalizeCouponCode(input.code),
+        input.description ?? null,
+        input.discountType,
+        input.discountValue,
+        input.serviceKey ?? null,
+        input.minOrderInr ?? null,
+        input.maxRedemptions ?? null,
+        input.maxPerEmail ?? null,
+        input.startsAt ?? null,
+        input.endsAt ?? null,
+        input.isActive ?? true
+      ]
+    );
+
+    if (!rows[0]?.id) throw new HttpError(409, "A coupon with this code already exists", true);
+    return res.json({ ok: true, id: rows[0].id });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const couponColumnByField: Record<string, string> = {
+  code: "code",
+  description: "description",
+  discountType: "discount_type",
+  discountValue: "discount_value",
+  serviceKey: "service_key",
+  minOrderInr: "min_order_inr",
+  maxRedemptions: "max_redemptions",
+  maxPerEmail: "max_per_email",
+  startsAt: "starts_at",
+  endsAt: "ends_at",
+  isActive: "is_active"
+};
+
+couponsRouter.patch("/admin/coupons/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id)) return res.status(400).json({ ok: false, error: "Invalid id" });
+
+    const parsed = updateCouponSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const entries = Object.entries(parsed.data).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return res.status(400).json({ ok: false, error: "Nothing to update" });
+
+    const sets = entries.map(([field], i) => `${couponColumnByField[field]} = $${i + 2}`);
+    const values = entries.map(([field, v]) => (field === "code" ? normalizeCouponCode(String(v)) : v));
+
+    const rows = await query<{ id: number }>(
+      `update coupons set ${sets.join(", ")}, updated_at = now() where id = $1 returning id`,
+      [id, ...values]
+    );
+
+    if (!rows[0]?.id) return res.status(404).json({ ok: false, error: "Not found" });
+    return res.json({ ok: true });
+  } catch (err: any) {
+    if (err?.code === "23505") return next(new HttpError(409, "A coupon with this code already exists", true));
+    if (err?.code === "23514") return next(new HttpError(400, "Percentage cannot exceed 100", true));
+    return next(err);
+  }
+});
+
+// Coupons with redemptions are deactivated instead of deleted so orders keep their history.
+couponsRouter.delete("/admin/coupons/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id)) return res.status(400).json({ ok: false, error: "Invalid id" });
+
+    const used = await query<{ n: string }>("select count(*)::text as n from coupon_redemptions where coupon_id = $1", [id]);
+    if (Number(used[0]?.n ?? 0) > 0) {
+      const rows = await query<{ id: number }>(
+        "update coupons set is_active = false, updated_at = now() where id = $1 returning id",
+        [id]
+      );
+      if (!rows[0]?.id) return res.status(404).json({ ok: false, error: "Not found" });
+      return res.json({ ok: true, deactivated: true });
+    }
+
+    const deleted = await query<{ id: number }>("delete from coupons where id = $1 returning id", [id]);
+    if (!deleted[0]?.id) return res.status(404).json({ ok: false, error: "Not found" });
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
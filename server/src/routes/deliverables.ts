@@ -0,0 +1,420 @@
+import { Router } from "express";
+import { z } from "zod";
+import crypto from "crypto";
+
+import { env } from "../lib/env.js";
+import { query, withTransaction } from "../lib/db.js";
+import { logger } from "../lib/logger.js";
+import { changeProjectStatus } from "../lib/projectStatus.js";
+import { getPrivateBucketId, getSupabaseAdmin } from "../lib/supabase.js";
+import { sendDeliverableReadyEmail, sendDeliverableReviewedEmail } from "../lib/email/resend.js";
+import { parseId, safeBaseName } from "../lib/params.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const deliverablesRouter = Router();
+
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// Each deliverable with its versions, newest first.
+const deliverableSelect = [
+  "select d.id, d.created_at, d.updated_at, d.order_id, d.title, d.description, d.status, d.client_note,",
+  "d.approved_at, d.approved_by_email,",
+  "coalesce((",
+  "  select json_agg(json_build_object(",
+  "    'id', v.id, 'created_at', v.created_at, 'version', v.version, 'file_name', v.file_name,",
+  "    'file_type', v.file_type, 'file_size', v.file_size, 'notes', v.notes, 'uploaded_by_email', v.uploaded_by_email",
+  "  ) order by v.version desc)",
+  "  from order_deliverable_versions v where v.deliverable_id = d.id",
+  "), '[]'::json) as versions",
+  "from order_deliverables d"
+].join("\n");
+
+// Deliverables can be any format (design files, builds, archives), so keep
+// the original extension when it looks sane.
+function safeExtension(fileName: string) {
+  const match = /\.([a-zA-Z0-9]{1,10})$/.exec(fileName);
+  return match ? match[1]!.toLowerCase() : "bin";
+}
+
+function uploadPrefix(orderId: number) {
+  return `deliverables/order-${orderId}/`;
+}
+
+async function loadOrder(orderId: number) {
+  const rows = await query<{ id: number; name: string; email: string; project_status: string }>(
+    "select id, name, email, project_status from orders where id = $1 limit 1",
+    [orderId]
+  );
+  return rows[0];
+}
+
+async function loadDeliverables(orderId: number) {
+  return query(`${deliverableSelect} where d.order_id = $1 order by d.created_at, d.id`, [orderId]);
+}
+
+// Deliverables on an order the signed-in client owns (orders belong to the checkout email).
+async function loadClientDeliverable(req: AuthedRequest, deliverableId: number) {
+  if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+
+  const rows = await query<{ id: number; order_id: number; title: string; status: string; email: string }>(
+    [
+      "select d.id, d.order_id, d.title, d.status, o.email",
+      "from order_deliverables d join orders o on o.id = d.order_id",
+      "where d.id = $1 limit 1"
+    ].join("\n"),
+    [deliverableId]
+  );
+  const deliverable = rows[0];
+  if (!deliverable || deliverable.email.toLowerCase() !== req.user.email.toLowerCase()) {
+    throw new HttpError(404, "Deliverable not found", true);
+  }
+  return deliverable;
+}
+
+const fileSchema = z
+  .object({
+    path: z.string().min(1).max(800),
+    name: z.string().min(1).max(200),
+    type: z.string().min(1).max(120),
+    size: z.number().int().positive()
+  })
+  .strict();
+
+const createUploadUrlSchema = z
+  .object({
+    fileName: z.string().min(1).max(200),
+    fileType: z.string().min(1).max(120),
+    fileSize: z.number().int().positive()
+  })
+  .strict();
+
+// ── Admin ─────────────────────────────────────────────────────────────────────
+// POST /api/admin/orders/:id/deliverables/upload-url
+// Signed upload URL into the private bucket, scoped to the order's folder.
+deliverablesRouter.post(
+  "/admin/orders/:id/deliverables/upload-url",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthedRequest, res, next) => {
+    try {
+      const orderId = parseId(req.params.id, "order");
+
+      const parsed = createUploadUrlSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+      }
+
+      const { fileName, fileSize } = parsed.data;
+      if (fileSize > env.DELIVERABLE_UPLOAD_MAX_BYTES) {
+        throw new HttpError(400, `File too large. Max size is ${Math.floor(env.DELIVERABLE_UPLOAD_MAX_BYTES / (1024 * 1024))}MB.`, true);
+      }
+
+      if (!(await loadOrder(orderId))) throw new HttpError(404, "Order not found", true);
+
+      const now = new Date();
+      const yyyy = String(now.getUTCFullYear());
+      const mm = String(now.getUTCMonth() + 1).padStart(2, "0");
+      const dd = String(now.getUTCDate()).padStart(2, "0");
+
+      const rand = crypto.randomBytes(12).toString("hex");
+      const path = `${uploadPrefix(orderId)}${yyyy}-${mm}-${dd}/${safeBaseName(fileName)}-${rand}.${safeExtension(fileName)}`;
+
+      const supabase = getSupabaseAdmin();
+      const bucket = getPrivateBucketId();
+
+      const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+      if (error || !data) {
+        throw new HttpError(502, "Failed to create upload URL. Check Supabase Storage configuration.", true);
+      }
+
+      return res.json({ ok: true, bucket, path: data.path, token: data.token, signedUrl: data.signedUrl });
+    } catch (err) {
+      return next(err);
+    }
+  }
+);
+
+deliverablesRouter.get("/admin/orders/:id/deliverables", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const orderId = parseId(req.params.id, "order");
+    return res.json({ ok: true, items: await loadDeliverables(orderId) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const createDeliverableSchema = z
+  .object({
+    title: z.string().trim().min(2).max(160),
+    description: z.string().trim().max(2000).optional(),
+    notes: z.string().trim().max(2000).optional(),
+    file: fileSchema
+  })
+  .strict();
+
+deliverablesRouter.post("/admin/orders/:id/deliverables", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const orderId = parseId(req.params.id, "order");
+
+    const parsed = createDeliverableSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const order = await loadOrder(orderId);
+    if (!order) throw new HttpError(404, "Order not found", true);
+
+    const { title, description, notes, file } = parsed.data;
+    if (!file.path.startsWith(uploadPrefix(orderId))) throw new HttpError(400, "Invalid file path", true);
+
+    const deliverableId = await withTransaction(async (db) => {
+      const inserted = await db.query<{ id: number }>(
+        "insert into order_deliverables (order_id, title, description) values ($1,$2,$3) returning id",
+        [orderId, title, description || null]
+      );
+      const id = inserted.rows[0]!.id;
+      await db.query(
+        [
+          "insert into order_deliverable_versions",
+          "(deliverable_id, version, file_path, file_name, file_type, file_size, notes, uploaded_by_email)",
+          "values ($1,1,$2,$3,$4,$5,$6,$7)"
+        ].join("\n"),
+        [id, file.path, file.name, file.type, file.size, notes || null, req.user?.email ?? null]
+      );
+      return id;
+    });
+
+    void sendDeliverableReadyEmail({
+      to: order.email,
+      name: order.name,
+      orderId,
+      title,
+      version: 1,
+      notes: notes || null
+    }).catch((err) => logger.warn({ err, deliverableId }, "Deliverable email failed"));
+
+    const rows = await query(`${deliverableSelect} where d.id = $1`, [deliverableId]);
+    return res.status(201).json({ ok: true, deliverable: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const addVersionSchema = z
+  .object({
+    notes: z.string().trim().max(2000).optional(),
+    file: fileSchema
+  })
+  .strict();
+
+// A new version re-opens review, even if an earlier version was approved.
+deliverablesRouter.post("/admin/deliverables/:id/versions", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const deliverableId = parseId(req.params.id, "deliverable");
+
+    const parsed = addVersionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const result = await withTransaction(async (db) => {
+      const current = await db.query<{ order_id: number; title: string }>(
+        "select order_id, title from order_deliverables where id = $1 for update",
+        [deliverableId]
+      );
+      const deliverable = current.rows[0];
+      if (!deliverable) throw new HttpError(404, "Deliverable not found", true);
+
+      const { file, notes } = parsed.data;
+      if (!file.path.startsWith(uploadPrefix(deliverable.order_id))) throw new HttpError(400, "Invalid file path", true);
+
+      const versionRes = await db.query<{ version: number }>(
+        "select coalesce(max(version),0)::int + 1 as version from order_deliverable_versions where deliverable_id = $1",
+        [deliverableId]
+      );
+      const version = versionRes.rows[0]!.version;
+
+      await db.query(
+        [
+          "insert into order_deliverable_versions",
+          "(deliverable_id, version, file_path, file_name, file_type, file_size, notes, uploaded_by_email)",
+          "values ($1,$2,$3,$4,$5,$6,$7,$8)"
+        ].join("\n"),
+        [deliverableId, version, file.path, file.name, file.type, file.size, notes || null, req.user?.email ?? null]
+      );
+      await db.query(
+        [
+          "update order_deliverables set status = 'in_review', client_note = null,",
+          "approved_at = null, approved_by_email = null, updated_at = now()",
+          "where id = $1"
+        ].join("\n"),
+        [deliverableId]
+      );
+
+      return { ...deliverable, version, notes: notes || null };
+    });
+
+    const order = await loadOrder(result.order_id);
+    if (order) {
+      void sendDeliverableReadyEmail({
+        to: order.email,
+        name: order.name,
+        orderId: order.id,
+        title: result.title,
+        version: result.version,
+        notes: result.notes
+      }).catch((err) => logger.warn({ err, deliverableId }, "Deliverable email failed"));
+    }
+
+    const rows = await query(`${deliverableSelect} where d.id = $1`, [deliverableId]);
+    return res.json({ ok: true, deliverable: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Downloads (admin or order owner) ──────────────────────────────────────────
+deliverablesRouter.get("/deliverables/versions/:versionId/download-url", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user) throw new HttpError(401, "Unauthorized", true);
+    const versionId = parseId(req.params.versionId, "version");
+
+    const rows = await query<{ file_path: string; file_name: string; email: string }>(
+      [
+        "select v.file_path, v.file_name, o.email",
+        "from order_deliverable_versions v",
+        "join order_deliverables d on d.id = v.deliverable_id",
+        "join orders o on o.id = d.order_id",
+        "where v.id = $1 limit 1"
+      ].join("\n"),
+      [versionId]
+    );
+    const version = rows[0];
+    const isOwner = !!req.user.email && version?.email.toLowerCase() === req.user.email.toLowerCase();
+    if (!version || (req.user.role !== "admin" && !isOwner)) throw new HttpError(404, "File not found", true);
+
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase.storage
+      .from(getPrivateBucketId())
+      .createSignedUrl(version.file_path, DOWNLOAD_URL_TTL_SECONDS, { download: version.file_name });
+    if (error || !data?.signedUrl) {
+      throw new HttpError(502, "Failed to create signed URL. Check Supabase Storage configuration.", true);
+    }
+
+    return res.json({ ok: true, url: data.signedUrl, expiresInSeconds: DOWNLOAD_URL_TTL_SECONDS });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Client portal ─────────────────────────────────────────────────────────────
+deliverablesRouter.get("/portal/orders/:orderId/deliverables", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+    const orderId = parseId(req.params.orderId, "order");
+
+    const order = await loadOrder(orderId);
+    if (!order || order.email.toLowerCase() !== req.user.email.toLowerCase()) {
+      throw new HttpError(404, "Order not found", true);
+    }
+
+    return res.json({ ok: true, items: await loadDeliverables(orderId) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const approveSchema = z
+  .object({
+    note: z.string().trim().max(2000).optional()
+  })
+  .strict();
+
+// Approving the last open deliverable marks the project as delivered.
+deliverablesRouter.post("/portal/deliverables/:id/approve", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const deliverable = await loadClientDeliverable(req, parseId(req.params.id, "deliverable"));
+
+    const parsed = approveSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+    if (deliverable.status === "approved") return res.json({ ok: true, alreadyApproved: true, projectDelivered: false });
+
+    const note = parsed.data.note || null;
+    await query(
+      [
+        "update order_deliverables set status = 'approved', client_note = $2,",
+        "approved_at = now(), approved_by_email = $3, updated_at = now()",
+        "where id = $1"
+      ].join("\n"),
+      [deliverable.id, note, req.user?.email ?? null]
+    );
+
+    const open = await query<{ count: number }>(
+      "select count(*)::int as count from order_deliverables where order_id = $1 and status <> 'approved'",
+      [deliverable.order_id]
+    );
+
+    let projectDelivered = false;
+    const order = await loadOrder(deliverable.order_id);
+    if ((open[0]?.count ?? 0) === 0 && order && !["delivered", "closed"].includes(order.project_status)) {
+      await changeProjectStatus({
+        orderId: order.id,
+        toStatus: "delivered",
+        note: `All deliverables approved by ${req.user?.email ?? "the client"}.`,
+        changedByEmail: req.user?.email ?? null,
+        notify: false
+      });
+      projectDelivered = true;
+    }
+
+    void sendDeliverableReviewedEmail({
+      orderId: deliverable.order_id,
+      title: deliverable.title,
+      outcome: "approved",
+      clientEmail: req.user?.email ?? null,
+      note
+    }).catch((err) => logger.warn({ err, deliverableId: deliverable.id }, "Deliverable email failed"));
+
+    return res.json({ ok: true, projectDelivered });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const requestChangesSchema = z
+  .object({
+    note: z.string().trim().min(3).max(2000)
+  })
+  .strict();
+
+deliverablesRouter.post("/portal/deliverables/:id/request-changes", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const deliverable = await loadClientDeliverable(req, parseId(req.params.id, "deliverable"));
+
+    const parsed = requestChangesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+    if (deliverable.status === "approved") throw new HttpError(400, "This deliverable is already approved", true);
+
+    await query(
+      "update order_deliverables set status = 'changes_requested', client_note = $2, updated_at = now() where id = $1",
+      [deliverable.id, parsed.data.note]
+    );
+
+    void sendDeliverableReviewedEmail({
+      orderId: deliverable.order_id,
+      title: deliverable.title,
+      outcome: "changes_requested",
+      clientEmail: req.user?.email ?? null,
+      note: parsed.data.note
+    }).catch((err) => logger.warn({ err, deliverableId: deliverable.id }, "Deliverable email failed"));
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
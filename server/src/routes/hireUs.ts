@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { hireRequestSchema } from "./schemas.js";
 import { insertHireRequest } from "../lib/db.js";
+import { createLeadForSubmission } from "../lib/leads.js";
 
 export const hireUsRoutes = Router();
 
@@ -11,7 +12,8 @@ hireUsRoutes.post("/", async (req, res) => {
       return res.status(400).json({ success: false, error: "Invalid request", details: parsed.error.flatten() });
     }
 
-    await insertHireRequest(parsed.data);
+    const submissionId = await insertHireRequest(parsed.data);
+    await createLeadForSubmission({ submissionId, data: parsed.data }).catch(() => undefined);
 
     return res.json({ success: true });
   } catch (_err) {
@@ -0,0 +1,1077 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import { query, withTransaction } from "../lib/db.js";
+import { logger } from "../lib/logger.js";
+import {
+  addApplicationEvent,
+  APPLICATION_EVENT_COLUMNS,
+  CAREER_STATUSES,
+  loadPipelineStages,
+  moveApplicationToStage,
+  newInterviewUid,
+  SCORECARD_RECOMMENDATIONS,
+  sendInterviewInvite,
+  setApplicationStatus
+} from "../lib/hiring.js";
+import {
+  EMPLOYMENT_TYPES,
+  JOB_OPENING_COLUMNS,
+  JOB_OPENING_STATUSES,
+  slugifyTitle,
+  type JobOpening
+} from "../lib/jobOpenings.js";
+import {
+  CAREER_EMAIL_LOG_COLUMNS,
+  CAREER_EMAIL_STATUSES,
+  CAREER_EMAIL_TEMPLATE_COLUMNS,
+  CAREER_EMAIL_VARIABLES,
+  careerEmailVariables,
+  renderCareerEmail,
+  sendCareerStatusTemplate,
+  type CareerEmailTemplate
+} from "../lib/careerEmails.js";
+import { findDuplicateApplications, mergeApplications, unlinkApplication } from "../lib/candidates.js";
+import { CAREER_EXPORT_COLUMNS, streamCareerResumesZip, type CareerExportRow } from "../lib/careerExport.js";
+import { indexApplicationResume } from "../lib/resumeText.js";
+import { sanitizeRichText } from "../lib/sanitize.js";
+import { sendCareerInfoRequestEmail } from "../lib/email/resend.js";
+import { parseId } from "../lib/params.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const hiringRouter = Router();
+
+const INTERVIEW_COLUMNS = [
+  "i.id, i.created_at, i.application_id, i.round_name, i.scheduled_at, i.duration_minutes, i.interviewer_name,",
+  "i.interviewer_email, i.meeting_url, i.status, i.invite_sent_at, i.created_by_email"
+].join(" ");
+
+// Interview with its scorecards (newest first).
+const interviewSelect = [
+  `select ${INTERVIEW_COLUMNS},`,
+  "coalesce((",
+  "  select json_agg(json_build_object(",
+  "    'id', sc.id, 'created_at', sc.created_at, 'updated_at', sc.updated_at, 'author_email', sc.author_email,",
+  "    'ratings', sc.ratings, 'overall_rating', sc.overall_rating, 'recommendation', sc.recommendation, 'notes', sc.notes",
+  "  ) order by sc.updated_at desc)",
+  "  from career_scorecards sc where sc.interview_id = i.id",
+  "), '[]'::json) as scorecards",
+  "from career_interviews i"
+].join("\n");
+
+function parsePosition(raw: unknown) {
+  const value = typeof raw === "string" ? raw.trim() : "";
+  return value || null;
+}
+
+// ── Job openings ──────────────────────────────────────────────────────────────
+hiringRouter.get("/admin/careers/openings", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
+  try {
+    const rows = await query<JobOpening & { applications: number }>(
+      [
+        `select ${JOB_OPENING_COLUMNS},`,
+        "(select count(*)::int from career_applications a where a.opening_id = o.id) as applications",
+        "from job_openings o",
+        "order by (o.status = 'open') desc, o.sort_order, o.title"
+      ].join("\n")
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const openingSchema = z
+  .object({
+    title: z.string().trim().min(2).max(120),
+    department: z.string().trim().max(120).nullable().optional(),
+    location: z.string().trim().min(1).max(120),
+    employmentType: z.enum(EMPLOYMENT_TYPES),
+    salaryMinInr: z.number().int().min(0).nullable().optional(),
+    salaryMaxInr: z.number().int().min(0).nullable().optional(),
+    descriptionHtml: z.string().max(20000).default(""),
+    requirements: z.array(z.string().trim().min(1).max(300)).max(30).default([]),
+    status: z.enum(JOB_OPENING_STATUSES).default("open"),
+    sortOrder: z.number().int().min(0).max(10000).default(0)
+  })
+  .strict()
+  .refine((v) => v.salaryMinInr == null || v.salaryMaxInr == null || v.salaryMinInr <= v.salaryMaxInr, {
+    message: "Minimum salary cannot exceed the maximum",
+    path: ["salaryMinInr"]
+  });
+
+type OpeningInput = z.infer<typeof openingSchema>;
+
+function openingParams(input: OpeningInput) {
+  return [
+    input.title,
+    input.department || null,
+    input.location,
+    input.employmentType,
+    input.salaryMinInr ?? null,
+    input.salaryMaxInr ?? null,
+    sanitizeRichText(input.descriptionHtml),
+    input.requirements,
+    input.status,
+    input.sortOrder
+  ];
+}
+
+hiringRouter.post("/admin/careers/openings", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = openingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const taken = await query("select 1 from job_openings where lower(title) = lower($1)", [parsed.data.title]);
+    if (taken[0]) throw new HttpError(409, "An opening with this title already exists", true);
+
+    // Slugs stay stable after creation; suffix on collision with an older role.
+    const base = slugifyTitle(parsed.data.title);
+    const existing = await query<{ slug: string }>("select slug from job_openings where slug = $1 or slug like $1 || '-%'", [base]);
+    const slugs = new Set(existing.map((r) => r.slug));
+    let slug = base;
+    for (let n = 2; slugs.has(slug); n += 1) slug = `${base}-${n}`;
+
+    const rows = await query<JobOpening>(
+      [
+        "insert into job_openings (title, department, location, employment_type, salary_min_inr, salary_max_inr,",
+        "description_html, requirements, status, sort_order, closed_at, slug)",
+        "values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10, case when $9 = 'closed' then now() end, $11)",
+        `returning ${JOB_OPENING_COLUMNS.replace(/o\./g, "")}`
+      ].join("\n"),
+      [...openingParams(parsed.data), slug]
+    );
+
+    return res.json({ ok: true, opening: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Renaming an opening carries the new title onto its applications and its
+// pipeline, which are keyed by position title.
+hiringRouter.put("/admin/careers/openings/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "opening");
+
+    const parsed = openingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const opening = await withTransaction(async (db) => {
+      const current = await db.query<{ title: string }>("select title from job_openings where id = $1 for update", [id]);
+      if (!current.rows[0]) return null;
+      const oldTitle = current.rows[0].title;
+
+      if (oldTitle !== parsed.data.title) {
+        const taken = await db.query("select 1 from job_openings where lower(title) = lower($1) and id <> $2", [
+          parsed.data.title,
+          id
+        ]);
+        if (taken.rows[0]) throw new HttpError(409, "An opening with this title already exists", true);
+      }
+
+      const updated = await db.query<JobOpening>(
+        [
+          "update job_openings set",
+          "title = $1, department = $2, location = $3, employment_type = $4, salary_min_inr = $5, salary_max_inr = $6,",
+          "description_html = $7, requirements = $8, status = $9, sort_order = $10,",
+          "closed_at = case when $9 = 'closed' then coalesce(closed_at, now()) end,",
+          "updated_at = now()",
+          "where id = $11",
+          `returning ${JOB_OPENING_COLUMNS.replace(/o\./g, "")}`
+        ].join("\n"),
+        [...openingParams(parsed.data), id]
+      );
+
+      if (oldTitle !== parsed.data.title) {
+        await db.query("update career_applications set position = $2 where opening_id = $1", [id, parsed.data.title]);
+        await db.query("update career_pipeline_stages set position = $2 where position = $1", [oldTitle, parsed.data.title]);
+      }
+
+      return updated.rows[0];
+    });
+    if (!opening) throw new HttpError(404, "Opening not found", true);
+
+    return res.json({ ok: true, opening });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Only openings nobody applied to can be deleted; otherwise close them so the
+// applications keep their role.
+hiringRouter.delete("/admin/careers/openings/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "opening");
+
+    const used = await query("select 1 from career_applications where opening_id = $1 limit 1", [id]);
+    if (used[0]) throw new HttpError(400, "This opening has applications; close it instead", true);
+
+    const rows = await query<{ id: number }>("delete from job_openings where id = $1 returning id", [id]);
+    if (!rows[0]) throw new HttpError(404, "Opening not found", true);
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Status emails ─────────────────────────────────────────────────────────────
+const emailTemplateStatusSchema = z.enum(CAREER_EMAIL_STATUSES);
+
+hiringRouter.get("/admin/careers/email-templates", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
+  try {
+    const items = await query<CareerEmailTemplate>(
+      `select ${CAREER_EMAIL_TEMPLATE_COLUMNS} from career_email_templates order by array_position($1::text[], status)`,
+      [CAREER_EMAIL_STATUSES]
+    );
+    return res.json({ ok: true, items, variables: CAREER_EMAIL_VARIABLES });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const emailTemplateSchema = z
+  .object({
+    subject: z.string().trim().min(1).max(200),
+    body: z.string().trim().min(1).max(10000),
+    sendByDefault: z.boolean()
+  })
+  .strict();
+
+hiringRouter.put("/admin/careers/email-templates/:status", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const status = emailTemplateStatusSchema.safeParse(req.params.status);
+    if (!status.success) throw new HttpError(404, "No email template for this status", true);
+
+    const parsed = emailTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query<CareerEmailTemplate>(
+      [
+        "insert into career_email_templates (status, subject, body, send_by_default, updated_by_email)",
+        "values ($1,$2,$3,$4,$5)",
+        "on conflict (status) do update set subject = excluded.subject, body = excluded.body,",
+        "send_by_default = excluded.send_by_default, updated_by_email = excluded.updated_by_email, updated_at = now()",
+        `returning ${CAREER_EMAIL_TEMPLATE_COLUMNS}`
+      ].join("\n"),
+      [status.data, parsed.data.subject, parsed.data.body, parsed.data.sendByDefault, req.user?.email ?? null]
+    );
+
+    return res.json({ ok: true, item: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const emailPreviewSchema = z
+  .object({
+    subject: z.string().max(200).optional(),
+    body: z.string().max(10000).optional(),
+    applicationId: z.number().int().positive().optional()
+  })
+  .strict();
+
+// Render a template (the saved one, or unsaved edits from the body) with a real
+// application's details, or sample values when no application is given.
+hiringRouter.post(
+  "/admin/careers/email-templates/:status/preview",
+  requireAuth,
+  requireAdmin,
+  async (req: AuthedRequest, res, next) => {
+    try {
+      const status = emailTemplateStatusSchema.safeParse(req.params.status);
+      if (!status.success) throw new HttpError(404, "No email template for this status", true);
+
+      const parsed = emailPreviewSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+      }
+
+      const saved = await query<CareerEmailTemplate>(
+        `select ${CAREER_EMAIL_TEMPLATE_COLUMNS} from career_email_templates where status = $1`,
+        [status.data]
+      );
+      const subject = parsed.data.subject ?? saved[0]?.subject ?? "";
+      const body = parsed.data.body ?? saved[0]?.body ?? "";
+
+      let to: string | null = null;
+      let vars = careerEmailVariables({ fullName: "Priya Sharma", position: "Frontend Developer" });
+      if (parsed.data.applicationId) {
+        const apps = await query<{ full_name: string; email: string; position: string }>(
+          "select full_name, email, position from career_applications where id = $1",
+          [parsed.data.applicationId]
+        );
+        if (!apps[0]) throw new HttpError(404, "Application not found", true);
+        to = apps[0].email;
+        vars = careerEmailVariables({ fullName: apps[0].full_name, position: apps[0].position });
+      }
+
+      return res.json({ ok: true, to, ...renderCareerEmail({ subject, body }, vars) });
+    } catch (err) {
+      return next(err);
+    }
+  }
+);
+
+hiringRouter.get("/admin/careers/:id/emails", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+    const items = await query(
+      `select ${CAREER_EMAIL_LOG_COLUMNS} from career_email_log where application_id = $1 order by created_at desc, id desc`,
+      [id]
+    );
+    return res.json({ ok: true, items });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Pipeline configuration ────────────────────────────────────────────────────
+// GET /admin/careers/pipeline?position=... → stages plus the candidates on them.
+// Without a position the default pipeline is shown with every candidate whose
+// position has no pipeline of its own.
+hiringRouter.get("/admin/careers/pipeline", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const position = parsePosition(req.query.position);
+    const stages = await loadPipelineStages(position);
+
+    const applications = await query(
+      [
+        "select a.id, a.created_at, a.full_name, a.email, a.position, a.status, a.stage_id,",
+        "(select min(i.scheduled_at) from career_interviews i where i.application_id = a.id and i.status = 'scheduled' and i.scheduled_at > now()) as next_interview_at,",
+        "(select count(*)::int from career_interviews i where i.application_id = a.id and i.status <> 'cancelled') as interview_count,",
+        "(select round(avg(sc.overall_rating)::numeric, 1)::float from career_scorecards sc join career_interviews i on i.id = sc.interview_id where i.application_id = a.id) as avg_rating",
+        "from career_applications a",
+        "where a.stage_id = any($1::bigint[]) and a.withdrawn_at is null",
+        position ? "and a.position = $2" : "",
+        "order by a.created_at desc",
+        "limit 500"
+      ].join("\n"),
+      position ? [stages.map((s) => s.id), position] : [stages.map((s) => s.id)]
+    );
+
+    const positions = await query<{ position: string; applications: number; has_pipeline: boolean }>(
+      [
+        "select a.position, count(*)::int as applications,",
+        "exists (select 1 from career_pipeline_stages st where st.position = a.position) as has_pipeline",
+        "from career_applications a group by a.position order by a.position"
+      ].join("\n")
+    );
+
+    return res.json({ ok: true, position, stages, applications, positions });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const stagesSchema = z
+  .object({
+    // null edits the default pipeline
+    position: z.string().trim().min(1).max(120).nullable(),
+    stages: z
+      .array(
+        z
+          .object({
+            id: z.number().int().positive().optional(),
+            label: z.string().trim().min(1).max(60),
+            status: z.enum(CAREER_STATUSES)
+          })
+          .strict()
+      )
+      .min(2)
+      .max(15)
+  })
+  .strict();
+
+// Replace a pipeline's stages. Existing stages are matched by id; a stage can
+// only be removed once no candidate sits on it. The first edit of a position's
+// pipeline forks it from the default and re-homes its candidates by status.
+hiringRouter.put("/admin/careers/pipeline/stages", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = stagesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const { position, stages } = parsed.data;
+    const statuses = new Set(stages.map((s) => s.status));
+    if (!statuses.has("new")) throw new HttpError(400, "The pipeline needs a stage for new applications", true);
+
+    await withTransaction(async (db) => {
+      const existingRes = await db.query<{ id: number; label: string }>(
+        position
+          ? "select id, label from career_pipeline_stages where position = $1 for update"
+          : "select id, label from career_pipeline_stages where position is null for update",
+        position ? [position] : []
+      );
+      const existing = existingRes.rows;
+      const forking = !!position && existing.length === 0;
+
+      const keptIds = new Set(stages.filter((s) => s.id).map((s) => s.id));
+      for (const id of keptIds) {
+        if (!existing.some((e) => e.id === id)) throw new HttpError(400, "Unknown stage in this pipeline", true);
+      }
+
+      for (const removed of existing.filter((e) => !keptIds.has(e.id))) {
+        const inUse = await db.query("select 1 from career_applications where stage_id = $1 limit 1", [removed.id]);
+        if (inUse.rows[0]) throw new HttpError(400, `Move candidates off "${removed.label}" before removing it`, true);
+        await db.query("delete from career_pipeline_stages where id = $1", [removed.id]);
+      }
+
+      for (const [i, stage] of stages.entries()) {
+        if (stage.id) {
+          await db.query("update career_pipeline_stages set label = $2, sort_order = $3, maps_to_status = $4 where id = $1", [
+            stage.id,
+            stage.label,
+            i,
+            stage.status
+          ]);
+        } else {
+          await db.query(
+            "insert into career_pipeline_stages (position, label, sort_order, maps_to_status) values ($1,$2,$3,$4)",
+            [position, stage.label, i, stage.status]
+          );
+        }
+      }
+
+      if (forking) {
+        await db.query(
+          [
+            "update career_applications a set stage_id = (",
+            "  select st.id from career_pipeline_stages st where st.position = $1",
+            "  order by (st.maps_to_status = a.status) desc, st.sort_order limit 1",
+            ")",
+            "where a.position = $1"
+          ].join("\n"),
+          [position]
+        );
+      }
+    });
+
+    return res.json({ ok: true, stages: await loadPipelineStages(position) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Drop a position's own pipeline and put its candidates back on the default one.
+hiringRouter.delete("/admin/careers/pipeline/stages", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const position = parsePosition(req.query.position);
+    if (!position) throw new HttpError(400, "The default pipeline cannot be removed", true);
+
+    await withTransaction(async (db) => {
+      await db.query(
+        [
+          "update career_applications a set stage_id = (",
+          "  select st.id from career_pipeline_stages st where st.position is null",
+          "  order by (st.maps_to_status = a.status) desc, st.sort_order limit 1",
+          ")",
+          "where a.position = $1"
+        ].join("\n"),
+        [position]
+      );
+      await db.query("delete from career_pipeline_stages where position = $1", [position]);
+    });
+
+    return res.json({ ok: true, stages: await loadPipelineStages(position) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Candidates ────────────────────────────────────────────────────────────────
+const moveSchema = z
+  .object({
+    stageId: z.number().int().positive(),
+    note: z.string().trim().max(2000).optional(),
+    notify: z.boolean().optional()
+  })
+  .strict();
+
+hiringRouter.post("/admin/careers/:id/stage", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+
+    const parsed = moveSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const result = await moveApplicationToStage({
+      applicationId: id,
+      stageId: parsed.data.stageId,
+      note: parsed.data.note || null,
+      actorEmail: req.user?.email ?? null
+    });
+    if (!result) throw new HttpError(404, "Application not found", true);
+
+    const email =
+      result.previousStatus !== result.stage.maps_to_status
+        ? await sendCareerStatusTemplate({
+            applicationId: id,
+            status: result.stage.maps_to_status,
+            notify: parsed.data.notify,
+            actorEmail: req.user?.email ?? null
+          })
+        : null;
+
+    return res.json({ ok: true, stage: result.stage, event: result.event, email });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const noteSchema = z.object({ note: z.string().trim().min(1).max(5000) }).strict();
+
+hiringRouter.post("/admin/careers/:id/notes", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+
+    const parsed = noteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const apps = await query("select 1 from career_applications where id = $1", [id]);
+    if (!apps[0]) throw new HttpError(404, "Application not found", true);
+
+    const event = await addApplicationEvent({
+      applicationId: id,
+      kind: "note",
+      note: parsed.data.note,
+      actorEmail: req.user?.email ?? null
+    });
+
+    return res.json({ ok: true, event });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const infoRequestSchema = z.object({ question: z.string().trim().min(5).max(2000) }).strict();
+
+// Ask the candidate for more information; they answer from My Submissions.
+hiringRouter.post("/admin/careers/:id/info-requests", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+
+    const parsed = infoRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const apps = await query<{ full_name: string; email: string; position: string; withdrawn_at: string | null }>(
+      "select full_name, email, position, withdrawn_at from career_applications where id = $1",
+      [id]
+    );
+    const app = apps[0];
+    if (!app) throw new HttpError(404, "Application not found", true);
+    if (app.withdrawn_at) throw new HttpError(400, "The candidate has withdrawn this application", true);
+
+    const rows = await query(
+      [
+        "insert into career_info_requests (application_id, question, requested_by_email)",
+        "values ($1,$2,$3)",
+        "returning id, created_at, question, requested_by_email, response, responded_at"
+      ].join("\n"),
+      [id, parsed.data.question, req.user?.email ?? null]
+    );
+    await addApplicationEvent({
+      applicationId: id,
+      kind: "info_requested",
+      note: parsed.data.question,
+      actorEmail: req.user?.email ?? null
+    });
+
+    void sendCareerInfoRequestEmail({
+      to: app.email,
+      candidateName: app.full_name,
+      position: app.position,
+      question: parsed.data.question
+    }).catch((err) => logger.warn({ err, applicationId: id }, "Failed to send info request email"));
+
+    return res.json({ ok: true, request: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Everything that happened to a candidate: stage moves, notes, questions and
+// interviews (with scorecards). The client merges them into one chronological view.
+hiringRouter.get("/admin/careers/:id/timeline", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+
+    const apps = await query(
+      [
+        "select a.id, a.created_at, a.full_name, a.email, a.phone, a.position, a.status, a.stage_id,",
+        "a.withdrawn_at, a.withdrawal_reason,",
+        "(select st.label from career_pipeline_stages st where st.id = a.stage_id) as stage_label",
+        "from career_applications a where a.id = $1"
+      ].join("\n"),
+      [id]
+    );
+    if (!apps[0]) throw new HttpError(404, "Application not found", true);
+
+    const events = await query(
+      [
+        `select ${APPLICATION_EVENT_COLUMNS}`,
+        "from career_application_events where application_id = $1 order by created_at, id"
+      ].join("\n"),
+      [id]
+    );
+    const interviews = await query(`${interviewSelect} where i.application_id = $1 order by i.scheduled_at, i.id`, [id]);
+    const infoRequests = await query(
+      [
+        "select id, created_at, question, requested_by_email, response, responded_at",
+        "from career_info_requests where application_id = $1 order by created_at, id"
+      ].join("\n"),
+      [id]
+    );
+    const emails = await query(
+      `select ${CAREER_EMAIL_LOG_COLUMNS} from career_email_log where application_id = $1 order by created_at, id`,
+      [id]
+    );
+
+    return res.json({ ok: true, application: apps[0], events, interviews, infoRequests, emails });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Other applications by the same person: those already linked to the same
+// candidate profile, and likely duplicates with the reasons they matched.
+hiringRouter.get("/admin/careers/:id/duplicates", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+    const result = await findDuplicateApplications(id);
+    if (!result) throw new HttpError(404, "Application not found", true);
+    return res.json({ ok: true, ...result });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const mergeSchema = z.object({ applicationIds: z.array(z.number().int().positive()).min(2).max(50) }).strict();
+
+hiringRouter.post("/admin/careers/merge", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = mergeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const result = await mergeApplications({
+      applicationIds: [...new Set(parsed.data.applicationIds)],
+      actorEmail: req.user?.email ?? null
+    });
+    return res.json({ ok: true, ...result });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+hiringRouter.post("/admin/careers/:id/unlink", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+    await unlinkApplication({ applicationId: id, actorEmail: req.user?.email ?? null });
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Re-run resume text extraction, e.g. after a failure or for applications
+// that predate it.
+hiringRouter.post("/admin/careers/:id/resume-text", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+
+    const rows = await query<{ resume_path: string | null }>("select resume_path from career_applications where id = $1", [id]);
+    if (!rows[0]) throw new HttpError(404, "Application not found", true);
+    if (!rows[0].resume_path) throw new HttpError(400, "This application has no resume", true);
+
+    const indexed = await indexApplicationResume(id);
+    const after = await query<{ resume_extracted_at: string | null; resume_extract_error: string | null }>(
+      "select resume_extracted_at, resume_extract_error from career_applications where id = $1",
+      [id]
+    );
+
+    return res.json({ ok: true, indexed, ...after[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Extract text for a batch of applications that have never been processed.
+hiringRouter.post("/admin/careers/resume-text/backfill", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
+  try {
+    const pending = await query<{ id: number }>(
+      [
+        "select id from career_applications",
+        "where resume_path is not null and resume_extracted_at is null",
+        "order by created_at desc",
+        "limit 20"
+      ].join("\n")
+    );
+
+    let indexed = 0;
+    for (const row of pending) {
+      if (await indexApplicationResume(row.id)) indexed += 1;
+    }
+
+    const remaining = await query<{ n: number }>(
+      "select count(*)::int as n from career_applications where resume_path is not null and resume_extracted_at is null"
+    );
+
+    return res.json({ ok: true, processed: pending.length, indexed, remaining: remaining[0]?.n ?? 0 });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Bulk actions ──────────────────────────────────────────────────────────────
+const bulkIdsSchema = z.array(z.number().int().positive()).min(1).max(200);
+
+const bulkStatusSchema = z
+  .object({
+    ids: bulkIdsSchema,
+    status: z.enum(CAREER_STATUSES),
+    notify: z.boolean().optional()
+  })
+  .strict();
+
+// Applications are updated one by one so a withdrawn or missing one is
+// reported back instead of failing the whole batch.
+hiringRouter.post("/admin/careers/bulk/status", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = bulkStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const actorEmail = req.user?.email ?? null;
+    const skipped: Array<{ id: number; error: string }> = [];
+    const emails = { sent: 0, suppressed: 0, failed: 0 };
+    let updated = 0;
+
+    for (const id of new Set(parsed.data.ids)) {
+      try {
+        const result = await setApplicationStatus({ applicationId: id, status: parsed.data.status, actorEmail });
+        if (!result) {
+          skipped.push({ id, error: "Not found" });
+          continue;
+        }
+        updated += 1;
+        if (result.previousStatus === parsed.data.status) continue;
+
+        const email = await sendCareerStatusTemplate({
+          applicationId: id,
+          status: parsed.data.status,
+          notify: parsed.data.notify,
+          actorEmail
+        });
+        if (email) emails[email.outcome] += 1;
+      } catch (err) {
+        if (!(err instanceof HttpError)) throw err;
+        skipped.push({ id, error: err.message });
+      }
+    }
+
+    return res.json({ ok: true, updated, skipped, emails });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const bulkEmailSchema = z
+  .object({
+    ids: bulkIdsSchema,
+    status: emailTemplateStatusSchema
+  })
+  .strict();
+
+// (Re)send the status email to applications already at that status, e.g. the
+// rejection email to candidates who were rejected without one.
+hiringRouter.post("/admin/careers/bulk/email", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = bulkEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const eligible = await query<{ id: number }>(
+      "select id from career_applications where id = any($1::bigint[]) and status = $2 and withdrawn_at is null order by id",
+      [parsed.data.ids, parsed.data.status]
+    );
+
+    const emails = { sent: 0, suppressed: 0, failed: 0 };
+    for (const row of eligible) {
+      const email = await sendCareerStatusTemplate({
+        applicationId: row.id,
+        status: parsed.data.status,
+        notify: true,
+        actorEmail: req.user?.email ?? null
+      });
+      if (email) emails[email.outcome] += 1;
+    }
+
+    return res.json({ ok: true, emails, skipped: new Set(parsed.data.ids).size - eligible.length });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const resumesZipQuerySchema = z
+  .object({
+    ids: z
+      .string()
+      .regex(/^\d+(,\d+)*$/)
+      .transform((v) => [...new Set(v.split(",").map(Number))])
+      .pipe(bulkIdsSchema)
+  })
+  .strict();
+
+// GET /admin/careers/resumes.zip?ids=1,2,3 → resumes and CVs streamed as a ZIP.
+hiringRouter.get("/admin/careers/resumes.zip", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = resumesZipQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query<CareerExportRow>(
+      `select ${CAREER_EXPORT_COLUMNS} from career_applications a where a.id = any($1::bigint[]) order by a.id`,
+      [parsed.data.ids]
+    );
+    if (!rows.some((r) => r.resume_path || r.cv_path)) {
+      throw new HttpError(404, "None of the selected applications has a resume", true);
+    }
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename=resumes-${new Date().toISOString().slice(0, 10)}.zip`);
+    await streamCareerResumesZip(rows, res);
+  } catch (err) {
+    if (res.headersSent) {
+      res.destroy(err as Error);
+      return;
+    }
+    return next(err);
+  }
+});
+
+// ── Interviews ────────────────────────────────────────────────────────────────
+const interviewFieldsSchema = z.object({
+  roundName: z.string().trim().min(1).max(80),
+  scheduledAt: z.string().datetime({ offset: true }),
+  durationMinutes: z.number().int().min(10).max(480),
+  interviewerName: z.string().trim().min(1).max(120),
+  interviewerEmail: z.string().trim().email().max(254).nullable().optional(),
+  meetingUrl: z.string().trim().url().max(500).nullable().optional()
+});
+
+const createInterviewSchema = interviewFieldsSchema.extend({ sendInvite: z.boolean().optional() }).strict();
+
+hiringRouter.post("/admin/careers/:id/interviews", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "application");
+
+    const parsed = createInterviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const input = parsed.data;
+    const rows = await query<{ id: number }>(
+      [
+        "insert into career_interviews (application_id, round_name, scheduled_at, duration_minutes, interviewer_name,",
+        "interviewer_email, meeting_url, ics_uid, created_by_email)",
+        "select id, $2, $3, $4, $5, $6, $7, $8, $9 from career_applications where id = $1",
+        "returning id"
+      ].join("\n"),
+      [
+        id,
+        input.roundName,
+        input.scheduledAt,
+        input.durationMinutes,
+        input.interviewerName,
+        input.interviewerEmail?.toLowerCase() ?? null,
+        input.meetingUrl ?? null,
+        newInterviewUid(),
+        req.user?.email ?? null
+      ]
+    );
+    const interviewId = rows[0]?.id;
+    if (!interviewId) throw new HttpError(404, "Application not found", true);
+
+    let inviteSent = false;
+    if (input.sendInvite ?? true) {
+      inviteSent = await sendInterviewInvite(interviewId, { method: "REQUEST", updated: false }).catch((err) => {
+        logger.warn({ err, interviewId }, "Failed to send interview invite");
+        return false;
+      });
+    }
+
+    const interview = (await query(`${interviewSelect} where i.id = $1`, [interviewId]))[0];
+    return res.json({ ok: true, interview, inviteSent });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const updateInterviewSchema = interviewFieldsSchema
+  .partial()
+  .extend({
+    status: z.enum(["scheduled", "completed", "cancelled"]).optional(),
+    sendInvite: z.boolean().optional()
+  })
+  .strict();
+
+// Reschedule, edit or cancel an interview. Time/link changes re-send the
+// invite as an update; cancelling sends a calendar cancellation.
+hiringRouter.patch("/admin/careers/interviews/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "interview");
+
+    const parsed = updateInterviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const before = await query<{ scheduled_at: string; duration_minutes: number; meeting_url: string | null; status: string }>(
+      "select scheduled_at, duration_minutes, meeting_url, status from career_interviews where id = $1",
+      [id]
+    );
+    if (!before[0]) throw new HttpError(404, "Interview not found", true);
+
+    const input = parsed.data;
+    const rows = await query<{ scheduled_at: string; duration_minutes: number; meeting_url: string | null; status: string }>(
+      [
+        "update career_interviews set",
+        "round_name = coalesce($2, round_name),",
+        "scheduled_at = coalesce($3, scheduled_at),",
+        "duration_minutes = coalesce($4, duration_minutes),",
+        "interviewer_name = coalesce($5, interviewer_name),",
+        "interviewer_email = case when $6::boolean then $7 else interviewer_email end,",
+        "meeting_url = case when $8::boolean then $9 else meeting_url end,",
+        "status = coalesce($10, status),",
+        "updated_at = now()",
+        "where id = $1",
+        "returning scheduled_at, duration_minutes, meeting_url, status"
+      ].join("\n"),
+      [
+        id,
+        input.roundName ?? null,
+        input.scheduledAt ?? null,
+        input.durationMinutes ?? null,
+        input.interviewerName ?? null,
+        input.interviewerEmail !== undefined,
+        input.interviewerEmail?.toLowerCase() ?? null,
+        input.meetingUrl !== undefined,
+        input.meetingUrl ?? null,
+        input.status ?? null
+      ]
+    );
+    const after = rows[0];
+
+    const cancelledNow = before[0].status !== "cancelled" && after.status === "cancelled";
+    const rescheduled =
+      after.status === "scheduled" &&
+      (new Date(before[0].scheduled_at).getTime() !== new Date(after.scheduled_at).getTime() ||
+        before[0].duration_minutes !== after.duration_minutes ||
+        before[0].meeting_url !== after.meeting_url);
+
+    let inviteSent = false;
+    if ((cancelledNow || rescheduled) && (input.sendInvite ?? true)) {
+      inviteSent = await sendInterviewInvite(id, {
+        method: cancelledNow ? "CANCEL" : "REQUEST",
+        updated: true
+      }).catch((err) => {
+        logger.warn({ err, interviewId: id }, "Failed to send interview update");
+        return false;
+      });
+    }
+
+    const interview = (await query(`${interviewSelect} where i.id = $1`, [id]))[0];
+    return res.json({ ok: true, interview, inviteSent });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+hiringRouter.post("/admin/careers/interviews/:id/invite", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "interview");
+
+    const rows = await query<{ status: string; invite_sent_at: string | null }>(
+      "select status, invite_sent_at from career_interviews where id = $1",
+      [id]
+    );
+    if (!rows[0]) throw new HttpError(404, "Interview not found", true);
+    if (rows[0].status !== "scheduled") throw new HttpError(400, "Only scheduled interviews can be re-sent", true);
+
+    const sent = await sendInterviewInvite(id, { method: "REQUEST", updated: !!rows[0].invite_sent_at });
+    if (!sent) throw new HttpError(503, "Email is not configured", true);
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const scorecardSchema = z
+  .object({
+    // e.g. { "Technical": 4, "Communication": 5 }
+    ratings: z.record(z.string().trim().min(1).max(60), z.number().int().min(1).max(5)),
+    overallRating: z.number().int().min(1).max(5),
+    recommendation: z.enum(SCORECARD_RECOMMENDATIONS),
+    notes: z.string().trim().max(5000).optional()
+  })
+  .strict();
+
+// One scorecard per interviewer per interview; submitting again updates it.
+hiringRouter.post("/admin/careers/interviews/:id/scorecards", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "interview");
+    if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+
+    const parsed = scorecardSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query(
+      [
+        "insert into career_scorecards (interview_id, author_email, ratings, overall_rating, recommendation, notes)",
+        "select id, $2, $3, $4, $5, $6 from career_interviews where id = $1",
+        "on conflict (interview_id, author_email) do update set",
+        "ratings = excluded.ratings, overall_rating = excluded.overall_rating,",
+        "recommendation = excluded.recommendation, notes = excluded.notes, updated_at = now()",
+        "returning id, created_at, updated_at, author_email, ratings, overall_rating, recommendation, notes"
+      ].join("\n"),
+      [
+        id,
+        req.user.email.toLowerCase(),
+        parsed.data.ratings,
+        parsed.data.overallRating,
+        parsed.data.recommendation,
+        parsed.data.notes || null
+      ]
+    );
+    if (!rows[0]) throw new HttpError(404, "Interview not found", true);
+
+    return res.json({ ok: true, scorecard: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
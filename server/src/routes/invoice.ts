@@ -1,79 +1,433 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import PDFDocument from "pdfkit";
 
+import { env } from "../lib/env.js";
 import { query } from "../lib/db.js";
-import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { amountInWords, computeGstBreakup, stateLabel } from "../lib/gst.js";
+import { ensureInvoice, ensureMilestoneInvoice, ensureSubscriptionChargeInvoice, orderHasMilestones } from "../lib/payments.js";
+import { orderHasSubscription } from "../lib/subscriptions.js";
+import { requireAuth, type AuthedRequest } from "../middleware/auth.js";
 import { HttpError } from "../middleware/errorHandler.js";
 
 export const invoiceRouter = Router();
 
+type InvoiceOrder = {
+  id: number;
+  email: string;
+  name: string;
+  service_name: string;
+  plan_name: string;
+  price_inr: number;
+  created_at: string;
+  payment_status: string;
+};
+
+type InvoiceSnapshot = {
+  invoice_number: string;
+  issued_at: string;
+  supplier_gstin: string | null;
+  customer_gstin: string | null;
+  billing_name: string | null;
+  billing_address: string | null;
+  place_of_supply: string | null;
+  sac_code: string | null;
+  gst_rate_percent: number | null;
+  coupon_code: string | null;
+  discount_paise: number | null;
+  taxable_paise: number | null;
+  cgst_paise: number | null;
+  sgst_paise: number | null;
+  igst_paise: number | null;
+  total_paise: number | null;
+};
+
+const invoiceSnapshotColumns = [
+  "invoice_number, issued_at, supplier_gstin, customer_gstin, billing_name, billing_address, place_of_supply,",
+  "sac_code, gst_rate_percent, coupon_code, discount_paise, taxable_paise, cgst_paise, sgst_paise, igst_paise, total_paise"
+].join(" ");
+
+async function loadInvoiceSnapshot(orderId: number) {
+  const rows = await query<InvoiceSnapshot>(
+    `select ${invoiceSnapshotColumns} from invoices where order_id = $1 and milestone_id is null and subscription_charge_id is null limit 1`,
+    [orderId]
+  );
+  return rows[0];
+}
+
+async function loadMilestoneInvoiceSnapshot(milestoneId: number) {
+  const rows = await query<InvoiceSnapshot>(
+    `select ${invoiceSnapshotColumns} from invoices where milestone_id = $1 limit 1`,
+    [milestoneId]
+  );
+  return rows[0];
+}
+
+async function loadSubscriptionChargeInvoiceSnapshot(chargeId: number) {
+  const rows = await query<InvoiceSnapshot>(
+    `select ${invoiceSnapshotColumns} from invoices where subscription_charge_id = $1 limit 1`,
+    [chargeId]
+  );
+  return rows[0];
+}
+
+function formatPaise(paise: number) {
+  return (paise / 100).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Load an order and check the caller may see its billing documents (owner or admin).
+async function loadOrderForViewer(req: AuthedRequest, rawOrderId: string) {
+  if (!req.user) throw new HttpError(401, "Unauthorized", true);
+  if (!req.user.email && req.user.role !== "admin") throw new HttpError(401, "Unauthorized", true);
+
+  const orderId = Number(rawOrderId);
+  if (!Number.isFinite(orderId) || orderId <= 0) throw new HttpError(400, "Invalid order id", true);
+
+  const rows = await query<InvoiceOrder>(
+    "select id, email, name, service_name, plan_name, price_inr, created_at, payment_status from orders where id = $1 limit 1",
+    [orderId]
+  );
+
+  const order = rows[0];
+  if (!order) throw new HttpError(404, "Order not found", true);
+
+  const isOwner = !!req.user.email && order.email.toLowerCase() === req.user.email.toLowerCase();
+  const isAdmin = req.user.role === "admin";
+  if (!isOwner && !isAdmin) throw new HttpError(403, "Forbidden", true);
+
+  return order;
+}
+
+type TaxAmounts = {
+  grossPaise: number;
+  discountPaise: number;
+  taxablePaise: number;
+  cgstPaise: number;
+  sgstPaise: number;
+  igstPaise: number;
+  totalPaise: number;
+};
+
+// Supplier, document details and recipient. Shared by tax invoices and credit
+// notes; the recipient always comes from the invoice snapshot.
+function renderDocumentHeader(
+  doc: PDFKit.PDFDocument,
+  order: InvoiceOrder,
+  invoice: InvoiceSnapshot,
+  title: string,
+  details: string[]
+) {
+  doc.fontSize(20).text(title, { align: "right" });
+  doc.moveDown();
+
+  doc.fontSize(12).text("HZ IT Company");
+  doc.fontSize(10).text(env.COMPANY_BILLING_ADDRESS);
+  if (invoice.supplier_gstin) doc.text(`GSTIN: ${invoice.supplier_gstin}`);
+  doc.text(`State: ${stateLabel(env.COMPANY_STATE_CODE)}`);
+  doc.moveDown();
+
+  doc.fontSize(11);
+  for (const detail of details) doc.text(detail);
+  doc.text(`Order ID: ${order.id}`);
+  doc.text(`Place of Supply: ${stateLabel(invoice.place_of_supply)}`);
+  doc.moveDown();
+
+  doc.text("Billed To:");
+  doc.text(invoice.billing_name ?? order.name);
+  if (invoice.billing_address) doc.text(invoice.billing_address);
+  doc.text(order.email);
+  if (invoice.customer_gstin) doc.text(`GSTIN: ${invoice.customer_gstin}`);
+  doc.moveDown();
+}
+
+// Line item, discount and GST breakup, ending in the total and amount in words.
+function renderTaxTable(
+  doc: PDFKit.PDFDocument,
+  invoice: InvoiceSnapshot,
+  line: { description: string; totalLabel: string },
+  amounts: TaxAmounts
+) {
+  const gstRate = invoice.gst_rate_percent ?? 0;
+  const isTaxInvoice = !!invoice.supplier_gstin && gstRate > 0;
+
+  const left = doc.page.margins.left;
+  const amountX = 420;
+  const row = (label: string, sac: string, amount: string, bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+    doc.text(label, left, y, { width: 260 });
+    const labelBottom = doc.y;
+    doc.text(sac, 320, y, { width: 90 });
+    doc.text(amount, amountX, y, { width: 125, align: "right" });
+    doc.y = Math.max(labelBottom, doc.y);
+    doc.x = left;
+  };
+
+  row("Description", "HSN/SAC", "Amount (INR)", true);
+  doc.moveTo(left, doc.y + 2).lineTo(545, doc.y + 2).stroke();
+  doc.moveDown(0.5);
+
+  row(line.description, invoice.sac_code ?? env.DEFAULT_SAC_CODE, formatPaise(amounts.grossPaise));
+  if (amounts.discountPaise > 0) {
+    row(`Less: Discount${invoice.coupon_code ? ` (${invoice.coupon_code})` : ""}`, "", `-${formatPaise(amounts.discountPaise)}`);
+  }
+  doc.moveDown(0.5);
+  doc.moveTo(left, doc.y).lineTo(545, doc.y).stroke();
+  doc.moveDown(0.5);
+
+  row("Taxable Value", "", formatPaise(amounts.taxablePaise));
+  if (isTaxInvoice) {
+    if (amounts.igstPaise > 0) {
+      row(`IGST @ ${gstRate}%`, "", formatPaise(amounts.igstPaise));
+    } else {
+      row(`CGST @ ${gstRate / 2}%`, "", formatPaise(amounts.cgstPaise));
+      row(`SGST @ ${gstRate / 2}%`, "", formatPaise(amounts.sgstPaise));
+    }
+  }
+  row(line.totalLabel, "", formatPaise(amounts.totalPaise), true);
+  doc.moveDown();
+
+  doc.font("Helvetica").text(`Amount in words: ${amountInWords(amounts.totalPaise)}`);
+  doc.moveDown();
+
+  doc.fontSize(9).fillColor("#555555");
+  if (isTaxInvoice) doc.text("Tax is not payable on reverse charge basis.");
+}
+
+function startPdf(res: Response, fileName: string) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename=${fileName}`);
+
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  doc.pipe(res);
+  return doc;
+}
+
+// Render a tax invoice from its frozen snapshot. Shared by whole-order,
+// milestone and subscription-charge invoices; only the line description differs.
+function renderInvoicePdf(
+  res: Response,
+  order: InvoiceOrder,
+  invoice: InvoiceSnapshot,
+  line: { description: string; fileName: string }
+) {
+  // Invoices issued before GST support carry no tax snapshot; show them untaxed.
+  const totalPaise = invoice.total_paise ?? order.price_inr * 100;
+  const taxablePaise = invoice.taxable_paise ?? totalPaise;
+  const discountPaise = invoice.discount_paise ?? 0;
+  const isTaxInvoice = !!invoice.supplier_gstin && (invoice.gst_rate_percent ?? 0) > 0;
+
+  const doc = startPdf(res, line.fileName);
+  renderDocumentHeader(doc, order, invoice, isTaxInvoice ? "TAX INVOICE" : "INVOICE", [
+    `Invoice Number: ${invoice.invoice_number}`,
+    `Invoice Date: ${new Date(invoice.issued_at).toLocaleDateString("en-IN")}`
+  ]);
+  renderTaxTable(
+    doc,
+    invoice,
+    { description: line.description, totalLabel: "Total" },
+    {
+      grossPaise: taxablePaise + discountPaise,
+      discountPaise,
+      taxablePaise,
+      cgstPaise: invoice.cgst_paise ?? 0,
+      sgstPaise: invoice.sgst_paise ?? 0,
+      igstPaise: invoice.igst_paise ?? 0,
+      totalPaise
+    }
+  );
+  doc.text("This is a computer-generated invoice and does not require a signature.");
+
+  doc.end();
+}
+
+// GST reversed by a refund. A full refund reverses the invoice exactly; a
+// partial one is split the same way the invoice was computed (see issueInvoice).
+function creditNoteAmounts(invoice: InvoiceSnapshot, refundPaise: number): TaxAmounts {
+  if (invoice.total_paise === refundPaise && invoice.taxable_paise !== null) {
+    return {
+      grossPaise: invoice.taxable_paise,
+      discountPaise: 0,
+      taxablePaise: invoice.taxable_paise,
+      cgstPaise: invoice.cgst_paise ?? 0,
+      sgstPaise: invoice.sgst_paise ?? 0,
+      igstPaise: invoice.igst_paise ?? 0,
+      totalPaise: refundPaise
+    };
+  }
+  const tax = computeGstBreakup({
+    totalPaise: refundPaise,
+    ratePercent: invoice.supplier_gstin ? invoice.gst_rate_percent ?? 0 : 0,
+    placeOfSupply: invoice.place_of_supply,
+    supplierStateCode: env.COMPANY_STATE_CODE
+  });
+  return { ...tax, grossPaise: tax.taxablePaise, discountPaise: 0 };
+}
+
 invoiceRouter.get("/invoice/:orderId", requireAuth, async (req: AuthedRequest, res, next) => {
   try {
-    if (!req.user) throw new HttpError(401, "Unauthorized", true);
-    if (!req.user.email && req.user.role !== "admin") throw new HttpError(401, "Unauthorized", true);
+    const order = await loadOrderForViewer(req, req.params.orderId);
+    const orderId = order.id;
 
-    const orderId = Number(req.params.orderId);
-    if (!Number.isFinite(orderId) || orderId <= 0) throw new HttpError(400, "Invalid order id", true);
+    // Refunded orders keep their original invoice; credit notes offset it.
+    if (order.payment_status !== "paid" && order.payment_status !== "refunded") {
+      throw new HttpError(400, "Invoice available after payment", true);
+    }
 
-    const rows = await query<{
-      id: number;
-      email: string;
-      name: string;
-      service_name: string;
-      plan_name: string;
-      price_inr: number;
-      created_at: string;
-      payment_status: string;
-    }>(
-      "select id, email, name, service_name, plan_name, price_inr, created_at, payment_status from orders where id = $1 limit 1",
-      [orderId]
-    );
+    let invoice = await loadInvoiceSnapshot(orderId);
+    if (!invoice && (await orderHasMilestones(orderId))) {
+      throw new HttpError(400, "This order is invoiced per milestone", true);
+    }
+    if (!invoice && (await orderHasSubscription(orderId))) {
+      throw new HttpError(400, "This subscription is invoiced per billing cycle", true);
+    }
+    if (!invoice && order.payment_status === "paid") {
+      // Paid before invoices were issued automatically; allocate one now.
+      await ensureInvoice(orderId);
+      invoice = await loadInvoiceSnapshot(orderId);
+    }
+    if (!invoice) throw new HttpError(404, "Invoice not found", true);
 
-    const order = rows[0];
-    if (!order) throw new HttpError(404, "Order not found", true);
+    renderInvoicePdf(res, order, invoice, {
+      description: `${order.service_name} — ${order.plan_name}`,
+      fileName: `invoice-${orderId}.pdf`
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
 
-    const isOwner = !!req.user.email && order.email.toLowerCase() === req.user.email.toLowerCase();
-    const isAdmin = req.user.role === "admin";
-    if (!isOwner && !isAdmin) throw new HttpError(403, "Forbidden", true);
+invoiceRouter.get("/invoice/:orderId/milestones/:milestoneId", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const order = await loadOrderForViewer(req, req.params.orderId);
 
-    if (order.payment_status !== "paid") throw new HttpError(400, "Invoice available after payment", true);
+    const milestoneId = Number(req.params.milestoneId);
+    if (!Number.isFinite(milestoneId) || milestoneId <= 0) throw new HttpError(400, "Invalid milestone id", true);
 
-    const invRows = await query<{ invoice_number: string; issued_at: string }>(
-      "select invoice_number, issued_at from invoices where order_id = $1 limit 1",
-      [orderId]
+    const rows = await query<{ id: number; label: string; status: string }>(
+      "select id, label, status from order_milestones where id = $1 and order_id = $2 limit 1",
+      [milestoneId, order.id]
     );
+    const milestone = rows[0];
+    if (!milestone) throw new HttpError(404, "Milestone not found", true);
+    if (milestone.status !== "paid") throw new HttpError(400, "Invoice available after payment", true);
 
-    const invoiceNumber = invRows[0]?.invoice_number ?? `HZ-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${orderId}`;
+    let invoice = await loadMilestoneInvoiceSnapshot(milestoneId);
+    if (!invoice) {
+      await ensureMilestoneInvoice(milestoneId);
+      invoice = await loadMilestoneInvoiceSnapshot(milestoneId);
+    }
+    if (!invoice) throw new HttpError(404, "Invoice not found", true);
 
-    res.setHeader("Content-Type", "application/pdf");
-    res.setHeader("Content-Disposition", `inline; filename=invoice-${orderId}.pdf`);
+    renderInvoicePdf(res, order, invoice, {
+      description: `${order.service_name} — ${order.plan_name} (${milestone.label})`,
+      fileName: `invoice-${order.id}-m${milestoneId}.pdf`
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+invoiceRouter.get(
+  "/invoice/:orderId/subscription-charges/:chargeId",
+  requireAuth,
+  async (req: AuthedRequest, res, next) => {
+    try {
+      const order = await loadOrderForViewer(req, req.params.orderId);
+
+      const chargeId = Number(req.params.chargeId);
+      if (!Number.isFinite(chargeId) || chargeId <= 0) throw new HttpError(400, "Invalid charge id", true);
 
-    const doc = new PDFDocument({ size: "A4", margin: 50 });
-    doc.pipe(res);
+      const rows = await query<{ id: number; period_start: string | null; period_end: string | null }>(
+        [
+          "select c.id, c.period_start, c.period_end",
+          "from subscription_charges c join subscriptions s on s.id = c.subscription_id",
+          "where c.id = $1 and s.order_id = $2 limit 1"
+        ].join("\n"),
+        [chargeId, order.id]
+      );
+      const charge = rows[0];
+      if (!charge) throw new HttpError(404, "Charge not found", true);
+
+      let invoice = await loadSubscriptionChargeInvoiceSnapshot(chargeId);
+      if (!invoice) {
+        await ensureSubscriptionChargeInvoice(chargeId);
+        invoice = await loadSubscriptionChargeInvoiceSnapshot(chargeId);
+      }
+      if (!invoice) throw new HttpError(404, "Invoice not found", true);
+
+      const period =
+        charge.period_start && charge.period_end
+          ? ` (${new Date(charge.period_start).toLocaleDateString("en-IN")} – ${new Date(charge.period_end).toLocaleDateString("en-IN")})`
+          : "";
+      renderInvoicePdf(res, order, invoice, {
+        description: `${order.service_name} — ${order.plan_name}${period}`,
+        fileName: `invoice-${order.id}-s${chargeId}.pdf`
+      });
+    } catch (err) {
+      return next(err);
+    }
+  }
+);
 
-    doc.fontSize(20).text("INVOICE", { align: "right" });
-    doc.moveDown();
+invoiceRouter.get("/invoice/:orderId/credit-notes/:refundId", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const order = await loadOrderForViewer(req, req.params.orderId);
 
-    doc.fontSize(12).text("HZ IT Company");
-    doc.text("India");
-    doc.moveDown();
+    const refundId = Number(req.params.refundId);
+    if (!Number.isFinite(refundId) || refundId <= 0) throw new HttpError(400, "Invalid refund id", true);
 
-    doc.text(`Invoice Number: ${invoiceNumber}`);
-    doc.text(`Date: ${new Date().toLocaleDateString("en-IN")}`);
-    doc.text(`Order ID: ${order.id}`);
-    doc.moveDown();
+    const refundRows = await query<{
+      id: number;
+      created_at: string;
+      amount_paise: number;
+      status: string;
+      reason: string | null;
+      razorpay_refund_id: string;
+      credit_note_number: string | null;
+    }>(
+      "select id, created_at, amount_paise, status, reason, razorpay_refund_id, credit_note_number from order_refunds where id = $1 and order_id = $2 limit 1",
+      [refundId, order.id]
+    );
 
-    doc.text("Billed To:");
-    doc.text(order.name);
-    doc.text(order.email);
-    doc.moveDown();
+    const refund = refundRows[0];
+    if (!refund) throw new HttpError(404, "Refund not found", true);
+    if (refund.status === "failed") throw new HttpError(400, "No credit note for a failed refund", true);
 
-    doc.text("Service Details:");
-    doc.text(`Service: ${order.service_name}`);
-    doc.text(`Plan: ${order.plan_name}`);
-    doc.moveDown();
+    // The invoice for the payment that was refunded; the credit note carries
+    // its parties and tax treatment.
+    const invRows = await query<InvoiceSnapshot>(
+      [
+        `select ${invoiceSnapshotColumns} from invoices where id = (`,
+        "  select i.id from order_refunds r",
+        "  join orders o on o.id = r.order_id",
+        "  join invoices i on i.order_id = o.id",
+        "  left join order_milestones m on m.id = i.milestone_id",
+        "  left join subscription_charges c on c.id = i.subscription_charge_id",
+        "  where r.id = $1 and coalesce(m.razorpay_payment_id, c.razorpay_payment_id, o.razorpay_payment_id) = r.razorpay_payment_id",
+        "  limit 1",
+        ")"
+      ].join("\n"),
+      [refund.id]
+    );
+    const invoice = invRows[0];
+    if (!invoice) throw new HttpError(404, "Invoice for the refunded payment not found", true);
 
-    doc.text(`Amount Paid: ₹${order.price_inr.toLocaleString("en-IN")}`);
+    const doc = startPdf(res, `credit-note-${order.id}-${refund.id}.pdf`);
+    renderDocumentHeader(doc, order, invoice, "CREDIT NOTE", [
+      `Credit Note Number: ${refund.credit_note_number ?? `CN-${refund.id}`}`,
+      `Credit Note Date: ${new Date(refund.created_at).toLocaleDateString("en-IN")}`,
+      `Against Invoice: ${invoice.invoice_number} dated ${new Date(invoice.issued_at).toLocaleDateString("en-IN")}`,
+      `Refund Reference: ${refund.razorpay_refund_id}`
+    ]);
+    renderTaxTable(
+      doc,
+      invoice,
+      { description: `Refund — ${order.service_name} — ${order.plan_name}`, totalLabel: "Total Credit" },
+      creditNoteAmounts(invoice, refund.amount_paise)
+    );
+    if (refund.reason) doc.text(`Reason: ${refund.reason}`);
+    if (refund.status === "pending") doc.text("Status: Refund initiated (pending settlement)");
+    doc.text("This is a computer-generated credit note and does not require a signature.");
 
     doc.end();
   } catch (err) {
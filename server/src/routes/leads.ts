@@ -0,0 +1,327 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import { env } from "../lib/env.js";
+import { query } from "../lib/db.js";
+import { getLegacyLeadAudit, migrateLegacyLeads } from "../lib/legacyLeads.js";
+import { logger } from "../lib/logger.js";
+import { getSupabaseAdmin } from "../lib/supabase.js";
+import { parseId } from "../lib/params.js";
+import {
+  addLeadActivity,
+  backfillLeads,
+  LEAD_ACTIVITY_COLUMNS,
+  LEAD_STAGES,
+  LEAD_TASK_COLUMNS,
+  updateLead
+} from "../lib/leads.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+// Sales pipeline for contact and hire-us submissions. Mounted after adminRouter,
+// whose GET /admin/leads/contact and /admin/leads/hire take precedence.
+export const leadsRouter = Router();
+
+// The board leaves out the raw submission data; the detail view includes it.
+function leadSelect(withData = false) {
+  return [
+    "select l.id, l.created_at, l.updated_at, l.submission_id, l.stage, l.stage_changed_at, l.lost_reason,",
+    `  l.owner_email, l.deal_value_inr, s.type,${withData ? " s.data," : ""}`,
+    "  coalesce(s.data ->> 'name', s.data ->> 'fullName', u.name) as name,",
+    "  coalesce(s.data ->> 'email', u.email) as email,",
+    "  coalesce(s.data ->> 'phone', u.phone) as phone,",
+    "  s.data ->> 'company' as company,",
+    "  coalesce(s.data ->> 'projectName', s.data ->> 'subject') as title,",
+    "  s.data ->> 'budget' as budget,",
+    "  (select count(*)::int from lead_tasks t where t.lead_id = l.id and t.completed_at is null) as open_tasks,",
+    "  (select min(t.due_at) from lead_tasks t where t.lead_id = l.id and t.completed_at is null) as next_due_at",
+    "from leads l",
+    "join submissions s on s.id = l.submission_id",
+    "left join users u on u.id = s.user_id"
+  ].join("\n");
+}
+
+const leadListSchema = z.object({
+  stage: z.enum(LEAD_STAGES).optional(),
+  type: z.enum(["contact", "hire"]).optional(),
+  // An admin email, "me" or "none" (unassigned).
+  owner: z.string().trim().max(254).optional(),
+  q: z.string().trim().max(200).default("")
+});
+
+// Admin: GET /api/admin/leads
+// Leads for the pipeline board with per-stage counts and deal value.
+leadsRouter.get("/admin/leads", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = leadListSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const owner = parsed.data.owner === "me" ? (req.user?.email ?? "").toLowerCase() : parsed.data.owner?.toLowerCase();
+    const items = await query(
+      [
+        leadSelect(),
+        "where ($1::text is null or l.stage = $1)",
+        "and ($2::text is null or s.type = $2)",
+        "and ($3::text is null or ($3 = 'none' and l.owner_email is null) or l.owner_email = $3)",
+        "and ($4::text = '' or s.data::text ilike ('%' || $4 || '%') or coalesce(u.email, '') ilike ('%' || $4 || '%'))",
+        "order by l.stage_changed_at desc",
+        "limit 1000"
+      ].join("\n"),
+      [parsed.data.stage ?? null, parsed.data.type ?? null, owner || null, parsed.data.q]
+    );
+
+    const totals = await query<{ stage: string; count: number; value_inr: number }>(
+      [
+        "select l.stage, count(*)::int as count, coalesce(sum(l.deal_value_inr), 0)::float8 as value_inr",
+        "from leads l join submissions s on s.id = l.submission_id",
+        "where ($1::text is null or s.type = $1)",
+        "group by l.stage"
+      ].join("\n"),
+      [parsed.data.type ?? null]
+    );
+
+    return res.json({ ok: true, items, totals });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: GET /api/admin/leads/legacy
+// Checks that every row in the legacy lead tables has been copied into submissions.
+leadsRouter.get("/admin/leads/legacy", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
+  try {
+    return res.json({ ok: true, ...(await getLegacyLeadAudit()) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: POST /api/admin/leads/legacy/migrate
+// Re-runs the legacy copy (normally done at startup) and returns the fresh audit.
+leadsRouter.post("/admin/leads/legacy/migrate", requireAuth, requireAdmin, async (_req: AuthedRequest, res, next) => {
+  try {
+    await migrateLegacyLeads();
+    await backfillLeads();
+    return res.json({ ok: true, ...(await getLegacyLeadAudit()) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: GET /api/admin/leads/owners
+// Admins a lead can be assigned to: profiles with the admin role, ADMIN_EMAIL
+// and anyone already owning a lead.
+leadsRouter.get("/admin/leads/owners", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const emails = new Set<string>();
+    if (env.ADMIN_EMAIL) emails.add(env.ADMIN_EMAIL.trim().toLowerCase());
+    if (req.user?.email) emails.add(req.user.email.trim().toLowerCase());
+
+    try {
+      const { data, error } = await getSupabaseAdmin().from("profiles").select("email").eq("role", "admin").limit(200);
+      if (error) throw error;
+      for (const p of data ?? []) if (typeof p.email === "string" && p.email) emails.add(p.email.trim().toLowerCase());
+    } catch (err) {
+      logger.warn({ err }, "Failed to list admin profiles for lead owners");
+    }
+
+    const owners = await query<{ owner_email: string }>(
+      "select distinct owner_email from leads where owner_email is not null"
+    );
+    for (const o of owners) emails.add(o.owner_email);
+
+    return res.json({ ok: true, owners: [...emails].sort() });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: GET /api/admin/leads/tasks
+// Open follow-ups across all leads, earliest due first.
+leadsRouter.get("/admin/leads/tasks", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const mine = req.query.assignee === "me";
+    const rows = await query(
+      [
+        "select t.id, t.created_at, t.lead_id, t.title, t.due_at, t.assignee_email, t.completed_at, t.completed_by_email,",
+        "  t.created_by_email, l.stage,",
+        "  coalesce(s.data ->> 'name', s.data ->> 'fullName') as lead_name,",
+        "  coalesce(s.data ->> 'projectName', s.data ->> 'subject') as lead_title",
+        "from lead_tasks t",
+        "join leads l on l.id = t.lead_id",
+        "join submissions s on s.id = l.submission_id",
+        "where t.completed_at is null",
+        "and ($1::text is null or t.assignee_email = $1)",
+        "order by t.due_at asc",
+        "limit 200"
+      ].join("\n"),
+      [mine ? (req.user?.email ?? "").toLowerCase() : null]
+    );
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: GET /api/admin/leads/:id
+// One lead with the original submission, its tasks and activity feed.
+leadsRouter.get("/admin/leads/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "lead");
+    const rows = await query(`${leadSelect(true)}\nwhere l.id = $1`, [id]);
+    const lead = rows[0];
+    if (!lead) throw new HttpError(404, "Lead not found", true);
+
+    const tasks = await query(
+      `select ${LEAD_TASK_COLUMNS} from lead_tasks where lead_id = $1 order by completed_at is not null, due_at asc`,
+      [id]
+    );
+    const activities = await query(
+      `select ${LEAD_ACTIVITY_COLUMNS} from lead_activities where lead_id = $1 order by created_at desc, id desc`,
+      [id]
+    );
+
+    return res.json({ ok: true, lead, tasks, activities });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const updateLeadSchema = z
+  .object({
+    stage: z.enum(LEAD_STAGES).optional(),
+    lostReason: z.string().trim().max(500).nullable().optional(),
+    ownerEmail: z.string().trim().email().max(254).nullable().optional(),
+    dealValueInr: z.number().int().min(0).max(2_000_000_000).nullable().optional()
+  })
+  .strict();
+
+// Admin: PATCH /api/admin/leads/:id
+// Move the lead, assign it, or set its deal value.
+leadsRouter.patch("/admin/leads/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "lead");
+    const parsed = updateLeadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const result = await updateLead({ leadId: id, ...parsed.data, actorEmail: req.user?.email ?? null });
+    if (!result) throw new HttpError(404, "Lead not found", true);
+
+    return res.json({ ok: true, stage: result.stage });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const noteSchema = z.object({ note: z.string().trim().min(1).max(5000) }).strict();
+
+// Admin: POST /api/admin/leads/:id/notes
+leadsRouter.post("/admin/leads/:id/notes", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "lead");
+    const parsed = noteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const exists = await query("select 1 from leads where id = $1", [id]);
+    if (!exists[0]) throw new HttpError(404, "Lead not found", true);
+
+    const activity = await addLeadActivity({ leadId: id, kind: "note", note: parsed.data.note, actorEmail: req.user?.email ?? null });
+    await query("update leads set updated_at = now() where id = $1", [id]);
+
+    return res.json({ ok: true, activity });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const createTaskSchema = z
+  .object({
+    title: z.string().trim().min(1).max(300),
+    dueAt: z.string().datetime({ offset: true }),
+    assigneeEmail: z.string().trim().email().max(254).nullable().optional()
+  })
+  .strict();
+
+// Admin: POST /api/admin/leads/:id/tasks
+// Schedule a follow-up; unassigned tasks go to the lead's owner.
+leadsRouter.post("/admin/leads/:id/tasks", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "lead");
+    const parsed = createTaskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query(
+      [
+        "insert into lead_tasks (lead_id, title, due_at, assignee_email, created_by_email)",
+        "select l.id, $2, $3, coalesce($4, l.owner_email), $5 from leads l where l.id = $1",
+        `returning ${LEAD_TASK_COLUMNS}`
+      ].join("\n"),
+      [id, parsed.data.title, parsed.data.dueAt, parsed.data.assigneeEmail?.toLowerCase() ?? null, req.user?.email ?? null]
+    );
+    if (!rows[0]) throw new HttpError(404, "Lead not found", true);
+
+    return res.json({ ok: true, task: rows[0] });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const updateTaskSchema = z.object({ completed: z.boolean() }).strict();
+
+// Admin: PATCH /api/admin/leads/:id/tasks/:taskId
+// Complete (or reopen) a follow-up. Completion is logged on the activity feed.
+leadsRouter.patch("/admin/leads/:id/tasks/:taskId", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "lead");
+    const taskId = parseId(req.params.taskId, "task");
+    const parsed = updateTaskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query<{ id: number; title: string; was_completed: boolean }>(
+      [
+        "with prev as (select id, completed_at from lead_tasks where id = $2 and lead_id = $1 for update)",
+        "update lead_tasks t set",
+        "completed_at = case when $3 then coalesce(t.completed_at, now()) else null end,",
+        "completed_by_email = case when $3 then coalesce(t.completed_by_email, $4) else null end",
+        "from prev where t.id = prev.id",
+        "returning t.id, t.title, prev.completed_at is not null as was_completed"
+      ].join("\n"),
+      [id, taskId, parsed.data.completed, req.user?.email ?? null]
+    );
+    if (!rows[0]) throw new HttpError(404, "Task not found", true);
+
+    // Completing an already-completed task is a no-op, not a second activity.
+    if (parsed.data.completed && !rows[0].was_completed) {
+      await addLeadActivity({ leadId: id, kind: "task_completed", note: rows[0].title, actorEmail: req.user?.email ?? null });
+    }
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Admin: DELETE /api/admin/leads/:id/tasks/:taskId
+leadsRouter.delete("/admin/leads/:id/tasks/:taskId", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "lead");
+    const taskId = parseId(req.params.taskId, "task");
+
+    const rows = await query("delete from lead_tasks where id = $2 and lead_id = $1 returning id", [id, taskId]);
+    if (!rows[0]) throw new HttpError(404, "Task not found", true);
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
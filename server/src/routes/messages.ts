@@ -0,0 +1,372 @@
+import { Router } from "express";
+import { z } from "zod";
+import crypto from "crypto";
+
+import { env } from "../lib/env.js";
+import { query } from "../lib/db.js";
+import { logger } from "../lib/logger.js";
+import { getPrivateBucketId, getSupabaseAdmin } from "../lib/supabase.js";
+import {
+  clientOwnsThread,
+  ensureThreadId,
+  findThreadId,
+  listThreadMessages,
+  loadThreadTarget,
+  markThreadRead,
+  parseThreadKind,
+  postThreadMessage,
+  unreadCountSql,
+  type MessageAttachment,
+  type ThreadKind,
+  type ThreadTarget
+} from "../lib/messages.js";
+import { sendAdminReplyToClientEmail, sendClientMessageToAdminEmail } from "../lib/email/resend.js";
+import { parseId, safeBaseName } from "../lib/params.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const messagesRouter = Router();
+
+const attachmentMimeTypes: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/msword": "doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.ms-excel": "xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/zip": "zip",
+  "application/x-zip-compressed": "zip",
+  "text/plain": "txt",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif"
+};
+
+async function resolveThread(rawKind: string, rawId: string) {
+  const kind = parseThreadKind(rawKind);
+  if (!kind) throw new HttpError(404, "Thread not found", true);
+  const target = await loadThreadTarget(kind, parseId(rawId, kind));
+  if (!target) throw new HttpError(404, "Thread not found", true);
+  return target;
+}
+
+async function resolveClientThread(req: AuthedRequest) {
+  if (!req.user) throw new HttpError(401, "Unauthorized", true);
+  const target = await resolveThread(req.params.kind, req.params.id);
+  if (!clientOwnsThread(target, req.user)) throw new HttpError(404, "Thread not found", true);
+  return target;
+}
+
+function portalPathFor(target: ThreadTarget) {
+  return target.kind === "order" ? "/portal" : "/submissions";
+}
+
+// Uploads go under messages/<local user id>/ so a message can only reference
+// files its author uploaded.
+function ownUploadPrefix(req: AuthedRequest) {
+  return `messages/${req.user?.sub}/`;
+}
+
+const attachmentSchema = z
+  .object({
+    path: z.string().min(1).max(800),
+    name: z.string().min(1).max(200),
+    type: z.string().min(1).max(120),
+    size: z.number().int().positive()
+  })
+  .strict();
+
+const postMessageSchema = z
+  .object({
+    body: z.string().trim().max(5000).default(""),
+    attachments: z.array(attachmentSchema).max(5).default([])
+  })
+  .strict()
+  .refine((v) => v.body.length > 0 || v.attachments.length > 0, {
+    message: "Write a message or attach a file",
+    path: ["body"]
+  });
+
+function parseMessage(req: AuthedRequest) {
+  const parsed = postMessageSchema.safeParse(req.body);
+  if (!parsed.success) return { error: parsed.error.flatten() } as const;
+
+  const prefix = ownUploadPrefix(req);
+  if (parsed.data.attachments.some((a) => !a.path.startsWith(prefix))) {
+    throw new HttpError(400, "Invalid attachment", true);
+  }
+  return { data: parsed.data as { body: string; attachments: MessageAttachment[] } } as const;
+}
+
+const createUploadUrlSchema = z
+  .object({
+    fileName: z.string().min(1).max(200),
+    fileType: z.string().min(1).max(120),
+    fileSize: z.number().int().positive()
+  })
+  .strict();
+
+// POST /api/messages/upload-url
+// Signed upload URL into the private bucket for a message attachment.
+messagesRouter.post("/messages/upload-url", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = createUploadUrlSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const userId = req.user?.sub;
+    if (!Number.isFinite(userId)) throw new HttpError(401, "Unauthorized", true);
+
+    const { fileName, fileType, fileSize } = parsed.data;
+
+    const ext = attachmentMimeTypes[fileType];
+    if (!ext) {
+      throw new HttpError(400, "Unsupported file type. Attach a PDF, Office document, image, text or ZIP file.", true);
+    }
+
+    if (fileSize > env.ATTACHMENT_UPLOAD_MAX_BYTES) {
+      throw new HttpError(400, `File too large. Max size is ${Math.floor(env.ATTACHMENT_UPLOAD_MAX_BYTES / (1024 * 1024))}MB.`, true);
+    }
+
+    const now = new Date();
+    const yyyy = String(now.getUTCFullYear());
+    const mm = String(now.getUTCMonth() + 1).padStart(2, "0");
+    const dd = String(now.getUTCDate()).padStart(2, "0");
+
+    const rand = crypto.randomBytes(12).toString("hex");
+    const path = `${ownUploadPrefix(req)}${yyyy}-${mm}-${dd}/${safeBaseName(fileName)}-${rand}.${ext}`;
+
+    const supabase = getSupabaseAdmin();
+    const bucket = getPrivateBucketId();
+
+    const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+    if (error || !data) {
+      throw new HttpError(502, "Failed to create upload URL. Check Supabase Storage configuration.", true);
+    }
+
+    return res.json({ ok: true, bucket, path: data.path, token: data.token, signedUrl: data.signedUrl });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// GET /api/messages/:messageId/attachments/:index
+// Short-lived signed download URL, for admins or the client who owns the thread.
+messagesRouter.get("/messages/:messageId/attachments/:index", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user) throw new HttpError(401, "Unauthorized", true);
+
+    const messageId = parseId(req.params.messageId, "message");
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0) throw new HttpError(400, "Invalid attachment", true);
+
+    const rows = await query<{ attachments: MessageAttachment[]; order_id: number | null; submission_id: number | null }>(
+      [
+        "select m.attachments, t.order_id, t.submission_id",
+        "from thread_messages m join message_threads t on t.id = m.thread_id",
+        "where m.id = $1 limit 1"
+      ].join("\n"),
+      [messageId]
+    );
+    const row = rows[0];
+    const attachment = row?.attachments[index];
+    if (!row || !attachment) throw new HttpError(404, "Attachment not found", true);
+
+    if (req.user.role !== "admin") {
+      const kind: ThreadKind = row.order_id ? "order" : "submission";
+      const target = await loadThreadTarget(kind, (row.order_id ?? row.submission_id)!);
+      if (!target || !clientOwnsThread(target, req.user)) throw new HttpError(404, "Attachment not found", true);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase.storage
+      .from(getPrivateBucketId())
+      .createSignedUrl(attachment.path, 600, { download: attachment.name });
+    if (error || !data?.signedUrl) {
+      throw new HttpError(502, "Failed to create signed URL. Check Supabase Storage configuration.", true);
+    }
+
+    return res.json({ ok: true, url: data.signedUrl, expiresInSeconds: 600 });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Client portal ─────────────────────────────────────────────────────────────
+messagesRouter.get("/portal/messages/unread", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user) throw new HttpError(401, "Unauthorized", true);
+
+    const rows = await query<{ order_id: number | null; submission_id: number | null; unread: number }>(
+      [
+        `select t.order_id, t.submission_id, ${unreadCountSql("client")} as unread`,
+        "from message_threads t",
+        "left join orders o on o.id = t.order_id",
+        "left join submissions s on s.id = t.submission_id",
+        "where (o.id is not null and lower(o.email) = $1) or (s.id is not null and s.supabase_uid = $2)"
+      ].join("\n"),
+      [(req.user.email ?? "").toLowerCase(), req.user.id ?? ""]
+    );
+
+    const orders: Record<number, number> = {};
+    const submissions: Record<number, number> = {};
+    for (const r of rows) {
+      if (r.unread === 0) continue;
+      if (r.order_id) orders[r.order_id] = r.unread;
+      if (r.submission_id) submissions[r.submission_id] = r.unread;
+    }
+
+    return res.json({ ok: true, total: rows.reduce((sum, r) => sum + r.unread, 0), orders, submissions });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+messagesRouter.get("/portal/threads/:kind/:id/messages", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const target = await resolveClientThread(req);
+
+    const threadId = await findThreadId(target.kind, target.id);
+    if (!threadId) return res.json({ ok: true, items: [] });
+
+    const items = await listThreadMessages(threadId);
+    await markThreadRead(threadId, "client");
+
+    return res.json({ ok: true, items });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+messagesRouter.post("/portal/threads/:kind/:id/messages", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const target = await resolveClientThread(req);
+
+    const parsed = parseMessage(req);
+    if ("error" in parsed) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error });
+    }
+
+    const threadId = await ensureThreadId(target.kind, target.id);
+    const message = await postThreadMessage({
+      threadId,
+      role: "client",
+      authorEmail: req.user?.email ?? null,
+      ...parsed.data
+    });
+
+    void sendClientMessageToAdminEmail({
+      threadLabel: target.label,
+      fromEmail: req.user?.email ?? target.clientEmail,
+      body: message.body,
+      attachmentCount: message.attachments.length
+    }).catch((err) => logger.warn({ err, threadId }, "Message notification email failed"));
+
+    return res.json({ ok: true, message });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Admin inbox ───────────────────────────────────────────────────────────────
+messagesRouter.get("/admin/threads", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const unreadOnly = req.query.unread === "1" || req.query.unread === "true";
+
+    const rows = await query(
+      [
+        "select * from (",
+        "  select t.id, t.order_id, t.submission_id, t.last_message_at,",
+        `  ${unreadCountSql("admin")} as unread,`,
+        "  coalesce(o.email, s.data->>'email', u.email) as client_email,",
+        "  coalesce(o.name, s.data->>'name', s.data->>'fullName', u.name) as client_name,",
+        "  case when t.order_id is not null then 'Order #' || o.id || ' · ' || o.service_name",
+        "       else initcap(s.type) || ' #' || s.id end as label,",
+        "  (select left(m.body, 160) from thread_messages m where m.thread_id = t.id order by m.created_at desc, m.id desc limit 1) as last_body,",
+        "  (select m.author_role from thread_messages m where m.thread_id = t.id order by m.created_at desc, m.id desc limit 1) as last_author_role",
+        "  from message_threads t",
+        "  left join orders o on o.id = t.order_id",
+        "  left join submissions s on s.id = t.submission_id",
+        "  left join users u on u.id = s.user_id",
+        "  where t.last_message_at is not null",
+        ") x",
+        unreadOnly ? "where x.unread > 0" : "",
+        "order by x.last_message_at desc",
+        "limit 200"
+      ].join("\n")
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+messagesRouter.get("/admin/threads/unread-count", requireAuth, requireAdmin, async (_req, res, next) => {
+  try {
+    const rows = await query<{ total: number }>(
+      `select coalesce(sum(${unreadCountSql("admin")}),0)::int as total from message_threads t`
+    );
+    return res.json({ ok: true, total: rows[0]?.total ?? 0 });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+messagesRouter.get("/admin/threads/:kind/:id/messages", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const target = await resolveThread(req.params.kind, req.params.id);
+
+    const threadId = await findThreadId(target.kind, target.id);
+    const items = threadId ? await listThreadMessages(threadId) : [];
+    if (threadId) await markThreadRead(threadId, "admin");
+
+    return res.json({
+      ok: true,
+      thread: { kind: target.kind, id: target.id, label: target.label, clientName: target.clientName, clientEmail: target.clientEmail },
+      items
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+messagesRouter.post("/admin/threads/:kind/:id/messages", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const target = await resolveThread(req.params.kind, req.params.id);
+
+    const parsed = parseMessage(req);
+    if ("error" in parsed) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error });
+    }
+
+    const threadId = await ensureThreadId(target.kind, target.id);
+    const message = await postThreadMessage({
+      threadId,
+      role: "admin",
+      authorEmail: req.user?.email ?? null,
+      ...parsed.data
+    });
+
+    let emailed = false;
+    if (target.clientEmail) {
+      try {
+        emailed = !!(await sendAdminReplyToClientEmail({
+          to: target.clientEmail,
+          clientName: target.clientName,
+          threadLabel: target.label,
+          body: message.body,
+          attachmentCount: message.attachments.length,
+          portalPath: portalPathFor(target)
+        }));
+      } catch (err) {
+        logger.warn({ err, threadId }, "Message notification email failed");
+      }
+    }
+
+    return res.json({ ok: true, message, emailed });
+  } catch (err) {
+    return next(err);
+  }
+});
@@ -0,0 +1,253 @@
+import { Router } from "express";
+import { z } from "zod";
+import crypto from "crypto";
+
+import { env } from "../lib/env.js";
+import { query, withTransaction } from "../lib/db.js";
+import { getRazorpayClient } from "../lib/razorpay.js";
+import { markMilestonePaid, syncOrderMilestoneStatus } from "../lib/payments.js";
+import { parseId } from "../lib/params.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const milestonesRouter = Router();
+
+const milestoneColumns = [
+  "m.id, m.created_at, m.position, m.label, m.amount_inr, m.due_date, m.status, m.paid_at,",
+  "(select i.invoice_number from invoices i where i.milestone_id = m.id limit 1) as invoice_number"
+].join(" ");
+
+// ── Admin: payment schedule ───────────────────────────────────────────────────
+milestonesRouter.get("/admin/orders/:id/milestones", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const orderId = parseId(req.params.id, "order");
+
+    const rows = await query(
+      `select ${milestoneColumns} from order_milestones m where m.order_id = $1 order by m.position, m.id`,
+      [orderId]
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const scheduleSchema = z
+  .object({
+    // Unpaid milestones only; paid ones are kept as they are.
+    milestones: z
+      .array(
+        z
+          .object({
+            label: z.string().trim().min(1).max(120),
+            amountInr: z.number().int().positive(),
+            dueDate: z
+              .string()
+              .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+              .nullable()
+              .optional()
+          })
+          .strict()
+      )
+      .max(12)
+  })
+  .strict();
+
+// Replace the unpaid part of an order's schedule. Paid milestones plus the new
+// ones must add up to the order total. An empty list (with nothing paid yet)
+// removes the schedule and the order goes back to a single payment.
+milestonesRouter.put("/admin/orders/:id/milestones", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const orderId = parseId(req.params.id, "order");
+
+    const parsed = scheduleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    await withTransaction(async (db) => {
+      const orderRes = await db.query<{ price_inr: number; payment_status: string; razorpay_payment_id: string | null }>(
+        "select price_inr, payment_status, razorpay_payment_id from orders where id = $1 for update",
+        [orderId]
+      );
+      const order = orderRes.rows[0];
+      if (!order) throw new HttpError(404, "Order not found", true);
+      if (order.razorpay_payment_id || order.payment_status === "paid" || order.payment_status === "refunded") {
+        throw new HttpError(400, "This order has already been paid in full", true);
+      }
+
+      const paidRes = await db.query<{ count: number; total: number }>(
+        "select count(*)::int as count, coalesce(sum(amount_inr),0)::int as total from order_milestones where order_id = $1 and status = 'paid'",
+        [orderId]
+      );
+      const paid = paidRes.rows[0] ?? { count: 0, total: 0 };
+
+      // A milestone the client has started paying has a Razorpay order that can
+      // still be captured; replacing it would leave that payment with nothing to settle.
+      const openRes = await db.query(
+        "select 1 from order_milestones where order_id = $1 and status <> 'paid' and razorpay_order_id is not null limit 1",
+        [orderId]
+      );
+      if (openRes.rows[0]) {
+        throw new HttpError(400, "A milestone payment has already been started; the schedule can no longer be changed", true);
+      }
+
+      const items = parsed.data.milestones;
+      if (items.length === 0 && paid.count > 0) {
+        throw new HttpError(400, "Cannot remove the schedule after a milestone has been paid", true);
+      }
+
+      const scheduledInr = items.reduce((sum, m) => sum + m.amountInr, 0);
+      if (items.length > 0 && paid.total + scheduledInr !== order.price_inr) {
+        throw new HttpError(
+          400,
+          `Milestones must add up to the order total of ₹${order.price_inr.toLocaleString("en-IN")}` +
+            (paid.total > 0 ? ` (₹${paid.total.toLocaleString("en-IN")} already paid)` : ""),
+          true
+        );
+      }
+
+      await db.query("delete from order_milestones where order_id = $1 and status <> 'paid'", [orderId]);
+
+      for (const [i, m] of items.entries()) {
+        await db.query(
+          "insert into order_milestones (order_id, position, label, amount_inr, due_date) values ($1,$2,$3,$4,$5)",
+          [orderId, paid.count + i, m.label, m.amountInr, m.dueDate ?? null]
+        );
+      }
+    });
+
+    await syncOrderMilestoneStatus(orderId);
+
+    const rows = await query(
+      `select ${milestoneColumns} from order_milestones m where m.order_id = $1 order by m.position, m.id`,
+      [orderId]
+    );
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Client portal: pay a milestone ────────────────────────────────────────────
+milestonesRouter.post(
+  "/portal/orders/:orderId/milestones/:milestoneId/pay",
+  requireAuth,
+  async (req: AuthedRequest, res, next) => {
+    try {
+      if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+
+      const orderId = parseId(req.params.orderId, "order");
+      const milestoneId = parseId(req.params.milestoneId, "milestone");
+
+      const rows = await query<{
+        id: number;
+        amount_inr: number;
+        status: string;
+        razorpay_order_id: string | null;
+        email: string;
+        payment_status: string;
+      }>(
+        [
+          "select m.id, m.amount_inr, m.status, m.razorpay_order_id, o.email, o.payment_status",
+          "from order_milestones m join orders o on o.id = m.order_id",
+          "where m.id = $1 and m.order_id = $2",
+          "limit 1"
+        ].join("\n"),
+        [milestoneId, orderId]
+      );
+
+      const milestone = rows[0];
+      if (!milestone || milestone.email.toLowerCase() !== req.user.email.toLowerCase()) {
+        throw new HttpError(404, "Milestone not found", true);
+      }
+      if (milestone.status === "paid") throw new HttpError(400, "This milestone is already paid", true);
+      if (milestone.payment_status === "refunded") throw new HttpError(400, "This order has been refunded", true);
+
+      const client = getRazorpayClient();
+      if (!client) throw new HttpError(503, "Payments not configured", true);
+
+      const amountPaise = milestone.amount_inr * 100;
+
+      // Reuse the Razorpay order while it is still open so a retried checkout
+      // cannot produce two captures for the same milestone.
+      let razorpayOrderId = milestone.status === "pending" ? milestone.razorpay_order_id : null;
+      if (!razorpayOrderId) {
+        const rpOrder = await client.orders.create({
+          amount: amountPaise,
+          currency: "INR",
+          receipt: `hz_${orderId}_m${milestoneId}`
+        });
+        razorpayOrderId = rpOrder.id;
+
+        await query(
+          "update order_milestones set razorpay_order_id = $1, status = 'pending', updated_at = now() where id = $2",
+          [razorpayOrderId, milestoneId]
+        );
+      }
+
+      return res.json({
+        ok: true,
+        orderId,
+        milestoneId,
+        razorpay: {
+          keyId: env.RAZORPAY_KEY_ID,
+          orderId: razorpayOrderId,
+          amount: amountPaise,
+          currency: "INR"
+        }
+      });
+    } catch (err) {
+      return next(err);
+    }
+  }
+);
+
+const verifyMilestoneSchema = z.object({
+  milestoneId: z.number().int().positive(),
+  razorpayOrderId: z.string().min(1),
+  razorpayPaymentId: z.string().min(1),
+  razorpaySignature: z.string().min(1)
+});
+
+milestonesRouter.post("/payments/milestones/verify", async (req, res, next) => {
+  try {
+    const parsed = verifyMilestoneSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    if (!env.RAZORPAY_KEY_SECRET) throw new HttpError(503, "Payments not configured", true);
+
+    const rows = await query<{ id: number; status: string; razorpay_order_id: string | null }>(
+      "select id, status, razorpay_order_id from order_milestones where id = $1 limit 1",
+      [parsed.data.milestoneId]
+    );
+
+    const milestone = rows[0];
+    if (!milestone) throw new HttpError(404, "Milestone not found", true);
+    if (milestone.status === "paid") return res.json({ ok: true, alreadyPaid: true });
+
+    if (milestone.razorpay_order_id !== parsed.data.razorpayOrderId) {
+      throw new HttpError(400, "Order mismatch", true);
+    }
+
+    const body = `${parsed.data.razorpayOrderId}|${parsed.data.razorpayPaymentId}`;
+    const expected = crypto.createHmac("sha256", env.RAZORPAY_KEY_SECRET).update(body).digest("hex");
+    if (expected !== parsed.data.razorpaySignature) {
+      throw new HttpError(400, "Invalid payment signature", true);
+    }
+
+    const invoiceNumber = await markMilestonePaid({
+      milestoneId: milestone.id,
+      razorpayOrderId: parsed.data.razorpayOrderId,
+      razorpayPaymentId: parsed.data.razorpayPaymentId,
+      razorpaySignature: parsed.data.razorpaySignature
+    });
+
+    return res.json({ ok: true, invoiceNumber });
+  } catch (err) {
+    return next(err);
+  }
+});
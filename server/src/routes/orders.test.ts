@@ -0,0 +1,126 @@
+import { insertOrder, useTestDatabase } from "../test/db.js";
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+import { createApp } from "../app.js";
+import { ordersRouter } from "./orders.js";
+import { errorHandler } from "../middleware/errorHandler.js";
+
+const db = await useTestDatabase();
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = createApp();
+  app.use("/api", ordersRouter);
+  app.use(errorHandler);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await db.close();
+});
+
+function capturedEvent(razorpayOrderId: string, amountPaise: number, paymentId = "pay_test_1") {
+  return {
+    event: "payment.captured",
+    payload: {
+      payment: {
+        entity: { id: paymentId, order_id: razorpayOrderId, amount: amountPaise, currency: "INR" }
+      }
+    }
+  };
+}
+
+async function deliver(event: unknown, opts: { eventId?: string; secret?: string } = {}) {
+  const body = JSON.stringify(event);
+  const signature = crypto
+    .createHmac("sha256", opts.secret ?? process.env.RAZORPAY_WEBHOOK_SECRET!)
+    .update(body)
+    .digest("hex");
+  const res = await fetch(`${baseUrl}/api/payments/webhook`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-razorpay-signature": signature,
+      ...(opts.eventId ? { "x-razorpay-event-id": opts.eventId } : {})
+    },
+    body
+  });
+  return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+}
+
+async function orderState(orderId: number) {
+  const res = await db.query<{ payment_status: string; invoices: number }>(
+    "select payment_status, (select count(*)::int from invoices i where i.order_id = o.id) as invoices from orders o where o.id = $1",
+    [orderId]
+  );
+  return res.rows[0];
+}
+
+async function webhookOutcome(eventId: string) {
+  const res = await db.query<{ outcome: string | null }>("select outcome from payment_webhook_events where event_id = $1", [
+    eventId
+  ]);
+  return res.rows[0]?.outcome;
+}
+
+test("rejects a webhook signed with the wrong secret", async () => {
+  const orderId = await insertOrder(db, { razorpayOrderId: "order_sig" });
+
+  const res = await deliver(capturedEvent("order_sig", 118000), { eventId: "evt_sig", secret: "not-the-secret" });
+
+  assert.equal(res.status, 400);
+  assert.equal(await webhookOutcome("evt_sig"), undefined);
+  assert.equal((await orderState(orderId)).payment_status, "pending");
+});
+
+test("settles an order once when Razorpay delivers the same event twice", async () => {
+  const orderId = await insertOrder(db, { razorpayOrderId: "order_dup" });
+  const event = capturedEvent("order_dup", 118000, "pay_dup");
+
+  const first = await deliver(event, { eventId: "evt_dup" });
+  const second = await deliver(event, { eventId: "evt_dup" });
+
+  assert.deepEqual(first.body, { ok: true });
+  assert.deepEqual(second.body, { ok: true, duplicate: true });
+  assert.equal(await webhookOutcome("evt_dup"), "paid");
+  assert.deepEqual(await orderState(orderId), { payment_status: "paid", invoices: 1 });
+});
+
+test("recognises a replayed payload without an event id", async () => {
+  await insertOrder(db, { razorpayOrderId: "order_replay" });
+  const event = capturedEvent("order_replay", 118000, "pay_replay");
+
+  await deliver(event);
+  const replay = await deliver(event);
+
+  assert.deepEqual(replay.body, { ok: true, duplicate: true });
+});
+
+test("leaves the order unpaid when the captured amount does not match", async () => {
+  const orderId = await insertOrder(db, { razorpayOrderId: "order_short" });
+
+  await deliver(capturedEvent("order_short", 100, "pay_short"), { eventId: "evt_short" });
+
+  assert.equal(await webhookOutcome("evt_short"), "amount_mismatch");
+  assert.deepEqual(await orderState(orderId), { payment_status: "pending", invoices: 0 });
+});
+
+test("leaves the order unpaid when the payment is not in rupees", async () => {
+  const orderId = await insertOrder(db, { razorpayOrderId: "order_usd" });
+  const event = capturedEvent("order_usd", 118000, "pay_usd");
+  event.payload.payment.entity.currency = "USD";
+
+  await deliver(event, { eventId: "evt_usd" });
+
+  assert.equal(await webhookOutcome("evt_usd"), "amount_mismatch");
+  assert.equal((await orderState(orderId)).payment_status, "pending");
+});
@@ -1,20 +1,38 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
 import { z } from "zod";
 import crypto from "crypto";
 
 import { env } from "../lib/env.js";
-import { query } from "../lib/db.js";
+import { query, withTransaction } from "../lib/db.js";
+import { logger } from "../lib/logger.js";
+import { billingDetailsSchema, gstinMatchesState } from "../lib/gst.js";
+import { evaluateCoupon } from "../lib/coupons.js";
+import { resolveReferralCode } from "../lib/referrals.js";
 import { getRazorpayClient } from "../lib/razorpay.js";
+import {
+  findOrderIdByPaymentId,
+  listRefundablePayments,
+  markMilestonePaid,
+  markOrderPaid,
+  orderHasMilestones,
+  recordRefund
+} from "../lib/payments.js";
+import { changeProjectStatus, ORDER_STATUS_EVENT_COLUMNS, PROJECT_STATUSES } from "../lib/projectStatus.js";
+import { recordSubscriptionCharge, syncSubscriptionState } from "../lib/subscriptions.js";
 import { HttpError } from "../middleware/errorHandler.js";
 import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
 
 export const ordersRouter = Router();
 
-const createOrderSchema = z.object({
-  pricingId: z.number().int().positive(),
-  name: z.string().min(2).max(120),
-  email: z.string().email().max(254)
-});
+const createOrderSchema = billingDetailsSchema
+  .extend({
+    pricingId: z.number().int().positive(),
+    name: z.string().min(2).max(120),
+    email: z.string().email().max(254),
+    couponCode: z.string().trim().min(1).max(40).optional(),
+    referralCode: z.string().trim().max(32).optional()
+  })
+  .refine(gstinMatchesState.check, gstinMatchesState.params);
 
 ordersRouter.post("/orders", async (req, res, next) => {
   try {
@@ -30,40 +48,99 @@ ordersRouter.post("/orders", async (req, res, next) => {
       plan_key: string;
       plan_name: string;
       price_inr: number;
+      sac_code: string | null;
       is_active: boolean;
+      billing_interval: string;
     }>(
-      "select id, service_key, service_name, plan_key, plan_name, price_inr, is_active from services_pricing where id = $1 limit 1",
+      [
+        "select id, service_key, service_name, plan_key, plan_name, price_inr, sac_code, is_active, billing_interval",
+        "from services_pricing where id = $1 limit 1"
+      ].join("\n"),
       [parsed.data.pricingId]
     );
 
     const pricing = pricingRows[0];
     if (!pricing || !pricing.is_active) throw new HttpError(400, "Pricing plan not available", true);
-
-    const amountPaise = pricing.price_inr * 100;
+    if (pricing.billing_interval !== "one_time") {
+      throw new HttpError(400, "Recurring plans are billed as subscriptions", true);
+    }
 
     const client = getRazorpayClient();
     if (!client) {
       throw new HttpError(503, "Payments not configured", true);
     }
 
-    const orderInsert = await query<{ id: number }>(
-      "insert into orders (name, email, service_key, service_name, plan_key, plan_name, price_inr, payment_status) values ($1,$2,$3,$4,$5,$6,$7,'pending') returning id",
-      [parsed.data.name, parsed.data.email.toLowerCase(), pricing.service_key, pricing.service_name, pricing.plan_key, pricing.plan_name, pricing.price_inr]
-    );
+    const email = parsed.data.email.toLowerCase();
 
-    const localOrderId = orderInsert[0]?.id;
-    if (!localOrderId) throw new HttpError(500, "Failed to create order");
+    // Coupon check, order insert and redemption share one transaction so usage
+    // caps cannot be overshot by concurrent checkouts. The Razorpay order is
+    // created before it commits, so a failed call leaves no pending order
+    // holding a coupon use.
+    const created = await withTransaction(async (db) => {
+      const applied = parsed.data.couponCode
+        ? await evaluateCoupon(db, {
+            code: parsed.data.couponCode,
+            serviceKey: pricing.service_key,
+            priceInr: pricing.price_inr,
+            email,
+            lock: true
+          })
+        : null;
 
-    const rpOrder = await client.orders.create({
-      amount: amountPaise,
-      currency: "INR",
-      receipt: `hz_${localOrderId}`
+      const discountInr = applied?.discountInr ?? 0;
+      const finalPriceInr = pricing.price_inr - discountInr;
+      const referralCodeId = await resolveReferralCode(db, { code: parsed.data.referralCode, email });
+
+      const orderInsert = await db.query<{ id: number }>(
+        [
+          "insert into orders (name, email, service_key, service_name, plan_key, plan_name, price_inr, payment_status,",
+          "customer_gstin, billing_address, place_of_supply, sac_code, list_price_inr, discount_inr, coupon_code, referral_code_id)",
+          "values ($1,$2,$3,$4,$5,$6,$7,'pending',$8,$9,$10,$11,$12,$13,$14,$15) returning id"
+        ].join("\n"),
+        [
+          parsed.data.name,
+          email,
+          pricing.service_key,
+          pricing.service_name,
+          pricing.plan_key,
+          pricing.plan_name,
+          finalPriceInr,
+          parsed.data.gstin ?? null,
+          parsed.data.billingAddress,
+          parsed.data.placeOfSupply,
+          pricing.sac_code,
+          pricing.price_inr,
+          discountInr,
+          applied?.coupon.code ?? null,
+          referralCodeId
+        ]
+      );
+
+      const orderId = orderInsert.rows[0]?.id;
+      if (!orderId) throw new HttpError(500, "Failed to create order");
+
+      if (applied) {
+        await db.query(
+          "insert into coupon_redemptions (coupon_id, order_id, email, discount_inr) values ($1,$2,$3,$4)",
+          [applied.coupon.id, orderId, email, discountInr]
+        );
+      }
+
+      const amountPaise = finalPriceInr * 100;
+      const rpOrder = await client.orders.create({
+        amount: amountPaise,
+        currency: "INR",
+        receipt: `hz_${orderId}`
+      });
+
+      await db.query("update orders set razorpay_order_id = $1 where id = $2", [rpOrder.id, orderId]);
+
+      return { orderId, amountPaise, rpOrder };
     });
 
-    await query(
-      "update orders set razorpay_order_id = $1 where id = $2",
-      [rpOrder.id, localOrderId]
-    );
+    const localOrderId = created.orderId;
+    const amountPaise = created.amountPaise;
+    const rpOrder = created.rpOrder;
 
     return res.json({
       ok: true,
@@ -110,6 +187,11 @@ ordersRouter.post("/payments/verify", async (req, res, next) => {
     if (order.razorpay_order_id && order.razorpay_order_id !== parsed.data.razorpayOrderId) {
       throw new HttpError(400, "Order mismatch", true);
     }
+    // Once an admin splits the order into milestones, the original checkout
+    // order for the full amount no longer settles it.
+    if (await orderHasMilestones(order.id)) {
+      throw new HttpError(400, "This order is paid in milestones", true);
+    }
 
     const body = `${parsed.data.razorpayOrderId}|${parsed.data.razorpayPaymentId}`;
     const expected = crypto.createHmac("sha256", env.RAZORPAY_KEY_SECRET).update(body).digest("hex");
@@ -117,20 +199,235 @@ ordersRouter.post("/payments/verify", async (req, res, next) => {
       throw new HttpError(400, "Invalid payment signature", true);
     }
 
-    // Mark paid (idempotent-ish). Unique index prevents duplicate payment ids.
+    const invoiceNumber = await markOrderPaid({
+      orderId: parsed.data.orderId,
+      razorpayOrderId: parsed.data.razorpayOrderId,
+      razorpayPaymentId: parsed.data.razorpayPaymentId,
+      razorpaySignature: parsed.data.razorpaySignature
+    });
+
+    return res.json({ ok: true, invoiceNumber });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Razorpay webhooks (server-to-server). Reconciles orders even when the
+// customer closes the tab before the browser calls /payments/verify.
+const webhookEntitySchema = z.object({ id: z.string().min(1) }).passthrough();
+
+const webhookEventSchema = z.object({
+  event: z.string().min(1),
+  payload: z
+    .object({
+      payment: z
+        .object({
+          entity: webhookEntitySchema.extend({
+            order_id: z.string().nullish(),
+            invoice_id: z.string().nullish(),
+            amount: z.number().int().nonnegative().optional(),
+            currency: z.string().optional()
+          })
+        })
+        .optional(),
+      order: z.object({ entity: webhookEntitySchema }).optional(),
+      subscription: z
+        .object({
+          entity: webhookEntitySchema.extend({
+            status: z.string().min(1),
+            current_start: z.number().int().nullish(),
+            current_end: z.number().int().nullish(),
+            paid_count: z.number().int().nullish()
+          })
+        })
+        .optional(),
+      refund: z
+        .object({
+          entity: webhookEntitySchema.extend({
+            payment_id: z.string().min(1),
+            amount: z.number().int().nonnegative()
+          })
+        })
+        .optional()
+    })
+    .passthrough()
+});
+
+type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+function isValidWebhookSignature(rawBody: Buffer, signature: string, secret: string) {
+  const expected = crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+  const a = Buffer.from(expected, "utf8");
+  const b = Buffer.from(signature, "utf8");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+async function findOrderByRazorpayOrderId(razorpayOrderId: string) {
+  const rows = await query<{ id: number; payment_status: string; price_inr: number }>(
+    "select id, payment_status, price_inr from orders where razorpay_order_id = $1 limit 1",
+    [razorpayOrderId]
+  );
+  return rows[0];
+}
+
+async function findMilestoneByRazorpayOrderId(razorpayOrderId: string) {
+  const rows = await query<{ id: number; amount_inr: number }>(
+    "select id, amount_inr from order_milestones where razorpay_order_id = $1 limit 1",
+    [razorpayOrderId]
+  );
+  return rows[0];
+}
+
+// A captured payment settles an order or milestone only if it is for exactly
+// the amount we asked for, in rupees.
+function paymentMatches(payment: { amount?: number; currency?: string }, expectedPaise: number) {
+  return payment.amount === expectedPaise && payment.currency === "INR";
+}
+
+async function handleWebhookEvent(event: WebhookEvent) {
+  const payment = event.payload.payment?.entity;
+
+  // Subscription lifecycle (authenticated, activated, charged, pending, halted,
+  // paused, resumed, cancelled, completed). Renewals carry the charge payment.
+  if (event.event.startsWith("subscription.")) {
+    const subscription = event.payload.subscription?.entity;
+    if (!subscription) return "ignored";
+
+    const synced = await syncSubscriptionState(subscription);
+    if (!synced) return "unknown_subscription";
+
+    if (event.event === "subscription.charged" && payment) {
+      await recordSubscriptionCharge({
+        razorpaySubscriptionId: subscription.id,
+        razorpayPaymentId: payment.id,
+        razorpayInvoiceId: payment.invoice_id ?? null,
+        amountPaise: payment.amount ?? 0,
+        periodStart: subscription.current_start,
+        periodEnd: subscription.current_end
+      });
+      return "subscription_charged";
+    }
+    return `subscription_${subscription.status}`;
+  }
+
+  switch (event.event) {
+    case "payment.captured":
+    case "order.paid": {
+      const razorpayOrderId = payment?.order_id ?? event.payload.order?.entity.id;
+      if (!payment || !razorpayOrderId) return "ignored";
+
+      const order = await findOrderByRazorpayOrderId(razorpayOrderId);
+      if (!order) {
+        const milestone = await findMilestoneByRazorpayOrderId(razorpayOrderId);
+        if (!milestone) return "unknown_order";
+        if (!paymentMatches(payment, milestone.amount_inr * 100)) {
+          logger.warn({ milestoneId: milestone.id, paymentId: payment.id }, "Razorpay payment does not match milestone amount");
+          return "amount_mismatch";
+        }
+
+        await markMilestonePaid({ milestoneId: milestone.id, razorpayOrderId, razorpayPaymentId: payment.id });
+        return "milestone_paid";
+      }
+
+      if (await orderHasMilestones(order.id)) {
+        logger.warn({ orderId: order.id, paymentId: payment.id }, "Razorpay payment for an order that is now paid in milestones");
+        return "superseded_by_schedule";
+      }
+      if (!paymentMatches(payment, order.price_inr * 100)) {
+        logger.warn({ orderId: order.id, paymentId: payment.id }, "Razorpay payment does not match order amount");
+        return "amount_mismatch";
+      }
+
+      await markOrderPaid({ orderId: order.id, razorpayOrderId, razorpayPaymentId: payment.id });
+      return "paid";
+    }
+
+    case "payment.failed": {
+      if (!payment?.order_id) return "ignored";
+
+      await query(
+        "update orders set payment_status = 'failed' where razorpay_order_id = $1 and payment_status = 'pending'",
+        [payment.order_id]
+      );
+      await query(
+        "update order_milestones set status = 'failed', updated_at = now() where razorpay_order_id = $1 and status = 'pending'",
+        [payment.order_id]
+      );
+      return "failed";
+    }
+
+    case "refund.processed":
+    case "refund.failed": {
+      const refund = event.payload.refund?.entity;
+      if (!refund) return "ignored";
+
+      const orderId = await findOrderIdByPaymentId(refund.payment_id);
+      if (!orderId) return "unknown_order";
+
+      // Covers refunds issued from the Razorpay dashboard as well as our own.
+      const failed = event.event === "refund.failed";
+      await recordRefund({
+        orderId,
+        razorpayPaymentId: refund.payment_id,
+        razorpayRefundId: refund.id,
+        amountPaise: refund.amount,
+        status: failed ? "failed" : "processed"
+      });
+      return failed ? "refund_failed" : "refunded";
+    }
+
+    default:
+      return "ignored";
+  }
+}
+
+ordersRouter.post("/payments/webhook", async (req: Request & { rawBody?: Buffer }, res, next) => {
+  try {
+    if (!env.RAZORPAY_WEBHOOK_SECRET) throw new HttpError(503, "Payment webhooks not configured", true);
+
+    const signature = req.get("x-razorpay-signature");
+    if (!signature || !req.rawBody) throw new HttpError(400, "Missing webhook signature", true);
+
+    if (!isValidWebhookSignature(req.rawBody, signature, env.RAZORPAY_WEBHOOK_SECRET)) {
+      throw new HttpError(400, "Invalid webhook signature", true);
+    }
+
+    const parsed = webhookEventSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    // Razorpay sends a unique id per event; fall back to the body hash so replays
+    // of the exact same payload are still recognised.
+    const eventId =
+      req.get("x-razorpay-event-id") ?? crypto.createHash("sha256").update(req.rawBody).digest("hex");
+
     await query(
-      "update orders set payment_status='paid', razorpay_order_id=$1, razorpay_payment_id=$2, razorpay_signature=$3 where id=$4 and payment_status <> 'paid'",
-      [parsed.data.razorpayOrderId, parsed.data.razorpayPaymentId, parsed.data.razorpaySignature, parsed.data.orderId]
+      "insert into payment_webhook_events (event_id, event, payload) values ($1,$2,$3) on conflict (event_id) do nothing",
+      [eventId, parsed.data.event, req.body]
     );
 
-    // Ensure invoice record exists.
-    const invoiceNumber = `HZ-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${parsed.data.orderId}`;
-    const invRows = await query<{ invoice_number: string }>(
-      "insert into invoices (order_id, invoice_number) values ($1,$2) on conflict (order_id) do update set invoice_number = invoices.invoice_number returning invoice_number",
-      [parsed.data.orderId, invoiceNumber]
+    // Claim the event in one statement so concurrent deliveries of the same
+    // event run the handler once.
+    const claimed = await query<{ event_id: string }>(
+      "update payment_webhook_events set processed_at = now() where event_id = $1 and processed_at is null returning event_id",
+      [eventId]
     );
+    if (!claimed[0]) return res.json({ ok: true, duplicate: true });
+
+    let outcome: string;
+    try {
+      outcome = await handleWebhookEvent(parsed.data);
+    } catch (err) {
+      // Release the claim so Razorpay's retry is processed.
+      await query("update payment_webhook_events set processed_at = null where event_id = $1", [eventId]);
+      throw err;
+    }
+    logger.info({ eventId, event: parsed.data.event, outcome }, "Razorpay webhook processed");
 
-    return res.json({ ok: true, invoiceNumber: invRows[0]?.invoice_number ?? invoiceNumber });
+    await query("update payment_webhook_events set outcome = $2 where event_id = $1", [eventId, outcome]);
+
+    return res.json({ ok: true });
   } catch (err) {
     return next(err);
   }
@@ -143,7 +440,24 @@ ordersRouter.get("/portal/orders", requireAuth, async (req: AuthedRequest, res,
     if (!req.user.email) throw new HttpError(401, "Unauthorized", true);
 
     const rows = await query(
-      "select id, created_at, service_name, plan_name, price_inr, payment_status, project_status from orders where email = $1 order by created_at desc",
+      [
+        "select o.id, o.created_at, o.service_name, o.plan_name, o.price_inr, o.payment_status, o.project_status,",
+        "coalesce((",
+        "  select json_agg(json_build_object(",
+        "    'id', m.id, 'label', m.label, 'amount_inr', m.amount_inr, 'due_date', m.due_date, 'status', m.status,",
+        "    'paid_at', m.paid_at, 'has_invoice', exists (select 1 from invoices i where i.milestone_id = m.id)",
+        "  ) order by m.position, m.id)",
+        "  from order_milestones m where m.order_id = o.id",
+        "), '[]'::json) as milestones,",
+        "coalesce((",
+        "  select json_agg(json_build_object(",
+        "    'id', e.id, 'created_at', e.created_at, 'to_status', e.to_status, 'note', e.note",
+        "  ) order by e.created_at, e.id)",
+        "  from order_status_events e where e.order_id = o.id",
+        "), '[]'::json) as status_history,",
+        "(select s.id from subscriptions s where s.order_id = o.id) as subscription_id",
+        "from orders o where o.email = $1 order by o.created_at desc"
+      ].join("\n"),
       [req.user.email.toLowerCase()]
     );
 
@@ -154,18 +468,24 @@ ordersRouter.get("/portal/orders", requireAuth, async (req: AuthedRequest, res,
 });
 
 // Admin endpoints
+const adminOrderColumns = [
+  "id, created_at, name, email, service_name, plan_name, price_inr, list_price_inr, discount_inr, coupon_code,",
+  "payment_status, project_status, razorpay_payment_id,",
+  "(select count(*)::int from order_milestones m where m.order_id = orders.id) as milestone_count,",
+  "(select coalesce(sum(m.amount_inr),0)::int from order_milestones m where m.order_id = orders.id and m.status = 'paid') as milestones_paid_inr,",
+  "(select coalesce(sum(r.amount_paise),0)::int from order_refunds r where r.order_id = orders.id and r.status <> 'failed') as refunded_paise"
+].join(" ");
+
 ordersRouter.get("/admin/orders", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
   try {
     const search = String(req.query.search ?? "").trim().toLowerCase();
 
     const rows = search
       ? await query(
-          "select id, created_at, name, email, service_name, plan_name, price_inr, payment_status, project_status from orders where lower(email) like $1 or lower(name) like $1 or cast(id as text) = $2 order by created_at desc limit 200",
+          `select ${adminOrderColumns} from orders where lower(email) like $1 or lower(name) like $1 or cast(id as text) = $2 order by created_at desc limit 200`,
           [`%${search}%`, search]
         )
-      : await query(
-          "select id, created_at, name, email, service_name, plan_name, price_inr, payment_status, project_status from orders order by created_at desc limit 200"
-        );
+      : await query(`select ${adminOrderColumns} from orders order by created_at desc limit 200`);
 
     return res.json({ ok: true, items: rows });
   } catch (err) {
@@ -173,11 +493,73 @@ ordersRouter.get("/admin/orders", requireAuth, requireAdmin, async (req: AuthedR
   }
 });
 
+ordersRouter.get("/admin/orders/:id/status-history", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id) || id <= 0) throw new HttpError(400, "Invalid order id", true);
+
+    const rows = await query(
+      `select ${ORDER_STATUS_EVENT_COLUMNS} from order_status_events e where e.order_id = $1 order by e.created_at desc, e.id desc`,
+      [id]
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const projectStatusSchema = z
+  .object({
+    status: z.enum(PROJECT_STATUSES),
+    note: z.string().trim().max(2000).optional(),
+    notifyCustomer: z.boolean().optional()
+  })
+  .strict();
+
+ordersRouter.post("/admin/orders/:id/project-status", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id) || id <= 0) throw new HttpError(400, "Invalid order id", true);
+
+    const parsed = projectStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const result = await changeProjectStatus({
+      orderId: id,
+      toStatus: parsed.data.status,
+      note: parsed.data.note,
+      changedByEmail: req.user?.email ?? null,
+      notify: parsed.data.notifyCustomer ?? true
+    });
+    if (!result) throw new HttpError(404, "Order not found", true);
+    if (!result.event) throw new HttpError(400, "Order is already in this status; add a note to post an update", true);
+
+    return res.json({ ok: true, event: result.event });
+  } catch (err) {
+    return next(err);
+  }
+});
+
 ordersRouter.get("/admin/summary", requireAuth, requireAdmin, async (_req, res, next) => {
   try {
     const totalOrders = await query<{ count: string }>("select count(*)::text as count from orders");
+    // Scheduled orders earn revenue per paid milestone, including partially paid
+    // ones; subscriptions per successful charge.
     const paidOrders = await query<{ count: string; revenue: string }>(
-      "select count(*)::text as count, coalesce(sum(price_inr),0)::text as revenue from orders where payment_status='paid'"
+      [
+        "select count(*) filter (where o.payment_status = 'paid')::text as count,",
+        "coalesce(sum(case",
+        "  when exists (select 1 from order_milestones m where m.order_id = o.id)",
+        "    then (select coalesce(sum(m.amount_inr),0) from order_milestones m where m.order_id = o.id and m.status = 'paid')",
+        "  when exists (select 1 from subscriptions s where s.order_id = o.id)",
+        "    then (select coalesce(sum(c.amount_paise),0) / 100 from subscription_charges c join subscriptions s on s.id = c.subscription_id where s.order_id = o.id)",
+        "  when o.payment_status = 'paid' then o.price_inr",
+        "  else 0 end),0)::text as revenue",
+        "from orders o"
+      ].join("\n")
     );
 
     return res.json({
@@ -192,3 +574,105 @@ ordersRouter.get("/admin/summary", requireAuth, requireAdmin, async (_req, res,
     return next(err);
   }
 });
+
+const createRefundSchema = z
+  .object({
+    // Omit for a full refund of whatever is still refundable.
+    amountInr: z.number().positive().multipleOf(0.01).optional(),
+    // Razorpay payment to refund; required when the order has more than one
+    // (milestones, subscription renewals).
+    paymentId: z.string().trim().min(1).max(64).optional(),
+    reason: z.string().trim().min(3).max(500)
+  })
+  .strict();
+
+ordersRouter.post("/admin/orders/:id/refund", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id) || id <= 0) throw new HttpError(400, "Invalid order id", true);
+
+    const parsed = createRefundSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query<{ id: number; payment_status: string }>(
+      "select id, payment_status from orders where id = $1 limit 1",
+      [id]
+    );
+    const order = rows[0];
+    if (!order) throw new HttpError(404, "Order not found", true);
+    if (order.payment_status !== "paid" && order.payment_status !== "partially_paid") {
+      throw new HttpError(400, "Only paid orders can be refunded", true);
+    }
+
+    const payments = await listRefundablePayments(id);
+    if (payments.length === 0) throw new HttpError(400, "Order has no captured payment", true);
+    const payment = parsed.data.paymentId
+      ? payments.find((p) => p.razorpay_payment_id === parsed.data.paymentId)
+      : payments.length === 1
+        ? payments[0]
+        : undefined;
+    if (!payment) {
+      throw new HttpError(
+        400,
+        parsed.data.paymentId ? "Payment not found on this order" : "Choose which payment to refund",
+        true
+      );
+    }
+
+    const refundablePaise = payment.amount_paise - payment.refunded_paise;
+    if (refundablePaise <= 0) throw new HttpError(400, "Payment is already fully refunded", true);
+
+    const amountPaise =
+      parsed.data.amountInr !== undefined ? Math.round(parsed.data.amountInr * 100) : refundablePaise;
+    if (amountPaise > refundablePaise) {
+      throw new HttpError(400, `Refund exceeds refundable amount (₹${(refundablePaise / 100).toFixed(2)})`, true);
+    }
+
+    const client = getRazorpayClient();
+    if (!client) throw new HttpError(503, "Payments not configured", true);
+
+    const rpRefund = await client.payments.refund(payment.razorpay_payment_id, {
+      amount: amountPaise,
+      notes: { orderId: id, reason: parsed.data.reason }
+    });
+
+    const refundId = await recordRefund({
+      orderId: id,
+      razorpayPaymentId: payment.razorpay_payment_id,
+      razorpayRefundId: rpRefund.id,
+      amountPaise,
+      status: rpRefund.status === "processed" ? "processed" : rpRefund.status === "failed" ? "failed" : "pending",
+      reason: parsed.data.reason,
+      actorUserId: req.user?.sub ?? null,
+      actorEmail: req.user?.email ?? null
+    });
+
+    return res.json({ ok: true, refundId, razorpayRefundId: rpRefund.id, amountPaise });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+ordersRouter.get("/admin/orders/:id/refunds", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id) || id <= 0) throw new HttpError(400, "Invalid order id", true);
+
+    const rows = await query(
+      [
+        "select id, created_at, amount_paise, status, reason, razorpay_payment_id, razorpay_refund_id, actor_email, credit_note_number",
+        "from order_refunds",
+        "where order_id = $1",
+        "order by created_at desc"
+      ].join("\n"),
+      [id]
+    );
+    const payments = await listRefundablePayments(id);
+
+    return res.json({ ok: true, items: rows, payments });
+  } catch (err) {
+    return next(err);
+  }
+});
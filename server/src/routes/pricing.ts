@@ -8,7 +8,7 @@ pricingRoutes.get("/", async (_req, res, next) => {
   try {
     const rows = await query(
       [
-        "select id, service_key, service_name, plan_key, plan_name, price_inr",
+        "select id, service_key, service_name, plan_key, plan_name, price_inr, billing_interval",
         "from services_pricing",
         "where is_active = true",
         "order by sort_order asc, service_key asc, plan_key asc"
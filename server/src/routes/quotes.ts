@@ -0,0 +1,413 @@
+import { Router } from "express";
+import { z } from "zod";
+import PDFDocument from "pdfkit";
+
+import { env } from "../lib/env.js";
+import { query, withTransaction } from "../lib/db.js";
+import { billingDetailsSchema, gstinMatchesState } from "../lib/gst.js";
+import { getRazorpayClient } from "../lib/razorpay.js";
+import {
+  QUOTE_COLUMNS,
+  buildQuoteNumber,
+  computeQuoteTotals,
+  isQuoteExpired,
+  quotePdfBuffer,
+  renderQuotePdf,
+  todayIst,
+  type QuoteRow
+} from "../lib/quotes.js";
+import { sendQuoteEmail } from "../lib/email/resend.js";
+import { parseId } from "../lib/params.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const quotesRouter = Router();
+
+async function loadQuote(id: number) {
+  const rows = await query<QuoteRow>(`select ${QUOTE_COLUMNS} from quotes q where q.id = $1 limit 1`, [id]);
+  return rows[0];
+}
+
+// ── Admin: build and send quotes ──────────────────────────────────────────────
+const lineItemSchema = z
+  .object({
+    description: z.string().trim().min(1).max(300),
+    quantity: z.number().positive().max(10_000),
+    unitPriceInr: z.number().int().nonnegative()
+  })
+  .strict();
+
+const quoteFieldsSchema = z.object({
+  title: z.string().trim().min(3).max(200),
+  clientName: z.string().trim().min(2).max(120),
+  clientEmail: z.string().email().max(254),
+  clientCompany: z.string().trim().max(200).nullable().optional(),
+  lineItems: z.array(lineItemSchema).min(1).max(50),
+  taxRatePercent: z.number().int().min(0).max(28),
+  validUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  terms: z.string().trim().max(5000).nullable().optional()
+});
+
+const createQuoteSchema = quoteFieldsSchema.partial({ clientName: true, clientEmail: true, taxRatePercent: true }).strict();
+const updateQuoteSchema = quoteFieldsSchema.partial().strict();
+
+quotesRouter.get("/admin/submissions/:id/quotes", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const submissionId = parseId(req.params.id, "submission");
+
+    const rows = await query<QuoteRow>(
+      `select ${QUOTE_COLUMNS} from quotes q where q.submission_id = $1 order by q.created_at desc`,
+      [submissionId]
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+quotesRouter.post("/admin/submissions/:id/quotes", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const submissionId = parseId(req.params.id, "submission");
+
+    const parsed = createQuoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const subRows = await query<{ id: number; type: string; data: Record<string, unknown> }>(
+      "select id, type, data from submissions where id = $1 limit 1",
+      [submissionId]
+    );
+    const submission = subRows[0];
+    if (!submission) throw new HttpError(404, "Submission not found", true);
+    if (submission.type !== "hire") throw new HttpError(400, "Quotes can only be built from hire requests", true);
+
+    // Default the recipient to whoever filled in the hire-us form.
+    const data = submission.data ?? {};
+    const clientName = parsed.data.clientName ?? (typeof data.name === "string" ? data.name.trim() : "");
+    const clientEmail = (parsed.data.clientEmail ?? (typeof data.email === "string" ? data.email : "")).trim().toLowerCase();
+    const clientCompany = parsed.data.clientCompany ?? (typeof data.company === "string" ? data.company.trim() || null : null);
+    if (clientName.length < 2 || !z.string().email().safeParse(clientEmail).success) {
+      throw new HttpError(400, "The hire request has no usable name/email; enter the client details", true);
+    }
+
+    const taxRatePercent = parsed.data.taxRatePercent ?? (env.COMPANY_GSTIN ? env.GST_RATE_PERCENT : 0);
+    const totals = computeQuoteTotals(parsed.data.lineItems, taxRatePercent);
+    if (totals.totalInr <= 0) throw new HttpError(400, "Quote total must be greater than zero", true);
+
+    const rows = await query<{ id: number }>(
+      [
+        "insert into quotes (submission_id, title, client_name, client_email, client_company, line_items, tax_rate_percent,",
+        "subtotal_inr, tax_inr, total_inr, valid_until, terms, created_by_email)",
+        "values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)",
+        "returning id"
+      ].join("\n"),
+      [
+        submissionId,
+        parsed.data.title,
+        clientName,
+        clientEmail,
+        clientCompany,
+        JSON.stringify(parsed.data.lineItems),
+        taxRatePercent,
+        totals.subtotalInr,
+        totals.taxInr,
+        totals.totalInr,
+        parsed.data.validUntil,
+        parsed.data.terms ?? null,
+        req.user?.email ?? null
+      ]
+    );
+
+    const id = rows[0]?.id;
+    if (!id) throw new HttpError(500, "Failed to create quote");
+
+    await query("update quotes set quote_number = $2 where id = $1", [id, buildQuoteNumber(id)]);
+
+    return res.json({ ok: true, quote: await loadQuote(id) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+quotesRouter.patch("/admin/quotes/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "quote");
+
+    const parsed = updateQuoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const quote = await loadQuote(id);
+    if (!quote) throw new HttpError(404, "Quote not found", true);
+    if (quote.status === "accepted" || quote.status === "declined") {
+      throw new HttpError(400, `An ${quote.status} quote cannot be edited`, true);
+    }
+
+    const lineItems = parsed.data.lineItems ?? quote.line_items;
+    const taxRatePercent = parsed.data.taxRatePercent ?? quote.tax_rate_percent;
+    const totals = computeQuoteTotals(lineItems, taxRatePercent);
+    if (totals.totalInr <= 0) throw new HttpError(400, "Quote total must be greater than zero", true);
+
+    await query(
+      [
+        "update quotes set title = $2, client_name = $3, client_email = $4, client_company = $5, line_items = $6,",
+        "tax_rate_percent = $7, subtotal_inr = $8, tax_inr = $9, total_inr = $10, valid_until = $11, terms = $12,",
+        "updated_at = now()",
+        "where id = $1"
+      ].join("\n"),
+      [
+        id,
+        parsed.data.title ?? quote.title,
+        parsed.data.clientName ?? quote.client_name,
+        (parsed.data.clientEmail ?? quote.client_email).toLowerCase(),
+        parsed.data.clientCompany !== undefined ? parsed.data.clientCompany : quote.client_company,
+        JSON.stringify(lineItems),
+        taxRatePercent,
+        totals.subtotalInr,
+        totals.taxInr,
+        totals.totalInr,
+        parsed.data.validUntil ?? quote.valid_until,
+        parsed.data.terms !== undefined ? parsed.data.terms : quote.terms
+      ]
+    );
+
+    return res.json({ ok: true, quote: await loadQuote(id) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Email the PDF to the client and open the quote for acceptance. Re-sending an
+// already sent quote (e.g. after edits) emails the latest version.
+quotesRouter.post("/admin/quotes/:id/send", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "quote");
+
+    const quote = await loadQuote(id);
+    if (!quote) throw new HttpError(404, "Quote not found", true);
+    if (quote.status !== "draft" && quote.status !== "sent") {
+      throw new HttpError(400, `An ${quote.status} quote cannot be sent again`, true);
+    }
+    if (isQuoteExpired(quote)) throw new HttpError(400, "Set a future validity date before sending", true);
+
+    await query("update quotes set status = 'sent', sent_at = now(), updated_at = now() where id = $1", [id]);
+    const sent = (await loadQuote(id))!;
+
+    const emailed = await sendQuoteEmail({
+      to: sent.client_email,
+      clientName: sent.client_name,
+      quoteNumber: sent.quote_number ?? buildQuoteNumber(sent.id),
+      title: sent.title,
+      totalInr: sent.total_inr,
+      validUntil: sent.valid_until,
+      pdf: await quotePdfBuffer(sent)
+    });
+
+    return res.json({ ok: true, quote: sent, emailed: !!emailed });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+quotesRouter.delete("/admin/quotes/:id", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseId(req.params.id, "quote");
+
+    const deleted = await query<{ id: number }>("delete from quotes where id = $1 and status = 'draft' returning id", [id]);
+    if (!deleted[0]?.id) throw new HttpError(400, "Only draft quotes can be deleted", true);
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Shared: PDF for the client (once sent) or an admin ───────────────────────
+quotesRouter.get("/quotes/:id/pdf", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user) throw new HttpError(401, "Unauthorized", true);
+    const id = parseId(req.params.id, "quote");
+
+    const quote = await loadQuote(id);
+    const isAdmin = req.user.role === "admin";
+    const isClient =
+      !!quote &&
+      quote.status !== "draft" &&
+      !!req.user.email &&
+      quote.client_email.toLowerCase() === req.user.email.toLowerCase();
+    if (!quote || (!isAdmin && !isClient)) throw new HttpError(404, "Quote not found", true);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename=${quote.quote_number ?? `quote-${quote.id}`}.pdf`);
+
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    doc.pipe(res);
+    renderQuotePdf(doc, quote);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Client portal: review, accept, decline ────────────────────────────────────
+quotesRouter.get("/portal/quotes", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+
+    const rows = await query<QuoteRow & { order_payment_status: string | null }>(
+      [
+        `select ${QUOTE_COLUMNS}, o.payment_status as order_payment_status`,
+        "from quotes q",
+        "left join orders o on o.id = q.order_id",
+        "where lower(q.client_email) = $1 and q.status <> 'draft'",
+        "order by q.created_at desc"
+      ].join("\n"),
+      [req.user.email.toLowerCase()]
+    );
+
+    return res.json({ ok: true, items: rows.map((q) => ({ ...q, expired: q.status === "sent" && isQuoteExpired(q) })) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const acceptQuoteSchema = billingDetailsSchema.strict().refine(gstinMatchesState.check, gstinMatchesState.params);
+
+// Accepting creates the order and a Razorpay order for the quoted total. Calling
+// it again on an accepted-but-unpaid quote resumes payment on the same order.
+quotesRouter.post("/portal/quotes/:id/accept", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+    const email = req.user.email.toLowerCase();
+    const id = parseId(req.params.id, "quote");
+
+    const parsed = acceptQuoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const client = getRazorpayClient();
+    if (!client) throw new HttpError(503, "Payments not configured", true);
+
+    const accepted = await withTransaction(async (db) => {
+      const quoteRes = await db.query<QuoteRow>(
+        `select ${QUOTE_COLUMNS} from quotes q where q.id = $1 and lower(q.client_email) = $2 for update`,
+        [id, email]
+      );
+      const quote = quoteRes.rows[0];
+      if (!quote || quote.status === "draft") throw new HttpError(404, "Quote not found", true);
+
+      if (quote.status === "accepted" && quote.order_id) {
+        const orderRes = await db.query<{ payment_status: string; razorpay_order_id: string | null }>(
+          "select payment_status, razorpay_order_id from orders where id = $1",
+          [quote.order_id]
+        );
+        const order = orderRes.rows[0];
+        if (!order || (order.payment_status !== "pending" && order.payment_status !== "failed")) {
+          throw new HttpError(400, "This quote has already been accepted and paid", true);
+        }
+        return {
+          orderId: quote.order_id,
+          razorpayOrderId: order.payment_status === "pending" ? order.razorpay_order_id : null,
+          totalInr: quote.total_inr
+        };
+      }
+
+      if (quote.status !== "sent") throw new HttpError(400, "This quote can no longer be accepted", true);
+      if (quote.valid_until < todayIst()) throw new HttpError(400, "This quote has expired; please ask us for a new one", true);
+
+      const quoteNumber = quote.quote_number ?? buildQuoteNumber(quote.id);
+      const orderRes = await db.query<{ id: number }>(
+        [
+          "insert into orders (name, email, service_key, service_name, plan_key, plan_name, price_inr, payment_status,",
+          "customer_gstin, billing_address, place_of_supply, list_price_inr, gst_rate_percent, taxable_inr)",
+          "values ($1,$2,'quote',$3,$4,$5,$6,'pending',$7,$8,$9,$6,$10,$11) returning id"
+        ].join("\n"),
+        [
+          quote.client_name,
+          email,
+          quote.title,
+          quoteNumber,
+          `Quote ${quoteNumber}`,
+          quote.total_inr,
+          parsed.data.gstin ?? null,
+          parsed.data.billingAddress,
+          parsed.data.placeOfSupply,
+          quote.tax_rate_percent,
+          quote.subtotal_inr
+        ]
+      );
+      const orderId = orderRes.rows[0]?.id;
+      if (!orderId) throw new HttpError(500, "Failed to create order");
+
+      await db.query(
+        "update quotes set status = 'accepted', accepted_at = now(), order_id = $2, updated_at = now() where id = $1",
+        [quote.id, orderId]
+      );
+
+      return { orderId, razorpayOrderId: null as string | null, totalInr: quote.total_inr };
+    });
+
+    const amountPaise = accepted.totalInr * 100;
+    let razorpayOrderId = accepted.razorpayOrderId;
+    if (!razorpayOrderId) {
+      const rpOrder = await client.orders.create({
+        amount: amountPaise,
+        currency: "INR",
+        receipt: `hz_${accepted.orderId}`
+      });
+      razorpayOrderId = rpOrder.id;
+      await query("update orders set razorpay_order_id = $1, payment_status = 'pending' where id = $2", [
+        razorpayOrderId,
+        accepted.orderId
+      ]);
+    }
+
+    return res.json({
+      ok: true,
+      orderId: accepted.orderId,
+      razorpay: {
+        keyId: env.RAZORPAY_KEY_ID,
+        orderId: razorpayOrderId,
+        amount: amountPaise,
+        currency: "INR"
+      }
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const declineQuoteSchema = z
+  .object({
+    reason: z.string().trim().max(1000).optional()
+  })
+  .strict();
+
+quotesRouter.post("/portal/quotes/:id/decline", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+    const id = parseId(req.params.id, "quote");
+
+    const parsed = declineQuoteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query<{ id: number }>(
+      [
+        "update quotes set status = 'declined', declined_at = now(), decline_reason = $3, updated_at = now()",
+        "where id = $1 and lower(client_email) = $2 and status = 'sent'",
+        "returning id"
+      ].join("\n"),
+      [id, req.user.email.toLowerCase(), parsed.data.reason || null]
+    );
+    if (!rows[0]?.id) throw new HttpError(400, "This quote can no longer be declined", true);
+
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
@@ -0,0 +1,147 @@
+import { Router } from "express";
+import { z } from "zod";
+
+import { env } from "../lib/env.js";
+import { query } from "../lib/db.js";
+import { getOrCreateReferralCode } from "../lib/referrals.js";
+import { parseId } from "../lib/params.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const referralsRouter = Router();
+
+function referralLink(code: string) {
+  const base = env.WEB_URL ? env.WEB_URL.replace(/\/$/, "") : "";
+  return `${base}/?ref=${encodeURIComponent(code)}`;
+}
+
+// Per-code counters shared by the user card and the admin report. A career lead
+// converts when its application reaches `hired`; an order when it is fully paid.
+const referralStatsSelect = [
+  "select r.id, r.created_at, r.code, r.is_active, r.user_id, u.name as user_name, u.email as user_email,",
+  "  (select count(*)::int from submissions s where s.referral_code_id = r.id and s.type <> 'career') as leads,",
+  "  (select count(*)::int from submissions s where s.referral_code_id = r.id and s.type = 'career') as applications,",
+  "  (select count(*)::int from submissions s join career_applications a on a.submission_id = s.id",
+  "    where s.referral_code_id = r.id and a.status = 'hired') as hired,",
+  "  (select count(*)::int from orders o where o.referral_code_id = r.id) as orders,",
+  "  (select count(*)::int from orders o where o.referral_code_id = r.id and o.payment_status = 'paid') as paid_orders,",
+  "  (select coalesce(sum(o.price_inr), 0)::int from orders o",
+  "    where o.referral_code_id = r.id and o.payment_status = 'paid') as paid_revenue_inr",
+  "from referral_codes r",
+  "join users u on u.id = r.user_id"
+].join("\n");
+
+type ReferralStats = {
+  id: number;
+  created_at: string;
+  code: string;
+  is_active: boolean;
+  user_id: number;
+  user_name: string | null;
+  user_email: string | null;
+  leads: number;
+  applications: number;
+  hired: number;
+  orders: number;
+  paid_orders: number;
+  paid_revenue_inr: number;
+};
+
+// User: GET /api/referrals/me
+// The caller's referral code (created on first visit), share link and counts.
+referralsRouter.get("/referrals/me", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!Number.isFinite(userId)) throw new HttpError(401, "Unauthorized", true);
+
+    const code = await getOrCreateReferralCode(userId as number);
+    const rows = await query<ReferralStats>(`${referralStatsSelect}\nwhere r.id = $1`, [code.id]);
+    const stats = rows[0];
+
+    return res.json({
+      ok: true,
+      referral: {
+        code: code.code,
+        is_active: code.is_active,
+        link: referralLink(code.code),
+        leads: stats?.leads ?? 0,
+        applications: stats?.applications ?? 0,
+        hired: stats?.hired ?? 0,
+        orders: stats?.orders ?? 0,
+        paid_orders: stats?.paid_orders ?? 0
+      }
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Admin ─────────────────────────────────────────────────────────────────────
+
+// Admin: GET /api/admin/referrals
+// Every referrer with counts, plus the individual conversions (hired applicants
+// and paid orders), newest first.
+referralsRouter.get("/admin/referrals", requireAuth, requireAdmin, async (_req, res, next) => {
+  try {
+    const referrers = await query<ReferralStats>(
+      `${referralStatsSelect}\norder by paid_revenue_inr desc, hired desc, r.created_at desc`
+    );
+
+    const conversions = await query(
+      [
+        "select * from (",
+        "  select 'hired' as kind,",
+        "    coalesce((select max(e.created_at) from career_application_events e",
+        "      where e.application_id = a.id and e.to_status = 'hired'), a.created_at) as converted_at,",
+        "    r.code, u.email as referrer_email,",
+        "    a.id as application_id, null::bigint as order_id, a.full_name as name, a.email, a.position as detail,",
+        "    null::int as amount_inr",
+        "  from career_applications a",
+        "  join submissions s on s.id = a.submission_id",
+        "  join referral_codes r on r.id = s.referral_code_id",
+        "  join users u on u.id = r.user_id",
+        "  where a.status = 'hired'",
+        "  union all",
+        "  select 'paid' as kind,",
+        "    coalesce((select min(i.created_at) from invoices i where i.order_id = o.id), o.created_at) as converted_at,",
+        "    r.code, u.email as referrer_email,",
+        "    null::bigint as application_id, o.id as order_id, o.name, o.email,",
+        "    concat(o.service_name, ' · ', o.plan_name) as detail, o.price_inr as amount_inr",
+        "  from orders o",
+        "  join referral_codes r on r.id = o.referral_code_id",
+        "  join users u on u.id = r.user_id",
+        "  where o.payment_status = 'paid'",
+        ") c",
+        "order by converted_at desc",
+        "limit 500"
+      ].join("\n")
+    );
+
+    return res.json({ ok: true, referrers, conversions });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const updateReferralSchema = z.object({ isActive: z.boolean() }).strict();
+
+// Admin: PATCH /api/admin/referrals/:id
+// Deactivated codes stop attributing new submissions and orders.
+referralsRouter.patch("/admin/referrals/:id", requireAuth, requireAdmin, async (req, res, next) => {
+  try {
+    const id = parseId(req.params.id, "referral");
+    const parsed = updateReferralSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const rows = await query<{ id: number }>("update referral_codes set is_active = $2 where id = $1 returning id", [
+      id,
+      parsed.data.isActive
+    ]);
+    if (!rows[0]) throw new HttpError(404, "Referral code not found", true);
+    return res.json({ ok: true });
+  } catch (err) {
+    return next(err);
+  }
+});
@@ -1,10 +1,12 @@
 import { Router } from "express";
 import { z } from "zod";
 
-import { query } from "../lib/db.js";
+import { pool, query } from "../lib/db.js";
 import { requireAuth, optionalAuth, type AuthedRequest } from "../middleware/auth.js";
 import { HttpError } from "../middleware/errorHandler.js";
 import { sendAdminSubmissionEmail, sendUserSubmissionEmail } from "../lib/email/resend.js";
+import { resolveReferralCode } from "../lib/referrals.js";
+import { createLeadForSubmission } from "../lib/leads.js";
 
 export const submissionsRouter = Router();
 
@@ -14,7 +16,8 @@ const createSchema = z
   .object({
     type: submissionTypeSchema,
     data: z.record(z.string(), z.unknown()),
-    honeypot: z.string().optional()
+    honeypot: z.string().optional(),
+    referralCode: z.string().trim().max(32).optional()
   })
   .strict();
 
@@ -59,19 +62,25 @@ submissionsRouter.post("/submissions", optionalAuth, async (req: AuthedRequest,
       );
     }
 
+    const referralCodeId = await resolveReferralCode(pool, {
+      code: parsed.data.referralCode,
+      userId,
+      email: maybeEmail
+    });
+
     // For anonymous submissions (contact/hire), omit user_id entirely so the
     // nullable FK doesn't trip over a null value on DBs where the column was
     // previously NOT NULL and the migration hasn't run yet.
     let inserted: { id: number; created_at: string }[];
     if (userId !== null) {
       inserted = await query<{ id: number; created_at: string }>(
-        "insert into submissions (user_id, supabase_uid, type, data) values ($1,$2,$3,$4) returning id, created_at",
-        [userId, supabaseUid, parsed.data.type, parsed.data.data]
+        "insert into submissions (user_id, supabase_uid, type, data, referral_code_id) values ($1,$2,$3,$4,$5) returning id, created_at",
+        [userId, supabaseUid, parsed.data.type, parsed.data.data, referralCodeId]
       );
     } else {
       inserted = await query<{ id: number; created_at: string }>(
-        "insert into submissions (supabase_uid, type, data) values ($1,$2,$3) returning id, created_at",
-        [supabaseUid, parsed.data.type, parsed.data.data]
+        "insert into submissions (supabase_uid, type, data, referral_code_id) values ($1,$2,$3,$4) returning id, created_at",
+        [supabaseUid, parsed.data.type, parsed.data.data, referralCodeId]
       );
     }
 
@@ -81,6 +90,11 @@ submissionsRouter.post("/submissions", optionalAuth, async (req: AuthedRequest,
     const userEmail = maybeEmail ?? req.user?.email ?? null;
     const userPhone: string | null = null;
 
+    // Contact and hire requests open a lead on the admin sales pipeline.
+    if (createdId && parsed.data.type !== "career") {
+      await createLeadForSubmission({ submissionId: createdId, data: parsed.data.data }).catch(() => undefined);
+    }
+
     void sendAdminSubmissionEmail({
       submissionType: parsed.data.type,
       submissionId: createdId,
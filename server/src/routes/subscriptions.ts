@@ -0,0 +1,340 @@
+import { Router } from "express";
+import { z } from "zod";
+import crypto from "crypto";
+
+import { env } from "../lib/env.js";
+import { query, withTransaction } from "../lib/db.js";
+import { logger } from "../lib/logger.js";
+import { billingDetailsSchema, gstinMatchesState } from "../lib/gst.js";
+import { getRazorpayClient } from "../lib/razorpay.js";
+import { resolveReferralCode } from "../lib/referrals.js";
+import { parseId } from "../lib/params.js";
+import {
+  ensureRazorpayPlan,
+  isRecurringInterval,
+  recordSubscriptionCharge,
+  subscriptionTotalCount,
+  syncSubscriptionState,
+  SUBSCRIPTION_COLUMNS
+} from "../lib/subscriptions.js";
+import { requireAuth, requireAdmin, type AuthedRequest } from "../middleware/auth.js";
+import { HttpError } from "../middleware/errorHandler.js";
+
+export const subscriptionsRouter = Router();
+
+// Subscription with its order's plan and every charge (newest first).
+const subscriptionSelect = [
+  `select ${SUBSCRIPTION_COLUMNS}, o.service_name, o.plan_name, o.price_inr, o.email,`,
+  "coalesce((",
+  "  select json_agg(json_build_object(",
+  "    'id', c.id, 'created_at', c.created_at, 'amount_paise', c.amount_paise,",
+  "    'period_start', c.period_start, 'period_end', c.period_end,",
+  "    'invoice_number', (select i.invoice_number from invoices i where i.subscription_charge_id = c.id limit 1)",
+  "  ) order by c.created_at desc, c.id desc)",
+  "  from subscription_charges c where c.subscription_id = s.id",
+  "), '[]'::json) as charges",
+  "from subscriptions s join orders o on o.id = s.order_id"
+].join("\n");
+
+const createSubscriptionSchema = billingDetailsSchema
+  .extend({
+    pricingId: z.number().int().positive(),
+    name: z.string().min(2).max(120),
+    email: z.string().email().max(254),
+    referralCode: z.string().trim().max(32).optional()
+  })
+  .refine(gstinMatchesState.check, gstinMatchesState.params);
+
+// Public checkout for recurring plans. Mirrors POST /orders, but the client
+// authorises a Razorpay subscription instead of paying a one-off order.
+subscriptionsRouter.post("/subscriptions", async (req, res, next) => {
+  try {
+    const parsed = createSubscriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const pricingRows = await query<{
+      id: number;
+      service_key: string;
+      service_name: string;
+      plan_key: string;
+      plan_name: string;
+      price_inr: number;
+      sac_code: string | null;
+      is_active: boolean;
+      billing_interval: string;
+      razorpay_plan_id: string | null;
+    }>(
+      [
+        "select id, service_key, service_name, plan_key, plan_name, price_inr, sac_code, is_active, billing_interval, razorpay_plan_id",
+        "from services_pricing where id = $1 limit 1"
+      ].join("\n"),
+      [parsed.data.pricingId]
+    );
+
+    const pricing = pricingRows[0];
+    if (!pricing || !pricing.is_active) throw new HttpError(400, "Pricing plan not available", true);
+    const interval = pricing.billing_interval;
+    if (!isRecurringInterval(interval)) throw new HttpError(400, "This plan is a one-time payment", true);
+
+    const client = getRazorpayClient();
+    if (!client) throw new HttpError(503, "Payments not configured", true);
+
+    const planId = await ensureRazorpayPlan(client, { ...pricing, billing_interval: interval });
+    const email = parsed.data.email.toLowerCase();
+
+    // The order, the Razorpay subscription and our subscription row are created
+    // together: if Razorpay rejects the subscription, no pending order is left behind.
+    const created = await withTransaction(async (db) => {
+      const referralCodeId = await resolveReferralCode(db, { code: parsed.data.referralCode, email });
+
+      const orderRows = await db.query<{ id: number }>(
+        [
+          "insert into orders (name, email, service_key, service_name, plan_key, plan_name, price_inr, payment_status,",
+          "customer_gstin, billing_address, place_of_supply, sac_code, list_price_inr, referral_code_id)",
+          "values ($1,$2,$3,$4,$5,$6,$7,'pending',$8,$9,$10,$11,$7,$12) returning id"
+        ].join("\n"),
+        [
+          parsed.data.name,
+          email,
+          pricing.service_key,
+          pricing.service_name,
+          pricing.plan_key,
+          pricing.plan_name,
+          pricing.price_inr,
+          parsed.data.gstin ?? null,
+          parsed.data.billingAddress,
+          parsed.data.placeOfSupply,
+          pricing.sac_code,
+          referralCodeId
+        ]
+      );
+      const orderId = orderRows.rows[0]?.id;
+      if (!orderId) throw new HttpError(500, "Failed to create order");
+
+      const rpSubscription = await client.subscriptions.create({
+        plan_id: planId,
+        total_count: subscriptionTotalCount(interval),
+        customer_notify: 1,
+        notes: { order_id: orderId }
+      });
+
+      const subRows = await db.query<{ id: number }>(
+        [
+          "insert into subscriptions (order_id, pricing_id, billing_interval, razorpay_plan_id, razorpay_subscription_id)",
+          "values ($1,$2,$3,$4,$5) returning id"
+        ].join("\n"),
+        [orderId, pricing.id, interval, planId, rpSubscription.id]
+      );
+
+      return { orderId, subscriptionId: subRows.rows[0]?.id, rpSubscription };
+    });
+
+    const { orderId, subscriptionId, rpSubscription } = created;
+
+    return res.json({
+      ok: true,
+      orderId,
+      subscriptionId,
+      razorpay: {
+        keyId: env.RAZORPAY_KEY_ID,
+        subscriptionId: rpSubscription.id
+      }
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const verifySubscriptionSchema = z.object({
+  subscriptionId: z.number().int().positive(),
+  razorpaySubscriptionId: z.string().min(1),
+  razorpayPaymentId: z.string().min(1),
+  razorpaySignature: z.string().min(1)
+});
+
+// Called by the checkout handler after the authorisation payment. The first
+// charge is recorded here; renewals arrive through the webhook.
+subscriptionsRouter.post("/payments/subscriptions/verify", async (req, res, next) => {
+  try {
+    const parsed = verifySubscriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    if (!env.RAZORPAY_KEY_SECRET) throw new HttpError(503, "Payments not configured", true);
+
+    const rows = await query<{ id: number; razorpay_subscription_id: string; price_inr: number }>(
+      [
+        "select s.id, s.razorpay_subscription_id, o.price_inr",
+        "from subscriptions s join orders o on o.id = s.order_id",
+        "where s.id = $1 limit 1"
+      ].join("\n"),
+      [parsed.data.subscriptionId]
+    );
+    const subscription = rows[0];
+    if (!subscription) throw new HttpError(404, "Subscription not found", true);
+    if (subscription.razorpay_subscription_id !== parsed.data.razorpaySubscriptionId) {
+      throw new HttpError(400, "Subscription mismatch", true);
+    }
+
+    // Subscription signatures cover payment id first, then subscription id.
+    const body = `${parsed.data.razorpayPaymentId}|${parsed.data.razorpaySubscriptionId}`;
+    const expected = crypto.createHmac("sha256", env.RAZORPAY_KEY_SECRET).update(body).digest("hex");
+    if (expected !== parsed.data.razorpaySignature) {
+      throw new HttpError(400, "Invalid payment signature", true);
+    }
+
+    const client = getRazorpayClient();
+    const entity = client ? await client.subscriptions.fetch(subscription.razorpay_subscription_id).catch(() => null) : null;
+    if (entity) {
+      await syncSubscriptionState(entity);
+    } else {
+      await query("update subscriptions set status = 'active', updated_at = now() where id = $1 and status in ('created','authenticated')", [
+        subscription.id
+      ]);
+    }
+
+    const invoiceNumber = await recordSubscriptionCharge({
+      razorpaySubscriptionId: subscription.razorpay_subscription_id,
+      razorpayPaymentId: parsed.data.razorpayPaymentId,
+      amountPaise: subscription.price_inr * 100,
+      periodStart: entity?.current_start ?? null,
+      periodEnd: entity?.current_end ?? null
+    });
+
+    return res.json({ ok: true, invoiceNumber });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Client portal ─────────────────────────────────────────────────────────────
+async function loadOwnedSubscription(req: AuthedRequest, rawId: string) {
+  if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+  const id = parseId(rawId, "subscription");
+
+  const rows = await query<{ id: number; status: string; razorpay_subscription_id: string; email: string }>(
+    [
+      "select s.id, s.status, s.razorpay_subscription_id, o.email",
+      "from subscriptions s join orders o on o.id = s.order_id",
+      "where s.id = $1 limit 1"
+    ].join("\n"),
+    [id]
+  );
+  const subscription = rows[0];
+  if (!subscription || subscription.email.toLowerCase() !== req.user.email.toLowerCase()) {
+    throw new HttpError(404, "Subscription not found", true);
+  }
+  return subscription;
+}
+
+async function loadSubscriptionView(id: number) {
+  const rows = await query(`${subscriptionSelect} where s.id = $1`, [id]);
+  return rows[0];
+}
+
+subscriptionsRouter.get("/portal/subscriptions", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    if (!req.user?.email) throw new HttpError(401, "Unauthorized", true);
+
+    // Checkouts that were never authorised stay out of the portal.
+    const rows = await query(
+      `${subscriptionSelect} where o.email = $1 and s.status <> 'created' order by s.created_at desc`,
+      [req.user.email.toLowerCase()]
+    );
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+subscriptionsRouter.post("/portal/subscriptions/:id/pause", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const subscription = await loadOwnedSubscription(req, req.params.id);
+    if (subscription.status !== "active") throw new HttpError(400, "Only active subscriptions can be paused", true);
+
+    const client = getRazorpayClient();
+    if (!client) throw new HttpError(503, "Payments not configured", true);
+
+    const entity = await client.subscriptions.pause(subscription.razorpay_subscription_id, { pause_at: "now" });
+    await syncSubscriptionState(entity);
+    logger.info({ subscriptionId: subscription.id, by: req.user?.email }, "Subscription paused");
+
+    return res.json({ ok: true, subscription: await loadSubscriptionView(subscription.id) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+subscriptionsRouter.post("/portal/subscriptions/:id/resume", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const subscription = await loadOwnedSubscription(req, req.params.id);
+    if (subscription.status !== "paused") throw new HttpError(400, "Only paused subscriptions can be resumed", true);
+
+    const client = getRazorpayClient();
+    if (!client) throw new HttpError(503, "Payments not configured", true);
+
+    const entity = await client.subscriptions.resume(subscription.razorpay_subscription_id, { resume_at: "now" });
+    await syncSubscriptionState(entity);
+    logger.info({ subscriptionId: subscription.id, by: req.user?.email }, "Subscription resumed");
+
+    return res.json({ ok: true, subscription: await loadSubscriptionView(subscription.id) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const cancelSchema = z
+  .object({
+    // Active subscriptions run until the paid period ends unless told otherwise.
+    atCycleEnd: z.boolean().optional()
+  })
+  .strict();
+
+subscriptionsRouter.post("/portal/subscriptions/:id/cancel", requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const parsed = cancelSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "Invalid request", details: parsed.error.flatten() });
+    }
+
+    const subscription = await loadOwnedSubscription(req, req.params.id);
+    if (["cancelled", "completed", "expired"].includes(subscription.status)) {
+      throw new HttpError(400, "This subscription has already ended", true);
+    }
+
+    const client = getRazorpayClient();
+    if (!client) throw new HttpError(503, "Payments not configured", true);
+
+    // Razorpay only defers cancellation for active subscriptions.
+    const atCycleEnd = subscription.status === "active" && (parsed.data.atCycleEnd ?? true);
+    const entity = await client.subscriptions.cancel(subscription.razorpay_subscription_id, atCycleEnd);
+    await syncSubscriptionState(entity);
+    if (atCycleEnd) {
+      await query("update subscriptions set cancel_at_cycle_end = true, updated_at = now() where id = $1", [subscription.id]);
+    }
+    logger.info({ subscriptionId: subscription.id, atCycleEnd, by: req.user?.email }, "Subscription cancelled");
+
+    return res.json({ ok: true, subscription: await loadSubscriptionView(subscription.id) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ── Admin ─────────────────────────────────────────────────────────────────────
+subscriptionsRouter.get("/admin/subscriptions", requireAuth, requireAdmin, async (req: AuthedRequest, res, next) => {
+  try {
+    const status = String(req.query.status ?? "").trim();
+
+    const rows = status
+      ? await query(`${subscriptionSelect} where s.status = $1 order by s.created_at desc limit 200`, [status])
+      : await query(`${subscriptionSelect} where s.status <> 'created' order by s.created_at desc limit 200`);
+
+    return res.json({ ok: true, items: rows });
+  } catch (err) {
+    return next(err);
+  }
+});
@@ -0,0 +1,50 @@
+import "./env.js";
+
+import fs from "node:fs";
+import { PGlite, types } from "@electric-sql/pglite";
+
+import { pool } from "../lib/db.js";
+import { logger } from "../lib/logger.js";
+
+logger.level = "silent";
+
+// In-memory Postgres with db/schema.sql applied, swapped in behind the shared
+// pool so query() and withTransaction() run unchanged. PGlite is a single
+// session, so tests in a file must run one at a time (the node:test default).
+export async function useTestDatabase() {
+  // Match node-postgres, which returns bigint and numeric values as strings.
+  const db = await PGlite.create({
+    parsers: { [types.INT8]: (v: string) => v, [types.NUMERIC]: (v: string) => v }
+  });
+  await db.exec(fs.readFileSync(new URL("../../db/schema.sql", import.meta.url), "utf8"));
+
+  const run = async (text: string, params?: unknown[]) => {
+    const result = await db.query(text, params);
+    return { ...result, rowCount: result.affectedRows ?? result.rows.length };
+  };
+  Object.assign(pool, { query: run, connect: async () => ({ query: run, release() {} }) });
+
+  return db;
+}
+
+export async function insertOrder(
+  db: PGlite,
+  input: { priceInr?: number; email?: string; paymentStatus?: string; razorpayOrderId?: string | null; placeOfSupply?: string } = {}
+) {
+  const res = await db.query<{ id: string }>(
+    [
+      "insert into orders (name, email, service_key, service_name, plan_key, plan_name, price_inr, payment_status,",
+      "razorpay_order_id, billing_address, place_of_supply)",
+      "values ('Asha Rao', $1, 'web', 'Web Development', 'starter', 'Starter', $2, $3, $4, '12 MG Road, Bengaluru', $5)",
+      "returning id"
+    ].join("\n"),
+    [
+      input.email ?? "asha@example.com",
+      input.priceInr ?? 1180,
+      input.paymentStatus ?? "pending",
+      input.razorpayOrderId ?? null,
+      input.placeOfSupply ?? "10"
+    ]
+  );
+  return Number(res.rows[0].id);
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+
+import {
+  createCareerUploadUrlAuthed,
+  replaceCareerResume,
+  replyToCareerInfoRequest,
+  uploadFileToSignedUrlWithProgress,
+  withdrawCareerApplication,
+  type MyCareerApplication,
+} from "../services/careersService";
+import { careerStatusLabel } from "../config/careerStatuses";
+
+const allowedResumeTypes = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+// Status history, open questions from the team, resume replacement and
+// withdrawal for one of the candidate's job applications.
+export function CareerApplicationPanel({
+  application,
+  onChanged,
+}: {
+  application: MyCareerApplication;
+  onChanged: () => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [replies, setReplies] = useState<Record<number, string>>({});
+  const [uploadPct, setUploadPct] = useState<number | null>(null);
+
+  const withdrawn = !!application.withdrawn_at;
+  const closed = withdrawn || application.status === "hired" || application.status === "rejected";
+  const canReplaceResume = !withdrawn && application.status === "new";
+
+  async function run(action: () => Promise<unknown>, success: string, fallback: string) {
+    setError(null);
+    setNotice(null);
+    setBusy(true);
+    try {
+      await action();
+      setNotice(success);
+      onChanged();
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+    } finally {
+      setBusy(false);
+      setUploadPct(null);
+    }
+  }
+
+  function onReplaceResume(file: File | undefined) {
+    if (!file) return;
+    if (!allowedResumeTypes.includes(file.type)) {
+      setError("Upload a PDF, DOC or DOCX file.");
+      return;
+    }
+    void run(
+      async () => {
+        const upload = await createCareerUploadUrlAuthed({
+          kind: "resume",
+          fileName: file.name,
+          fileType: file.type,
+          fileSize: file.size,
+        });
+        setUploadPct(0);
+        await uploadFileToSignedUrlWithProgress(upload.signedUrl, file, { onProgress: setUploadPct });
+        await replaceCareerResume(application.id, upload.path);
+      },
+      "Your new resume has been attached to this application.",
+      "Resume upload failed"
+    );
+  }
+
+  function onWithdraw() {
+    const reason = window.prompt(
+      `Withdraw your application for ${application.position}? You can tell us why (optional).`,
+      ""
+    );
+    if (reason === null) return;
+    void run(
+      () => withdrawCareerApplication(application.id, reason.trim() || undefined),
+      "Your application has been withdrawn.",
+      "Failed to withdraw application"
+    );
+  }
+
+  function onReply(requestId: number) {
+    const text = (replies[requestId] ?? "").trim();
+    if (!text) return;
+    void run(
+      async () => {
+        await replyToCareerInfoRequest(application.id, requestId, text);
+        setReplies((prev) => ({ ...prev, [requestId]: "" }));
+      },
+      "Thanks — your reply has been sent to the team.",
+      "Failed to send reply"
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      {error ? <div className="rounded-lg bg-rose-50 border border-rose-200 px-3 py-2 text-sm text-rose-700">{error}</div> : null}
+      {notice ? (
+        <div className="rounded-lg bg-emerald-50 border border-emerald-200 px-3 py-2 text-sm text-emerald-700">{notice}</div>
+      ) : null}
+
+      {application.info_requests.length > 0 ? (
+        <div>
+          <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wide">Questions from our team</div>
+          <div className="space-y-3">
+            {application.info_requests.map((r) => (
+              <div key={r.id} className="rounded-xl border border-gray-200 bg-white p-3 text-sm">
+                <div className="text-xs text-gray-400">{formatDate(r.created_at)}</div>
+                <div className="mt-1 whitespace-pre-wrap text-gray-900">{r.question}</div>
+                {r.response ? (
+                  <div className="mt-2 rounded-lg bg-gray-50 px-3 py-2 text-gray-700">
+                    <div className="text-xs text-gray-400">Your reply · {formatDate(r.responded_at ?? r.created_at)}</div>
+                    <div className="whitespace-pre-wrap">{r.response}</div>
+                  </div>
+                ) : withdrawn ? null : (
+                  <div className="mt-2 space-y-2">
+                    <textarea
+                      rows={3}
+                      value={replies[r.id] ?? ""}
+                      onChange={(e) => setReplies((prev) => ({ ...prev, [r.id]: e.target.value }))}
+                      placeholder="Your reply"
+                      className="w-full px-3 py-2 rounded-xl border border-gray-300 focus:border-blue-600 focus:ring-2 focus:ring-blue-600/20 outline-none transition-all resize-y text-sm bg-white"
+                    />
+                    <button
+                      type="button"
+                      disabled={busy || !(replies[r.id] ?? "").trim()}
+                      onClick={() => onReply(r.id)}
+                      className="inline-flex items-center px-4 py-2 rounded-xl bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 disabled:opacity-60 transition-all"
+                    >
+                      Send reply
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div>
+        <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wide">Progress</div>
+        <ol className="space-y-1.5 text-sm">
+          <li className="text-gray-700">
+            <span className="text-xs text-gray-400">{formatDate(application.created_at)}</span> · Application received
+          </li>
+          {application.history.map((h) => (
+            <li key={h.id} className="text-gray-700">
+              <span className="text-xs text-gray-400">{formatDate(h.created_at)}</span> ·{" "}
+              {h.kind === "withdrawn"
+                ? "You withdrew this application"
+                : h.kind === "resume_replaced"
+                  ? "You uploaded a new resume"
+                  : `Status: ${careerStatusLabel(h.to_status ?? "")}`}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {!closed ? (
+        <div className="flex flex-wrap items-center gap-3">
+          {canReplaceResume ? (
+            <label className="inline-flex cursor-pointer items-center px-4 py-2 rounded-xl border border-blue-200 text-blue-700 text-sm font-semibold hover:bg-blue-50 transition-all">
+              {uploadPct !== null ? `Uploading… ${uploadPct}%` : "Replace resume"}
+              <input
+                type="file"
+                accept=".pdf,.doc,.docx,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                className="sr-only"
+                disabled={busy}
+                onChange={(e) => {
+                  onReplaceResume(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          ) : null}
+          <button
+            type="button"
+            disabled={busy}
+            onClick={onWithdraw}
+            className="inline-flex items-center px-4 py-2 rounded-xl border border-rose-200 text-rose-700 text-sm font-semibold hover:bg-rose-50 disabled:opacity-60 transition-all"
+          >
+            Withdraw application
+          </button>
+          {!canReplaceResume ? (
+            <span className="text-xs text-gray-400">Your resume can no longer be replaced once review has started.</span>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { AnimatePresence } from "motion/react";
 import { PageTransition } from "./PageTransition";
 import { useEffect } from "react";
 import { getJson } from "../services/apiClient";
+import { captureReferralCode } from "../lib/referral";
 
 export function Layout() {
   const location = useLocation();
@@ -21,6 +22,10 @@ export function Layout() {
     getJson("/api/health").catch(() => undefined);
   }, []);
 
+  useEffect(() => {
+    captureReferralCode(location.search);
+  }, [location.search]);
+
   return (
     <AuthProvider>
       <div className="min-h-screen flex flex-col font-inter overflow-x-hidden">
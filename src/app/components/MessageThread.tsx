@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from "react";
+import { Paperclip, Send, X } from "lucide-react";
+
+import {
+  fetchThreadMessages,
+  getMessageAttachmentUrl,
+  postThreadMessage,
+  uploadMessageAttachment,
+  type MessageAttachment,
+  type ThreadKind,
+  type ThreadMessage,
+} from "../services/messagesService";
+
+const MAX_ATTACHMENTS = 5;
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatWhen(value: string) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+// Conversation attached to an order or a submission. `as` decides which side
+// of the thread the viewer is on (and which API the component talks to).
+export function MessageThread({
+  kind,
+  id,
+  as = "client",
+  onRead,
+}: {
+  kind: ThreadKind;
+  id: number;
+  as?: "client" | "admin";
+  onRead?: () => void;
+}) {
+  const [items, setItems] = useState<ThreadMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [uploadPct, setUploadPct] = useState<number | null>(null);
+  const [sending, setSending] = useState(false);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const endRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+    fetchThreadMessages(kind, id, as)
+      .then((r) => {
+        if (!mounted) return;
+        setItems(r.items);
+        onRead?.();
+      })
+      .catch((e: any) => {
+        if (mounted) setError(e?.message ?? "Failed to load messages");
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [kind, id, as]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [items.length]);
+
+  async function onPickFile(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    setUploadPct(0);
+    try {
+      const attachment = await uploadMessageAttachment(file, setUploadPct);
+      setAttachments((prev) => [...prev, attachment]);
+    } catch (e: any) {
+      setError(e?.message ?? "Upload failed");
+    } finally {
+      setUploadPct(null);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  async function openAttachment(messageId: number, index: number) {
+    setError(null);
+    try {
+      const r = await getMessageAttachmentUrl(messageId, index);
+      window.open(r.url, "_blank", "noopener,noreferrer");
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to open attachment");
+    }
+  }
+
+  async function send() {
+    if (!body.trim() && attachments.length === 0) return;
+    setError(null);
+    setSending(true);
+    try {
+      const r = await postThreadMessage(kind, id, { body: body.trim(), attachments }, as);
+      setItems((prev) => [...prev, r.message]);
+      setBody("");
+      setAttachments([]);
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white">
+      <div className="max-h-96 overflow-y-auto p-3 space-y-3">
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading messages…</div>
+        ) : items.length === 0 ? (
+          <div className="text-sm text-gray-500">
+            {as === "admin" ? "No messages yet. Start the conversation below." : "No messages yet. Ask us anything about this request."}
+          </div>
+        ) : (
+          items.map((m) => {
+            const mine = m.author_role === as;
+            return (
+              <div key={m.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+                <div className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm ${mine ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-900"}`}>
+                  {m.body ? <div className="whitespace-pre-wrap break-words">{m.body}</div> : null}
+                  {m.attachments.length > 0 ? (
+                    <div className="mt-1 grid gap-1">
+                      {m.attachments.map((a, idx) => (
+                        <button
+                          key={a.path}
+                          type="button"
+                          onClick={() => void openAttachment(m.id, idx)}
+                          className={`inline-flex items-center gap-1 text-left text-xs underline ${mine ? "text-blue-100" : "text-blue-700"}`}
+                        >
+                          <Paperclip size={12} />
+                          {a.name} ({formatSize(a.size)})
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                  <div className={`mt-1 text-[11px] ${mine ? "text-blue-100" : "text-gray-500"}`}>
+                    {m.author_role === "admin" ? (as === "admin" ? m.author_email ?? "Admin" : "HZ IT Company") : m.author_email ?? "Client"}
+                    {" · "}
+                    {formatWhen(m.created_at)}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="border-t border-gray-100 p-3">
+        {error ? <div className="mb-2 text-xs text-rose-700">{error}</div> : null}
+        {attachments.length > 0 ? (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {attachments.map((a) => (
+              <span key={a.path} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-1 text-xs text-gray-700">
+                {a.name}
+                <button
+                  type="button"
+                  aria-label={`Remove ${a.name}`}
+                  onClick={() => setAttachments((prev) => prev.filter((x) => x.path !== a.path))}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : null}
+        <div className="flex items-end gap-2">
+          <textarea
+            rows={2}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write a message…"
+            className="flex-1 resize-y rounded-xl border border-gray-300 px-3 py-2 text-sm outline-none focus:border-blue-600 focus:ring-2 focus:ring-blue-600/20"
+          />
+          <input ref={fileRef} type="file" className="hidden" onChange={(e) => void onPickFile(e.target.files?.[0])} />
+          <button
+            type="button"
+            disabled={uploadPct !== null || attachments.length >= MAX_ATTACHMENTS}
+            onClick={() => fileRef.current?.click()}
+            className="inline-flex h-10 items-center gap-1 rounded-xl border border-gray-200 px-3 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            aria-label="Attach a file"
+          >
+            <Paperclip size={14} />
+            {uploadPct !== null ? `${uploadPct}%` : null}
+          </button>
+          <button
+            type="button"
+            disabled={sending || uploadPct !== null || (!body.trim() && attachments.length === 0)}
+            onClick={() => void send()}
+            className="inline-flex h-10 items-center gap-1 rounded-xl bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+          >
+            <Send size={14} />
+            {sending ? "Sending…" : "Send"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
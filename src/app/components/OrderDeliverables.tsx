@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+
+import {
+  approveDeliverable,
+  fetchPortalOrderDeliverables,
+  getDeliverableDownloadUrl,
+  requestDeliverableChanges,
+  type Deliverable,
+} from "../services/platformService";
+
+function statusLabel(status: Deliverable["status"]) {
+  if (status === "approved") return "Approved";
+  if (status === "changes_requested") return "Changes requested";
+  return "Awaiting your review";
+}
+
+function statusClass(status: Deliverable["status"]) {
+  if (status === "approved") return "bg-green-100 text-green-800";
+  if (status === "changes_requested") return "bg-amber-100 text-amber-800";
+  return "bg-blue-50 text-blue-700";
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Files delivered on an order, with download, approve and request-changes.
+export function OrderDeliverables({ orderId, onProjectDelivered }: { orderId: number; onProjectDelivered?: () => void }) {
+  const [items, setItems] = useState<Deliverable[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [changesFor, setChangesFor] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+
+  function load() {
+    fetchPortalOrderDeliverables(orderId)
+      .then((r) => setItems(r.items))
+      .catch((e: any) => setError(e?.message ?? "Failed to load deliverables"));
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orderId]);
+
+  async function download(versionId: number) {
+    setError(null);
+    try {
+      const r = await getDeliverableDownloadUrl(versionId);
+      window.open(r.url, "_blank", "noopener,noreferrer");
+    } catch (e: any) {
+      setError(e?.message ?? "Download failed");
+    }
+  }
+
+  async function approve(d: Deliverable) {
+    if (!window.confirm(`Approve "${d.title}" (v${d.versions[0]?.version ?? 1})?`)) return;
+    setError(null);
+    setBusyId(d.id);
+    try {
+      const r = await approveDeliverable(d.id);
+      load();
+      if (r.projectDelivered) onProjectDelivered?.();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to approve");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function submitChanges(d: Deliverable) {
+    if (note.trim().length < 3) return setError("Tell us what should change.");
+    setError(null);
+    setBusyId(d.id);
+    try {
+      await requestDeliverableChanges(d.id, note.trim());
+      setChangesFor(null);
+      setNote("");
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to send feedback");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
+      <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">Deliverables</div>
+      {error ? <div className="mt-2 text-xs text-rose-700">{error}</div> : null}
+
+      {!items ? (
+        <div className="mt-2 text-sm text-gray-600">Loading…</div>
+      ) : items.length === 0 ? (
+        <div className="mt-2 text-sm text-gray-600">No files have been delivered yet.</div>
+      ) : (
+        <div className="mt-2 grid gap-2">
+          {items.map((d) => {
+            const latest = d.versions[0];
+            return (
+              <div key={d.id} className="rounded-lg border border-gray-200 bg-white px-3 py-2">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <div className="font-medium text-gray-900">{d.title}</div>
+                    {d.description ? <div className="text-xs text-gray-500">{d.description}</div> : null}
+                  </div>
+                  <span className={`inline-flex rounded-full px-2 py-1 text-xs ${statusClass(d.status)}`}>{statusLabel(d.status)}</span>
+                </div>
+
+                {latest ? (
+                  <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-gray-700">
+                      v{latest.version} · {latest.file_name} ({formatSize(latest.file_size)})
+                      {latest.notes ? <span className="block text-xs text-gray-500">{latest.notes}</span> : null}
+                    </span>
+                    <div className="flex items-center gap-3">
+                      <button className="text-blue-700 hover:underline" onClick={() => download(latest.id)}>
+                        Download
+                      </button>
+                      {d.status !== "approved" ? (
+                        <>
+                          <button
+                            className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                            disabled={busyId !== null}
+                            onClick={() => approve(d)}
+                          >
+                            {busyId === d.id ? "Saving…" : "Approve"}
+                          </button>
+                          <button
+                            className="text-xs font-semibold text-gray-600 hover:underline"
+                            onClick={() => {
+                              setChangesFor(changesFor === d.id ? null : d.id);
+                              setNote("");
+                            }}
+                          >
+                            Request changes
+                          </button>
+                        </>
+                      ) : null}
+                    </div>
+                  </div>
+                ) : null}
+
+                {changesFor === d.id ? (
+                  <div className="mt-2 flex flex-col gap-2 sm:flex-row">
+                    <input
+                      className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                      placeholder="What would you like changed?"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                    />
+                    <button
+                      className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                      disabled={busyId !== null}
+                      onClick={() => submitChanges(d)}
+                    >
+                      Send feedback
+                    </button>
+                  </div>
+                ) : null}
+
+                {d.versions.length > 1 ? (
+                  <details className="mt-2 text-xs text-gray-500">
+                    <summary className="cursor-pointer">Earlier versions</summary>
+                    <div className="mt-1 grid gap-1">
+                      {d.versions.slice(1).map((v) => (
+                        <div key={v.id} className="flex items-center justify-between gap-2">
+                          <span>
+                            v{v.version} · {v.file_name} · {new Date(v.created_at).toLocaleDateString("en-IN")}
+                          </span>
+                          <button className="text-blue-700 hover:underline" onClick={() => download(v.id)}>
+                            Download
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+
+import {
+  cancelSubscription,
+  downloadSubscriptionChargeInvoice,
+  fetchPortalSubscriptions,
+  pauseSubscription,
+  resumeSubscription,
+  type Subscription,
+} from "../services/platformService";
+import { billingIntervalSuffix, subscriptionStatusBadgeClass } from "../config/billingIntervals";
+
+function formatDate(value: string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+}
+
+function statusText(s: Subscription) {
+  if (s.status === "active" && s.cancel_at_cycle_end) return `ends ${formatDate(s.current_end)}`;
+  if (s.status === "pending") return "payment retrying";
+  if (s.status === "halted") return "payment failed";
+  return s.status;
+}
+
+// Recurring plans (retainers) with their renewals, pause/resume and cancel.
+// Renders nothing until the client has at least one subscription.
+export function PortalSubscriptions() {
+  const [items, setItems] = useState<Subscription[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [chargesId, setChargesId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchPortalSubscriptions()
+      .then((r) => {
+        if (mounted) setItems(r.items);
+      })
+      .catch(() => {
+        if (mounted) setItems([]);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  async function run(s: Subscription, action: () => Promise<{ subscription: Subscription }>) {
+    setError(null);
+    setBusyId(s.id);
+    try {
+      const r = await action();
+      setItems((prev) => prev.map((x) => (x.id === s.id ? r.subscription : x)));
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to update subscription");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function onPause(s: Subscription) {
+    if (!window.confirm(`Pause ${s.service_name} — ${s.plan_name}? No further charges are made until you resume.`)) return;
+    void run(s, () => pauseSubscription(s.id));
+  }
+
+  function onCancel(s: Subscription) {
+    const message =
+      s.status === "active"
+        ? `Cancel ${s.service_name} — ${s.plan_name}? It stays active until ${formatDate(s.current_end)} and will not renew.`
+        : `Cancel ${s.service_name} — ${s.plan_name}? This cannot be undone.`;
+    if (!window.confirm(message)) return;
+    void run(s, () => cancelSubscription(s.id));
+  }
+
+  async function openInvoice(s: Subscription, chargeId: number) {
+    setError(null);
+    try {
+      const blob = await downloadSubscriptionChargeInvoice(s.order_id, chargeId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank", "noopener,noreferrer");
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (e: any) {
+      setError(e?.message ?? "Invoice download failed");
+    }
+  }
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl border border-gray-200 p-4 sm:p-6">
+      <h2 className="text-lg font-semibold text-gray-900">Subscriptions</h2>
+      {error ? <div className="mt-3 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div> : null}
+
+      <div className="mt-3 grid gap-3">
+        {items.map((s) => {
+          const ended = ["cancelled", "completed", "expired"].includes(s.status);
+          return (
+            <div key={s.id} className="rounded-xl border border-gray-200 p-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {s.service_name} — {s.plan_name}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    ₹{s.price_inr.toLocaleString("en-IN")}
+                    {billingIntervalSuffix(s.billing_interval)} · order #{s.order_id}
+                    {s.status === "active" && !s.cancel_at_cycle_end ? ` · renews ${formatDate(s.current_end)}` : ""}
+                    {s.status === "paused" ? ` · paused ${formatDate(s.paused_at)}` : ""}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className={`inline-flex rounded-full px-2 py-1 text-xs ${subscriptionStatusBadgeClass(s.status)}`}>
+                    {statusText(s)}
+                  </span>
+                  {s.charges.length > 0 ? (
+                    <button className="text-blue-700 hover:underline" onClick={() => setChargesId(chargesId === s.id ? null : s.id)}>
+                      Payments ({s.charges.length})
+                    </button>
+                  ) : null}
+                  {s.status === "active" && !s.cancel_at_cycle_end ? (
+                    <button
+                      className="text-xs font-semibold text-gray-600 hover:underline disabled:opacity-60"
+                      disabled={busyId !== null}
+                      onClick={() => onPause(s)}
+                    >
+                      Pause
+                    </button>
+                  ) : null}
+                  {s.status === "paused" ? (
+                    <button
+                      className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                      disabled={busyId !== null}
+                      onClick={() => void run(s, () => resumeSubscription(s.id))}
+                    >
+                      {busyId === s.id ? "Saving…" : "Resume"}
+                    </button>
+                  ) : null}
+                  {!ended && !s.cancel_at_cycle_end ? (
+                    <button
+                      className="text-xs font-semibold text-rose-700 hover:underline disabled:opacity-60"
+                      disabled={busyId !== null}
+                      onClick={() => onCancel(s)}
+                    >
+                      Cancel
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+
+              {chargesId === s.id ? (
+                <div className="mt-3 grid gap-2">
+                  {s.charges.map((c) => (
+                    <div
+                      key={c.id}
+                      className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm"
+                    >
+                      <span className="text-gray-700">
+                        ₹{(c.amount_paise / 100).toLocaleString("en-IN")} · {formatDate(c.created_at)}
+                        {c.period_start && c.period_end ? (
+                          <span className="text-xs text-gray-500">
+                            {" "}
+                            · for {formatDate(c.period_start)} – {formatDate(c.period_end)}
+                          </span>
+                        ) : null}
+                      </span>
+                      <button className="text-blue-700 hover:underline" onClick={() => void openInvoice(s, c.id)}>
+                        {c.invoice_number ?? "Invoice"}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
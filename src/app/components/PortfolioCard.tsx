@@ -0,0 +1,69 @@
+import { motion } from "motion/react";
+import { Link } from "react-router";
+import { ArrowRight } from "lucide-react";
+
+import type { CollectionItemData } from "../services/platformService";
+
+interface PortfolioCardProps {
+  project: CollectionItemData["portfolio"];
+  delay?: number;
+}
+
+export function PortfolioCard({ project, delay = 0 }: PortfolioCardProps) {
+  const linkClass = "mt-5 inline-flex items-center gap-1.5 text-sm font-semibold text-blue-600 hover:text-blue-700";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      whileInView={{ opacity: 1, y: 0 }}
+      viewport={{ once: true }}
+      transition={{ duration: 0.5, delay }}
+      className="group flex flex-col overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-lg hover:shadow-2xl transition-shadow duration-300"
+    >
+      <div className="relative aspect-[16/10] overflow-hidden bg-gradient-to-br from-blue-600 to-blue-900">
+        {project.imageUrl ? (
+          <img
+            src={project.imageUrl}
+            alt={project.title}
+            loading="lazy"
+            className="h-full w-full object-cover transition-transform duration-500 group-hover:scale-105"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center px-6 text-center text-xl font-bold text-white/90 font-poppins">
+            {project.title}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-1 flex-col p-6">
+        <div className="text-xs font-semibold uppercase tracking-wide text-blue-600">{project.category}</div>
+        <h3 className="mt-2 text-xl font-bold text-gray-900 font-poppins">{project.title}</h3>
+        {project.summary ? <p className="mt-3 text-gray-600 leading-relaxed">{project.summary}</p> : null}
+
+        {project.tags.length ? (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {project.tags.map((tag) => (
+              <span key={tag} className="rounded-full bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700">
+                {tag}
+              </span>
+            ))}
+          </div>
+        ) : null}
+
+        {project.link ? (
+          <div className="mt-auto">
+            {project.link.startsWith("/") ? (
+              <Link to={project.link} className={linkClass}>
+                View project <ArrowRight size={16} />
+              </Link>
+            ) : (
+              <a href={project.link} target="_blank" rel="noopener noreferrer" className={linkClass}>
+                View project <ArrowRight size={16} />
+              </a>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </motion.div>
+  );
+}
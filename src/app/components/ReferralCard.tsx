@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+
+import { fetchMyReferral, type MyReferral } from "../services/platformService";
+
+// The signed-in user's referral link with how many people it brought in.
+export function ReferralCard() {
+  const [referral, setReferral] = useState<MyReferral | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchMyReferral()
+      .then((r) => {
+        if (mounted) setReferral(r.referral);
+      })
+      .catch((e: any) => {
+        if (mounted) setError(e?.message ?? "Failed to load your referral link");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const link = referral ? (referral.link.startsWith("/") ? `${window.location.origin}${referral.link}` : referral.link) : "";
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError("Copy failed — select the link and copy it manually.");
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-lg border border-gray-100 p-6 sm:p-8">
+      <h2 className="text-lg font-bold text-gray-900 font-poppins">Refer a client or a colleague</h2>
+      <p className="mt-1 text-sm text-gray-600">
+        Share your link. Project requests, job applications and orders made through it are credited to you.
+      </p>
+
+      {error ? <div className="mt-4 text-sm text-red-600">{error}</div> : null}
+
+      {!referral ? (
+        error ? null : <div className="mt-4 text-sm text-gray-600">Loading…</div>
+      ) : !referral.is_active ? (
+        <div className="mt-4 text-sm text-gray-600">Your referral code ({referral.code}) has been paused.</div>
+      ) : (
+        <>
+          <div className="mt-4 flex flex-col sm:flex-row gap-2">
+            <input
+              readOnly
+              value={link}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 h-10 rounded-md border border-gray-300 bg-gray-50 px-3 text-sm text-gray-700"
+            />
+            <button
+              type="button"
+              onClick={() => void copyLink()}
+              className="h-10 px-4 rounded-md bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 transition-colors"
+            >
+              {copied ? "Copied" : "Copy link"}
+            </button>
+          </div>
+          <div className="mt-1 text-xs text-gray-500">
+            Code: <span className="font-mono font-semibold text-gray-700">{referral.code}</span>
+          </div>
+
+          <dl className="mt-5 grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+            {[
+              { label: "Project requests", value: referral.leads },
+              { label: "Applications", value: referral.applications },
+              { label: "Hired", value: referral.hired },
+              { label: "Paid orders", value: referral.paid_orders },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg border border-gray-100 bg-gray-50 px-3 py-3">
+                <dt className="text-xs text-gray-500">{stat.label}</dt>
+                <dd className="mt-1 text-xl font-bold text-gray-900">{stat.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </>
+      )}
+    </div>
+  );
+}
@@ -166,3 +166,13 @@ export function Seo({
     </Helmet>
   );
 }
+
+// Extra JSON-LD for a section of the page (e.g. a CMS FAQ block), rendered
+// next to the page's own schema without replacing its title or meta tags.
+export function SeoJsonLd({ schema }: { schema: Record<string, unknown> }) {
+  return (
+    <Helmet>
+      <script type="application/ld+json">{JSON.stringify(schema)}</script>
+    </Helmet>
+  );
+}
@@ -2,42 +2,32 @@ import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { ChevronLeft, ChevronRight, Quote } from "lucide-react";
 
-const testimonials = [
-  {
-    id: 1,
-    name: "VP Engineering",
-    role: "B2B SaaS",
-    content:
-      "HZ IT Company tightened our delivery process and helped us ship a stable release train. Their architecture guidance and clean handover documentation made our internal team faster immediately.",
-    rating: 5,
-  },
-  {
-    id: 2,
-    name: "Head of Product",
-    role: "Healthcare startup",
-    content:
-      "They delivered a mobile MVP with great UX and no surprises. Weekly demos, clear scope control, and an emphasis on performance made the rollout smooth.",
-    rating: 5,
-  },
-  {
-    id: 3,
-    name: "Operations Lead",
-    role: "Logistics platform",
-    content:
-      "We needed reliability and fast iteration. HZ IT Company shipped improvements in small, testable increments and kept stakeholders aligned with simple, consistent reporting.",
-    rating: 5,
-  },
-];
+import { defaultTestimonials } from "../config/contentCollections";
 
-export function TestimonialSlider() {
+export type Testimonial = {
+  id: number | string;
+  name: string;
+  role?: string;
+  content: string;
+  rating: number;
+};
+
+// Built-in quotes, shared with Admin › Collections as the testimonials fallback.
+const fallbackTestimonials: Testimonial[] = defaultTestimonials.map((item, i) => ({ ...item, id: i + 1 }));
+
+// Rotates through `items` (e.g. from a CMS testimonials block or the
+// testimonials collection), or the built-in quotes when none are given.
+export function TestimonialSlider({ items }: { items?: Testimonial[] } = {}) {
+  const testimonials = items && items.length ? items : fallbackTestimonials;
   const [currentIndex, setCurrentIndex] = useState(0);
+  const current = testimonials[currentIndex % testimonials.length];
 
   useEffect(() => {
     const timer = setInterval(() => {
       setCurrentIndex((prev) => (prev + 1) % testimonials.length);
     }, 5000);
     return () => clearInterval(timer);
-  }, []);
+  }, [testimonials.length]);
 
   const next = () => {
     setCurrentIndex((prev) => (prev + 1) % testimonials.length);
@@ -65,12 +55,12 @@ export function TestimonialSlider() {
 
           {/* Content */}
           <p className="text-gray-700 text-lg md:text-xl mb-8 leading-relaxed italic">
-            "{testimonials[currentIndex].content}"
+            "{current.content}"
           </p>
 
           {/* Rating */}
           <div className="flex mb-4">
-            {[...Array(testimonials[currentIndex].rating)].map((_, i) => (
+            {[...Array(current.rating)].map((_, i) => (
               <svg
                 key={i}
                 className="w-5 h-5 text-yellow-400 fill-current"
@@ -84,9 +74,9 @@ export function TestimonialSlider() {
           {/* Author */}
           <div>
             <p className="font-bold text-gray-900 text-lg font-poppins">
-              {testimonials[currentIndex].name}
+              {current.name}
             </p>
-            <p className="text-blue-600 text-sm">{testimonials[currentIndex].role}</p>
+            <p className="text-blue-600 text-sm">{current.role}</p>
           </div>
         </motion.div>
       </AnimatePresence>
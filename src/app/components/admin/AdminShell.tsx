@@ -1,8 +1,9 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router";
 import { AnimatePresence, motion } from "motion/react";
 
 import { useAuth } from "../../auth/AuthProvider";
+import { fetchAdminUnreadMessageCount } from "../../services/messagesService";
 
 type AdminNavItem = { label: string; to: string };
 
@@ -18,16 +19,34 @@ export function AdminShell({ title, children }: { title: string; children: React
   const navigate = useNavigate();
   const { user, logout } = useAuth();
   const [mobileOpen, setMobileOpen] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchAdminUnreadMessageCount()
+      .then((r) => {
+        if (mounted) setUnreadMessages(r.total);
+      })
+      .catch(() => undefined);
+    return () => {
+      mounted = false;
+    };
+  }, [location.pathname]);
 
   const navItems: AdminNavItem[] = useMemo(
     () => [
       { label: "Overview", to: "/admin/dashboard" },
       { label: "Users", to: "/admin/users" },
       { label: "Submissions", to: "/admin/submissions" },
+      { label: "Leads", to: "/admin/leads" },
       { label: "Hire List", to: "/admin/orders" },
+      { label: "Messages", to: "/admin/messages" },
       { label: "Pricing", to: "/admin/pricing" },
+      { label: "Coupons", to: "/admin/coupons" },
+      { label: "Referrals", to: "/admin/referrals" },
       { label: "Careers", to: "/admin/careers" },
       { label: "Content", to: "/admin/content" },
+      { label: "Collections", to: "/admin/collections" },
     ],
     []
   );
@@ -54,6 +73,11 @@ export function AdminShell({ title, children }: { title: string; children: React
             }
           >
             {item.label}
+            {item.to === "/admin/messages" && unreadMessages > 0 ? (
+              <span className="ml-2 inline-flex min-w-5 justify-center rounded-full bg-rose-600 px-1.5 text-[11px] font-semibold text-white">
+                {unreadMessages}
+              </span>
+            ) : null}
           </Link>
         );
       })}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+
+import { careerStatusLabel } from "../../config/careerStatuses";
+import {
+  fetchAdminCareerDuplicates,
+  mergeAdminCareerApplications,
+  unlinkAdminCareerApplication,
+  type CareerApplicationSummary,
+} from "../../services/platformService";
+
+type Duplicates = Awaited<ReturnType<typeof fetchAdminCareerDuplicates>>;
+
+function ApplicationLine({ app, onOpen }: { app: CareerApplicationSummary; onOpen?: (id: number) => void }) {
+  return (
+    <div className="min-w-0">
+      {onOpen ? (
+        <button type="button" className="text-left font-medium text-gray-900 hover:underline" onClick={() => onOpen(app.id)}>
+          #{app.id} {app.full_name}
+        </button>
+      ) : (
+        <span className="font-medium text-gray-900">
+          #{app.id} {app.full_name}
+        </span>
+      )}
+      <div className="text-xs text-gray-500">
+        {app.position} · {app.withdrawn_at ? "Withdrawn" : careerStatusLabel(app.status)} ·{" "}
+        {new Date(app.created_at).toLocaleDateString("en-IN")}
+      </div>
+      <div className="truncate text-xs text-gray-500">
+        {app.email} · {app.phone}
+      </div>
+    </div>
+  );
+}
+
+// Other applications from the same person: ones already linked to this
+// candidate's profile, and likely duplicates that can be merged into it.
+export function CandidateDuplicates({
+  applicationId,
+  onOpen,
+  onChanged,
+}: {
+  applicationId: number;
+  onOpen?: (id: number) => void;
+  onChanged: () => void;
+}) {
+  const [data, setData] = useState<Duplicates | null>(null);
+  const [picked, setPicked] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  function load() {
+    fetchAdminCareerDuplicates(applicationId)
+      .then((r) => {
+        setData(r);
+        setPicked(new Set(r.duplicates.filter((d) => d.strong).map((d) => d.id)));
+      })
+      .catch((e: any) => setError(e?.message ?? "Failed to check for duplicates"));
+  }
+
+  useEffect(() => {
+    setData(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [applicationId]);
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+      load();
+      onChanged();
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function merge() {
+    const ids = [applicationId, ...picked];
+    if (!window.confirm(`Link ${ids.length} applications to one candidate profile? Each keeps its own status and history.`)) return;
+    void run(() => mergeAdminCareerApplications(ids), "Failed to merge candidates");
+  }
+
+  function unlink(id: number) {
+    if (!window.confirm(`Unlink application #${id} from this candidate?`)) return;
+    void run(() => unlinkAdminCareerApplication(id), "Failed to unlink application");
+  }
+
+  if (!data || (data.linked.length === 0 && data.duplicates.length === 0 && !error)) return null;
+
+  return (
+    <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+      {error ? <div className="mb-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div> : null}
+
+      {data.linked.length > 0 ? (
+        <div>
+          <div className="text-sm font-semibold text-gray-900">Other applications by this candidate</div>
+          <div className="mt-3 grid gap-2">
+            {data.linked.map((a) => (
+              <div key={a.id} className="flex items-start justify-between gap-3 rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                <ApplicationLine app={a} onOpen={onOpen} />
+                <button type="button" disabled={busy} className="shrink-0 text-xs text-rose-700 hover:underline disabled:opacity-60" onClick={() => unlink(a.id)}>
+                  Unlink
+                </button>
+              </div>
+            ))}
+            <div className="text-right">
+              <button
+                type="button"
+                disabled={busy}
+                className="text-xs text-gray-600 hover:underline disabled:opacity-60"
+                onClick={() => unlink(applicationId)}
+              >
+                Unlink this application
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {data.duplicates.length > 0 ? (
+        <div className={data.linked.length > 0 ? "mt-4" : ""}>
+          <div className="text-sm font-semibold text-gray-900">Possible duplicates</div>
+          <div className="mt-3 grid gap-2">
+            {data.duplicates.map((d) => (
+              <label key={d.id} className="flex items-start gap-3 rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={picked.has(d.id)}
+                  onChange={(e) =>
+                    setPicked((prev) => {
+                      const next = new Set(prev);
+                      if (e.target.checked) next.add(d.id);
+                      else next.delete(d.id);
+                      return next;
+                    })
+                  }
+                />
+                <div className="min-w-0 flex-1">
+                  <ApplicationLine app={d} onOpen={onOpen} />
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {d.reasons.map((r) => (
+                      <span
+                        key={r}
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs ${
+                          r.startsWith("Same") ? "bg-amber-100 text-amber-800" : "bg-gray-100 text-gray-600"
+                        }`}
+                      >
+                        {r}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+          <div className="mt-3 text-right">
+            <button
+              type="button"
+              disabled={busy || picked.size === 0}
+              onClick={merge}
+              className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+            >
+              Merge candidates
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
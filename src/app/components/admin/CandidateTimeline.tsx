@@ -0,0 +1,646 @@
+import { useEffect, useState } from "react";
+
+import {
+  careerStatusLabel,
+  emailOutcomeBadgeClass,
+  emailOutcomeLabel,
+  recommendationBadgeClass,
+  recommendationLabel,
+  scorecardCriteria,
+  scorecardRecommendations,
+} from "../../config/careerStatuses";
+import {
+  addAdminCareerNote,
+  fetchAdminCareerPipeline,
+  fetchAdminCareerTimeline,
+  moveAdminCareerStage,
+  requestAdminCareerInfo,
+  resendAdminInterviewInvite,
+  scheduleAdminInterview,
+  submitAdminScorecard,
+  updateAdminInterview,
+  type CareerEvent,
+  type CareerInterview,
+  type PipelineStage,
+  type ScorecardRecommendation,
+} from "../../services/platformService";
+import { CandidateDuplicates } from "./CandidateDuplicates";
+
+type Timeline = Awaited<ReturnType<typeof fetchAdminCareerTimeline>>;
+
+const inputClass = "h-10 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900";
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+// <input type="datetime-local"> works in local time without a zone.
+function toLocalInput(value: string) {
+  const d = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function eventText(e: CareerEvent) {
+  if (e.kind === "stage_changed") return `${e.from_stage ?? "—"} → ${e.to_stage ?? "—"}`;
+  if (e.kind === "withdrawn") return "Candidate withdrew";
+  if (e.kind === "resume_replaced") return "Candidate uploaded a new resume";
+  if (e.kind === "info_requested") return "Asked the candidate";
+  if (e.kind === "info_replied") return "Candidate replied";
+  if (e.kind === "merged") return "Merged with other applications";
+  if (e.kind === "unmerged") return "Unlinked from candidate profile";
+  return "Note";
+}
+
+// Side panel for one candidate: stage moves, notes, questions to the
+// candidate, interviews with calendar invites, and interviewer scorecards.
+export function CandidateTimeline({
+  applicationId,
+  onClose,
+  onChanged,
+  onOpen,
+}: {
+  applicationId: number;
+  onClose: () => void;
+  onChanged: () => void;
+  onOpen?: (id: number) => void;
+}) {
+  const [data, setData] = useState<Timeline | null>(null);
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [stageId, setStageId] = useState<number | "">("");
+  const [note, setNote] = useState("");
+  const [question, setQuestion] = useState("");
+
+  const [scheduling, setScheduling] = useState(false);
+  const [roundName, setRoundName] = useState("");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [duration, setDuration] = useState(45);
+  const [interviewerName, setInterviewerName] = useState("");
+  const [interviewerEmail, setInterviewerEmail] = useState("");
+  const [meetingUrl, setMeetingUrl] = useState("");
+  const [sendInvite, setSendInvite] = useState(true);
+
+  function load() {
+    fetchAdminCareerTimeline(applicationId)
+      .then((r) => {
+        setData(r);
+        setStageId(r.application.stage_id ?? "");
+        return fetchAdminCareerPipeline(r.application.position);
+      })
+      .then((r) => setStages(r.stages))
+      .catch((e: any) => setError(e?.message ?? "Failed to load candidate"));
+  }
+
+  useEffect(() => {
+    setData(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [applicationId]);
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setError(null);
+    setNotice(null);
+    setBusy(true);
+    try {
+      await action();
+      load();
+      onChanged();
+      return true;
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveStageOrNote() {
+    if (!data) return;
+    const text = note.trim();
+    const moving = stageId !== "" && stageId !== data.application.stage_id;
+    if (!moving && !text) return;
+
+    const ok = await run(
+      () =>
+        moving
+          ? moveAdminCareerStage(applicationId, { stageId: Number(stageId), note: text || undefined })
+          : addAdminCareerNote(applicationId, text),
+      "Failed to save"
+    );
+    if (ok) setNote("");
+  }
+
+  async function ask() {
+    const text = question.trim();
+    if (!text) return;
+    const ok = await run(() => requestAdminCareerInfo(applicationId, text), "Failed to send question");
+    if (ok) {
+      setQuestion("");
+      setNotice("Question sent to the candidate.");
+    }
+  }
+
+  async function schedule() {
+    if (!roundName.trim() || !scheduledAt || !interviewerName.trim()) {
+      setError("Round, time and interviewer are required");
+      return;
+    }
+    let sent = false;
+    const ok = await run(async () => {
+      const r = await scheduleAdminInterview(applicationId, {
+        roundName: roundName.trim(),
+        scheduledAt: new Date(scheduledAt).toISOString(),
+        durationMinutes: duration,
+        interviewerName: interviewerName.trim(),
+        interviewerEmail: interviewerEmail.trim() || null,
+        meetingUrl: meetingUrl.trim() || null,
+        sendInvite,
+      });
+      sent = r.inviteSent;
+    }, "Failed to schedule interview");
+    if (!ok) return;
+    setScheduling(false);
+    setRoundName("");
+    setScheduledAt("");
+    setMeetingUrl("");
+    if (sendInvite) setNotice(sent ? "Interview scheduled and invite emailed." : "Interview scheduled; the invite could not be emailed.");
+  }
+
+  const app = data?.application;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-2xl overflow-y-auto bg-gray-50 p-4 sm:p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-xl font-bold text-gray-900">{app?.full_name ?? "Loading…"}</div>
+            {app ? (
+              <div className="text-sm text-gray-600">
+                {app.position} · {app.email}
+                {app.phone ? ` · ${app.phone}` : ""}
+              </div>
+            ) : null}
+          </div>
+          <button type="button" className="text-sm font-semibold text-gray-600 hover:underline" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {error ? <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div> : null}
+        {notice ? (
+          <div className="mt-4 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">{notice}</div>
+        ) : null}
+
+        {data ? (
+          <>
+            {data.application.withdrawn_at ? (
+              <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                Withdrawn by the candidate on {formatDateTime(data.application.withdrawn_at)}
+                {data.application.withdrawal_reason ? `: ${data.application.withdrawal_reason}` : "."}
+              </div>
+            ) : null}
+
+            <CandidateDuplicates
+              applicationId={applicationId}
+              onOpen={onOpen}
+              onChanged={() => {
+                load();
+                onChanged();
+              }}
+            />
+
+            <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+              <div className="text-sm font-semibold text-gray-900 mb-3">Stage</div>
+              <div className="grid gap-3 md:grid-cols-[180px,1fr,auto] md:items-end">
+                <select
+                  value={stageId}
+                  onChange={(e) => setStageId(e.target.value ? Number(e.target.value) : "")}
+                  className={inputClass}
+                  aria-label="Pipeline stage"
+                >
+                  {stages.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Note (optional when moving)"
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void saveStageOrNote()}
+                  className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm font-semibold text-gray-900">Interviews</div>
+                <button
+                  type="button"
+                  className="text-sm font-semibold text-blue-700 hover:underline"
+                  onClick={() => setScheduling((v) => !v)}
+                >
+                  {scheduling ? "Close" : "Schedule interview"}
+                </button>
+              </div>
+
+              {scheduling ? (
+                <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                  <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                    Round
+                    <input value={roundName} onChange={(e) => setRoundName(e.target.value)} placeholder="Technical" className={inputClass} />
+                  </label>
+                  <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                    When
+                    <input type="datetime-local" value={scheduledAt} onChange={(e) => setScheduledAt(e.target.value)} className={inputClass} />
+                  </label>
+                  <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                    Duration (minutes)
+                    <input
+                      type="number"
+                      min={10}
+                      max={480}
+                      step={5}
+                      value={duration}
+                      onChange={(e) => setDuration(Number(e.target.value) || 45)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                    Interviewer
+                    <input value={interviewerName} onChange={(e) => setInterviewerName(e.target.value)} className={inputClass} />
+                  </label>
+                  <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                    Interviewer email (gets the invite too)
+                    <input type="email" value={interviewerEmail} onChange={(e) => setInterviewerEmail(e.target.value)} className={inputClass} />
+                  </label>
+                  <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                    Meeting link
+                    <input type="url" value={meetingUrl} onChange={(e) => setMeetingUrl(e.target.value)} placeholder="https://meet…" className={inputClass} />
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={sendInvite} onChange={(e) => setSendInvite(e.target.checked)} />
+                    Email calendar invite
+                  </label>
+                  <div className="sm:text-right">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => void schedule()}
+                      className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                    >
+                      Schedule
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+
+              <div className="mt-3 grid gap-3">
+                {data.interviews.length === 0 ? <div className="text-sm text-gray-500">No interviews yet.</div> : null}
+                {data.interviews.map((i) => (
+                  <InterviewCard key={i.id} interview={i} busy={busy} run={run} />
+                ))}
+              </div>
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+              <div className="text-sm font-semibold text-gray-900 mb-3">Questions for the candidate</div>
+              <div className="grid gap-2">
+                {data.infoRequests.map((r) => (
+                  <div key={r.id} className="rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                    <div className="text-xs text-gray-500">
+                      {formatDateTime(r.created_at)}
+                      {r.requested_by_email ? ` · ${r.requested_by_email}` : ""}
+                    </div>
+                    <div className="mt-1 whitespace-pre-wrap text-gray-900">{r.question}</div>
+                    {r.response ? (
+                      <div className="mt-2 rounded-lg bg-blue-50 px-3 py-2 text-gray-800">
+                        <div className="text-xs text-gray-500">Reply · {formatDateTime(r.responded_at ?? r.created_at)}</div>
+                        <div className="whitespace-pre-wrap">{r.response}</div>
+                      </div>
+                    ) : (
+                      <div className="mt-1 text-xs text-amber-700">Awaiting reply</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {!data.application.withdrawn_at ? (
+                <div className="mt-3 grid gap-2">
+                  <textarea
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    rows={2}
+                    placeholder="e.g. Could you share your notice period and expected CTC?"
+                    className="rounded-lg border border-gray-300 bg-white px-2 py-2 text-sm text-gray-900"
+                  />
+                  <div className="text-right">
+                    <button
+                      type="button"
+                      disabled={busy || question.trim().length < 5}
+                      onClick={() => void ask()}
+                      className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                    >
+                      Email question
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+            </div>
+
+            {data.emails.length > 0 ? (
+              <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+                <div className="text-sm font-semibold text-gray-900 mb-3">Status emails</div>
+                <div className="grid gap-2">
+                  {data.emails.map((m) => (
+                    <details key={m.id} className="rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                      <summary className="cursor-pointer select-none">
+                        <span className={`mr-2 inline-flex rounded-full px-2 py-0.5 text-xs ${emailOutcomeBadgeClass(m.outcome)}`}>
+                          {emailOutcomeLabel(m.outcome)}
+                        </span>
+                        <span className="text-gray-900">{careerStatusLabel(m.status)}</span>
+                        <span className="text-xs text-gray-500">
+                          {" "}
+                          · {formatDateTime(m.created_at)}
+                          {m.actor_email ? ` · ${m.actor_email}` : ""}
+                        </span>
+                      </summary>
+                      <div className="mt-2 text-xs text-gray-500">
+                        To: {m.to_email} · Subject: {m.subject}
+                      </div>
+                      {m.error ? <div className="mt-1 text-xs text-red-700">{m.error}</div> : null}
+                      <div className="mt-2 whitespace-pre-wrap text-gray-700">{m.body}</div>
+                    </details>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+
+            <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+              <div className="text-sm font-semibold text-gray-900 mb-3">Activity</div>
+              <ol className="grid gap-2">
+                <li className="text-sm text-gray-600">
+                  <span className="text-xs text-gray-500">{formatDateTime(data.application.created_at)}</span> · Applied
+                </li>
+                {data.events.map((e) => (
+                  <li key={e.id} className="text-sm">
+                    <span className="text-xs text-gray-500">{formatDateTime(e.created_at)}</span>
+                    <span className="text-gray-900"> · {eventText(e)}</span>
+                    {e.actor_email ? <span className="text-xs text-gray-500"> by {e.actor_email}</span> : null}
+                    {e.note ? <div className="mt-1 whitespace-pre-wrap text-gray-700">{e.note}</div> : null}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function InterviewCard({
+  interview,
+  busy,
+  run,
+}: {
+  interview: CareerInterview;
+  busy: boolean;
+  run: (action: () => Promise<unknown>, fallback: string) => Promise<boolean>;
+}) {
+  const [rescheduleAt, setRescheduleAt] = useState<string | null>(null);
+  const [scoring, setScoring] = useState(false);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [overall, setOverall] = useState(3);
+  const [recommendation, setRecommendation] = useState<ScorecardRecommendation>("yes");
+  const [notes, setNotes] = useState("");
+
+  const scheduled = interview.status === "scheduled";
+
+  async function reschedule() {
+    if (!rescheduleAt) return;
+    const ok = await run(
+      () => updateAdminInterview(interview.id, { scheduledAt: new Date(rescheduleAt).toISOString() }),
+      "Failed to reschedule"
+    );
+    if (ok) setRescheduleAt(null);
+  }
+
+  function cancel() {
+    if (!window.confirm(`Cancel the ${interview.round_name} interview? The candidate is sent a calendar cancellation.`)) return;
+    void run(() => updateAdminInterview(interview.id, { status: "cancelled" }), "Failed to cancel interview");
+  }
+
+  async function submitScorecard() {
+    const ok = await run(
+      () =>
+        submitAdminScorecard(interview.id, {
+          ratings,
+          overallRating: overall,
+          recommendation,
+          notes: notes.trim() || undefined,
+        }),
+      "Failed to save scorecard"
+    );
+    if (ok) setScoring(false);
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 p-3">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="font-medium text-gray-900">
+            {interview.round_name} · {formatDateTime(interview.scheduled_at)}
+          </div>
+          <div className="text-xs text-gray-500">
+            {interview.duration_minutes} min with {interview.interviewer_name}
+            {interview.invite_sent_at ? " · invite sent" : ""}
+            {interview.meeting_url ? (
+              <>
+                {" · "}
+                <a href={interview.meeting_url} target="_blank" rel="noreferrer" className="text-blue-700 hover:underline">
+                  meeting link
+                </a>
+              </>
+            ) : null}
+          </div>
+        </div>
+        <span
+          className={`inline-flex rounded-full px-2 py-1 text-xs ${
+            interview.status === "cancelled"
+              ? "bg-gray-100 text-gray-600"
+              : interview.status === "completed"
+                ? "bg-green-100 text-green-800"
+                : "bg-blue-50 text-blue-700"
+          }`}
+        >
+          {interview.status}
+        </span>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-3 text-xs font-semibold">
+        {scheduled ? (
+          <>
+            <button type="button" className="text-gray-700 hover:underline" onClick={() => setRescheduleAt(toLocalInput(interview.scheduled_at))}>
+              Reschedule
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              className="text-gray-700 hover:underline disabled:opacity-60"
+              onClick={() => void run(() => resendAdminInterviewInvite(interview.id), "Failed to send invite")}
+            >
+              {interview.invite_sent_at ? "Resend invite" : "Send invite"}
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              className="text-gray-700 hover:underline disabled:opacity-60"
+              onClick={() => void run(() => updateAdminInterview(interview.id, { status: "completed" }), "Failed to update interview")}
+            >
+              Mark completed
+            </button>
+            <button type="button" disabled={busy} className="text-rose-700 hover:underline disabled:opacity-60" onClick={cancel}>
+              Cancel
+            </button>
+          </>
+        ) : null}
+        {interview.status !== "cancelled" ? (
+          <button type="button" className="text-blue-700 hover:underline" onClick={() => setScoring((v) => !v)}>
+            {scoring ? "Close scorecard" : "Add scorecard"}
+          </button>
+        ) : null}
+      </div>
+
+      {rescheduleAt !== null ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input type="datetime-local" value={rescheduleAt} onChange={(e) => setRescheduleAt(e.target.value)} className={inputClass} />
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void reschedule()}
+            className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+          >
+            Save &amp; notify
+          </button>
+          <button type="button" className="text-sm text-gray-600 hover:underline" onClick={() => setRescheduleAt(null)}>
+            Discard
+          </button>
+        </div>
+      ) : null}
+
+      {scoring ? (
+        <div className="mt-3 grid gap-3 rounded-lg bg-gray-50 p-3">
+          <div className="grid gap-2 sm:grid-cols-2">
+            {scorecardCriteria.map((c) => (
+              <label key={c} className="flex items-center justify-between gap-2 text-sm text-gray-700">
+                {c}
+                <select
+                  value={ratings[c] ?? ""}
+                  onChange={(e) =>
+                    setRatings((prev) => {
+                      const next = { ...prev };
+                      if (e.target.value) next[c] = Number(e.target.value);
+                      else delete next[c];
+                      return next;
+                    })
+                  }
+                  className="h-9 rounded-lg border border-gray-300 bg-white px-2 text-sm"
+                >
+                  <option value="">—</option>
+                  {[1, 2, 3, 4, 5].map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Overall (1–5)
+              <select value={overall} onChange={(e) => setOverall(Number(e.target.value))} className={inputClass}>
+                {[1, 2, 3, 4, 5].map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Recommendation
+              <select
+                value={recommendation}
+                onChange={(e) => setRecommendation(e.target.value as ScorecardRecommendation)}
+                className={inputClass}
+              >
+                {scorecardRecommendations.map((r) => (
+                  <option key={r.value} value={r.value}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            placeholder="Notes"
+            className="rounded-lg border border-gray-300 bg-white px-2 py-2 text-sm text-gray-900"
+          />
+          <div className="text-right">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void submitScorecard()}
+              className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+            >
+              Save scorecard
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {interview.scorecards.length > 0 ? (
+        <div className="mt-3 grid gap-2">
+          {interview.scorecards.map((s) => (
+            <div key={s.id} className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900">{s.author_email}</span>
+                <span className="text-gray-600">overall {s.overall_rating}/5</span>
+                <span className={`inline-flex rounded-full px-2 py-0.5 text-xs ${recommendationBadgeClass(s.recommendation)}`}>
+                  {recommendationLabel(s.recommendation)}
+                </span>
+              </div>
+              {Object.keys(s.ratings).length > 0 ? (
+                <div className="mt-1 text-xs text-gray-600">
+                  {Object.entries(s.ratings)
+                    .map(([k, v]) => `${k}: ${v}`)
+                    .join(" · ")}
+                </div>
+              ) : null}
+              {s.notes ? <div className="mt-1 whitespace-pre-wrap text-gray-700">{s.notes}</div> : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
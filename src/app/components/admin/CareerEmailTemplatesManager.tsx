@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+
+import { careerStatusLabel } from "../../config/careerStatuses";
+import {
+  fetchAdminCareerEmailTemplates,
+  previewAdminCareerEmailTemplate,
+  updateAdminCareerEmailTemplate,
+  type CareerEmailTemplate,
+} from "../../services/platformService";
+
+type Draft = { subject: string; body: string; sendByDefault: boolean };
+type Preview = { to: string | null; subject: string; text: string };
+
+const inputClass = "h-10 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900";
+
+function toDraft(t: CareerEmailTemplate): Draft {
+  return { subject: t.subject, body: t.body, sendByDefault: t.send_by_default };
+}
+
+// Emails sent to candidates when their application moves to shortlisted,
+// rejected or hired. Admins can still send or suppress each one at the time
+// of the status change.
+export function CareerEmailTemplatesManager() {
+  const [items, setItems] = useState<CareerEmailTemplate[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [previews, setPreviews] = useState<Record<string, Preview>>({});
+  const [previewAppId, setPreviewAppId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [savedStatus, setSavedStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  function load() {
+    fetchAdminCareerEmailTemplates()
+      .then((r) => {
+        setItems(r.items);
+        setVariables(r.variables);
+        setDrafts(Object.fromEntries(r.items.map((t) => [t.status, toDraft(t)])));
+      })
+      .catch((e: any) => setError(e?.message ?? "Failed to load email templates"));
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function patch(status: string, p: Partial<Draft>) {
+    setDrafts((prev) => ({ ...prev, [status]: { ...prev[status], ...p } }));
+    setSavedStatus(null);
+  }
+
+  async function save(t: CareerEmailTemplate) {
+    const draft = drafts[t.status];
+    const ok = await run(
+      () => updateAdminCareerEmailTemplate(t.status, { ...draft, subject: draft.subject.trim(), body: draft.body.trim() }),
+      "Failed to save template"
+    );
+    if (ok) {
+      setSavedStatus(t.status);
+      load();
+    }
+  }
+
+  function preview(t: CareerEmailTemplate) {
+    const draft = drafts[t.status];
+    const applicationId = Number(previewAppId);
+    void run(async () => {
+      const r = await previewAdminCareerEmailTemplate(t.status, {
+        subject: draft.subject,
+        body: draft.body,
+        applicationId: applicationId > 0 ? applicationId : undefined,
+      });
+      setPreviews((prev) => ({ ...prev, [t.status]: { to: r.to, subject: r.subject, text: r.text } }));
+    }, "Failed to render preview");
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div className="text-sm text-gray-600">
+          Variables: {variables.map((v) => `{{${v}}}`).join(", ")}
+        </div>
+        <label className="grid gap-1 text-xs font-semibold text-gray-600">
+          Preview with application # (optional)
+          <input
+            type="number"
+            min={1}
+            value={previewAppId}
+            onChange={(e) => setPreviewAppId(e.target.value)}
+            placeholder="Sample candidate"
+            className={`${inputClass} w-48`}
+          />
+        </label>
+      </div>
+
+      {error ? <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div> : null}
+
+      <div className="mt-4 grid gap-4">
+        {items.map((t) => {
+          const draft = drafts[t.status];
+          const shown = previews[t.status];
+          if (!draft) return null;
+          return (
+            <div key={t.status} className="rounded-2xl border border-gray-200 bg-gray-50 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="text-sm font-semibold text-gray-900">{careerStatusLabel(t.status)}</div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.sendByDefault}
+                    onChange={(e) => patch(t.status, { sendByDefault: e.target.checked })}
+                  />
+                  Send by default
+                </label>
+              </div>
+              <label className="mt-3 grid gap-1 text-xs font-semibold text-gray-600">
+                Subject
+                <input value={draft.subject} onChange={(e) => patch(t.status, { subject: e.target.value })} className={inputClass} />
+              </label>
+              <label className="mt-3 grid gap-1 text-xs font-semibold text-gray-600">
+                Body (plain text)
+                <textarea
+                  rows={8}
+                  value={draft.body}
+                  onChange={(e) => patch(t.status, { body: e.target.value })}
+                  className="rounded-lg border border-gray-300 bg-white px-2 py-2 text-sm font-normal text-gray-900"
+                />
+              </label>
+
+              {shown ? (
+                <div className="mt-3 rounded-lg border border-gray-200 bg-white p-3 text-sm">
+                  <div className="text-xs text-gray-500">
+                    {shown.to ? `To: ${shown.to} · ` : ""}Subject: <span className="text-gray-900">{shown.subject}</span>
+                  </div>
+                  <div className="mt-2 whitespace-pre-wrap text-gray-800">{shown.text}</div>
+                </div>
+              ) : null}
+
+              <div className="mt-3 flex flex-wrap items-center justify-end gap-3">
+                <div className="mr-auto text-xs text-gray-500">
+                  {savedStatus === t.status
+                    ? "Saved."
+                    : t.updated_by_email
+                      ? `Last edited by ${t.updated_by_email} on ${new Date(t.updated_at).toLocaleDateString("en-IN")}`
+                      : null}
+                </div>
+                <button type="button" disabled={busy} className="text-sm font-semibold text-blue-700 hover:underline disabled:opacity-60" onClick={() => preview(t)}>
+                  Preview
+                </button>
+                <button
+                  type="button"
+                  disabled={busy || !draft.subject.trim() || !draft.body.trim()}
+                  onClick={() => void save(t)}
+                  className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                >
+                  Save template
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+
+import type { CmsBlock, CmsButton } from "../cms/CmsBlocks";
+import { parseVideoUrl, videoWatchUrl } from "../../lib/videoEmbed";
+import { fetchPricing } from "../../services/platformService";
+
+// Editors for the structured CMS blocks (everything except text, image and
+// html, which AdminContent edits inline).
+export type RichCmsBlock = Extract<CmsBlock, { type: "hero" | "cta" | "faq" | "testimonials" | "pricing" | "video" }>;
+
+export const richBlockFactories: Array<{ label: string; color: string; create: () => RichCmsBlock }> = [
+  {
+    label: "+ Hero",
+    color: "hover:border-indigo-400 hover:bg-indigo-50",
+    create: () => ({ type: "hero", heading: "", subheading: "", buttons: [{ label: "Get in touch", href: "/contact", variant: "primary" }] }),
+  },
+  {
+    label: "+ CTA",
+    color: "hover:border-sky-400 hover:bg-sky-50",
+    create: () => ({ type: "cta", heading: "", text: "", button: { label: "Hire us", href: "/hire-us", variant: "secondary" } }),
+  },
+  {
+    label: "+ FAQ",
+    color: "hover:border-teal-400 hover:bg-teal-50",
+    create: () => ({ type: "faq", heading: "Frequently asked questions", items: [{ question: "", answer: "" }] }),
+  },
+  {
+    label: "+ Testimonials",
+    color: "hover:border-pink-400 hover:bg-pink-50",
+    create: () => ({ type: "testimonials", items: [{ name: "", role: "", content: "", rating: 5 }] }),
+  },
+  {
+    label: "+ Pricing",
+    color: "hover:border-emerald-400 hover:bg-emerald-50",
+    create: () => ({ type: "pricing", heading: "Pricing" }),
+  },
+  {
+    label: "+ Video",
+    color: "hover:border-red-400 hover:bg-red-50",
+    create: () => ({ type: "video", provider: "youtube", videoId: "", title: "" }),
+  },
+];
+
+export const richBlockLabels: Record<RichCmsBlock["type"], { label: string; badge: string }> = {
+  hero: { label: "Hero", badge: "bg-indigo-100 text-indigo-700" },
+  cta: { label: "CTA", badge: "bg-sky-100 text-sky-700" },
+  faq: { label: "FAQ", badge: "bg-teal-100 text-teal-700" },
+  testimonials: { label: "Testimonials", badge: "bg-pink-100 text-pink-700" },
+  pricing: { label: "Pricing", badge: "bg-emerald-100 text-emerald-700" },
+  video: { label: "Video", badge: "bg-red-100 text-red-700" },
+};
+
+const fieldClass =
+  "w-full rounded-xl border border-gray-200 px-3 py-2.5 text-sm text-gray-900 placeholder:text-gray-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30";
+const smallButtonClass = "rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-semibold hover:bg-gray-50";
+const removeButtonClass = "rounded-lg px-2 py-1 text-xs font-semibold text-rose-600 hover:bg-rose-50";
+
+function ButtonFields({ button, onChange }: { button: CmsButton; onChange: (b: CmsButton) => void }) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2">
+      <input value={button.label} onChange={(e) => onChange({ ...button, label: e.target.value })} placeholder="Button label" className={fieldClass} />
+      <input value={button.href} onChange={(e) => onChange({ ...button, href: e.target.value })} placeholder="/hire-us or https://…" className={fieldClass} />
+      <select value={button.variant ?? "primary"} onChange={(e) => onChange({ ...button, variant: e.target.value as CmsButton["variant"] })} className={fieldClass}>
+        <option value="primary">Solid</option>
+        <option value="secondary">Outline</option>
+      </select>
+    </div>
+  );
+}
+
+function PricingFields({ block, onChange }: { block: Extract<RichCmsBlock, { type: "pricing" }>; onChange: (b: RichCmsBlock) => void }) {
+  const [services, setServices] = useState<Array<{ key: string; name: string }>>([]);
+
+  useEffect(() => {
+    fetchPricing()
+      .then((r) => {
+        const seen = new Map<string, string>();
+        for (const p of r.items) if (!seen.has(p.service_key)) seen.set(p.service_key, p.service_name);
+        setServices([...seen].map(([key, name]) => ({ key, name })));
+      })
+      .catch(() => setServices([]));
+  }, []);
+
+  return (
+    <>
+      <input value={block.heading ?? ""} onChange={(e) => onChange({ ...block, heading: e.target.value })} placeholder="Heading (optional)" className={fieldClass} />
+      <select value={block.serviceKey ?? ""} onChange={(e) => onChange({ ...block, serviceKey: e.target.value || undefined })} className={fieldClass}>
+        <option value="">All active plans</option>
+        {services.map((s) => (
+          <option key={s.key} value={s.key}>{s.name}</option>
+        ))}
+        {block.serviceKey && !services.some((s) => s.key === block.serviceKey) ? <option value={block.serviceKey}>{block.serviceKey}</option> : null}
+      </select>
+      <p className="text-xs text-gray-500">Prices come live from Admin › Pricing, so this table updates itself.</p>
+    </>
+  );
+}
+
+function VideoFields({ block, onChange }: { block: Extract<RichCmsBlock, { type: "video" }>; onChange: (b: RichCmsBlock) => void }) {
+  const [link, setLink] = useState(block.videoId ? videoWatchUrl(block.provider, block.videoId) : "");
+  const parsed = link ? parseVideoUrl(link) : null;
+
+  return (
+    <>
+      <input
+        value={link}
+        onChange={(e) => {
+          setLink(e.target.value);
+          const video = parseVideoUrl(e.target.value);
+          onChange(video ? { ...block, ...video } : { ...block, videoId: "" });
+        }}
+        placeholder="Paste a YouTube or Vimeo link"
+        className={fieldClass}
+      />
+      {link && !parsed ? <p className="text-xs text-rose-600">Not a YouTube or Vimeo video link.</p> : null}
+      <input value={block.title ?? ""} onChange={(e) => onChange({ ...block, title: e.target.value })} placeholder="Title (used for accessibility)" className={fieldClass} />
+      <p className="text-xs text-gray-500">Embedded with privacy-enhanced players (youtube-nocookie.com, Vimeo do-not-track).</p>
+    </>
+  );
+}
+
+export function CmsRichBlockFields({ block, onChange }: { block: RichCmsBlock; onChange: (b: RichCmsBlock) => void }) {
+  if (block.type === "hero") {
+    return (
+      <>
+        <input value={block.heading} onChange={(e) => onChange({ ...block, heading: e.target.value })} placeholder="Headline" className={fieldClass} />
+        <textarea rows={2} value={block.subheading ?? ""} onChange={(e) => onChange({ ...block, subheading: e.target.value })}
+          placeholder="Supporting text (optional)" className={`${fieldClass} resize-none`} />
+        <input value={block.imageSrc ?? ""} onChange={(e) => onChange({ ...block, imageSrc: e.target.value })}
+          placeholder="Background image URL (optional)" className={fieldClass} />
+        {block.buttons.map((button, i) => (
+          <div key={i} className="flex items-start gap-2">
+            <div className="flex-1">
+              <ButtonFields button={button} onChange={(b) => onChange({ ...block, buttons: block.buttons.map((x, j) => (j === i ? b : x)) })} />
+            </div>
+            <button type="button" onClick={() => onChange({ ...block, buttons: block.buttons.filter((_, j) => j !== i) })} className={removeButtonClass}>
+              Remove
+            </button>
+          </div>
+        ))}
+        {block.buttons.length < 2 ? (
+          <button type="button" className={`${smallButtonClass} justify-self-start`}
+            onClick={() => onChange({ ...block, buttons: [...block.buttons, { label: "", href: "", variant: "secondary" }] })}>
+            + Button
+          </button>
+        ) : null}
+      </>
+    );
+  }
+
+  if (block.type === "cta") {
+    return (
+      <>
+        <input value={block.heading} onChange={(e) => onChange({ ...block, heading: e.target.value })} placeholder="Headline" className={fieldClass} />
+        <textarea rows={2} value={block.text ?? ""} onChange={(e) => onChange({ ...block, text: e.target.value })}
+          placeholder="Supporting text (optional)" className={`${fieldClass} resize-none`} />
+        <ButtonFields button={block.button} onChange={(button) => onChange({ ...block, button })} />
+      </>
+    );
+  }
+
+  if (block.type === "faq") {
+    return (
+      <>
+        <input value={block.heading ?? ""} onChange={(e) => onChange({ ...block, heading: e.target.value })} placeholder="Heading (optional)" className={fieldClass} />
+        {block.items.map((item, i) => (
+          <div key={i} className="grid gap-2 rounded-xl border border-gray-100 bg-gray-50 p-3">
+            <div className="flex items-center justify-between text-xs font-semibold text-gray-500">
+              Question {i + 1}
+              <button type="button" disabled={block.items.length === 1} className={`${removeButtonClass} disabled:opacity-30`}
+                onClick={() => onChange({ ...block, items: block.items.filter((_, j) => j !== i) })}>
+                Remove
+              </button>
+            </div>
+            <input value={item.question} placeholder="Question" className={fieldClass}
+              onChange={(e) => onChange({ ...block, items: block.items.map((x, j) => (j === i ? { ...x, question: e.target.value } : x)) })} />
+            <textarea rows={3} value={item.answer} placeholder="Answer" className={`${fieldClass} resize-none`}
+              onChange={(e) => onChange({ ...block, items: block.items.map((x, j) => (j === i ? { ...x, answer: e.target.value } : x)) })} />
+          </div>
+        ))}
+        <button type="button" className={`${smallButtonClass} justify-self-start`}
+          onClick={() => onChange({ ...block, items: [...block.items, { question: "", answer: "" }] })}>
+          + Question
+        </button>
+        <p className="text-xs text-gray-500">Also published as FAQPage structured data for search results.</p>
+      </>
+    );
+  }
+
+  if (block.type === "testimonials") {
+    return (
+      <>
+        {block.items.map((item, i) => (
+          <div key={i} className="grid gap-2 rounded-xl border border-gray-100 bg-gray-50 p-3">
+            <div className="flex items-center justify-between text-xs font-semibold text-gray-500">
+              Testimonial {i + 1}
+              <button type="button" disabled={block.items.length === 1} className={`${removeButtonClass} disabled:opacity-30`}
+                onClick={() => onChange({ ...block, items: block.items.filter((_, j) => j !== i) })}>
+                Remove
+              </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2">
+              <input value={item.name} placeholder="Name or title" className={fieldClass}
+                onChange={(e) => onChange({ ...block, items: block.items.map((x, j) => (j === i ? { ...x, name: e.target.value } : x)) })} />
+              <input value={item.role ?? ""} placeholder="Company / role" className={fieldClass}
+                onChange={(e) => onChange({ ...block, items: block.items.map((x, j) => (j === i ? { ...x, role: e.target.value } : x)) })} />
+              <select value={item.rating} className={fieldClass} aria-label="Rating"
+                onChange={(e) => onChange({ ...block, items: block.items.map((x, j) => (j === i ? { ...x, rating: Number(e.target.value) } : x)) })}>
+                {[5, 4, 3, 2, 1].map((n) => <option key={n} value={n}>{n} ★</option>)}
+              </select>
+            </div>
+            <textarea rows={3} value={item.content} placeholder="Quote" className={`${fieldClass} resize-none`}
+              onChange={(e) => onChange({ ...block, items: block.items.map((x, j) => (j === i ? { ...x, content: e.target.value } : x)) })} />
+          </div>
+        ))}
+        <button type="button" className={`${smallButtonClass} justify-self-start`}
+          onClick={() => onChange({ ...block, items: [...block.items, { name: "", role: "", content: "", rating: 5 }] })}>
+          + Testimonial
+        </button>
+      </>
+    );
+  }
+
+  if (block.type === "pricing") return <PricingFields block={block} onChange={onChange} />;
+
+  return <VideoFields block={block} onChange={onChange} />;
+}
@@ -0,0 +1,277 @@
+import { useRef, useState } from "react";
+
+import { serviceIcons } from "../../config/contentCollections";
+import {
+  createAdminAssetUploadUrl,
+  type CollectionItemData,
+  type ContentCollection,
+  type ServiceIconName,
+} from "../../services/platformService";
+import { uploadFileToSignedUrl } from "../../services/careersService";
+
+// Editors for Admin › Collections items, one per collection.
+export type CollectionDraft = { [C in ContentCollection]: { collection: C; data: CollectionItemData[C] } }[ContentCollection];
+
+export const emptyCollectionItems: { [C in ContentCollection]: CollectionItemData[C] } = {
+  services: { title: "", description: "", features: [], icon: "code", featured: false },
+  portfolio: { title: "", category: "", summary: "", imageUrl: "", link: "", tags: [], featured: false },
+  team: { name: "", role: "", experience: "", bio: "", imageUrl: "", linkedinUrl: "" },
+  testimonials: { name: "", role: "", content: "", rating: 5 },
+  timeline: { year: "", title: "", description: "" },
+};
+
+// List fields are edited as raw text (one feature per line, comma-separated
+// tags); blanks are dropped when saving.
+export function cleanCollectionDraft(draft: CollectionDraft): CollectionDraft {
+  const list = (values: string[]) => values.map((v) => v.trim()).filter(Boolean);
+  if (draft.collection === "services") return { ...draft, data: { ...draft.data, features: list(draft.data.features) } };
+  if (draft.collection === "portfolio") return { ...draft, data: { ...draft.data, tags: list(draft.data.tags) } };
+  return draft;
+}
+
+// Heading and one-line detail for the item list.
+export function collectionItemSummary(draft: CollectionDraft) {
+  switch (draft.collection) {
+    case "services":
+      return { title: draft.data.title, detail: draft.data.description };
+    case "portfolio":
+      return { title: draft.data.title, detail: draft.data.category };
+    case "team":
+      return { title: draft.data.name, detail: draft.data.role };
+    case "testimonials":
+      return { title: draft.data.name, detail: draft.data.content };
+    case "timeline":
+      return { title: `${draft.data.year} · ${draft.data.title}`, detail: draft.data.description };
+  }
+}
+
+const fieldClass =
+  "w-full rounded-xl border border-gray-200 px-3 py-2.5 text-sm text-gray-900 placeholder:text-gray-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30";
+const labelClass = "grid gap-1 text-xs font-semibold text-gray-600";
+
+function ImageField({ value, onChange, label }: { value: string; onChange: (url: string) => void; label: string }) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function upload(file: File) {
+    setError(null);
+    setUploading(true);
+    try {
+      const r = await createAdminAssetUploadUrl({
+        fileName: file.name,
+        fileType: file.type || "application/octet-stream",
+        fileSize: file.size,
+      });
+      await uploadFileToSignedUrl(r.signedUrl, file);
+      onChange(r.publicUrl);
+    } catch (e: any) {
+      setError(e?.message ?? "Image upload failed");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div className={labelClass}>
+      {label}
+      <div className="flex items-start gap-3">
+        {value ? (
+          <img src={value} alt="" className="h-16 w-16 shrink-0 rounded-lg border border-gray-200 object-cover" />
+        ) : (
+          <div className="h-16 w-16 shrink-0 rounded-lg border-2 border-dashed border-gray-200 bg-gray-50" />
+        )}
+        <div className="grid flex-1 gap-2">
+          <input value={value} onChange={(e) => onChange(e.target.value)} placeholder="Upload or paste an image URL" className={fieldClass} />
+          <div className="flex gap-2">
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif,image/svg+xml"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) {
+                  void upload(f);
+                  e.target.value = "";
+                }
+              }}
+            />
+            <button type="button" disabled={uploading} onClick={() => fileRef.current?.click()}
+              className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs font-semibold hover:bg-gray-50 disabled:opacity-60">
+              {uploading ? "Uploading…" : "Upload image"}
+            </button>
+            {value ? (
+              <button type="button" onClick={() => onChange("")} className="rounded-lg px-2 py-1 text-xs font-semibold text-rose-600 hover:bg-rose-50">
+                Remove
+              </button>
+            ) : null}
+          </div>
+          {error ? <div className="text-xs font-normal text-rose-600">{error}</div> : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function FeaturedToggle({ checked, onChange, hint }: { checked: boolean; onChange: (v: boolean) => void; hint: string }) {
+  return (
+    <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      Featured <span className="font-normal text-gray-500">— {hint}</span>
+    </label>
+  );
+}
+
+export function CollectionItemFields({ draft, onChange }: { draft: CollectionDraft; onChange: (d: CollectionDraft) => void }) {
+  if (draft.collection === "services") {
+    const d = draft.data;
+    const set = (patch: Partial<typeof d>) => onChange({ ...draft, data: { ...d, ...patch } });
+    return (
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className={labelClass}>
+          Title
+          <input value={d.title} onChange={(e) => set({ title: e.target.value })} maxLength={120} className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          Icon
+          <select value={d.icon} onChange={(e) => set({ icon: e.target.value as ServiceIconName })} className={fieldClass}>
+            {Object.entries(serviceIcons).map(([value, { label }]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className={`${labelClass} md:col-span-2`}>
+          Description
+          <textarea rows={2} value={d.description} onChange={(e) => set({ description: e.target.value })} maxLength={600}
+            className={`${fieldClass} resize-none`} />
+        </label>
+        <label className={`${labelClass} md:col-span-2`}>
+          Features (one per line)
+          <textarea rows={5} value={d.features.join("\n")} onChange={(e) => set({ features: e.target.value.split("\n") })}
+            className={`${fieldClass} resize-y`} />
+        </label>
+        <FeaturedToggle checked={!!d.featured} onChange={(featured) => set({ featured })} hint="also shown on the Home page" />
+      </div>
+    );
+  }
+
+  if (draft.collection === "portfolio") {
+    const d = draft.data;
+    const set = (patch: Partial<typeof d>) => onChange({ ...draft, data: { ...d, ...patch } });
+    return (
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className={labelClass}>
+          Title
+          <input value={d.title} onChange={(e) => set({ title: e.target.value })} maxLength={160} className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          Category
+          <input value={d.category} onChange={(e) => set({ category: e.target.value })} maxLength={80}
+            placeholder="Web Development" className={fieldClass} />
+        </label>
+        <label className={`${labelClass} md:col-span-2`}>
+          Summary
+          <textarea rows={3} value={d.summary ?? ""} onChange={(e) => set({ summary: e.target.value })} maxLength={1000}
+            className={`${fieldClass} resize-none`} />
+        </label>
+        <div className="md:col-span-2">
+          <ImageField label="Cover image" value={d.imageUrl ?? ""} onChange={(imageUrl) => set({ imageUrl })} />
+        </div>
+        <label className={labelClass}>
+          Link (optional)
+          <input value={d.link ?? ""} onChange={(e) => set({ link: e.target.value })} placeholder="/contact or https://…" className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          Tags (comma-separated)
+          <input value={d.tags.join(",")} onChange={(e) => set({ tags: e.target.value.split(",") })}
+            placeholder="React, Node.js" className={fieldClass} />
+        </label>
+        <FeaturedToggle checked={!!d.featured} onChange={(featured) => set({ featured })} hint="shown on the Home page" />
+      </div>
+    );
+  }
+
+  if (draft.collection === "team") {
+    const d = draft.data;
+    const set = (patch: Partial<typeof d>) => onChange({ ...draft, data: { ...d, ...patch } });
+    return (
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className={labelClass}>
+          Name
+          <input value={d.name} onChange={(e) => set({ name: e.target.value })} maxLength={120} className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          Role
+          <input value={d.role} onChange={(e) => set({ role: e.target.value })} maxLength={120} placeholder="CEO & Founder" className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          Experience (optional)
+          <input value={d.experience ?? ""} onChange={(e) => set({ experience: e.target.value })} maxLength={60}
+            placeholder="10+ years" className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          LinkedIn URL (optional)
+          <input value={d.linkedinUrl ?? ""} onChange={(e) => set({ linkedinUrl: e.target.value })}
+            placeholder="https://www.linkedin.com/in/…" className={fieldClass} />
+        </label>
+        <label className={`${labelClass} md:col-span-2`}>
+          Short bio (optional)
+          <textarea rows={3} value={d.bio ?? ""} onChange={(e) => set({ bio: e.target.value })} maxLength={1000}
+            className={`${fieldClass} resize-none`} />
+        </label>
+        <div className="md:col-span-2">
+          <ImageField label="Photo" value={d.imageUrl ?? ""} onChange={(imageUrl) => set({ imageUrl })} />
+        </div>
+      </div>
+    );
+  }
+
+  if (draft.collection === "testimonials") {
+    const d = draft.data;
+    const set = (patch: Partial<typeof d>) => onChange({ ...draft, data: { ...d, ...patch } });
+    return (
+      <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto]">
+        <label className={labelClass}>
+          Name or title
+          <input value={d.name} onChange={(e) => set({ name: e.target.value })} maxLength={120} className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          Company / role (optional)
+          <input value={d.role ?? ""} onChange={(e) => set({ role: e.target.value })} maxLength={120} className={fieldClass} />
+        </label>
+        <label className={labelClass}>
+          Rating
+          <select value={d.rating} onChange={(e) => set({ rating: Number(e.target.value) })} className={fieldClass}>
+            {[5, 4, 3, 2, 1].map((n) => <option key={n} value={n}>{n} ★</option>)}
+          </select>
+        </label>
+        <label className={`${labelClass} md:col-span-3`}>
+          Quote
+          <textarea rows={4} value={d.content} onChange={(e) => set({ content: e.target.value })} maxLength={2000}
+            className={`${fieldClass} resize-none`} />
+        </label>
+      </div>
+    );
+  }
+
+  const d = draft.data;
+  const set = (patch: Partial<typeof d>) => onChange({ ...draft, data: { ...d, ...patch } });
+  return (
+    <div className="grid gap-3 md:grid-cols-[10rem_1fr]">
+      <label className={labelClass}>
+        Year
+        <input value={d.year} onChange={(e) => set({ year: e.target.value })} maxLength={20} placeholder="2026" className={fieldClass} />
+      </label>
+      <label className={labelClass}>
+        Title
+        <input value={d.title} onChange={(e) => set({ title: e.target.value })} maxLength={120} className={fieldClass} />
+      </label>
+      <label className={`${labelClass} md:col-span-2`}>
+        Description
+        <textarea rows={2} value={d.description} onChange={(e) => set({ description: e.target.value })} maxLength={600}
+          className={`${fieldClass} resize-none`} />
+      </label>
+    </div>
+  );
+}
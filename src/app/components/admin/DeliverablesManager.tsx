@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from "react";
+
+import {
+  addAdminDeliverableVersion,
+  createAdminDeliverable,
+  fetchAdminOrderDeliverables,
+  getDeliverableDownloadUrl,
+  uploadDeliverableFile,
+  type AdminOrder,
+  type Deliverable,
+} from "../../services/platformService";
+
+function deliverableStatusClass(status: string) {
+  if (status === "approved") return "bg-green-50 text-green-800 border-green-200";
+  if (status === "changes_requested") return "bg-amber-50 text-amber-800 border-amber-200";
+  return "bg-blue-50 text-blue-700 border-blue-200";
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DeliverablesManager({
+  order,
+  onChanged,
+  onError,
+}: {
+  order: AdminOrder;
+  onChanged: () => void;
+  onError: (message: string | null) => void;
+}) {
+  const [items, setItems] = useState<Deliverable[] | null>(null);
+  // null = closed, "new" = new deliverable, number = new version of that deliverable
+  const [formFor, setFormFor] = useState<"new" | number | null>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [notes, setNotes] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  function load() {
+    fetchAdminOrderDeliverables(order.id)
+      .then((r) => setItems(r.items))
+      .catch((e: any) => onError(e?.message ?? "Failed to load deliverables"));
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order.id]);
+
+  function openForm(target: "new" | number) {
+    setFormFor(formFor === target ? null : target);
+    setTitle("");
+    setDescription("");
+    setNotes("");
+    setFile(null);
+    if (fileRef.current) fileRef.current.value = "";
+  }
+
+  async function submit() {
+    if (!file) return onError("Choose a file to upload.");
+    if (formFor === "new" && title.trim().length < 2) return onError("Give the deliverable a title.");
+
+    onError(null);
+    setProgress(0);
+    try {
+      const uploaded = await uploadDeliverableFile(order.id, file, setProgress);
+      if (formFor === "new") {
+        await createAdminDeliverable(order.id, {
+          title: title.trim(),
+          description: description.trim() || undefined,
+          notes: notes.trim() || undefined,
+          file: uploaded,
+        });
+      } else if (typeof formFor === "number") {
+        await addAdminDeliverableVersion(formFor, { notes: notes.trim() || undefined, file: uploaded });
+      }
+      setFormFor(null);
+      load();
+      onChanged();
+    } catch (e: any) {
+      onError(e?.message ?? "Upload failed");
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  async function download(versionId: number) {
+    onError(null);
+    try {
+      const r = await getDeliverableDownloadUrl(versionId);
+      window.open(r.url, "_blank", "noopener,noreferrer");
+    } catch (e: any) {
+      onError(e?.message ?? "Download failed");
+    }
+  }
+
+  const form = (
+    <div className="mt-3 grid gap-3 rounded-xl border border-blue-100 bg-blue-50/30 p-3">
+      {formFor === "new" ? (
+        <div className="grid gap-3 md:grid-cols-2">
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Title
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Homepage designs"
+              className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+            />
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Description (optional)
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+            />
+          </label>
+        </div>
+      ) : null}
+      <div className="grid gap-3 md:grid-cols-[1fr,1fr,auto] md:items-end">
+        <label className="grid gap-1 text-xs font-semibold text-gray-600">
+          File
+          <input
+            ref={fileRef}
+            type="file"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-sm text-gray-700"
+          />
+        </label>
+        <label className="grid gap-1 text-xs font-semibold text-gray-600">
+          Notes for the client (optional)
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={formFor === "new" ? "What's included" : "What changed in this version"}
+            className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+          />
+        </label>
+        <button
+          type="button"
+          disabled={progress !== null || !file}
+          onClick={() => void submit()}
+          className="h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {progress !== null ? `Uploading ${progress}%` : formFor === "new" ? "Upload" : "Upload version"}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-gray-900">Deliverables</div>
+        <button
+          type="button"
+          onClick={() => openForm("new")}
+          className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+        >
+          + New deliverable
+        </button>
+      </div>
+
+      {formFor === "new" ? form : null}
+
+      <div className="mt-3 grid gap-3">
+        {!items ? (
+          <div className="text-sm text-gray-500">Loading…</div>
+        ) : items.length === 0 ? (
+          <div className="text-sm text-gray-500">Nothing shared with {order.email} yet.</div>
+        ) : (
+          items.map((d) => (
+            <div key={d.id} className="rounded-xl border border-gray-100 p-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <div className="text-sm font-semibold text-gray-900">{d.title}</div>
+                  {d.description ? <div className="text-xs text-gray-500">{d.description}</div> : null}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-semibold ${deliverableStatusClass(d.status)}`}>
+                    {d.status.replace("_", " ")}
+                  </span>
+                  <button type="button" onClick={() => openForm(d.id)} className="text-sm font-semibold text-blue-700 hover:underline">
+                    New version
+                  </button>
+                </div>
+              </div>
+              {d.client_note ? (
+                <div className="mt-2 rounded-lg bg-amber-50/60 px-3 py-2 text-xs text-gray-700">Client: {d.client_note}</div>
+              ) : null}
+              {formFor === d.id ? form : null}
+              <div className="mt-2 grid gap-1">
+                {d.versions.map((v) => (
+                  <div key={v.id} className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-600">
+                    <span>
+                      v{v.version} · {v.file_name} ({formatFileSize(v.file_size)}) · {new Date(v.created_at).toLocaleString("en-IN")}
+                      {v.notes ? ` · ${v.notes}` : ""}
+                    </span>
+                    <button type="button" onClick={() => void download(v.id)} className="font-semibold text-blue-700 hover:underline">
+                      Download
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
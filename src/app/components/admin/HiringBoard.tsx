@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+
+import { careerStatuses } from "../../config/careerStatuses";
+import {
+  fetchAdminCareerPipeline,
+  moveAdminCareerStage,
+  resetAdminCareerPipelineStages,
+  saveAdminCareerPipelineStages,
+  type CareerApplicationStatus,
+  type CareerEmailLogEntry,
+  type PipelineCandidate,
+  type PipelineStage,
+} from "../../services/platformService";
+
+type Pipeline = Awaited<ReturnType<typeof fetchAdminCareerPipeline>>;
+type DraftStage = { id?: number; label: string; status: CareerApplicationStatus };
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short" });
+}
+
+// Kanban view of the hiring pipeline for one position (or the default
+// pipeline). Cards can be dragged between columns or moved with the select.
+// `notify` is passed through to decide whether status changes email the candidate.
+export function HiringBoard({
+  reloadKey,
+  onOpen,
+  notify,
+  onEmail,
+}: {
+  reloadKey: number;
+  onOpen: (id: number) => void;
+  notify?: boolean;
+  onEmail?: (email: CareerEmailLogEntry | null) => void;
+}) {
+  const [position, setPosition] = useState<string>("");
+  const [data, setData] = useState<Pipeline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dragId, setDragId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<DraftStage[] | null>(null);
+
+  function load() {
+    fetchAdminCareerPipeline(position || null)
+      .then(setData)
+      .catch((e: any) => setError(e?.message ?? "Failed to load pipeline"));
+  }
+
+  useEffect(() => {
+    setDraft(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [position, reloadKey]);
+
+  async function move(candidate: PipelineCandidate, stageId: number) {
+    if (candidate.stage_id === stageId) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const result = await moveAdminCareerStage(candidate.id, { stageId, notify });
+      onEmail?.(result.email);
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to move candidate");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function editStages(stages: PipelineStage[]) {
+    // A position without its own pipeline starts from a copy of the default.
+    const own = !position || stages.some((s) => s.position === position);
+    setDraft(stages.map((s) => ({ id: own ? s.id : undefined, label: s.label, status: s.maps_to_status })));
+  }
+
+  function updateDraft(index: number, patch: Partial<DraftStage>) {
+    setDraft((prev) => prev && prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  }
+
+  function moveDraft(index: number, delta: number) {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  async function saveStages() {
+    if (!draft) return;
+    setError(null);
+    setBusy(true);
+    try {
+      await saveAdminCareerPipelineStages({
+        position: position || null,
+        stages: draft.map((s) => ({ ...s, label: s.label.trim() })),
+      });
+      setDraft(null);
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to save stages");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function resetStages() {
+    if (!position) return;
+    if (!window.confirm(`Use the default pipeline for ${position}? Candidates are placed on the matching default stages.`)) return;
+    setError(null);
+    setBusy(true);
+    try {
+      await resetAdminCareerPipelineStages(position);
+      setDraft(null);
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to reset stages");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const ownPipeline = !!position && !!data?.stages.some((s) => s.position === position);
+
+  return (
+    <div>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <select
+          className="w-full sm:w-80 min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900"
+          value={position}
+          onChange={(e) => setPosition(e.target.value)}
+          aria-label="Position"
+        >
+          <option value="">Default pipeline (all other positions)</option>
+          {(data?.positions ?? []).map((p) => (
+            <option key={p.position} value={p.position}>
+              {p.position} ({p.applications}){p.has_pipeline ? " · custom stages" : ""}
+            </option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-3 text-sm font-semibold">
+          {ownPipeline ? (
+            <button type="button" className="text-gray-600 hover:underline disabled:opacity-60" disabled={busy} onClick={() => void resetStages()}>
+              Use default stages
+            </button>
+          ) : null}
+          {data && !draft ? (
+            <button type="button" className="text-blue-700 hover:underline" onClick={() => editStages(data.stages)}>
+              {position && !ownPipeline ? "Customise stages" : "Edit stages"}
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div> : null}
+
+      {draft ? (
+        <div className="mt-4 rounded-2xl border border-gray-200 bg-gray-50 p-4">
+          <div className="text-sm font-semibold text-gray-900">
+            Stages {position ? `for ${position}` : "(default pipeline)"}
+          </div>
+          <div className="mt-1 text-xs text-gray-600">
+            Each stage maps to an application status, which is what candidates and reports see.
+          </div>
+          <div className="mt-3 grid gap-2">
+            {draft.map((s, i) => (
+              <div key={s.id ?? `new-${i}`} className="flex flex-wrap items-center gap-2">
+                <input
+                  value={s.label}
+                  onChange={(e) => updateDraft(i, { label: e.target.value })}
+                  className="h-10 w-48 rounded-lg border border-gray-300 bg-white px-2 text-sm"
+                  aria-label="Stage name"
+                />
+                <select
+                  value={s.status}
+                  onChange={(e) => updateDraft(i, { status: e.target.value as CareerApplicationStatus })}
+                  className="h-10 rounded-lg border border-gray-300 bg-white px-2 text-sm"
+                  aria-label="Maps to status"
+                >
+                  {careerStatuses.map((st) => (
+                    <option key={st.value} value={st.value}>
+                      {st.label}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="text-xs text-gray-600 hover:underline" onClick={() => moveDraft(i, -1)}>
+                  Up
+                </button>
+                <button type="button" className="text-xs text-gray-600 hover:underline" onClick={() => moveDraft(i, 1)}>
+                  Down
+                </button>
+                <button
+                  type="button"
+                  className="text-xs text-rose-700 hover:underline"
+                  onClick={() => setDraft((prev) => prev && prev.filter((_, j) => j !== i))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              className="text-sm font-semibold text-blue-700 hover:underline"
+              onClick={() => setDraft((prev) => prev && [...prev, { label: "", status: "reviewing" }])}
+            >
+              Add stage
+            </button>
+            <div className="flex-1" />
+            <button type="button" className="text-sm text-gray-600 hover:underline" onClick={() => setDraft(null)}>
+              Discard
+            </button>
+            <button
+              type="button"
+              disabled={busy || draft.some((s) => !s.label.trim())}
+              onClick={() => void saveStages()}
+              className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+            >
+              Save stages
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="mt-6 flex gap-4 overflow-x-auto pb-2">
+        {(data?.stages ?? []).map((stage) => {
+          const cards = (data?.applications ?? []).filter((a) => a.stage_id === stage.id);
+          return (
+            <div
+              key={stage.id}
+              className="w-64 shrink-0 rounded-2xl border border-gray-200 bg-gray-50 p-3"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                const candidate = data?.applications.find((a) => a.id === dragId);
+                setDragId(null);
+                if (candidate) void move(candidate, stage.id);
+              }}
+            >
+              <div className="flex items-center justify-between text-sm font-semibold text-gray-900">
+                {stage.label}
+                <span className="text-xs font-normal text-gray-500">{cards.length}</span>
+              </div>
+              <div className="mt-3 grid gap-2">
+                {cards.map((c) => (
+                  <div
+                    key={c.id}
+                    draggable
+                    onDragStart={() => setDragId(c.id)}
+                    className="cursor-grab rounded-xl border border-gray-200 bg-white p-3 text-sm shadow-sm"
+                  >
+                    <button type="button" className="text-left font-medium text-gray-900 hover:underline" onClick={() => onOpen(c.id)}>
+                      {c.full_name}
+                    </button>
+                    <div className="text-xs text-gray-500">
+                      {position ? null : `${c.position} · `}
+                      applied {formatDate(c.created_at)}
+                    </div>
+                    {c.next_interview_at || c.avg_rating !== null ? (
+                      <div className="mt-1 text-xs text-gray-600">
+                        {c.next_interview_at ? `Interview ${formatDate(c.next_interview_at)}` : ""}
+                        {c.next_interview_at && c.avg_rating !== null ? " · " : ""}
+                        {c.avg_rating !== null ? `★ ${c.avg_rating}` : ""}
+                      </div>
+                    ) : null}
+                    <select
+                      value={stage.id}
+                      disabled={busy}
+                      onChange={(e) => void move(c, Number(e.target.value))}
+                      className="mt-2 h-8 w-full rounded-lg border border-gray-200 bg-white px-2 text-xs"
+                      aria-label="Move to stage"
+                    >
+                      {data?.stages.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
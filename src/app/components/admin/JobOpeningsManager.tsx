@@ -0,0 +1,351 @@
+import { useEffect, useState } from "react";
+
+import { employmentTypeLabel, employmentTypes, salaryRangeLabel } from "../../config/jobOpenings";
+import {
+  createAdminJobOpening,
+  deleteAdminJobOpening,
+  fetchAdminJobOpenings,
+  updateAdminJobOpening,
+  type EmploymentType,
+  type JobOpening,
+  type JobOpeningInput,
+} from "../../services/platformService";
+
+type Row = JobOpening & { applications: number };
+
+type Draft = {
+  id: number | null;
+  title: string;
+  department: string;
+  location: string;
+  employmentType: EmploymentType;
+  salaryMin: string;
+  salaryMax: string;
+  descriptionHtml: string;
+  requirements: string;
+  status: JobOpening["status"];
+  sortOrder: string;
+};
+
+const emptyDraft: Draft = {
+  id: null,
+  title: "",
+  department: "",
+  location: "India",
+  employmentType: "full_time",
+  salaryMin: "",
+  salaryMax: "",
+  descriptionHtml: "",
+  requirements: "",
+  status: "open",
+  sortOrder: "0",
+};
+
+const inputClass = "h-10 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900";
+
+function toDraft(o: JobOpening): Draft {
+  return {
+    id: o.id,
+    title: o.title,
+    department: o.department ?? "",
+    location: o.location,
+    employmentType: o.employment_type,
+    salaryMin: o.salary_min_inr != null ? String(o.salary_min_inr) : "",
+    salaryMax: o.salary_max_inr != null ? String(o.salary_max_inr) : "",
+    descriptionHtml: o.description_html,
+    requirements: o.requirements.join("\n"),
+    status: o.status,
+    sortOrder: String(o.sort_order),
+  };
+}
+
+function toInput(d: Draft): JobOpeningInput {
+  return {
+    title: d.title.trim(),
+    department: d.department.trim() || null,
+    location: d.location.trim(),
+    employmentType: d.employmentType,
+    salaryMinInr: d.salaryMin.trim() ? Number(d.salaryMin) : null,
+    salaryMaxInr: d.salaryMax.trim() ? Number(d.salaryMax) : null,
+    descriptionHtml: d.descriptionHtml,
+    requirements: d.requirements
+      .split("\n")
+      .map((r) => r.trim())
+      .filter(Boolean),
+    status: d.status,
+    sortOrder: Number(d.sortOrder) || 0,
+  };
+}
+
+// Roles listed on the public Careers page. Closed roles stop taking
+// applications but keep the ones they already have.
+export function JobOpeningsManager() {
+  const [items, setItems] = useState<Row[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [preview, setPreview] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  function load() {
+    fetchAdminJobOpenings()
+      .then((r) => setItems(r.items))
+      .catch((e: any) => setError(e?.message ?? "Failed to load openings"));
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+      load();
+      return true;
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    if (!draft) return;
+    const input = toInput(draft);
+    const ok = await run(
+      () => (draft.id ? updateAdminJobOpening(draft.id, input) : createAdminJobOpening(input)),
+      "Failed to save opening"
+    );
+    if (ok) setDraft(null);
+  }
+
+  function toggleStatus(o: Row) {
+    const next = o.status === "open" ? "closed" : "open";
+    if (next === "closed" && !window.confirm(`Close ${o.title}? It disappears from the Careers page and stops taking applications.`)) return;
+    void run(() => updateAdminJobOpening(o.id, { ...toInput(toDraft(o)), status: next }), "Failed to update opening");
+  }
+
+  function remove(o: Row) {
+    if (!window.confirm(`Delete ${o.title}? This cannot be undone.`)) return;
+    void run(() => deleteAdminJobOpening(o.id), "Failed to delete opening");
+  }
+
+  function patch(p: Partial<Draft>) {
+    setDraft((prev) => (prev ? { ...prev, ...p } : prev));
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm text-gray-600">{items.filter((o) => o.status === "open").length} open roles</div>
+        {!draft ? (
+          <button
+            type="button"
+            onClick={() => {
+              setPreview(false);
+              setDraft(emptyDraft);
+            }}
+            className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700"
+          >
+            New opening
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div> : null}
+
+      {draft ? (
+        <div className="mt-4 rounded-2xl border border-gray-200 bg-gray-50 p-4">
+          <div className="text-sm font-semibold text-gray-900">{draft.id ? "Edit opening" : "New opening"}</div>
+          <div className="mt-3 grid gap-3 sm:grid-cols-2">
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Title
+              <input value={draft.title} onChange={(e) => patch({ title: e.target.value })} className={inputClass} />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Department
+              <input value={draft.department} onChange={(e) => patch({ department: e.target.value })} className={inputClass} />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Location
+              <input value={draft.location} onChange={(e) => patch({ location: e.target.value })} className={inputClass} />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Employment type
+              <select
+                value={draft.employmentType}
+                onChange={(e) => patch({ employmentType: e.target.value as EmploymentType })}
+                className={inputClass}
+              >
+                {employmentTypes.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Salary from (₹ / year, optional)
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                value={draft.salaryMin}
+                onChange={(e) => patch({ salaryMin: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Salary up to (₹ / year, optional)
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                value={draft.salaryMax}
+                onChange={(e) => patch({ salaryMax: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Status
+              <select
+                value={draft.status}
+                onChange={(e) => patch({ status: e.target.value as JobOpening["status"] })}
+                className={inputClass}
+              >
+                <option value="open">Open</option>
+                <option value="closed">Closed</option>
+              </select>
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Sort order
+              <input
+                type="number"
+                min={0}
+                value={draft.sortOrder}
+                onChange={(e) => patch({ sortOrder: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="mt-3 grid gap-1 text-xs font-semibold text-gray-600">
+            <div className="flex items-center justify-between">
+              <span>Description (HTML: paragraphs, headings, lists, bold/italic, links)</span>
+              <button type="button" className="text-blue-700 hover:underline" onClick={() => setPreview((v) => !v)}>
+                {preview ? "Edit" : "Preview"}
+              </button>
+            </div>
+            {preview ? (
+              <div
+                className="prose max-w-none rounded-lg border border-gray-200 bg-white p-3 font-normal"
+                // Admin-authored; the server sanitizes it on save.
+                dangerouslySetInnerHTML={{ __html: draft.descriptionHtml }}
+              />
+            ) : (
+              <textarea
+                rows={8}
+                value={draft.descriptionHtml}
+                onChange={(e) => patch({ descriptionHtml: e.target.value })}
+                className="rounded-lg border border-gray-300 bg-white px-2 py-2 font-mono text-sm font-normal text-gray-900"
+              />
+            )}
+          </div>
+
+          <label className="mt-3 grid gap-1 text-xs font-semibold text-gray-600">
+            Requirements (one per line)
+            <textarea
+              rows={5}
+              value={draft.requirements}
+              onChange={(e) => patch({ requirements: e.target.value })}
+              className="rounded-lg border border-gray-300 bg-white px-2 py-2 text-sm font-normal text-gray-900"
+            />
+          </label>
+
+          <div className="mt-3 flex justify-end gap-3">
+            <button type="button" className="text-sm text-gray-600 hover:underline" onClick={() => setDraft(null)}>
+              Discard
+            </button>
+            <button
+              type="button"
+              disabled={busy || draft.title.trim().length < 2 || !draft.location.trim()}
+              onClick={() => void save()}
+              className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+            >
+              Save opening
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="mt-4 overflow-auto rounded-2xl border border-gray-200 bg-white">
+        <table className="min-w-[820px] w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="text-left px-4 py-3">Role</th>
+              <th className="text-left px-4 py-3">Type</th>
+              <th className="text-left px-4 py-3">Salary</th>
+              <th className="text-left px-4 py-3">Applications</th>
+              <th className="text-left px-4 py-3">Status</th>
+              <th className="text-left px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.length === 0 ? (
+              <tr>
+                <td className="px-4 py-4 text-gray-600" colSpan={6}>
+                  No openings yet.
+                </td>
+              </tr>
+            ) : (
+              items.map((o) => (
+                <tr key={o.id} className="border-t border-gray-200">
+                  <td className="px-4 py-3">
+                    <div className="font-semibold text-gray-900">{o.title}</div>
+                    <div className="text-gray-600">{[o.department, o.location].filter(Boolean).join(" · ")}</div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{employmentTypeLabel(o.employment_type)}</td>
+                  <td className="px-4 py-3 text-gray-700">{salaryRangeLabel(o) ?? "—"}</td>
+                  <td className="px-4 py-3 text-gray-700">{o.applications}</td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`inline-flex rounded-full px-2 py-1 text-xs ${
+                        o.status === "open" ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+                      }`}
+                    >
+                      {o.status === "open" ? "Open" : "Closed"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-3 text-xs font-semibold">
+                      <button
+                        type="button"
+                        className="text-blue-700 hover:underline"
+                        onClick={() => {
+                          setPreview(false);
+                          setDraft(toDraft(o));
+                        }}
+                      >
+                        Edit
+                      </button>
+                      <button type="button" disabled={busy} className="text-gray-700 hover:underline disabled:opacity-60" onClick={() => toggleStatus(o)}>
+                        {o.status === "open" ? "Close" : "Reopen"}
+                      </button>
+                      {o.applications === 0 ? (
+                        <button type="button" disabled={busy} className="text-rose-700 hover:underline disabled:opacity-60" onClick={() => remove(o)}>
+                          Delete
+                        </button>
+                      ) : null}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+import { useEffect, useState } from "react";
+
+import { leadLostReasons, leadStageBadgeClass, leadStageLabel, leadStages } from "../../config/leadStages";
+import {
+  addAdminLeadNote,
+  createAdminLeadTask,
+  deleteAdminLeadTask,
+  fetchAdminLead,
+  setAdminLeadTaskCompleted,
+  updateAdminLead,
+  type LeadActivity,
+  type LeadStage,
+} from "../../services/platformService";
+
+type Detail = Awaited<ReturnType<typeof fetchAdminLead>>;
+
+const inputClass = "h-10 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900";
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function activityText(a: LeadActivity) {
+  if (a.kind === "stage_changed") {
+    const move =
+      a.from_stage === a.to_stage
+        ? "Lost reason updated"
+        : `${leadStageLabel(a.from_stage ?? "")} → ${leadStageLabel(a.to_stage ?? "")}`;
+    return a.note ? `${move}: ${a.note}` : move;
+  }
+  if (a.kind === "task_completed") return `Completed task: ${a.note ?? ""}`;
+  return a.note ?? "";
+}
+
+// Side panel for one lead: stage, owner and deal value, follow-up tasks,
+// the original request and an activity feed with notes.
+export function LeadDetail({
+  leadId,
+  owners,
+  onClose,
+  onChanged,
+}: {
+  leadId: number;
+  owners: string[];
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [data, setData] = useState<Detail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [stage, setStage] = useState<LeadStage>("new");
+  // A preset from leadLostReasons, "other" for free text, or "" when unset.
+  const [reasonChoice, setReasonChoice] = useState("");
+  const [otherReason, setOtherReason] = useState("");
+  const [ownerEmail, setOwnerEmail] = useState("");
+  const [dealValue, setDealValue] = useState("");
+  const [note, setNote] = useState("");
+
+  const [taskTitle, setTaskTitle] = useState("");
+  const [taskDue, setTaskDue] = useState("");
+  const [taskAssignee, setTaskAssignee] = useState("");
+
+  function load() {
+    fetchAdminLead(leadId)
+      .then((r) => {
+        setData(r);
+        setStage(r.lead.stage);
+        const reason = r.lead.lost_reason ?? "";
+        const preset = reason === "" || leadLostReasons.includes(reason);
+        setReasonChoice(preset ? reason : "other");
+        setOtherReason(preset ? "" : reason);
+        setOwnerEmail(r.lead.owner_email ?? "");
+        setDealValue(r.lead.deal_value_inr !== null ? String(r.lead.deal_value_inr) : "");
+      })
+      .catch((e: any) => setError(e?.message ?? "Failed to load lead"));
+  }
+
+  useEffect(() => {
+    setData(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [leadId]);
+
+  async function run(action: () => Promise<unknown>, fallback: string) {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+      load();
+      onChanged();
+      return true;
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function savePipeline() {
+    const lostReason = (reasonChoice === "other" ? otherReason : reasonChoice).trim();
+    if (stage === "lost" && !lostReason) {
+      setError("Choose or enter a reason for losing this lead");
+      return;
+    }
+    const value = dealValue.trim() ? Math.round(Number(dealValue)) : null;
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      setError("Deal value must be a positive amount");
+      return;
+    }
+    await run(
+      () =>
+        updateAdminLead(leadId, {
+          stage,
+          lostReason: stage === "lost" ? lostReason : null,
+          ownerEmail: ownerEmail || null,
+          dealValueInr: value,
+        }),
+      "Failed to update lead"
+    );
+  }
+
+  async function addNote() {
+    const text = note.trim();
+    if (!text) return;
+    const ok = await run(() => addAdminLeadNote(leadId, text), "Failed to add note");
+    if (ok) setNote("");
+  }
+
+  async function addTask() {
+    if (!taskTitle.trim() || !taskDue) {
+      setError("A task needs a title and a due date");
+      return;
+    }
+    const ok = await run(
+      () =>
+        createAdminLeadTask(leadId, {
+          title: taskTitle.trim(),
+          dueAt: new Date(taskDue).toISOString(),
+          assigneeEmail: taskAssignee || null,
+        }),
+      "Failed to add task"
+    );
+    if (ok) {
+      setTaskTitle("");
+      setTaskDue("");
+    }
+  }
+
+  const lead = data?.lead;
+  const details = Object.entries(data?.lead.data ?? {}).filter(
+    ([k, v]) => !["adminStatus", "honeypot", "name", "email", "phone"].includes(k) && v !== null && v !== ""
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-2xl overflow-y-auto bg-gray-50 p-4 sm:p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-xl font-bold text-gray-900">{lead ? lead.name || lead.email || `Lead #${lead.id}` : "Loading…"}</div>
+            {lead ? (
+              <div className="text-sm text-gray-600">
+                {lead.type === "hire" ? "Hire us" : "Contact"}
+                {lead.title ? ` · ${lead.title}` : ""}
+                {lead.company ? ` · ${lead.company}` : ""}
+              </div>
+            ) : null}
+            {lead ? (
+              <div className="text-sm text-gray-600">
+                {lead.email ? (
+                  <a href={`mailto:${lead.email}`} className="text-blue-700 hover:underline">
+                    {lead.email}
+                  </a>
+                ) : null}
+                {lead.phone ? ` · ${lead.phone}` : ""}
+              </div>
+            ) : null}
+          </div>
+          <button type="button" className="text-sm font-semibold text-gray-600 hover:underline" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {error ? <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div> : null}
+
+        {data && lead ? (
+          <>
+            <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="text-sm font-semibold text-gray-900">Pipeline</div>
+                <span className={`inline-flex rounded-full px-2 py-1 text-xs ${leadStageBadgeClass(lead.stage)}`}>
+                  {leadStageLabel(lead.stage)} since {formatDateTime(lead.stage_changed_at)}
+                </span>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                  Stage
+                  <select value={stage} onChange={(e) => setStage(e.target.value as LeadStage)} className={inputClass}>
+                    {leadStages.map((s) => (
+                      <option key={s.value} value={s.value}>
+                        {s.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                  Owner
+                  <select value={ownerEmail} onChange={(e) => setOwnerEmail(e.target.value)} className={inputClass}>
+                    <option value="">Unassigned</option>
+                    {owners.map((o) => (
+                      <option key={o} value={o}>
+                        {o}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                  Deal value (₹)
+                  <input
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={dealValue}
+                    onChange={(e) => setDealValue(e.target.value)}
+                    placeholder="Unknown"
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              {lead.budget ? <div className="mt-2 text-xs text-gray-500">Budget given by the client: {lead.budget}</div> : null}
+
+              {stage === "lost" ? (
+                <div className="mt-3 grid gap-2 sm:grid-cols-2">
+                  <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                    Lost reason
+                    <select value={reasonChoice} onChange={(e) => setReasonChoice(e.target.value)} className={inputClass}>
+                      <option value="">Choose a reason</option>
+                      {leadLostReasons.map((r) => (
+                        <option key={r} value={r}>
+                          {r}
+                        </option>
+                      ))}
+                      <option value="other">Other…</option>
+                    </select>
+                  </label>
+                  {reasonChoice === "other" ? (
+                    <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                      Reason
+                      <input value={otherReason} onChange={(e) => setOtherReason(e.target.value)} maxLength={500} className={inputClass} />
+                    </label>
+                  ) : null}
+                </div>
+              ) : null}
+
+              <div className="mt-3 flex justify-end">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void savePipeline()}
+                  className="h-10 rounded-lg bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+              <div className="text-sm font-semibold text-gray-900">Follow-up tasks</div>
+              <div className="mt-3 grid gap-2">
+                {data.tasks.length === 0 ? <div className="text-sm text-gray-500">No tasks yet.</div> : null}
+                {data.tasks.map((t) => {
+                  const overdue = !t.completed_at && new Date(t.due_at).getTime() < Date.now();
+                  return (
+                    <div key={t.id} className="flex items-start gap-3 rounded-xl border border-gray-200 p-3 text-sm">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={!!t.completed_at}
+                        disabled={busy}
+                        onChange={(e) => void run(() => setAdminLeadTaskCompleted(leadId, t.id, e.target.checked), "Failed to update task")}
+                        aria-label="Done"
+                      />
+                      <div className="flex-1">
+                        <div className={t.completed_at ? "text-gray-400 line-through" : "font-medium text-gray-900"}>{t.title}</div>
+                        <div className={`text-xs ${overdue ? "font-semibold text-rose-700" : "text-gray-500"}`}>
+                          {overdue ? "Overdue · " : ""}due {formatDateTime(t.due_at)}
+                          {t.assignee_email ? ` · ${t.assignee_email}` : ""}
+                          {t.completed_at ? ` · done ${formatDateTime(t.completed_at)}` : ""}
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        className="text-xs text-rose-700 hover:underline"
+                        onClick={() => void run(() => deleteAdminLeadTask(leadId, t.id), "Failed to delete task")}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="mt-3 grid gap-2 sm:grid-cols-[1fr,190px,170px,auto] sm:items-end">
+                <input value={taskTitle} onChange={(e) => setTaskTitle(e.target.value)} placeholder="Call back about the proposal" className={inputClass} />
+                <input type="datetime-local" value={taskDue} onChange={(e) => setTaskDue(e.target.value)} className={inputClass} aria-label="Due" />
+                <select value={taskAssignee} onChange={(e) => setTaskAssignee(e.target.value)} className={inputClass} aria-label="Assignee">
+                  <option value="">Lead owner</option>
+                  {owners.map((o) => (
+                    <option key={o} value={o}>
+                      {o}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void addTask()}
+                  className="h-10 rounded-lg border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-50 disabled:opacity-60"
+                >
+                  Add task
+                </button>
+              </div>
+            </div>
+
+            {details.length > 0 ? (
+              <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+                <div className="text-sm font-semibold text-gray-900 mb-2">Request</div>
+                <dl className="grid gap-2 text-sm">
+                  {details.map(([k, v]) => (
+                    <div key={k}>
+                      <dt className="text-xs font-semibold text-gray-500">{k}</dt>
+                      <dd className="whitespace-pre-wrap text-gray-800">
+                        {typeof v === "string" ? v : Array.isArray(v) ? v.join(", ") : JSON.stringify(v)}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ) : null}
+
+            <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+              <div className="text-sm font-semibold text-gray-900">Activity</div>
+              <div className="mt-3 grid gap-2">
+                <textarea
+                  rows={3}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Log a call, email or meeting"
+                  className="w-full rounded-lg border border-gray-300 bg-white px-2 py-2 text-sm text-gray-900"
+                />
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    disabled={busy || !note.trim()}
+                    onClick={() => void addNote()}
+                    className="h-10 rounded-lg border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    Add note
+                  </button>
+                </div>
+              </div>
+              <ol className="mt-3 space-y-2 text-sm">
+                {data.activities.map((a) => (
+                  <li key={a.id} className="rounded-xl bg-gray-50 px-3 py-2">
+                    <div className="text-xs text-gray-500">
+                      {formatDateTime(a.created_at)}
+                      {a.actor_email ? ` · ${a.actor_email}` : ""}
+                    </div>
+                    <div className="whitespace-pre-wrap text-gray-800">{activityText(a)}</div>
+                  </li>
+                ))}
+                <li className="rounded-xl bg-gray-50 px-3 py-2">
+                  <div className="text-xs text-gray-500">{formatDateTime(lead.created_at)}</div>
+                  <div className="text-gray-800">Lead received</div>
+                </li>
+              </ol>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
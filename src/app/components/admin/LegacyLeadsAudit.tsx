@@ -0,0 +1,116 @@
+import { useState } from "react";
+
+import {
+  fetchAdminLegacyLeadAudit,
+  runAdminLegacyLeadMigration,
+  type LegacyLeadAudit,
+} from "../../services/platformService";
+
+// Confirms that every row in the old contact/hire tables made it into
+// submissions (and so onto the leads board). Loaded on demand.
+export function LegacyLeadsAudit() {
+  const [audit, setAudit] = useState<LegacyLeadAudit | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: () => Promise<LegacyLeadAudit>, fallback: string) {
+    setError(null);
+    setBusy(true);
+    try {
+      setAudit(await action());
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const missingTotal = audit ? audit.tables.reduce((n, t) => n + (t.total - t.migrated), 0) : 0;
+  const allGood = audit !== null && missingTotal === 0 && audit.submissionsWithoutLead === 0;
+
+  return (
+    <div className="mt-8 rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Legacy lead import</h2>
+          <div className="text-sm text-gray-500">
+            Rows from contact_messages, hire_requests, contact_submissions and hire_us_submissions copied into submissions.
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void run(fetchAdminLegacyLeadAudit, "Failed to check legacy leads")}
+            className="min-h-10 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold text-gray-900 hover:bg-gray-50 disabled:opacity-60"
+          >
+            {audit ? "Re-check" : "Run check"}
+          </button>
+          {audit && !allGood ? (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void run(runAdminLegacyLeadMigration, "Failed to import legacy leads")}
+              className="min-h-10 rounded-xl bg-gray-900 px-4 text-sm font-semibold text-white hover:bg-black disabled:opacity-60"
+            >
+              Import missing rows
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <div className="px-6 py-3 text-sm text-rose-700">{error}</div> : null}
+
+      {audit ? (
+        <div className="px-6 py-4">
+          <div
+            className={`mb-4 rounded-xl px-4 py-3 text-sm ${
+              allGood ? "border border-green-200 bg-green-50 text-green-800" : "border border-amber-200 bg-amber-50 text-amber-900"
+            }`}
+          >
+            {allGood
+              ? "Nothing left behind: every legacy row has a submission and every contact/hire submission has a lead."
+              : `${missingTotal} legacy row(s) not yet copied; ${audit.submissionsWithoutLead} submission(s) without a lead.`}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="text-left text-xs font-semibold text-gray-500">
+                <tr>
+                  <th className="py-2 pr-4">Legacy table</th>
+                  <th className="py-2 pr-4">Type</th>
+                  <th className="py-2 pr-4">Rows</th>
+                  <th className="py-2 pr-4">Copied</th>
+                  <th className="py-2">Missing</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {audit.tables.map((t) => (
+                  <tr key={t.table}>
+                    <td className="py-2 pr-4 font-mono text-xs text-gray-900">{t.table}</td>
+                    <td className="py-2 pr-4 text-gray-700">{t.type === "hire" ? "Hire us" : "Contact"}</td>
+                    <td className="py-2 pr-4 text-gray-700">{t.exists ? t.total : "Table not present"}</td>
+                    <td className="py-2 pr-4 text-gray-700">{t.exists ? t.migrated : "—"}</td>
+                    <td className={`py-2 ${t.total - t.migrated > 0 ? "font-semibold text-rose-700" : "text-gray-700"}`}>
+                      {t.exists ? t.total - t.migrated : "—"}
+                      {t.missing.length > 0 ? (
+                        <div className="mt-1 text-xs font-normal text-gray-600">
+                          {t.missing.map((m) => `#${m.id} ${m.email ?? m.name ?? ""}`).join(", ")}
+                        </div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 text-xs text-gray-500">
+            Submissions now:{" "}
+            {audit.submissions.map((s) => `${s.type} ${s.total} (${s.legacy} imported)`).join(" · ") || "none"}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+
+import {
+  fetchAdminOrderMilestones,
+  saveAdminOrderMilestones,
+  type AdminMilestone,
+  type AdminOrder,
+} from "../../services/platformService";
+
+type DraftMilestone = { label: string; amount: string; dueDate: string };
+
+const defaultLabels = ["Advance", "Mid-delivery", "Final"];
+
+function toDraft(m: AdminMilestone): DraftMilestone {
+  return { label: m.label, amount: String(m.amount_inr), dueDate: m.due_date ? m.due_date.slice(0, 10) : "" };
+}
+
+export function MilestoneScheduleEditor({
+  order,
+  onSaved,
+  onError,
+}: {
+  order: AdminOrder;
+  onSaved: () => void;
+  onError: (message: string | null) => void;
+}) {
+  const [paid, setPaid] = useState<AdminMilestone[]>([]);
+  const [drafts, setDrafts] = useState<DraftMilestone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  function applyItems(items: AdminMilestone[]) {
+    setPaid(items.filter((m) => m.status === "paid"));
+    setDrafts(items.filter((m) => m.status !== "paid").map(toDraft));
+  }
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    fetchAdminOrderMilestones(order.id)
+      .then((r) => {
+        if (!mounted) return;
+        applyItems(r.items);
+      })
+      .catch((e: any) => onError(e?.message ?? "Failed to load payment schedule"))
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order.id]);
+
+  const paidInr = paid.reduce((sum, m) => sum + m.amount_inr, 0);
+  const scheduledInr = drafts.reduce((sum, d) => sum + (Number(d.amount) || 0), 0);
+  const remainingInr = Number(order.price_inr) - paidInr - scheduledInr;
+  const locked = order.payment_status === "paid" || order.payment_status === "refunded" || !!order.razorpay_payment_id;
+
+  function update(idx: number, patch: Partial<DraftMilestone>) {
+    setDrafts((prev) => prev.map((d, i) => (i === idx ? { ...d, ...patch } : d)));
+  }
+
+  function addRow() {
+    setDrafts((prev) => [
+      ...prev,
+      {
+        label: defaultLabels[paid.length + prev.length] ?? `Milestone ${paid.length + prev.length + 1}`,
+        amount: remainingInr > 0 ? String(remainingInr) : "",
+        dueDate: "",
+      },
+    ]);
+  }
+
+  async function save() {
+    const milestones = drafts.map((d) => ({
+      label: d.label.trim(),
+      amountInr: Math.trunc(Number(d.amount)),
+      dueDate: d.dueDate || null,
+    }));
+    if (milestones.some((m) => !m.label || !Number.isFinite(m.amountInr) || m.amountInr <= 0)) {
+      onError("Each milestone needs a label and an amount.");
+      return;
+    }
+    if (milestones.length > 0 && remainingInr !== 0) {
+      onError(`Milestones must add up to ₹${Number(order.price_inr).toLocaleString("en-IN")}.`);
+      return;
+    }
+
+    onError(null);
+    setSaving(true);
+    try {
+      const r = await saveAdminOrderMilestones(order.id, milestones);
+      applyItems(r.items);
+      onSaved();
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to save payment schedule");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) return <div className="text-sm text-gray-500">Loading…</div>;
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="text-sm font-semibold text-gray-900">Payment schedule</div>
+        <div className={`text-xs font-semibold ${remainingInr === 0 ? "text-green-700" : "text-amber-700"}`}>
+          {remainingInr === 0
+            ? "Schedule covers the order total"
+            : `₹${remainingInr.toLocaleString("en-IN")} ${remainingInr > 0 ? "unscheduled" : "over the order total"}`}
+        </div>
+      </div>
+
+      {paid.length > 0 ? (
+        <div className="grid gap-2 mb-3">
+          {paid.map((m) => (
+            <div key={m.id} className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-green-100 bg-green-50/50 px-3 py-2 text-sm">
+              <span className="font-semibold text-gray-900">{m.label}</span>
+              <span className="text-gray-700">
+                ₹{m.amount_inr.toLocaleString("en-IN")} · paid
+                {m.invoice_number ? ` · ${m.invoice_number}` : ""}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {locked ? (
+        <div className="text-sm text-gray-500">
+          {paid.length === 0 ? "This order was paid in a single payment." : "All milestones are paid."}
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-2">
+            {drafts.map((d, idx) => (
+              <div key={idx} className="grid gap-2 md:grid-cols-[1fr,140px,160px,auto] md:items-center">
+                <input
+                  value={d.label}
+                  onChange={(e) => update(idx, { label: e.target.value })}
+                  placeholder="Milestone"
+                  className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={d.amount}
+                  onChange={(e) => update(idx, { amount: e.target.value })}
+                  placeholder="Amount (₹)"
+                  className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+                />
+                <input
+                  type="date"
+                  value={d.dueDate}
+                  onChange={(e) => update(idx, { dueDate: e.target.value })}
+                  className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+                />
+                <button
+                  type="button"
+                  onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== idx))}
+                  className="h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold text-gray-600 hover:bg-gray-50"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={addRow}
+              className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+            >
+              + Milestone
+            </button>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void save()}
+              className="min-h-9 rounded-xl bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save schedule"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
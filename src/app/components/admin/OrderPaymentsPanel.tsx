@@ -0,0 +1,375 @@
+import { Fragment, useState } from "react";
+
+import {
+  createAdminOrderRefund,
+  downloadCreditNote,
+  fetchAdminOrderRefunds,
+  type AdminOrder,
+  type OrderRefund,
+  type RefundablePayment
+} from "../../services/platformService";
+import { projectStatusBadgeClass, projectStatusLabel } from "../../config/projectStatuses";
+import { MessageThread } from "../MessageThread";
+import { DeliverablesManager } from "./DeliverablesManager";
+import { MilestoneScheduleEditor } from "./MilestoneScheduleEditor";
+import { ProjectStatusEditor } from "./ProjectStatusEditor";
+
+function formatInr(paise: number) {
+  return `₹${(paise / 100).toLocaleString("en-IN", { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+function paymentBadgeClass(status: string) {
+  if (status === "paid") return "bg-green-50 text-green-800 border-green-200";
+  if (status === "partially_paid") return "bg-sky-50 text-sky-800 border-sky-200";
+  if (status === "refunded") return "bg-amber-50 text-amber-800 border-amber-200";
+  if (status === "failed") return "bg-rose-50 text-rose-800 border-rose-200";
+  return "bg-gray-50 text-gray-700 border-gray-200";
+}
+
+export function OrderPaymentsPanel({
+  orders,
+  onChanged,
+  onError
+}: {
+  orders: AdminOrder[];
+  onChanged: () => void;
+  onError: (message: string | null) => void;
+}) {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [refundFormId, setRefundFormId] = useState<number | null>(null);
+  const [scheduleId, setScheduleId] = useState<number | null>(null);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [refunds, setRefunds] = useState<Record<number, OrderRefund[]>>({});
+  const [payments, setPayments] = useState<Record<number, RefundablePayment[]>>({});
+  const [paymentId, setPaymentId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  async function loadRefunds(orderId: number) {
+    try {
+      const r = await fetchAdminOrderRefunds(orderId);
+      setRefunds((prev) => ({ ...prev, [orderId]: r.items }));
+      setPayments((prev) => ({ ...prev, [orderId]: r.payments }));
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to load refunds");
+    }
+  }
+
+  function toggleHistory(orderId: number) {
+    if (expandedId === orderId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(orderId);
+    void loadRefunds(orderId);
+  }
+
+  // Milestone and subscription orders have one payment per milestone or
+  // renewal, so the form asks which one to refund.
+  function openRefundForm(orderId: number) {
+    setRefundFormId(refundFormId === orderId ? null : orderId);
+    setPaymentId("");
+    setAmount("");
+    setReason("");
+    void loadRefunds(orderId);
+  }
+
+  async function submitRefund(order: AdminOrder) {
+    const amountInr = amount.trim() ? Number(amount) : undefined;
+    if (amountInr !== undefined && (!Number.isFinite(amountInr) || amountInr <= 0)) {
+      onError("Enter a valid refund amount, or leave it blank for a full refund.");
+      return;
+    }
+
+    const label = amountInr !== undefined ? `₹${amountInr.toLocaleString("en-IN")}` : "the full remaining amount";
+    if (!window.confirm(`Refund ${label} for order #${order.id}? This cannot be undone.`)) return;
+
+    onError(null);
+    setBusyId(order.id);
+    try {
+      await createAdminOrderRefund(order.id, { amountInr, paymentId: paymentId || undefined, reason: reason.trim() });
+      setRefundFormId(null);
+      setExpandedId(order.id);
+      await loadRefunds(order.id);
+      onChanged();
+    } catch (e: any) {
+      onError(e?.message ?? "Refund failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function openCreditNote(orderId: number, refundId: number) {
+    onError(null);
+    try {
+      const blob = await downloadCreditNote(orderId, refundId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank", "noopener,noreferrer");
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to download credit note");
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Orders &amp; Payments</h2>
+          <p className="text-xs text-gray-500 mt-0.5">Checkout orders, project status, payment schedules, refunds and credit notes</p>
+        </div>
+        <span className="text-xs font-semibold px-2 py-1 rounded-full bg-blue-50 text-blue-700 border border-blue-200">
+          {orders.length} total
+        </span>
+      </div>
+      <div className="overflow-auto">
+        <table className="min-w-[900px] w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="text-left px-4 py-3 font-semibold">Order</th>
+              <th className="text-left px-4 py-3 font-semibold">Customer</th>
+              <th className="text-left px-4 py-3 font-semibold">Service</th>
+              <th className="text-right px-4 py-3 font-semibold">Amount</th>
+              <th className="text-right px-4 py-3 font-semibold">Refunded</th>
+              <th className="text-left px-4 py-3 font-semibold">Status</th>
+              <th className="text-right px-4 py-3 font-semibold">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {orders.length === 0 ? (
+              <tr>
+                <td className="px-4 py-8 text-gray-500 text-center" colSpan={7}>
+                  No orders yet.
+                </td>
+              </tr>
+            ) : (
+              orders.map((o) => {
+                const pricePaise = Number(o.price_inr) * 100;
+                const refundedPaise = Number(o.refunded_paise ?? 0);
+                const canRefund = o.payment_status === "paid" || o.payment_status === "partially_paid";
+                const history = refunds[o.id];
+                const orderPayments = payments[o.id] ?? [];
+                const selectedPayment =
+                  orderPayments.length === 1 ? orderPayments[0] : orderPayments.find((p) => p.razorpay_payment_id === paymentId);
+
+                return (
+                  <Fragment key={o.id}>
+                    <tr className="hover:bg-gray-50/60 transition-colors">
+                      <td className="px-4 py-3">
+                        <div className="font-semibold text-gray-900">#{o.id}</div>
+                        <div className="text-gray-500 text-xs">
+                          {o.created_at ? new Date(o.created_at).toLocaleDateString("en-IN") : "—"}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-gray-900">{o.name}</div>
+                        <div className="text-gray-500 text-xs">{o.email}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-gray-700">{o.service_name}</div>
+                        <div className="text-gray-500 text-xs">{o.plan_name}</div>
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-800">
+                        {formatInr(pricePaise)}
+                        {o.milestone_count > 0 ? (
+                          <div className="text-gray-500 text-xs">
+                            {formatInr(Number(o.milestones_paid_inr) * 100)} paid · {o.milestone_count} milestones
+                          </div>
+                        ) : null}
+                        {o.coupon_code ? (
+                          <div className="text-gray-500 text-xs">
+                            {o.coupon_code} · −{formatInr(Number(o.discount_inr) * 100)}
+                          </div>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-800">{refundedPaise > 0 ? formatInr(refundedPaise) : "—"}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-semibold ${paymentBadgeClass(o.payment_status)}`}>
+                          {o.payment_status === "partially_paid" ? "partially paid" : o.payment_status}
+                        </span>
+                        <div className="mt-1">
+                          <span className={`inline-flex rounded-full px-2 py-0.5 text-xs ${projectStatusBadgeClass(o.project_status)}`}>
+                            {projectStatusLabel(o.project_status)}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <div className="inline-flex gap-2">
+                          {canRefund ? (
+                            <button
+                              type="button"
+                              onClick={() => openRefundForm(o.id)}
+                              className="min-h-9 rounded-xl border border-rose-200 bg-white px-3 text-sm font-semibold text-rose-700 hover:bg-rose-50"
+                            >
+                              Refund
+                            </button>
+                          ) : null}
+                          <button
+                            type="button"
+                            onClick={() => setProjectId(projectId === o.id ? null : o.id)}
+                            className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+                          >
+                            Project
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setScheduleId(scheduleId === o.id ? null : o.id)}
+                            className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+                          >
+                            Schedule
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => toggleHistory(o.id)}
+                            className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+                          >
+                            {expandedId === o.id ? "Hide" : "Refunds"}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+
+                    {refundFormId === o.id ? (
+                      <tr className="bg-rose-50/30">
+                        <td className="px-4 py-4" colSpan={7}>
+                          <div
+                            className={`grid gap-3 md:items-end ${
+                              orderPayments.length > 1 ? "md:grid-cols-[220px,180px,1fr,auto]" : "md:grid-cols-[180px,1fr,auto]"
+                            }`}
+                          >
+                            {orderPayments.length > 1 ? (
+                              <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                                Payment
+                                <select
+                                  value={paymentId}
+                                  onChange={(e) => setPaymentId(e.target.value)}
+                                  className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+                                >
+                                  <option value="">Choose a payment…</option>
+                                  {orderPayments.map((p) => (
+                                    <option
+                                      key={p.razorpay_payment_id}
+                                      value={p.razorpay_payment_id}
+                                      disabled={p.refunded_paise >= p.amount_paise}
+                                    >
+                                      {p.label} · {formatInr(p.amount_paise - p.refunded_paise)} left
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                            ) : null}
+                            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                              Amount (₹)
+                              <input
+                                type="number"
+                                min={1}
+                                step="0.01"
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                placeholder={
+                                  selectedPayment
+                                    ? `Full: ${((selectedPayment.amount_paise - selectedPayment.refunded_paise) / 100).toFixed(2)}`
+                                    : ""
+                                }
+                                className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+                              />
+                            </label>
+                            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                              Reason
+                              <input
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                placeholder="e.g. Project cancelled by client"
+                                className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+                              />
+                            </label>
+                            <button
+                              type="button"
+                              disabled={busyId === o.id || !selectedPayment || reason.trim().length < 3}
+                              onClick={() => void submitRefund(o)}
+                              className="h-10 rounded-xl bg-rose-600 px-4 text-sm font-semibold text-white hover:bg-rose-700 disabled:opacity-60"
+                            >
+                              {busyId === o.id ? "Refunding…" : "Issue refund"}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ) : null}
+
+                    {projectId === o.id ? (
+                      <tr className="bg-blue-50/30">
+                        <td className="px-4 py-4" colSpan={7}>
+                          <ProjectStatusEditor order={o} onSaved={onChanged} onError={onError} />
+                          <div className="mt-4">
+                            <DeliverablesManager order={o} onChanged={onChanged} onError={onError} />
+                          </div>
+                          <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+                            <div className="text-sm font-semibold text-gray-900 mb-3">Messages</div>
+                            <MessageThread kind="order" id={o.id} as="admin" />
+                          </div>
+                        </td>
+                      </tr>
+                    ) : null}
+
+                    {scheduleId === o.id ? (
+                      <tr className="bg-blue-50/30">
+                        <td className="px-4 py-4" colSpan={7}>
+                          <MilestoneScheduleEditor order={o} onSaved={onChanged} onError={onError} />
+                        </td>
+                      </tr>
+                    ) : null}
+
+                    {expandedId === o.id ? (
+                      <tr className="bg-gray-50/40">
+                        <td className="px-4 py-4" colSpan={7}>
+                          <div className="rounded-2xl border border-gray-200 bg-white p-4">
+                            <div className="text-sm font-semibold text-gray-900 mb-3">Refund history</div>
+                            {!history ? (
+                              <div className="text-sm text-gray-500">Loading…</div>
+                            ) : history.length === 0 ? (
+                              <div className="text-sm text-gray-500">No refunds issued for this order.</div>
+                            ) : (
+                              <div className="grid gap-2">
+                                {history.map((r) => (
+                                  <div key={r.id} className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-gray-100 px-3 py-2">
+                                    <div>
+                                      <div className="text-sm font-semibold text-gray-900">
+                                        {formatInr(r.amount_paise)} <span className="text-xs font-normal text-gray-500">· {r.status}</span>
+                                      </div>
+                                      <div className="text-xs text-gray-500">
+                                        {new Date(r.created_at).toLocaleString("en-IN")}
+                                        {orderPayments.length > 1
+                                          ? ` · ${orderPayments.find((p) => p.razorpay_payment_id === r.razorpay_payment_id)?.label ?? "payment"}`
+                                          : ""}
+                                        {r.actor_email ? ` · by ${r.actor_email}` : " · via Razorpay"}
+                                        {r.reason ? ` · ${r.reason}` : ""}
+                                      </div>
+                                    </div>
+                                    {r.status !== "failed" ? (
+                                      <button
+                                        type="button"
+                                        onClick={() => void openCreditNote(o.id, r.id)}
+                                        className="text-sm font-semibold text-blue-700 hover:underline"
+                                      >
+                                        Credit note {r.credit_note_number ?? ""}
+                                      </button>
+                                    ) : null}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ) : null}
+                  </Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
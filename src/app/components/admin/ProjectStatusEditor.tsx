@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+
+import { projectStatusLabel, projectStatuses } from "../../config/projectStatuses";
+import {
+  fetchAdminOrderStatusHistory,
+  updateAdminOrderProjectStatus,
+  type AdminOrder,
+  type OrderStatusEvent,
+  type ProjectStatus,
+} from "../../services/platformService";
+
+export function ProjectStatusEditor({
+  order,
+  onSaved,
+  onError,
+}: {
+  order: AdminOrder;
+  onSaved: () => void;
+  onError: (message: string | null) => void;
+}) {
+  const [history, setHistory] = useState<OrderStatusEvent[] | null>(null);
+  const [status, setStatus] = useState<ProjectStatus>(order.project_status);
+  const [note, setNote] = useState("");
+  const [notify, setNotify] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  function load() {
+    fetchAdminOrderStatusHistory(order.id)
+      .then((r) => setHistory(r.items))
+      .catch((e: any) => onError(e?.message ?? "Failed to load status history"));
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order.id]);
+
+  const unchanged = status === order.project_status && !note.trim();
+
+  async function save() {
+    onError(null);
+    setSaving(true);
+    try {
+      await updateAdminOrderProjectStatus(order.id, {
+        status,
+        note: note.trim() || undefined,
+        notifyCustomer: notify,
+      });
+      setNote("");
+      load();
+      onSaved();
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to update project status");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="text-sm font-semibold text-gray-900 mb-3">Project status</div>
+
+      <div className="grid gap-3 md:grid-cols-[180px,1fr,auto] md:items-end">
+        <label className="grid gap-1 text-xs font-semibold text-gray-600">
+          Status
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ProjectStatus)}
+            className="h-10 rounded-lg border border-gray-300 bg-white px-2 text-sm text-gray-900"
+          >
+            {projectStatuses.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-xs font-semibold text-gray-600">
+          Note for the client (optional)
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Design approved, development started"
+            className="h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900"
+          />
+        </label>
+        <button
+          type="button"
+          disabled={saving || unchanged}
+          onClick={() => void save()}
+          className="h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : status === order.project_status ? "Post update" : "Update status"}
+        </button>
+      </div>
+      <label className="mt-2 inline-flex items-center gap-2 text-xs text-gray-600">
+        <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+        Email the customer ({order.email})
+      </label>
+
+      <div className="mt-4 grid gap-2">
+        {!history ? (
+          <div className="text-sm text-gray-500">Loading…</div>
+        ) : history.length === 0 ? (
+          <div className="text-sm text-gray-500">No status changes recorded yet.</div>
+        ) : (
+          history.map((e) => (
+            <div key={e.id} className="rounded-xl border border-gray-100 px-3 py-2">
+              <div className="text-sm font-semibold text-gray-900">
+                {e.from_status && e.from_status !== e.to_status
+                  ? `${projectStatusLabel(e.from_status)} → ${projectStatusLabel(e.to_status)}`
+                  : projectStatusLabel(e.to_status)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {new Date(e.created_at).toLocaleString("en-IN")}
+                {e.changed_by_email ? ` · by ${e.changed_by_email}` : ""}
+                {e.notified_at ? " · customer emailed" : ""}
+              </div>
+              {e.note ? <div className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{e.note}</div> : null}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useEffect, useState } from "react";
+
+import {
+  createAdminQuote,
+  deleteAdminQuote,
+  downloadQuotePdf,
+  fetchAdminSubmissionQuotes,
+  sendAdminQuote,
+  updateAdminQuote,
+  type Quote,
+  type QuoteInput,
+} from "../../services/platformService";
+
+type DraftLine = { description: string; quantity: string; unitPrice: string };
+
+type QuoteForm = {
+  title: string;
+  clientName: string;
+  clientEmail: string;
+  clientCompany: string;
+  lines: DraftLine[];
+  taxRatePercent: string;
+  validUntil: string;
+  terms: string;
+};
+
+const emptyLine: DraftLine = { description: "", quantity: "1", unitPrice: "" };
+
+function inDays(days: number) {
+  return new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+function quoteStatusClass(status: string) {
+  if (status === "accepted") return "bg-green-50 text-green-800 border-green-200";
+  if (status === "sent") return "bg-blue-50 text-blue-700 border-blue-200";
+  if (status === "declined") return "bg-rose-50 text-rose-700 border-rose-200";
+  return "bg-gray-50 text-gray-700 border-gray-200";
+}
+
+function formFromSubmission(data: Record<string, unknown>): QuoteForm {
+  const str = (v: unknown) => (typeof v === "string" ? v : "");
+  const project = str(data["projectName"] ?? data["project_name"]);
+  return {
+    title: project ? `Proposal: ${project}` : "",
+    clientName: str(data["name"] ?? data["fullName"]),
+    clientEmail: str(data["email"]),
+    clientCompany: str(data["company"]),
+    lines: [{ ...emptyLine }],
+    taxRatePercent: "18",
+    validUntil: inDays(14),
+    terms: "50% advance, balance on delivery.",
+  };
+}
+
+function formFromQuote(q: Quote): QuoteForm {
+  return {
+    title: q.title,
+    clientName: q.client_name,
+    clientEmail: q.client_email,
+    clientCompany: q.client_company ?? "",
+    lines: q.line_items.map((l) => ({
+      description: l.description,
+      quantity: String(l.quantity),
+      unitPrice: String(l.unitPriceInr),
+    })),
+    taxRatePercent: String(q.tax_rate_percent),
+    validUntil: q.valid_until,
+    terms: q.terms ?? "",
+  };
+}
+
+function formToInput(f: QuoteForm): QuoteInput {
+  return {
+    title: f.title.trim(),
+    clientName: f.clientName.trim(),
+    clientEmail: f.clientEmail.trim(),
+    clientCompany: f.clientCompany.trim() || null,
+    lineItems: f.lines.map((l) => ({
+      description: l.description.trim(),
+      quantity: Number(l.quantity),
+      unitPriceInr: Math.trunc(Number(l.unitPrice)),
+    })),
+    taxRatePercent: Math.trunc(Number(f.taxRatePercent) || 0),
+    validUntil: f.validUntil,
+    terms: f.terms.trim() || null,
+  };
+}
+
+export function QuoteBuilder({
+  submissionId,
+  submissionData,
+  onError,
+}: {
+  submissionId: number;
+  submissionData: Record<string, unknown>;
+  onError: (message: string | null) => void;
+}) {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [form, setForm] = useState<QuoteForm>(() => formFromSubmission(submissionData));
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  function load() {
+    setLoading(true);
+    fetchAdminSubmissionQuotes(submissionId)
+      .then((r) => setQuotes(r.items))
+      .catch((e: any) => onError(e?.message ?? "Failed to load quotes"))
+      .finally(() => setLoading(false));
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [submissionId]);
+
+  const input = formToInput(form);
+  const subtotal = input.lineItems.reduce(
+    (sum, l) => sum + (Number.isFinite(l.quantity * l.unitPriceInr) ? Math.round(l.quantity * l.unitPriceInr) : 0),
+    0
+  );
+  const tax = Math.round((subtotal * (input.taxRatePercent ?? 0)) / 100);
+
+  function setLine(idx: number, patch: Partial<DraftLine>) {
+    setForm((prev) => ({ ...prev, lines: prev.lines.map((l, i) => (i === idx ? { ...l, ...patch } : l)) }));
+  }
+
+  function startNew() {
+    setEditingId("new");
+    setForm(formFromSubmission(submissionData));
+    setNotice(null);
+  }
+
+  function startEdit(q: Quote) {
+    setEditingId(q.id);
+    setForm(formFromQuote(q));
+    setNotice(null);
+  }
+
+  async function save() {
+    if (input.title.length < 3) return onError("Give the quote a title.");
+    if (input.lineItems.some((l) => !l.description || !(l.quantity > 0) || !Number.isFinite(l.unitPriceInr))) {
+      return onError("Each line item needs a description, quantity and unit price.");
+    }
+    if (subtotal + tax <= 0) return onError("Quote total must be greater than zero.");
+
+    onError(null);
+    setBusy("save");
+    try {
+      if (editingId === "new") await createAdminQuote(submissionId, input);
+      else if (editingId) await updateAdminQuote(editingId, input);
+      setEditingId(null);
+      load();
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to save quote");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function send(q: Quote) {
+    const verb = q.status === "sent" ? "Re-send" : "Send";
+    if (!window.confirm(`${verb} ${q.quote_number ?? "this quote"} to ${q.client_email}?`)) return;
+
+    onError(null);
+    setBusy(`send-${q.id}`);
+    try {
+      const r = await sendAdminQuote(q.id);
+      setNotice(r.emailed ? `Quote emailed to ${q.client_email}.` : "Quote marked as sent, but email is not configured.");
+      load();
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to send quote");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function remove(q: Quote) {
+    if (!window.confirm(`Delete draft ${q.quote_number ?? ""}?`)) return;
+    onError(null);
+    try {
+      await deleteAdminQuote(q.id);
+      load();
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to delete quote");
+    }
+  }
+
+  async function openPdf(q: Quote) {
+    onError(null);
+    try {
+      const blob = await downloadQuotePdf(q.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank", "noopener,noreferrer");
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (e: any) {
+      onError(e?.message ?? "Failed to open quote PDF");
+    }
+  }
+
+  const fieldCls = "h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900";
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="text-sm font-semibold text-gray-900">Quotes</div>
+        {editingId === null ? (
+          <button
+            type="button"
+            onClick={startNew}
+            className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+          >
+            + New quote
+          </button>
+        ) : null}
+      </div>
+
+      {notice ? <div className="mb-3 text-sm text-green-700">{notice}</div> : null}
+
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading…</div>
+      ) : quotes.length === 0 && editingId === null ? (
+        <div className="text-sm text-gray-500">No quotes for this request yet.</div>
+      ) : (
+        <div className="grid gap-2">
+          {quotes.map((q) => (
+            <div key={q.id} className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-gray-100 px-3 py-2">
+              <div>
+                <div className="text-sm font-semibold text-gray-900">
+                  {q.quote_number} · {q.title}
+                </div>
+                <div className="text-xs text-gray-500">
+                  ₹{q.total_inr.toLocaleString("en-IN")} · valid until {new Date(q.valid_until).toLocaleDateString("en-IN")}
+                  {q.order_id ? ` · order #${q.order_id}` : ""}
+                  {q.decline_reason ? ` · “${q.decline_reason}”` : ""}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-semibold ${quoteStatusClass(q.status)}`}>
+                  {q.status}
+                </span>
+                <button type="button" onClick={() => void openPdf(q)} className="text-sm font-semibold text-blue-700 hover:underline">
+                  PDF
+                </button>
+                {q.status === "draft" || q.status === "sent" ? (
+                  <>
+                    <button type="button" onClick={() => startEdit(q)} className="text-sm font-semibold text-gray-700 hover:underline">
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy === `send-${q.id}`}
+                      onClick={() => void send(q)}
+                      className="text-sm font-semibold text-blue-700 hover:underline disabled:opacity-60"
+                    >
+                      {busy === `send-${q.id}` ? "Sending…" : q.status === "sent" ? "Re-send" : "Send"}
+                    </button>
+                  </>
+                ) : null}
+                {q.status === "draft" ? (
+                  <button type="button" onClick={() => void remove(q)} className="text-sm font-semibold text-rose-700 hover:underline">
+                    Delete
+                  </button>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId !== null ? (
+        <div className="mt-4 grid gap-3 rounded-xl border border-blue-100 bg-blue-50/30 p-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Title
+              <input className={fieldCls} value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Valid until
+              <input
+                type="date"
+                className={fieldCls}
+                value={form.validUntil}
+                onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+              />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Client name
+              <input className={fieldCls} value={form.clientName} onChange={(e) => setForm({ ...form, clientName: e.target.value })} />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Client email
+              <input className={fieldCls} value={form.clientEmail} onChange={(e) => setForm({ ...form, clientEmail: e.target.value })} />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              Company
+              <input
+                className={fieldCls}
+                value={form.clientCompany}
+                onChange={(e) => setForm({ ...form, clientCompany: e.target.value })}
+              />
+            </label>
+            <label className="grid gap-1 text-xs font-semibold text-gray-600">
+              GST rate (%)
+              <input
+                type="number"
+                min={0}
+                max={28}
+                className={fieldCls}
+                value={form.taxRatePercent}
+                onChange={(e) => setForm({ ...form, taxRatePercent: e.target.value })}
+              />
+            </label>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="text-xs font-semibold text-gray-600">Line items</div>
+            {form.lines.map((l, idx) => (
+              <div key={idx} className="grid gap-2 md:grid-cols-[1fr,90px,140px,auto]">
+                <input
+                  className={fieldCls}
+                  placeholder="Description"
+                  value={l.description}
+                  onChange={(e) => setLine(idx, { description: e.target.value })}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  className={fieldCls}
+                  placeholder="Qty"
+                  value={l.quantity}
+                  onChange={(e) => setLine(idx, { quantity: e.target.value })}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  className={fieldCls}
+                  placeholder="Unit price (₹)"
+                  value={l.unitPrice}
+                  onChange={(e) => setLine(idx, { unitPrice: e.target.value })}
+                />
+                <button
+                  type="button"
+                  disabled={form.lines.length === 1}
+                  onClick={() => setForm({ ...form, lines: form.lines.filter((_, i) => i !== idx) })}
+                  className="h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, lines: [...form.lines, { ...emptyLine }] })}
+              className="justify-self-start text-sm font-semibold text-blue-700 hover:underline"
+            >
+              + Line item
+            </button>
+          </div>
+
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Terms
+            <textarea
+              rows={3}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900"
+              value={form.terms}
+              onChange={(e) => setForm({ ...form, terms: e.target.value })}
+            />
+          </label>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="text-sm text-gray-700">
+              Subtotal ₹{subtotal.toLocaleString("en-IN")} + GST ₹{tax.toLocaleString("en-IN")} ={" "}
+              <span className="font-semibold">₹{(subtotal + tax).toLocaleString("en-IN")}</span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={busy === "save"}
+                onClick={() => void save()}
+                className="min-h-9 rounded-xl bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+              >
+                {busy === "save" ? "Saving…" : editingId === "new" ? "Save draft" : "Save changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router";
+
+import { billingIntervalSuffix } from "../../config/billingIntervals";
+import { videoEmbedUrl, videoWatchUrl } from "../../lib/videoEmbed";
+import { fetchPricing, type PricingItem } from "../../services/platformService";
+import { CTAButton } from "../CTAButton";
+import { SeoJsonLd } from "../Seo";
+import { TestimonialSlider } from "../TestimonialSlider";
+import type { CmsBlock, CmsButton } from "./CmsBlocks";
+
+type BlockOf<T extends CmsBlock["type"]> = Extract<CmsBlock, { type: T }>;
+
+// Site paths go through the router; external links open as plain anchors.
+function CmsLinkButton({ button }: { button: CmsButton }) {
+  if (button.href.startsWith("/")) {
+    return (
+      <CTAButton to={button.href} variant={button.variant ?? "primary"}>
+        {button.label}
+      </CTAButton>
+    );
+  }
+  const cls =
+    button.variant === "secondary"
+      ? "bg-white/10 text-white border-2 border-white/20 hover:bg-white/20"
+      : "bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg hover:shadow-xl";
+  return (
+    <a
+      href={button.href}
+      target={/^https?:/i.test(button.href) ? "_blank" : undefined}
+      rel="noopener noreferrer"
+      className={`inline-flex items-center px-8 py-4 rounded-xl font-semibold text-sm transition-all duration-300 ${cls}`}
+    >
+      {button.label}
+    </a>
+  );
+}
+
+export function CmsHeroView({ block }: { block: BlockOf<"hero"> }) {
+  return (
+    <div className="relative overflow-hidden rounded-3xl bg-gradient-to-br from-gray-900 via-blue-900 to-gray-900 px-6 py-14 sm:px-12 text-white">
+      {block.imageSrc ? (
+        <img src={block.imageSrc} alt="" className="absolute inset-0 h-full w-full object-cover opacity-30" loading="lazy" />
+      ) : null}
+      <div className="relative max-w-3xl">
+        <h2 className="text-3xl md:text-5xl font-bold font-poppins leading-tight">{block.heading}</h2>
+        {block.subheading ? <p className="mt-4 text-lg text-gray-200">{block.subheading}</p> : null}
+        {block.buttons.length ? (
+          <div className="mt-8 flex flex-wrap gap-4">
+            {block.buttons.map((button, i) => (
+              <CmsLinkButton key={i} button={button} />
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export function CmsCtaView({ block }: { block: BlockOf<"cta"> }) {
+  return (
+    <div className="rounded-3xl bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-10 sm:px-10 text-white flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+      <div>
+        <h3 className="text-2xl font-bold font-poppins">{block.heading}</h3>
+        {block.text ? <p className="mt-2 text-blue-100">{block.text}</p> : null}
+      </div>
+      <div className="shrink-0">
+        <CmsLinkButton button={{ ...block.button, variant: block.button.variant ?? "secondary" }} />
+      </div>
+    </div>
+  );
+}
+
+// Accordion on the page plus FAQPage structured data for search engines.
+export function CmsFaqView({ block }: { block: BlockOf<"faq"> }) {
+  const schema = useMemo(
+    () => ({
+      "@context": "https://schema.org",
+      "@type": "FAQPage",
+      mainEntity: block.items.map((item) => ({
+        "@type": "Question",
+        name: item.question,
+        acceptedAnswer: { "@type": "Answer", text: item.answer },
+      })),
+    }),
+    [block.items]
+  );
+
+  return (
+    <div>
+      <SeoJsonLd schema={schema} />
+      {block.heading ? <h2 className="mb-4 text-2xl md:text-3xl font-bold font-poppins text-gray-900">{block.heading}</h2> : null}
+      <div className="divide-y divide-gray-200 rounded-2xl border border-gray-200 bg-white">
+        {block.items.map((item, i) => (
+          <details key={i} className="group px-5 py-4">
+            <summary className="flex cursor-pointer list-none items-center justify-between gap-4 font-semibold text-gray-900">
+              {item.question}
+              <span className="text-gray-400 transition-transform group-open:rotate-45" aria-hidden="true">
+                +
+              </span>
+            </summary>
+            <p className="mt-3 text-gray-700 leading-relaxed whitespace-pre-line">{item.answer}</p>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CmsTestimonialsView({ block }: { block: BlockOf<"testimonials"> }) {
+  const items = useMemo(() => block.items.map((item, i) => ({ ...item, id: i })), [block.items]);
+  return (
+    <div className="rounded-3xl bg-gradient-to-br from-blue-50 to-gray-50 px-4 py-10">
+      <TestimonialSlider items={items} />
+    </div>
+  );
+}
+
+// Live plans from services_pricing, so prices never go stale in page copy.
+export function CmsPricingView({ block }: { block: BlockOf<"pricing"> }) {
+  const [plans, setPlans] = useState<PricingItem[] | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchPricing()
+      .then((r) => {
+        if (mounted) setPlans(r.items);
+      })
+      .catch(() => {
+        // Non-blocking: hide the table if pricing is unavailable.
+        if (mounted) setPlans([]);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const visible = (plans ?? []).filter((p) => !block.serviceKey || p.service_key === block.serviceKey);
+  if (plans !== null && !visible.length) return null;
+
+  return (
+    <div>
+      {block.heading ? <h2 className="mb-6 text-2xl md:text-3xl font-bold font-poppins text-gray-900">{block.heading}</h2> : null}
+      {plans === null ? (
+        <div className="text-sm text-gray-500">Loading pricing…</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visible.map((p) => (
+            <div key={p.id} className="rounded-2xl border border-gray-200 bg-gray-50 p-6 flex flex-col">
+              <div className="text-sm font-medium text-gray-600">{p.service_name}</div>
+              <div className="mt-1 text-lg font-semibold text-gray-900">{p.plan_name}</div>
+              <div className="mt-3 text-2xl font-bold text-gray-900">
+                ₹{p.price_inr.toLocaleString("en-IN")}
+                {billingIntervalSuffix(p.billing_interval)}
+              </div>
+              <div className="mt-6 flex-1 flex items-end">
+                <Link
+                  to={`/checkout?pricingId=${p.id}`}
+                  className="inline-flex items-center justify-center rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
+                >
+                  Order Now
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CmsVideoView({ block }: { block: BlockOf<"video"> }) {
+  const title = block.title || "Video";
+  return (
+    <figure className="w-full max-w-4xl">
+      <div className="relative w-full overflow-hidden rounded-2xl border border-gray-200 bg-black" style={{ paddingTop: "56.25%" }}>
+        <iframe
+          src={videoEmbedUrl(block.provider, block.videoId)}
+          title={title}
+          loading="lazy"
+          allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+          allowFullScreen
+          referrerPolicy="strict-origin-when-cross-origin"
+          className="absolute inset-0 h-full w-full"
+        />
+      </div>
+      {block.title ? (
+        <figcaption className="mt-2 text-sm text-gray-500">
+          {block.title} ·{" "}
+          <a href={videoWatchUrl(block.provider, block.videoId)} target="_blank" rel="noopener noreferrer" className="underline">
+            Watch on {block.provider === "youtube" ? "YouTube" : "Vimeo"}
+          </a>
+        </figcaption>
+      ) : null}
+    </figure>
+  );
+}
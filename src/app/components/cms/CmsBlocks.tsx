@@ -1,10 +1,34 @@
 import { useEffect, useMemo, useState } from "react";
+import { CMS_PREVIEW_PARAM } from "../../config/cmsPages";
+import type { VideoProvider } from "../../lib/videoEmbed";
 import { fetchPublicContent } from "../../services/platformService";
+import {
+  CmsCtaView,
+  CmsFaqView,
+  CmsHeroView,
+  CmsPricingView,
+  CmsTestimonialsView,
+  CmsVideoView,
+} from "./CmsBlockViews";
 
-export type CmsBlock =
+// Optional per-block window (ISO timestamps); the API drops blocks outside it.
+export type CmsBlockSchedule = { publishAt?: string; unpublishAt?: string };
+
+export type CmsButton = { label: string; href: string; variant?: "primary" | "secondary" };
+
+// Keep in sync with cmsBlockSchema in server/src/lib/cmsBlocks.ts.
+export type CmsBlock = (
   | { type: "text"; as?: "h2" | "h3" | "p"; text: string }
   | { type: "image"; src: string; alt?: string; href?: string }
-  | { type: "html"; html: string };
+  | { type: "html"; html: string }
+  | { type: "hero"; heading: string; subheading?: string; imageSrc?: string; buttons: CmsButton[] }
+  | { type: "cta"; heading: string; text?: string; button: CmsButton }
+  | { type: "faq"; heading?: string; items: Array<{ question: string; answer: string }> }
+  | { type: "testimonials"; items: Array<{ name: string; role?: string; content: string; rating: number }> }
+  | { type: "pricing"; heading?: string; serviceKey?: string }
+  | { type: "video"; provider: VideoProvider; videoId: string; title?: string }
+) &
+  CmsBlockSchedule;
 
 export type CmsBlocksValue = { blocks: CmsBlock[] };
 
@@ -43,6 +67,7 @@ export function CmsBlocksRenderer({ value }: { value: unknown }) {
         }
 
         if (b.type === "image") {
+          if (!b.src) return null;
           const img = (
             <img
               src={b.src}
@@ -75,6 +100,13 @@ export function CmsBlocksRenderer({ value }: { value: unknown }) {
           );
         }
 
+        if (b.type === "hero") return <CmsHeroView key={idx} block={b} />;
+        if (b.type === "cta") return <CmsCtaView key={idx} block={b} />;
+        if (b.type === "faq") return <CmsFaqView key={idx} block={b} />;
+        if (b.type === "testimonials") return <CmsTestimonialsView key={idx} block={b} />;
+        if (b.type === "pricing") return <CmsPricingView key={idx} block={b} />;
+        if (b.type === "video") return <CmsVideoView key={idx} block={b} />;
+
         return null;
       })}
     </div>
@@ -83,12 +115,16 @@ export function CmsBlocksRenderer({ value }: { value: unknown }) {
 
 export function CmsSlot({ contentKey }: { contentKey: string }) {
   const [value, setValue] = useState<unknown>(null);
+  const [isPreview, setIsPreview] = useState(false);
 
   useEffect(() => {
-    fetchPublicContent([contentKey])
+    // Admins open draft previews as ?cmsPreview=TOKEN on the real page.
+    const preview = new URLSearchParams(window.location.search).get(CMS_PREVIEW_PARAM) ?? undefined;
+    fetchPublicContent([contentKey], { preview })
       .then((r) => {
         const row = r.items.find((it) => it.key === contentKey);
         setValue(row?.value ?? null);
+        setIsPreview(!!row?.preview);
       })
       .catch(() => {
         // Non-blocking: if API is down/cold-starting, just hide the slot.
@@ -102,6 +138,11 @@ export function CmsSlot({ contentKey }: { contentKey: string }) {
   return (
     <section className="py-16 bg-gray-50 border-t">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {isPreview ? (
+          <div className="mb-3 inline-flex rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-800">
+            Draft preview — not yet published
+          </div>
+        ) : null}
         <div className="rounded-2xl bg-white p-6 sm:p-10 border border-gray-200">
           <CmsBlocksRenderer value={value} />
         </div>
@@ -0,0 +1,25 @@
+import type { BillingInterval } from "../services/platformService";
+
+// Pricing plan billing intervals. Keep in sync with server/src/lib/subscriptions.ts.
+export const billingIntervals: Array<{ value: BillingInterval; label: string; suffix: string }> = [
+  { value: "one_time", label: "One-time", suffix: "" },
+  { value: "monthly", label: "Monthly", suffix: "/month" },
+  { value: "quarterly", label: "Quarterly", suffix: "/quarter" },
+  { value: "yearly", label: "Yearly", suffix: "/year" },
+];
+
+export function billingIntervalLabel(interval: string) {
+  return billingIntervals.find((b) => b.value === interval)?.label ?? interval;
+}
+
+// "" for one-time plans, so prices can be rendered as `₹999${suffix}`.
+export function billingIntervalSuffix(interval: string | undefined) {
+  return billingIntervals.find((b) => b.value === interval)?.suffix ?? "";
+}
+
+export function subscriptionStatusBadgeClass(status: string) {
+  if (status === "active" || status === "authenticated") return "bg-green-100 text-green-800";
+  if (status === "paused" || status === "pending") return "bg-amber-100 text-amber-800";
+  if (status === "halted") return "bg-rose-50 text-rose-700";
+  return "bg-gray-100 text-gray-600";
+}
@@ -0,0 +1,47 @@
+import type { CareerApplicationStatus, ScorecardRecommendation } from "../services/platformService";
+
+// Coarse application statuses; pipeline stages map onto these. Keep in sync with server/src/lib/hiring.ts.
+export const careerStatuses: Array<{ value: CareerApplicationStatus; label: string }> = [
+  { value: "new", label: "New" },
+  { value: "reviewing", label: "Reviewing" },
+  { value: "shortlisted", label: "Shortlisted" },
+  { value: "rejected", label: "Rejected" },
+  { value: "hired", label: "Hired" },
+];
+
+export function careerStatusLabel(status: string) {
+  return careerStatuses.find((s) => s.value === status)?.label ?? status;
+}
+
+export const scorecardRecommendations: Array<{ value: ScorecardRecommendation; label: string }> = [
+  { value: "strong_yes", label: "Strong yes" },
+  { value: "yes", label: "Yes" },
+  { value: "no", label: "No" },
+  { value: "strong_no", label: "Strong no" },
+];
+
+export function recommendationLabel(value: string) {
+  return scorecardRecommendations.find((r) => r.value === value)?.label ?? value;
+}
+
+export function recommendationBadgeClass(value: string) {
+  if (value === "strong_yes") return "bg-green-100 text-green-800";
+  if (value === "yes") return "bg-green-50 text-green-700";
+  if (value === "no") return "bg-amber-50 text-amber-800";
+  return "bg-rose-50 text-rose-700";
+}
+
+// Criteria offered on a new scorecard; interviewers can rate any subset.
+export const scorecardCriteria = ["Technical skills", "Problem solving", "Communication", "Culture fit"];
+
+export function emailOutcomeLabel(outcome: string) {
+  if (outcome === "sent") return "Sent";
+  if (outcome === "suppressed") return "Not sent";
+  return "Failed";
+}
+
+export function emailOutcomeBadgeClass(outcome: string) {
+  if (outcome === "sent") return "bg-green-100 text-green-800";
+  if (outcome === "suppressed") return "bg-gray-100 text-gray-600";
+  return "bg-red-100 text-red-700";
+}
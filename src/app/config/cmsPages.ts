@@ -0,0 +1,26 @@
+// Pages that render a <CmsSlot>, so the content editor can suggest keys and
+// open a draft preview on the right URL.
+export const cmsPages: Array<{ key: string; label: string; path: string }> = [
+  { key: "page.home", label: "Home", path: "/" },
+  { key: "page.about", label: "About", path: "/about" },
+  { key: "page.services", label: "Services", path: "/services" },
+  { key: "page.portfolio", label: "Portfolio", path: "/portfolio" },
+  { key: "page.contact", label: "Contact", path: "/contact" },
+  { key: "page.hire-us", label: "Hire Us", path: "/hire-us" },
+  { key: "page.careers", label: "Careers", path: "/careers" },
+  { key: "page.checkout", label: "Checkout", path: "/checkout" },
+  { key: "page.payment-success", label: "Payment success", path: "/payment/success" },
+  { key: "page.auth", label: "Sign in", path: "/auth" },
+  { key: "page.portal-login", label: "Portal login", path: "/portal/login" },
+  { key: "page.portal", label: "Client portal", path: "/portal" },
+  { key: "page.profile", label: "Profile", path: "/profile" },
+  { key: "page.submissions", label: "My submissions", path: "/submissions" },
+];
+
+// Query parameter CmsSlot reads a preview token from.
+export const CMS_PREVIEW_PARAM = "cmsPreview";
+
+export function cmsPreviewUrl(key: string, token: string) {
+  const path = cmsPages.find((p) => p.key === key)?.path ?? "/";
+  return `${path}?${CMS_PREVIEW_PARAM}=${encodeURIComponent(token)}`;
+}
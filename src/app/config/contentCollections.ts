@@ -0,0 +1,271 @@
+import {
+  BarChart3,
+  Cloud,
+  Code,
+  Cpu,
+  Database,
+  Globe,
+  Headphones,
+  Lightbulb,
+  Palette,
+  Shield,
+  Smartphone,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+
+import type { CollectionItemData, ContentCollection, ServiceIconName } from "../services/platformService";
+
+// Marketing collections edited in Admin › Collections. The built-in items
+// below are what the pages show until a collection has published items, and
+// what "Start from built-in content" imports.
+
+export const contentCollections: Array<{ value: ContentCollection; label: string; description: string }> = [
+  { value: "services", label: "Services", description: "Service cards on the Services page; featured ones also appear on Home." },
+  { value: "portfolio", label: "Portfolio", description: "Projects on the Portfolio page; featured ones also appear on Home." },
+  { value: "team", label: "Team", description: "Leadership team on the About page." },
+  { value: "testimonials", label: "Testimonials", description: "Client quotes in the testimonial slider on Home." },
+  { value: "timeline", label: "Timeline", description: "\u201cOur Journey\u201d milestones on the About page." },
+];
+
+export const serviceIcons: Record<ServiceIconName, { icon: LucideIcon; label: string }> = {
+  code: { icon: Code, label: "Code" },
+  smartphone: { icon: Smartphone, label: "Mobile" },
+  cloud: { icon: Cloud, label: "Cloud" },
+  lightbulb: { icon: Lightbulb, label: "Idea" },
+  database: { icon: Database, label: "Database" },
+  shield: { icon: Shield, label: "Security" },
+  zap: { icon: Zap, label: "Performance" },
+  "bar-chart": { icon: BarChart3, label: "Analytics" },
+  globe: { icon: Globe, label: "Web / Marketing" },
+  cpu: { icon: Cpu, label: "AI / Hardware" },
+  palette: { icon: Palette, label: "Design" },
+  headphones: { icon: Headphones, label: "Support" },
+};
+
+export function serviceIcon(name: string | undefined) {
+  return serviceIcons[name as ServiceIconName]?.icon ?? Code;
+}
+
+// Items flagged `featured`, or the first `limit` items when none are.
+export function featuredItems<T extends { featured?: boolean }>(items: T[], limit: number) {
+  const featured = items.filter((item) => item.featured);
+  return (featured.length ? featured : items).slice(0, limit);
+}
+
+export const defaultServices: CollectionItemData["services"][] = [
+  {
+    icon: "code",
+    title: "Web Development",
+    featured: true,
+    description: "Build powerful, scalable web applications with modern frameworks and best practices.",
+    features: [
+      "React, Next.js, Vue.js development",
+      "Progressive Web Apps (PWA)",
+      "E-commerce solutions",
+      "Custom CMS development",
+      "API integration & development",
+    ],
+  },
+  {
+    icon: "smartphone",
+    title: "Mobile App Development",
+    featured: true,
+    description: "Create seamless mobile experiences for iOS and Android platforms.",
+    features: [
+      "Native iOS & Android apps",
+      "Cross-platform with React Native",
+      "Flutter development",
+      "App Store optimization",
+      "Maintenance & updates",
+    ],
+  },
+  {
+    icon: "cloud",
+    title: "Cloud Solutions",
+    featured: true,
+    description: "Leverage the power of cloud infrastructure for scalability and performance.",
+    features: [
+      "AWS, Azure, Google Cloud",
+      "Cloud migration services",
+      "DevOps & CI/CD pipelines",
+      "Serverless architecture",
+      "Infrastructure as Code",
+    ],
+  },
+  {
+    icon: "database",
+    title: "Database Management",
+    description: "Design and optimize robust database solutions for your applications.",
+    features: [
+      "SQL & NoSQL databases",
+      "Database design & modeling",
+      "Performance optimization",
+      "Data migration services",
+      "Backup & recovery solutions",
+    ],
+  },
+  {
+    icon: "shield",
+    title: "Cybersecurity",
+    description: "Protect your digital assets with comprehensive security solutions.",
+    features: [
+      "Security audits & assessments",
+      "Penetration testing",
+      "SSL/TLS implementation",
+      "Data encryption",
+      "Compliance consulting",
+    ],
+  },
+  {
+    icon: "lightbulb",
+    title: "IT Consulting",
+    featured: true,
+    description: "Strategic technology guidance for digital transformation and growth.",
+    features: [
+      "Digital transformation strategy",
+      "Technology stack selection",
+      "Process optimization",
+      "Architecture design",
+      "Project management",
+    ],
+  },
+  {
+    icon: "palette",
+    title: "UI/UX Design",
+    description: "Create beautiful, intuitive user experiences that drive engagement.",
+    features: [
+      "User research & testing",
+      "Wireframing & prototyping",
+      "Responsive design",
+      "Design systems",
+      "Accessibility compliance",
+    ],
+  },
+  {
+    icon: "bar-chart",
+    title: "Data Analytics",
+    description: "Transform data into actionable insights for better decision-making.",
+    features: [
+      "Business intelligence solutions",
+      "Data visualization",
+      "Predictive analytics",
+      "Custom dashboards",
+      "Reporting automation",
+    ],
+  },
+  {
+    icon: "globe",
+    title: "Digital Marketing",
+    description: "Boost your online presence with comprehensive digital marketing strategies.",
+    features: [
+      "SEO optimization",
+      "Content marketing",
+      "Social media management",
+      "Email campaigns",
+      "Analytics & reporting",
+    ],
+  },
+  {
+    icon: "cpu",
+    title: "AI & Machine Learning",
+    description: "Harness the power of AI to automate and optimize your business processes.",
+    features: [
+      "Machine learning models",
+      "Natural language processing",
+      "Computer vision solutions",
+      "Chatbots & virtual assistants",
+      "Predictive modeling",
+    ],
+  },
+  {
+    icon: "zap",
+    title: "Performance Optimization",
+    description: "Maximize the speed and efficiency of your applications and infrastructure.",
+    features: [
+      "Code optimization",
+      "Load balancing",
+      "Caching strategies",
+      "CDN implementation",
+      "Performance monitoring",
+    ],
+  },
+  {
+    icon: "headphones",
+    title: "24/7 Support",
+    description: "Round-the-clock technical support to keep your systems running smoothly.",
+    features: [
+      "Dedicated support team",
+      "Incident management",
+      "Proactive monitoring",
+      "SLA guarantees",
+      "Emergency response",
+    ],
+  },
+];
+
+// The Home page uses shorter copy for its four featured services.
+export const defaultHomeServices: CollectionItemData["services"][] = [
+  {
+    icon: "code",
+    title: "Web Development",
+    description: "Custom web applications built with modern technologies",
+    features: ["React & Next.js", "Responsive Design", "SEO Optimized"],
+  },
+  {
+    icon: "smartphone",
+    title: "Mobile Apps",
+    description: "Native and cross-platform mobile solutions",
+    features: ["iOS & Android", "React Native", "User-Centric Design"],
+  },
+  {
+    icon: "cloud",
+    title: "Cloud Solutions",
+    description: "Scalable cloud infrastructure and migration services",
+    features: ["AWS & Azure", "DevOps", "Auto Scaling"],
+  },
+  {
+    icon: "lightbulb",
+    title: "IT Consulting",
+    description: "Strategic technology consulting for digital transformation",
+    features: ["Digital Strategy", "Tech Stack", "Process Optimization"],
+  },
+];
+
+export const defaultTestimonials: CollectionItemData["testimonials"][] = [
+  {
+    name: "VP Engineering",
+    role: "B2B SaaS",
+    content:
+      "HZ IT Company tightened our delivery process and helped us ship a stable release train. Their architecture guidance and clean handover documentation made our internal team faster immediately.",
+    rating: 5,
+  },
+  {
+    name: "Head of Product",
+    role: "Healthcare startup",
+    content:
+      "They delivered a mobile MVP with great UX and no surprises. Weekly demos, clear scope control, and an emphasis on performance made the rollout smooth.",
+    rating: 5,
+  },
+  {
+    name: "Operations Lead",
+    role: "Logistics platform",
+    content:
+      "We needed reliability and fast iteration. HZ IT Company shipped improvements in small, testable increments and kept stakeholders aligned with simple, consistent reporting.",
+    rating: 5,
+  },
+];
+
+export const defaultTimeline: CollectionItemData["timeline"][] = [
+  { year: "2026", title: "Company Founded", description: "Established with a vision to deliver reliable, affordable, and high-quality digital solutions." },
+];
+
+// Portfolio and team have no built-in items; their sections show a
+// "coming soon" card until items are published.
+export const collectionDefaults: { [C in ContentCollection]: CollectionItemData[C][] } = {
+  services: defaultServices,
+  portfolio: [],
+  team: [],
+  testimonials: defaultTestimonials,
+  timeline: defaultTimeline,
+};
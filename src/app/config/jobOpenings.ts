@@ -0,0 +1,26 @@
+import type { EmploymentType, JobOpening } from "../services/platformService";
+
+// Keep in sync with server/src/lib/jobOpenings.ts.
+export const employmentTypes: Array<{ value: EmploymentType; label: string }> = [
+  { value: "full_time", label: "Full-time" },
+  { value: "part_time", label: "Part-time" },
+  { value: "contract", label: "Contract" },
+  { value: "internship", label: "Internship" },
+];
+
+export function employmentTypeLabel(value: string) {
+  return employmentTypes.find((t) => t.value === value)?.label ?? value;
+}
+
+function lakhs(inr: number) {
+  return `₹${(inr / 100_000).toLocaleString("en-IN", { maximumFractionDigits: 1 })}L`;
+}
+
+// Annual salary range, e.g. "₹3L – ₹5L / year". Null when not disclosed.
+export function salaryRangeLabel(opening: Pick<JobOpening, "salary_min_inr" | "salary_max_inr">) {
+  const { salary_min_inr: min, salary_max_inr: max } = opening;
+  if (min != null && max != null) return min === max ? `${lakhs(min)} / year` : `${lakhs(min)} – ${lakhs(max)} / year`;
+  if (min != null) return `From ${lakhs(min)} / year`;
+  if (max != null) return `Up to ${lakhs(max)} / year`;
+  return null;
+}
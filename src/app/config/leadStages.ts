@@ -0,0 +1,29 @@
+import type { LeadStage } from "../services/platformService";
+
+// Sales pipeline for contact and hire-us leads. Keep in sync with server/src/lib/leads.ts.
+export const leadStages: Array<{ value: LeadStage; label: string; badgeClass: string }> = [
+  { value: "new", label: "New", badgeClass: "bg-blue-50 text-blue-700" },
+  { value: "contacted", label: "Contacted", badgeClass: "bg-sky-50 text-sky-700" },
+  { value: "qualified", label: "Qualified", badgeClass: "bg-indigo-50 text-indigo-700" },
+  { value: "proposal", label: "Proposal", badgeClass: "bg-amber-50 text-amber-800" },
+  { value: "won", label: "Won", badgeClass: "bg-green-100 text-green-800" },
+  { value: "lost", label: "Lost", badgeClass: "bg-gray-100 text-gray-600" },
+];
+
+export function leadStageLabel(stage: string) {
+  return leadStages.find((s) => s.value === stage)?.label ?? stage;
+}
+
+export function leadStageBadgeClass(stage: string) {
+  return leadStages.find((s) => s.value === stage)?.badgeClass ?? "bg-gray-100 text-gray-600";
+}
+
+// Offered when a lead is marked lost; admins can also type their own.
+export const leadLostReasons = [
+  "Budget too low",
+  "Went with a competitor",
+  "Timing / not ready",
+  "No response",
+  "Not a fit for our services",
+  "Duplicate or spam",
+];
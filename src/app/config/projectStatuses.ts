@@ -0,0 +1,22 @@
+import type { ProjectStatus } from "../services/platformService";
+
+// Project lifecycle shown to clients. Keep in sync with server/src/lib/projectStatus.ts.
+export const projectStatuses: Array<{ value: ProjectStatus; label: string }> = [
+  { value: "received", label: "Received" },
+  { value: "in_progress", label: "In progress" },
+  { value: "blocked", label: "Blocked" },
+  { value: "delivered", label: "Delivered" },
+  { value: "closed", label: "Closed" },
+];
+
+export function projectStatusLabel(status: string) {
+  return projectStatuses.find((s) => s.value === status)?.label ?? status;
+}
+
+export function projectStatusBadgeClass(status: string) {
+  if (status === "in_progress") return "bg-blue-50 text-blue-700";
+  if (status === "blocked") return "bg-rose-50 text-rose-700";
+  if (status === "delivered") return "bg-green-100 text-green-800";
+  if (status === "closed") return "bg-gray-100 text-gray-600";
+  return "bg-amber-50 text-amber-800";
+}
@@ -0,0 +1,34 @@
+// Publish windows for CMS keys and blocks. The API applies the same rules
+// (server/src/lib/siteContent.ts) before serving content.
+export type ScheduleState = "live" | "upcoming" | "expired";
+
+function parseTime(value: string | null | undefined) {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+export function scheduleState(publishAt?: string | null, unpublishAt?: string | null, now = Date.now()): ScheduleState {
+  const start = parseTime(publishAt);
+  const end = parseTime(unpublishAt);
+  if (end !== null && end <= now) return "expired";
+  if (start !== null && start > now) return "upcoming";
+  return "live";
+}
+
+export function hasSchedule(publishAt?: string | null, unpublishAt?: string | null) {
+  return parseTime(publishAt) !== null || parseTime(unpublishAt) !== null;
+}
+
+// <input type="datetime-local"> works in local time without a zone.
+export function toLocalInput(value?: string | null) {
+  const time = parseTime(value);
+  if (time === null) return "";
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
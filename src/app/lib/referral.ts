@@ -0,0 +1,30 @@
+// A ?ref=CODE link is remembered for a while so the referral still counts when
+// the visitor browses around and signs up or checks out later.
+const STORAGE_KEY = "hz_referral";
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CODE_PATTERN = /^[A-Za-z0-9]{4,32}$/;
+
+export function captureReferralCode(search: string) {
+  const code = new URLSearchParams(search).get("ref")?.trim();
+  if (!code || !CODE_PATTERN.test(code)) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ code: code.toUpperCase(), expiresAt: Date.now() + TTL_MS }));
+  } catch {
+    // Storage unavailable (private mode); attribution is best-effort.
+  }
+}
+
+export function getStoredReferralCode() {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw) as { code?: string; expiresAt?: number };
+    if (!parsed.code || !parsed.expiresAt || parsed.expiresAt < Date.now()) {
+      localStorage.removeItem(STORAGE_KEY);
+      return undefined;
+    }
+    return parsed.code;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+
+import {
+  fetchContentCollection,
+  type CollectionItemData,
+  type ContentCollection,
+} from "../services/platformService";
+
+// Published items of a content collection, or `fallback` while loading, when
+// the collection is empty and when the API is unavailable. `fromCms` tells the
+// two apart.
+export function useContentCollection<C extends ContentCollection>(collection: C, fallback: CollectionItemData[C][]) {
+  const [items, setItems] = useState<CollectionItemData[C][] | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchContentCollection(collection)
+      .then((r) => {
+        if (mounted) setItems(r.items.map((item) => item.data));
+      })
+      .catch(() => {
+        // Non-blocking: keep the built-in content.
+        if (mounted) setItems([]);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [collection]);
+
+  const fromCms = !!items && items.length > 0;
+  return { items: fromCms ? items : fallback, fromCms, loaded: items !== null };
+}
@@ -0,0 +1,40 @@
+export type VideoProvider = "youtube" | "vimeo";
+
+// Video id from a pasted YouTube or Vimeo link (watch, share, shorts and embed
+// URLs), or null when the link is not one we can embed.
+export function parseVideoUrl(input: string): { provider: VideoProvider; videoId: string } | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  const host = url.hostname.replace(/^www\./, "").replace(/^m\./, "");
+
+  if (host === "youtu.be") {
+    const id = url.pathname.slice(1).split("/")[0];
+    return /^[A-Za-z0-9_-]{11}$/.test(id) ? { provider: "youtube", videoId: id } : null;
+  }
+  if (host === "youtube.com" || host === "youtube-nocookie.com") {
+    const id = url.searchParams.get("v") ?? url.pathname.match(/^\/(?:embed|shorts|live)\/([^/?]+)/)?.[1] ?? "";
+    return /^[A-Za-z0-9_-]{11}$/.test(id) ? { provider: "youtube", videoId: id } : null;
+  }
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const id = url.pathname.match(/(?:^|\/)(\d{1,12})(?:\/|$)/)?.[1];
+    return id ? { provider: "vimeo", videoId: id } : null;
+  }
+  return null;
+}
+
+// Privacy-enhanced player URLs: YouTube's no-cookie domain and Vimeo's
+// do-not-track flag, so nothing is set until the visitor presses play.
+export function videoEmbedUrl(provider: VideoProvider, videoId: string) {
+  const id = encodeURIComponent(videoId);
+  return provider === "youtube"
+    ? `https://www.youtube-nocookie.com/embed/${id}?rel=0`
+    : `https://player.vimeo.com/video/${id}?dnt=1`;
+}
+
+export function videoWatchUrl(provider: VideoProvider, videoId: string) {
+  return provider === "youtube" ? `https://www.youtube.com/watch?v=${videoId}` : `https://vimeo.com/${videoId}`;
+}
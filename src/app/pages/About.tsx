@@ -1,12 +1,14 @@
 import { motion } from "motion/react";
-import { Target, Eye, Award, Users, Zap, Shield } from "lucide-react";
+import { Target, Eye, Award, Users, Zap, Shield, Linkedin } from "lucide-react";
 import { Seo } from "../components/Seo";
 import { CmsSlot } from "../components/cms/CmsBlocks";
+import { defaultTimeline } from "../config/contentCollections";
+import { useContentCollection } from "../lib/useContentCollection";
 
 export function About() {
-  const timeline = [
-    { year: "2026", title: "Company Founded", description: "Established with a vision to deliver reliable, affordable, and high-quality digital solutions." },
-  ];
+  // Admin-managed collections, with built-in fallbacks.
+  const { items: timeline } = useContentCollection("timeline", defaultTimeline);
+  const { items: team } = useContentCollection("team", []);
 
   const values = [
     { icon: Zap, title: "Innovation", description: "Embracing cutting-edge technologies" },
@@ -15,13 +17,6 @@ export function About() {
     { icon: Award, title: "Excellence", description: "Commitment to quality delivery" },
   ];
 
-  const team = [
-    { name: "John Anderson", role: "CEO & Founder", experience: "15+ years" },
-    { name: "Sarah Williams", role: "CTO", experience: "12+ years" },
-    { name: "Michael Brown", role: "Head of Development", experience: "10+ years" },
-    { name: "Emily Davis", role: "Design Director", experience: "8+ years" },
-  ];
-
   return (
     <div className="min-h-screen">
       <Seo
@@ -344,17 +339,60 @@ export function About() {
             </p>
           </motion.div>
 
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            whileInView={{ opacity: 1, y: 0 }}
-            viewport={{ once: true }}
-            className="mx-auto max-w-2xl"
-          >
-            <div className="rounded-3xl border border-gray-200 bg-gray-50 px-8 py-10 text-center shadow-sm">
-              <div className="text-2xl font-bold text-gray-900 font-poppins">Coming soon</div>
-              <p className="mt-2 text-gray-600">We’ll share our leadership team details shortly.</p>
+          {team.length ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
+              {team.map((member, index) => (
+                <motion.div
+                  key={index}
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true }}
+                  transition={{ delay: index * 0.1 }}
+                  className="rounded-2xl bg-gray-50 p-6 text-center shadow-sm hover:shadow-lg transition-shadow"
+                >
+                  {member.imageUrl ? (
+                    <img
+                      src={member.imageUrl}
+                      alt={member.name}
+                      loading="lazy"
+                      className="mx-auto h-32 w-32 rounded-full object-cover shadow-md"
+                    />
+                  ) : (
+                    <div className="mx-auto flex h-32 w-32 items-center justify-center rounded-full bg-gradient-to-br from-blue-600 to-blue-700 text-4xl font-bold text-white font-poppins shadow-md">
+                      {member.name.charAt(0)}
+                    </div>
+                  )}
+                  <h3 className="mt-5 text-xl font-bold text-gray-900">{member.name}</h3>
+                  <div className="mt-1 font-medium text-blue-600">{member.role}</div>
+                  {member.experience ? <div className="mt-1 text-sm text-gray-500">{member.experience}</div> : null}
+                  {member.bio ? <p className="mt-3 text-sm text-gray-600 leading-relaxed">{member.bio}</p> : null}
+                  {member.linkedinUrl ? (
+                    <a
+                      href={member.linkedinUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label={`${member.name} on LinkedIn`}
+                      className="mt-4 inline-flex text-gray-400 hover:text-blue-600 transition-colors"
+                    >
+                      <Linkedin size={20} />
+                    </a>
+                  ) : null}
+                </motion.div>
+              ))}
             </div>
-          </motion.div>
+          ) : (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              className="mx-auto max-w-2xl"
+            >
+              <div className="rounded-3xl border border-gray-200 bg-gray-50 px-8 py-10 text-center shadow-sm">
+                <div className="text-2xl font-bold text-gray-900 font-poppins">Coming soon</div>
+                <p className="mt-2 text-gray-600">We’ll share our leadership team details shortly.</p>
+              </div>
+            </motion.div>
+          )}
         </div>
       </section>
 
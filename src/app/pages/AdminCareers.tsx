@@ -4,22 +4,73 @@ import { motion } from "motion/react";
 import { Seo } from "../components/Seo";
 import { useAuth } from "../auth/AuthProvider";
 import { AdminShell } from "../components/admin/AdminShell";
+import { CandidateTimeline } from "../components/admin/CandidateTimeline";
+import { HiringBoard } from "../components/admin/HiringBoard";
+import { JobOpeningsManager } from "../components/admin/JobOpeningsManager";
+import { CareerEmailTemplatesManager } from "../components/admin/CareerEmailTemplatesManager";
+import { careerStatuses } from "../config/careerStatuses";
 import {
+  backfillAdminCareerResumes,
+  bulkSendAdminCareerEmails,
+  bulkUpdateAdminCareerStatus,
   createAdminCareerDownloadUrl,
+  downloadAdminCareerResumesZip,
+  exportAdminCareers,
   fetchAdminCareers,
+  reindexAdminCareerResume,
   type CareerApplicationStatus,
+  type CareerEmailLogEntry,
   updateAdminCareerStatus
 } from "../services/platformService";
 
 const statuses: Array<{ label: string; value: CareerApplicationStatus | "all" }> = [
   { label: "All", value: "all" },
-  { label: "New", value: "new" },
-  { label: "Reviewing", value: "reviewing" },
-  { label: "Shortlisted", value: "shortlisted" },
-  { label: "Rejected", value: "rejected" },
-  { label: "Hired", value: "hired" }
+  ...careerStatuses
 ];
 
+// Search snippets come back with matched terms wrapped in ⟦ ⟧.
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/(⟦[^⟧]*⟧)/g);
+  return (
+    <div className="mt-1 max-w-md text-xs text-gray-600">
+      {parts.map((p, i) =>
+        p.startsWith("⟦") ? (
+          <mark key={i} className="rounded bg-amber-100 px-0.5 text-gray-900">
+            {p.slice(1, -1)}
+          </mark>
+        ) : (
+          <span key={i}>{p}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+function emailNotice(email: CareerEmailLogEntry | null | undefined) {
+  if (!email) return null;
+  if (email.outcome === "sent") return `Status email sent to ${email.to_email}.`;
+  if (email.outcome === "suppressed") return "Status updated; no email was sent to the candidate.";
+  return `Status updated, but the email to ${email.to_email} failed: ${email.error ?? "unknown error"}`;
+}
+
+function emailCounts(emails: Record<CareerEmailLogEntry["outcome"], number>) {
+  const parts = [
+    emails.sent ? `${emails.sent} emailed` : null,
+    emails.suppressed ? `${emails.suppressed} not emailed` : null,
+    emails.failed ? `${emails.failed} email failures` : null
+  ].filter(Boolean);
+  return parts.length ? ` (${parts.join(", ")})` : "";
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
 export function AdminCareers() {
   const { isAuthed, role } = useAuth();
 
@@ -29,10 +80,18 @@ export function AdminCareers() {
   const [items, setItems] = useState<any[]>([]);
   const [q, setQ] = useState("");
   const [status, setStatus] = useState<CareerApplicationStatus | "all">("all");
+  const [view, setView] = useState<"list" | "board" | "openings" | "emails">("list");
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [emailMode, setEmailMode] = useState<"default" | "send" | "suppress">("default");
+  const notify = emailMode === "default" ? undefined : emailMode === "send";
+  const [selected, setSelected] = useState<Set<number>>(new Set());
 
   useEffect(() => {
     if (!isAuthed) return;
     if (role !== "admin") return;
+    if (view !== "list") return;
 
     setError(null);
     setLoading(true);
@@ -42,10 +101,15 @@ export function AdminCareers() {
       status: status === "all" ? undefined : status,
       limit: 200
     })
-      .then((r: any) => setItems(r.items))
+      .then((r: any) => {
+        setItems(r.items);
+        // Keep only selections that are still in the filtered list.
+        const visible = new Set<number>(r.items.map((i: any) => i.id));
+        setSelected((prev) => new Set([...prev].filter((id) => visible.has(id))));
+      })
       .catch((e: any) => setError(e?.message ?? "Failed to load"))
       .finally(() => setLoading(false));
-  }, [isAuthed, role, q, status]);
+  }, [isAuthed, role, q, status, view, reloadKey]);
 
   const rows = useMemo(() => items ?? [], [items]);
 
@@ -60,12 +124,107 @@ export function AdminCareers() {
     }
   }
 
+  async function reindex(id: number) {
+    setError(null);
+    try {
+      const r = await reindexAdminCareerResume(id);
+      if (!r.indexed) setError(r.resume_extract_error ?? "Resume text could not be extracted");
+      setReloadKey((k) => k + 1);
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to extract resume text");
+    }
+  }
+
+  async function backfill() {
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    try {
+      const r = await backfillAdminCareerResumes();
+      setNotice(
+        r.processed === 0
+          ? "All resumes are already indexed."
+          : `Indexed ${r.indexed} of ${r.processed} resumes${r.remaining ? `; ${r.remaining} still pending` : ""}.`
+      );
+      setReloadKey((k) => k + 1);
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to index resumes");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleSelected(id: number) {
+    setSelected((prev) => {
+      const nextSet = new Set(prev);
+      if (nextSet.has(id)) nextSet.delete(id);
+      else nextSet.add(id);
+      return nextSet;
+    });
+  }
+
+  async function runBulk(action: () => Promise<string>, fallback: string) {
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    try {
+      setNotice(await action());
+    } catch (e: any) {
+      setError(e?.message ?? fallback);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function bulkStatus(next: CareerApplicationStatus) {
+    const ids = [...selected];
+    if (!window.confirm(`Set ${ids.length} application(s) to ${next}?`)) return;
+    void runBulk(async () => {
+      const r = await bulkUpdateAdminCareerStatus(ids, next, notify);
+      setReloadKey((k) => k + 1);
+      const skipped = r.skipped.length ? `; skipped ${r.skipped.map((s) => `#${s.id} (${s.error})`).join(", ")}` : "";
+      return `Updated ${r.updated} application(s)${emailCounts(r.emails)}${skipped}.`;
+    }, "Bulk update failed");
+  }
+
+  function bulkRejectionEmails() {
+    const ids = [...selected];
+    if (!window.confirm(`Send the rejection email to the selected candidates who are already rejected?`)) return;
+    void runBulk(async () => {
+      const r = await bulkSendAdminCareerEmails(ids, "rejected");
+      setReloadKey((k) => k + 1);
+      return `Rejection emails${emailCounts(r.emails) || " (none sent)"}${r.skipped ? `; ${r.skipped} not rejected or withdrawn` : ""}.`;
+    }, "Failed to send rejection emails");
+  }
+
+  function downloadZip() {
+    const ids = [...selected];
+    void runBulk(async () => {
+      saveBlob(await downloadAdminCareerResumesZip(ids), `resumes-${new Date().toISOString().slice(0, 10)}.zip`);
+      return `Downloaded resumes for ${ids.length} application(s).`;
+    }, "Failed to download resumes");
+  }
+
+  function exportFile(format: "csv" | "xlsx", ids?: number[]) {
+    void runBulk(async () => {
+      const blob = await exportAdminCareers({
+        format,
+        q: q.trim() || undefined,
+        status: status === "all" ? undefined : status,
+        ids
+      });
+      saveBlob(blob, `career-applications-${new Date().toISOString().slice(0, 10)}.${format}`);
+      return ids ? `Exported ${ids.length} application(s).` : "Exported the filtered applications.";
+    }, "Export failed");
+  }
+
   async function setRowStatus(id: number, next: CareerApplicationStatus) {
     if (!isAuthed) return;
     setError(null);
     setLoading(true);
     try {
-      await updateAdminCareerStatus(id, next);
+      const result = await updateAdminCareerStatus(id, next, notify);
+      setNotice(emailNotice(result.email));
       const r = await fetchAdminCareers({
         q: q.trim() || undefined,
         status: status === "all" ? undefined : status,
@@ -96,120 +255,279 @@ export function AdminCareers() {
         >
           <div className="text-sm text-gray-600">Applications</div>
           <div className="text-2xl md:text-3xl font-bold font-poppins">Career applications</div>
-          <div className="mt-1 text-sm text-gray-600">Search, update status, and download resumes.</div>
+          <div className="mt-1 text-sm text-gray-600">Search, move candidates through the pipeline, schedule interviews, and download resumes.</div>
         </motion.div>
       </div>
 
       {error ? <div className="mb-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-rose-800">{error}</div> : null}
+      {notice ? <div className="mb-4 rounded-xl border border-green-200 bg-green-50 px-4 py-3 text-green-800">{notice}</div> : null}
 
-      <div className="rounded-2xl border border-gray-200 bg-white shadow-sm p-4 sm:p-6">
-        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-          <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
-            <input
-              className="w-full sm:w-80 min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 placeholder:text-gray-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
-              placeholder="Search (name, email, phone, position)…"
-              value={q}
-              onChange={(e) => setQ(e.target.value)}
-            />
-            <select
-              className="w-full sm:w-auto min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
-              value={status}
-              onChange={(e) => setStatus(e.target.value as any)}
-              aria-label="Filter by status"
-              title="Filter by status"
+      <div className="mb-4 inline-flex rounded-xl border border-gray-200 bg-white p-1 text-sm font-semibold">
+        {(["list", "board", "openings", "emails"] as const).map((v) => (
+          <button
+            key={v}
+            type="button"
+            onClick={() => setView(v)}
+            className={`rounded-lg px-4 py-2 ${view === v ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-gray-50"}`}
+          >
+            {v === "list" ? "List" : v === "board" ? "Pipeline" : v === "openings" ? "Openings" : "Emails"}
+          </button>
+        ))}
+      </div>
+      {view === "list" || view === "board" ? (
+        <select
+          className="mb-4 ml-3 min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900"
+          value={emailMode}
+          onChange={(e) => setEmailMode(e.target.value as typeof emailMode)}
+          aria-label="Candidate emails on status change"
+          title="Candidate emails on status change"
+        >
+          <option value="default">Status emails: template default</option>
+          <option value="send">Status emails: always send</option>
+          <option value="suppress">Status emails: don't send</option>
+        </select>
+      ) : null}
+
+      {view === "emails" ? (
+        <div className="rounded-2xl border border-gray-200 bg-white shadow-sm p-4 sm:p-6">
+          <CareerEmailTemplatesManager />
+        </div>
+      ) : view === "openings" ? (
+        <div className="rounded-2xl border border-gray-200 bg-white shadow-sm p-4 sm:p-6">
+          <JobOpeningsManager />
+        </div>
+      ) : view === "board" ? (
+        <div className="rounded-2xl border border-gray-200 bg-white shadow-sm p-4 sm:p-6">
+          <HiringBoard reloadKey={reloadKey} onOpen={setOpenId} notify={notify} onEmail={(email) => setNotice(emailNotice(email))} />
+        </div>
+      ) : (
+        <div className="rounded-2xl border border-gray-200 bg-white shadow-sm p-4 sm:p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+              <input
+                className="w-full sm:w-80 min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 placeholder:text-gray-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
+                placeholder="Search resumes, skills, name, email, phone…"
+                value={q}
+                onChange={(e) => setQ(e.target.value)}
+              />
+              <select
+                className="w-full sm:w-auto min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
+                value={status}
+                onChange={(e) => setStatus(e.target.value as any)}
+                aria-label="Filter by status"
+                title="Filter by status"
+              >
+                {statuses.map((s) => (
+                  <option key={s.value} value={s.value} className="text-gray-900">
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-4">
+            {loading ? <div className="text-sm text-gray-600">Loading…</div> : null}
+            <button
+              type="button"
+              onClick={() => void backfill()}
+              disabled={loading}
+              className="text-sm font-semibold text-blue-700 hover:underline disabled:opacity-60"
             >
-              {statuses.map((s) => (
-                <option key={s.value} value={s.value} className="text-gray-900">
-                  {s.label}
-                </option>
-              ))}
-            </select>
+              Index pending resumes
+            </button>
+            <button
+              type="button"
+              onClick={() => exportFile("csv")}
+              disabled={loading}
+              className="text-sm font-semibold text-blue-700 hover:underline disabled:opacity-60"
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => exportFile("xlsx")}
+              disabled={loading}
+              className="text-sm font-semibold text-blue-700 hover:underline disabled:opacity-60"
+            >
+              Export XLSX
+            </button>
           </div>
-          {loading ? <div className="text-sm text-gray-600">Loading…</div> : null}
-        </div>
+          </div>
+
+          {selected.size > 0 ? (
+            <div className="mt-4 flex flex-wrap items-center gap-3 rounded-xl border border-blue-200 bg-blue-50 px-4 py-3 text-sm">
+              <span className="font-semibold text-gray-900">{selected.size} selected</span>
+              <select
+                className="min-h-10 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900"
+                value=""
+                disabled={loading}
+                onChange={(e) => {
+                  if (e.target.value) bulkStatus(e.target.value as CareerApplicationStatus);
+                }}
+                aria-label="Set status for selected applications"
+              >
+                <option value="">Set status…</option>
+                {careerStatuses.map((s) => (
+                  <option key={s.value} value={s.value}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+              <button type="button" disabled={loading} className="font-semibold text-blue-700 hover:underline disabled:opacity-60" onClick={bulkRejectionEmails}>
+                Send rejection email
+              </button>
+              <button type="button" disabled={loading} className="font-semibold text-blue-700 hover:underline disabled:opacity-60" onClick={downloadZip}>
+                Download resumes (ZIP)
+              </button>
+              <button
+                type="button"
+                disabled={loading}
+                className="font-semibold text-blue-700 hover:underline disabled:opacity-60"
+                onClick={() => exportFile("csv", [...selected])}
+              >
+                Export selected
+              </button>
+              <button type="button" className="text-gray-600 hover:underline" onClick={() => setSelected(new Set())}>
+                Clear
+              </button>
+            </div>
+          ) : null}
 
-        <div className="mt-6 overflow-auto rounded-2xl border border-gray-200 bg-white">
-          <table className="min-w-[980px] w-full text-sm">
-            <thead className="bg-gray-50 text-gray-600">
-              <tr>
-                <th className="text-left px-4 py-3">Created</th>
-                <th className="text-left px-4 py-3">Candidate</th>
-                <th className="text-left px-4 py-3">Position</th>
-                <th className="text-left px-4 py-3">Status</th>
-                <th className="text-left px-4 py-3">Resume</th>
-                <th className="text-left px-4 py-3">Message</th>
-              </tr>
-            </thead>
-            <tbody>
-              {rows.length === 0 ? (
+          <div className="mt-6 overflow-auto rounded-2xl border border-gray-200 bg-white">
+            <table className="min-w-[980px] w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
                 <tr>
-                  <td className="px-4 py-4 text-gray-600" colSpan={6}>
-                    No applications found.
-                  </td>
+                  <th className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={rows.length > 0 && rows.every((r) => selected.has(r.id))}
+                      onChange={(e) => setSelected(e.target.checked ? new Set(rows.map((r) => r.id)) : new Set())}
+                      aria-label="Select all applications"
+                    />
+                  </th>
+                  <th className="text-left px-4 py-3">Created</th>
+                  <th className="text-left px-4 py-3">Candidate</th>
+                  <th className="text-left px-4 py-3">Position</th>
+                  <th className="text-left px-4 py-3">Status</th>
+                  <th className="text-left px-4 py-3">Resume</th>
+                  <th className="text-left px-4 py-3">Message</th>
                 </tr>
-              ) : (
-                rows.map((r) => (
-                  <tr key={r.id} className="border-t border-gray-200">
-                    <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
-                      {r.created_at ? new Date(r.created_at).toLocaleString() : "—"}
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td className="px-4 py-4 text-gray-600" colSpan={7}>
+                      No applications found.
                     </td>
-                    <td className="px-4 py-3">
-                      <div className="font-semibold text-gray-900">{r.full_name}</div>
-                      <div className="text-gray-600">
-                        {r.email}
-                        {r.phone ? ` • ${r.phone}` : ""}
-                      </div>
-                    </td>
-                    <td className="px-4 py-3 text-gray-700">{r.position}</td>
-                    <td className="px-4 py-3">
-                      <select
-                        className="min-h-10 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
-                        value={r.status}
-                        onChange={(e) => setRowStatus(r.id, e.target.value as CareerApplicationStatus)}
-                        disabled={loading}
-                        aria-label="Update application status"
-                        title="Update application status"
-                      >
-                        {statuses
-                          .filter((s) => s.value !== "all")
-                          .map((s) => (
-                            <option key={s.value} value={s.value} className="text-gray-900">
-                              {s.label}
-                            </option>
-                          ))}
-                      </select>
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="flex flex-wrap gap-2">
+                  </tr>
+                ) : (
+                  rows.map((r) => (
+                    <tr key={r.id} className="border-t border-gray-200">
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(r.id)}
+                          onChange={() => toggleSelected(r.id)}
+                          aria-label={`Select ${r.full_name}`}
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                        {r.created_at ? new Date(r.created_at).toLocaleString() : "—"}
+                      </td>
+                      <td className="px-4 py-3">
                         <button
                           type="button"
-                          onClick={() => download(r.id, "resume")}
-                          className="min-h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+                          className="text-left font-semibold text-gray-900 hover:underline"
+                          onClick={() => setOpenId(r.id)}
                         >
-                          Download Resume
+                          {r.full_name}
                         </button>
-                        <button
-                          type="button"
-                          onClick={() => download(r.id, "cv")}
-                          className="min-h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+                        <div className="text-gray-600">
+                          {r.email}
+                          {r.phone ? ` • ${r.phone}` : ""}
+                        </div>
+                        {r.linked_applications > 0 ? (
+                          <div className="mt-1 text-xs text-gray-500">
+                            +{r.linked_applications} other application{r.linked_applications === 1 ? "" : "s"} by this candidate
+                          </div>
+                        ) : null}
+                        {typeof r.snippet === "string" && r.snippet.includes("⟦") ? <Snippet text={r.snippet} /> : null}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{r.position}</td>
+                      <td className="px-4 py-3">
+                        <select
+                          className="min-h-10 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
+                          value={r.status}
+                          onChange={(e) => setRowStatus(r.id, e.target.value as CareerApplicationStatus)}
+                          disabled={loading}
+                          aria-label="Update application status"
+                          title="Update application status"
                         >
-                          Download CV
-                        </button>
-                      </div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <details className="text-gray-800">
-                        <summary className="cursor-pointer select-none text-gray-600 hover:text-gray-900">View</summary>
-                        <div className="mt-2 whitespace-pre-wrap text-gray-800">{r.message || "—"}</div>
-                      </details>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
+                          {statuses
+                            .filter((s) => s.value !== "all")
+                            .map((s) => (
+                              <option key={s.value} value={s.value} className="text-gray-900">
+                                {s.label}
+                              </option>
+                            ))}
+                        </select>
+                        {r.stage_label ? <div className="mt-1 text-xs text-gray-500">Stage: {r.stage_label}</div> : null}
+                        {r.withdrawn_at ? <div className="mt-1 text-xs font-semibold text-amber-700">Withdrawn by candidate</div> : null}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            type="button"
+                            onClick={() => download(r.id, "resume")}
+                            className="min-h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+                          >
+                            Download Resume
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => download(r.id, "cv")}
+                            className="min-h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50"
+                          >
+                            Download CV
+                          </button>
+                        </div>
+                        {r.resume_path && (!r.resume_extracted_at || r.resume_extract_error) ? (
+                          <div className="mt-1 text-xs text-gray-500">
+                            {r.resume_extract_error ? "Text not searchable" : "Not indexed yet"}
+                            {" · "}
+                            <button
+                              type="button"
+                              onClick={() => void reindex(r.id)}
+                              className="font-semibold text-blue-700 hover:underline"
+                              title={r.resume_extract_error ?? undefined}
+                            >
+                              Extract text
+                            </button>
+                          </div>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3">
+                        <details className="text-gray-800">
+                          <summary className="cursor-pointer select-none text-gray-600 hover:text-gray-900">View</summary>
+                          <div className="mt-2 whitespace-pre-wrap text-gray-800">{r.message || "—"}</div>
+                        </details>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
+
+      {openId !== null ? (
+        <CandidateTimeline
+          applicationId={openId}
+          onClose={() => setOpenId(null)}
+          onChanged={() => setReloadKey((k) => k + 1)}
+          onOpen={setOpenId}
+        />
+      ) : null}
     </AdminShell>
   );
 }
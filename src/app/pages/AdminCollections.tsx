@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+
+import { Seo } from "../components/Seo";
+import { useAuth } from "../auth/AuthProvider";
+import { AdminShell } from "../components/admin/AdminShell";
+import {
+  cleanCollectionDraft,
+  CollectionItemFields,
+  collectionItemSummary,
+  emptyCollectionItems,
+  type CollectionDraft,
+} from "../components/admin/CollectionItemFields";
+import { collectionDefaults, contentCollections } from "../config/contentCollections";
+import {
+  createAdminCollectionItem,
+  deleteAdminCollectionItem,
+  fetchAdminCollection,
+  fetchAdminCollectionCounts,
+  importAdminCollection,
+  reorderAdminCollection,
+  updateAdminCollectionItem,
+  type AdminCollectionItem,
+  type ContentCollection,
+} from "../services/platformService";
+
+function newDraft(collection: ContentCollection) {
+  return { collection, data: { ...emptyCollectionItems[collection] } } as CollectionDraft;
+}
+
+// Optional fields come back missing from the API; the editors expect strings.
+function itemDraft(item: AdminCollectionItem) {
+  return { collection: item.collection, data: { ...emptyCollectionItems[item.collection], ...item.data } } as CollectionDraft;
+}
+
+export function AdminCollections() {
+  const { isAuthed, role } = useAuth();
+
+  const [active, setActive] = useState<ContentCollection>("services");
+  const [items, setItems] = useState<AdminCollectionItem[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<ContentCollection, { total: number; published: number }>>>({});
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<CollectionDraft>(() => newDraft("services"));
+  const [isPublished, setIsPublished] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const meta = contentCollections.find((c) => c.value === active) ?? contentCollections[0];
+  const builtIn = collectionDefaults[active];
+  const published = counts[active]?.published ?? 0;
+
+  function load(collection = active) {
+    setError(null);
+    setLoading(true);
+    Promise.all([fetchAdminCollection(collection), fetchAdminCollectionCounts()])
+      .then(([list, summary]) => {
+        setItems(list.items);
+        setCounts(Object.fromEntries(summary.items.map((c) => [c.collection, c])));
+      })
+      .catch((e: any) => setError(e?.message ?? "Failed to load collection"))
+      .finally(() => setLoading(false));
+  }
+
+  useEffect(() => {
+    if (!isAuthed || role !== "admin") return;
+    load(active);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthed, role, active]);
+
+  function resetForm(collection = active) {
+    setEditingId(null);
+    setDraft(newDraft(collection));
+    setIsPublished(true);
+  }
+
+  function switchTo(collection: ContentCollection) {
+    if (collection === active) return;
+    setItems([]);
+    setActive(collection);
+    resetForm(collection);
+  }
+
+  function startEdit(item: AdminCollectionItem) {
+    setEditingId(Number(item.id));
+    setDraft(itemDraft(item));
+    setIsPublished(item.is_published);
+    setError(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function save() {
+    const cleaned = cleanCollectionDraft(draft);
+    setError(null);
+    setSaving(true);
+    try {
+      const input = { data: cleaned.data, isPublished };
+      if (editingId) await updateAdminCollectionItem(cleaned.collection, editingId, input);
+      else await createAdminCollectionItem(cleaned.collection, input);
+      resetForm();
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to save item");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function togglePublished(item: AdminCollectionItem) {
+    setError(null);
+    try {
+      await updateAdminCollectionItem(active, Number(item.id), { data: item.data, isPublished: !item.is_published });
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to update item");
+    }
+  }
+
+  async function remove(item: AdminCollectionItem) {
+    const { title } = collectionItemSummary(itemDraft(item));
+    if (!window.confirm(`Delete "${title}"? This cannot be undone.`)) return;
+    setError(null);
+    try {
+      await deleteAdminCollectionItem(active, Number(item.id));
+      if (editingId === Number(item.id)) resetForm();
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to delete item");
+    }
+  }
+
+  async function move(index: number, dir: -1 | 1) {
+    const target = index + dir;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+    setBusy(true);
+    try {
+      await reorderAdminCollection(active, next.map((i) => Number(i.id)));
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to reorder");
+      load();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function importBuiltIn() {
+    if (!window.confirm(`Copy the ${builtIn.length} built-in ${meta.label.toLowerCase()} items into this collection so you can edit them?`)) return;
+    setError(null);
+    setBusy(true);
+    try {
+      await importAdminCollection(active, builtIn);
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!isAuthed || role !== "admin") return <div className="p-10 text-center">Access Denied</div>;
+
+  return (
+    <AdminShell title="Collections">
+      <Seo title="Admin Collections" description="Manage services, portfolio, team, testimonials and timeline." path="/admin/collections" />
+
+      <div className="mb-6 rounded-2xl border border-gray-200 bg-white shadow-sm p-6">
+        <div className="text-sm text-gray-500 font-medium">Content</div>
+        <div className="text-2xl md:text-3xl font-bold font-poppins mt-0.5">Collections</div>
+        <div className="mt-1 text-sm text-gray-500">Structured marketing content shown on the Home, Services, Portfolio and About pages.</div>
+      </div>
+
+      <div className="mb-6 flex flex-wrap gap-2">
+        {contentCollections.map((c) => {
+          const count = counts[c.value];
+          return (
+            <button
+              key={c.value}
+              type="button"
+              onClick={() => switchTo(c.value)}
+              className={`min-h-10 rounded-xl border px-4 text-sm font-semibold transition-colors ${
+                active === c.value ? "border-blue-600 bg-blue-600 text-white" : "border-gray-200 bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {c.label}
+              {count ? <span className="ml-1.5 opacity-70">{count.published}/{count.total}</span> : null}
+            </button>
+          );
+        })}
+      </div>
+
+      {error ? (
+        <div className="mb-5 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800">{error}</div>
+      ) : null}
+
+      {!loading && published === 0 ? (
+        <div className="mb-5 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 flex flex-wrap items-center justify-between gap-3">
+          <span>
+            Nothing published here yet, so the site shows{" "}
+            {builtIn.length ? "its built-in content" : "a “coming soon” card"} in this section.
+          </span>
+          {builtIn.length && items.length === 0 ? (
+            <button type="button" disabled={busy} onClick={() => void importBuiltIn()}
+              className="min-h-9 rounded-xl border border-amber-300 bg-white px-3 text-sm font-semibold text-amber-900 hover:bg-amber-100 disabled:opacity-60">
+              Start from built-in content
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="mb-8 rounded-2xl border border-gray-200 bg-white shadow-sm p-5">
+        <div className="text-sm font-bold text-gray-800">{editingId ? `Edit ${meta.label.toLowerCase()} item` : `New ${meta.label.toLowerCase()} item`}</div>
+        <div className="mt-0.5 mb-4 text-xs text-gray-500">{meta.description}</div>
+        <CollectionItemFields draft={draft} onChange={setDraft} />
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <button type="button" onClick={() => void save()} disabled={saving}
+            className="min-h-10 rounded-xl bg-blue-600 px-5 text-sm font-bold text-white hover:bg-blue-700 disabled:opacity-60">
+            {saving ? "Saving…" : editingId ? "Save changes" : "Add item"}
+          </button>
+          {editingId ? (
+            <button type="button" onClick={() => resetForm()}
+              className="min-h-10 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-50">
+              Cancel
+            </button>
+          ) : null}
+          <label className="ml-2 flex items-center gap-2 text-sm font-semibold text-gray-700">
+            <input type="checkbox" checked={isPublished} onChange={(e) => setIsPublished(e.target.checked)} />
+            Published
+          </label>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">{meta.label}</h2>
+          {loading || busy ? <span className="text-sm text-gray-500">{loading ? "Loading…" : "Saving…"}</span> : null}
+        </div>
+        {items.length === 0 ? (
+          <div className="px-6 py-8 text-center text-sm text-gray-500">{loading ? "" : "No items yet."}</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {items.map((item, index) => {
+              const summary = collectionItemSummary(itemDraft(item));
+              const imageUrl = "imageUrl" in item.data ? item.data.imageUrl : undefined;
+              return (
+                <li key={item.id} className={`flex items-center gap-4 px-6 py-3 ${editingId === Number(item.id) ? "bg-blue-50/60" : ""}`}>
+                  <div className="flex flex-col">
+                    <button type="button" aria-label="Move up" disabled={busy || index === 0} onClick={() => void move(index, -1)}
+                      className="px-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">▲</button>
+                    <button type="button" aria-label="Move down" disabled={busy || index === items.length - 1} onClick={() => void move(index, 1)}
+                      className="px-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">▼</button>
+                  </div>
+                  {imageUrl ? <img src={imageUrl} alt="" className="h-12 w-12 shrink-0 rounded-lg border border-gray-200 object-cover" /> : null}
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-semibold text-gray-900">{summary.title}</span>
+                      {"featured" in item.data && item.data.featured ? (
+                        <span className="rounded-full border border-blue-200 bg-blue-50 px-2 py-0.5 text-xs font-semibold text-blue-700">Featured</span>
+                      ) : null}
+                      {!item.is_published ? (
+                        <span className="rounded-full border border-gray-200 bg-gray-50 px-2 py-0.5 text-xs font-semibold text-gray-600">Hidden</span>
+                      ) : null}
+                    </div>
+                    {summary.detail ? <div className="truncate text-sm text-gray-500">{summary.detail}</div> : null}
+                  </div>
+                  <div className="inline-flex shrink-0 gap-2">
+                    <button type="button" onClick={() => startEdit(item)}
+                      className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50">
+                      Edit
+                    </button>
+                    <button type="button" onClick={() => void togglePublished(item)}
+                      className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50">
+                      {item.is_published ? "Hide" : "Publish"}
+                    </button>
+                    <button type="button" onClick={() => void remove(item)}
+                      className="min-h-9 rounded-xl border border-rose-200 bg-white px-3 text-sm font-semibold text-rose-700 hover:bg-rose-50">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </AdminShell>
+  );
+}
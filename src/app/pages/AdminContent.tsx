@@ -4,10 +4,26 @@ import { Seo } from "../components/Seo";
 import { useAuth } from "../auth/AuthProvider";
 import { AdminShell } from "../components/admin/AdminShell";
 import { CmsBlocksRenderer } from "../components/cms/CmsBlocks";
+import {
+  CmsRichBlockFields,
+  richBlockFactories,
+  richBlockLabels,
+  type RichCmsBlock,
+} from "../components/admin/CmsBlockFields";
+import { cmsPages, cmsPreviewUrl } from "../config/cmsPages";
+import { fromLocalInput, hasSchedule, scheduleState, toLocalInput, type ScheduleState } from "../lib/cmsSchedule";
 import {
   createAdminAssetUploadUrl,
+  createAdminContentPreviewToken,
+  discardAdminContentDraft,
+  setAdminContentSchedule,
   fetchAdminContent,
+  fetchAdminContentRevision,
+  fetchAdminContentRevisions,
+  rollbackAdminContentRevision,
   upsertAdminContent,
+  type AdminContentItem,
+  type ContentRevision,
 } from "../services/platformService";
 import { uploadFileToSignedUrl } from "../services/careersService";
 
@@ -15,13 +31,22 @@ import { uploadFileToSignedUrl } from "../services/careersService";
 type TextBlock  = { type: "text";  as: "h2" | "h3" | "p"; text: string };
 type ImageBlock = { type: "image"; src: string; alt: string };
 type HtmlBlock  = { type: "html";  html: string };
-type Block = TextBlock | ImageBlock | HtmlBlock;
+// Optional per-block publish window (ISO timestamps).
+type Scheduled  = { publishAt?: string; unpublishAt?: string };
+type Block = (TextBlock | ImageBlock | HtmlBlock | RichCmsBlock) & Scheduled;
 
 const newTextBlock    = (): TextBlock  => ({ type: "text",  as: "p",  text: "" });
 const newHeadingBlock = (): TextBlock  => ({ type: "text",  as: "h2", text: "" });
 const newImageBlock   = (): ImageBlock => ({ type: "image", src: "",  alt: "" });
 const newHtmlBlock    = (): HtmlBlock  => ({ type: "html",  html: "" });
 
+function withSchedule(block: Block, field: keyof Scheduled, local: string): Block {
+  const next = { ...block };
+  const iso = fromLocalInput(local);
+  if (iso) next[field] = iso; else delete next[field];
+  return next;
+}
+
 function blocksToValue(blocks: Block[]) { return { blocks }; }
 function valueToBlocks(value: unknown): Block[] {
   if (!value || typeof value !== "object") return [];
@@ -30,6 +55,29 @@ function valueToBlocks(value: unknown): Block[] {
   return v.blocks.filter(Boolean);
 }
 
+const revisionBadge: Record<ContentRevision["action"], { label: string; cls: string }> = {
+  draft:    { label: "Draft",       cls: "bg-amber-100 text-amber-800" },
+  publish:  { label: "Published",   cls: "bg-emerald-100 text-emerald-700" },
+  rollback: { label: "Rolled back", cls: "bg-violet-100 text-violet-700" },
+};
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+const scheduleBadge: Record<ScheduleState, { label: string; cls: string }> = {
+  live:     { label: "Live",     cls: "bg-emerald-100 text-emerald-700" },
+  upcoming: { label: "Upcoming", cls: "bg-sky-100 text-sky-700" },
+  expired:  { label: "Expired",  cls: "bg-gray-200 text-gray-600" },
+};
+
+function scheduleText(publishAt?: string | null, unpublishAt?: string | null) {
+  const parts: string[] = [];
+  if (publishAt) parts.push(`from ${formatDateTime(publishAt)}`);
+  if (unpublishAt) parts.push(`until ${formatDateTime(unpublishAt)}`);
+  return parts.join(" ");
+}
+
 function BlockCard({
   block, index, total, onChange, onDelete, onMove, onUploadImage, uploadingIdx,
 }: {
@@ -42,12 +90,14 @@ function BlockCard({
   const typeLabel =
     block.type === "image" ? "Image" :
     block.type === "html"  ? "HTML" :
-    block.as === "h2" || block.as === "h3" ? "Heading" : "Paragraph";
+    block.type === "text"  ? (block.as === "h2" || block.as === "h3" ? "Heading" : "Paragraph") :
+    richBlockLabels[block.type].label;
   const typeBadgeColor: Record<string, string> = {
     Image: "bg-violet-100 text-violet-700",
     HTML:  "bg-amber-100 text-amber-700",
     Heading: "bg-blue-100 text-blue-700",
     Paragraph: "bg-gray-100 text-gray-700",
+    ...Object.fromEntries(Object.values(richBlockLabels).map((l) => [l.label, l.badge])),
   };
 
   return (
@@ -57,6 +107,12 @@ function BlockCard({
     >
       <div className="flex items-center gap-3 px-4 py-3 bg-gray-50 border-b border-gray-200">
         <span className={`text-xs font-bold px-2.5 py-1 rounded-full ${typeBadgeColor[typeLabel]}`}>{typeLabel}</span>
+        {hasSchedule(block.publishAt, block.unpublishAt) && (
+          <span className={`text-xs font-bold px-2.5 py-1 rounded-full ${scheduleBadge[scheduleState(block.publishAt, block.unpublishAt)].cls}`}
+            title={scheduleText(block.publishAt, block.unpublishAt)}>
+            {scheduleBadge[scheduleState(block.publishAt, block.unpublishAt)].label}
+          </span>
+        )}
         <span className="text-xs text-gray-400 ml-auto">Block {index + 1}</span>
         <button type="button" disabled={index === 0} onClick={() => onMove(-1)} title="Move up"
           className="p-1.5 rounded-lg hover:bg-gray-200 disabled:opacity-30 transition-colors">
@@ -130,7 +186,7 @@ function BlockCard({
         {block.type === "html" && (
           <>
             <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2">
-              Use only safe, trusted HTML.
+              Formatting, links, images and tables only. Scripts, iframes, forms, inline styles and event handlers are removed when you save.
             </div>
             <textarea rows={6} value={block.html} onChange={(e) => onChange({ ...block, html: e.target.value })}
               placeholder="<h2>Title</h2><p>Your content\u2026</p>" spellCheck={false}
@@ -138,6 +194,27 @@ function BlockCard({
             />
           </>
         )}
+
+        {block.type !== "text" && block.type !== "image" && block.type !== "html" && (
+          <CmsRichBlockFields block={block} onChange={onChange} />
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pt-3 border-t border-gray-100">
+          <label className="text-xs font-semibold text-gray-500">
+            Show from <span className="font-normal text-gray-400">(optional)</span>
+            <input type="datetime-local" value={toLocalInput(block.publishAt)}
+              onChange={(e) => onChange(withSchedule(block, "publishAt", e.target.value))}
+              className="mt-1 w-full h-10 rounded-xl border border-gray-200 px-3 text-sm text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
+            />
+          </label>
+          <label className="text-xs font-semibold text-gray-500">
+            Hide after <span className="font-normal text-gray-400">(optional)</span>
+            <input type="datetime-local" value={toLocalInput(block.unpublishAt)}
+              onChange={(e) => onChange(withSchedule(block, "unpublishAt", e.target.value))}
+              className="mt-1 w-full h-10 rounded-xl border border-gray-200 px-3 text-sm text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
+            />
+          </label>
+        </div>
       </div>
     </motion.div>
   );
@@ -146,10 +223,19 @@ function BlockCard({
 export function AdminContent() {
   const { isAuthed, role } = useAuth();
 
-  const [items, setItems] = useState<Array<{ key: string; value: unknown; updated_at: string }>>([]);
+  const [items, setItems] = useState<AdminContentItem[]>([]);
   const [error, setError]     = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [saveStatus, setSaveStatus] = useState<"idle"|"saving"|"saved"|"error">("idle");
+  const [saveMode, setSaveMode]     = useState<"draft"|"publish">("publish");
+  const [sanitizeWarning, setSanitizeWarning] = useState<string | null>(null);
+
+  const [keyPublishAt, setKeyPublishAt]     = useState("");
+  const [keyUnpublishAt, setKeyUnpublishAt] = useState("");
+  const [scheduleSaving, setScheduleSaving] = useState(false);
+
+  const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+  const [revisionBusy, setRevisionBusy] = useState(false);
 
   const [contentKey, setContentKey] = useState("");
   const [blocks, setBlocks]         = useState<Block[]>([]);
@@ -160,11 +246,18 @@ export function AdminContent() {
     if (!isAuthed) return;
     setError(null); setLoading(true);
     fetchAdminContent()
-      .then((r: any) => setItems(r.items))
+      .then((r) => setItems(r.items))
       .catch((e: any) => setError(e?.message ?? "Failed to load"))
       .finally(() => setLoading(false));
   }
 
+  function loadRevisions(key: string) {
+    if (!key) { setRevisions([]); return; }
+    fetchAdminContentRevisions(key)
+      .then((r) => setRevisions(r.items))
+      .catch(() => setRevisions([]));
+  }
+
   useEffect(() => {
     if (!isAuthed || role !== "admin") return;
     load();
@@ -187,32 +280,119 @@ export function AdminContent() {
     try {
       const r = await createAdminAssetUploadUrl({ fileName: file.name, fileType: file.type||"application/octet-stream", fileSize: file.size });
       await uploadFileToSignedUrl(r.signedUrl, file);
-      updateBlock(idx, { type: "image", src: r.publicUrl, alt: "" });
+      // A new image gets fresh alt text but keeps the block's schedule.
+      setBlocks((p) => p.map((x, i) => (i === idx && x.type === "image" ? { ...x, src: r.publicUrl, alt: "" } : x)));
     } catch (e: any) { setError(e?.message ?? "Image upload failed"); }
     finally { setUploadingIdx(null); }
   }
 
-  async function save() {
+  async function save(publish: boolean) {
+    const key = contentKey.trim();
+    if (!key) { setError("Please enter a content key (e.g. page.home)"); return false; }
+    setError(null); setSaveMode(publish ? "publish" : "draft"); setSaveStatus("saving");
+    try {
+      const r = await upsertAdminContent({ key, value: blocksToValue(blocks), publish });
+      if (r.sanitizedBlocks.length) {
+        setBlocks(valueToBlocks(r.value));
+        setSanitizeWarning(
+          `Unsafe HTML was removed from block${r.sanitizedBlocks.length === 1 ? "" : "s"} ${r.sanitizedBlocks.map((i) => i + 1).join(", ")} ` +
+          "(scripts, iframes, inline styles, event handlers or unsafe links). The editor now shows what was saved."
+        );
+      } else {
+        setSanitizeWarning(null);
+      }
+      setSaveStatus("saved"); setTimeout(() => setSaveStatus("idle"), 2500);
+      load(); loadRevisions(key);
+      return true;
+    } catch (e: any) { setError(e?.message ?? "Failed to save"); setSaveStatus("error"); return false; }
+  }
+
+  // Saves the editor as a draft, then opens the real page with a preview token.
+  async function previewOnSite() {
+    const key = contentKey.trim();
+    // Open the tab synchronously so popup blockers allow it.
+    const win = window.open("", "_blank");
+    if (!(await save(false))) { win?.close(); return; }
+    try {
+      const r = await createAdminContentPreviewToken(key);
+      const url = cmsPreviewUrl(key, r.token);
+      if (win) win.location.href = url; else window.open(url, "_blank");
+    } catch (e: any) { win?.close(); setError(e?.message ?? "Failed to create preview link"); }
+  }
+
+  async function saveSchedule() {
+    const key = contentKey.trim();
+    setError(null); setScheduleSaving(true);
+    try {
+      await setAdminContentSchedule(key, { publishAt: fromLocalInput(keyPublishAt), unpublishAt: fromLocalInput(keyUnpublishAt) });
+      load();
+    } catch (e: any) { setError(e?.message ?? "Failed to save schedule"); }
+    finally { setScheduleSaving(false); }
+  }
+
+  async function discardDraft() {
     const key = contentKey.trim();
-    if (!key) { setError("Please enter a content key (e.g. page.home)"); return; }
-    setError(null); setSaveStatus("saving");
+    if (!window.confirm(`Discard the unpublished draft of ${key}? It stays in the revision history.`)) return;
+    setError(null);
     try {
-      await upsertAdminContent({ key, value: blocksToValue(blocks) });
-      setSaveStatus("saved"); setTimeout(() => setSaveStatus("idle"), 2500); load();
-    } catch (e: any) { setError(e?.message ?? "Failed to save"); setSaveStatus("error"); }
+      await discardAdminContentDraft(key);
+      const published = items.find((it) => it.key === key)?.value;
+      setBlocks(valueToBlocks(published));
+      load(); loadRevisions(key);
+    } catch (e: any) { setError(e?.message ?? "Failed to discard draft"); }
   }
 
-  function openKey(item: { key: string; value: unknown }) {
-    setContentKey(item.key); setBlocks(valueToBlocks(item.value));
-    setError(null); setSaveStatus("idle");
+  async function loadRevision(rev: ContentRevision) {
+    setError(null); setRevisionBusy(true);
+    try {
+      const r = await fetchAdminContentRevision(rev.id);
+      setBlocks(valueToBlocks(r.revision.value));
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    } catch (e: any) { setError(e?.message ?? "Failed to load revision"); }
+    finally { setRevisionBusy(false); }
+  }
+
+  async function rollback(rev: ContentRevision) {
+    if (!window.confirm(`Publish revision #${rev.id} from ${formatDateTime(rev.created_at)} as the live content?`)) return;
+    setError(null); setRevisionBusy(true);
+    try {
+      await rollbackAdminContentRevision(rev.id);
+      const r = await fetchAdminContentRevision(rev.id);
+      setBlocks(valueToBlocks(r.revision.value));
+      load(); loadRevisions(rev.content_key);
+    } catch (e: any) { setError(e?.message ?? "Rollback failed"); }
+    finally { setRevisionBusy(false); }
+  }
+
+  function openKey(item: AdminContentItem) {
+    setContentKey(item.key); setBlocks(valueToBlocks(item.draft_value ?? item.value));
+    setKeyPublishAt(toLocalInput(item.publish_at)); setKeyUnpublishAt(toLocalInput(item.unpublish_at));
+    setSanitizeWarning(null); setError(null); setSaveStatus("idle"); loadRevisions(item.key);
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
 
-  function newContent() { setContentKey(""); setBlocks([]); setError(null); setSaveStatus("idle"); }
+  function newContent() {
+    setContentKey(""); setBlocks([]); setError(null); setSaveStatus("idle"); setRevisions([]);
+    setKeyPublishAt(""); setKeyUnpublishAt(""); setSanitizeWarning(null);
+  }
 
   if (!isAuthed || role !== "admin") return <div className="p-10 text-center">Access Denied</div>;
 
   const isDirty = blocks.length > 0 || contentKey.trim() !== "";
+  const currentItem = items.find((it) => it.key === contentKey.trim()) ?? null;
+  const hasDraft = currentItem?.draft_value != null;
+
+  // Published keys and blocks that are not currently shown because of their window.
+  const offSchedule = items.flatMap((it) => {
+    const entries: Array<{ item: AdminContentItem; label: string; state: ScheduleState; publishAt?: string | null; unpublishAt?: string | null }> = [];
+    const keyState = scheduleState(it.publish_at, it.unpublish_at);
+    if (keyState !== "live") entries.push({ item: it, label: "Whole key", state: keyState, publishAt: it.publish_at, unpublishAt: it.unpublish_at });
+    valueToBlocks(it.value).forEach((b, i) => {
+      const state = scheduleState(b.publishAt, b.unpublishAt);
+      if (state !== "live") entries.push({ item: it, label: `Block ${i + 1} (${b.type})`, state, publishAt: b.publishAt, unpublishAt: b.unpublishAt });
+    });
+    return entries;
+  });
 
   return (
     <AdminShell title="Content">
@@ -246,6 +426,14 @@ export function AdminContent() {
         )}
       </AnimatePresence>
 
+      {/* Sanitization warning */}
+      {sanitizeWarning && (
+        <div className="mb-5 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 flex items-start justify-between gap-4">
+          <span>{sanitizeWarning}</span>
+          <button onClick={() => setSanitizeWarning(null)} className="text-amber-500 hover:text-amber-800">{"\u2715"}</button>
+        </div>
+      )}
+
       {/* Editor + Preview */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
 
@@ -258,18 +446,70 @@ export function AdminContent() {
             </label>
             <input
               className="w-full min-h-11 rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 placeholder:text-gray-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30"
-              value={contentKey} onChange={(e) => setContentKey(e.target.value)} placeholder="page.home"
+              value={contentKey} onChange={(e) => setContentKey(e.target.value)} placeholder="page.home" list="cms-page-keys"
             />
+            <datalist id="cms-page-keys">
+              {cmsPages.map((p) => <option key={p.key} value={p.key}>{p.label}</option>)}
+            </datalist>
+            {currentItem && (
+              <div className="mt-2 text-xs">
+                {hasDraft ? (
+                  <span className="inline-block font-semibold text-amber-800 bg-amber-50 px-2 py-0.5 rounded-full">
+                    Unpublished draft{currentItem.draft_updated_by ? ` by ${currentItem.draft_updated_by}` : ""}
+                    {currentItem.draft_updated_at ? ` \u00b7 ${formatDateTime(currentItem.draft_updated_at)}` : ""}
+                  </span>
+                ) : (
+                  <span className="inline-block font-semibold text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full">Published</span>
+                )}
+              </div>
+            )}
+            {currentItem && (
+              <div className="mt-4 rounded-xl border border-gray-100 bg-gray-50 p-3">
+                <p className="text-xs font-bold text-gray-700">Schedule this key</p>
+                <p className="text-xs text-gray-500">Leave empty to show it whenever it is published. Blocks can also be scheduled one by one.</p>
+                <div className="mt-2 flex flex-wrap items-end gap-2">
+                  <label className="text-xs font-semibold text-gray-500">
+                    Show from
+                    <input type="datetime-local" value={keyPublishAt} onChange={(e) => setKeyPublishAt(e.target.value)}
+                      className="mt-1 block h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm text-gray-900" />
+                  </label>
+                  <label className="text-xs font-semibold text-gray-500">
+                    Hide after
+                    <input type="datetime-local" value={keyUnpublishAt} onChange={(e) => setKeyUnpublishAt(e.target.value)}
+                      className="mt-1 block h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm text-gray-900" />
+                  </label>
+                  <button type="button" onClick={saveSchedule} disabled={scheduleSaving}
+                    className="h-10 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-100 transition-colors disabled:opacity-50">
+                    {scheduleSaving ? "Saving\u2026" : "Save Schedule"}
+                  </button>
+                </div>
+              </div>
+            )}
             <div className="mt-4 flex items-center gap-3 flex-wrap">
-              <button type="button" onClick={save} disabled={saveStatus === "saving" || !isDirty}
+              <button type="button" onClick={() => save(true)} disabled={saveStatus === "saving" || !isDirty}
                 className={`min-h-11 rounded-xl px-5 text-sm font-bold text-white transition-all ${
-                  saveStatus === "saving" ? "bg-blue-400 cursor-not-allowed" :
-                  saveStatus === "saved"  ? "bg-emerald-500" :
-                  saveStatus === "error"  ? "bg-rose-500" :
+                  saveStatus === "saving" && saveMode === "publish" ? "bg-blue-400 cursor-not-allowed" :
+                  saveStatus === "saved"  && saveMode === "publish" ? "bg-emerald-500" :
+                  saveStatus === "error"  && saveMode === "publish" ? "bg-rose-500" :
                   "bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
                 } disabled:opacity-50`}>
-                {saveStatus === "saving" ? "Saving\u2026" : saveStatus === "saved" ? "\u2713 Saved!" : saveStatus === "error" ? "Error \u2013 retry" : "Save Content"}
+                {saveMode !== "publish" || saveStatus === "idle" ? "Publish" :
+                  saveStatus === "saving" ? "Publishing\u2026" : saveStatus === "saved" ? "\u2713 Published!" : "Error \u2013 retry"}
+              </button>
+              <button type="button" onClick={() => save(false)} disabled={saveStatus === "saving" || !isDirty}
+                className="min-h-11 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50">
+                {saveMode === "draft" && saveStatus === "saving" ? "Saving\u2026" : saveMode === "draft" && saveStatus === "saved" ? "\u2713 Draft saved" : "Save Draft"}
+              </button>
+              <button type="button" onClick={previewOnSite} disabled={saveStatus === "saving" || !isDirty}
+                className="min-h-11 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50">
+                Preview on Site
               </button>
+              {hasDraft && (
+                <button type="button" onClick={discardDraft}
+                  className="min-h-11 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold text-rose-600 hover:bg-rose-50 transition-colors">
+                  Discard Draft
+                </button>
+              )}
               <button type="button" onClick={load} disabled={loading}
                 className="min-h-11 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50">
                 {loading ? "Loading\u2026" : "Refresh"}
@@ -310,6 +550,7 @@ export function AdminContent() {
                 { label: "+ Heading",   factory: newHeadingBlock,  color: "hover:border-blue-400 hover:bg-blue-50" },
                 { label: "+ Image",     factory: newImageBlock,    color: "hover:border-violet-400 hover:bg-violet-50" },
                 { label: "+ HTML",      factory: newHtmlBlock,     color: "hover:border-amber-400 hover:bg-amber-50" },
+                ...richBlockFactories.map((f) => ({ label: f.label, factory: f.create, color: f.color })),
               ] as { label: string; factory: () => Block; color: string }[]).map(({ label, factory, color }) => (
                 <button key={label} type="button" onClick={() => addBlock(factory)}
                   className={`min-h-10 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold transition-colors ${color}`}>
@@ -344,6 +585,64 @@ export function AdminContent() {
         </div>
       </div>
 
+      {/* Revision history */}
+      {currentItem && (
+        <div className="mt-10 rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+          <div className="px-5 py-4 border-b border-gray-100">
+            <h2 className="text-lg font-bold font-poppins">Revision History</h2>
+            <p className="text-sm text-gray-500">Every save of <span className="font-mono">{currentItem.key}</span>. Load one into the editor or roll the live page back to it.</p>
+          </div>
+          {revisions.length === 0 ? (
+            <div className="px-5 py-8 text-center text-sm text-gray-400">No revisions yet.</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {revisions.map((rev) => (
+                <li key={rev.id} className="px-5 py-3 flex flex-wrap items-center gap-3 text-sm">
+                  <span className={`text-xs font-bold px-2.5 py-1 rounded-full ${revisionBadge[rev.action].cls}`}>{revisionBadge[rev.action].label}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-900 truncate">{rev.summary ?? "\u2014"}</p>
+                    <p className="text-xs text-gray-500">
+                      #{rev.id} · {formatDateTime(rev.created_at)}{rev.author_email ? ` \u00b7 ${rev.author_email}` : ""}
+                    </p>
+                  </div>
+                  <button type="button" disabled={revisionBusy} onClick={() => loadRevision(rev)}
+                    className="min-h-9 rounded-lg border border-gray-200 bg-white px-3 text-xs font-semibold hover:bg-gray-50 disabled:opacity-50">
+                    Load into editor
+                  </button>
+                  <button type="button" disabled={revisionBusy} onClick={() => rollback(rev)}
+                    className="min-h-9 rounded-lg border border-violet-200 bg-violet-50 px-3 text-xs font-semibold text-violet-700 hover:bg-violet-100 disabled:opacity-50">
+                    Roll back
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Upcoming & expired */}
+      {offSchedule.length > 0 && (
+        <div className="mt-10 rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+          <div className="px-5 py-4 border-b border-gray-100">
+            <h2 className="text-lg font-bold font-poppins">Upcoming &amp; Expired</h2>
+            <p className="text-sm text-gray-500">Published content that is hidden right now because of its schedule.</p>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {[...offSchedule].sort((a, b) => (a.state === b.state ? 0 : a.state === "upcoming" ? -1 : 1)).map((entry, idx) => (
+              <li key={`${entry.item.key}-${idx}`}>
+                <button type="button" onClick={() => openKey(entry.item)}
+                  className="w-full text-left px-5 py-3 flex flex-wrap items-center gap-3 text-sm hover:bg-gray-50">
+                  <span className={`text-xs font-bold px-2.5 py-1 rounded-full ${scheduleBadge[entry.state].cls}`}>{scheduleBadge[entry.state].label}</span>
+                  <span className="font-mono text-gray-900">{entry.item.key}</span>
+                  <span className="text-gray-600">{entry.label}</span>
+                  <span className="ml-auto text-xs text-gray-500">{scheduleText(entry.publishAt, entry.unpublishAt)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Saved keys */}
       <div className="mt-10">
         <div className="flex items-center justify-between mb-4 gap-4">
@@ -362,8 +661,9 @@ export function AdminContent() {
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
             {items.map((it) => {
-              const blockCount = valueToBlocks(it.value).length;
-              const blockTypes = [...new Set(valueToBlocks(it.value).map((b) => b.type))];
+              const latest = valueToBlocks(it.draft_value ?? it.value);
+              const blockCount = latest.length;
+              const blockTypes = [...new Set(latest.map((b) => b.type))];
               return (
                 <motion.button key={it.key} type="button" onClick={() => openKey(it)}
                   whileHover={{ y: -2 }} transition={{ duration: 0.15 }}
@@ -384,6 +684,17 @@ export function AdminContent() {
                   <p className="mt-3 text-xs text-gray-400">
                     Updated {it.updated_at ? new Date(it.updated_at).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" }) : "\u2014"}
                   </p>
+                  {hasSchedule(it.publish_at, it.unpublish_at) && (
+                    <span className={`inline-block mt-2 mr-2 text-xs font-semibold px-2 py-0.5 rounded-full ${scheduleBadge[scheduleState(it.publish_at, it.unpublish_at)].cls}`}
+                      title={scheduleText(it.publish_at, it.unpublish_at)}>
+                      {scheduleBadge[scheduleState(it.publish_at, it.unpublish_at)].label}
+                    </span>
+                  )}
+                  {it.draft_value != null && (
+                    <span className="inline-block mt-2 mr-2 text-xs font-semibold text-amber-800 bg-amber-50 px-2 py-0.5 rounded-full">
+                      {it.value == null ? "Draft only" : "Unpublished draft"}
+                    </span>
+                  )}
                   {contentKey === it.key && (
                     <span className="inline-block mt-2 text-xs font-semibold text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full">Currently editing</span>
                   )}
@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { Seo } from "../components/Seo";
+import { useAuth } from "../auth/AuthProvider";
+import { AdminShell } from "../components/admin/AdminShell";
+import {
+  createAdminCoupon,
+  deleteAdminCoupon,
+  fetchAdminCoupons,
+  fetchAdminPricing,
+  updateAdminCoupon,
+  type AdminCoupon,
+  type AdminCouponInput,
+} from "../services/platformService";
+
+type CouponForm = {
+  code: string;
+  description: string;
+  discountType: "percent" | "flat";
+  discountValue: string;
+  serviceKey: string;
+  minOrderInr: string;
+  maxRedemptions: string;
+  maxPerEmail: string;
+  startsAt: string;
+  endsAt: string;
+  isActive: boolean;
+};
+
+const emptyForm: CouponForm = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  discountValue: "",
+  serviceKey: "",
+  minOrderInr: "",
+  maxRedemptions: "",
+  maxPerEmail: "",
+  startsAt: "",
+  endsAt: "",
+  isActive: true,
+};
+
+// <input type="datetime-local"> works in local time without an offset.
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const offset = d.getTimezoneOffset() * 60_000;
+  return new Date(d.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function optionalInt(value: string) {
+  const n = Number(value);
+  return value.trim() && Number.isFinite(n) ? Math.trunc(n) : null;
+}
+
+function couponToForm(c: AdminCoupon): CouponForm {
+  return {
+    code: c.code,
+    description: c.description ?? "",
+    discountType: c.discount_type,
+    discountValue: String(c.discount_value),
+    serviceKey: c.service_key ?? "",
+    minOrderInr: c.min_order_inr ? String(c.min_order_inr) : "",
+    maxRedemptions: c.max_redemptions ? String(c.max_redemptions) : "",
+    maxPerEmail: c.max_per_email ? String(c.max_per_email) : "",
+    startsAt: toLocalInput(c.starts_at),
+    endsAt: toLocalInput(c.ends_at),
+    isActive: c.is_active,
+  };
+}
+
+function formToInput(f: CouponForm): AdminCouponInput {
+  return {
+    code: f.code.trim().toUpperCase(),
+    description: f.description.trim() || null,
+    discountType: f.discountType,
+    discountValue: optionalInt(f.discountValue) ?? 0,
+    serviceKey: f.serviceKey || null,
+    minOrderInr: optionalInt(f.minOrderInr),
+    maxRedemptions: optionalInt(f.maxRedemptions),
+    maxPerEmail: optionalInt(f.maxPerEmail),
+    startsAt: fromLocalInput(f.startsAt),
+    endsAt: fromLocalInput(f.endsAt),
+    isActive: f.isActive,
+  };
+}
+
+function couponState(c: AdminCoupon) {
+  const now = Date.now();
+  if (!c.is_active) return { label: "Inactive", cls: "bg-gray-50 text-gray-600 border-gray-200" };
+  if (c.ends_at && new Date(c.ends_at).getTime() <= now) return { label: "Expired", cls: "bg-rose-50 text-rose-700 border-rose-200" };
+  if (c.starts_at && new Date(c.starts_at).getTime() > now) return { label: "Scheduled", cls: "bg-blue-50 text-blue-700 border-blue-200" };
+  if (c.max_redemptions && c.active_redemptions >= c.max_redemptions) {
+    return { label: "Used up", cls: "bg-amber-50 text-amber-800 border-amber-200" };
+  }
+  return { label: "Active", cls: "bg-green-50 text-green-800 border-green-200" };
+}
+
+const inputCls =
+  "h-10 rounded-lg border border-gray-300 bg-white px-3 text-sm text-gray-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600/30";
+
+export function AdminCoupons() {
+  const { isAuthed, role } = useAuth();
+
+  const [items, setItems] = useState<AdminCoupon[]>([]);
+  const [services, setServices] = useState<Array<{ key: string; name: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<CouponForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  function load() {
+    setError(null);
+    setLoading(true);
+    Promise.all([fetchAdminCoupons(), fetchAdminPricing()])
+      .then(([coupons, pricing]) => {
+        setItems(coupons.items);
+        const byKey = new Map<string, string>();
+        for (const p of pricing.items) byKey.set(p.service_key, p.service_name);
+        setServices([...byKey].map(([key, name]) => ({ key, name })));
+      })
+      .catch((e: any) => setError(e?.message ?? "Failed to load coupons"))
+      .finally(() => setLoading(false));
+  }
+
+  useEffect(() => {
+    if (!isAuthed || role !== "admin") return;
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthed, role]);
+
+  const serviceName = useMemo(() => new Map(services.map((s) => [s.key, s.name])), [services]);
+
+  function set<K extends keyof CouponForm>(key: K, value: CouponForm[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function startEdit(c: AdminCoupon) {
+    setEditingId(c.id);
+    setForm(couponToForm(c));
+    setError(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(emptyForm);
+  }
+
+  async function save() {
+    const input = formToInput(form);
+    if (input.code.length < 3) return setError("Coupon code must be at least 3 characters.");
+    if (input.discountValue <= 0) return setError("Enter a discount value greater than zero.");
+    if (input.discountType === "percent" && input.discountValue > 100) return setError("Percentage cannot exceed 100.");
+
+    setError(null);
+    setSaving(true);
+    try {
+      if (editingId) await updateAdminCoupon(editingId, input);
+      else await createAdminCoupon(input);
+      resetForm();
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to save coupon");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(c: AdminCoupon) {
+    const used = c.paid_redemptions + c.active_redemptions > 0;
+    const prompt = used
+      ? `${c.code} has been redeemed, so it will be deactivated instead of deleted. Continue?`
+      : `Delete coupon ${c.code}?`;
+    if (!window.confirm(prompt)) return;
+
+    setError(null);
+    try {
+      await deleteAdminCoupon(c.id);
+      if (editingId === c.id) resetForm();
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to delete coupon");
+    }
+  }
+
+  if (!isAuthed || role !== "admin") return <div className="p-10 text-center">Access Denied</div>;
+
+  return (
+    <AdminShell title="Coupons">
+      <Seo title="Admin Coupons" description="Manage discount codes." path="/admin/coupons" />
+
+      <div className="mb-6 rounded-2xl border border-gray-200 bg-white shadow-sm p-6">
+        <div className="text-sm text-gray-500 font-medium">Checkout</div>
+        <div className="text-2xl md:text-3xl font-bold font-poppins mt-0.5">Coupons</div>
+        <div className="mt-1 text-sm text-gray-500">Percentage or flat discounts, limited by service, dates and usage.</div>
+      </div>
+
+      {error ? (
+        <div className="mb-5 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800">{error}</div>
+      ) : null}
+
+      <div className="mb-8 rounded-2xl border border-gray-200 bg-white shadow-sm p-5">
+        <div className="text-sm font-bold text-gray-800 mb-4">{editingId ? `Edit ${form.code}` : "New coupon"}</div>
+        <div className="grid gap-3 md:grid-cols-3">
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Code
+            <input className={`${inputCls} uppercase`} value={form.code} maxLength={40}
+              onChange={(e) => set("code", e.target.value.toUpperCase())} placeholder="LAUNCH20" />
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Discount type
+            <select className={inputCls} value={form.discountType}
+              onChange={(e) => set("discountType", e.target.value as CouponForm["discountType"])}>
+              <option value="percent">Percentage (%)</option>
+              <option value="flat">Flat amount (₹)</option>
+            </select>
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            {form.discountType === "percent" ? "Percent off" : "Amount off (₹)"}
+            <input className={inputCls} type="number" min={1} max={form.discountType === "percent" ? 100 : undefined}
+              value={form.discountValue} onChange={(e) => set("discountValue", e.target.value)} />
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Applies to
+            <select className={inputCls} value={form.serviceKey} onChange={(e) => set("serviceKey", e.target.value)}>
+              <option value="">All services</option>
+              {services.map((s) => (
+                <option key={s.key} value={s.key}>{s.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Minimum order (₹)
+            <input className={inputCls} type="number" min={1} value={form.minOrderInr}
+              onChange={(e) => set("minOrderInr", e.target.value)} placeholder="No minimum" />
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Description
+            <input className={inputCls} value={form.description} maxLength={300}
+              onChange={(e) => set("description", e.target.value)} placeholder="Internal note" />
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Total redemptions
+            <input className={inputCls} type="number" min={1} value={form.maxRedemptions}
+              onChange={(e) => set("maxRedemptions", e.target.value)} placeholder="Unlimited" />
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Per email
+            <input className={inputCls} type="number" min={1} value={form.maxPerEmail}
+              onChange={(e) => set("maxPerEmail", e.target.value)} placeholder="Unlimited" />
+          </label>
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 md:mt-5">
+            <input type="checkbox" checked={form.isActive} onChange={(e) => set("isActive", e.target.checked)} />
+            Active
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Starts
+            <input className={inputCls} type="datetime-local" value={form.startsAt} onChange={(e) => set("startsAt", e.target.value)} />
+          </label>
+          <label className="grid gap-1 text-xs font-semibold text-gray-600">
+            Expires
+            <input className={inputCls} type="datetime-local" value={form.endsAt} onChange={(e) => set("endsAt", e.target.value)} />
+          </label>
+        </div>
+        <div className="mt-4 flex gap-2">
+          <button type="button" onClick={() => void save()} disabled={saving}
+            className="min-h-10 rounded-xl bg-blue-600 px-5 text-sm font-bold text-white hover:bg-blue-700 disabled:opacity-60">
+            {saving ? "Saving…" : editingId ? "Save changes" : "Create coupon"}
+          </button>
+          {editingId ? (
+            <button type="button" onClick={resetForm}
+              className="min-h-10 rounded-xl border border-gray-200 bg-white px-4 text-sm font-semibold hover:bg-gray-50">
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">All coupons</h2>
+          {loading ? <span className="text-sm text-gray-500">Loading…</span> : null}
+        </div>
+        <div className="overflow-auto">
+          <table className="min-w-[900px] w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-4 py-3 font-semibold">Code</th>
+                <th className="text-left px-4 py-3 font-semibold">Discount</th>
+                <th className="text-left px-4 py-3 font-semibold">Applies to</th>
+                <th className="text-left px-4 py-3 font-semibold">Validity</th>
+                <th className="text-right px-4 py-3 font-semibold">Redemptions</th>
+                <th className="text-right px-4 py-3 font-semibold">Discount given</th>
+                <th className="text-left px-4 py-3 font-semibold">Status</th>
+                <th className="text-right px-4 py-3 font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-8 text-gray-500 text-center" colSpan={8}>
+                    No coupons yet.
+                  </td>
+                </tr>
+              ) : (
+                items.map((c) => {
+                  const state = couponState(c);
+                  return (
+                    <tr key={c.id} className="hover:bg-gray-50/60 transition-colors">
+                      <td className="px-4 py-3">
+                        <div className="font-mono font-semibold text-gray-900">{c.code}</div>
+                        {c.description ? <div className="text-gray-500 text-xs">{c.description}</div> : null}
+                      </td>
+                      <td className="px-4 py-3 text-gray-800">
+                        {c.discount_type === "percent" ? `${c.discount_value}%` : `₹${c.discount_value.toLocaleString("en-IN")}`}
+                        {c.min_order_inr ? (
+                          <div className="text-gray-500 text-xs">Min ₹{c.min_order_inr.toLocaleString("en-IN")}</div>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {c.service_key ? serviceName.get(c.service_key) ?? c.service_key : "All services"}
+                      </td>
+                      <td className="px-4 py-3 text-gray-500 text-xs">
+                        {c.starts_at ? new Date(c.starts_at).toLocaleDateString("en-IN") : "Now"}
+                        {" → "}
+                        {c.ends_at ? new Date(c.ends_at).toLocaleDateString("en-IN") : "No expiry"}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-800">
+                        {c.paid_redemptions}
+                        {c.max_redemptions ? <span className="text-gray-500"> / {c.max_redemptions}</span> : null}
+                        {c.active_redemptions > c.paid_redemptions ? (
+                          <div className="text-gray-500 text-xs">{c.active_redemptions - c.paid_redemptions} pending</div>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-800">₹{c.total_discount_inr.toLocaleString("en-IN")}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-semibold ${state.cls}`}>
+                          {state.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <div className="inline-flex gap-2">
+                          <button type="button" onClick={() => startEdit(c)}
+                            className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50">
+                            Edit
+                          </button>
+                          <button type="button" onClick={() => void remove(c)}
+                            className="min-h-9 rounded-xl border border-rose-200 bg-white px-3 text-sm font-semibold text-rose-700 hover:bg-rose-50">
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </AdminShell>
+  );
+}
@@ -5,6 +5,9 @@ import { useAuth } from "../auth/AuthProvider";
 import { Seo } from "../components/Seo";
 import { Button } from "../components/ui/button";
 import { AdminShell } from "../components/admin/AdminShell";
+import { OrderPaymentsPanel } from "../components/admin/OrderPaymentsPanel";
+import { QuoteBuilder } from "../components/admin/QuoteBuilder";
+import { MessageThread } from "../components/MessageThread";
 import {
   fetchAdminPortalStats,
   fetchAdminUsers,
@@ -12,8 +15,13 @@ import {
   fetchAdminSubmissions,
         updateAdminSubmissionStatus,
     fetchAdminPricing,
+    fetchAdminSubscriptions,
+    fetchAdminOrders,
     createAdminResumesDownloadUrlByPath,
+    type AdminOrder,
+    type Subscription,
 } from "../services/platformService";
+import { billingIntervalLabel, subscriptionStatusBadgeClass } from "../config/billingIntervals";
 
 type Tab = "summary" | "users" | "orders" | "pricing" | "submissions";
 
@@ -44,8 +52,10 @@ export function AdminDashboard({ initialTab = "summary" }: { initialTab?: string
     const [stats, setStats] = useState<any>(null);
     const [users, setUsers] = useState<any[]>([]);
     const [orders, setOrders] = useState<any[]>([]);
+    const [paidOrders, setPaidOrders] = useState<AdminOrder[]>([]);
     const [submissions, setSubmissions] = useState<any[]>([]);
     const [pricing, setPricing] = useState<any[]>([]);
+    const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
 
     const [expandedSubmissionId, setExpandedSubmissionId] = useState<number | null>(null);
     const [downloadBusyKey, setDownloadBusyKey] = useState<string | null>(null);
@@ -84,11 +94,16 @@ export function AdminDashboard({ initialTab = "summary" }: { initialTab?: string
                                 setUsers(res.items);
                                 setTotalUsers(res.total);
                         } else if (t === "orders") {
-                                const res = await fetchAdminSubmissions({ type: "hire" });
+                                const [res, paid] = await Promise.all([
+                                        fetchAdminSubmissions({ type: "hire" }),
+                                        fetchAdminOrders(),
+                                ]);
                                 setOrders(res.items);
+                                setPaidOrders(paid.items);
                 } else if (t === "pricing") {
-                    const res = await fetchAdminPricing();
+                    const [res, subs] = await Promise.all([fetchAdminPricing(), fetchAdminSubscriptions()]);
                     setPricing(res.items);
+                    setSubscriptions(subs.items);
                         } else if (t === "submissions") {
                                 const res = await fetchAdminSubmissions();
                                 setSubmissions(res.items);
@@ -581,6 +596,13 @@ export function AdminDashboard({ initialTab = "summary" }: { initialTab?: string
                                                                             ))}
                                                                     </div>
                                                                 </div>
+                                                                <div className="mt-4">
+                                                                    <QuoteBuilder submissionId={Number(o.id)} submissionData={data} onError={setError} />
+                                                                </div>
+                                                                <div className="mt-4 rounded-2xl border border-gray-200 bg-white p-4">
+                                                                    <div className="text-sm font-semibold text-gray-900 mb-3">Messages</div>
+                                                                    <MessageThread kind="submission" id={Number(o.id)} as="admin" />
+                                                                </div>
                                                             </td>
                                                         </tr>
                                                     ) : null}
@@ -594,6 +616,25 @@ export function AdminDashboard({ initialTab = "summary" }: { initialTab?: string
                     </motion.div>
                 )}
 
+                {!loading && tab === "orders" && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5, delay: 0.15 }}
+                        className="mt-6"
+                    >
+                        <OrderPaymentsPanel
+                            orders={paidOrders}
+                            onError={setError}
+                            onChanged={() => {
+                                fetchAdminOrders()
+                                    .then((r) => setPaidOrders(r.items))
+                                    .catch((e: any) => setError(e?.message ?? "Failed to reload orders"));
+                            }}
+                        />
+                    </motion.div>
+                )}
+
                 {!loading && tab === "pricing" && (
                     <motion.div
                         initial={{ opacity: 0, y: 20 }}
@@ -606,13 +647,14 @@ export function AdminDashboard({ initialTab = "summary" }: { initialTab?: string
                                 <tr>
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Service</th>
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Plan</th>
+                                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Billing</th>
                                     <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Price (INR)</th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-gray-200">
                                 {pricing.length === 0 ? (
                                     <tr>
-                                        <td className="px-6 py-4 text-gray-600" colSpan={3}>No pricing items found.</td>
+                                        <td className="px-6 py-4 text-gray-600" colSpan={4}>No pricing items found.</td>
                                     </tr>
                                 ) : (
                                     pricing.map((p: any, idx: number) => (
@@ -625,6 +667,7 @@ export function AdminDashboard({ initialTab = "summary" }: { initialTab?: string
                                                 <div className="text-sm font-semibold text-gray-900">{p.plan_name ?? p.plan_key ?? "—"}</div>
                                                 <div className="text-xs text-gray-500">{p.plan_key ?? ""}</div>
                                             </td>
+                                            <td className="px-6 py-4 text-sm text-gray-700">{billingIntervalLabel(p.billing_interval ?? "one_time")}</td>
                                             <td className="px-6 py-4 text-right text-sm text-gray-700">
                                                 {typeof p.price_inr === "number" ? p.price_inr.toLocaleString() : String(p.price_inr ?? "—")}
                                             </td>
@@ -633,6 +676,53 @@ export function AdminDashboard({ initialTab = "summary" }: { initialTab?: string
                                 )}
                             </tbody>
                         </table>
+
+                        <div className="border-t border-gray-200 px-6 py-4">
+                            <div className="text-sm font-semibold text-gray-900">Subscriptions</div>
+                            <div className="text-xs text-gray-500">Recurring plans billed through Razorpay. Halted ones need the client to update their payment method.</div>
+                        </div>
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Client</th>
+                                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Plan</th>
+                                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Status</th>
+                                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Charges</th>
+                                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Current period ends</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {subscriptions.length === 0 ? (
+                                    <tr>
+                                        <td className="px-6 py-4 text-gray-600" colSpan={5}>No subscriptions yet.</td>
+                                    </tr>
+                                ) : (
+                                    subscriptions.map((s) => (
+                                        <tr key={s.id}>
+                                            <td className="px-6 py-4">
+                                                <div className="text-sm font-semibold text-gray-900">{s.email}</div>
+                                                <div className="text-xs text-gray-500">Order #{s.order_id}</div>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <div className="text-sm text-gray-900">{s.service_name} — {s.plan_name}</div>
+                                                <div className="text-xs text-gray-500">
+                                                    ₹{s.price_inr.toLocaleString("en-IN")} · {billingIntervalLabel(s.billing_interval)}
+                                                </div>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <span className={`inline-flex rounded-full px-2 py-1 text-xs ${subscriptionStatusBadgeClass(s.status)}`}>
+                                                    {s.status}{s.cancel_at_cycle_end && s.status === "active" ? " · cancelling" : ""}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4 text-right text-sm text-gray-700">{s.charges.length}</td>
+                                            <td className="px-6 py-4 text-right text-sm text-gray-700">
+                                                {s.current_end ? new Date(s.current_end).toLocaleDateString("en-IN") : "—"}
+                                            </td>
+                                        </tr>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
                     </motion.div>
                 )}
 
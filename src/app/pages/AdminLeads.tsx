@@ -0,0 +1,294 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { Seo } from "../components/Seo";
+import { useAuth } from "../auth/AuthProvider";
+import { AdminShell } from "../components/admin/AdminShell";
+import { LeadDetail } from "../components/admin/LeadDetail";
+import { LegacyLeadsAudit } from "../components/admin/LegacyLeadsAudit";
+import { leadLostReasons, leadStageBadgeClass, leadStageLabel, leadStages } from "../config/leadStages";
+import {
+  fetchAdminLeadOwners,
+  fetchAdminLeads,
+  fetchAdminLeadTasks,
+  updateAdminLead,
+  type AdminLead,
+  type LeadStage,
+} from "../services/platformService";
+
+type Tasks = Awaited<ReturnType<typeof fetchAdminLeadTasks>>["items"];
+
+function formatInr(value: number) {
+  return `₹${Math.round(value).toLocaleString("en-IN")}`;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short" });
+}
+
+function isOverdue(value: string | null) {
+  return !!value && new Date(value).getTime() < Date.now();
+}
+
+export function AdminLeads() {
+  const { isAuthed, role } = useAuth();
+
+  const [items, setItems] = useState<AdminLead[]>([]);
+  const [totals, setTotals] = useState<Array<{ stage: LeadStage; count: number; value_inr: number }>>([]);
+  const [owners, setOwners] = useState<string[]>([]);
+  const [tasks, setTasks] = useState<Tasks>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [type, setType] = useState<"" | "contact" | "hire">("");
+  const [owner, setOwner] = useState("");
+  const [q, setQ] = useState("");
+  const [myTasksOnly, setMyTasksOnly] = useState(true);
+
+  const [dragId, setDragId] = useState<number | null>(null);
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  function load() {
+    setError(null);
+    setLoading(true);
+    Promise.all([
+      fetchAdminLeads({ type: type || undefined, owner: owner || undefined, q: q.trim() || undefined }),
+      fetchAdminLeadTasks({ mine: myTasksOnly }),
+    ])
+      .then(([leads, openTasks]) => {
+        setItems(leads.items);
+        setTotals(leads.totals);
+        setTasks(openTasks.items);
+      })
+      .catch((e: any) => setError(e?.message ?? "Failed to load leads"))
+      .finally(() => setLoading(false));
+  }
+
+  useEffect(() => {
+    if (!isAuthed || role !== "admin") return;
+    fetchAdminLeadOwners()
+      .then((r) => setOwners(r.owners))
+      .catch(() => setOwners([]));
+  }, [isAuthed, role]);
+
+  useEffect(() => {
+    if (!isAuthed || role !== "admin") return;
+    const t = window.setTimeout(load, q ? 300 : 0);
+    return () => window.clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthed, role, type, owner, q, myTasksOnly]);
+
+  const openValue = useMemo(
+    () =>
+      totals
+        .filter((t) => t.stage !== "won" && t.stage !== "lost")
+        .reduce((sum, t) => sum + Number(t.value_inr), 0),
+    [totals]
+  );
+  const wonValue = Number(totals.find((t) => t.stage === "won")?.value_inr ?? 0);
+
+  async function move(lead: AdminLead, stage: LeadStage) {
+    if (lead.stage === stage) return;
+    let lostReason: string | undefined;
+    if (stage === "lost") {
+      const answer = window.prompt(
+        `Why was ${lead.name || "this lead"} lost?\n\nFor example: ${leadLostReasons.join(", ")}`,
+        leadLostReasons[0]
+      );
+      if (!answer?.trim()) return;
+      lostReason = answer.trim();
+    }
+
+    setError(null);
+    setBusy(true);
+    try {
+      await updateAdminLead(lead.id, { stage, lostReason });
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to move lead");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!isAuthed || role !== "admin") return <div className="p-10 text-center">Access Denied</div>;
+
+  return (
+    <AdminShell title="Leads">
+      <Seo title="Admin Leads" description="Sales pipeline for contact and hire-us requests." path="/admin/leads" />
+
+      <div className="mb-6 rounded-2xl border border-gray-200 bg-white shadow-sm p-6">
+        <div className="text-sm text-gray-500 font-medium">Sales</div>
+        <div className="text-2xl md:text-3xl font-bold font-poppins mt-0.5">Leads</div>
+        <div className="mt-1 text-sm text-gray-500">
+          Every contact and hire-us request, from first reply to won or lost. Deal values start from the client's budget.
+        </div>
+        <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: "Open leads", value: String(totals.filter((t) => t.stage !== "won" && t.stage !== "lost").reduce((n, t) => n + t.count, 0)) },
+            { label: "Open pipeline value", value: formatInr(openValue) },
+            { label: "Won", value: String(totals.find((t) => t.stage === "won")?.count ?? 0) },
+            { label: "Won value", value: formatInr(wonValue) },
+          ].map((stat) => (
+            <div key={stat.label} className="rounded-xl border border-gray-100 bg-gray-50 px-4 py-3">
+              <div className="text-xs font-semibold text-gray-500">{stat.label}</div>
+              <div className="mt-1 text-xl font-bold text-gray-900">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mb-5 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800">{error}</div>
+      ) : null}
+
+      <div className="mb-4 flex flex-col gap-3 md:flex-row md:items-center">
+        <input
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          placeholder="Search name, email, project…"
+          className="w-full md:w-72 min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900"
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as typeof type)}
+          className="min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900"
+          aria-label="Source"
+        >
+          <option value="">All sources</option>
+          <option value="hire">Hire us</option>
+          <option value="contact">Contact</option>
+        </select>
+        <select
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+          className="min-h-11 rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900"
+          aria-label="Owner"
+        >
+          <option value="">All owners</option>
+          <option value="me">Mine</option>
+          <option value="none">Unassigned</option>
+          {owners.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+        {loading ? <span className="text-sm text-gray-500">Loading…</span> : null}
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {leadStages.map((stage) => {
+          const cards = items.filter((l) => l.stage === stage.value);
+          const total = totals.find((t) => t.stage === stage.value);
+          return (
+            <div
+              key={stage.value}
+              className="w-64 shrink-0 rounded-2xl border border-gray-200 bg-gray-50 p-3"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                const lead = items.find((l) => l.id === dragId);
+                setDragId(null);
+                if (lead) void move(lead, stage.value);
+              }}
+            >
+              <div className="flex items-center justify-between text-sm font-semibold text-gray-900">
+                {stage.label}
+                <span className="text-xs font-normal text-gray-500">{cards.length}</span>
+              </div>
+              {total && Number(total.value_inr) > 0 ? (
+                <div className="text-xs text-gray-500">{formatInr(Number(total.value_inr))}</div>
+              ) : null}
+              <div className="mt-3 grid gap-2">
+                {cards.map((l) => (
+                  <div
+                    key={l.id}
+                    draggable
+                    onDragStart={() => setDragId(l.id)}
+                    className="cursor-grab rounded-xl border border-gray-200 bg-white p-3 text-sm shadow-sm"
+                  >
+                    <button type="button" className="text-left font-medium text-gray-900 hover:underline" onClick={() => setOpenId(l.id)}>
+                      {l.name || l.email || `Lead #${l.id}`}
+                    </button>
+                    <div className="text-xs text-gray-500">
+                      {l.type === "hire" ? "Hire us" : "Contact"}
+                      {l.title ? ` · ${l.title}` : ""}
+                    </div>
+                    <div className="mt-1 text-xs text-gray-600">
+                      {l.deal_value_inr !== null ? formatInr(l.deal_value_inr) : "No value"}
+                      {" · "}
+                      {l.owner_email ?? "Unassigned"}
+                    </div>
+                    {l.stage === "lost" && l.lost_reason ? <div className="mt-1 text-xs text-gray-500">{l.lost_reason}</div> : null}
+                    {l.next_due_at ? (
+                      <div className={`mt-1 text-xs ${isOverdue(l.next_due_at) ? "font-semibold text-rose-700" : "text-gray-600"}`}>
+                        {isOverdue(l.next_due_at) ? "Overdue" : "Next"} task {formatDate(l.next_due_at)}
+                        {l.open_tasks > 1 ? ` (+${l.open_tasks - 1})` : ""}
+                      </div>
+                    ) : null}
+                    <select
+                      value={l.stage}
+                      disabled={busy}
+                      onChange={(e) => void move(l, e.target.value as LeadStage)}
+                      className="mt-2 h-8 w-full rounded-lg border border-gray-200 bg-white px-2 text-xs"
+                      aria-label="Move to stage"
+                    >
+                      {leadStages.map((s) => (
+                        <option key={s.value} value={s.value}>
+                          {s.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-8 rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-bold text-gray-900">Open follow-ups</h2>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={myTasksOnly} onChange={(e) => setMyTasksOnly(e.target.checked)} />
+            Assigned to me
+          </label>
+        </div>
+        {tasks.length === 0 ? (
+          <div className="px-6 py-8 text-center text-sm text-gray-500">No open tasks.</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {tasks.map((t) => (
+              <li key={t.id} className="px-6 py-3 flex flex-wrap items-center justify-between gap-3 text-sm">
+                <div>
+                  <div className="font-medium text-gray-900">{t.title}</div>
+                  <button type="button" className="text-xs text-blue-700 hover:underline" onClick={() => setOpenId(t.lead_id)}>
+                    {t.lead_name || `Lead #${t.lead_id}`}
+                    {t.lead_title ? ` · ${t.lead_title}` : ""}
+                  </button>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`inline-flex rounded-full px-2 py-0.5 text-xs ${leadStageBadgeClass(t.stage)}`}>
+                    {leadStageLabel(t.stage)}
+                  </span>
+                  <span className={`text-xs ${isOverdue(t.due_at) ? "font-semibold text-rose-700" : "text-gray-600"}`}>
+                    {isOverdue(t.due_at) ? "Overdue · " : ""}
+                    {new Date(t.due_at).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })}
+                  </span>
+                  {!myTasksOnly && t.assignee_email ? <span className="text-xs text-gray-500">{t.assignee_email}</span> : null}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <LegacyLeadsAudit />
+
+      {openId !== null ? (
+        <LeadDetail leadId={openId} owners={owners} onClose={() => setOpenId(null)} onChanged={load} />
+      ) : null}
+    </AdminShell>
+  );
+}
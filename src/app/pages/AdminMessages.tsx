@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+
+import { Seo } from "../components/Seo";
+import { useAuth } from "../auth/AuthProvider";
+import { AdminShell } from "../components/admin/AdminShell";
+import { MessageThread } from "../components/MessageThread";
+import { fetchAdminThreads, type AdminThread, type ThreadKind } from "../services/messagesService";
+
+type Selected = { kind: ThreadKind; id: number; label: string; clientEmail: string | null };
+
+function threadKey(t: AdminThread): { kind: ThreadKind; id: number } {
+  return t.order_id ? { kind: "order", id: t.order_id } : { kind: "submission", id: t.submission_id! };
+}
+
+export function AdminMessages() {
+  const { isAuthed, role } = useAuth();
+  const [threads, setThreads] = useState<AdminThread[]>([]);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Selected | null>(null);
+
+  function load() {
+    setLoading(true);
+    fetchAdminThreads(unreadOnly)
+      .then((r) => setThreads(r.items))
+      .catch((e: any) => setError(e?.message ?? "Failed to load messages"))
+      .finally(() => setLoading(false));
+  }
+
+  useEffect(() => {
+    if (!isAuthed || role !== "admin") return;
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthed, role, unreadOnly]);
+
+  if (!isAuthed || role !== "admin") return <div className="p-10 text-center">Access Denied</div>;
+
+  const totalUnread = threads.reduce((sum, t) => sum + t.unread, 0);
+
+  return (
+    <AdminShell title="Messages">
+      <Seo title="Admin Messages" description="Client conversations on orders and submissions." path="/admin/messages" />
+
+      {error ? <div className="mb-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div> : null}
+
+      <div className="grid gap-6 lg:grid-cols-[360px,1fr]">
+        <div className="rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between gap-2">
+            <div>
+              <div className="text-sm font-bold text-gray-900">Inbox</div>
+              <div className="text-xs text-gray-500">{totalUnread} unread</div>
+            </div>
+            <div className="flex items-center gap-3">
+              <label className="inline-flex items-center gap-1 text-xs text-gray-600">
+                <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} />
+                Unread only
+              </label>
+              <button type="button" onClick={load} className="text-xs font-semibold text-blue-700 hover:underline">
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="p-4 text-sm text-gray-500">Loading…</div>
+          ) : threads.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">No conversations yet.</div>
+          ) : (
+            <div className="divide-y divide-gray-100 max-h-[70vh] overflow-y-auto">
+              {threads.map((t) => {
+                const key = threadKey(t);
+                const isActive = selected?.kind === key.kind && selected.id === key.id;
+                return (
+                  <button
+                    key={t.id}
+                    type="button"
+                    onClick={() => setSelected({ ...key, label: t.label, clientEmail: t.client_email })}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${isActive ? "bg-blue-50" : ""}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className={`text-sm truncate ${t.unread > 0 ? "font-bold text-gray-900" : "font-semibold text-gray-700"}`}>
+                        {t.client_name || t.client_email || "Client"}
+                      </div>
+                      {t.unread > 0 ? (
+                        <span className="inline-flex min-w-5 justify-center rounded-full bg-rose-600 px-1.5 text-[11px] font-semibold text-white">
+                          {t.unread}
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{t.label}</div>
+                    <div className="mt-0.5 text-xs text-gray-400 truncate">
+                      {t.last_author_role === "admin" ? "You: " : ""}
+                      {t.last_body || "Attachment"} · {new Date(t.last_message_at).toLocaleString("en-IN")}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div>
+          {selected ? (
+            <div className="rounded-2xl border border-gray-200 bg-white shadow-sm p-4">
+              <div className="mb-3">
+                <div className="text-sm font-bold text-gray-900">{selected.label}</div>
+                {selected.clientEmail ? <div className="text-xs text-gray-500">{selected.clientEmail}</div> : null}
+              </div>
+              <MessageThread
+                key={`${selected.kind}-${selected.id}`}
+                kind={selected.kind}
+                id={selected.id}
+                as="admin"
+                onRead={() =>
+                  setThreads((prev) =>
+                    prev.map((t) => {
+                      const k = threadKey(t);
+                      return k.kind === selected.kind && k.id === selected.id ? { ...t, unread: 0 } : t;
+                    })
+                  )
+                }
+              />
+            </div>
+          ) : (
+            <div className="rounded-2xl border border-dashed border-gray-200 p-10 text-center text-sm text-gray-500">
+              Select a conversation to read and reply.
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminShell>
+  );
+}
@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { Seo } from "../components/Seo";
+import { useAuth } from "../auth/AuthProvider";
+import { AdminShell } from "../components/admin/AdminShell";
+import {
+  fetchAdminReferrals,
+  setAdminReferralActive,
+  type AdminReferralConversion,
+  type AdminReferrer,
+} from "../services/platformService";
+
+function formatInr(value: number) {
+  return `₹${value.toLocaleString("en-IN")}`;
+}
+
+export function AdminReferrals() {
+  const { isAuthed, role } = useAuth();
+
+  const [referrers, setReferrers] = useState<AdminReferrer[]>([]);
+  const [conversions, setConversions] = useState<AdminReferralConversion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  function load() {
+    setError(null);
+    setLoading(true);
+    fetchAdminReferrals()
+      .then((r) => {
+        setReferrers(r.referrers);
+        setConversions(r.conversions);
+      })
+      .catch((e: any) => setError(e?.message ?? "Failed to load referrals"))
+      .finally(() => setLoading(false));
+  }
+
+  useEffect(() => {
+    if (!isAuthed || role !== "admin") return;
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthed, role]);
+
+  const totals = useMemo(
+    () =>
+      referrers.reduce(
+        (acc, r) => ({
+          leads: acc.leads + r.leads + r.applications,
+          hired: acc.hired + r.hired,
+          paid: acc.paid + r.paid_orders,
+          revenue: acc.revenue + r.paid_revenue_inr,
+        }),
+        { leads: 0, hired: 0, paid: 0, revenue: 0 }
+      ),
+    [referrers]
+  );
+
+  // Codes are created when a user opens their profile, so most never bring anyone in.
+  const visible = showAll ? referrers : referrers.filter((r) => r.leads + r.applications + r.orders > 0);
+
+  async function toggleActive(r: AdminReferrer) {
+    const prompt = r.is_active
+      ? `Pause code ${r.code}? New submissions and orders will no longer be credited to ${r.user_email ?? "this user"}.`
+      : `Reactivate code ${r.code}?`;
+    if (!window.confirm(prompt)) return;
+
+    setError(null);
+    try {
+      await setAdminReferralActive(r.id, !r.is_active);
+      load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to update referral code");
+    }
+  }
+
+  if (!isAuthed || role !== "admin") return <div className="p-10 text-center">Access Denied</div>;
+
+  return (
+    <AdminShell title="Referrals">
+      <Seo title="Admin Referrals" description="Referral attribution and conversions." path="/admin/referrals" />
+
+      <div className="mb-6 rounded-2xl border border-gray-200 bg-white shadow-sm p-6">
+        <div className="text-sm text-gray-500 font-medium">Growth</div>
+        <div className="text-2xl md:text-3xl font-bold font-poppins mt-0.5">Referrals</div>
+        <div className="mt-1 text-sm text-gray-500">
+          Submissions and orders that arrived through a user's referral link, and how many converted.
+        </div>
+        <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: "Referred leads", value: String(totals.leads) },
+            { label: "Hired applicants", value: String(totals.hired) },
+            { label: "Paid orders", value: String(totals.paid) },
+            { label: "Paid revenue", value: formatInr(totals.revenue) },
+          ].map((stat) => (
+            <div key={stat.label} className="rounded-xl border border-gray-100 bg-gray-50 px-4 py-3">
+              <div className="text-xs font-semibold text-gray-500">{stat.label}</div>
+              <div className="mt-1 text-xl font-bold text-gray-900">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mb-5 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800">{error}</div>
+      ) : null}
+
+      <div className="mb-8 rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-bold text-gray-900">Referrers</h2>
+          <div className="flex items-center gap-4">
+            {loading ? <span className="text-sm text-gray-500">Loading…</span> : null}
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              Include codes with no referrals
+            </label>
+          </div>
+        </div>
+        <div className="overflow-auto">
+          <table className="min-w-[900px] w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-4 py-3 font-semibold">Referrer</th>
+                <th className="text-left px-4 py-3 font-semibold">Code</th>
+                <th className="text-right px-4 py-3 font-semibold">Project requests</th>
+                <th className="text-right px-4 py-3 font-semibold">Applications</th>
+                <th className="text-right px-4 py-3 font-semibold">Hired</th>
+                <th className="text-right px-4 py-3 font-semibold">Orders</th>
+                <th className="text-right px-4 py-3 font-semibold">Paid</th>
+                <th className="text-right px-4 py-3 font-semibold">Revenue</th>
+                <th className="text-right px-4 py-3 font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-8 text-gray-500 text-center" colSpan={9}>
+                    No referrals yet.
+                  </td>
+                </tr>
+              ) : (
+                visible.map((r) => (
+                  <tr key={r.id} className="hover:bg-gray-50/60 transition-colors">
+                    <td className="px-4 py-3">
+                      <div className="font-semibold text-gray-900">{r.user_name || r.user_email || `User #${r.user_id}`}</div>
+                      {r.user_name && r.user_email ? <div className="text-gray-500 text-xs">{r.user_email}</div> : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="font-mono font-semibold text-gray-900">{r.code}</span>
+                      {!r.is_active ? (
+                        <span className="ml-2 inline-flex rounded-full border border-gray-200 bg-gray-50 px-2 py-0.5 text-xs font-semibold text-gray-600">
+                          Paused
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-800">{r.leads}</td>
+                    <td className="px-4 py-3 text-right text-gray-800">{r.applications}</td>
+                    <td className="px-4 py-3 text-right font-semibold text-gray-900">{r.hired}</td>
+                    <td className="px-4 py-3 text-right text-gray-800">{r.orders}</td>
+                    <td className="px-4 py-3 text-right font-semibold text-gray-900">{r.paid_orders}</td>
+                    <td className="px-4 py-3 text-right text-gray-800">{formatInr(r.paid_revenue_inr)}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button type="button" onClick={() => void toggleActive(r)}
+                        className="min-h-9 rounded-xl border border-gray-200 bg-white px-3 text-sm font-semibold hover:bg-gray-50">
+                        {r.is_active ? "Pause" : "Reactivate"}
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h2 className="text-lg font-bold text-gray-900">Conversions</h2>
+          <div className="text-sm text-gray-500">Referred applicants who were hired and referred orders that were paid.</div>
+        </div>
+        <div className="overflow-auto">
+          <table className="min-w-[800px] w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-4 py-3 font-semibold">Date</th>
+                <th className="text-left px-4 py-3 font-semibold">Type</th>
+                <th className="text-left px-4 py-3 font-semibold">Referred</th>
+                <th className="text-left px-4 py-3 font-semibold">Detail</th>
+                <th className="text-left px-4 py-3 font-semibold">Referrer</th>
+                <th className="text-right px-4 py-3 font-semibold">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {conversions.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-8 text-gray-500 text-center" colSpan={6}>
+                    No conversions yet.
+                  </td>
+                </tr>
+              ) : (
+                conversions.map((c) => (
+                  <tr key={`${c.kind}-${c.application_id ?? c.order_id}`} className="hover:bg-gray-50/60 transition-colors">
+                    <td className="px-4 py-3 text-gray-500 text-xs">{new Date(c.converted_at).toLocaleDateString("en-IN")}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-semibold ${
+                          c.kind === "hired"
+                            ? "bg-purple-50 text-purple-800 border-purple-200"
+                            : "bg-green-50 text-green-800 border-green-200"
+                        }`}
+                      >
+                        {c.kind === "hired" ? `Hired · application #${c.application_id}` : `Paid · order #${c.order_id}`}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-semibold text-gray-900">{c.name}</div>
+                      <div className="text-gray-500 text-xs">{c.email}</div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{c.detail}</td>
+                    <td className="px-4 py-3">
+                      <span className="font-mono text-gray-900">{c.code}</span>
+                      {c.referrer_email ? <div className="text-gray-500 text-xs">{c.referrer_email}</div> : null}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-800">{c.amount_inr != null ? formatInr(c.amount_inr) : "—"}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </AdminShell>
+  );
+}
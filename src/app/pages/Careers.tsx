@@ -10,15 +10,9 @@ import { useAuth } from "../auth/AuthProvider";
 import { GoogleLoginButton } from "../components/GoogleLoginButton";
 import { trackEvent } from "../analytics/track";
 import { CmsSlot } from "../components/cms/CmsBlocks";
-
-const OPEN_ROLES = [
-  { title: "Software Developer", subtitle: "Web & app development" },
-  { title: "Digital marketing", subtitle: "SEO • Social • Ads" },
-  { title: "Web Designer/Ui-Ux", subtitle: "Figma • Design systems" },
-  { title: "Data&Cloud Operator", subtitle: "Cloud ops • Data handling" },
-  { title: "Cyber Security(1+)", subtitle: "Security monitoring • Hardening" },
-  { title: "Trainer of cources(2+)", subtitle: "Training • Mentorship" },
-] as const;
+import { fetchCareerOpenings, type JobOpening } from "../services/platformService";
+import { employmentTypeLabel, salaryRangeLabel } from "../config/jobOpenings";
+import { getStoredReferralCode } from "../lib/referral";
 
 export function Careers() {
   const { isAuthed, openAuthModal } = useAuth();
@@ -35,6 +29,23 @@ export function Careers() {
     | null
   >(null);
 
+  const [openings, setOpenings] = useState<JobOpening[] | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetchCareerOpenings()
+      .then((r) => {
+        if (mounted) setOpenings(r.items);
+      })
+      .catch(() => {
+        if (mounted) setOpenings([]);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
   const email = siteConfig.contact.email;
   const phoneDigits = siteConfig.contact.phone.replace(/\D/g, "");
   const whatsappDigitsRaw = siteConfig.contact.whatsapp.replace(/\D/g, "");
@@ -62,6 +73,7 @@ export function Careers() {
     register,
     handleSubmit,
     reset,
+    setValue,
     watch,
     formState: { errors, isSubmitting },
   } = useForm<CareerFormValues>({
@@ -177,7 +189,7 @@ export function Careers() {
         fullName: values.name,
         email: values.email,
         phone: values.phone,
-        position: values.role,
+        openingId: Number(values.role),
         linkedinUrl: values.linkedinUrl,
         whyHireYou: values.whyHireYou,
         experience: values.experience || undefined,
@@ -185,6 +197,7 @@ export function Careers() {
         resumePath,
         message: values.message || undefined,
         honeypot: values.companyWebsite || undefined,
+        referralCode: getStoredReferralCode(),
       });
 
       setSubmitState({
@@ -244,7 +257,81 @@ export function Careers() {
         <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="grid grid-cols-1 gap-8">
             <motion.div initial={{ opacity: 0, y: 16 }} whileInView={{ opacity: 1, y: 0 }} viewport={{ once: true }}>
-              <div className="bg-white rounded-3xl p-6 sm:p-8 shadow-xl border border-gray-200">
+              <h2 className="text-2xl font-bold text-gray-900 font-poppins">Open roles</h2>
+              {openings === null ? (
+                <p className="mt-2 text-gray-600">Loading roles…</p>
+              ) : openings.length === 0 ? (
+                <p className="mt-2 text-gray-600">
+                  We have no open roles right now. Check back soon, or reach us by email or WhatsApp.
+                </p>
+              ) : (
+                <div className="mt-4 grid gap-4">
+                  {openings.map((o) => {
+                    const salary = salaryRangeLabel(o);
+                    const expanded = expandedId === o.id;
+                    return (
+                      <div key={o.id} className="bg-white rounded-2xl p-5 shadow-sm border border-gray-200">
+                        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                          <div>
+                            <h3 className="text-lg font-semibold text-gray-900">{o.title}</h3>
+                            <div className="mt-1 text-sm text-gray-600">
+                              {[o.department, o.location, employmentTypeLabel(o.employment_type), salary]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                          </div>
+                          <div className="flex gap-3 shrink-0">
+                            {o.description_html || o.requirements.length > 0 ? (
+                              <button
+                                type="button"
+                                onClick={() => setExpandedId(expanded ? null : o.id)}
+                                className="min-h-10 rounded-xl border border-gray-300 px-4 text-sm font-semibold text-gray-900 hover:bg-gray-50"
+                              >
+                                {expanded ? "Hide details" : "Details"}
+                              </button>
+                            ) : null}
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setValue("role", String(o.id), { shouldValidate: true });
+                                document.getElementById("application-form")?.scrollIntoView({ behavior: "smooth" });
+                              }}
+                              className="min-h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold text-white hover:bg-blue-700"
+                            >
+                              Apply
+                            </button>
+                          </div>
+                        </div>
+                        {expanded ? (
+                          <div className="mt-4 border-t border-gray-100 pt-4">
+                            {o.description_html ? (
+                              <div
+                                className="prose max-w-none prose-headings:font-poppins"
+                                // Sanitized by the server when the opening is saved.
+                                dangerouslySetInnerHTML={{ __html: o.description_html }}
+                              />
+                            ) : null}
+                            {o.requirements.length > 0 ? (
+                              <>
+                                <div className="mt-4 font-semibold text-gray-900">Requirements</div>
+                                <ul className="mt-2 list-disc pl-5 text-gray-700 space-y-1">
+                                  {o.requirements.map((r) => (
+                                    <li key={r}>{r}</li>
+                                  ))}
+                                </ul>
+                              </>
+                            ) : null}
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </motion.div>
+
+            <motion.div initial={{ opacity: 0, y: 16 }} whileInView={{ opacity: 1, y: 0 }} viewport={{ once: true }}>
+              <div id="application-form" className="bg-white rounded-3xl p-6 sm:p-8 shadow-xl border border-gray-200">
                 <h2 className="text-2xl font-bold text-gray-900 font-poppins">Application form</h2>
                 <p className="mt-2 text-gray-600">Fill this like a quick Google Form — we’ll reach out soon.</p>
 
@@ -405,12 +492,11 @@ export function Careers() {
                       <option value="" disabled>
                         Select a role
                       </option>
-                      {OPEN_ROLES.map((r) => (
-                        <option key={r.title} value={r.title}>
-                          {r.title}
+                      {(openings ?? []).map((o) => (
+                        <option key={o.id} value={String(o.id)}>
+                          {o.title}
                         </option>
                       ))}
-                      <option value="Other">Other</option>
                     </select>
                     {errors.role ? <p className="mt-2 text-sm text-rose-700">{errors.role.message}</p> : null}
                   </div>
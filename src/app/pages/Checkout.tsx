@@ -3,28 +3,20 @@ import { useNavigate, useSearchParams, Link } from "react-router";
 
 import { Seo } from "../components/Seo";
 import { CTAButton } from "../components/CTAButton";
-import { createOrder, fetchPricing, verifyPayment, type PricingItem } from "../services/platformService";
+import {
+  createOrder,
+  createSubscription,
+  fetchPricing,
+  validateCoupon,
+  verifyPayment,
+  verifySubscriptionPayment,
+  type PricingItem,
+} from "../services/platformService";
+import { billingIntervalSuffix } from "../config/billingIntervals";
 import { CmsSlot } from "../components/cms/CmsBlocks";
-
-function loadRazorpayScript() {
-  return new Promise<void>((resolve, reject) => {
-    if (window.Razorpay) return resolve();
-    const existing = document.querySelector<HTMLScriptElement>("script[data-razorpay]");
-    if (existing) {
-      existing.addEventListener("load", () => resolve());
-      existing.addEventListener("error", () => reject(new Error("Failed to load Razorpay")));
-      return;
-    }
-
-    const script = document.createElement("script");
-    script.src = "https://checkout.razorpay.com/v1/checkout.js";
-    script.async = true;
-    script.dataset.razorpay = "true";
-    script.onload = () => resolve();
-    script.onerror = () => reject(new Error("Failed to load Razorpay"));
-    document.body.appendChild(script);
-  });
-}
+import { GSTIN_PATTERN, gstStates } from "../config/gstStates";
+import { loadRazorpayScript } from "../lib/razorpay";
+import { getStoredReferralCode } from "../lib/referral";
 
 export function Checkout() {
   const navigate = useNavigate();
@@ -37,9 +29,18 @@ export function Checkout() {
   const [pricingId, setPricingId] = useState<number | null>(Number.isFinite(pricingIdFromUrl) && pricingIdFromUrl > 0 ? pricingIdFromUrl : null);
 
   const selected = useMemo(() => pricing.find((p) => p.id === pricingId) ?? null, [pricing, pricingId]);
+  const isRecurring = !!selected && selected.billing_interval !== "one_time";
+  const priceSuffix = billingIntervalSuffix(selected?.billing_interval);
 
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
+  const [billingAddress, setBillingAddress] = useState("");
+  const [placeOfSupply, setPlaceOfSupply] = useState("10");
+  const [gstin, setGstin] = useState("");
+  const [couponInput, setCouponInput] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<{ code: string; discountInr: number; finalPriceInr: number } | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
 
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -67,15 +68,59 @@ export function Checkout() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // A discount is only valid for the plan and email it was checked against.
+  useEffect(() => {
+    setAppliedCoupon(null);
+  }, [pricingId, email]);
+
+  async function onApplyCoupon() {
+    setCouponError(null);
+    const code = couponInput.trim();
+    if (!code) return;
+    if (!pricingId) return setCouponError("Please select a plan first.");
+    if (!email.includes("@")) return setCouponError("Enter your email before applying a coupon.");
+
+    setApplyingCoupon(true);
+    try {
+      const r = await validateCoupon({ code, pricingId, email: email.trim() });
+      setAppliedCoupon({ code: r.code, discountInr: r.discountInr, finalPriceInr: r.finalPriceInr });
+      setCouponInput(r.code);
+    } catch (e: any) {
+      setAppliedCoupon(null);
+      setCouponError(e?.message ?? "Invalid coupon code");
+    } finally {
+      setApplyingCoupon(false);
+    }
+  }
+
   async function onPay() {
     setError(null);
     if (!pricingId) return setError("Please select a plan.");
     if (name.trim().length < 2) return setError("Please enter your name.");
     if (!email.includes("@")) return setError("Please enter a valid email.");
+    if (billingAddress.trim().length < 5) return setError("Please enter your billing address.");
+
+    const normalizedGstin = gstin.trim().toUpperCase();
+    if (normalizedGstin) {
+      if (!GSTIN_PATTERN.test(normalizedGstin)) return setError("Please enter a valid 15-character GSTIN.");
+      if (normalizedGstin.slice(0, 2) !== placeOfSupply) {
+        return setError("GSTIN state code does not match the selected billing state.");
+      }
+    }
 
     setSubmitting(true);
+    if (isRecurring) return startSubscription(pricingId, normalizedGstin);
     try {
-      const created = await createOrder({ pricingId, name: name.trim(), email: email.trim() });
+      const created = await createOrder({
+        pricingId,
+        name: name.trim(),
+        email: email.trim(),
+        billingAddress: billingAddress.trim(),
+        placeOfSupply,
+        gstin: normalizedGstin || undefined,
+        couponCode: appliedCoupon?.code,
+        referralCode: getStoredReferralCode(),
+      });
       await loadRazorpayScript();
 
       const options = {
@@ -115,6 +160,56 @@ export function Checkout() {
     }
   }
 
+  // Recurring plans: the first payment authorises a Razorpay subscription that
+  // renews automatically; each renewal is invoiced and shown in the portal.
+  async function startSubscription(planId: number, normalizedGstin: string) {
+    try {
+      const created = await createSubscription({
+        pricingId: planId,
+        name: name.trim(),
+        email: email.trim(),
+        billingAddress: billingAddress.trim(),
+        placeOfSupply,
+        gstin: normalizedGstin || undefined,
+        referralCode: getStoredReferralCode(),
+      });
+      await loadRazorpayScript();
+
+      const options = {
+        key: created.razorpay.keyId,
+        subscription_id: created.razorpay.subscriptionId,
+        name: "HZ IT Company",
+        description: selected ? `${selected.service_name} • ${selected.plan_name}` : "Subscription",
+        prefill: { name: name.trim(), email: email.trim() },
+        handler: async (resp: any) => {
+          try {
+            await verifySubscriptionPayment({
+              subscriptionId: created.subscriptionId,
+              razorpaySubscriptionId: resp.razorpay_subscription_id,
+              razorpayPaymentId: resp.razorpay_payment_id,
+              razorpaySignature: resp.razorpay_signature,
+            });
+            navigate(`/payment/success?orderId=${created.orderId}`);
+          } catch (e: any) {
+            setError(e?.message ?? "Payment verification failed");
+          }
+        },
+        modal: {
+          ondismiss: () => {
+            setSubmitting(false);
+          },
+        },
+      };
+
+      const rzp = new (window as any).Razorpay(options);
+      rzp.open();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to start checkout");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Seo title="Checkout" description="Secure checkout for HZ IT Company services." path="/checkout" />
@@ -139,7 +234,8 @@ export function Checkout() {
               >
                 {pricing.map((p) => (
                   <option key={p.id} value={p.id}>
-                    {p.service_name} — {p.plan_name} (₹{p.price_inr.toLocaleString("en-IN")})
+                    {p.service_name} — {p.plan_name} (₹{p.price_inr.toLocaleString("en-IN")}
+                    {billingIntervalSuffix(p.billing_interval)})
                   </option>
                 ))}
               </select>
@@ -165,15 +261,109 @@ export function Checkout() {
               />
             </label>
 
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Billing Address</span>
+              <textarea
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+                rows={3}
+                value={billingAddress}
+                onChange={(e) => setBillingAddress(e.target.value)}
+                placeholder="Company / street, city, PIN code"
+              />
+            </label>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Billing State</span>
+                <select
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+                  value={placeOfSupply}
+                  onChange={(e) => setPlaceOfSupply(e.target.value)}
+                >
+                  {gstStates.map((st) => (
+                    <option key={st.code} value={st.code}>
+                      {st.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">GSTIN (optional)</span>
+                <input
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 uppercase"
+                  value={gstin}
+                  maxLength={15}
+                  onChange={(e) => {
+                    const next = e.target.value.toUpperCase();
+                    setGstin(next);
+                    // A GSTIN encodes its state; keep the billing state in step.
+                    const code = next.slice(0, 2);
+                    if (/^\d{2}$/.test(code) && gstStates.some((st) => st.code === code)) setPlaceOfSupply(code);
+                  }}
+                  placeholder="For B2B tax invoices"
+                />
+              </label>
+            </div>
+
+            {isRecurring ? null : (
+              <div className="block">
+                <span className="text-sm font-medium text-gray-700">Coupon Code</span>
+                <div className="mt-1 flex gap-2">
+                  <input
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 uppercase"
+                    value={couponInput}
+                    maxLength={40}
+                    onChange={(e) => {
+                      setCouponInput(e.target.value.toUpperCase());
+                      setAppliedCoupon(null);
+                      setCouponError(null);
+                    }}
+                    placeholder="Have a discount code?"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => void onApplyCoupon()}
+                    disabled={applyingCoupon || !couponInput.trim()}
+                    className="shrink-0 rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    {applyingCoupon ? "Checking…" : "Apply"}
+                  </button>
+                </div>
+                {couponError ? <p className="mt-1 text-sm text-red-600">{couponError}</p> : null}
+                {appliedCoupon ? (
+                  <p className="mt-1 text-sm text-green-700">
+                    {appliedCoupon.code} applied — you save ₹{appliedCoupon.discountInr.toLocaleString("en-IN")}
+                  </p>
+                ) : null}
+              </div>
+            )}
+
             {selected ? (
               <div className="mt-2 rounded-xl bg-gray-50 border border-gray-200 p-4">
                 <div className="text-sm text-gray-700">You’re ordering</div>
                 <div className="mt-1 font-semibold text-gray-900">
                   {selected.service_name} — {selected.plan_name}
                 </div>
+                {appliedCoupon ? (
+                  <div className="mt-1 text-sm text-gray-600">
+                    Price: <span className="line-through">₹{selected.price_inr.toLocaleString("en-IN")}</span>
+                    <span className="ml-2 text-green-700">−₹{appliedCoupon.discountInr.toLocaleString("en-IN")}</span>
+                  </div>
+                ) : null}
                 <div className="mt-1 text-gray-700">
-                  Total: <span className="font-semibold">₹{selected.price_inr.toLocaleString("en-IN")}</span>
+                  Total:{" "}
+                  <span className="font-semibold">
+                    ₹{(appliedCoupon?.finalPriceInr ?? selected.price_inr).toLocaleString("en-IN")}
+                    {priceSuffix}
+                  </span>
+                  <span className="ml-1 text-xs text-gray-500">(inclusive of GST)</span>
                 </div>
+                {isRecurring ? (
+                  <div className="mt-1 text-xs text-gray-500">
+                    Renews automatically. You can pause or cancel anytime from the client portal.
+                  </div>
+                ) : null}
               </div>
             ) : null}
 
@@ -185,7 +375,7 @@ export function Checkout() {
 
             <div className="mt-4 flex flex-col sm:flex-row gap-3">
               <CTAButton onClick={onPay} disabled={submitting || loadingPricing}>
-                {submitting ? "Starting payment…" : "Pay with Razorpay"}
+                {submitting ? "Starting payment…" : isRecurring ? "Subscribe with Razorpay" : "Pay with Razorpay"}
               </CTAButton>
               <Link
                 to="/services"
@@ -196,7 +386,7 @@ export function Checkout() {
             </div>
 
             <p className="mt-6 text-sm text-gray-500">
-              After payment, you can log in to the client portal to download your invoice.
+              After payment, you can log in to the client portal to download your GST invoice.
             </p>
           </div>
         </div>
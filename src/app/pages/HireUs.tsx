@@ -18,6 +18,7 @@ import { hireUsSchema, type HireUsFormValues } from "../schemas/hireUsSchema";
 import { submitHireUsAuthed } from "../services/contactService";
 import { trackEvent } from "../analytics/track";
 import { CmsSlot } from "../components/cms/CmsBlocks";
+import { getStoredReferralCode } from "../lib/referral";
 
 export function HireUs() {
   const [step, setStep] = useState(1);
@@ -137,6 +138,13 @@ export function HireUs() {
   const fmtInr = (amount: number) => `₹${inr.format(amount)}`;
 
   const deliveryDaysOptions = [7, 14, 21, 30, 45, 60, 90];
+  const budgetOptions = [
+    "Under ₹50,000",
+    "₹50,000 – ₹2,00,000",
+    "₹2,00,000 – ₹5,00,000",
+    "₹5,00,000 – ₹10,00,000",
+    "Above ₹10,00,000",
+  ];
 
   const {
     register,
@@ -158,6 +166,7 @@ export function HireUs() {
       projectDescription: "",
       serviceDetails: {},
       deliveryDays: 14,
+      budget: "",
       clarification: "",
       personalMessage: "",
       referenceUrl: "",
@@ -183,7 +192,7 @@ export function HireUs() {
     1: ["name", "email", "phone", "company"],
     2: ["services"],
     3: ["projectName", "projectDescription"],
-    4: ["deliveryDays", "clarification", "personalMessage", "referenceUrl", "additionalNotes"],
+    4: ["deliveryDays", "budget", "clarification", "personalMessage", "referenceUrl", "additionalNotes"],
   };
 
   const nextStep = async () => {
@@ -225,11 +234,13 @@ export function HireUs() {
         projectDescription: values.projectDescription,
         serviceDetails: values.serviceDetails ?? undefined,
         deliveryDays: values.deliveryDays,
+        budget: values.budget || undefined,
         clarification: values.clarification || undefined,
         personalMessage: values.personalMessage || undefined,
         referenceUrl: values.referenceUrl || undefined,
         additionalNotes: values.additionalNotes || undefined,
         honeypot: values.companyWebsite || undefined,
+        referralCode: getStoredReferralCode(),
       });
       setSubmitState({
         status: "success",
@@ -720,6 +731,24 @@ export function HireUs() {
                     ) : null}
                   </div>
 
+                  <div>
+                    <label htmlFor="hire-budget" className="block text-sm font-medium text-gray-700 mb-2">
+                      Estimated budget (optional)
+                    </label>
+                    <select
+                      id="hire-budget"
+                      {...register("budget")}
+                      className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-600 focus:ring-2 focus:ring-blue-600/20 outline-none transition-all"
+                    >
+                      <option value="">Not sure yet</option>
+                      {budgetOptions.map((b) => (
+                        <option key={b} value={b}>
+                          {b}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div>
                     <label htmlFor="hire-clarification" className="block text-sm font-medium text-gray-700 mb-2">
                       Service clarifications (optional)
@@ -2,10 +2,6 @@ import { useState } from "react";
 import { motion } from "motion/react";
 import { Link } from "react-router";
 import {
-  Code,
-  Smartphone,
-  Cloud,
-  Lightbulb,
   ArrowRight,
   CheckCircle2,
   Star,
@@ -16,6 +12,10 @@ import { CTAButton } from "../components/CTAButton";
 import { Seo } from "../components/Seo";
 import { siteConfig } from "../config/site";
 import { CmsSlot } from "../components/cms/CmsBlocks";
+import { PortfolioCard } from "../components/PortfolioCard";
+import { TestimonialSlider } from "../components/TestimonialSlider";
+import { defaultHomeServices, featuredItems, serviceIcon } from "../config/contentCollections";
+import { useContentCollection } from "../lib/useContentCollection";
 
 export function Home() {
   const [feedbackRating, setFeedbackRating] = useState(0);
@@ -30,32 +30,12 @@ export function Home() {
     setFeedbackDone(true);
   }
 
-  const services = [
-    {
-      icon: Code,
-      title: "Web Development",
-      description: "Custom web applications built with modern technologies",
-      features: ["React & Next.js", "Responsive Design", "SEO Optimized"],
-    },
-    {
-      icon: Smartphone,
-      title: "Mobile Apps",
-      description: "Native and cross-platform mobile solutions",
-      features: ["iOS & Android", "React Native", "User-Centric Design"],
-    },
-    {
-      icon: Cloud,
-      title: "Cloud Solutions",
-      description: "Scalable cloud infrastructure and migration services",
-      features: ["AWS & Azure", "DevOps", "Auto Scaling"],
-    },
-    {
-      icon: Lightbulb,
-      title: "IT Consulting",
-      description: "Strategic technology consulting for digital transformation",
-      features: ["Digital Strategy", "Tech Stack", "Process Optimization"],
-    },
-  ];
+  // Admin-managed collections; the Home page shows the featured entries.
+  const serviceCollection = useContentCollection("services", defaultHomeServices);
+  const services = serviceCollection.fromCms ? featuredItems(serviceCollection.items, 4) : serviceCollection.items;
+  const portfolioCollection = useContentCollection("portfolio", []);
+  const portfolioProjects = featuredItems(portfolioCollection.items, 3);
+  const testimonialCollection = useContentCollection("testimonials", []);
 
   const stats = [
     { label: "Projects Completed" },
@@ -64,12 +44,6 @@ export function Home() {
     { label: "Years Experience" },
   ];
 
-  const portfolioProjects = [
-    { id: 1, title: "E-Commerce Platform", category: "Web Development" },
-    { id: 2, title: "Healthcare App", category: "Mobile Development" },
-    { id: 3, title: "Financial Dashboard", category: "Cloud Solutions" },
-  ];
-
   return (
     <div className="min-h-screen">
       <Seo
@@ -265,7 +239,7 @@ export function Home() {
             {services.map((service, index) => (
               <ServiceCard
                 key={index}
-                icon={service.icon}
+                icon={serviceIcon(service.icon)}
                 title={service.title}
                 description={service.description}
                 features={service.features}
@@ -308,30 +282,38 @@ export function Home() {
             </p>
           </motion.div>
 
-          <motion.div
-            initial={{ opacity: 0, y: 24 }}
-            whileInView={{ opacity: 1, y: 0 }}
-            viewport={{ once: true }}
-            className="flex flex-col items-center justify-center py-20 px-8 rounded-3xl border-2 border-dashed border-gray-200 bg-gray-50"
-          >
+          {portfolioProjects.length ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {portfolioProjects.map((project, index) => (
+                <PortfolioCard key={index} project={project} delay={index * 0.1} />
+              ))}
+            </div>
+          ) : (
             <motion.div
-              animate={{ scale: [1, 1.08, 1] }}
-              transition={{ duration: 3, repeat: Infinity }}
-              className="w-20 h-20 rounded-2xl bg-blue-100 flex items-center justify-center mb-6"
+              initial={{ opacity: 0, y: 24 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              className="flex flex-col items-center justify-center py-20 px-8 rounded-3xl border-2 border-dashed border-gray-200 bg-gray-50"
             >
-              <Clock size={36} className="text-blue-500" />
+              <motion.div
+                animate={{ scale: [1, 1.08, 1] }}
+                transition={{ duration: 3, repeat: Infinity }}
+                className="w-20 h-20 rounded-2xl bg-blue-100 flex items-center justify-center mb-6"
+              >
+                <Clock size={36} className="text-blue-500" />
+              </motion.div>
+              <h3 className="text-2xl font-bold text-gray-900 font-poppins">Portfolio Coming Soon</h3>
+              <p className="mt-3 text-gray-500 max-w-md text-center">
+                Our portfolio is being curated. Exciting case studies and project showcases are on their way!
+              </p>
+              <Link
+                to="/portfolio"
+                className="mt-6 inline-flex items-center gap-2 rounded-xl bg-blue-600 px-6 py-3 text-white font-semibold hover:bg-blue-700 transition-colors"
+              >
+                Visit Portfolio <ArrowRight size={18} />
+              </Link>
             </motion.div>
-            <h3 className="text-2xl font-bold text-gray-900 font-poppins">Portfolio Coming Soon</h3>
-            <p className="mt-3 text-gray-500 max-w-md text-center">
-              Our portfolio is being curated. Exciting case studies and project showcases are on their way!
-            </p>
-            <Link
-              to="/portfolio"
-              className="mt-6 inline-flex items-center gap-2 rounded-xl bg-blue-600 px-6 py-3 text-white font-semibold hover:bg-blue-700 transition-colors"
-            >
-              Visit Portfolio <ArrowRight size={18} />
-            </Link>
-          </motion.div>
+          )}
 
           <div className="text-center mt-12">
             <CTAButton to="/portfolio">View All Projects</CTAButton>
@@ -359,25 +341,29 @@ export function Home() {
           </motion.div>
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-10 items-start">
-            {/* Coming Soon Reviews Placeholder */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              whileInView={{ opacity: 1, y: 0 }}
-              viewport={{ once: true }}
-              className="rounded-3xl border-2 border-dashed border-gray-200 bg-white p-10 flex flex-col items-center justify-center text-center min-h-[340px]"
-            >
+            {testimonialCollection.fromCms ? (
+              <TestimonialSlider items={testimonialCollection.items.map((item, i) => ({ ...item, id: i }))} />
+            ) : (
+              /* Coming Soon Reviews Placeholder */
               <motion.div
-                animate={{ scale: [1, 1.12, 1] }}
-                transition={{ duration: 2.5, repeat: Infinity }}
-                className="text-5xl mb-5"
+                initial={{ opacity: 0, y: 20 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                className="rounded-3xl border-2 border-dashed border-gray-200 bg-white p-10 flex flex-col items-center justify-center text-center min-h-[340px]"
               >
-                ⭐
+                <motion.div
+                  animate={{ scale: [1, 1.12, 1] }}
+                  transition={{ duration: 2.5, repeat: Infinity }}
+                  className="text-5xl mb-5"
+                >
+                  ⭐
+                </motion.div>
+                <h3 className="text-xl font-bold text-gray-900 font-poppins">Client Reviews Coming Soon</h3>
+                <p className="mt-3 text-gray-500 max-w-xs text-sm">
+                  Real reviews from our clients will appear here. Be the first to share your experience!
+                </p>
               </motion.div>
-              <h3 className="text-xl font-bold text-gray-900 font-poppins">Client Reviews Coming Soon</h3>
-              <p className="mt-3 text-gray-500 max-w-xs text-sm">
-                Real reviews from our clients will appear here. Be the first to share your experience!
-              </p>
-            </motion.div>
+            )}
 
             {/* Feedback Submission Form */}
             <motion.div
@@ -1,27 +1,62 @@
-import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { ChangeEvent, Fragment, useEffect, useMemo, useState } from "react";
 import { Link } from "react-router";
 
 import { Seo } from "../components/Seo";
 import { useAuth } from "../auth/AuthProvider";
-import { fetchPortalOrders } from "../services/platformService";
+import {
+  acceptPortalQuote,
+  declinePortalQuote,
+  downloadMilestoneInvoice,
+  downloadQuotePdf,
+  fetchPortalOrders,
+  fetchPortalQuotes,
+  payMilestone,
+  verifyMilestonePayment,
+  verifyPayment,
+  type PortalMilestone,
+  type PortalOrder,
+  type PortalQuote,
+} from "../services/platformService";
+import { fetchMyUnreadMessages, type UnreadCounts } from "../services/messagesService";
 import { CmsSlot } from "../components/cms/CmsBlocks";
+import { MessageThread } from "../components/MessageThread";
+import { OrderDeliverables } from "../components/OrderDeliverables";
+import { PortalSubscriptions } from "../components/PortalSubscriptions";
+import { GSTIN_PATTERN, gstStates } from "../config/gstStates";
+import { projectStatusBadgeClass, projectStatusLabel } from "../config/projectStatuses";
+import { loadRazorpayScript } from "../lib/razorpay";
+
+function paymentBadgeClass(status: string) {
+  if (status === "paid") return "bg-green-100 text-green-800";
+  if (status === "partially_paid") return "bg-amber-100 text-amber-800";
+  return "bg-gray-100 text-gray-700";
+}
+
+function formatDue(date: string | null) {
+  if (!date) return "—";
+  return new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+}
 
 export function PortalDashboard() {
   const { isAuthed, role, logout, user } = useAuth();
 
-  type PortalOrderItem = {
-    id: number;
-    service_name: string;
-    plan_name: string;
-    price_inr: number | string;
-    payment_status: string;
-    project_status: string;
-  };
-
-  const [items, setItems] = useState<PortalOrderItem[]>([]);
+  const [items, setItems] = useState<PortalOrder[]>([]);
   const [loading, setLoading] = useState(true);
   const [query, setQuery] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [timelineId, setTimelineId] = useState<number | null>(null);
+  const [messagesId, setMessagesId] = useState<number | null>(null);
+  const [filesId, setFilesId] = useState<number | null>(null);
+  const [unread, setUnread] = useState<UnreadCounts["orders"]>({});
+
+  const [quotes, setQuotes] = useState<PortalQuote[]>([]);
+  const [acceptingQuoteId, setAcceptingQuoteId] = useState<number | null>(null);
+  const [billingAddress, setBillingAddress] = useState("");
+  const [placeOfSupply, setPlaceOfSupply] = useState("10");
+  const [gstin, setGstin] = useState("");
+  const [quoteBusyId, setQuoteBusyId] = useState<number | null>(null);
 
   useEffect(() => {
     setItems([]);
@@ -34,8 +69,20 @@ export function PortalDashboard() {
 
     let mounted = true;
     setLoading(true);
+    fetchMyUnreadMessages()
+      .then((r) => {
+        if (mounted) setUnread(r.orders);
+      })
+      .catch(() => undefined);
+    fetchPortalQuotes()
+      .then((r) => {
+        if (mounted) setQuotes(r.items);
+      })
+      .catch(() => {
+        if (mounted) setQuotes([]);
+      });
     fetchPortalOrders()
-      .then((r: any) => {
+      .then((r) => {
         if (!mounted) return;
         setItems(r.items);
       })
@@ -51,7 +98,7 @@ export function PortalDashboard() {
     return () => {
       mounted = false;
     };
-  }, [isAuthed, user?.id]);
+  }, [isAuthed, user?.id, reloadKey]);
 
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
@@ -76,6 +123,143 @@ export function PortalDashboard() {
     setTimeout(() => URL.revokeObjectURL(url), 60_000);
   }
 
+  async function openMilestoneInvoice(orderId: number, milestoneId: number) {
+    setError(null);
+    try {
+      const blob = await downloadMilestoneInvoice(orderId, milestoneId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank", "noopener,noreferrer");
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (e: any) {
+      setError(e?.message ?? "Invoice download failed");
+    }
+  }
+
+  async function onPayMilestone(order: PortalOrder, milestone: PortalMilestone) {
+    setError(null);
+    setPayingId(milestone.id);
+    try {
+      const created = await payMilestone(order.id, milestone.id);
+      await loadRazorpayScript();
+
+      const rzp = new (window as any).Razorpay({
+        key: created.razorpay.keyId,
+        amount: created.razorpay.amount,
+        currency: created.razorpay.currency,
+        name: "HZ IT Company",
+        description: `${order.service_name} • ${milestone.label}`,
+        order_id: created.razorpay.orderId,
+        prefill: { email: user?.email ?? undefined },
+        handler: async (resp: any) => {
+          try {
+            await verifyMilestonePayment({
+              milestoneId: milestone.id,
+              razorpayOrderId: resp.razorpay_order_id,
+              razorpayPaymentId: resp.razorpay_payment_id,
+              razorpaySignature: resp.razorpay_signature,
+            });
+          } catch (e: any) {
+            setError(e?.message ?? "Payment verification failed");
+          } finally {
+            setReloadKey((k) => k + 1);
+          }
+        },
+        modal: {
+          ondismiss: () => setPayingId(null),
+        },
+      });
+      rzp.open();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to start payment");
+    } finally {
+      setPayingId(null);
+    }
+  }
+
+  async function openQuotePdf(quoteId: number) {
+    setError(null);
+    try {
+      const blob = await downloadQuotePdf(quoteId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank", "noopener,noreferrer");
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (e: any) {
+      setError(e?.message ?? "Quote download failed");
+    }
+  }
+
+  async function onAcceptQuote(quote: PortalQuote) {
+    const normalizedGstin = gstin.trim().toUpperCase();
+    if (billingAddress.trim().length < 10) return setError("Please enter your full billing address.");
+    if (normalizedGstin) {
+      if (!GSTIN_PATTERN.test(normalizedGstin)) return setError("Please enter a valid 15-character GSTIN.");
+      if (normalizedGstin.slice(0, 2) !== placeOfSupply) {
+        return setError("GSTIN state code does not match the selected state.");
+      }
+    }
+
+    setError(null);
+    setQuoteBusyId(quote.id);
+    try {
+      const created = await acceptPortalQuote(quote.id, {
+        billingAddress: billingAddress.trim(),
+        placeOfSupply,
+        gstin: normalizedGstin || undefined,
+      });
+      await loadRazorpayScript();
+
+      const rzp = new (window as any).Razorpay({
+        key: created.razorpay.keyId,
+        amount: created.razorpay.amount,
+        currency: created.razorpay.currency,
+        name: "HZ IT Company",
+        description: quote.quote_number ? `${quote.quote_number} • ${quote.title}` : quote.title,
+        order_id: created.razorpay.orderId,
+        prefill: { name: quote.client_name, email: user?.email ?? undefined },
+        handler: async (resp: any) => {
+          try {
+            await verifyPayment({
+              orderId: created.orderId,
+              razorpayOrderId: resp.razorpay_order_id,
+              razorpayPaymentId: resp.razorpay_payment_id,
+              razorpaySignature: resp.razorpay_signature,
+            });
+          } catch (e: any) {
+            setError(e?.message ?? "Payment verification failed");
+          } finally {
+            setReloadKey((k) => k + 1);
+          }
+        },
+        modal: {
+          // The quote is already accepted; the order shows up as pending.
+          ondismiss: () => setReloadKey((k) => k + 1),
+        },
+      });
+      setAcceptingQuoteId(null);
+      rzp.open();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to accept quote");
+    } finally {
+      setQuoteBusyId(null);
+    }
+  }
+
+  async function onDeclineQuote(quote: PortalQuote) {
+    const reason = window.prompt("Let us know why you're declining (optional):");
+    if (reason === null) return;
+
+    setError(null);
+    setQuoteBusyId(quote.id);
+    try {
+      await declinePortalQuote(quote.id, reason.trim() || undefined);
+      setReloadKey((k) => k + 1);
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to decline quote");
+    } finally {
+      setQuoteBusyId(null);
+    }
+  }
+
   if (!isAuthed) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -114,6 +298,115 @@ export function PortalDashboard() {
           </button>
         </div>
 
+        <PortalSubscriptions key={reloadKey} />
+
+        {quotes.length > 0 ? (
+          <div className="mt-8 bg-white rounded-2xl border border-gray-200 p-4 sm:p-6">
+            <h2 className="text-lg font-semibold text-gray-900">Quotes</h2>
+            <div className="mt-3 grid gap-3">
+              {quotes.map((q) => {
+                const awaitingPayment = q.status === "accepted" && q.order_payment_status !== "paid";
+                const canRespond = q.status === "sent" && !q.expired;
+                return (
+                  <div key={q.id} className="rounded-xl border border-gray-200 p-4">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div>
+                        <div className="font-medium text-gray-900">{q.title}</div>
+                        <div className="text-xs text-gray-500">
+                          {q.quote_number} · ₹{q.total_inr.toLocaleString("en-IN")} · valid until {formatDue(q.valid_until)}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span
+                          className={`inline-flex rounded-full px-2 py-1 text-xs ${
+                            q.status === "accepted"
+                              ? "bg-green-100 text-green-800"
+                              : q.status === "declined" || q.expired
+                                ? "bg-gray-100 text-gray-600"
+                                : "bg-blue-50 text-blue-700"
+                          }`}
+                        >
+                          {q.status === "sent" && q.expired
+                            ? "expired"
+                            : q.status === "accepted" && q.order_payment_status === "paid"
+                              ? "accepted · paid"
+                              : q.status}
+                        </span>
+                        <button className="text-blue-700 hover:underline" onClick={() => openQuotePdf(q.id)}>
+                          View PDF
+                        </button>
+                        {canRespond || awaitingPayment ? (
+                          <button
+                            className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                            disabled={quoteBusyId !== null}
+                            onClick={() => setAcceptingQuoteId(acceptingQuoteId === q.id ? null : q.id)}
+                          >
+                            {awaitingPayment ? "Complete payment" : "Accept & pay"}
+                          </button>
+                        ) : null}
+                        {canRespond ? (
+                          <button
+                            className="text-xs font-semibold text-gray-600 hover:underline disabled:opacity-60"
+                            disabled={quoteBusyId !== null}
+                            onClick={() => onDeclineQuote(q)}
+                          >
+                            Decline
+                          </button>
+                        ) : null}
+                      </div>
+                    </div>
+
+                    {acceptingQuoteId === q.id ? (
+                      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                        <label className="grid gap-1 text-xs font-semibold text-gray-600 sm:col-span-2">
+                          Billing address
+                          <textarea
+                            rows={2}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-normal text-gray-900"
+                            value={billingAddress}
+                            onChange={(e) => setBillingAddress(e.target.value)}
+                          />
+                        </label>
+                        <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                          State (place of supply)
+                          <select
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-normal text-gray-900"
+                            value={placeOfSupply}
+                            onChange={(e) => setPlaceOfSupply(e.target.value)}
+                          >
+                            {gstStates.map((st) => (
+                              <option key={st.code} value={st.code}>
+                                {st.name}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="grid gap-1 text-xs font-semibold text-gray-600">
+                          GSTIN (optional)
+                          <input
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-normal text-gray-900"
+                            value={gstin}
+                            onChange={(e) => setGstin(e.target.value)}
+                          />
+                        </label>
+                        <div className="sm:col-span-2">
+                          <button
+                            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                            disabled={quoteBusyId !== null}
+                            onClick={() => onAcceptQuote(q)}
+                          >
+                            {quoteBusyId === q.id ? "Starting…" : `Pay ₹${q.total_inr.toLocaleString("en-IN")}`}
+                          </button>
+                        </div>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : null}
+
         <div className="mt-8 bg-white rounded-2xl border border-gray-200 p-4 sm:p-6">
           <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
             <input
@@ -157,29 +450,154 @@ export function PortalDashboard() {
                   </tr>
                 ) : (
                   filtered.map((o) => (
-                    <tr key={o.id} className="border-t border-gray-100">
-                      <td className="py-3 font-medium text-gray-900">#{o.id}</td>
-                      <td className="py-3 text-gray-800">{o.service_name}</td>
-                      <td className="py-3 text-gray-800">{o.plan_name}</td>
-                      <td className="py-3 text-gray-800">₹{Number(o.price_inr).toLocaleString("en-IN")}</td>
-                      <td className="py-3">
-                        <span className={`inline-flex rounded-full px-2 py-1 text-xs ${o.payment_status === "paid" ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"}`}>
-                          {o.payment_status}
-                        </span>
-                      </td>
-                      <td className="py-3">
-                        <span className="inline-flex rounded-full bg-blue-50 text-blue-700 px-2 py-1 text-xs">{o.project_status}</span>
-                      </td>
-                      <td className="py-3">
-                        {o.payment_status === "paid" ? (
-                          <button className="text-blue-700 hover:underline" onClick={() => downloadInvoice(o.id)}>
-                            Download
+                    <Fragment key={o.id}>
+                      <tr className="border-t border-gray-100">
+                        <td className="py-3 font-medium text-gray-900">
+                          #{o.id}
+                          <button
+                            className="ml-2 text-xs font-normal text-blue-700 hover:underline"
+                            onClick={() => setMessagesId(messagesId === o.id ? null : o.id)}
+                          >
+                            Messages
+                            {unread[o.id] ? (
+                              <span className="ml-1 inline-flex min-w-5 justify-center rounded-full bg-rose-600 px-1.5 text-[11px] font-semibold text-white">
+                                {unread[o.id]}
+                              </span>
+                            ) : null}
+                          </button>
+                          <button
+                            className="ml-2 text-xs font-normal text-blue-700 hover:underline"
+                            onClick={() => setFilesId(filesId === o.id ? null : o.id)}
+                          >
+                            Files
+                          </button>
+                        </td>
+                        <td className="py-3 text-gray-800">{o.service_name}</td>
+                        <td className="py-3 text-gray-800">{o.plan_name}</td>
+                        <td className="py-3 text-gray-800">₹{Number(o.price_inr).toLocaleString("en-IN")}</td>
+                        <td className="py-3">
+                          <span className={`inline-flex rounded-full px-2 py-1 text-xs ${paymentBadgeClass(o.payment_status)}`}>
+                            {o.payment_status === "partially_paid" ? "partially paid" : o.payment_status}
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          <button
+                            className={`inline-flex rounded-full px-2 py-1 text-xs ${projectStatusBadgeClass(o.project_status)}`}
+                            title="Show project timeline"
+                            onClick={() => setTimelineId(timelineId === o.id ? null : o.id)}
+                          >
+                            {projectStatusLabel(o.project_status)} {timelineId === o.id ? "▴" : "▾"}
                           </button>
-                        ) : (
-                          <span className="text-gray-400">—</span>
-                        )}
-                      </td>
-                    </tr>
+                        </td>
+                        <td className="py-3">
+                          {o.milestones.length > 0 ? (
+                            <span className="text-gray-500">Per milestone</span>
+                          ) : o.subscription_id ? (
+                            <span className="text-gray-500">Per billing cycle</span>
+                          ) : o.payment_status === "paid" ? (
+                            <button className="text-blue-700 hover:underline" onClick={() => downloadInvoice(o.id)}>
+                              Download
+                            </button>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </td>
+                      </tr>
+                      {filesId === o.id ? (
+                        <tr>
+                          <td className="pb-4" colSpan={7}>
+                            <OrderDeliverables orderId={o.id} onProjectDelivered={() => setReloadKey((k) => k + 1)} />
+                          </td>
+                        </tr>
+                      ) : null}
+                      {messagesId === o.id ? (
+                        <tr>
+                          <td className="pb-4" colSpan={7}>
+                            <MessageThread
+                              kind="order"
+                              id={o.id}
+                              onRead={() => setUnread((prev) => ({ ...prev, [o.id]: 0 }))}
+                            />
+                          </td>
+                        </tr>
+                      ) : null}
+                      {timelineId === o.id ? (
+                        <tr>
+                          <td className="pb-4" colSpan={7}>
+                            <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
+                              <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">Project timeline</div>
+                              <ol className="mt-3 ml-2 border-l border-gray-300">
+                                <li className="relative pl-4 pb-3">
+                                  <span className="absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full bg-gray-400" />
+                                  <div className="font-medium text-gray-900">Order placed</div>
+                                  <div className="text-xs text-gray-500">{formatDue(o.created_at)}</div>
+                                </li>
+                                {o.status_history.map((e, idx) => (
+                                  <li key={e.id} className="relative pl-4 pb-3 last:pb-0">
+                                    <span
+                                      className={`absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full ${
+                                        idx === o.status_history.length - 1 ? "bg-blue-600" : "bg-gray-400"
+                                      }`}
+                                    />
+                                    <div className="font-medium text-gray-900">{projectStatusLabel(e.to_status)}</div>
+                                    <div className="text-xs text-gray-500">
+                                      {new Date(e.created_at).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })}
+                                    </div>
+                                    {e.note ? <div className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{e.note}</div> : null}
+                                  </li>
+                                ))}
+                              </ol>
+                            </div>
+                          </td>
+                        </tr>
+                      ) : null}
+                      {o.milestones.length > 0 ? (
+                        <tr>
+                          <td className="pb-4" colSpan={7}>
+                            <div className="rounded-xl border border-gray-200 bg-gray-50 p-3">
+                              <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">Payment schedule</div>
+                              <div className="mt-2 grid gap-2">
+                                {o.milestones.map((m) => (
+                                  <div
+                                    key={m.id}
+                                    className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 bg-white px-3 py-2"
+                                  >
+                                    <div>
+                                      <div className="font-medium text-gray-900">{m.label}</div>
+                                      <div className="text-xs text-gray-500">
+                                        ₹{m.amount_inr.toLocaleString("en-IN")}
+                                        {m.status === "paid" && m.paid_at
+                                          ? ` · paid ${formatDue(m.paid_at)}`
+                                          : ` · due ${formatDue(m.due_date)}`}
+                                      </div>
+                                    </div>
+                                    {m.status === "paid" ? (
+                                      m.has_invoice ? (
+                                        <button className="text-blue-700 hover:underline" onClick={() => openMilestoneInvoice(o.id, m.id)}>
+                                          Invoice
+                                        </button>
+                                      ) : (
+                                        <span className="text-xs text-green-700">Paid</span>
+                                      )
+                                    ) : o.payment_status === "refunded" ? (
+                                      <span className="text-xs text-gray-400">—</span>
+                                    ) : (
+                                      <button
+                                        className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+                                        disabled={payingId !== null}
+                                        onClick={() => onPayMilestone(o, m)}
+                                      >
+                                        {payingId === m.id ? "Starting…" : m.status === "failed" ? "Retry payment" : "Pay now"}
+                                      </button>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      ) : null}
+                    </Fragment>
                   ))
                 )}
               </tbody>
@@ -1,10 +1,24 @@
+import { useMemo, useState } from "react";
 import { motion } from "motion/react";
 import { Clock } from "lucide-react";
 import { Seo } from "../components/Seo";
 import { CmsSlot } from "../components/cms/CmsBlocks";
+import { PortfolioCard } from "../components/PortfolioCard";
+import { useContentCollection } from "../lib/useContentCollection";
+
+const placeholderCategories = ["All", "Web Development", "Mobile Apps", "Cloud Solutions", "UI/UX Design"];
 
 export function Portfolio() {
-  const categories = ["All", "Web Development", "Mobile Apps", "Cloud Solutions", "UI/UX Design"];
+  // Projects from Admin › Collections; until some are published the page
+  // shows the "coming soon" state with inactive filters.
+  const { items: projects } = useContentCollection("portfolio", []);
+  const [activeCategory, setActiveCategory] = useState("All");
+
+  const categories = useMemo(
+    () => (projects.length ? ["All", ...new Set(projects.map((p) => p.category))] : placeholderCategories),
+    [projects]
+  );
+  const visibleProjects = activeCategory === "All" ? projects : projects.filter((p) => p.category === activeCategory);
 
   return (
     <div className="min-h-screen">
@@ -48,71 +62,95 @@ export function Portfolio() {
       <section className="py-12 bg-white border-b">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex flex-wrap justify-center gap-4">
-            {categories.map((category) => (
-              <button
-                key={category}
-                type="button"
-                disabled
-                className="px-6 py-2.5 rounded-lg font-medium bg-white/70 backdrop-blur-sm text-gray-400 border border-gray-200 cursor-not-allowed"
-              >
-                {category}
-              </button>
-            ))}
+            {categories.map((category) =>
+              projects.length ? (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => setActiveCategory(category)}
+                  aria-pressed={activeCategory === category}
+                  className={`px-6 py-2.5 rounded-lg font-medium border transition-colors ${
+                    activeCategory === category
+                      ? "bg-blue-600 text-white border-blue-600"
+                      : "bg-white/70 backdrop-blur-sm text-gray-700 border-gray-200 hover:border-blue-300 hover:text-blue-700"
+                  }`}
+                >
+                  {category}
+                </button>
+              ) : (
+                <button
+                  key={category}
+                  type="button"
+                  disabled
+                  className="px-6 py-2.5 rounded-lg font-medium bg-white/70 backdrop-blur-sm text-gray-400 border border-gray-200 cursor-not-allowed"
+                >
+                  {category}
+                </button>
+              )
+            )}
           </div>
         </div>
       </section>
 
-      {/* Coming Soon Section */}
+      {/* Projects / Coming Soon Section */}
       <section className="py-20 bg-gray-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <motion.div
-            initial={{ opacity: 0, y: 30 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.6 }}
-            className="flex flex-col items-center justify-center text-center py-24"
-          >
+          {projects.length ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {visibleProjects.map((project, index) => (
+                <PortfolioCard key={`${activeCategory}-${index}`} project={project} delay={(index % 3) * 0.1} />
+              ))}
+            </div>
+          ) : (
             <motion.div
-              animate={{ rotate: [0, 10, -10, 10, 0] }}
-              transition={{ duration: 3, repeat: Infinity, ease: "easeInOut" }}
-              className="mb-8 flex items-center justify-center w-24 h-24 rounded-2xl bg-gradient-to-br from-blue-600 to-blue-800 shadow-2xl"
-            >
-              <Clock size={44} className="text-white" />
-            </motion.div>
-
-            <motion.h2
-              initial={{ opacity: 0, y: 16 }}
+              initial={{ opacity: 0, y: 30 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.2 }}
-              className="text-5xl md:text-6xl font-bold text-gray-900 font-poppins mb-4"
+              transition={{ duration: 0.6 }}
+              className="flex flex-col items-center justify-center text-center py-24"
             >
-              Coming Soon
-            </motion.h2>
+              <motion.div
+                animate={{ rotate: [0, 10, -10, 10, 0] }}
+                transition={{ duration: 3, repeat: Infinity, ease: "easeInOut" }}
+                className="mb-8 flex items-center justify-center w-24 h-24 rounded-2xl bg-gradient-to-br from-blue-600 to-blue-800 shadow-2xl"
+              >
+                <Clock size={44} className="text-white" />
+              </motion.div>
 
-            <motion.p
-              initial={{ opacity: 0, y: 12 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.35 }}
-              className="text-xl text-gray-500 max-w-xl mx-auto mb-10"
-            >
-              We are currently curating our best work. Our case studies and project showcases will be published here very soon.
-            </motion.p>
+              <motion.h2
+                initial={{ opacity: 0, y: 16 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.2 }}
+                className="text-5xl md:text-6xl font-bold text-gray-900 font-poppins mb-4"
+              >
+                Coming Soon
+              </motion.h2>
 
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              transition={{ delay: 0.5 }}
-              className="flex flex-wrap justify-center gap-3"
-            >
-              {["Web Development", "Mobile Apps", "Cloud Solutions", "UI/UX Design"].map((tag) => (
-                <span
-                  key={tag}
-                  className="px-4 py-2 rounded-full bg-blue-50 text-blue-700 text-sm font-medium border border-blue-100"
-                >
-                  {tag}
-                </span>
-              ))}
+              <motion.p
+                initial={{ opacity: 0, y: 12 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.35 }}
+                className="text-xl text-gray-500 max-w-xl mx-auto mb-10"
+              >
+                We are currently curating our best work. Our case studies and project showcases will be published here very soon.
+              </motion.p>
+
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: 0.5 }}
+                className="flex flex-wrap justify-center gap-3"
+              >
+                {["Web Development", "Mobile Apps", "Cloud Solutions", "UI/UX Design"].map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-4 py-2 rounded-full bg-blue-50 text-blue-700 text-sm font-medium border border-blue-100"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </motion.div>
             </motion.div>
-          </motion.div>
+          )}
         </div>
       </section>
 
@@ -11,6 +11,7 @@ import { Input } from "../components/ui/input";
 import { CmsSlot } from "../components/cms/CmsBlocks";
 import { Link } from "react-router";
 import { fetchMySubmissions, type SubmissionItem } from "../services/submissionsService";
+import { ReferralCard } from "../components/ReferralCard";
 
 const profileSchema = z.object({
   full_name: z.string().min(2, "Name must be at least 2 characters"),
@@ -279,6 +280,8 @@ export function Profile() {
             </div>
           )}
         </div>
+
+        {user ? <ReferralCard /> : null}
       </div>
 
       {/* Admin-managed page blocks */}
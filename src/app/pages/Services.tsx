@@ -1,29 +1,19 @@
 import { motion } from "motion/react";
-import {
-  Code,
-  Smartphone,
-  Cloud,
-  Lightbulb,
-  Database,
-  Shield,
-  Zap,
-  BarChart3,
-  Globe,
-  Cpu,
-  Palette,
-  Headphones,
-} from "lucide-react";
 import { ServiceCard } from "../components/ServiceCard";
 import { CTAButton } from "../components/CTAButton";
 import { Seo } from "../components/Seo";
 import { useEffect, useMemo, useState } from "react";
 import { fetchPricing, type PricingItem } from "../services/platformService";
+import { billingIntervalSuffix } from "../config/billingIntervals";
 import { Link } from "react-router";
 import { CmsSlot } from "../components/cms/CmsBlocks";
+import { defaultServices, serviceIcon } from "../config/contentCollections";
+import { useContentCollection } from "../lib/useContentCollection";
 
 export function Services() {
   const [pricing, setPricing] = useState<PricingItem[]>([]);
   const [pricingError, setPricingError] = useState<string | null>(null);
+  const { items: services } = useContentCollection("services", defaultServices);
 
   useEffect(() => {
     let mounted = true;
@@ -69,153 +59,6 @@ export function Services() {
     });
   }, [pricing]);
 
-  const services = [
-    {
-      icon: Code,
-      title: "Web Development",
-      description: "Build powerful, scalable web applications with modern frameworks and best practices.",
-      features: [
-        "React, Next.js, Vue.js development",
-        "Progressive Web Apps (PWA)",
-        "E-commerce solutions",
-        "Custom CMS development",
-        "API integration & development",
-      ],
-    },
-    {
-      icon: Smartphone,
-      title: "Mobile App Development",
-      description: "Create seamless mobile experiences for iOS and Android platforms.",
-      features: [
-        "Native iOS & Android apps",
-        "Cross-platform with React Native",
-        "Flutter development",
-        "App Store optimization",
-        "Maintenance & updates",
-      ],
-    },
-    {
-      icon: Cloud,
-      title: "Cloud Solutions",
-      description: "Leverage the power of cloud infrastructure for scalability and performance.",
-      features: [
-        "AWS, Azure, Google Cloud",
-        "Cloud migration services",
-        "DevOps & CI/CD pipelines",
-        "Serverless architecture",
-        "Infrastructure as Code",
-      ],
-    },
-    {
-      icon: Database,
-      title: "Database Management",
-      description: "Design and optimize robust database solutions for your applications.",
-      features: [
-        "SQL & NoSQL databases",
-        "Database design & modeling",
-        "Performance optimization",
-        "Data migration services",
-        "Backup & recovery solutions",
-      ],
-    },
-    {
-      icon: Shield,
-      title: "Cybersecurity",
-      description: "Protect your digital assets with comprehensive security solutions.",
-      features: [
-        "Security audits & assessments",
-        "Penetration testing",
-        "SSL/TLS implementation",
-        "Data encryption",
-        "Compliance consulting",
-      ],
-    },
-    {
-      icon: Lightbulb,
-      title: "IT Consulting",
-      description: "Strategic technology guidance for digital transformation and growth.",
-      features: [
-        "Digital transformation strategy",
-        "Technology stack selection",
-        "Process optimization",
-        "Architecture design",
-        "Project management",
-      ],
-    },
-    {
-      icon: Palette,
-      title: "UI/UX Design",
-      description: "Create beautiful, intuitive user experiences that drive engagement.",
-      features: [
-        "User research & testing",
-        "Wireframing & prototyping",
-        "Responsive design",
-        "Design systems",
-        "Accessibility compliance",
-      ],
-    },
-    {
-      icon: BarChart3,
-      title: "Data Analytics",
-      description: "Transform data into actionable insights for better decision-making.",
-      features: [
-        "Business intelligence solutions",
-        "Data visualization",
-        "Predictive analytics",
-        "Custom dashboards",
-        "Reporting automation",
-      ],
-    },
-    {
-      icon: Globe,
-      title: "Digital Marketing",
-      description: "Boost your online presence with comprehensive digital marketing strategies.",
-      features: [
-        "SEO optimization",
-        "Content marketing",
-        "Social media management",
-        "Email campaigns",
-        "Analytics & reporting",
-      ],
-    },
-    {
-      icon: Cpu,
-      title: "AI & Machine Learning",
-      description: "Harness the power of AI to automate and optimize your business processes.",
-      features: [
-        "Machine learning models",
-        "Natural language processing",
-        "Computer vision solutions",
-        "Chatbots & virtual assistants",
-        "Predictive modeling",
-      ],
-    },
-    {
-      icon: Zap,
-      title: "Performance Optimization",
-      description: "Maximize the speed and efficiency of your applications and infrastructure.",
-      features: [
-        "Code optimization",
-        "Load balancing",
-        "Caching strategies",
-        "CDN implementation",
-        "Performance monitoring",
-      ],
-    },
-    {
-      icon: Headphones,
-      title: "24/7 Support",
-      description: "Round-the-clock technical support to keep your systems running smoothly.",
-      features: [
-        "Dedicated support team",
-        "Incident management",
-        "Proactive monitoring",
-        "SLA guarantees",
-        "Emergency response",
-      ],
-    },
-  ];
-
   const process = [
     {
       step: "01",
@@ -295,7 +138,7 @@ export function Services() {
             {services.map((service, index) => (
               <ServiceCard
                 key={index}
-                icon={service.icon}
+                icon={serviceIcon(service.icon)}
                 title={service.title}
                 description={service.description}
                 features={service.features}
@@ -329,12 +172,16 @@ export function Services() {
                   <div className="text-sm font-medium text-gray-600">{s.serviceName}</div>
                   <div className="mt-2 text-2xl font-bold text-gray-900">
                     Starting from ₹{s.starting.price_inr.toLocaleString("en-IN")}
+                    {billingIntervalSuffix(s.starting.billing_interval)}
                   </div>
                   <div className="mt-4 grid gap-2 text-sm text-gray-700">
                     {s.plans.slice(0, 3).map((p) => (
                       <div key={p.id} className="flex items-center justify-between">
                         <span>{p.plan_name}</span>
-                        <span className="font-semibold">₹{p.price_inr.toLocaleString("en-IN")}</span>
+                        <span className="font-semibold">
+                          ₹{p.price_inr.toLocaleString("en-IN")}
+                          {billingIntervalSuffix(p.billing_interval)}
+                        </span>
                       </div>
                     ))}
                   </div>
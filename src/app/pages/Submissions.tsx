@@ -1,11 +1,15 @@
 ﻿import { useEffect, useRef, useState } from "react";
 import { motion, AnimatePresence } from "motion/react";
-import { Pencil, X, Save, ChevronDown, ChevronUp } from "lucide-react";
+import { Pencil, X, Save, ChevronDown, ChevronUp, MessageSquare } from "lucide-react";
 
 import { Seo } from "../components/Seo";
 import { useAuth } from "../auth/AuthProvider";
 import { fetchMySubmissions, updateSubmission, type SubmissionItem } from "../services/submissionsService";
+import { fetchMyUnreadMessages } from "../services/messagesService";
 import { CmsSlot } from "../components/cms/CmsBlocks";
+import { MessageThread } from "../components/MessageThread";
+import { CareerApplicationPanel } from "../components/CareerApplicationPanel";
+import { fetchMyCareerApplications, type MyCareerApplication } from "../services/careersService";
 
 function formatDate(d: string) {
   const dt = new Date(d);
@@ -27,6 +31,7 @@ function statusColor(status?: string | null) {
     case "shortlisted": return "text-sky-700 bg-sky-50 border-sky-200";
     case "hired": return "text-emerald-700 bg-emerald-50 border-emerald-200";
     case "rejected": return "text-rose-700 bg-rose-50 border-rose-200";
+    case "withdrawn": return "text-gray-600 bg-gray-100 border-gray-200";
     default: return "text-blue-700 bg-blue-50 border-blue-200";
   }
 }
@@ -171,11 +176,25 @@ export function Submissions() {
   const [editingId, setEditingId] = useState<number | null>(null);
   const [expandedId, setExpandedId] = useState<number | null>(null);
   const [savedIds, setSavedIds] = useState<Set<number>>(new Set());
+  const [messagesId, setMessagesId] = useState<number | null>(null);
+  const [unread, setUnread] = useState<Record<number, number>>({});
+  const [careerApps, setCareerApps] = useState<Record<number, MyCareerApplication>>({});
+
+  function loadCareerApps() {
+    return fetchMyCareerApplications().then((r) => {
+      const bySubmission: Record<number, MyCareerApplication> = {};
+      for (const app of r.items) {
+        if (app.submission_id) bySubmission[app.submission_id] = app;
+      }
+      return bySubmission;
+    });
+  }
 
   useEffect(() => {
     // Always clear stale data first — prevents previous user's submissions
     // from showing while the new user's fetch is in progress.
     setItems([]);
+    setCareerApps({});
     setFetchError(null);
 
     if (!isAuthed) {
@@ -186,6 +205,14 @@ export function Submissions() {
     let mounted = true;
     setLoading(true);
 
+    fetchMyUnreadMessages()
+      .then((r) => { if (mounted) setUnread(r.submissions); })
+      .catch(() => undefined);
+
+    loadCareerApps()
+      .then((apps) => { if (mounted) setCareerApps(apps); })
+      .catch(() => undefined);
+
     fetchMySubmissions()
       .then((r) => { if (mounted) setItems(r.items ?? []); })
       .catch((e: any) => { if (mounted) setFetchError(e?.message ?? "Failed to load submissions"); })
@@ -234,7 +261,7 @@ export function Submissions() {
           <motion.div initial={{ opacity: 0, y: 24 }} animate={{ opacity: 1, y: 0 }} className="text-center">
             <h1 className="text-5xl md:text-6xl font-bold mb-4 font-poppins">My Submissions</h1>
             <p className="text-lg md:text-xl text-gray-300 max-w-2xl mx-auto">
-              Contact, hire, and career requests you've sent. Edit open requests anytime.
+              Contact, hire, and career requests you've sent. Edit open requests and follow your job applications.
             </p>
           </motion.div>
         </div>
@@ -271,6 +298,10 @@ export function Submissions() {
                     const isExpanded = expandedId === item.id;
                     const justSaved = savedIds.has(item.id);
                     const editable = canEdit(item);
+                    const careerApp = item.type === "career" ? careerApps[item.id] : undefined;
+                    const pendingQuestions = careerApp && !careerApp.withdrawn_at
+                      ? careerApp.info_requests.filter((r) => !r.response).length
+                      : 0;
 
                     const title =
                       item.type === "contact"
@@ -288,7 +319,8 @@ export function Submissions() {
                               : data.services || data.email)
                           : data.email;
 
-                    const statusLabel = formatStatus(item.status);
+                    const status = careerApp ? (careerApp.withdrawn_at ? "withdrawn" : careerApp.status) : item.status;
+                    const statusLabel = formatStatus(status);
                     const typeLabel = item.type === "hire" ? "Hire Us" : item.type === "contact" ? "Contact" : "Career";
 
                     return (
@@ -300,7 +332,7 @@ export function Submissions() {
                               <div className="flex items-center gap-2 flex-wrap">
                                 <span className="text-xs font-bold uppercase tracking-wide text-gray-400">{typeLabel}</span>
                                 {statusLabel ? (
-                                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${statusColor(item.status)}`}>
+                                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${statusColor(status)}`}>
                                     {statusLabel}
                                   </span>
                                 ) : (
@@ -308,6 +340,11 @@ export function Submissions() {
                                     New
                                   </span>
                                 )}
+                                {pendingQuestions ? (
+                                  <span className="text-xs font-semibold px-2 py-0.5 rounded-full border text-amber-700 bg-amber-50 border-amber-200">
+                                    {pendingQuestions === 1 ? "1 question for you" : `${pendingQuestions} questions for you`}
+                                  </span>
+                                ) : null}
                                 {justSaved ? (
                                   <span className="text-xs font-semibold px-2 py-0.5 rounded-full border text-emerald-700 bg-emerald-50 border-emerald-200">
                                     Saved
@@ -344,6 +381,21 @@ export function Submissions() {
                                   Cancel
                                 </button>
                               ) : null}
+                              {!isEditing ? (
+                                <button
+                                  type="button"
+                                  onClick={() => setMessagesId(messagesId === item.id ? null : item.id)}
+                                  className="inline-flex items-center gap-1 px-3 py-1.5 rounded-xl border border-gray-200 text-gray-600 text-xs font-semibold hover:bg-gray-50 transition-all"
+                                >
+                                  <MessageSquare size={12} />
+                                  Messages
+                                  {unread[item.id] ? (
+                                    <span className="ml-0.5 inline-flex min-w-4 justify-center rounded-full bg-rose-600 px-1 text-[10px] text-white">
+                                      {unread[item.id]}
+                                    </span>
+                                  ) : null}
+                                </button>
+                              ) : null}
                               {!isEditing ? (
                                 <button
                                   type="button"
@@ -394,6 +446,16 @@ export function Submissions() {
                                     This submission is under review and can no longer be edited.
                                   </p>
                                 ) : null}
+                                {careerApp ? (
+                                  <div className="mt-5 pt-4 border-t border-gray-100">
+                                    <CareerApplicationPanel
+                                      application={careerApp}
+                                      onChanged={() => {
+                                        loadCareerApps().then(setCareerApps).catch(() => undefined);
+                                      }}
+                                    />
+                                  </div>
+                                ) : null}
                               </div>
                             </motion.div>
                           ) : null}
@@ -410,6 +472,18 @@ export function Submissions() {
                             />
                           ) : null}
                         </AnimatePresence>
+
+                        {/* Conversation with the team */}
+                        {messagesId === item.id && !isEditing ? (
+                          <div className="px-5 sm:px-6 pb-5 border-t border-gray-100 pt-4 bg-gray-50/60">
+                            <div className="text-xs font-semibold text-gray-500 mb-3 uppercase tracking-wide">Messages</div>
+                            <MessageThread
+                              kind="submission"
+                              id={item.id}
+                              onRead={() => setUnread((prev) => ({ ...prev, [item.id]: 0 }))}
+                            />
+                          </div>
+                        ) : null}
                       </div>
                     );
                   })}
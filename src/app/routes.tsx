@@ -133,8 +133,8 @@ export const router = createBrowserRouter([
       {
         path: "admin/leads",
         lazy: async () => {
-          const { AdminDashboard } = await import("./pages/AdminDashboard");
-          return { Component: () => <RequireAdmin><AdminDashboard initialTab="submissions" /></RequireAdmin> };
+          const { AdminLeads } = await import("./pages/AdminLeads");
+          return { Component: () => <RequireAdmin><AdminLeads /></RequireAdmin> };
         },
       },
       {
@@ -144,6 +144,27 @@ export const router = createBrowserRouter([
           return { Component: () => <RequireAdmin><AdminDashboard initialTab="submissions" /></RequireAdmin> };
         },
       },
+      {
+        path: "admin/coupons",
+        lazy: async () => {
+          const { AdminCoupons } = await import("./pages/AdminCoupons");
+          return { Component: () => <RequireAdmin><AdminCoupons /></RequireAdmin> };
+        },
+      },
+      {
+        path: "admin/referrals",
+        lazy: async () => {
+          const { AdminReferrals } = await import("./pages/AdminReferrals");
+          return { Component: () => <RequireAdmin><AdminReferrals /></RequireAdmin> };
+        },
+      },
+      {
+        path: "admin/messages",
+        lazy: async () => {
+          const { AdminMessages } = await import("./pages/AdminMessages");
+          return { Component: () => <RequireAdmin><AdminMessages /></RequireAdmin> };
+        },
+      },
       {
         path: "admin/careers",
         lazy: async () => {
@@ -158,6 +179,13 @@ export const router = createBrowserRouter([
           return { Component: () => <RequireAdmin><AdminContent /></RequireAdmin> };
         },
       },
+      {
+        path: "admin/collections",
+        lazy: async () => {
+          const { AdminCollections } = await import("./pages/AdminCollections");
+          return { Component: () => <RequireAdmin><AdminCollections /></RequireAdmin> };
+        },
+      },
     ],
   },
 ]);
@@ -4,7 +4,7 @@ export const careerSchema = z.object({
   name: z.string().min(2, "Please enter your name"),
   email: z.string().email("Please enter a valid email"),
   phone: z.string().min(8, "Please enter a valid phone number"),
-  role: z.string().min(2, "Please enter the role you’re applying for"),
+  role: z.string().min(1, "Please select the role you’re applying for"),
   experience: z.string().optional(),
   linkedinUrl: z
     .string()
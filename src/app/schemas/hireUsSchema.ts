@@ -10,6 +10,7 @@ export const hireUsSchema = z.object({
   projectDescription: z.string().trim().min(20, "Please describe your project"),
   serviceDetails: z.record(z.string(), z.string().trim()).optional(),
   deliveryDays: z.number().int().positive("Enter delivery days").max(365, "Too long"),
+  budget: z.string().trim().optional(),
   clarification: z.string().trim().optional(),
   personalMessage: z.string().trim().optional(),
   referenceUrl: z.string().trim().optional(),
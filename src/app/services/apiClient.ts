@@ -67,6 +67,22 @@ async function parseJsonSafe(response: Response) {
   }
 }
 
+async function toApiError(response: Response): Promise<ApiError> {
+  const details = await parseJsonSafe(response);
+  return {
+    message:
+      typeof details === "object" && details
+        ? ("message" in (details as any)
+            ? String((details as any).message)
+            : "error" in (details as any)
+              ? String((details as any).error)
+              : `Request failed (${response.status})`)
+        : `Request failed (${response.status})`,
+    status: response.status,
+    details,
+  };
+}
+
 let cachedAuthToken: string | null = null;
 
 export function setApiAuthToken(token: string | null) {
@@ -193,20 +209,7 @@ async function requestJson<TResponse>(
   }
 
   if (!response.ok) {
-    const details = await parseJsonSafe(response);
-    const error: ApiError = {
-      message:
-        typeof details === "object" && details
-          ? ("message" in (details as any)
-              ? String((details as any).message)
-              : "error" in (details as any)
-                ? String((details as any).error)
-                : `Request failed (${response.status})`)
-          : `Request failed (${response.status})`,
-      status: response.status,
-      details,
-    };
-    throw error;
+    throw await toApiError(response);
   }
 
   const json = (await parseJsonSafe(response)) as TResponse;
@@ -256,3 +259,19 @@ export async function patchJson<TRequest extends Record<string, unknown>, TRespo
 export function deleteJson<TResponse>(path: string, options?: { signal?: AbortSignal; token?: string }) {
   return requestJson<TResponse>("DELETE", path, { signal: options?.signal, token: options?.token });
 }
+
+// Binary downloads (PDFs, exports) from authenticated endpoints.
+export async function getBlob(path: string, options?: { signal?: AbortSignal }) {
+  const token = await getAuthToken();
+  const response = await fetch(joinBaseAndPath(getBaseUrl(), path), {
+    method: "GET",
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    signal: options?.signal,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return response.blob();
+}
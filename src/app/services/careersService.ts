@@ -1,5 +1,5 @@
 import { supabase } from "../lib/supabase";
-import { postJson, resolveApiAuthToken } from "./apiClient";
+import { getJson, postJson, resolveApiAuthToken } from "./apiClient";
 
 export type CareerUploadKind = "resume" | "cv";
 
@@ -102,7 +102,7 @@ export type CareerApplyPayload = {
   fullName: string;
   email: string;
   phone: string;
-  position: string;
+  openingId: number;
   linkedinUrl: string;
   whyHireYou: string;
   message?: string;
@@ -111,9 +111,58 @@ export type CareerApplyPayload = {
   resumePath?: string;
   cvPath?: string;
   honeypot?: string;
+  referralCode?: string;
 };
 
 export async function submitCareerApplyAuthed(payload: CareerApplyPayload) {
   const token = await getRequiredAuthToken();
   return postJson<CareerApplyPayload, { ok: true; id?: number }>("/api/careers/apply", payload, { token });
 }
+
+export type MyCareerApplication = {
+  id: number;
+  submission_id: number | null;
+  created_at: string;
+  position: string;
+  status: "new" | "reviewing" | "shortlisted" | "rejected" | "hired";
+  withdrawn_at: string | null;
+  withdrawal_reason: string | null;
+  resume_path: string | null;
+  history: Array<{
+    id: number;
+    created_at: string;
+    kind: "stage_changed" | "withdrawn" | "resume_replaced";
+    to_status: MyCareerApplication["status"] | null;
+  }>;
+  info_requests: Array<{
+    id: number;
+    created_at: string;
+    question: string;
+    response: string | null;
+    responded_at: string | null;
+  }>;
+};
+
+export async function fetchMyCareerApplications() {
+  const token = await getRequiredAuthToken();
+  return getJson<{ ok: true; items: MyCareerApplication[] }>("/api/careers/applications", { token });
+}
+
+export async function withdrawCareerApplication(id: number, reason?: string) {
+  const token = await getRequiredAuthToken();
+  return postJson<{ reason?: string }, { ok: true }>(`/api/careers/applications/${id}/withdraw`, { reason }, { token });
+}
+
+export async function replaceCareerResume(id: number, resumePath: string) {
+  const token = await getRequiredAuthToken();
+  return postJson<{ resumePath: string }, { ok: true }>(`/api/careers/applications/${id}/resume`, { resumePath }, { token });
+}
+
+export async function replyToCareerInfoRequest(id: number, requestId: number, response: string) {
+  const token = await getRequiredAuthToken();
+  return postJson<{ response: string }, { ok: true }>(
+    `/api/careers/applications/${id}/info-requests/${requestId}/reply`,
+    { response },
+    { token }
+  );
+}
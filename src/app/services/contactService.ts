@@ -19,11 +19,13 @@ export type HireUsPayload = {
   projectDescription: string;
   serviceDetails?: Record<string, string>;
   deliveryDays: number;
+  budget?: string;
   clarification?: string;
   personalMessage?: string;
   referenceUrl?: string;
   additionalNotes?: string;
   honeypot?: string;
+  referralCode?: string;
 };
 
 export type CareerPayload = {
@@ -56,7 +58,7 @@ export async function submitContactAuthed(payload: ContactPayload) {
 }
 
 export async function submitHireUsAuthed(payload: HireUsPayload) {
-  return postJson<{ type: string; data: Record<string, unknown>; honeypot?: string }, { ok: true }>(
+  return postJson<{ type: string; data: Record<string, unknown>; honeypot?: string; referralCode?: string }, { ok: true }>(
     "/api/submissions",
     {
       type: "hire",
@@ -70,12 +72,14 @@ export async function submitHireUsAuthed(payload: HireUsPayload) {
         projectDescription: payload.projectDescription,
         serviceDetails: payload.serviceDetails,
         deliveryDays: payload.deliveryDays,
+        budget: payload.budget,
         clarification: payload.clarification,
         personalMessage: payload.personalMessage,
         referenceUrl: payload.referenceUrl,
         additionalNotes: payload.additionalNotes,
       },
       honeypot: payload.honeypot,
+      referralCode: payload.referralCode,
     }
   );
 }
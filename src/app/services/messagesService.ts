@@ -0,0 +1,86 @@
+import { getJson, postJson } from "./apiClient";
+import { uploadFileToSignedUrlWithProgress } from "./careersService";
+
+export type ThreadKind = "order" | "submission";
+
+export type MessageAttachment = {
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+};
+
+export type ThreadMessage = {
+  id: number;
+  created_at: string;
+  author_role: "client" | "admin";
+  author_email: string | null;
+  body: string;
+  attachments: MessageAttachment[];
+};
+
+export type PostMessageInput = {
+  body: string;
+  attachments: MessageAttachment[];
+};
+
+export type AdminThread = {
+  id: number;
+  order_id: number | null;
+  submission_id: number | null;
+  last_message_at: string;
+  unread: number;
+  client_email: string | null;
+  client_name: string | null;
+  label: string;
+  last_body: string | null;
+  last_author_role: "client" | "admin" | null;
+};
+
+export type UnreadCounts = {
+  ok: true;
+  total: number;
+  orders: Record<number, number>;
+  submissions: Record<number, number>;
+};
+
+export async function fetchMyUnreadMessages() {
+  return getJson<UnreadCounts>("/api/portal/messages/unread");
+}
+
+export async function fetchThreadMessages(kind: ThreadKind, id: number, as: "client" | "admin" = "client") {
+  const base = as === "admin" ? "/api/admin/threads" : "/api/portal/threads";
+  return getJson<{ ok: true; items: ThreadMessage[] }>(`${base}/${kind}/${id}/messages`);
+}
+
+export async function postThreadMessage(kind: ThreadKind, id: number, input: PostMessageInput, as: "client" | "admin" = "client") {
+  const base = as === "admin" ? "/api/admin/threads" : "/api/portal/threads";
+  return postJson<PostMessageInput, { ok: true; message: ThreadMessage; emailed?: boolean }>(
+    `${base}/${kind}/${id}/messages`,
+    input
+  );
+}
+
+export async function fetchAdminThreads(unreadOnly = false) {
+  return getJson<{ ok: true; items: AdminThread[] }>(`/api/admin/threads${unreadOnly ? "?unread=1" : ""}`);
+}
+
+export async function fetchAdminUnreadMessageCount() {
+  return getJson<{ ok: true; total: number }>("/api/admin/threads/unread-count");
+}
+
+export async function getMessageAttachmentUrl(messageId: number, index: number) {
+  return getJson<{ ok: true; url: string; expiresInSeconds: number }>(`/api/messages/${messageId}/attachments/${index}`);
+}
+
+// Upload a file to the private bucket and return the attachment to send with a message.
+export async function uploadMessageAttachment(file: File, onProgress?: (pct: number) => void): Promise<MessageAttachment> {
+  const fileType = file.type || "application/octet-stream";
+  const upload = await postJson<
+    { fileName: string; fileType: string; fileSize: number },
+    { ok: true; bucket: string; path: string; token: string; signedUrl: string }
+  >("/api/messages/upload-url", { fileName: file.name, fileType, fileSize: file.size });
+
+  await uploadFileToSignedUrlWithProgress(upload.signedUrl, file, { onProgress });
+  return { path: upload.path, name: file.name, type: fileType, size: file.size };
+}
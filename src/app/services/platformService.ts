@@ -1,4 +1,7 @@
-import { deleteJson, getJson, patchJson, postJson, putJson } from "./apiClient";
+import { deleteJson, getBlob, getJson, patchJson, postJson, putJson } from "./apiClient";
+import { uploadFileToSignedUrlWithProgress } from "./careersService";
+
+export type BillingInterval = "one_time" | "monthly" | "quarterly" | "yearly";
 
 export type PricingItem = {
   id: number;
@@ -7,13 +10,25 @@ export type PricingItem = {
   plan_key: string;
   plan_name: string;
   price_inr: number;
+  billing_interval: BillingInterval;
 };
 
 export async function fetchPricing() {
   return getJson<{ ok: true; items: PricingItem[] }>("/api/pricing");
 }
 
-export async function createOrder(input: { pricingId: number; name: string; email: string }) {
+export type CreateOrderInput = {
+  pricingId: number;
+  name: string;
+  email: string;
+  billingAddress: string;
+  placeOfSupply: string;
+  gstin?: string;
+  couponCode?: string;
+  referralCode?: string;
+};
+
+export async function createOrder(input: CreateOrderInput) {
   return postJson<typeof input, {
     ok: true;
     orderId: number;
@@ -30,8 +45,161 @@ export async function verifyPayment(input: {
   return postJson<typeof input, { ok: true; invoiceNumber?: string; alreadyPaid?: boolean }>("/api/payments/verify", input);
 }
 
+export type CreateSubscriptionInput = Omit<CreateOrderInput, "couponCode">;
+
+export async function createSubscription(input: CreateSubscriptionInput) {
+  return postJson<typeof input, {
+    ok: true;
+    orderId: number;
+    subscriptionId: number;
+    razorpay: { keyId: string; subscriptionId: string };
+  }>("/api/subscriptions", input);
+}
+
+export async function verifySubscriptionPayment(input: {
+  subscriptionId: number;
+  razorpaySubscriptionId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+}) {
+  return postJson<typeof input, { ok: true; invoiceNumber?: string | null }>("/api/payments/subscriptions/verify", input);
+}
+
+export async function validateCoupon(input: { code: string; pricingId: number; email: string }) {
+  return postJson<typeof input, { ok: true; code: string; discountInr: number; finalPriceInr: number }>(
+    "/api/coupons/validate",
+    input
+  );
+}
+
+export type PaymentStatus = "pending" | "partially_paid" | "paid" | "failed" | "refunded";
+
+export type PortalMilestone = {
+  id: number;
+  label: string;
+  amount_inr: number;
+  due_date: string | null;
+  status: "pending" | "paid" | "failed";
+  paid_at: string | null;
+  has_invoice: boolean;
+};
+
+export type ProjectStatus = "received" | "in_progress" | "blocked" | "delivered" | "closed";
+
+export type PortalStatusEvent = {
+  id: number;
+  created_at: string;
+  to_status: ProjectStatus;
+  note: string | null;
+};
+
+export type PortalOrder = {
+  id: number;
+  created_at: string;
+  service_name: string;
+  plan_name: string;
+  price_inr: number;
+  payment_status: PaymentStatus;
+  project_status: ProjectStatus;
+  milestones: PortalMilestone[];
+  status_history: PortalStatusEvent[];
+  subscription_id: number | null;
+};
+
 export async function fetchPortalOrders() {
-  return getJson<{ ok: true; items: any[] }>("/api/portal/orders");
+  return getJson<{ ok: true; items: PortalOrder[] }>("/api/portal/orders");
+}
+
+export async function payMilestone(orderId: number, milestoneId: number) {
+  return postJson<Record<string, never>, {
+    ok: true;
+    orderId: number;
+    milestoneId: number;
+    razorpay: { keyId: string; orderId: string; amount: number; currency: "INR" };
+  }>(`/api/portal/orders/${orderId}/milestones/${milestoneId}/pay`, {});
+}
+
+export async function verifyMilestonePayment(input: {
+  milestoneId: number;
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+}) {
+  return postJson<typeof input, { ok: true; invoiceNumber?: string; alreadyPaid?: boolean }>(
+    "/api/payments/milestones/verify",
+    input
+  );
+}
+
+export async function downloadMilestoneInvoice(orderId: number, milestoneId: number) {
+  return getBlob(`/api/invoice/${orderId}/milestones/${milestoneId}`);
+}
+
+export type SubscriptionStatus =
+  | "created"
+  | "authenticated"
+  | "active"
+  | "pending"
+  | "halted"
+  | "paused"
+  | "cancelled"
+  | "completed"
+  | "expired";
+
+export type SubscriptionCharge = {
+  id: number;
+  created_at: string;
+  amount_paise: number;
+  period_start: string | null;
+  period_end: string | null;
+  invoice_number: string | null;
+};
+
+export type Subscription = {
+  id: number;
+  created_at: string;
+  order_id: number;
+  billing_interval: Exclude<BillingInterval, "one_time">;
+  status: SubscriptionStatus;
+  current_start: string | null;
+  current_end: string | null;
+  paid_count: number;
+  cancel_at_cycle_end: boolean;
+  paused_at: string | null;
+  cancelled_at: string | null;
+  service_name: string;
+  plan_name: string;
+  price_inr: number;
+  email: string;
+  charges: SubscriptionCharge[];
+};
+
+export async function fetchPortalSubscriptions() {
+  return getJson<{ ok: true; items: Subscription[] }>("/api/portal/subscriptions");
+}
+
+export async function pauseSubscription(id: number) {
+  return postJson<Record<string, never>, { ok: true; subscription: Subscription }>(`/api/portal/subscriptions/${id}/pause`, {});
+}
+
+export async function resumeSubscription(id: number) {
+  return postJson<Record<string, never>, { ok: true; subscription: Subscription }>(`/api/portal/subscriptions/${id}/resume`, {});
+}
+
+export async function cancelSubscription(id: number, atCycleEnd = true) {
+  return postJson<{ atCycleEnd: boolean }, { ok: true; subscription: Subscription }>(
+    `/api/portal/subscriptions/${id}/cancel`,
+    { atCycleEnd }
+  );
+}
+
+export async function downloadSubscriptionChargeInvoice(orderId: number, chargeId: number) {
+  return getBlob(`/api/invoice/${orderId}/subscription-charges/${chargeId}`);
+}
+
+export async function fetchAdminSubscriptions(status?: SubscriptionStatus) {
+  const qs = status ? `?status=${encodeURIComponent(status)}` : "";
+  return getJson<{ ok: true; items: Subscription[] }>(`/api/admin/subscriptions${qs}`);
 }
 
 export async function fetchAdminSummary() {
@@ -50,9 +218,368 @@ export async function updateUserRole(id: string, role: "admin" | "user") {
   return patchJson<{ role: string }, { ok: true }>(`/api/admin/users/${id}/role`, { role });
 }
 
+export type AdminOrder = {
+  id: number;
+  created_at: string;
+  name: string;
+  email: string;
+  service_name: string;
+  plan_name: string;
+  price_inr: number;
+  payment_status: PaymentStatus;
+  project_status: ProjectStatus;
+  razorpay_payment_id: string | null;
+  milestone_count: number;
+  milestones_paid_inr: number;
+  list_price_inr: number | null;
+  discount_inr: number;
+  coupon_code: string | null;
+  refunded_paise: number;
+};
+
+export type OrderRefund = {
+  id: number;
+  created_at: string;
+  amount_paise: number;
+  status: "pending" | "processed" | "failed";
+  reason: string | null;
+  razorpay_payment_id: string | null;
+  razorpay_refund_id: string;
+  actor_email: string | null;
+  credit_note_number: string | null;
+};
+
+// A captured payment on an order: the checkout payment, a milestone or a renewal.
+export type RefundablePayment = {
+  razorpay_payment_id: string;
+  label: string;
+  amount_paise: number;
+  refunded_paise: number;
+};
+
+export type OrderStatusEvent = PortalStatusEvent & {
+  from_status: ProjectStatus | null;
+  changed_by_email: string | null;
+  notified_at: string | null;
+};
+
+export async function fetchAdminOrderStatusHistory(orderId: number) {
+  return getJson<{ ok: true; items: OrderStatusEvent[] }>(`/api/admin/orders/${orderId}/status-history`);
+}
+
+export async function updateAdminOrderProjectStatus(
+  orderId: number,
+  input: { status: ProjectStatus; note?: string; notifyCustomer?: boolean }
+) {
+  return postJson<typeof input, { ok: true; event: OrderStatusEvent }>(`/api/admin/orders/${orderId}/project-status`, input);
+}
+
+export type DeliverableStatus = "in_review" | "changes_requested" | "approved";
+
+export type DeliverableVersion = {
+  id: number;
+  created_at: string;
+  version: number;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  notes: string | null;
+  uploaded_by_email: string | null;
+};
+
+export type Deliverable = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  order_id: number;
+  title: string;
+  description: string | null;
+  status: DeliverableStatus;
+  client_note: string | null;
+  approved_at: string | null;
+  approved_by_email: string | null;
+  versions: DeliverableVersion[];
+};
+
+export type DeliverableFile = { path: string; name: string; type: string; size: number };
+
+export async function fetchAdminOrderDeliverables(orderId: number) {
+  return getJson<{ ok: true; items: Deliverable[] }>(`/api/admin/orders/${orderId}/deliverables`);
+}
+
+// Upload a file into the order's private deliverables folder.
+export async function uploadDeliverableFile(orderId: number, file: File, onProgress?: (pct: number) => void) {
+  const fileType = file.type || "application/octet-stream";
+  const upload = await postJson<
+    { fileName: string; fileType: string; fileSize: number },
+    { ok: true; bucket: string; path: string; token: string; signedUrl: string }
+  >(`/api/admin/orders/${orderId}/deliverables/upload-url`, { fileName: file.name, fileType, fileSize: file.size });
+
+  await uploadFileToSignedUrlWithProgress(upload.signedUrl, file, { onProgress, timeoutMs: 30 * 60_000 });
+  return { path: upload.path, name: file.name, type: fileType, size: file.size } satisfies DeliverableFile;
+}
+
+export async function createAdminDeliverable(
+  orderId: number,
+  input: { title: string; description?: string; notes?: string; file: DeliverableFile }
+) {
+  return postJson<typeof input, { ok: true; deliverable: Deliverable }>(`/api/admin/orders/${orderId}/deliverables`, input);
+}
+
+export async function addAdminDeliverableVersion(deliverableId: number, input: { notes?: string; file: DeliverableFile }) {
+  return postJson<typeof input, { ok: true; deliverable: Deliverable }>(`/api/admin/deliverables/${deliverableId}/versions`, input);
+}
+
+export async function getDeliverableDownloadUrl(versionId: number) {
+  return getJson<{ ok: true; url: string; expiresInSeconds: number }>(`/api/deliverables/versions/${versionId}/download-url`);
+}
+
+export async function fetchPortalOrderDeliverables(orderId: number) {
+  return getJson<{ ok: true; items: Deliverable[] }>(`/api/portal/orders/${orderId}/deliverables`);
+}
+
+export async function approveDeliverable(deliverableId: number, note?: string) {
+  return postJson<{ note?: string }, { ok: true; projectDelivered: boolean; alreadyApproved?: boolean }>(
+    `/api/portal/deliverables/${deliverableId}/approve`,
+    { note }
+  );
+}
+
+export async function requestDeliverableChanges(deliverableId: number, note: string) {
+  return postJson<{ note: string }, { ok: true }>(`/api/portal/deliverables/${deliverableId}/request-changes`, { note });
+}
+
 export async function fetchAdminOrders(search?: string) {
   const q = search ? `?search=${encodeURIComponent(search)}` : "";
-  return getJson<{ ok: true; items: any[] }>(`/api/admin/orders${q}`);
+  return getJson<{ ok: true; items: AdminOrder[] }>(`/api/admin/orders${q}`);
+}
+
+export async function createAdminOrderRefund(
+  orderId: number,
+  input: { amountInr?: number; paymentId?: string; reason: string }
+) {
+  return postJson<typeof input, { ok: true; refundId: number; razorpayRefundId: string; amountPaise: number }>(
+    `/api/admin/orders/${orderId}/refund`,
+    input
+  );
+}
+
+export async function fetchAdminOrderRefunds(orderId: number) {
+  return getJson<{ ok: true; items: OrderRefund[]; payments: RefundablePayment[] }>(`/api/admin/orders/${orderId}/refunds`);
+}
+
+export async function downloadCreditNote(orderId: number, refundId: number) {
+  return getBlob(`/api/invoice/${orderId}/credit-notes/${refundId}`);
+}
+
+export type AdminMilestone = {
+  id: number;
+  created_at: string;
+  position: number;
+  label: string;
+  amount_inr: number;
+  due_date: string | null;
+  status: "pending" | "paid" | "failed";
+  paid_at: string | null;
+  invoice_number: string | null;
+};
+
+export type MilestoneInput = { label: string; amountInr: number; dueDate?: string | null };
+
+export async function fetchAdminOrderMilestones(orderId: number) {
+  return getJson<{ ok: true; items: AdminMilestone[] }>(`/api/admin/orders/${orderId}/milestones`);
+}
+
+export async function saveAdminOrderMilestones(orderId: number, milestones: MilestoneInput[]) {
+  return putJson<{ milestones: MilestoneInput[] }, { ok: true; items: AdminMilestone[] }>(
+    `/api/admin/orders/${orderId}/milestones`,
+    { milestones }
+  );
+}
+
+export type AdminCoupon = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  code: string;
+  description: string | null;
+  discount_type: "percent" | "flat";
+  discount_value: number;
+  service_key: string | null;
+  min_order_inr: number | null;
+  max_redemptions: number | null;
+  max_per_email: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  paid_redemptions: number;
+  active_redemptions: number;
+  total_discount_inr: number;
+};
+
+export type AdminCouponInput = {
+  code: string;
+  description?: string | null;
+  discountType: "percent" | "flat";
+  discountValue: number;
+  serviceKey?: string | null;
+  minOrderInr?: number | null;
+  maxRedemptions?: number | null;
+  maxPerEmail?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  isActive?: boolean;
+};
+
+export async function fetchAdminCoupons() {
+  return getJson<{ ok: true; items: AdminCoupon[] }>("/api/admin/coupons");
+}
+
+export async function createAdminCoupon(input: AdminCouponInput) {
+  return postJson<AdminCouponInput, { ok: true; id: number }>("/api/admin/coupons", input);
+}
+
+export async function updateAdminCoupon(id: number, input: Partial<AdminCouponInput>) {
+  return patchJson<Partial<AdminCouponInput>, { ok: true }>(`/api/admin/coupons/${id}`, input);
+}
+
+export async function deleteAdminCoupon(id: number) {
+  return deleteJson<{ ok: true; deactivated?: boolean }>(`/api/admin/coupons/${id}`);
+}
+
+export type MyReferral = {
+  code: string;
+  is_active: boolean;
+  link: string;
+  leads: number;
+  applications: number;
+  hired: number;
+  orders: number;
+  paid_orders: number;
+};
+
+export async function fetchMyReferral() {
+  return getJson<{ ok: true; referral: MyReferral }>("/api/referrals/me");
+}
+
+export type AdminReferrer = {
+  id: number;
+  created_at: string;
+  code: string;
+  is_active: boolean;
+  user_id: number;
+  user_name: string | null;
+  user_email: string | null;
+  leads: number;
+  applications: number;
+  hired: number;
+  orders: number;
+  paid_orders: number;
+  paid_revenue_inr: number;
+};
+
+export type AdminReferralConversion = {
+  kind: "hired" | "paid";
+  converted_at: string;
+  code: string;
+  referrer_email: string | null;
+  application_id: number | null;
+  order_id: number | null;
+  name: string;
+  email: string;
+  detail: string;
+  amount_inr: number | null;
+};
+
+export async function fetchAdminReferrals() {
+  return getJson<{ ok: true; referrers: AdminReferrer[]; conversions: AdminReferralConversion[] }>("/api/admin/referrals");
+}
+
+export async function setAdminReferralActive(id: number, isActive: boolean) {
+  return patchJson<{ isActive: boolean }, { ok: true }>(`/api/admin/referrals/${id}`, { isActive });
+}
+
+export type QuoteLineItem = { description: string; quantity: number; unitPriceInr: number };
+
+export type QuoteStatus = "draft" | "sent" | "accepted" | "declined";
+
+export type Quote = {
+  id: number;
+  created_at: string;
+  submission_id: number;
+  quote_number: string | null;
+  title: string;
+  client_name: string;
+  client_email: string;
+  client_company: string | null;
+  line_items: QuoteLineItem[];
+  tax_rate_percent: number;
+  subtotal_inr: number;
+  tax_inr: number;
+  total_inr: number;
+  valid_until: string;
+  terms: string | null;
+  status: QuoteStatus;
+  sent_at: string | null;
+  accepted_at: string | null;
+  declined_at: string | null;
+  decline_reason: string | null;
+  order_id: number | null;
+};
+
+export type QuoteInput = {
+  title: string;
+  clientName?: string;
+  clientEmail?: string;
+  clientCompany?: string | null;
+  lineItems: QuoteLineItem[];
+  taxRatePercent?: number;
+  validUntil: string;
+  terms?: string | null;
+};
+
+export async function fetchAdminSubmissionQuotes(submissionId: number) {
+  return getJson<{ ok: true; items: Quote[] }>(`/api/admin/submissions/${submissionId}/quotes`);
+}
+
+export async function createAdminQuote(submissionId: number, input: QuoteInput) {
+  return postJson<QuoteInput, { ok: true; quote: Quote }>(`/api/admin/submissions/${submissionId}/quotes`, input);
+}
+
+export async function updateAdminQuote(id: number, input: Partial<QuoteInput>) {
+  return patchJson<Partial<QuoteInput>, { ok: true; quote: Quote }>(`/api/admin/quotes/${id}`, input);
+}
+
+export async function sendAdminQuote(id: number) {
+  return postJson<Record<string, never>, { ok: true; quote: Quote; emailed: boolean }>(`/api/admin/quotes/${id}/send`, {});
+}
+
+export async function deleteAdminQuote(id: number) {
+  return deleteJson<{ ok: true }>(`/api/admin/quotes/${id}`);
+}
+
+export async function downloadQuotePdf(id: number) {
+  return getBlob(`/api/quotes/${id}/pdf`);
+}
+
+export type PortalQuote = Quote & { expired: boolean; order_payment_status: PaymentStatus | null };
+
+export async function fetchPortalQuotes() {
+  return getJson<{ ok: true; items: PortalQuote[] }>("/api/portal/quotes");
+}
+
+export type AcceptQuoteInput = { billingAddress: string; placeOfSupply: string; gstin?: string };
+
+export async function acceptPortalQuote(id: number, input: AcceptQuoteInput) {
+  return postJson<AcceptQuoteInput, {
+    ok: true;
+    orderId: number;
+    razorpay: { keyId: string; orderId: string; amount: number; currency: "INR" };
+  }>(`/api/portal/quotes/${id}/accept`, input);
+}
+
+export async function declinePortalQuote(id: number, reason?: string) {
+  return postJson<{ reason?: string }, { ok: true }>(`/api/portal/quotes/${id}/decline`, { reason });
 }
 
 export async function fetchAdminPricing() {
@@ -66,6 +593,8 @@ export async function upsertAdminPricing(
     planKey: string;
     planName: string;
     priceInr: number;
+    sacCode?: string | null;
+    billingInterval?: BillingInterval;
     isActive?: boolean;
     sortOrder?: number;
   }
@@ -81,6 +610,133 @@ export async function fetchAdminHireLeads() {
   return getJson<{ ok: true; items: any[] }>("/api/admin/leads/hire");
 }
 
+export type LeadStage = "new" | "contacted" | "qualified" | "proposal" | "won" | "lost";
+
+export type AdminLead = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  submission_id: number;
+  stage: LeadStage;
+  stage_changed_at: string;
+  lost_reason: string | null;
+  owner_email: string | null;
+  deal_value_inr: number | null;
+  type: "contact" | "hire";
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  title: string | null;
+  budget: string | null;
+  open_tasks: number;
+  next_due_at: string | null;
+};
+
+export type LeadTask = {
+  id: number;
+  created_at: string;
+  lead_id: number;
+  title: string;
+  due_at: string;
+  assignee_email: string | null;
+  completed_at: string | null;
+  completed_by_email: string | null;
+  created_by_email: string | null;
+};
+
+export type LeadActivity = {
+  id: number;
+  created_at: string;
+  kind: "note" | "stage_changed" | "owner_changed" | "value_changed" | "task_completed";
+  from_stage: LeadStage | null;
+  to_stage: LeadStage | null;
+  note: string | null;
+  actor_email: string | null;
+};
+
+export async function fetchAdminLeads(opts?: { stage?: LeadStage; type?: "contact" | "hire"; owner?: string; q?: string }) {
+  const params = new URLSearchParams();
+  if (opts?.stage) params.set("stage", opts.stage);
+  if (opts?.type) params.set("type", opts.type);
+  if (opts?.owner) params.set("owner", opts.owner);
+  if (opts?.q) params.set("q", opts.q);
+  const q = params.toString();
+  return getJson<{
+    ok: true;
+    items: AdminLead[];
+    totals: Array<{ stage: LeadStage; count: number; value_inr: number }>;
+  }>(`/api/admin/leads${q ? `?${q}` : ""}`);
+}
+
+export async function fetchAdminLeadOwners() {
+  return getJson<{ ok: true; owners: string[] }>("/api/admin/leads/owners");
+}
+
+export async function fetchAdminLeadTasks(opts?: { mine?: boolean }) {
+  return getJson<{
+    ok: true;
+    items: Array<LeadTask & { stage: LeadStage; lead_name: string | null; lead_title: string | null }>;
+  }>(`/api/admin/leads/tasks${opts?.mine ? "?assignee=me" : ""}`);
+}
+
+export async function fetchAdminLead(id: number) {
+  return getJson<{
+    ok: true;
+    lead: AdminLead & { data: Record<string, unknown> };
+    tasks: LeadTask[];
+    activities: LeadActivity[];
+  }>(`/api/admin/leads/${id}`);
+}
+
+export type UpdateAdminLeadInput = {
+  stage?: LeadStage;
+  lostReason?: string | null;
+  ownerEmail?: string | null;
+  dealValueInr?: number | null;
+};
+
+export async function updateAdminLead(id: number, input: UpdateAdminLeadInput) {
+  return patchJson<UpdateAdminLeadInput, { ok: true; stage: LeadStage }>(`/api/admin/leads/${id}`, input);
+}
+
+export async function addAdminLeadNote(id: number, note: string) {
+  return postJson<{ note: string }, { ok: true; activity: LeadActivity }>(`/api/admin/leads/${id}/notes`, { note });
+}
+
+export async function createAdminLeadTask(id: number, input: { title: string; dueAt: string; assigneeEmail?: string | null }) {
+  return postJson<typeof input, { ok: true; task: LeadTask }>(`/api/admin/leads/${id}/tasks`, input);
+}
+
+export async function setAdminLeadTaskCompleted(id: number, taskId: number, completed: boolean) {
+  return patchJson<{ completed: boolean }, { ok: true }>(`/api/admin/leads/${id}/tasks/${taskId}`, { completed });
+}
+
+export async function deleteAdminLeadTask(id: number, taskId: number) {
+  return deleteJson<{ ok: true }>(`/api/admin/leads/${id}/tasks/${taskId}`);
+}
+
+export type LegacyLeadAudit = {
+  tables: Array<{
+    table: string;
+    type: "contact" | "hire";
+    exists: boolean;
+    total: number;
+    migrated: number;
+    missing: Array<{ id: number; created_at: string; name: string | null; email: string | null }>;
+  }>;
+  submissions: Array<{ type: "contact" | "hire"; total: number; legacy: number }>;
+  submissionsWithoutLead: number;
+};
+
+export async function fetchAdminLegacyLeadAudit() {
+  return getJson<{ ok: true } & LegacyLeadAudit>("/api/admin/leads/legacy");
+}
+
+export async function runAdminLegacyLeadMigration() {
+  return postJson<Record<string, never>, { ok: true } & LegacyLeadAudit>("/api/admin/leads/legacy/migrate", {});
+}
+
 export async function fetchAdminSubmissions(
   opts?: { type?: "contact" | "hire" | "career"; q?: string; limit?: number }
 ) {
@@ -98,8 +754,11 @@ export async function deleteAdminSubmission(id: number) {
 
 export type SubmissionStatus = "new" | "reviewing" | "shortlisted" | "rejected" | "hired";
 
-export async function updateAdminSubmissionStatus(id: number, status: SubmissionStatus) {
-  return patchJson<{ status: SubmissionStatus }, { ok: true }>(`/api/admin/submissions/${id}/status`, { status });
+export async function updateAdminSubmissionStatus(id: number, status: SubmissionStatus, notify?: boolean) {
+  return patchJson<{ status: SubmissionStatus; notify?: boolean }, { ok: true; email?: CareerEmailLogEntry | null }>(
+    `/api/admin/submissions/${id}/status`,
+    { status, notify }
+  );
 }
 
 export type CareerApplicationStatus = "new" | "reviewing" | "shortlisted" | "rejected" | "hired";
@@ -115,8 +774,51 @@ export async function fetchAdminCareers(
   return getJson<{ ok: true; items: any[] }>(`/api/admin/careers${q ? `?${q}` : ""}`);
 }
 
-export async function updateAdminCareerStatus(id: number, status: CareerApplicationStatus) {
-  return patchJson<{ status: CareerApplicationStatus }, { ok: true }>(`/api/admin/careers/${id}`, { status });
+// `notify` sends (true) or suppresses (false) the candidate email for the new
+// status; leave it out to use the template's default.
+export async function updateAdminCareerStatus(id: number, status: CareerApplicationStatus, notify?: boolean) {
+  return patchJson<{ status: CareerApplicationStatus; notify?: boolean }, { ok: true; email: CareerEmailLogEntry | null }>(
+    `/api/admin/careers/${id}`,
+    { status, notify }
+  );
+}
+
+export async function bulkUpdateAdminCareerStatus(ids: number[], status: CareerApplicationStatus, notify?: boolean) {
+  return postJson<
+    { ids: number[]; status: CareerApplicationStatus; notify?: boolean },
+    {
+      ok: true;
+      updated: number;
+      skipped: Array<{ id: number; error: string }>;
+      emails: Record<CareerEmailLogEntry["outcome"], number>;
+    }
+  >("/api/admin/careers/bulk/status", { ids, status, notify });
+}
+
+// Sends the template for `status` to the selected applications that are at
+// that status, e.g. the rejection email to already-rejected candidates.
+export async function bulkSendAdminCareerEmails(ids: number[], status: CareerEmailStatus) {
+  return postJson<
+    { ids: number[]; status: CareerEmailStatus },
+    { ok: true; emails: Record<CareerEmailLogEntry["outcome"], number>; skipped: number }
+  >("/api/admin/careers/bulk/email", { ids, status });
+}
+
+export async function downloadAdminCareerResumesZip(ids: number[]) {
+  return getBlob(`/api/admin/careers/resumes.zip?ids=${ids.join(",")}`);
+}
+
+export async function exportAdminCareers(opts: {
+  format: "csv" | "xlsx";
+  q?: string;
+  status?: CareerApplicationStatus;
+  ids?: number[];
+}) {
+  const params = new URLSearchParams({ format: opts.format });
+  if (opts.q) params.set("q", opts.q);
+  if (opts.status) params.set("status", opts.status);
+  if (opts.ids?.length) params.set("ids", opts.ids.join(","));
+  return getBlob(`/api/admin/careers/export?${params.toString()}`);
 }
 
 export async function createAdminCareerDownloadUrl(
@@ -131,6 +833,20 @@ export async function createAdminCareerDownloadUrl(
   return getJson<{ ok: true; url: string; expiresInSeconds: number }>(`/api/admin/careers/${id}/download-url?${q}`);
 }
 
+export async function reindexAdminCareerResume(id: number) {
+  return postJson<
+    Record<string, never>,
+    { ok: true; indexed: boolean; resume_extracted_at: string | null; resume_extract_error: string | null }
+  >(`/api/admin/careers/${id}/resume-text`, {});
+}
+
+export async function backfillAdminCareerResumes() {
+  return postJson<Record<string, never>, { ok: true; processed: number; indexed: number; remaining: number }>(
+    "/api/admin/careers/resume-text/backfill",
+    {}
+  );
+}
+
 export async function createAdminResumesDownloadUrlByPath(
   path: string,
   expiresInSeconds?: number
@@ -141,12 +857,376 @@ export async function createAdminResumesDownloadUrlByPath(
   );
 }
 
+export type EmploymentType = "full_time" | "part_time" | "contract" | "internship";
+
+export type JobOpening = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  slug: string;
+  title: string;
+  department: string | null;
+  location: string;
+  employment_type: EmploymentType;
+  salary_min_inr: number | null;
+  salary_max_inr: number | null;
+  description_html: string;
+  requirements: string[];
+  status: "open" | "closed";
+  closed_at: string | null;
+  sort_order: number;
+};
+
+export async function fetchCareerOpenings() {
+  return getJson<{ ok: true; items: JobOpening[] }>("/api/careers/openings");
+}
+
+export type JobOpeningInput = {
+  title: string;
+  department: string | null;
+  location: string;
+  employmentType: EmploymentType;
+  salaryMinInr: number | null;
+  salaryMaxInr: number | null;
+  descriptionHtml: string;
+  requirements: string[];
+  status: JobOpening["status"];
+  sortOrder: number;
+};
+
+export async function fetchAdminJobOpenings() {
+  return getJson<{ ok: true; items: Array<JobOpening & { applications: number }> }>("/api/admin/careers/openings");
+}
+
+export async function createAdminJobOpening(input: JobOpeningInput) {
+  return postJson<JobOpeningInput, { ok: true; opening: JobOpening }>("/api/admin/careers/openings", input);
+}
+
+export async function updateAdminJobOpening(id: number, input: JobOpeningInput) {
+  return putJson<JobOpeningInput, { ok: true; opening: JobOpening }>(`/api/admin/careers/openings/${id}`, input);
+}
+
+export async function deleteAdminJobOpening(id: number) {
+  return deleteJson<{ ok: true }>(`/api/admin/careers/openings/${id}`);
+}
+
+export type PipelineStage = {
+  id: number;
+  position: string | null;
+  label: string;
+  sort_order: number;
+  maps_to_status: CareerApplicationStatus;
+};
+
+export type PipelineCandidate = {
+  id: number;
+  created_at: string;
+  full_name: string;
+  email: string;
+  position: string;
+  status: CareerApplicationStatus;
+  stage_id: number | null;
+  next_interview_at: string | null;
+  interview_count: number;
+  avg_rating: number | null;
+};
+
+export async function fetchAdminCareerPipeline(position?: string | null) {
+  const q = position ? `?position=${encodeURIComponent(position)}` : "";
+  return getJson<{
+    ok: true;
+    position: string | null;
+    stages: PipelineStage[];
+    applications: PipelineCandidate[];
+    positions: Array<{ position: string; applications: number; has_pipeline: boolean }>;
+  }>(`/api/admin/careers/pipeline${q}`);
+}
+
+export async function saveAdminCareerPipelineStages(input: {
+  position: string | null;
+  stages: Array<{ id?: number; label: string; status: CareerApplicationStatus }>;
+}) {
+  return putJson<typeof input, { ok: true; stages: PipelineStage[] }>("/api/admin/careers/pipeline/stages", input);
+}
+
+export async function resetAdminCareerPipelineStages(position: string) {
+  return deleteJson<{ ok: true; stages: PipelineStage[] }>(
+    `/api/admin/careers/pipeline/stages?position=${encodeURIComponent(position)}`
+  );
+}
+
+export type CareerEvent = {
+  id: number;
+  created_at: string;
+  kind: "stage_changed" | "note" | "withdrawn" | "resume_replaced" | "info_requested" | "info_replied" | "merged" | "unmerged";
+  from_stage: string | null;
+  to_stage: string | null;
+  to_status: CareerApplicationStatus | null;
+  note: string | null;
+  actor_email: string | null;
+};
+
+export type ScorecardRecommendation = "strong_no" | "no" | "yes" | "strong_yes";
+
+export type InterviewScorecard = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  author_email: string;
+  ratings: Record<string, number>;
+  overall_rating: number;
+  recommendation: ScorecardRecommendation;
+  notes: string | null;
+};
+
+export type CareerInterview = {
+  id: number;
+  created_at: string;
+  application_id: number;
+  round_name: string;
+  scheduled_at: string;
+  duration_minutes: number;
+  interviewer_name: string;
+  interviewer_email: string | null;
+  meeting_url: string | null;
+  status: "scheduled" | "completed" | "cancelled";
+  invite_sent_at: string | null;
+  created_by_email: string | null;
+  scorecards: InterviewScorecard[];
+};
+
+export async function moveAdminCareerStage(id: number, input: { stageId: number; note?: string; notify?: boolean }) {
+  return postJson<typeof input, { ok: true; stage: PipelineStage; event: CareerEvent | null; email: CareerEmailLogEntry | null }>(
+    `/api/admin/careers/${id}/stage`,
+    input
+  );
+}
+
+export async function addAdminCareerNote(id: number, note: string) {
+  return postJson<{ note: string }, { ok: true; event: CareerEvent }>(`/api/admin/careers/${id}/notes`, { note });
+}
+
+export async function fetchAdminCareerTimeline(id: number) {
+  return getJson<{
+    ok: true;
+    application: {
+      id: number;
+      created_at: string;
+      full_name: string;
+      email: string;
+      phone: string;
+      position: string;
+      status: CareerApplicationStatus;
+      stage_id: number | null;
+      stage_label: string | null;
+      withdrawn_at: string | null;
+      withdrawal_reason: string | null;
+    };
+    events: CareerEvent[];
+    interviews: CareerInterview[];
+    infoRequests: CareerInfoRequest[];
+    emails: CareerEmailLogEntry[];
+  }>(`/api/admin/careers/${id}/timeline`);
+}
+
+export type CareerApplicationSummary = {
+  id: number;
+  created_at: string;
+  full_name: string;
+  email: string;
+  phone: string;
+  position: string;
+  status: CareerApplicationStatus;
+  withdrawn_at: string | null;
+};
+
+export async function fetchAdminCareerDuplicates(id: number) {
+  return getJson<{
+    ok: true;
+    candidate: { id: number; created_at: string; full_name: string; email: string; merged_by_email: string | null } | null;
+    linked: CareerApplicationSummary[];
+    duplicates: Array<CareerApplicationSummary & { reasons: string[]; strong: boolean }>;
+  }>(`/api/admin/careers/${id}/duplicates`);
+}
+
+export async function mergeAdminCareerApplications(applicationIds: number[]) {
+  return postJson<{ applicationIds: number[] }, { ok: true; candidateId: number; applicationIds: number[] }>(
+    "/api/admin/careers/merge",
+    { applicationIds }
+  );
+}
+
+export async function unlinkAdminCareerApplication(id: number) {
+  return postJson<Record<string, never>, { ok: true }>(`/api/admin/careers/${id}/unlink`, {});
+}
+
+export type CareerInfoRequest = {
+  id: number;
+  created_at: string;
+  question: string;
+  requested_by_email: string | null;
+  response: string | null;
+  responded_at: string | null;
+};
+
+export async function requestAdminCareerInfo(id: number, question: string) {
+  return postJson<{ question: string }, { ok: true; request: CareerInfoRequest }>(
+    `/api/admin/careers/${id}/info-requests`,
+    { question }
+  );
+}
+
+export type CareerEmailStatus = "shortlisted" | "rejected" | "hired";
+
+export type CareerEmailTemplate = {
+  status: CareerEmailStatus;
+  subject: string;
+  body: string;
+  send_by_default: boolean;
+  updated_by_email: string | null;
+  updated_at: string;
+};
+
+export type CareerEmailLogEntry = {
+  id: number;
+  created_at: string;
+  status: CareerEmailStatus;
+  to_email: string;
+  subject: string;
+  body: string;
+  outcome: "sent" | "suppressed" | "failed";
+  error: string | null;
+  actor_email: string | null;
+};
+
+export async function fetchAdminCareerEmailTemplates() {
+  return getJson<{ ok: true; items: CareerEmailTemplate[]; variables: string[] }>("/api/admin/careers/email-templates");
+}
+
+export async function updateAdminCareerEmailTemplate(
+  status: CareerEmailStatus,
+  input: { subject: string; body: string; sendByDefault: boolean }
+) {
+  return putJson<typeof input, { ok: true; item: CareerEmailTemplate }>(`/api/admin/careers/email-templates/${status}`, input);
+}
+
+export async function previewAdminCareerEmailTemplate(
+  status: CareerEmailStatus,
+  input: { subject?: string; body?: string; applicationId?: number }
+) {
+  return postJson<typeof input, { ok: true; to: string | null; subject: string; text: string }>(
+    `/api/admin/careers/email-templates/${status}/preview`,
+    input
+  );
+}
+
+export type InterviewInput = {
+  roundName: string;
+  scheduledAt: string;
+  durationMinutes: number;
+  interviewerName: string;
+  interviewerEmail?: string | null;
+  meetingUrl?: string | null;
+  sendInvite?: boolean;
+};
+
+export async function scheduleAdminInterview(applicationId: number, input: InterviewInput) {
+  return postJson<InterviewInput, { ok: true; interview: CareerInterview; inviteSent: boolean }>(
+    `/api/admin/careers/${applicationId}/interviews`,
+    input
+  );
+}
+
+export async function updateAdminInterview(
+  id: number,
+  input: Partial<InterviewInput> & { status?: CareerInterview["status"] }
+) {
+  return patchJson<typeof input, { ok: true; interview: CareerInterview; inviteSent: boolean }>(
+    `/api/admin/careers/interviews/${id}`,
+    input
+  );
+}
+
+export async function resendAdminInterviewInvite(id: number) {
+  return postJson<Record<string, never>, { ok: true }>(`/api/admin/careers/interviews/${id}/invite`, {});
+}
+
+export async function submitAdminScorecard(
+  interviewId: number,
+  input: { ratings: Record<string, number>; overallRating: number; recommendation: ScorecardRecommendation; notes?: string }
+) {
+  return postJson<typeof input, { ok: true; scorecard: InterviewScorecard }>(
+    `/api/admin/careers/interviews/${interviewId}/scorecards`,
+    input
+  );
+}
+
+export type AdminContentItem = {
+  key: string;
+  // null while the key only has a draft.
+  value: unknown;
+  updated_at: string;
+  draft_value: unknown;
+  draft_updated_at: string | null;
+  draft_updated_by: string | null;
+  publish_at: string | null;
+  unpublish_at: string | null;
+};
+
+export type ContentRevision = {
+  id: number;
+  created_at: string;
+  content_key: string;
+  action: "draft" | "publish" | "rollback";
+  summary: string | null;
+  author_email: string | null;
+  restored_from_id: number | null;
+};
+
 export async function fetchAdminContent() {
-  return getJson<{ ok: true; items: Array<{ key: string; value: unknown; updated_at: string }> }>("/api/admin/content");
+  return getJson<{ ok: true; items: AdminContentItem[] }>("/api/admin/content");
 }
 
-export async function upsertAdminContent(input: { key: string; value: unknown }) {
-  return putJson<typeof input, { ok: true }>("/api/admin/content", input);
+// publish: false saves a draft; omitted publishes immediately.
+export async function upsertAdminContent(input: { key: string; value: unknown; publish?: boolean }) {
+  // sanitizedBlocks lists html blocks the server cleaned; value is what was saved.
+  return putJson<typeof input, { ok: true; revision: ContentRevision; sanitizedBlocks: number[]; value: unknown }>(
+    "/api/admin/content",
+    input
+  );
+}
+
+export async function setAdminContentSchedule(key: string, input: { publishAt: string | null; unpublishAt: string | null }) {
+  return patchJson<typeof input, { ok: true; item: { key: string; publish_at: string | null; unpublish_at: string | null } }>(
+    `/api/admin/content/${encodeURIComponent(key)}/schedule`,
+    input
+  );
+}
+
+export async function discardAdminContentDraft(key: string) {
+  return deleteJson<{ ok: true }>(`/api/admin/content/${encodeURIComponent(key)}/draft`);
+}
+
+export async function fetchAdminContentRevisions(key: string) {
+  return getJson<{ ok: true; items: ContentRevision[] }>(`/api/admin/content/${encodeURIComponent(key)}/revisions`);
+}
+
+export async function fetchAdminContentRevision(id: number) {
+  return getJson<{ ok: true; revision: ContentRevision & { value: unknown } }>(`/api/admin/content-revisions/${id}`);
+}
+
+export async function rollbackAdminContentRevision(id: number) {
+  return postJson<Record<string, never>, { ok: true; revision: ContentRevision }>(
+    `/api/admin/content-revisions/${id}/rollback`,
+    {}
+  );
+}
+
+export async function createAdminContentPreviewToken(key: string) {
+  return postJson<Record<string, never>, { ok: true; token: string; expiresAt: string }>(
+    `/api/admin/content/${encodeURIComponent(key)}/preview-token`,
+    {}
+  );
 }
 
 export type CreateAdminAssetUploadUrlInput = {
@@ -171,11 +1251,111 @@ export async function createAdminAssetUploadUrl(input: CreateAdminAssetUploadUrl
   );
 }
 
-export async function fetchPublicContent(keys: string[]) {
+export async function fetchPublicContent(keys: string[], opts?: { preview?: string }) {
   const params = new URLSearchParams();
   if (keys.length) params.set("keys", keys.join(","));
+  if (opts?.preview) params.set("preview", opts.preview);
   const q = params.toString();
-  return getJson<{ ok: true; items: Array<{ key: string; value: unknown; updated_at: string }> }>(
+  return getJson<{ ok: true; items: Array<{ key: string; value: unknown; updated_at: string; preview?: boolean }> }>(
     `/api/content${q ? `?${q}` : ""}`
   );
 }
+
+// ── Content collections ──────────────────────────────────────────────────────
+// Keep in sync with server/src/lib/contentCollections.ts.
+export type ServiceIconName =
+  | "code"
+  | "smartphone"
+  | "cloud"
+  | "lightbulb"
+  | "database"
+  | "shield"
+  | "zap"
+  | "bar-chart"
+  | "globe"
+  | "cpu"
+  | "palette"
+  | "headphones";
+
+export type CollectionItemData = {
+  services: { title: string; description: string; features: string[]; icon: ServiceIconName; featured?: boolean };
+  portfolio: {
+    title: string;
+    category: string;
+    summary?: string;
+    imageUrl?: string;
+    link?: string;
+    tags: string[];
+    featured?: boolean;
+  };
+  team: { name: string; role: string; experience?: string; bio?: string; imageUrl?: string; linkedinUrl?: string };
+  testimonials: { name: string; role?: string; content: string; rating: number };
+  timeline: { year: string; title: string; description: string };
+};
+
+export type ContentCollection = keyof CollectionItemData;
+
+export type AdminCollectionItem<C extends ContentCollection = ContentCollection> = {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  collection: C;
+  data: CollectionItemData[C];
+  is_published: boolean;
+  sort_order: number;
+  updated_by_email: string | null;
+};
+
+// Published items in display order; empty when the site should use its built-in content.
+export async function fetchContentCollection<C extends ContentCollection>(collection: C) {
+  return getJson<{ ok: true; items: Array<{ id: number; data: CollectionItemData[C] }> }>(
+    `/api/content/collections/${collection}`
+  );
+}
+
+export async function fetchAdminCollectionCounts() {
+  return getJson<{ ok: true; items: Array<{ collection: ContentCollection; total: number; published: number }> }>(
+    "/api/admin/collections"
+  );
+}
+
+export async function fetchAdminCollection<C extends ContentCollection>(collection: C) {
+  return getJson<{ ok: true; items: AdminCollectionItem<C>[] }>(`/api/admin/collections/${collection}`);
+}
+
+export type CollectionItemInput<C extends ContentCollection> = { data: CollectionItemData[C]; isPublished: boolean };
+
+export async function createAdminCollectionItem<C extends ContentCollection>(collection: C, input: CollectionItemInput<C>) {
+  return postJson<CollectionItemInput<C>, { ok: true; item: AdminCollectionItem<C> }>(
+    `/api/admin/collections/${collection}`,
+    input
+  );
+}
+
+export async function updateAdminCollectionItem<C extends ContentCollection>(
+  collection: C,
+  id: number,
+  input: CollectionItemInput<C>
+) {
+  return putJson<CollectionItemInput<C>, { ok: true; item: AdminCollectionItem<C> }>(
+    `/api/admin/collections/${collection}/${id}`,
+    input
+  );
+}
+
+export async function deleteAdminCollectionItem(collection: ContentCollection, id: number) {
+  return deleteJson<{ ok: true }>(`/api/admin/collections/${collection}/${id}`);
+}
+
+// `ids` must list every item of the collection in the new order.
+export async function reorderAdminCollection(collection: ContentCollection, ids: number[]) {
+  return putJson<{ ids: number[] }, { ok: true }>(`/api/admin/collections/${collection}/order`, { ids });
+}
+
+// Seeds an empty collection, e.g. with the site's built-in fallback content.
+export async function importAdminCollection<C extends ContentCollection>(collection: C, items: CollectionItemData[C][]) {
+  return postJson<{ items: CollectionItemData[C][] }, { ok: true; items: AdminCollectionItem<C>[] }>(
+    `/api/admin/collections/${collection}/import`,
+    { items }
+  );
+}